@@ -63,6 +63,11 @@ jest.mock('@/lib/services/container', () => ({
         timestamp: Date.now(),
       })),
     })),
+    // Firestore backend, reading through the mocked @/lib/firestore above
+    isStorageAvailable: jest.fn(() => require('@/lib/firestore').isFirestoreAvailable()),
+    getArticleRepository: jest.fn(() => ({
+      list: (limit: number) => require('@/lib/firestore').getArticles(limit),
+    })),
   },
 }));
 
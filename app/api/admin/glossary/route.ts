@@ -0,0 +1,128 @@
+/**
+ * Admin endpoint for the translation glossary
+ * GET: all terms, POST: add or edit a term, DELETE: remove an added term or disable a built-in one
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ServiceContainer } from '@/lib/services/container';
+import { validateGlossaryTerm, formatZodErrors } from '@/lib/validators';
+import { GLOSSARY_KINDS, type GlossaryKind } from '@/lib/domain/glossary';
+import { logger } from '@/lib/logger';
+
+function storageUnavailable(): NextResponse | null {
+  if (!ServiceContainer.getTranslationGlossary().isAvailable()) {
+    return NextResponse.json(
+      { success: false, error: 'Storage not available' },
+      { status: 503 }
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/admin/glossary?kind=prison
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req) ?? storageUnavailable();
+  if (denied) return denied;
+
+  try {
+    const kind = new URL(req.url).searchParams.get('kind');
+    if (kind && !GLOSSARY_KINDS.includes(kind as GlossaryKind)) {
+      return NextResponse.json(
+        { success: false, error: `kind must be one of: ${GLOSSARY_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const terms = (await ServiceContainer.getTranslationGlossary().list())
+      .filter(term => !kind || term.kind === kind);
+
+    return NextResponse.json({ success: true, terms, count: terms.length });
+  } catch (error) {
+    logger.error('glossary_fetch_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch glossary' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/glossary
+ * Body: { id?, fa, en, kind, faAliases?, enAliases?, note?, disabled? }
+ * Without an id the term gets one from its English form; a built-in term's id overrides it
+ */
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req) ?? storageUnavailable();
+  if (denied) return denied;
+
+  try {
+    const validation = validateGlossaryTerm(await req.json().catch(() => null));
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid term',
+          details: formatZodErrors(validation.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const term = await ServiceContainer.getTranslationGlossary().save(validation.data);
+
+    return NextResponse.json({ success: true, term });
+  } catch (error) {
+    logger.error('glossary_save_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { success: false, error: 'Failed to save term' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/glossary?id=evin
+ */
+export async function DELETE(req: NextRequest) {
+  const denied = requireAdmin(req) ?? storageUnavailable();
+  if (denied) return denied;
+
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: 'id query parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const outcome = await ServiceContainer.getTranslationGlossary().remove(id);
+    if (!outcome) {
+      return NextResponse.json({ success: false, error: 'Term not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: outcome === 'disabled' ? `Built-in term ${id} disabled` : `Term ${id} deleted`,
+    });
+  } catch (error) {
+    logger.error('glossary_delete_failed', {
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete term' },
+      { status: 500 }
+    );
+  }
+}
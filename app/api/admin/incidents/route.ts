@@ -0,0 +1,71 @@
+/**
+ * Admin endpoint to review incidents
+ * Verifying or debunking an incident updates the reputation of the sources that reported it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ServiceContainer } from '@/lib/services/container';
+import { validateUpdateIncident, formatZodErrors } from '@/lib/validators';
+import { logger } from '@/lib/logger';
+
+/**
+ * PATCH /api/admin/incidents
+ * Body: { id, verified?, debunked?, ...other UpdateIncidentSchema fields }
+ */
+export async function PATCH(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const repository = ServiceContainer.getIncidentRepository();
+  if (!repository.isAvailable()) {
+    return NextResponse.json(
+      { success: false, error: 'Storage not available' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const validation = validateUpdateIncident(await req.json().catch(() => null));
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid update',
+          details: formatZodErrors(validation.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id, ...updates } = validation.data;
+    if (!(await repository.getById(id))) {
+      return NextResponse.json({ success: false, error: 'Incident not found' }, { status: 404 });
+    }
+
+    const isReview = updates.verified !== undefined || updates.debunked !== undefined;
+    await repository.update(id, {
+      ...updates,
+      // A debunked report cannot stay verified
+      ...(updates.debunked && { verified: false }),
+      ...(isReview && { reviewedAt: Date.now() }),
+    });
+
+    logger.info('incident_reviewed', {
+      incident_id: id,
+      verified: updates.verified,
+      debunked: updates.debunked,
+    });
+
+    return NextResponse.json({ success: true, incident: await repository.getById(id) });
+  } catch (error) {
+    logger.error('incident_review_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { success: false, error: 'Failed to update incident' },
+      { status: 500 }
+    );
+  }
+}
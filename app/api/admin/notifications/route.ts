@@ -0,0 +1,86 @@
+/**
+ * Admin endpoint for push notification delivery
+ * GET: delivery stats over a range, or the delivery log of one subscription
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ServiceContainer } from '@/lib/services/container';
+import { logger } from '@/lib/logger';
+
+const RANGES: Record<string, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * GET /api/admin/notifications?range=24h|7d|30d
+ * GET /api/admin/notifications?subscription=<id>&limit=50
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  if (!ServiceContainer.getDeliveryRepository().isAvailable()) {
+    return NextResponse.json(
+      { success: false, error: 'Storage not available' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const deliveryLog = ServiceContainer.getDeliveryLog();
+    const subscriptionId = searchParams.get('subscription');
+
+    if (subscriptionId) {
+      const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 500);
+      const deliveries = await deliveryLog.getSubscriptionLog(subscriptionId, limit);
+      return NextResponse.json({ success: true, subscriptionId, deliveries, count: deliveries.length });
+    }
+
+    const range = searchParams.get('range') || '24h';
+    if (!RANGES[range]) {
+      return NextResponse.json(
+        { success: false, error: `range must be one of: ${Object.keys(RANGES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [stats, subscriptions, pendingDigests] = await Promise.all([
+      deliveryLog.getStats(Date.now() - RANGES[range]),
+      ServiceContainer.getSubscriptionRepository().getAll(),
+      ServiceContainer.getDigestRepository().getPending(),
+    ]);
+
+    const deliveryModes = { instant: 0, hourly: 0, daily: 0 };
+    for (const subscription of subscriptions) {
+      deliveryModes[subscription.preferences?.delivery ?? 'instant']++;
+    }
+
+    return NextResponse.json({
+      success: true,
+      range,
+      stats,
+      subscriptions: {
+        total: subscriptions.length,
+        withPreferences: subscriptions.filter(subscription => subscription.preferences).length,
+        deliveryModes,
+      },
+      pendingDigests: {
+        count: pendingDigests.length,
+        items: pendingDigests.reduce((sum, digest) => sum + digest.items.length, 0),
+      },
+    });
+  } catch (error) {
+    logger.error('notification_stats_fetch_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch notification stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Admin endpoint for the source reputation ledger
+ * GET: all sources (or one with ?source=), POST: manual evidence, DELETE: reset a source
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ServiceContainer } from '@/lib/services/container';
+import { validateReputationEvidence, formatZodErrors } from '@/lib/validators';
+import { logger } from '@/lib/logger';
+
+function storageUnavailable(): NextResponse | null {
+  if (!ServiceContainer.getReputationRepository().isAvailable()) {
+    return NextResponse.json(
+      { success: false, error: 'Storage not available' },
+      { status: 503 }
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/admin/reputation?source=telegram:iranintl&limit=100
+ * Sources sorted by score, lowest first (the ones to review)
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req) ?? storageUnavailable();
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const ledger = ServiceContainer.getReputationLedger();
+    const source = searchParams.get('source');
+
+    if (source) {
+      const reputation = await ledger.get(source);
+      return reputation
+        ? NextResponse.json({ success: true, reputation })
+        : NextResponse.json({ success: false, error: 'Source not found' }, { status: 404 });
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '200') || 200, 1000);
+    const sources = (await ledger.list())
+      .sort((a, b) => a.score - b.score)
+      .slice(0, limit)
+      .map(({ recentEvidence, ...summary }) => ({
+        ...summary,
+        lastEvidence: recentEvidence[0],
+      }));
+
+    return NextResponse.json({ success: true, sources, count: sources.length });
+  } catch (error) {
+    logger.error('reputation_fetch_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reputation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/reputation
+ * Body: { sourceKey, polarity: 'positive' | 'negative', weight?, note? }
+ */
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req) ?? storageUnavailable();
+  if (denied) return denied;
+
+  try {
+    const validation = validateReputationEvidence(await req.json().catch(() => null));
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid evidence',
+          details: formatZodErrors(validation.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { sourceKey, polarity, weight, note } = validation.data;
+    const ledger = ServiceContainer.getReputationLedger();
+    await ledger.record([{
+      sourceKey,
+      evidence: {
+        id: `manual:${randomUUID()}`,
+        kind: 'manual',
+        polarity,
+        weight,
+        ...(note && { note }),
+      },
+    }]);
+
+    logger.info('reputation_manual_evidence', { source_key: sourceKey, polarity, weight });
+
+    return NextResponse.json({ success: true, reputation: await ledger.get(sourceKey) });
+  } catch (error) {
+    logger.error('reputation_evidence_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { success: false, error: 'Failed to record evidence' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/reputation?source=telegram:iranintl
+ * Drop a source's record (it returns to the neutral score)
+ */
+export async function DELETE(req: NextRequest) {
+  const denied = requireAdmin(req) ?? storageUnavailable();
+  if (denied) return denied;
+
+  const source = new URL(req.url).searchParams.get('source');
+  if (!source) {
+    return NextResponse.json(
+      { success: false, error: 'source query parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  await ServiceContainer.getReputationLedger().reset(source);
+
+  return NextResponse.json({ success: true, message: `Reputation reset for ${source}` });
+}
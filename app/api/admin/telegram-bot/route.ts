@@ -0,0 +1,64 @@
+/**
+ * Admin endpoint for the Telegram reader bot
+ * GET: bot info; POST: point the bot's webhook at this deployment; DELETE: remove it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getBotInfo, setWebhook, deleteWebhook } from '@/lib/telegram-scraper';
+
+function notConfigured(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'TELEGRAM_READER_BOT_TOKEN and TELEGRAM_WEBHOOK_SECRET are required' },
+    { status: 503 }
+  );
+}
+
+/**
+ * GET /api/admin/telegram-bot
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const token = process.env.TELEGRAM_READER_BOT_TOKEN;
+  if (!token) return notConfigured();
+
+  const info = await getBotInfo(token);
+  return NextResponse.json({ success: !info.error, ...info }, { status: info.error ? 502 : 200 });
+}
+
+/**
+ * POST /api/admin/telegram-bot
+ * Registers <origin>/api/telegram/webhook for private messages
+ */
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const token = process.env.TELEGRAM_READER_BOT_TOKEN;
+  const secretToken = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!token || !secretToken) return notConfigured();
+
+  const webhookUrl = new URL('/api/telegram/webhook', process.env.NEXT_PUBLIC_BASE_URL || req.nextUrl.origin).toString();
+  const result = await setWebhook(webhookUrl, { token, secretToken, allowedUpdates: ['message'] });
+
+  return NextResponse.json(
+    { success: !!result.success, webhookUrl, ...result },
+    { status: result.success ? 200 : 502 }
+  );
+}
+
+/**
+ * DELETE /api/admin/telegram-bot
+ */
+export async function DELETE(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const token = process.env.TELEGRAM_READER_BOT_TOKEN;
+  if (!token) return notConfigured();
+
+  const result = await deleteWebhook(token);
+  return NextResponse.json({ success: !!result.success, ...result }, { status: result.success ? 200 : 502 });
+}
@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { updateIncident, getIncidents, isFirestoreAvailable } from '@/lib/firestore';
+import { ServiceContainer } from '@/lib/services/container';
 import { logger } from '@/lib/logger';
 
 // Real, CURRENT Twitter URLs (January 2026)
@@ -75,15 +75,16 @@ export async function POST(request: NextRequest) {
   //   }
   // }
 
-  if (!isFirestoreAvailable()) {
+  const repository = ServiceContainer.getIncidentRepository();
+  if (!repository.isAvailable()) {
     return NextResponse.json(
-      { error: 'Firestore not available' },
+      { error: 'Storage not available' },
       { status: 503 }
     );
   }
 
   try {
-    const allIncidents = await getIncidents();
+    const allIncidents = await repository.getAll();
     const results = {
       updated: [] as string[],
       notFound: [] as string[],
@@ -113,7 +114,7 @@ export async function POST(request: NextRequest) {
           updateData.alternateUrl = update.alternateUrl;
         }
 
-        await updateIncident(incident.id, updateData);
+        await repository.update(incident.id, updateData);
 
         results.updated.push(`${incident.title} (ID: ${incident.id})`);
         logger.info('incident_updated', {
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
 import { ServiceContainer } from '@/lib/services/container';
 import { createRateLimitHeaders } from '@/lib/services/rate-limit/i-rate-limiter';
 import { getClientIP, generateIdentifier } from '@/lib/services/rate-limit/redis-rate-limiter';
@@ -159,18 +160,12 @@ export async function POST(req: NextRequest) {
  * Get all channel suggestions (admin only)
  */
 export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(req.url);
 
-    // Auth check (simple admin secret)
-    const adminSecret = req.headers.get('x-admin-secret');
-    if (adminSecret !== process.env.ADMIN_SECRET) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
     // Validate query parameters
     const queryParams: Record<string, string | null> = {
       status: searchParams.get('status'),
@@ -239,16 +234,10 @@ export async function GET(req: NextRequest) {
  * Update suggestion status (admin only)
  */
 export async function PATCH(req: NextRequest) {
-  try {
-    // Auth check
-    const adminSecret = req.headers.get('x-admin-secret');
-    if (adminSecret !== process.env.ADMIN_SECRET) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+  const denied = requireAdmin(req);
+  if (denied) return denied;
 
+  try {
     // Parse and validate body
     let body: unknown;
     try {
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { validateOutageCorrelationQuery, formatZodErrors } from '@/lib/validators';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/connectivity/correlation
+ * Outages with the incidents and articles reported during each, plus one timeline of all three
+ * Query params:
+ * - from / until: epoch ms or ISO date (default: the last `range` before now)
+ * - range: 24h, 7d, 4w... when `from` is omitted (default 7d)
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const { searchParams } = new URL(request.url);
+
+  const validation = validateOutageCorrelationQuery({
+    from: searchParams.get('from'),
+    until: searchParams.get('until'),
+    range: searchParams.get('range'),
+  });
+
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        details: formatZodErrors(validation.error),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { from, until } = validation.data;
+    const result = await ServiceContainer.getOutageCorrelator().correlate(from, until);
+
+    logger.http('GET', '/api/connectivity/correlation', 200, Date.now() - startTime, {
+      outages: result.correlations.length,
+      timeline_entries: result.timeline.length,
+    });
+
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      },
+    });
+  } catch (error) {
+    logger.error('outage_correlation_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json({ error: 'Failed to correlate outages' }, { status: 500 });
+  }
+}
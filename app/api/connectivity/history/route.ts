@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { validateConnectivityHistoryQuery, formatZodErrors } from '@/lib/validators';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/connectivity/history
+ * Stored connectivity series (collected by /api/cron/collect-connectivity)
+ * Query params:
+ * - series: comma-separated names; a trailing '*' matches a family (e.g. ioda:country:IR:*)
+ *   Without series, lists the stored series and their time spans.
+ * - from / until: epoch ms or ISO date (default: the last `range` before now)
+ * - range: 24h, 7d, 4w... when `from` is omitted (default 24h)
+ * - resolution: auto (default), raw, 1h or 1d
+ * - maxPoints: per series, used to pick the resolution in auto mode (default 1000)
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const { searchParams } = new URL(request.url);
+
+  const validation = validateConnectivityHistoryQuery({
+    series: searchParams.get('series'),
+    from: searchParams.get('from'),
+    until: searchParams.get('until'),
+    range: searchParams.get('range'),
+    resolution: searchParams.get('resolution'),
+    maxPoints: searchParams.get('maxPoints'),
+  });
+
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        details: formatZodErrors(validation.error),
+      },
+      { status: 400 }
+    );
+  }
+
+  const store = ServiceContainer.getConnectivityStore();
+  if (!store.isAvailable()) {
+    return NextResponse.json({ error: 'Connectivity store not available' }, { status: 503 });
+  }
+
+  try {
+    const { series, ...range } = validation.data;
+
+    if (!series) {
+      return NextResponse.json({ series: await store.listSeries() });
+    }
+
+    const result = await store.query({ series, ...range });
+
+    logger.http('GET', '/api/connectivity/history', 200, Date.now() - startTime, {
+      series: Object.keys(result.series).length,
+      resolution: result.resolution,
+    });
+
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      },
+    });
+  } catch (error) {
+    logger.error('connectivity_history_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json({ error: 'Failed to query connectivity history' }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
-import { IODAClient } from '@/lib/ioda-client';
+import { IODAClient, IODASignal } from '@/lib/ioda-client';
+import { ServiceContainer } from '@/lib/services/container';
+import { ConnectivitySeries, IODA_SIGNAL_TYPES } from '@/lib/services/connectivity/series';
+import { getOutageScopes, isScopeInCountry } from '@/lib/services/connectivity/outage-scopes';
+import type { OutageEvent } from '@/lib/services/connectivity/repositories/i-outage-repository';
 import { logger } from '@/lib/logger';
 
 // Instantiate client (could be singleton)
@@ -18,7 +22,7 @@ export async function GET(request: NextRequest) {
 
     try {
         const signals = await ioda.getCountrySignals(country, from, until);
-        const outages = await ioda.detectOutages(country);
+        const outages = await getOngoingOutages(country);
 
         const duration = Date.now() - startTime;
         logger.http('GET', '/api/connectivity/ioda', 200, duration, { country });
@@ -37,9 +41,103 @@ export async function GET(request: NextRequest) {
         const duration = Date.now() - startTime;
         logger.error('ioda_api_failed', { error, duration_ms: duration });
 
+        // Upstream slow or rate-limited: serve what the collector stored
+        const stored = await getStoredSignals(country, from, until).catch(() => null);
+        if (stored && stored.timestamps.length > 0) {
+            return NextResponse.json({
+                signals: stored,
+                outages: await getOngoingOutages(country),
+                cachedAt: Date.now(),
+                stale: true,
+            });
+        }
+
         return NextResponse.json(
             { error: 'Failed to fetch IODA connectivity data' },
             { status: 502 }
         );
     }
 }
+
+/**
+ * Ongoing outages in the country found by the outage monitor (see /api/connectivity/outages)
+ * Without a connectivity store nothing is collected, so the country signals are judged live
+ */
+async function getOngoingOutages(country: string): Promise<OutageEvent[]> {
+    if (!ServiceContainer.getConnectivityStore().isAvailable()) {
+        return detectLiveOutages(country);
+    }
+
+    const repository = ServiceContainer.getOutageRepository();
+    if (!repository.isAvailable()) return [];
+
+    try {
+        const ongoing = await repository.getOngoing();
+        return ongoing.filter(event => isScopeInCountry(event.scope, country));
+    } catch (error) {
+        logger.warn('ongoing_outages_unavailable', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return [];
+    }
+}
+
+async function detectLiveOutages(country: string): Promise<OutageEvent[]> {
+    try {
+        const monitor = ServiceContainer.getOutageMonitor();
+        const now = Date.now();
+        const live = await ioda.getCountrySignals(
+            country,
+            Math.floor((now - monitor.getHistoryMs()) / 1000),
+            Math.floor(now / 1000)
+        );
+
+        const samples = Object.fromEntries(IODA_SIGNAL_TYPES.map(signal => [
+            signal,
+            live.timestamps
+                .map((timestamp, i) => ({ timestamp: timestamp * 1000, value: live.values[signal][i] }))
+                .filter(sample => Number.isFinite(sample.value)),
+        ]));
+        const [scope] = getOutageScopes(country);
+
+        return monitor.detectFromSignals(scope, samples, now).filter(event => event.status === 'ongoing');
+    } catch (error) {
+        logger.warn('live_outage_detection_failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return [];
+    }
+}
+
+/**
+ * Signals from the connectivity store, in the same shape as the live response
+ */
+async function getStoredSignals(country: string, from?: number, until?: number): Promise<IODASignal | null> {
+    const store = ServiceContainer.getConnectivityStore();
+    if (!store.isAvailable()) return null;
+
+    const untilMs = (until ?? Math.floor(Date.now() / 1000)) * 1000;
+    const fromMs = (from ?? untilMs / 1000 - 24 * 60 * 60) * 1000;
+    const result = await store.query({
+        series: IODA_SIGNAL_TYPES.map(signal => ConnectivitySeries.iodaCountry(country, signal)),
+        from: fromMs,
+        until: untilMs,
+        resolution: 'raw',
+    });
+
+    const bySignal = IODA_SIGNAL_TYPES.map(signal =>
+        new Map(result.series[ConnectivitySeries.iodaCountry(country, signal)].map(s => [s.timestamp, s.value]))
+    );
+    const timestamps = Array.from(bySignal[0].keys()).sort((a, b) => a - b);
+
+    return {
+        from: fromMs / 1000,
+        until: untilMs / 1000,
+        timestamps: timestamps.map(ts => ts / 1000),
+        values: {
+            bgp: timestamps.map(ts => bySignal[0].get(ts) ?? 0),
+            ping: timestamps.map(ts => bySignal[1].get(ts) ?? 0),
+            telescope: timestamps.map(ts => bySignal[2].get(ts) ?? 0),
+        },
+    };
+}
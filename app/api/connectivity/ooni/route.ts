@@ -1,18 +1,65 @@
-
 import { NextRequest, NextResponse } from 'next/server';
-import { OONIClient } from '@/lib/ooni-client';
-
-const ooniClient = new OONIClient();
+import { ServiceContainer } from '@/lib/services/container';
+import { getOONIStatusChanges, OONIStatusChange } from '@/lib/services/connectivity/ooni-changes';
+import { MONITORED_NETWORKS } from '@/lib/services/connectivity/outage-scopes';
+import { validateOONIQuery, formatZodErrors } from '@/lib/validators';
+import { logger } from '@/lib/logger';
 
+/**
+ * GET /api/connectivity/ooni
+ * Blocking status of the watched apps and websites over the last day, per network,
+ * with the blocking methods seen and the history of status changes
+ * Query params:
+ * - range: how far back the change history goes (default 7d)
+ */
 export async function GET(request: NextRequest) {
+    const startTime = Date.now();
+    const { searchParams } = new URL(request.url);
+
+    const validation = validateOONIQuery({ range: searchParams.get('range') });
+    if (!validation.success) {
+        return NextResponse.json(
+            {
+                error: 'Invalid query parameters',
+                details: formatZodErrors(validation.error),
+            },
+            { status: 400 }
+        );
+    }
+
     try {
-        const summary = await ooniClient.getCensorshipSummary('IR');
+        const summary = await ServiceContainer.getOONIClient().getCensorshipSummary('IR');
+
+        // History comes from the local store; the live summary is still useful without it
+        let changes: OONIStatusChange[] = [];
+        try {
+            changes = await getOONIStatusChanges(ServiceContainer.getConnectivityStore(), 'IR', validation.data.since);
+        } catch (error) {
+            logger.warn('ooni_history_unavailable', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+
+        const networkNames = new Map(MONITORED_NETWORKS.map(network => [`AS${network.asn}`, network.name]));
+        const withNames = summary.map(target => ({
+            ...target,
+            asns: target.asns.map(asn => ({ ...asn, name: networkNames.get(asn.asn) })),
+        }));
+
+        logger.http('GET', '/api/connectivity/ooni', 200, Date.now() - startTime, {
+            targets: summary.length,
+            changes: changes.length,
+        });
 
         return NextResponse.json({
-            summary,
+            summary: withNames,
+            changes,
             timestamp: new Date().toISOString()
         });
     } catch (error) {
+        logger.error('ooni_summary_failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
         return NextResponse.json(
             { error: 'Failed to fetch OONI data' },
             { status: 500 }
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { validateOutageQuery, formatZodErrors } from '@/lib/validators';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/connectivity/outages
+ * Outage events detected by the connectivity cron (country, provinces, major networks)
+ * Query params:
+ * - status: all (default), ongoing or recovered
+ * - scope: country, province or asn
+ * - range: how far back onsets go (default 7d); ongoing events are always included
+ * - minConfidence: 0-1 (default 0)
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const { searchParams } = new URL(request.url);
+
+  const validation = validateOutageQuery({
+    status: searchParams.get('status'),
+    scope: searchParams.get('scope'),
+    range: searchParams.get('range'),
+    minConfidence: searchParams.get('minConfidence'),
+  });
+
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        details: formatZodErrors(validation.error),
+      },
+      { status: 400 }
+    );
+  }
+
+  const repository = ServiceContainer.getOutageRepository();
+  if (!repository.isAvailable()) {
+    return NextResponse.json({ error: 'Storage not available' }, { status: 503 });
+  }
+
+  try {
+    const { status, scope, since, minConfidence } = validation.data;
+
+    const [recent, ongoing] = await Promise.all([
+      status === 'ongoing' ? Promise.resolve([]) : repository.getSince(since),
+      status === 'recovered' ? Promise.resolve([]) : repository.getOngoing(),
+    ]);
+
+    const byId = new Map([...recent, ...ongoing].map(event => [event.id, event]));
+    const outages = Array.from(byId.values())
+      .filter(event => status === 'all' || event.status === status)
+      .filter(event => !scope || event.scope.kind === scope)
+      .filter(event => event.confidence >= minConfidence)
+      .sort((a, b) => b.onset - a.onset);
+
+    logger.http('GET', '/api/connectivity/outages', 200, Date.now() - startTime, {
+      outages: outages.length,
+      status,
+    });
+
+    return NextResponse.json(
+      { outages, count: outages.length },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('outages_fetch_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json({ error: 'Failed to fetch outages' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Cron Job: collect connectivity signals (IODA, OONI, Cloudflare Radar) every 15 minutes
+ * into the local time-series store behind /api/connectivity/history, then run
+ * outage detection over the fresh data (/api/connectivity/outages) and alert subscribers
+ * about outages and watched services that became blocked or unblocked
+ * Scheduled by the host, not vercel.json: the store needs a persistent disk (CONNECTIVITY_DB_PATH)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { getOONIStatusChanges } from '@/lib/services/connectivity/ooni-changes';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Status changes are re-read over this window; alerts are deduplicated, so overlap is harmless
+const SERVICE_CHANGE_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+
+  // Verify cron secret
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const store = ServiceContainer.getConnectivityStore();
+  if (!store.isAvailable()) {
+    return NextResponse.json(
+      { success: false, error: 'Connectivity store not available' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const result = await ServiceContainer.getConnectivityCollector().collect();
+    const outages = await ServiceContainer.getOutageMonitor().run();
+
+    const now = Date.now();
+    const serviceChanges = await getOONIStatusChanges(store, 'IR', now - SERVICE_CHANGE_WINDOW_MS, now);
+    const serviceNames = new Map(ServiceContainer.getOONIClient().watchlist.map(target => [target.id, target.name]));
+    const serviceAlerts = await ServiceContainer.getNotificationService().notifyServiceChanges(serviceChanges, serviceNames);
+
+    return NextResponse.json({
+      success: result.providers.some(provider => provider.status === 'ok'),
+      timestamp: new Date().toISOString(),
+      duration_ms: result.durationMs,
+      results: result,
+      outages: {
+        scopesChecked: outages.scopesChecked,
+        started: outages.started.map(event => event.id),
+        recovered: outages.recovered.map(event => event.id),
+        updated: outages.updated.length,
+      },
+      serviceAlerts: {
+        changes: serviceChanges.length,
+        sent: serviceAlerts.sent,
+      },
+    });
+  } catch (error) {
+    logger.error('cron_collect_connectivity_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -40,6 +40,8 @@ export async function GET(request: NextRequest) {
       articlesAdded: result.articlesAdded,
       articlesTotal: result.articlesTotal,
       incidentsExtracted: result.incidentsExtracted,
+      articlesVerified: result.articlesVerified,
+      articlesPretranslated: result.articlesPretranslated,
       duration_ms: duration,
     });
 
@@ -51,6 +53,8 @@ export async function GET(request: NextRequest) {
         articlesAdded: result.articlesAdded,
         articlesTotal: result.articlesTotal,
         incidentsExtracted: result.incidentsExtracted,
+        articlesVerified: result.articlesVerified,
+        articlesPretranslated: result.articlesPretranslated,
       },
     });
 
@@ -0,0 +1,50 @@
+/**
+ * Cron Job: send the notification digests that are due, hourly
+ * Subscribers in hourly or daily digest mode get one push per period linking to
+ * the digest's summary page (/digest/<id>)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+
+  // Verify cron secret
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const startTime = Date.now();
+    const result = await ServiceContainer.getNotificationService().sendDigests();
+
+    return NextResponse.json({
+      success: result.success,
+      timestamp: new Date().toISOString(),
+      duration_ms: Date.now() - startTime,
+      sent: result.sent,
+    }, { status: result.success ? 200 : 503 });
+  } catch (error) {
+    logger.error('cron_send_digests_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Cron Job: verify recent articles that were never scored, every 10 minutes
+ * Picks up the articles a news refresh deferred once it hit the verifier's
+ * per-run cap or time budget (see ArticleVerifier)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Older articles that are still unscored could not be located; stop retrying them
+const PENDING_WINDOW_HOURS = 6;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+
+  // Verify cron secret
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  if (!ServiceContainer.isStorageAvailable()) {
+    return NextResponse.json(
+      { success: false, error: 'Storage not available' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const startTime = Date.now();
+    const result = await ServiceContainer.getArticleVerifier().verifyPending(PENDING_WINDOW_HOURS);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration_ms: Date.now() - startTime,
+      scored: result.scored,
+      skipped: result.skipped,
+      deferred: result.outcomes.filter(outcome => outcome.reason === 'deferred').length,
+    });
+  } catch (error) {
+    logger.error('cron_verify_articles_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/digests/[id]
+ * The articles of a notification digest, for its summary page
+ * Digest IDs are random UUIDs, known only to the subscriber they were pushed to.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!ServiceContainer.getDigestRepository().isAvailable()) {
+    return NextResponse.json({ error: 'Storage not available' }, { status: 503 });
+  }
+
+  try {
+    const digest = await ServiceContainer.getDigestService().getDigest(id);
+    if (!digest) {
+      return NextResponse.json({ error: 'Digest not found' }, { status: 404 });
+    }
+
+    const { subscriptionId, ...summary } = digest;
+    return NextResponse.json({ digest: summary });
+  } catch (error) {
+    logger.error('api_digest_error', {
+      digest_id: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json({ error: 'Failed to fetch digest' }, { status: 500 });
+  }
+}
@@ -1,27 +1,68 @@
+/**
+ * Coordinated activity in the last 24 hours of incidents
+ * GET: analysis only (the admin dashboard polls it)
+ * POST (admin): also debits the sources of newly flagged incidents in the reputation ledger
+ */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getIncidents } from '@/lib/firestore';
+import { ServiceContainer } from '@/lib/services/container';
 import { DisinformationDetector } from '@/lib/disinformation-detector';
+import { coordinationEvidence } from '@/lib/services/reputation/reputation-evidence';
+import { requireAdmin } from '@/lib/admin-auth';
+import { logger } from '@/lib/logger';
 
 const detector = new DisinformationDetector();
 
-export async function GET(request: NextRequest) {
+async function analyzeRecent() {
+    const repository = ServiceContainer.getIncidentRepository();
+    const incidents = await repository.getAll();
+
+    // Filter to last 24h for relevant "campaigns"
+    const now = Date.now();
+    const recent = incidents.filter(i => (now - i.timestamp) < 24 * 60 * 60 * 1000);
+
+    return { repository, recent, coordinationGroups: detector.detectCoordination(recent) };
+}
+
+export async function GET() {
     try {
-        // In real implementation, this runs async background jobs.
-        // Here we fetch recent incidents and analyze on-the-fly.
-        const incidents = await getIncidents();
+        const { recent, coordinationGroups } = await analyzeRecent();
 
-        // Filter to last 24h for relevant "campaigns"
-        const now = Date.now();
-        const recent = incidents.filter(i => (now - i.timestamp) < 24 * 60 * 60 * 1000);
+        return NextResponse.json({
+            analyzedCount: recent.length,
+            coordinationGroups,
+        });
+    } catch (error) {
+        return NextResponse.json({ error: 'Analysis failed' }, { status: 500 });
+    }
+}
 
-        const coordinationGroups = detector.detectCoordination(recent);
+export async function POST(req: NextRequest) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const { repository, recent, coordinationGroups } = await analyzeRecent();
+
+        // Newly flagged incidents count against the reputation of their sources (once each)
+        const { evidence, flaggedIncidentIds } = coordinationEvidence(coordinationGroups, recent);
+        if (flaggedIncidentIds.length > 0) {
+            const now = Date.now();
+            await ServiceContainer.getReputationLedger().record(evidence);
+            for (const id of flaggedIncidentIds) {
+                await repository.update(id, { coordinationFlaggedAt: now });
+            }
+        }
 
         return NextResponse.json({
             analyzedCount: recent.length,
-            coordinationGroups
+            coordinationGroups,
+            newlyFlagged: flaggedIncidentIds.length,
         });
     } catch (error) {
+        logger.error('coordination_reputation_failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
         return NextResponse.json({ error: 'Analysis failed' }, { status: 500 });
     }
 }
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { extractIncidentsFromArticles } from '@/lib/incident-extractor';
 import { geocodeLocations } from '@/lib/geocoder';
-import { saveIncident, isFirestoreAvailable } from '@/lib/firestore';
+import { ServiceContainer } from '@/lib/services/container';
 import { logger } from '@/lib/logger';
 
 export interface ExtractionRequest {
@@ -147,17 +147,18 @@ export async function POST(request: NextRequest) {
       incidentCount: incidents.length,
     });
 
-    // Step 4: Save to Firestore if requested and available
+    // Step 4: Save to storage if requested and available
     let savedCount = 0;
+    const repository = ServiceContainer.getIncidentRepository();
 
-    if (body.autoSave && isFirestoreAvailable()) {
+    if (body.autoSave && repository.isAvailable()) {
       logger.info('incidents_save_started', {
         incidentCount: incidents.length,
       });
 
       for (const incident of incidents) {
         try {
-          const incidentId = await saveIncident(incident);
+          const incidentId = await repository.create(incident);
           // Add ID to incident for response
           (incident as any).id = incidentId;
           savedCount++;
@@ -174,8 +175,8 @@ export async function POST(request: NextRequest) {
         savedCount,
         totalIncidents: incidents.length,
       });
-    } else if (body.autoSave && !isFirestoreAvailable()) {
-      errors.push('Firestore not available - incidents not saved');
+    } else if (body.autoSave && !repository.isAvailable()) {
+      errors.push('Storage not available - incidents not saved');
     }
 
     return NextResponse.json({
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ServiceContainer } from '@/lib/services/container';
+import { toCrowdsourcedIncident } from '@/lib/services/incidents/incident-service';
 import { createRateLimitHeaders } from '@/lib/services/rate-limit/i-rate-limiter';
 import { getClientIP, generateIdentifier } from '@/lib/services/rate-limit/redis-rate-limiter';
 import {
@@ -13,31 +14,9 @@ import {
   formatZodErrors,
   type CreateIncidentInput,
 } from '@/lib/validators/incident-validator';
+import type { NewIncident } from '@/lib/domain/incident';
 import { logger } from '@/lib/logger';
 
-export interface Incident {
-  id: string;
-  type: 'protest' | 'arrest' | 'injury' | 'death' | 'other';
-  title: string;
-  description: string;
-  location: {
-    lat: number;
-    lon: number;
-    address?: string;
-  };
-  images?: string[];
-  verified: boolean;
-  reportedBy: 'crowdsource' | 'official';
-  timestamp: number;
-  upvotes: number;
-  createdAt: number;
-  relatedArticles?: Array<{
-    title: string;
-    url: string;
-    source: string;
-  }>;
-}
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -83,7 +62,10 @@ export async function GET(request: NextRequest) {
     }
 
     const incidentService = ServiceContainer.getIncidentService();
-    const incidents = await incidentService.getAll(filters);
+    // Incidents that happened during an internet shutdown in their province are flagged
+    const incidents = await ServiceContainer.getOutageCorrelator().annotateIncidents(
+      await incidentService.getAll(filters)
+    );
 
     return NextResponse.json({
       incidents,
@@ -158,22 +140,7 @@ export async function POST(request: NextRequest) {
 
     const validatedData: CreateIncidentInput = validation.data;
 
-    // Build incident object from validated data
-    const newIncident: Omit<Incident, 'id' | 'createdAt'> = {
-      type: validatedData.type,
-      title: validatedData.title.trim(),
-      description: validatedData.description.trim(),
-      location: {
-        lat: validatedData.location.lat,
-        lon: validatedData.location.lon,
-        address: validatedData.location.address?.trim(),
-      },
-      images: validatedData.images || [],
-      verified: false,
-      reportedBy: 'crowdsource',
-      timestamp: validatedData.timestamp || Date.now(),
-      upvotes: 0,
-    };
+    const newIncident: NewIncident = toCrowdsourcedIncident(validatedData);
 
     const incidentService = ServiceContainer.getIncidentService();
     const incidentId = await incidentService.create(newIncident);
@@ -1,7 +1,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { IPFSDistributor } from '@/lib/ipfs-distributor';
-import { getRecentArticles, saveIPFSSnapshot, getIPFSSnapshots } from '@/lib/firestore';
+import { Article } from '@/lib/firestore';
+import { ServiceContainer } from '@/lib/services/container';
 import { logger } from '@/lib/logger';
 
 // Initialize with environment variables
@@ -17,7 +18,7 @@ export async function POST(request: NextRequest) {
     try {
         // Get last 24 hours of articles
         // getRecentArticles retrieves ~200 articles from last 24h
-        const articles = await getRecentArticles(24);
+        const articles = await ServiceContainer.getArticleRepository().getRecent(24) as Article[];
 
         if (articles.length === 0) {
             return NextResponse.json(
@@ -33,8 +34,8 @@ export async function POST(request: NextRequest) {
         // Upload to Pinata/IPFS
         const snapshot = await ipfs.createSnapshot(articles);
 
-        // Save metadata to Firestore
-        await saveIPFSSnapshot({
+        // Save snapshot metadata
+        await ServiceContainer.getSnapshotRepository().save({
             cid: snapshot.cid,
             url: snapshot.url,
             timestamp: snapshot.timestamp,
@@ -84,9 +85,9 @@ export async function GET(request: NextRequest) {
         }
     }
 
-    // List all snapshots from Firestore
+    // List stored snapshots
     try {
-        const snapshots = await getIPFSSnapshots(20);
+        const snapshots = await ServiceContainer.getSnapshotRepository().list(20);
         return NextResponse.json({ snapshots });
     } catch (error) {
         logger.error('ipfs_list_failed', { error });
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { isMediaId } from '@/lib/domain/media';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/media/[id]
+ * A stored photo, video thumbnail or document from a source post
+ * IDs are content hashes, so responses never change and are cached for good.
+ * ?meta=1 returns the record instead (kind, hashes, posts it appeared in).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isMediaId(id)) {
+    return NextResponse.json({ error: 'Invalid media ID' }, { status: 400 });
+  }
+
+  const library = ServiceContainer.getMediaLibrary();
+  if (!library.isAvailable()) {
+    return NextResponse.json({ error: 'Storage not available' }, { status: 503 });
+  }
+
+  try {
+    const media = await library.read(id);
+    if (!media) {
+      return NextResponse.json({ error: 'Media not found' }, { status: 404 });
+    }
+
+    if (request.nextUrl.searchParams.get('meta') === '1') {
+      return NextResponse.json({ media: media.asset });
+    }
+
+    const { asset, data } = media;
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': asset.contentType,
+        'Content-Length': String(data.length),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+        // Documents are downloaded rather than rendered on our origin
+        ...(asset.kind === 'document' && {
+          'Content-Disposition': `attachment; filename="${(asset.fileName || id).replace(/[^\w.-]/g, '_')}"`,
+        }),
+      },
+    });
+  } catch (error) {
+    logger.error('api_media_error', {
+      media_id: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json({ error: 'Failed to fetch media' }, { status: 500 });
+  }
+}
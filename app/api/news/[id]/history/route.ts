@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/news/[id]/history
+ * Returns an article's revisions, oldest first
+ * Revision 1 is the text as first ingested; later revisions carry a word diff
+ * against the previous one. Articles never edited return a single revision.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startTime = Date.now();
+  const { id } = await params;
+  const path = `/api/news/${id}/history`;
+
+  try {
+    const article = await ServiceContainer.getArticleRepository().getById(id);
+
+    if (!article) {
+      logger.http('GET', path, 404, Date.now() - startTime);
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+    }
+
+    const stored = await ServiceContainer.getRevisionRepository().listByArticle(id);
+
+    const revisions = stored.length > 0
+      ? stored
+      : [{
+          id: `${article.id}_r1`,
+          articleId: article.id,
+          revision: 1,
+          title: article.title,
+          summary: article.summary,
+          content: article.content,
+          contentHash: article.contentHash,
+          capturedAt: article.publishedAt,
+        }];
+
+    const duration = Date.now() - startTime;
+    logger.http('GET', path, 200, duration, {
+      revisions: revisions.length,
+    });
+
+    return NextResponse.json({
+      articleId: article.id,
+      sourceId: article.sourceId,
+      publishedAt: article.publishedAt,
+      updatedAt: article.updatedAt,
+      revisionCount: article.revisionCount || 1,
+      revisions,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('api_news_history_error', {
+      article_id: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      duration_ms: duration,
+    });
+
+    logger.http('GET', path, 500, duration);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch article history' },
+      { status: 500 }
+    );
+  }
+}
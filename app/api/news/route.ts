@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ServiceContainer } from '@/lib/services/container';
-import { getArticles as getFirestoreArticles, isFirestoreAvailable } from '@/lib/firestore';
+import { getArticleSourceKey } from '@/lib/domain/source-key';
 import { logger } from '@/lib/logger';
 
 let lastFetch = 0;
@@ -13,6 +13,7 @@ const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
  * - page: page number (default: 0)
  * - limit: items per page (default: 20)
  * - topic: filter by topic ID (optional)
+ * - sort: 'latest' (default) or 'reputation' (most reliable sources first, newest within a tie)
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -22,6 +23,7 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '0');
     const limit = parseInt(searchParams.get('limit') || '20');
     const topicFilter = searchParams.get('topic');
+    const sortByReputation = searchParams.get('sort') === 'reputation';
 
     const now = Date.now();
     if (now - lastFetch > CACHE_DURATION) {
@@ -46,21 +48,26 @@ export async function GET(request: NextRequest) {
 
     let articles: any[] = [];
 
-    if (isFirestoreAvailable()) {
+    if (ServiceContainer.isStorageAvailable()) {
+      const repository = ServiceContainer.getArticleRepository();
       if (topicFilter) {
-        const allArticles = await getFirestoreArticles(200);
+        const allArticles = await repository.list(200);
         articles = allArticles.filter(article =>
           article.topics?.includes(topicFilter) || false
         );
       } else {
-        articles = await getFirestoreArticles(limit * (page + 1));
+        articles = await repository.list(limit * (page + 1));
       }
     } else {
-      logger.warn('firestore_unavailable', {
+      logger.warn('storage_unavailable', {
         returning_empty: true,
       });
     }
 
+    if (sortByReputation && articles.length > 0) {
+      articles = await sortByReputationScore(articles);
+    }
+
     const start = topicFilter ? page * limit : 0;
     const end = topicFilter ? start + limit : articles.length;
     const paginatedArticles = articles.slice(start, end);
@@ -76,6 +83,7 @@ export async function GET(request: NextRequest) {
       page,
       limit,
       topic: topicFilter,
+      sort: sortByReputation ? 'reputation' : 'latest',
       articles_returned: articlesWithUrl.length,
     });
 
@@ -115,6 +123,29 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Order articles by their source's ledger score (no record = neutral 0.5),
+ * keeping the newest-first order among equal scores
+ */
+async function sortByReputationScore<T extends Parameters<typeof getArticleSourceKey>[0]>(
+  articles: T[]
+): Promise<Array<T & { sourceReputation?: number }>> {
+  const keys = articles.map(article => getArticleSourceKey(article));
+
+  let scores = new Map<string, number>();
+  try {
+    scores = await ServiceContainer.getReputationLedger().getScores(keys);
+  } catch (error) {
+    logger.warn('reputation_sort_unavailable', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return articles
+    .map((article, index) => ({ ...article, sourceReputation: scores.get(keys[index]) }))
+    .sort((a, b) => (b.sourceReputation ?? 0.5) - (a.sourceReputation ?? 0.5));
+}
+
 /**
  * POST /api/news/refresh
  * Manually trigger a news refresh
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { getSubscriptionId } from '@/lib/subscriptions';
+import { validateNotificationClick, formatZodErrors } from '@/lib/validators';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/push/click
+ * Record a notification click in the delivery log (sent by the service worker)
+ * Body: { notificationId, endpoint }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = validateNotificationClick(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid click report',
+        details: formatZodErrors(validation.error),
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!ServiceContainer.getDeliveryRepository().isAvailable()) {
+    return NextResponse.json({ error: 'Storage not available' }, { status: 503 });
+  }
+
+  try {
+    const { notificationId, endpoint } = validation.data;
+    const recorded = await ServiceContainer.getDeliveryLog().recordClick(notificationId, getSubscriptionId(endpoint));
+
+    if (!recorded) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('notification_click_record_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json({ error: 'Failed to record click' }, { status: 500 });
+  }
+}
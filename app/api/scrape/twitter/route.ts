@@ -1,10 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapeTwitter, estimateCost } from '@/lib/twitter-scraper';
+import { scrapeTwitter, estimateCost, getNewestTweetId, ScrapedArticle } from '@/lib/twitter-scraper';
+import { ServiceContainer } from '@/lib/services/container';
 import { logger } from '@/lib/logger';
 
+const TWITTER_CURSOR = 'twitter';
+
+/**
+ * Scrape only tweets newer than the persisted cursor (reading it does not move it)
+ */
+async function scrapeNewTweets(maxTweets: number, hoursBack: number) {
+  const { sinceId } = await ServiceContainer.getCursorRepository().getAll(TWITTER_CURSOR);
+  const articles = await scrapeTwitter(maxTweets, hoursBack, sinceId);
+
+  return { articles, sinceId };
+}
+
+/**
+ * Run scraped tweets through NewsService ingest, then advance the cursor
+ * If ingest throws, the cursor stays put and the next scrape reads the tweets again
+ */
+async function ingestTweets(articles: ScrapedArticle[], sinceId: string | undefined) {
+  const result = await ServiceContainer.getNewsService().ingest(articles);
+
+  const newestId = getNewestTweetId(articles, sinceId);
+  if (newestId && newestId !== sinceId) {
+    await ServiceContainer.getCursorRepository().saveMany(TWITTER_CURSOR, { sinceId: newestId });
+  }
+
+  return result;
+}
+
 /**
  * GET /api/scrape/twitter
- * Scrape tweets from Persian uprising hashtags
+ * Preview tweets from Persian uprising hashtags newer than the cursor
+ * Nothing is stored and the cursor does not move (POST ingests them)
  *
  * Query params:
  * - maxTweets: Maximum tweets to scrape (default: 50, min: 50 per Apify requirement)
@@ -56,7 +85,7 @@ export async function GET(request: NextRequest) {
     });
 
     // Scrape Twitter
-    const articles = await scrapeTwitter(maxTweets, hoursBack);
+    const { articles } = await scrapeNewTweets(maxTweets, hoursBack);
 
     if (articles.length === 0) {
       return NextResponse.json({
@@ -68,9 +97,6 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // In a real app, you would save these to DynamoDB here
-    // For now, we just return them
-
     return NextResponse.json({
       success: true,
       articles,
@@ -99,12 +125,13 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/scrape/twitter
- * Trigger Twitter scraping and store results
+ * Trigger Twitter scraping and ingest the results like any other source
+ * (deduplication, incident extraction, verification, notifications)
  *
  * Body:
  * - maxTweets: Maximum tweets to scrape (default: 50)
  * - hoursBack: Hours to look back (default: 1)
- * - saveToDb: Whether to save to database (default: true)
+ * - saveToDb: Whether to ingest the tweets and advance the cursor (default: true)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -127,7 +154,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Scrape Twitter
-    const articles = await scrapeTwitter(maxTweets, hoursBack);
+    const { articles, sinceId } = await scrapeNewTweets(maxTweets, hoursBack);
 
     if (articles.length === 0) {
       return NextResponse.json({
@@ -138,19 +165,13 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // TODO: Save to DynamoDB when AWS infrastructure is set up
-    if (saveToDb) {
-      logger.info('twitter_articles_save_skipped', {
-        articleCount: articles.length,
-        reason: 'DynamoDB not implemented yet',
-      });
-    }
+    const ingested = saveToDb ? await ingestTweets(articles, sinceId) : null;
 
     return NextResponse.json({
       success: true,
       message: `Successfully scraped ${articles.length} tweets`,
       scrapedCount: articles.length,
-      savedCount: saveToDb ? articles.length : 0,
+      savedCount: ingested?.articlesAdded ?? 0,
       estimatedCost: `$${estimatedCost.toFixed(4)}`,
       articles: articles.slice(0, 5), // Return first 5 as preview
     });
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getFacets, initAlgolia, initFuse, getSearchMode } from '@/lib/algolia';
-import { getArticles, isFirestoreAvailable } from '@/lib/firestore';
+import { getFacets, initAlgolia, initLocalSearch, getSearchMode } from '@/lib/algolia';
+import { ServiceContainer } from '@/lib/services/container';
 import { logger } from '@/lib/logger';
 
 let facetsInitialized = false;
@@ -13,9 +13,8 @@ async function ensureFacetsInitialized() {
     return;
   }
 
-  if (isFirestoreAvailable()) {
-    const articles = await getArticles(1000);
-    initFuse(articles);
+  if (ServiceContainer.isStorageAvailable()) {
+    initLocalSearch(ServiceContainer.getLocalSearchIndex());
     facetsInitialized = true;
   }
 }
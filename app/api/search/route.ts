@@ -2,13 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import {
   searchArticles,
   initAlgolia,
-  initFuse,
+  initLocalSearch,
   getSearchMode,
   getFacets,
   getSearchSuggestions,
   SearchOptions,
 } from '@/lib/algolia';
-import { getArticles, isFirestoreAvailable } from '@/lib/firestore';
+import { Article } from '@/lib/firestore';
+import { ServiceContainer } from '@/lib/services/container';
 import { logger } from '@/lib/logger';
 
 // Initialize search on first request
@@ -23,16 +24,13 @@ async function ensureSearchInitialized() {
     return;
   }
 
-  // Fallback to Fuse.js with Firestore data
-  if (isFirestoreAvailable()) {
-    const articles = await getArticles(1000);
-    initFuse(articles);
+  // Fallback to the local index over stored articles (loaded on the first search)
+  if (ServiceContainer.isStorageAvailable()) {
+    initLocalSearch(ServiceContainer.getLocalSearchIndex());
     searchInitialized = true;
-    logger.info('search_fuse_initialized', {
-      articleCount: articles.length,
-    });
+    logger.info('search_local_initialized');
   } else {
-    throw new Error('Neither Algolia nor Firestore available for search');
+    throw new Error('Neither Algolia nor article storage available for search');
   }
 }
 
@@ -140,15 +138,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!isFirestoreAvailable()) {
+    if (!ServiceContainer.isStorageAvailable()) {
       return NextResponse.json(
-        { error: 'Firestore not available' },
+        { error: 'Storage not available' },
         { status: 500 }
       );
     }
 
     // Fetch all articles
-    const articles = await getArticles(10000);
+    const articles = await ServiceContainer.getArticleRepository().list(10000) as Article[];
 
     // Re-index to Algolia
     const { indexArticles, configureAlgoliaIndex } = await import('@/lib/algolia');
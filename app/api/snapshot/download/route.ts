@@ -1,6 +1,6 @@
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getRecentArticles } from '@/lib/firestore';
+import { ServiceContainer } from '@/lib/services/container';
 import { SnapshotSigner } from '@/lib/snapshot-signer';
 import { logger } from '@/lib/logger';
 import JSZip from 'jszip';
@@ -12,7 +12,7 @@ export async function GET(request: NextRequest) {
 
     try {
         // Get last 7 days of articles
-        const articles = await getRecentArticles(24 * 7); // 7 days
+        const articles = await ServiceContainer.getArticleRepository().getRecent(24 * 7); // 7 days
 
         if (articles.length === 0) {
             return NextResponse.json(
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ServiceContainer } from '@/lib/services/container';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/sources/health
+ * Per-source fetch health and circuit breaker state
+ */
+export async function GET() {
+  const startTime = Date.now();
+
+  try {
+    const registry = ServiceContainer.getSourceHealthRegistry();
+    const sources = (await registry.getAll()).sort((a, b) => a.name.localeCompare(b.name));
+
+    const duration = Date.now() - startTime;
+    logger.http('GET', '/api/sources/health', 200, duration, {
+      sources: sources.length,
+    });
+
+    return NextResponse.json({
+      sources,
+      circuitBreaker: registry.getConfig(),
+      healthy: sources.every(source => source.circuit === 'closed'),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('source_health_fetch_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: 'Failed to fetch source health' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sources/health?source=telegram
+ * Reset a source's health record and close its circuit (admin only)
+ */
+export async function DELETE(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const source = new URL(req.url).searchParams.get('source');
+  if (!source) {
+    return NextResponse.json(
+      { success: false, error: 'source query parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  await ServiceContainer.getSourceHealthRegistry().reset(source);
+  logger.info('source_health_reset', { source });
+
+  return NextResponse.json({ success: true, message: `Health reset for ${source}` });
+}
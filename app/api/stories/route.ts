@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/stories
+ * Returns story clusters: one entry per event, with every source that reported it
+ * Query params:
+ * - limit: stories to return (default: 20, max: 100)
+ * - minSources: only stories covered by at least N outlets (default: 1)
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+    const minSources = Math.max(parseInt(searchParams.get('minSources') || '1') || 1, 1);
+
+    const repository = ServiceContainer.getStoryRepository();
+    const clusters = await repository.list(limit, minSources);
+
+    // The LSH signature is internal; members are returned oldest first
+    const stories = clusters.map(story => ({
+      id: story.id,
+      headline: story.headline,
+      summary: story.summary,
+      imageUrl: story.imageUrl,
+      topics: story.topics,
+      articleIds: story.articleIds,
+      members: [...story.members].sort((a, b) => a.publishedAt - b.publishedAt),
+      sources: story.sources,
+      sourceCount: story.sourceCount,
+      platforms: story.platforms,
+      firstSeenAt: story.firstSeenAt,
+      lastUpdatedAt: story.lastUpdatedAt,
+    }));
+
+    const duration = Date.now() - startTime;
+    logger.http('GET', '/api/stories', 200, duration, {
+      limit,
+      min_sources: minSources,
+      stories_returned: stories.length,
+    });
+
+    return NextResponse.json({
+      stories,
+      count: stories.length,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('api_stories_error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      duration_ms: duration,
+    });
+
+    logger.http('GET', '/api/stories', 500, duration);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch stories', stories: [], count: 0 },
+      { status: 500 }
+    );
+  }
+}
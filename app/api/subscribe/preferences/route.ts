@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findSubscription, getSubscriptionId } from '@/lib/subscriptions';
+import { validateGetSubscriptionPreferences, formatZodErrors } from '@/lib/validators';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/lib/services/notifications/subscription-matcher';
+import { DEFAULT_CONNECTIVITY_ALERTS } from '@/lib/services/notifications/connectivity-alerter';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/subscribe/preferences
+ * Read the notification preferences of a subscription (defaults when never set)
+ * Body: { endpoint } - POST rather than GET keeps the push endpoint out of URLs and logs
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = validateGetSubscriptionPreferences(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request',
+        details: formatZodErrors(validation.error),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const subscription = await findSubscription(getSubscriptionId(validation.data.endpoint));
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      preferences: subscription.preferences ?? DEFAULT_NOTIFICATION_PREFERENCES,
+      connectivityAlerts: subscription.connectivityAlerts ?? DEFAULT_CONNECTIVITY_ALERTS,
+    });
+  } catch (error) {
+    logger.error('subscription_preferences_fetch_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      { error: 'Failed to load preferences', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
 import {
   getActiveSubscriptions,
   addSubscription,
   removeSubscription,
   findSubscription,
+  getSubscriptionId,
+  updateSubscriptionPreferences,
   type SubscriptionData
 } from '@/lib/subscriptions';
+import { validateUpdateSubscriptionPreferences, formatZodErrors } from '@/lib/validators';
 import { logger } from '@/lib/logger';
 
 /**
@@ -35,12 +37,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create hash of endpoint for ID (privacy)
-    const endpointHash = crypto
-      .createHash('sha256')
-      .update(subscription.endpoint)
-      .digest('hex')
-      .substring(0, 16);
+    // Hash of the endpoint as ID (privacy), the same ID the repositories store it under
+    const endpointHash = getSubscriptionId(subscription.endpoint);
 
     // Check if already subscribed
     const existing = await findSubscription(endpointHash);
@@ -106,12 +104,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Create hash of endpoint
-    const endpointHash = crypto
-      .createHash('sha256')
-      .update(subscription.endpoint)
-      .digest('hex')
-      .substring(0, 16);
+    const endpointHash = getSubscriptionId(subscription.endpoint);
 
     // Remove subscription
     const existing = await findSubscription(endpointHash);
@@ -147,6 +140,72 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
+/**
+ * PATCH /api/subscribe
+ * Update notification preferences of a subscription
+ * Body: { endpoint, connectivityAlerts?: { enabled, nationwide, provinces, services },
+ *   preferences?: { topics, incidentTypes, provinces, cities, keywords, minVerificationScore, quietHours, maxPerHour } }
+ */
+export async function PATCH(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = validateUpdateSubscriptionPreferences(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid preferences',
+        details: formatZodErrors(validation.error),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { endpoint, connectivityAlerts, preferences } = validation.data;
+    const subscriptionId = getSubscriptionId(endpoint);
+
+    if (!(await findSubscription(subscriptionId))) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    await updateSubscriptionPreferences(subscriptionId, { connectivityAlerts, preferences });
+
+    logger.info('subscription_preferences_updated', {
+      subscriptionId,
+      ...(connectivityAlerts && {
+        connectivity_alerts: connectivityAlerts.enabled,
+        alert_provinces: connectivityAlerts.provinces.length,
+        services: connectivityAlerts.services.length,
+      }),
+      ...(preferences && {
+        topics: preferences.topics.length,
+        incident_types: preferences.incidentTypes.length,
+        provinces: preferences.provinces.length,
+        cities: preferences.cities.length,
+        keywords: preferences.keywords.length,
+        quiet_hours: Boolean(preferences.quietHours),
+        max_per_hour: preferences.maxPerHour,
+      }),
+    });
+
+    return NextResponse.json({ success: true, connectivityAlerts, preferences });
+  } catch (error) {
+    logger.error('subscription_preferences_update_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: 'Failed to update preferences', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * GET /api/subscribe
  * Get subscription statistics (admin/debug)
@@ -0,0 +1,56 @@
+/**
+ * Telegram reader bot webhook
+ * Telegram posts every message sent to the bot here; see ServiceContainer.getTelegramBot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ServiceContainer } from '@/lib/services/container';
+import type { TelegramUpdate } from '@/lib/telegram-scraper';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * POST /api/telegram/webhook
+ * Authenticated by the secret token given to setWebhook (POST /api/admin/telegram-bot)
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || request.headers.get('x-telegram-bot-api-secret-token') !== secret) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const bot = ServiceContainer.getTelegramBot();
+  if (!bot) {
+    return NextResponse.json(
+      { error: 'Telegram bot not configured' },
+      { status: 503 }
+    );
+  }
+
+  let update: TelegramUpdate;
+  try {
+    update = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await bot.handleUpdate(update);
+  } catch (error) {
+    // Acknowledged anyway: Telegram would otherwise redeliver the update indefinitely
+    logger.error('telegram_webhook_failed', {
+      update_id: update.update_id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { translateText, detectLanguage, type SupportedLanguage } from '@/lib/translation-robust';
+import { detectLanguage, type SupportedLanguage } from '@/lib/translation-robust';
 import { ServiceContainer } from '@/lib/services/container';
 import { createRateLimitHeaders } from '@/lib/services/rate-limit/i-rate-limiter';
 import { getClientIP, generateIdentifier } from '@/lib/services/rate-limit/redis-rate-limiter';
@@ -12,6 +12,7 @@ import {
   validateTranslationRequest,
   formatZodErrors,
   sanitizeTranslationText,
+  SUPPORTED_LANGUAGES,
 } from '@/lib/validators/translation-validator';
 import { logger } from '@/lib/logger';
 
@@ -104,8 +105,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Perform translation
-    const result = await translateText(sanitizedText, finalSourceLang, targetLang);
+    // Served from the translation memory when known (feed articles are pre-translated at ingest)
+    const result = await ServiceContainer.getTranslationMemory().translate(sanitizedText, finalSourceLang, targetLang);
 
     const headers = createRateLimitHeaders(rateLimitResult, config);
     return NextResponse.json(
@@ -115,7 +116,9 @@ export async function POST(req: NextRequest) {
         sourceLang: finalSourceLang,
         targetLang,
         tier: result.tier,
-        cached: result.tier === 'cache',
+        cached: result.cached,
+        segments: result.segments,
+        glossaryHits: result.glossaryHits ?? [],
       },
       { headers }
     );
@@ -138,11 +141,12 @@ export async function POST(req: NextRequest) {
 export async function GET() {
   const rateLimiter = ServiceContainer.getTranslationRateLimiter();
   const config = rateLimiter.getConfig();
+  const languages = SUPPORTED_LANGUAGES.join(' | ');
 
   return NextResponse.json(
     {
       service: 'Translation API',
-      supportedLanguages: ['en', 'fa'],
+      supportedLanguages: SUPPORTED_LANGUAGES,
       rateLimit: {
         limit: config.maxRequests,
         window: `${config.windowMs / 1000} seconds`,
@@ -153,8 +157,8 @@ export async function GET() {
         contentType: 'application/json',
         body: {
           text: 'string (required, max 10000 chars)',
-          sourceLang: 'en | fa (optional, auto-detect if not provided)',
-          targetLang: 'en | fa (required)',
+          sourceLang: `${languages} (optional, auto-detect if not provided)`,
+          targetLang: `${languages} (required)`,
           autoDetect: 'boolean (optional, default: false)',
         },
       },
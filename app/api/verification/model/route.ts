@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getVerificationModel, VERIFICATION_MODELS } from '@/lib/verification-model';
+
+/**
+ * The active verification scoring model, so stored breakdowns can be read against its rules
+ */
+export async function GET() {
+    return NextResponse.json({
+        active: getVerificationModel(),
+        versions: Object.keys(VERIFICATION_MODELS),
+    });
+}
@@ -1,80 +1,50 @@
-
 import { NextRequest, NextResponse } from 'next/server';
-import { getRecentArticles, getDb } from '@/lib/firestore'; // Assuming we can use this
-import { VerificationEngine, Incident } from '@/lib/verification-engine';
+import { ServiceContainer } from '@/lib/services/container';
 import { logger } from '@/lib/logger';
 
-const engine = new VerificationEngine();
-
+/**
+ * Verify one article on demand (the same pipeline runs after every news refresh)
+ * Body: { articleId?: string } - without an ID, the newest article that was never scored is used
+ */
 export async function POST(request: NextRequest) {
     try {
-        const { articleId } = await request.json();
+        const { articleId } = await request.json().catch(() => ({}));
 
-        // In a real implementation, we would fetch the specific article.
-        // Here we'll just scan recent articles for demonstration/prototype.
-        const articles = await getRecentArticles(24);
+        if (!ServiceContainer.isStorageAvailable()) {
+            return NextResponse.json({ error: 'Storage not available' }, { status: 503 });
+        }
 
-        // Find the target if ID provided, or just pick the first unverified one
+        const articles = ServiceContainer.getArticleRepository();
         const targetArticle = articleId
-            ? articles.find(a => a.id === articleId)
-            : articles.find(a => !a.verified && a.verificationScore === undefined);
+            ? await articles.getById(articleId)
+            : (await articles.getRecent(24)).find(a => a.verifiedAt === undefined);
 
         if (!targetArticle) {
-            return NextResponse.json({ message: 'No suitable articles found to verify' });
+            return articleId
+                ? NextResponse.json({ error: 'Article not found' }, { status: 404 })
+                : NextResponse.json({ message: 'No suitable articles found to verify' });
         }
 
-        // Convert Article to Incident format expected by engine
-        const targetIncident: Incident = {
-            id: targetArticle.id,
-            latitude: 35.6892, // Mock: would come from extracted location metadata
-            longitude: 51.3890,
-            timestamp: typeof targetArticle.publishedAt === 'number'
-                ? targetArticle.publishedAt
-                : Date.parse(targetArticle.publishedAt as string),
-            title: targetArticle.title,
-            imageHash: targetArticle.imageHash,
-            verified: targetArticle.verified
-        };
-
-        // Convert others
-        const otherIncidents: Incident[] = articles
-            .filter(a => a.id !== targetArticle.id)
-            .map(a => ({
-                id: a.id,
-                latitude: 35.6892 + (Math.random() * 0.1 - 0.05), // Mock: small variations
-                longitude: 51.3890 + (Math.random() * 0.1 - 0.05),
-                timestamp: typeof a.publishedAt === 'number' ? a.publishedAt : Date.parse(a.publishedAt as string),
-                title: a.title,
-                imageHash: a.imageHash,
-                verified: a.verified
-            }));
-
-        const result = await engine.corroborateIncident(targetIncident, otherIncidents);
-
-        // Update Firestore with results (mocked)
-        const db = getDb();
-        if (db) {
-            await db.collection('articles').doc(targetArticle.id).update({
-                verificationScore: result.confidenceScore,
-                corroboratedBy: result.similarReports.map(r => r.id),
-                // Auto-verify if very high confidence?
-                verified: result.confidenceScore > 80
-            });
-        }
+        const { outcomes } = await ServiceContainer.getArticleVerifier().verifyArticles([targetArticle]);
+        const result = outcomes[0];
 
         logger.info('verification_scan_complete', {
             articleId: targetArticle.id,
-            score: result.confidenceScore
+            status: result.status,
+            score: result.score,
+            reason: result.reason,
         });
 
         return NextResponse.json({
-            success: true,
+            success: result.status === 'scored',
             articleId: targetArticle.id,
             result
         });
 
     } catch (error) {
-        logger.error('verification_scan_failed', { error });
+        logger.error('verification_scan_failed', {
+            error: error instanceof Error ? error.message : String(error),
+        });
         return NextResponse.json({ error: 'Verification failed' }, { status: 500 });
     }
 }
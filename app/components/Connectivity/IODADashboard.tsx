@@ -1,7 +1,7 @@
 
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import useSWR from 'swr';
 import { Line } from 'react-chartjs-2';
 import {
@@ -29,12 +29,61 @@ ChartJS.register(
     Filler
 );
 
+type Range = '24h' | '7d' | '30d';
+
+const RANGES: { id: Range; label: string }[] = [
+    { id: '24h', label: '24h' },
+    { id: '7d', label: '7 days' },
+    { id: '30d', label: '30 days' },
+];
+
+const HISTORY_SERIES = ['ioda:country:IR:bgp', 'ioda:country:IR:ping'];
+
+interface ChartSignals {
+    timestamps: number[]; // ms
+    values: { bgp: number[]; ping: number[] };
+    stale?: boolean;
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+/**
+ * Live endpoint (seconds) or stored history (ms, one array per series) to one shape
+ */
+function toChartSignals(range: Range, data: any): ChartSignals | null {
+    if (range === '24h') {
+        if (!data?.signals) return null;
+        return {
+            timestamps: data.signals.timestamps.map((ts: number) => ts * 1000),
+            values: { bgp: data.signals.values.bgp, ping: data.signals.values.ping },
+            stale: data.stale,
+        };
+    }
+
+    if (!data?.series) return null;
+    const [bgp = [], ping = []] = HISTORY_SERIES.map(name => data.series[name] || []);
+    const pingByTime = new Map<number, number>(ping.map((s: any) => [s.timestamp, s.value]));
+    return {
+        timestamps: bgp.map((s: any) => s.timestamp),
+        values: {
+            bgp: bgp.map((s: any) => s.value),
+            ping: bgp.map((s: any) => pingByTime.get(s.timestamp) ?? 0),
+        },
+    };
+}
+
 export function IODADashboard() {
+    const [range, setRange] = useState<Range>('24h');
+
+    // 24h comes live from IODA (falling back to stored data); longer ranges from the local history
     const { data, error, isLoading } = useSWR(
-        '/api/connectivity/ioda',
-        (url) => fetch(url).then(r => r.json()),
+        range === '24h'
+            ? '/api/connectivity/ioda'
+            : `/api/connectivity/history?series=${HISTORY_SERIES.join(',')}&range=${range}&maxPoints=500`,
+        fetcher,
         { refreshInterval: 300000 } // Refresh every 5 minutes
     );
+    const signals = toChartSignals(range, data);
 
     const getStatus = (vals?: number[]) => {
         if (!vals || vals.length === 0) return 'unknown';
@@ -55,23 +104,34 @@ export function IODADashboard() {
         );
     }
 
-    if (error || !data?.signals) {
+    if (error || !signals || (range !== '24h' && signals.timestamps.length === 0)) {
         return (
             <div className="p-6 border border-red-200 rounded-lg bg-red-50 text-red-800">
                 <h3 className="font-bold flex items-center gap-2">
                     <AlertCircle className="w-5 h-5" />
                     Connectivity Data Unavailable
                 </h3>
-                <p className="text-sm mt-1">Unable to load signals from IODA. Please try again later.</p>
+                <p className="text-sm mt-1">
+                    {range === '24h'
+                        ? 'Unable to load signals from IODA. Please try again later.'
+                        : 'No stored history for this range yet.'}
+                </p>
+                {range !== '24h' && (
+                    <button onClick={() => setRange('24h')} className="text-sm underline mt-2">
+                        Back to live data
+                    </button>
+                )}
             </div>
         );
     }
 
-    const { timestamps, values } = data.signals;
+    const { timestamps, values } = signals;
 
     // Format timestamps
     const labels = timestamps.map((ts: number) =>
-        new Date(ts * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        range === '24h'
+            ? new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            : new Date(ts).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit' })
     );
 
     // Determine current status based on average of last point
@@ -143,7 +203,24 @@ export function IODADashboard() {
                         <Wifi className="w-6 h-6 text-slate-700" />
                         Live Connectivity (IODA)
                     </h2>
-                    <p className="text-sm text-gray-500">Real-time internet signals from Georgia Tech</p>
+                    <p className="text-sm text-gray-500">
+                        {range === '24h' ? 'Real-time internet signals from Georgia Tech' : 'Stored signal history'}
+                        {signals.stale && ' (upstream unavailable, showing stored data)'}
+                    </p>
+                    <div className="flex gap-1 mt-2">
+                        {RANGES.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => setRange(option.id)}
+                                className={`px-3 py-1 text-xs rounded-full border ${range === option.id
+                                    ? 'bg-slate-800 text-white border-slate-800'
+                                    : 'text-slate-600 border-slate-200 hover:bg-slate-50'
+                                    }`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
                 </div>
 
                 <div className={`px-4 py-2 rounded-full border text-sm font-bold flex items-center gap-2 ${currentStatus === 'Connected' ? 'bg-green-100 text-green-800 border-green-200' :
@@ -1,19 +1,113 @@
-
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import useSWR from 'swr';
-import { ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { ShieldAlert, ShieldCheck, ShieldQuestion, ChevronDown, ChevronRight, History } from 'lucide-react';
+import type { OONITargetSummary, OONIAsnSummary, OONIStatus, BlockingMethod } from '@/lib/ooni-client';
+import type { OONIStatusChange } from '@/lib/services/connectivity/ooni-changes';
+
+type NamedAsn = OONIAsnSummary & { name?: string };
+
+interface OONIResponse {
+    summary: Array<Omit<OONITargetSummary, 'asns'> & { asns: NamedAsn[] }>;
+    changes: OONIStatusChange[];
+    timestamp: string;
+}
+
+const STATUS_STYLES: Record<OONIStatus, { icon: string; pill: string }> = {
+    Blocked: { icon: 'bg-red-100 text-red-600', pill: 'bg-red-50 border-red-200 text-red-700' },
+    Partial: { icon: 'bg-orange-100 text-orange-600', pill: 'bg-orange-50 border-orange-200 text-orange-700' },
+    Accessible: { icon: 'bg-green-100 text-green-600', pill: 'bg-green-50 border-green-200 text-green-700' },
+    Unknown: { icon: 'bg-gray-100 text-gray-500', pill: 'bg-gray-50 border-gray-200 text-gray-600' },
+};
+
+const METHOD_LABELS: Record<BlockingMethod, string> = {
+    dns: 'DNS',
+    tcp: 'TCP/IP',
+    tls: 'TLS/SNI',
+    http: 'HTTP',
+    unknown: 'Unclassified',
+};
+
+const CATEGORY_LABELS: Record<OONITargetSummary['category'], string> = {
+    messaging: 'Messaging',
+    social: 'Social media',
+    circumvention: 'Circumvention tools',
+    news: 'News sites',
+    other: 'Other',
+};
+
+function StatusIcon({ status }: { status: OONIStatus }) {
+    if (status === 'Blocked') return <ShieldAlert className="w-5 h-5" />;
+    if (status === 'Accessible') return <ShieldCheck className="w-5 h-5" />;
+    return <ShieldQuestion className="w-5 h-5" />;
+}
+
+function MethodBadges({ methods }: { methods: Partial<Record<BlockingMethod, number>> }) {
+    const entries = (Object.entries(methods) as Array<[BlockingMethod, number]>).sort((a, b) => b[1] - a[1]);
+    if (entries.length === 0) return null;
+
+    return (
+        <span className="flex flex-wrap gap-1">
+            {entries.map(([method, count]) => (
+                <span key={method} className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-purple-50 text-purple-700 border border-purple-100">
+                    {METHOD_LABELS[method]} ×{count}
+                </span>
+            ))}
+        </span>
+    );
+}
+
+function AsnTable({ asns }: { asns: NamedAsn[] }) {
+    if (asns.length === 0) {
+        return <p className="text-xs text-gray-500 px-3 pb-3">No measurements in the last day.</p>;
+    }
+
+    return (
+        <table className="w-full text-xs">
+            <thead>
+                <tr className="text-left text-gray-500 border-b">
+                    <th className="py-1.5 px-3 font-medium">Network</th>
+                    <th className="py-1.5 px-3 font-medium text-right">Tests</th>
+                    <th className="py-1.5 px-3 font-medium text-right">Anomalies</th>
+                    <th className="py-1.5 px-3 font-medium">Method</th>
+                    <th className="py-1.5 px-3 font-medium">Status</th>
+                </tr>
+            </thead>
+            <tbody>
+                {asns.map(asn => (
+                    <tr key={asn.asn} className="border-b last:border-0">
+                        <td className="py-1.5 px-3 font-mono">
+                            {asn.asn}{asn.name && <span className="font-sans text-gray-500"> · {asn.name}</span>}
+                        </td>
+                        <td className="py-1.5 px-3 text-right">{asn.total}</td>
+                        <td className="py-1.5 px-3 text-right">{asn.blocked}</td>
+                        <td className="py-1.5 px-3"><MethodBadges methods={asn.methods} /></td>
+                        <td className="py-1.5 px-3">
+                            <span className={`px-2 py-0.5 rounded-full border font-bold ${STATUS_STYLES[asn.status].pill}`}>
+                                {asn.status.toUpperCase()}
+                            </span>
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
 
 export function OONIDashboard() {
-    const { data, error, isLoading } = useSWR(
-        '/api/connectivity/ooni',
-        (url) => fetch(url).then(r => r.json()),
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const { data, error, isLoading } = useSWR<OONIResponse>(
+        '/api/connectivity/ooni?range=30d',
+        (url: string) => fetch(url).then(r => r.json()),
         { refreshInterval: 300000 }
     );
 
     if (isLoading) return <div className="h-64 bg-gray-50 animate-pulse rounded-xl border border-gray-200"></div>;
-    if (error) return <div className="text-red-500 p-4 border rounded">Failed to load censorship data.</div>;
+    if (error || !data?.summary) return <div className="text-red-500 p-4 border rounded">Failed to load censorship data.</div>;
+
+    const names = new Map(data.summary.map(item => [item.id, item.name]));
+    const categories = Array.from(new Set(data.summary.map(item => item.category)));
 
     return (
         <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
@@ -23,44 +117,86 @@ export function OONIDashboard() {
                     Censorship Awareness (OONI)
                 </h2>
                 <p className="text-sm text-gray-500">
-                    Real-time blocking status of critical communication platforms in Iran.
+                    Blocking status of messaging apps, circumvention tools and news sites in Iran, per network.
                     Source: Open Observatory of Network Interference.
                 </p>
             </div>
 
-            <div className="grid gap-3">
-                {data.summary.map((item: any) => (
-                    <div key={item.domain} className="flex items-center justify-between p-3 rounded-lg border bg-gray-50 hover:bg-white transition-colors">
-                        <div className="flex items-center gap-3">
-                            <div className={`p-2 rounded-full ${item.status === 'Blocked' ? 'bg-red-100 text-red-600' :
-                                    item.status === 'Partial' ? 'bg-orange-100 text-orange-600' :
-                                        'bg-green-100 text-green-600'
-                                }`}>
-                                {item.status === 'Blocked' && <ShieldAlert className="w-5 h-5" />}
-                                {item.status === 'Partial' && <ShieldQuestion className="w-5 h-5" />}
-                                {item.status === 'Accessible' && <ShieldCheck className="w-5 h-5" />}
-                            </div>
-                            <div>
-                                <span className="font-bold text-gray-900 block">{item.domain}</span>
-                                <span className="text-xs text-gray-500">
-                                    Tests: {item.total} | Anomalies: {item.blocked}
-                                </span>
-                            </div>
-                        </div>
-                        <div>
-                            <span className={`text-xs font-bold px-3 py-1 rounded-full border ${item.status === 'Blocked' ? 'bg-red-50 border-red-200 text-red-700' :
-                                    item.status === 'Partial' ? 'bg-orange-50 border-orange-200 text-orange-700' :
-                                        'bg-green-50 border-green-200 text-green-700'
-                                }`}>
-                                {item.status.toUpperCase()}
-                            </span>
+            <div className="space-y-5">
+                {categories.map(category => (
+                    <div key={category}>
+                        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                            {CATEGORY_LABELS[category]}
+                        </h3>
+                        <div className="grid gap-3">
+                            {data.summary.filter(item => item.category === category).map(item => (
+                                <div key={item.id} className="rounded-lg border bg-gray-50">
+                                    <button
+                                        onClick={() => setExpanded(expanded === item.id ? null : item.id)}
+                                        className="w-full flex items-center justify-between p-3 hover:bg-white transition-colors rounded-lg text-left"
+                                    >
+                                        <div className="flex items-center gap-3">
+                                            {expanded === item.id
+                                                ? <ChevronDown className="w-4 h-4 text-gray-400" />
+                                                : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                                            <div className={`p-2 rounded-full ${STATUS_STYLES[item.status].icon}`}>
+                                                <StatusIcon status={item.status} />
+                                            </div>
+                                            <div>
+                                                <span className="font-bold text-gray-900 block">{item.name}</span>
+                                                <span className="text-xs text-gray-500 flex flex-wrap items-center gap-2">
+                                                    <span className="font-mono">{item.testName}{item.domain && ` · ${item.domain}`}</span>
+                                                    {item.error
+                                                        ? <span className="text-red-500">Unavailable</span>
+                                                        : <span>Tests: {item.total} | Anomalies: {item.blocked} | Networks: {item.asns.length}</span>}
+                                                    <MethodBadges methods={item.methods} />
+                                                </span>
+                                            </div>
+                                        </div>
+                                        <span className={`text-xs font-bold px-3 py-1 rounded-full border ${STATUS_STYLES[item.status].pill}`}>
+                                            {item.status.toUpperCase()}
+                                        </span>
+                                    </button>
+                                    {expanded === item.id && (
+                                        <div className="border-t bg-white rounded-b-lg">
+                                            <AsnTable asns={item.asns} />
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
                         </div>
                     </div>
                 ))}
             </div>
 
+            <div className="mt-6">
+                <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-2">
+                    <History className="w-4 h-4 text-gray-500" />
+                    Status Changes (30 days)
+                </h3>
+                {data.changes.length === 0 ? (
+                    <p className="text-xs text-gray-500">No status changes recorded.</p>
+                ) : (
+                    <ul className="divide-y text-sm max-h-64 overflow-y-auto">
+                        {data.changes.map(change => (
+                            <li key={`${change.target}:${change.at}`} className="py-2 flex items-center justify-between gap-3">
+                                <span className="text-gray-900">{names.get(change.target) || change.target}</span>
+                                <span className="flex items-center gap-2 text-xs">
+                                    <span className={`px-2 py-0.5 rounded-full border ${STATUS_STYLES[change.from].pill}`}>{change.from}</span>
+                                    →
+                                    <span className={`px-2 py-0.5 rounded-full border ${STATUS_STYLES[change.to].pill}`}>{change.to}</span>
+                                    <span className="text-gray-400 w-32 text-right">
+                                        {new Date(change.at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                    </span>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
             <div className="mt-4 text-xs text-right text-gray-400">
-                Results from last 20 probes (approx 24h)
+                Measurements from the last 24h · updated {new Date(data.timestamp).toLocaleTimeString()}
             </div>
         </div>
     );
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useState } from 'react';
+import useSWR from 'swr';
+import Link from 'next/link';
+import { RadioTower, Loader2, MapPin, Newspaper } from 'lucide-react';
+import type { CorrelationResult, TimelineEntry } from '@/lib/services/connectivity/outage-correlator';
+
+type Range = '24h' | '7d' | '30d';
+
+const RANGES: { id: Range; label: string }[] = [
+    { id: '24h', label: '24h' },
+    { id: '7d', label: '7 days' },
+    { id: '30d', label: '30 days' },
+];
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+const formatTime = (time: number) =>
+    new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+function scopeLabel(scope: { kind: string; id: string; name: string }): string {
+    if (scope.kind === 'province') return `${scope.name} province`;
+    if (scope.kind === 'asn') return `${scope.name} (AS${scope.id})`;
+    return `${scope.name} (nationwide)`;
+}
+
+/**
+ * Outages next to the incidents and news reported while they lasted
+ */
+export function OutageTimeline() {
+    const [range, setRange] = useState<Range>('7d');
+    const [showAll, setShowAll] = useState(false);
+    const { data, error, isLoading } = useSWR<CorrelationResult>(
+        `/api/connectivity/correlation?range=${range}`,
+        fetcher,
+        { refreshInterval: 300000 }
+    );
+
+    if (isLoading) {
+        return (
+            <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm h-[200px] flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
+            </div>
+        );
+    }
+
+    if (error || !data?.timeline) {
+        return (
+            <div className="bg-red-50 p-4 rounded-lg border border-red-200 text-red-700">
+                <h3 className="font-bold">Timeline unavailable</h3>
+                <p className="text-sm mt-1">Unable to load outages and reports. Please try again later.</p>
+            </div>
+        );
+    }
+
+    // Without "show all", only outages and what was reported under them
+    const entries = data.timeline.filter(
+        (entry: TimelineEntry) => showAll || entry.kind === 'outage' || !!entry.reportedUnderShutdown
+    );
+    const underShutdown = data.timeline.filter(entry => entry.kind !== 'outage' && entry.reportedUnderShutdown).length;
+
+    return (
+        <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h2 className="text-xl font-bold flex items-center gap-2">
+                        <RadioTower className="w-6 h-6 text-slate-700" />
+                        Shutdowns &amp; Reports
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                        {data.correlations.length} outages · {underShutdown} reports during a shutdown
+                    </p>
+                    <div className="flex gap-1 mt-2">
+                        {RANGES.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => setRange(option.id)}
+                                className={`px-3 py-1 text-xs rounded-full border ${range === option.id
+                                    ? 'bg-slate-800 text-white border-slate-800'
+                                    : 'text-slate-600 border-slate-200 hover:bg-slate-50'
+                                    }`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+                    Show all reports
+                </label>
+            </div>
+
+            {entries.length === 0 ? (
+                <p className="text-sm text-gray-500 py-6 text-center">No outages detected in this period.</p>
+            ) : (
+                <ol className="relative border-l border-slate-200 ml-2 space-y-3 max-h-[480px] overflow-y-auto pr-2">
+                    {[...entries].reverse().map(entry => (
+                        <li key={`${entry.kind}:${entry.id}`} className="ml-4">
+                            <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${entry.kind === 'outage' ? 'bg-purple-500' : entry.kind === 'incident' ? 'bg-red-500' : 'bg-slate-400'
+                                }`} />
+                            {entry.kind === 'outage' ? (
+                                <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
+                                    <div className="text-sm font-semibold text-purple-900">
+                                        📡 Shutdown: {scopeLabel(entry.scope)}
+                                    </div>
+                                    <div className="text-xs text-purple-700 mt-1">
+                                        {formatTime(entry.start)} → {entry.end ? formatTime(entry.end) : 'ongoing'}
+                                        {' · '}drop {Math.round(entry.severity * 100)}%
+                                        {' · '}confidence {Math.round(entry.confidence * 100)}%
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="text-sm">
+                                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                                        {entry.kind === 'incident' ? <MapPin className="w-3 h-3" /> : <Newspaper className="w-3 h-3" />}
+                                        {formatTime(entry.at)}
+                                        {entry.reportedUnderShutdown && (
+                                            <span className="text-purple-600 font-medium">
+                                                reported under shutdown ({scopeLabel(entry.reportedUnderShutdown.scope)})
+                                            </span>
+                                        )}
+                                    </div>
+                                    {entry.kind === 'article' && entry.url ? (
+                                        <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-slate-800 hover:underline">
+                                            {entry.title}
+                                        </a>
+                                    ) : entry.kind === 'incident' ? (
+                                        <Link href="/map" className="text-slate-800 hover:underline">{entry.title}</Link>
+                                    ) : (
+                                        <span className="text-slate-800">{entry.title}</span>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+}
@@ -1,12 +1,14 @@
 'use client';
 
 import { useEffect, useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Tooltip, useMap, LayersControl } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Tooltip, Circle, useMap, LayersControl } from 'react-leaflet';
 import MarkerClusterGroup from 'react-leaflet-cluster';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet.heat';
 import IncidentSidePanel from './IncidentSidePanel';
+import type { AnnotatedIncident } from '@/lib/services/connectivity/outage-correlator';
+import type { OutageEvent } from '@/lib/services/connectivity/repositories/i-outage-repository';
 
 const { BaseLayer, Overlay } = LayersControl;
 
@@ -23,35 +25,13 @@ let DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
-interface Incident {
-  id: string;
-  type: 'protest' | 'arrest' | 'injury' | 'death' | 'other';
-  title: string;
-  description: string;
-  location: {
-    lat: number;
-    lon: number;
-    address?: string;
-  };
-  images?: string[];
-  verified: boolean;
-  reportedBy: 'crowdsource' | 'official';
-  timestamp: number;
-  upvotes: number;
-  createdAt: number;
-  relatedArticles?: Array<{
-    title: string;
-    url: string;
-    source: string;
-  }>;
-}
-
 interface IncidentMapProps {
-  incidents: Incident[];
+  incidents: AnnotatedIncident[];
   selectedType?: string;
-  onIncidentClick?: (incident: Incident) => void;
+  onIncidentClick?: (incident: AnnotatedIncident) => void;
   dateRange?: { start: Date; end: Date };
   showHeatmap?: boolean;
+  outages?: OutageEvent[]; // Province outages are drawn around the provincial capital
 }
 
 // Color-coded custom icons for different incident types
@@ -164,7 +144,7 @@ function MapController({ centerOn, onReset }: { centerOn: [number, number] | nul
 }
 
 // Heatmap layer component
-function HeatmapLayer({ incidents, show }: { incidents: Incident[]; show: boolean }) {
+function HeatmapLayer({ incidents, show }: { incidents: AnnotatedIncident[]; show: boolean }) {
   const map = useMap();
   const heatLayerRef = useRef<L.HeatLayer | null>(null);
 
@@ -219,10 +199,46 @@ function HeatmapLayer({ incidents, show }: { incidents: Incident[]; show: boolea
   return null;
 }
 
-export default function IncidentMap({ incidents, selectedType, onIncidentClick, dateRange, showHeatmap = false }: IncidentMapProps) {
+// Province outages: radius grows with severity, opacity with confidence
+function OutageLayer({ outages }: { outages: OutageEvent[] }) {
+  return (
+    <>
+      {outages
+        .filter(outage => outage.location)
+        .map(outage => (
+          <Circle
+            key={outage.id}
+            center={[outage.location!.lat, outage.location!.lon]}
+            radius={40000 + outage.severity * 80000}
+            pathOptions={{
+              color: outage.status === 'ongoing' ? '#a855f7' : '#64748b', // purple-500 / slate-500
+              fillOpacity: 0.1 + outage.confidence * 0.25,
+              weight: 2,
+              dashArray: outage.status === 'ongoing' ? undefined : '6 6',
+            }}
+          >
+            <Tooltip direction="top" sticky={true}>
+              <div className="px-2 py-1 text-xs">
+                <div className="font-semibold text-sm mb-1">
+                  📡 {outage.scope.name}: {outage.status === 'ongoing' ? 'internet shutdown' : 'connectivity restored'}
+                </div>
+                <div>Since {new Date(outage.onset).toLocaleString()}</div>
+                {outage.recoveredAt && <div>Restored {new Date(outage.recoveredAt).toLocaleString()}</div>}
+                <div>
+                  Signal drop {Math.round(outage.severity * 100)}% · confidence {Math.round(outage.confidence * 100)}%
+                </div>
+              </div>
+            </Tooltip>
+          </Circle>
+        ))}
+    </>
+  );
+}
+
+export default function IncidentMap({ incidents, selectedType, onIncidentClick, dateRange, showHeatmap = false, outages = [] }: IncidentMapProps) {
   const [isMounted, setIsMounted] = useState(false);
   const [centerOn, setCenterOn] = useState<[number, number] | null>(null);
-  const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
+  const [selectedIncident, setSelectedIncident] = useState<AnnotatedIncident | null>(null);
   const mapInitialized = useRef(false);
 
   useEffect(() => {
@@ -324,6 +340,7 @@ export default function IncidentMap({ incidents, selectedType, onIncidentClick,
           onReset={() => setCenterOn(null)}
         />
         <HeatmapLayer incidents={filteredIncidents} show={showHeatmap} />
+        <OutageLayer outages={outages} />
 
         <MarkerClusterGroup
           chunkedLoading
@@ -357,6 +374,9 @@ export default function IncidentMap({ incidents, selectedType, onIncidentClick,
               >
                 <div className="text-center px-2 py-1">
                   <div className="font-semibold text-sm mb-1">{incident.title}</div>
+                  {incident.reportedUnderShutdown && (
+                    <div className="text-xs text-purple-600 font-medium mb-1">📡 Reported under shutdown</div>
+                  )}
                   <div className="text-xs text-gray-600 font-medium">👆 Click marker for details</div>
                 </div>
               </Tooltip>
@@ -1,31 +1,7 @@
 'use client';
 
 import { useEffect } from 'react';
-
-interface Incident {
-  id: string;
-  type: 'protest' | 'arrest' | 'injury' | 'death' | 'other';
-  title: string;
-  description: string;
-  location: {
-    lat: number;
-    lon: number;
-    address?: string;
-  };
-  images?: string[];
-  verified: boolean;
-  reportedBy: 'crowdsource' | 'official';
-  timestamp: number;
-  upvotes: number;
-  createdAt: number;
-  relatedArticles?: Array<{
-    title: string;
-    url: string;
-    source: string;
-  }>;
-  confidence?: number;
-  keywords?: string[];
-}
+import type { Incident } from '@/lib/domain/incident';
 
 interface IncidentModalProps {
   incident: Incident | null;
@@ -250,6 +226,23 @@ export default function IncidentModal({
             </div>
           )}
 
+          {/* Tags */}
+          {incident.tags && incident.tags.length > 0 && (
+            <div className="mb-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Tags</p>
+              <div className="flex flex-wrap gap-2">
+                {incident.tags.map((tag, idx) => (
+                  <span
+                    key={idx}
+                    className="px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 rounded text-xs"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Description */}
           <div className="mb-4">
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Description</p>
@@ -301,6 +294,30 @@ export default function IncidentModal({
             </div>
           )}
 
+          {/* Source Posts */}
+          {(incident.twitterUrl || incident.telegramUrl || incident.alternateUrl) && (
+            <div className="mb-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Source Posts</p>
+              <div className="flex flex-wrap gap-3 text-sm">
+                {incident.twitterUrl && (
+                  <a href={incident.twitterUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                    𝕏 Post
+                  </a>
+                )}
+                {incident.telegramUrl && (
+                  <a href={incident.telegramUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                    ✈️ Telegram
+                  </a>
+                )}
+                {incident.alternateUrl && (
+                  <a href={incident.alternateUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                    🎥 Alternate view
+                  </a>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Social Share */}
           <div className="mb-4 pt-4 border-t border-gray-200 dark:border-gray-700">
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">Share</p>
@@ -3,39 +3,10 @@
 import { useEffect } from 'react';
 import TweetEmbed from './TweetEmbed';
 import TelegramEmbed from './TelegramEmbed';
-
-interface Incident {
-  id: string;
-  type: 'protest' | 'arrest' | 'injury' | 'death' | 'other';
-  title: string;
-  description: string;
-  location: {
-    lat: number;
-    lon: number;
-    address?: string;
-  };
-  images?: string[];
-  verified: boolean;
-  reportedBy: 'crowdsource' | 'official';
-  timestamp: number;
-  upvotes: number;
-  createdAt: number;
-  relatedArticles?: Array<{
-    title: string;
-    url: string;
-    source: string;
-  }>;
-  // Media embedding support
-  twitterUrl?: string;
-  telegramUrl?: string;
-  alternateUrl?: string;
-  mediaUrls?: string[];
-  embedType?: 'twitter' | 'telegram' | 'image' | 'video';
-  tags?: string[];
-}
+import type { AnnotatedIncident } from '@/lib/services/connectivity/outage-correlator';
 
 interface IncidentSidePanelProps {
-  incident: Incident | null;
+  incident: AnnotatedIncident | null;
   onClose: () => void;
 }
 
@@ -228,6 +199,23 @@ export default function IncidentSidePanel({ incident, onClose }: IncidentSidePan
             </div>
           </div>
 
+          {/* Internet shutdown at the time: reports may be delayed, incomplete or impossible to verify */}
+          {incident.reportedUnderShutdown && (
+            <div className="bg-purple-50 dark:bg-purple-900/30 border border-purple-200 dark:border-purple-700 rounded-lg p-3 text-sm">
+              <div className="font-semibold text-purple-800 dark:text-purple-200">📡 Reported under shutdown</div>
+              <div className="text-purple-700 dark:text-purple-300 mt-1">
+                Internet shutdown in {incident.reportedUnderShutdown.scope.kind === 'province'
+                  ? `${incident.reportedUnderShutdown.scope.name} province`
+                  : incident.reportedUnderShutdown.scope.name}{' '}
+                since {formatTimestamp(incident.reportedUnderShutdown.onset)}
+                {incident.reportedUnderShutdown.recoveredAt
+                  ? `, restored ${formatTimestamp(incident.reportedUnderShutdown.recoveredAt)}`
+                  : ', still ongoing'}
+                . Details may arrive late and be harder to verify.
+              </div>
+            </div>
+          )}
+
           {/* Description */}
           <div>
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Description</h3>
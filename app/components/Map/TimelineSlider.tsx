@@ -2,12 +2,21 @@
 
 import { useState, useEffect, useCallback } from 'react';
 
+export interface OutageBand {
+  id: string;
+  start: number;
+  end?: number; // Still ongoing
+  label: string;
+  severity: number; // 0-1
+}
+
 interface TimelineSliderProps {
   minDate: Date;
   maxDate: Date;
   onDateRangeChange: (startDate: Date, endDate: Date) => void;
   onClearFilter?: () => void; // Callback to show all incidents
   incidentCountByDay: Record<string, number>;
+  outageBands?: OutageBand[]; // Internet shutdowns drawn over the track
 }
 
 export default function TimelineSlider({
@@ -16,6 +25,7 @@ export default function TimelineSlider({
   onDateRangeChange,
   onClearFilter,
   incidentCountByDay,
+  outageBands = [],
 }: TimelineSliderProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -86,6 +96,16 @@ export default function TimelineSlider({
     ? incidentCountByDay[currentDate.toISOString().split('T')[0]] || 0
     : 0;
 
+  // Position of a time on the track (0-100%), matching the slider's day positions
+  const trackStart = uniqueDates[0]?.getTime() ?? 0;
+  const trackSpan = Math.max((uniqueDates[uniqueDates.length - 1]?.getTime() ?? 0) - trackStart, 1);
+  const toPercent = (time: number) => Math.min(100, Math.max(0, ((time - trackStart) / trackSpan) * 100));
+
+  const currentDayStart = currentDate ? new Date(currentDate).setHours(0, 0, 0, 0) : 0;
+  const currentDayOutages = outageBands.filter(band =>
+    band.start <= currentDayStart + 86400000 && (band.end ?? Date.now()) >= currentDayStart
+  );
+
   if (uniqueDates.length === 0) {
     return null;
   }
@@ -102,6 +122,14 @@ export default function TimelineSlider({
               <span className="text-[10px] font-normal opacity-70">
                 ({incidentCount} incidents)
               </span>
+              {currentDayOutages.length > 0 && (
+                <span
+                  className="text-[10px] font-semibold text-purple-500"
+                  title={currentDayOutages.map(band => band.label).join(', ')}
+                >
+                  📡 Shutdown
+                </span>
+              )}
             </>
           ) : (
             <span className="text-[10px] font-normal opacity-70">
@@ -151,6 +179,19 @@ export default function TimelineSlider({
             className="w-full h-8 bg-transparent rounded-lg appearance-none cursor-pointer z-10"
           />
 
+          {/* Outage Bands */}
+          {outageBands.map(band => (
+            <div
+              key={band.id}
+              className="absolute top-1/2 -translate-y-1/2 h-3 rounded-sm bg-purple-500 pointer-events-none"
+              style={{
+                left: `${toPercent(band.start)}%`,
+                width: `${Math.max(toPercent(band.end ?? Date.now()) - toPercent(band.start), 0.75)}%`,
+                opacity: 0.3 + band.severity * 0.5,
+              }}
+            />
+          ))}
+
           {/* Visual Track */}
           <div className="absolute left-0 right-0 top-1/2 -translate-y-1/2 h-1.5 bg-surface-4/50 rounded-full pointer-events-none overflow-hidden backdrop-blur-sm">
             <div
@@ -5,6 +5,8 @@ import { Badge } from '@/app/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { offlineDB } from '@/lib/offline-db';
 import { logger } from '@/lib/logger';
+import type { TranslatedSegment, TranslationTier, GlossaryHit } from '@/lib/translation-robust';
+import { identifyLanguage, LANGUAGES, SUPPORTED_LANGUAGES, type SupportedLanguage } from '@/lib/language-id';
 
 interface NewsCardProps {
   id?: string;
@@ -13,39 +15,104 @@ interface NewsCardProps {
   url: string;
   publishedAt: string;
   topics: string[];
-  source?: 'perplexity' | 'twitter' | 'telegram';
+  source?: 'perplexity' | 'twitter' | 'telegram' | 'rss';
   author?: string;
   channelName?: string;
   content?: string; // Full article content for incident extraction
+  reportedBy?: string[]; // Distinct outlets covering the same story
+  updatedAt?: string | number; // Set when the source edited the post after publication
+  revisionCount?: number;
 }
 
-function detectLanguage(text: string): 'fa' | 'en' {
-  const farsiPattern = /[\u0600-\u06FF]/;
-  return farsiPattern.test(text) ? 'fa' : 'en';
+// Languages a card can be translated from; the reader can correct a wrong guess
+const SOURCE_LANGUAGES = SUPPORTED_LANGUAGES.filter(lang => lang !== 'en');
+
+const languageIcons: Partial<Record<SupportedLanguage, string>> = {
+  fa: '🇮🇷',
+};
+
+const tierLabels: Record<TranslationTier, string> = {
+  google: 'Google Translate',
+  mymemory: 'MyMemory',
+  libretranslate: 'LibreTranslate',
+  dictionary: 'Dictionary fallback',
+};
+
+// Sentences from the lower tiers are marked so readers know how far to trust them
+const tierStyles: Record<TranslationTier, string> = {
+  google: '',
+  mymemory: 'underline decoration-dotted decoration-muted-foreground/60 underline-offset-4',
+  libretranslate: 'underline decoration-dotted decoration-muted-foreground/60 underline-offset-4',
+  dictionary: 'bg-destructive/10 rounded-sm',
+};
+
+/**
+ * Split translated segments at the first line break: the title, then the summary
+ */
+function splitAtFirstLine(segments: TranslatedSegment[]): [TranslatedSegment[], TranslatedSegment[]] {
+  for (let i = 0; i < segments.length; i++) {
+    const lineBreak = segments[i].text.indexOf('\n');
+    if (lineBreak === -1) continue;
+
+    const before = { ...segments[i], text: segments[i].text.slice(0, lineBreak) };
+    const after = { ...segments[i], text: segments[i].text.slice(lineBreak + 1) };
+    return [
+      [...segments.slice(0, i), ...(before.text ? [before] : [])],
+      [...(after.text ? [after] : []), ...segments.slice(i + 1)],
+    ];
+  }
+  return [segments, []];
 }
 
-export default function NewsCard({ id, title, summary, url, publishedAt, topics, source, author, channelName, content }: NewsCardProps) {
+function renderSegments(segments: TranslatedSegment[]) {
+  return segments.map((segment, i) => (
+    <span
+      key={i}
+      className={segment.tier && tierStyles[segment.tier]}
+      title={segment.tier && `Translated by ${tierLabels[segment.tier]}`}
+    >
+      {segment.text}
+    </span>
+  ));
+}
+
+export default function NewsCard({ id, title, summary, url, publishedAt, topics, source, author, channelName, content, reportedBy, updatedAt, revisionCount }: NewsCardProps) {
   const [isTranslated, setIsTranslated] = useState(false);
   const [translatedTitle, setTranslatedTitle] = useState('');
   const [translatedSummary, setTranslatedSummary] = useState('');
   const [isTranslating, setIsTranslating] = useState(false);
   const [translationError, setTranslationError] = useState('');
-  const [detectedLang, setDetectedLang] = useState<'fa' | 'en'>('en');
+  const [translatedSegments, setTranslatedSegments] = useState<TranslatedSegment[] | null>(null);
+  const [glossaryHits, setGlossaryHits] = useState<GlossaryHit[]>([]);
+  const [detectedLang, setDetectedLang] = useState<SupportedLanguage>('en');
   const [isExpanded, setIsExpanded] = useState(false);
 
+  // Edited posts get a fresh translation instead of the cached one for the old text
+  const translationKey = id && revisionCount && revisionCount > 1 ? `${id}:r${revisionCount}` : id;
+
   useEffect(() => {
-    const lang = detectLanguage(title + ' ' + summary);
+    const lang = identifyLanguage(title + ' ' + summary).language;
     setDetectedLang(lang);
 
-    if (id && lang === 'fa') {
-      offlineDB.getCachedTranslation(id).then(cached => {
+    if (translationKey && lang !== 'en') {
+      offlineDB.getCachedTranslation(translationKey).then(cached => {
         if (cached) {
           setTranslatedTitle(cached.translatedText.split('\n')[0]);
           setTranslatedSummary(cached.translatedText.split('\n').slice(1).join('\n'));
+          setTranslatedSegments(cached.segments ?? null);
         }
       });
     }
-  }, [id, title, summary]);
+  }, [translationKey, title, summary]);
+
+  const handleSourceLanguageChange = (lang: SupportedLanguage) => {
+    setDetectedLang(lang);
+    setIsTranslated(false);
+    setTranslatedTitle('');
+    setTranslatedSummary('');
+    setTranslatedSegments(null);
+    setGlossaryHits([]);
+  };
 
   const handleTranslate = async () => {
     if (isTranslated) {
@@ -70,7 +137,7 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
           text: textToTranslate,
           sourceLang: detectedLang,
           targetLang: 'en',
-          autoDetect: true,
+          autoDetect: false, // Identified above, or chosen by the reader
         }),
       });
 
@@ -85,15 +152,18 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
 
       setTranslatedTitle(newTitle);
       setTranslatedSummary(newSummary);
+      setTranslatedSegments(data.segments ?? null);
+      setGlossaryHits(data.glossaryHits ?? []);
       setIsTranslated(true);
 
-      if (id) {
+      if (translationKey) {
         await offlineDB.cacheTranslation(
-          id,
+          translationKey,
           textToTranslate,
           data.translatedText,
           detectedLang,
-          'en'
+          'en',
+          data.segments
         );
       }
     } catch (error) {
@@ -109,7 +179,16 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
 
   const displayTitle = isTranslated && translatedTitle ? translatedTitle : title;
   const displaySummary = isTranslated && translatedSummary ? translatedSummary : summary;
-  const isRTL = !isTranslated && detectedLang === 'fa';
+  const isRTL = !isTranslated && LANGUAGES[detectedLang].direction === 'rtl';
+
+  // Per-sentence quality of the translation, when the API returned it
+  const [titleSegments, summarySegments] = isTranslated && translatedSegments
+    ? splitAtFirstLine(translatedSegments)
+    : [null, null];
+  const tierCounts = (translatedSegments ?? []).reduce<Partial<Record<TranslationTier, number>>>(
+    (counts, { tier }) => (tier ? { ...counts, [tier]: (counts[tier] ?? 0) + 1 } : counts),
+    {}
+  );
 
   const topicVariants: Record<string, 'iran' | 'official' | 'opposition' | 'leader' | 'world' | 'solidarity' | 'breaking' | 'embassy'> = {
     'iran.now': 'iran',
@@ -133,7 +212,7 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
     'events.embassy_incidents': 'Embassy',
   };
 
-  const formatDate = (dateStr: string) => {
+  const formatDate = (dateStr: string | number) => {
     try {
       const date = new Date(dateStr);
       const now = new Date();
@@ -149,14 +228,15 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
         return date.toLocaleDateString();
       }
     } catch {
-      return dateStr;
+      return String(dateStr);
     }
   };
 
   const sourceIcons = {
     twitter: '𝕏',
     telegram: '✈️',
-    perplexity: '🔍'
+    perplexity: '🔍',
+    rss: '📡'
   };
 
   return (
@@ -184,9 +264,23 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
               {topicLabels[topic] || topic}
             </Badge>
           ))}
-          {detectedLang === 'fa' && (
-            <Badge variant="outline" className="gap-1">
-              🇮🇷 Farsi
+          {detectedLang !== 'en' && (
+            <Badge variant="outline" className="gap-1" title={LANGUAGES[detectedLang].nativeName}>
+              {languageIcons[detectedLang] ?? '🗣️'} {LANGUAGES[detectedLang].name}
+            </Badge>
+          )}
+          {reportedBy && reportedBy.length > 1 && (
+            <Badge variant="outline" className="gap-1" title={reportedBy.join(', ')}>
+              📰 Reported by {reportedBy.length} sources
+            </Badge>
+          )}
+          {updatedAt && (
+            <Badge
+              variant="outline"
+              className="gap-1"
+              title={`Edited by the source after publication${revisionCount ? ` (${revisionCount} revisions)` : ''}`}
+            >
+              ✏️ Updated {formatDate(updatedAt)}
             </Badge>
           )}
         </div>
@@ -202,7 +296,7 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
           dir={isRTL ? 'rtl' : 'ltr'}
           style={{ textAlign: isRTL ? 'right' : 'left' }}
         >
-          {displayTitle}
+          {titleSegments ? renderSegments(titleSegments) : displayTitle}
         </h2>
 
         {/* Summary */}
@@ -216,7 +310,7 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
             dir={isRTL ? 'rtl' : 'ltr'}
             style={{ textAlign: isRTL ? 'right' : 'left' }}
           >
-            {displaySummary}
+            {summarySegments ? renderSegments(summarySegments) : displaySummary}
           </p>
           {displaySummary.length > 150 && (
             <button
@@ -237,35 +331,65 @@ export default function NewsCard({ id, title, summary, url, publishedAt, topics,
         </div>
 
         {/* Translation Button */}
-        {detectedLang === 'fa' && (
+        {detectedLang !== 'en' && (
           <div className="mb-4">
-            <button
-              onClick={handleTranslate}
-              disabled={isTranslating}
-              className={cn(
-                "text-label text-primary hover:text-primary/80",
-                "disabled:opacity-50 disabled:cursor-not-allowed",
-                "flex items-center gap-2",
-                "transition-colors duration-200"
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleTranslate}
+                disabled={isTranslating}
+                className={cn(
+                  "text-label text-primary hover:text-primary/80",
+                  "disabled:opacity-50 disabled:cursor-not-allowed",
+                  "flex items-center gap-2",
+                  "transition-colors duration-200"
+                )}
+              >
+                {isTranslating ? (
+                  <>
+                    <span className="inline-block animate-spin">⏳</span>
+                    <span>Translating...</span>
+                  </>
+                ) : isTranslated ? (
+                  <>
+                    <span>{languageIcons[detectedLang] ?? '🗣️'}</span>
+                    <span>Show Original</span>
+                  </>
+                ) : (
+                  <>
+                    <span>🇬🇧</span>
+                    <span>Translate to English</span>
+                  </>
+                )}
+              </button>
+              {!isTranslated && (
+                <select
+                  value={detectedLang}
+                  onChange={(e) => handleSourceLanguageChange(e.target.value as SupportedLanguage)}
+                  disabled={isTranslating}
+                  aria-label="Source language"
+                  className="text-xs bg-transparent text-muted-foreground border border-border/50 rounded-md px-1.5 py-0.5"
+                >
+                  {SOURCE_LANGUAGES.map(lang => (
+                    <option key={lang} value={lang}>
+                      from {LANGUAGES[lang].name}
+                    </option>
+                  ))}
+                </select>
               )}
-            >
-              {isTranslating ? (
-                <>
-                  <span className="inline-block animate-spin">⏳</span>
-                  <span>Translating...</span>
-                </>
-              ) : isTranslated ? (
-                <>
-                  <span>🇮🇷</span>
-                  <span>Show Original</span>
-                </>
-              ) : (
-                <>
-                  <span>🇬🇧</span>
-                  <span>Translate to English</span>
-                </>
-              )}
-            </button>
+            </div>
+            {isTranslated && translatedSegments && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Translation quality:{' '}
+                {(Object.entries(tierCounts) as Array<[TranslationTier, number]>)
+                  .map(([tier, count]) => `${count} ${count === 1 ? 'sentence' : 'sentences'} by ${tierLabels[tier]}`)
+                  .join(' · ')}
+                {glossaryHits.length > 0 && (
+                  <span title={glossaryHits.map(hit => `${hit.source} → ${hit.target}`).join('\n')}>
+                    {' · '}{glossaryHits.length} glossary {glossaryHits.length === 1 ? 'term' : 'terms'}
+                  </span>
+                )}
+              </p>
+            )}
             {translationError && (
               <p className="text-xs text-destructive mt-2">
                 {translationError}
@@ -20,9 +20,34 @@ interface Article {
   url: string;
   publishedAt: string;
   topics: string[];
-  source?: 'perplexity' | 'twitter' | 'telegram';
+  source?: 'perplexity' | 'twitter' | 'telegram' | 'rss';
   author?: string;
   channelName?: string;
+  updatedAt?: number;
+  revisionCount?: number;
+}
+
+interface Story {
+  id: string;
+  headline: string;
+  summary: string;
+  topics: string[];
+  members: Array<{
+    title: string;
+    source: string;
+    sourceKey: string;
+    channelName?: string;
+    sourceUrl?: string;
+    publishedAt: number;
+  }>;
+  sources: string[];
+  sourceCount: number;
+  firstSeenAt: number;
+}
+
+interface StoriesResponse {
+  stories: Story[];
+  count: number;
 }
 
 interface NewsResponse {
@@ -54,6 +79,8 @@ export default function NewsFeed({ externalTopicQuery }: NewsFeedProps) {
   });
   const [isSearchMode, setIsSearchMode] = useState(false);
   const [isSuggestModalOpen, setIsSuggestModalOpen] = useState(false);
+  const [groupByStory, setGroupByStory] = useState(false);
+  const [sortByReputation, setSortByReputation] = useState(false);
 
   // Effect to update filters when externalTopicQuery changes
   useEffect(() => {
@@ -78,6 +105,10 @@ export default function NewsFeed({ externalTopicQuery }: NewsFeedProps) {
       params.set('topics', filters.topics.join(','));
     }
 
+    if (sortByReputation) {
+      params.set('sort', 'reputation');
+    }
+
     // Add other filters here if needed
 
     return `/api/news?${params.toString()}`;
@@ -94,6 +125,15 @@ export default function NewsFeed({ externalTopicQuery }: NewsFeedProps) {
     }
   );
 
+  const { data: storiesData, isLoading: isLoadingStories } = useSWR<StoriesResponse>(
+    groupByStory ? '/api/stories?limit=50' : null,
+    fetcher,
+    {
+      refreshInterval: 600000,
+      revalidateOnFocus: false,
+    }
+  );
+
   useEffect(() => {
     offlineDB.init().catch(err =>
       logger.error('indexeddb_init_failed', {
@@ -264,6 +304,26 @@ export default function NewsFeed({ externalTopicQuery }: NewsFeedProps) {
             >
               📡 Suggest Source
             </Button>
+            <Button
+              onClick={() => setGroupByStory(g => !g)}
+              variant={groupByStory ? 'secondary' : 'outline'}
+              disabled={isOffline}
+              title="Show one card per story, with the sources that reported it"
+            >
+              {groupByStory ? '📰 Stories' : '📄 Articles'}
+            </Button>
+            <Button
+              onClick={() => {
+                setSortByReputation(s => !s);
+                setPage(0);
+                setAllArticles([]);
+              }}
+              variant={sortByReputation ? 'secondary' : 'outline'}
+              disabled={isOffline || groupByStory}
+              title="Order articles by how reliable their source has been"
+            >
+              {sortByReputation ? '🛡️ Most reliable' : '🕒 Latest'}
+            </Button>
             <Button
               onClick={handleRefresh}
               disabled={isRefreshing || isOffline}
@@ -294,65 +354,108 @@ export default function NewsFeed({ externalTopicQuery }: NewsFeedProps) {
         />
       </div>
 
-      {/* Loading State */}
-      {(isLoading || isLoadingOffline) && allArticles.length === 0 && (
-        <div className="flex flex-col items-center justify-center py-12">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
-          <p className="text-muted-foreground">
-            {isLoadingOffline ? 'Loading offline articles...' : 'Loading news...'}
-          </p>
-        </div>
-      )}
+      {groupByStory ? (
+        <>
+          {/* Loading State */}
+          {isLoadingStories && !storiesData && (
+            <div className="flex flex-col items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
+              <p className="text-muted-foreground">Loading stories...</p>
+            </div>
+          )}
+
+          {/* Stories Grid */}
+          <div className="space-y-6">
+            {storiesData?.stories.map((story) => {
+              const lead = story.members[0];
+              return (
+                <NewsCard
+                  key={story.id}
+                  id={story.id}
+                  title={story.headline}
+                  summary={story.summary}
+                  url={lead?.sourceUrl || ''}
+                  publishedAt={new Date(story.firstSeenAt).toISOString()}
+                  topics={story.topics}
+                  source={lead?.source as Article['source']}
+                  channelName={lead?.channelName}
+                  reportedBy={story.sources}
+                />
+              );
+            })}
+          </div>
 
-      {/* Empty State */}
-      {!isLoading && allArticles.length === 0 && (
-        <div className="text-center py-12">
-          <p className="text-xl text-muted-foreground mb-4">
-            No news articles available yet.
-          </p>
-          <Button onClick={handleRefresh} size="lg">
-            Fetch News
-          </Button>
-        </div>
-      )}
+          {storiesData && storiesData.stories.length > 0 && (
+            <div className="mt-8 text-center text-sm text-muted-foreground">
+              Showing {storiesData.stories.length} stories
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          {/* Loading State */}
+          {(isLoading || isLoadingOffline) && allArticles.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
+              <p className="text-muted-foreground">
+                {isLoadingOffline ? 'Loading offline articles...' : 'Loading news...'}
+              </p>
+            </div>
+          )}
 
-      {/* Articles Grid */}
-      <div className="space-y-6">
-        {allArticles.map((article) => (
-          <NewsCard
-            key={article.id}
-            id={article.id}
-            title={article.title}
-            summary={article.summary}
-            url={article.url}
-            publishedAt={article.publishedAt}
-            topics={article.topics}
-            source={article.source}
-            author={article.author}
-            channelName={article.channelName}
-          />
-        ))}
-      </div>
+          {/* Empty State */}
+          {!isLoading && allArticles.length === 0 && (
+            <div className="text-center py-12">
+              <p className="text-xl text-muted-foreground mb-4">
+                No news articles available yet.
+              </p>
+              <Button onClick={handleRefresh} size="lg">
+                Fetch News
+              </Button>
+            </div>
+          )}
+
+          {/* Articles Grid */}
+          <div className="space-y-6">
+            {allArticles.map((article) => (
+              <NewsCard
+                key={article.id}
+                id={article.id}
+                title={article.title}
+                summary={article.summary}
+                url={article.url}
+                publishedAt={article.publishedAt}
+                topics={article.topics}
+                source={article.source}
+                author={article.author}
+                channelName={article.channelName}
+                updatedAt={article.updatedAt}
+                revisionCount={article.revisionCount}
+              />
+            ))}
+          </div>
 
-      {/* Load More Button */}
-      {data?.pagination.hasMore && (
-        <div className="mt-8 text-center">
-          <Button
-            onClick={handleLoadMore}
-            disabled={isLoading}
-            variant="outline"
-            size="lg"
-          >
-            {isLoading ? 'Loading...' : 'Load More'}
-          </Button>
-        </div>
-      )}
+          {/* Load More Button */}
+          {data?.pagination.hasMore && (
+            <div className="mt-8 text-center">
+              <Button
+                onClick={handleLoadMore}
+                disabled={isLoading}
+                variant="outline"
+                size="lg"
+              >
+                {isLoading ? 'Loading...' : 'Load More'}
+              </Button>
+            </div>
+          )}
 
-      {/* Stats */}
-      {allArticles.length > 0 && (
-        <div className="mt-8 text-center text-sm text-muted-foreground">
-          Showing {allArticles.length} of {data?.pagination.total || allArticles.length} articles
-        </div>
+          {/* Stats */}
+          {allArticles.length > 0 && (
+            <div className="mt-8 text-center text-sm text-muted-foreground">
+              Showing {allArticles.length} of {data?.pagination.total || allArticles.length} articles
+            </div>
+          )}
+        </>
       )}
 
       {/* Suggest Channel Modal */}
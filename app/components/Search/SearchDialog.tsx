@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Article } from '@/lib/firestore';
+import type { SearchHit, SearchMode } from '@/lib/algolia';
 import { logger } from '@/lib/logger';
 
 interface SearchDialogProps {
@@ -10,13 +11,13 @@ interface SearchDialogProps {
 }
 
 interface SearchResult {
-  hits: Article[];
+  hits: SearchHit[];
   nbHits: number;
   page: number;
   nbPages: number;
   processingTimeMS: number;
   query: string;
-  mode: 'algolia' | 'fuse' | 'disabled';
+  mode: SearchMode;
 }
 
 export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
@@ -222,7 +223,7 @@ export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
             <div className="p-2">
               <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
                 {results.nbHits} results ({results.processingTimeMS}ms)
-                {results.mode === 'fuse' && ' - Using offline search'}
+                {results.mode === 'local' && ' - Using local search'}
               </div>
               {results.hits.map((article, idx) => (
                 <button
@@ -236,12 +237,27 @@ export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
                 >
                   <div className="flex items-start gap-3">
                     <div className="flex-1">
-                      <div className="font-medium text-gray-900 dark:text-white mb-1">
-                        {article.title}
-                      </div>
-                      <div className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
-                        {article.summary}
-                      </div>
+                      {/* Highlights are HTML-escaped by the search backend, apart from <mark> */}
+                      {article.highlights?.title ? (
+                        <div
+                          className="font-medium text-gray-900 dark:text-white mb-1 [&_mark]:bg-yellow-200 dark:[&_mark]:bg-yellow-700 [&_mark]:text-inherit"
+                          dangerouslySetInnerHTML={{ __html: article.highlights.title }}
+                        />
+                      ) : (
+                        <div className="font-medium text-gray-900 dark:text-white mb-1">
+                          {article.title}
+                        </div>
+                      )}
+                      {article.highlights?.summary ? (
+                        <div
+                          className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2 [&_mark]:bg-yellow-200 dark:[&_mark]:bg-yellow-700 [&_mark]:text-inherit"
+                          dangerouslySetInnerHTML={{ __html: article.highlights.summary }}
+                        />
+                      ) : (
+                        <div className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+                          {article.summary}
+                        </div>
+                      )}
                       <div className="flex items-center gap-2 mt-2">
                         <span className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
                           {article.source}
@@ -294,7 +310,7 @@ export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
           </div>
           <div>
             {results?.mode === 'algolia' && '⚡ Powered by Algolia'}
-            {results?.mode === 'fuse' && '🔌 Offline Search'}
+            {results?.mode === 'local' && '🔌 Local Search'}
           </div>
         </div>
       </div>
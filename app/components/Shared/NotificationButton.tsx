@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { logger } from '@/lib/logger';
+import NotificationPreferencesPanel from './NotificationPreferencesPanel';
 
 export default function NotificationButton() {
   const [permission, setPermission] = useState<NotificationPermission>('default');
@@ -9,6 +10,7 @@ export default function NotificationButton() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSupported, setIsSupported] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
 
   useEffect(() => {
     // Check if push notifications are supported
@@ -136,6 +138,7 @@ export default function NotificationButton() {
       }
 
       setIsSubscribed(false);
+      setShowPreferences(false);
 
     } catch (err) {
       logger.error('notification_unsubscribe_failed', {
@@ -165,18 +168,37 @@ export default function NotificationButton() {
   }
 
   return (
-    <div className="flex flex-col gap-1">
-      <button
-        onClick={isSubscribed ? unsubscribe : subscribe}
-        disabled={isLoading}
-        className={`px-3 py-2 rounded-lg text-sm font-medium transition ${
-          isSubscribed
-            ? 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
-            : 'bg-purple-600 text-white hover:bg-purple-700'
-        } disabled:opacity-50 disabled:cursor-not-allowed`}
-      >
-        {isLoading ? '⏳' : isSubscribed ? '🔕 Subscribed' : '🔔 Notify Me'}
-      </button>
+    <div className="relative flex flex-col gap-1">
+      <div className="flex gap-1">
+        <button
+          onClick={isSubscribed ? unsubscribe : subscribe}
+          disabled={isLoading}
+          className={`px-3 py-2 rounded-lg text-sm font-medium transition ${
+            isSubscribed
+              ? 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
+              : 'bg-purple-600 text-white hover:bg-purple-700'
+          } disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {isLoading ? '⏳' : isSubscribed ? '🔕 Subscribed' : '🔔 Notify Me'}
+        </button>
+
+        {isSubscribed && (
+          <button
+            onClick={() => setShowPreferences(!showPreferences)}
+            aria-label="Notification preferences"
+            aria-expanded={showPreferences}
+            className="px-2 py-2 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition"
+          >
+            ⚙️
+          </button>
+        )}
+      </div>
+
+      {showPreferences && (
+        <div className="absolute right-0 top-full mt-2 z-50">
+          <NotificationPreferencesPanel onClose={() => setShowPreferences(false)} />
+        </div>
+      )}
 
       {error && (
         <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
@@ -0,0 +1,295 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { logger } from '@/lib/logger';
+import { INCIDENT_TYPES } from '@/lib/domain/incident';
+import { IRAN_PROVINCES } from '@/lib/domain/provinces';
+import { KNOWN_CITIES } from '@/lib/geocoder';
+import { TOPIC_FEEDS } from '@/lib/perplexity';
+import { DEFAULT_NOTIFICATION_PREFERENCES, MAX_NOTIFICATIONS_PER_HOUR } from '@/lib/services/notifications/subscription-matcher';
+import type { NotificationPreferences } from '@/lib/services/notifications/repositories/i-subscription-repository';
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+const TOPIC_OPTIONS: Option[] = TOPIC_FEEDS.map(topic => ({ value: topic.id, label: topic.label }));
+const PROVINCE_OPTIONS: Option[] = IRAN_PROVINCES.map(province => ({ value: province.id, label: `${province.name} · ${province.nameFa}` }));
+const CITY_OPTIONS: Option[] = KNOWN_CITIES.map(city => ({ value: city.name, label: city.nameFa ? `${city.name} · ${city.nameFa}` : city.name }));
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DEFAULT_QUIET_HOURS = { start: 0, end: 7, timezone: 'Asia/Tehran' };
+
+/**
+ * Selected values as removable chips, plus a menu to add the others
+ */
+function ChipPicker({ label, options, selected, onChange }: {
+  label: string;
+  options: Option[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const labels = new Map(options.map(option => [option.value, option.label]));
+
+  return (
+    <div>
+      <span className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</span>
+      <div className="flex flex-wrap gap-1">
+        {selected.map(value => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange(selected.filter(item => item !== value))}
+            className="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
+          >
+            {labels.get(value) || value} ×
+          </button>
+        ))}
+        <select
+          value=""
+          onChange={event => event.target.value && onChange([...selected, event.target.value])}
+          className="text-xs px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+        >
+          <option value="">{selected.length === 0 ? 'Any' : 'Add…'}</option>
+          {options.filter(option => !selected.includes(option.value)).map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+export default function NotificationPreferencesPanel({ onClose }: { onClose: () => void }) {
+  const [endpoint, setEndpoint] = useState<string | null>(null);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [keywords, setKeywords] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const registration = await navigator.serviceWorker.ready;
+        const subscription = await registration.pushManager.getSubscription();
+        if (!subscription) {
+          setError('Not subscribed');
+          return;
+        }
+        setEndpoint(subscription.endpoint);
+
+        const response = await fetch('/api/subscribe/preferences', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        if (!response.ok) {
+          throw new Error('Failed to load preferences');
+        }
+
+        const data = await response.json();
+        setPreferences({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...data.preferences });
+        setKeywords((data.preferences.keywords || []).join(', '));
+      } catch (err) {
+        logger.error('notification_preferences_load_failed', {
+          component: 'NotificationPreferencesPanel',
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+        setError(err instanceof Error ? err.message : 'Failed to load preferences');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const update = (changes: Partial<NotificationPreferences>) => {
+    setPreferences(current => ({ ...current, ...changes }));
+    setStatus(null);
+  };
+
+  const save = async () => {
+    if (!endpoint) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/subscribe', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          endpoint,
+          preferences: {
+            ...preferences,
+            keywords: keywords.split(/[,،\n]/).map(word => word.trim()).filter(Boolean),
+          },
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save preferences');
+      }
+
+      setPreferences(data.preferences);
+      setStatus('Saved');
+    } catch (err) {
+      logger.error('notification_preferences_save_failed', {
+        component: 'NotificationPreferencesPanel',
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+      setError(err instanceof Error ? err.message : 'Failed to save preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="w-80 h-40 bg-gray-50 dark:bg-gray-800 animate-pulse rounded-lg border border-gray-200 dark:border-gray-700" />;
+  }
+
+  const { quietHours } = preferences;
+
+  return (
+    <div className="w-80 max-h-[70vh] overflow-y-auto p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-gray-900 dark:text-gray-100">Notify me about</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close preferences">✕</button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Leave a filter on “Any” to include everything. Articles must match every filter you set.
+      </p>
+
+      <ChipPicker label="Topics" options={TOPIC_OPTIONS} selected={preferences.topics} onChange={topics => update({ topics })} />
+
+      <div>
+        <span className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Incident types</span>
+        <div className="flex flex-wrap gap-1">
+          {INCIDENT_TYPES.map(type => {
+            const active = preferences.incidentTypes.includes(type);
+            return (
+              <button
+                key={type}
+                type="button"
+                onClick={() => update({
+                  incidentTypes: active
+                    ? preferences.incidentTypes.filter(item => item !== type)
+                    : [...preferences.incidentTypes, type],
+                })}
+                className={`text-xs px-2 py-0.5 rounded-full border capitalize ${
+                  active
+                    ? 'bg-purple-600 border-purple-600 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {type}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <ChipPicker label="Provinces" options={PROVINCE_OPTIONS} selected={preferences.provinces} onChange={provinces => update({ provinces })} />
+      <ChipPicker label="Cities" options={CITY_OPTIONS} selected={preferences.cities} onChange={cities => update({ cities })} />
+
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Keywords (Farsi or English, comma-separated)</span>
+        <input
+          type="text"
+          value={keywords}
+          onChange={event => { setKeywords(event.target.value); setStatus(null); }}
+          placeholder="e.g. strike, اعتصاب"
+          className="w-full text-xs px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+        />
+      </label>
+
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Minimum verification score: {preferences.minVerificationScore === 0 ? 'any' : preferences.minVerificationScore}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={10}
+          value={preferences.minVerificationScore}
+          onChange={event => update({ minVerificationScore: Number(event.target.value) })}
+          className="w-full"
+        />
+      </label>
+
+      <div>
+        <label className="flex items-center gap-2 text-xs font-medium text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={Boolean(quietHours)}
+            onChange={event => update({ quietHours: event.target.checked ? DEFAULT_QUIET_HOURS : undefined })}
+          />
+          Quiet hours (Tehran time)
+        </label>
+        {quietHours && (
+          <div className="flex items-center gap-2 mt-1 text-xs">
+            <select
+              value={quietHours.start}
+              onChange={event => update({ quietHours: { ...quietHours, start: Number(event.target.value) } })}
+              className="px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{`${hour}:00`}</option>)}
+            </select>
+            to
+            <select
+              value={quietHours.end}
+              onChange={event => update({ quietHours: { ...quietHours, end: Number(event.target.value) } })}
+              className="px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{`${hour}:00`}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Delivery</span>
+        <select
+          value={preferences.delivery ?? 'instant'}
+          onChange={event => update({ delivery: event.target.value as NotificationPreferences['delivery'] })}
+          className="text-xs px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+        >
+          <option value="instant">Instantly</option>
+          <option value="hourly">Hourly digest</option>
+          <option value="daily">Daily digest</option>
+        </select>
+      </label>
+
+      {(preferences.delivery ?? 'instant') === 'instant' && (
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">At most per hour</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_NOTIFICATIONS_PER_HOUR}
+          value={preferences.maxPerHour}
+          onChange={event => update({ maxPerHour: Number(event.target.value) })}
+          className="w-20 text-xs px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+        />
+      </label>
+      )}
+
+      <div className="flex items-center justify-between pt-1">
+        <span className="text-xs">
+          {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+          {status && <span className="text-green-600 dark:text-green-400">{status}</span>}
+        </span>
+        <button
+          onClick={save}
+          disabled={isSaving || !endpoint}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import { IODADashboard } from '@/app/components/Connectivity/IODADashboard';
 import { CloudflareDashboard } from '@/app/components/Connectivity/CloudflareDashboard';
 import { OONIDashboard } from '@/app/components/Connectivity/OONIDashboard';
+import { OutageTimeline } from '@/app/components/Connectivity/OutageTimeline';
 import { Activity, Radio, Shield, Globe } from 'lucide-react';
 
 export default function ConnectivityPage() {
@@ -64,6 +65,7 @@ export default function ConnectivityPage() {
                         {activeTab === 'overview' && (
                             <>
                                 <IODADashboard />
+                                <OutageTimeline />
                                 <section className="bg-surface-2/30 backdrop-blur border border-white/5 p-6 rounded-2xl relative overflow-hidden group">
                                     <div className="absolute inset-0 bg-gradient-to-br from-white/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"></div>
                                     <h2 className="text-xl font-bold mb-4 flex items-center gap-2 text-white">
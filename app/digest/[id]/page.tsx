@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import useSWR from 'swr';
+import { useParams } from 'next/navigation';
+import { Newspaper, ExternalLink, ShieldCheck } from 'lucide-react';
+import type { NotificationDigest } from '@/lib/services/notifications/repositories/i-digest-repository';
+
+interface DigestResponse {
+    digest: Omit<NotificationDigest, 'subscriptionId'>;
+}
+
+export default function DigestPage() {
+    const { id } = useParams<{ id: string }>();
+    const { data, error, isLoading } = useSWR<DigestResponse>(
+        id ? `/api/digests/${id}` : null,
+        (url: string) => fetch(url).then(r => {
+            if (!r.ok) throw new Error('Digest not found');
+            return r.json();
+        })
+    );
+
+    const digest = data?.digest;
+
+    return (
+        <div className="w-full min-h-screen bg-background text-foreground pb-20">
+            <div className="container mx-auto px-4 py-8 max-w-3xl">
+                <div className="mb-8 relative pl-6 border-l-4 border-expression-green">
+                    <h1 className="text-3xl font-bold mb-2 flex items-center gap-3 text-white tracking-tight">
+                        <Newspaper className="w-8 h-8 text-expression-green" />
+                        {digest ? `Your ${digest.period} digest` : 'Digest'}
+                    </h1>
+                    {digest && (
+                        <p className="text-zinc-400">
+                            {digest.items.length} {digest.items.length === 1 ? 'article' : 'articles'} matching your notification preferences
+                            {' · '}
+                            {new Date(digest.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                            {digest.sentAt && ` – ${new Date(digest.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                        </p>
+                    )}
+                </div>
+
+                {isLoading && <div className="h-64 bg-surface-2/30 animate-pulse rounded-2xl border border-white/5"></div>}
+                {error && <div className="text-red-400 p-4 border border-red-500/30 rounded-xl">This digest is not available.</div>}
+
+                {digest && (
+                    <ul className="space-y-3">
+                        {digest.items.map(item => (
+                            <li key={item.articleId} className="bg-surface-2/30 backdrop-blur p-4 rounded-xl border border-white/5">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div>
+                                        {item.url ? (
+                                            <a
+                                                href={item.url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="font-semibold text-white hover:text-expression-green inline-flex items-start gap-1"
+                                            >
+                                                {item.title}
+                                                <ExternalLink className="w-3.5 h-3.5 mt-1 shrink-0" />
+                                            </a>
+                                        ) : (
+                                            <span className="font-semibold text-white">{item.title}</span>
+                                        )}
+                                        <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-zinc-400">
+                                            <span>{item.source}</span>
+                                            {item.reason && (
+                                                <span className="px-2 py-0.5 rounded-full bg-expression-green/10 text-expression-green">{item.reason}</span>
+                                            )}
+                                            {item.incidentTypes.map(type => (
+                                                <span key={type} className="px-2 py-0.5 rounded-full bg-white/5 capitalize">{type}</span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    {item.verificationScore !== undefined && (
+                                        <span className="text-xs text-zinc-400 flex items-center gap-1 shrink-0" title="Verification score">
+                                            <ShieldCheck className="w-3.5 h-3.5" />
+                                            {Math.round(item.verificationScore)}
+                                        </span>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -3,8 +3,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
-import TimelineSlider from '../components/Map/TimelineSlider';
+import TimelineSlider, { type OutageBand } from '../components/Map/TimelineSlider';
 import { logger } from '@/lib/logger';
+import type { OutageEvent } from '@/lib/services/connectivity/repositories/i-outage-repository';
+import type { AnnotatedIncident } from '@/lib/services/connectivity/outage-correlator';
 
 // Dynamic import for Leaflet to avoid SSR issues
 const IncidentMap = dynamic(
@@ -12,41 +14,40 @@ const IncidentMap = dynamic(
   { ssr: false }
 );
 
-interface Incident {
-  id: string;
-  type: 'protest' | 'arrest' | 'injury' | 'death' | 'other';
-  title: string;
-  description: string;
-  location: {
-    lat: number;
-    lon: number;
-    address?: string;
-  };
-  images?: string[];
-  verified: boolean;
-  reportedBy: 'crowdsource' | 'official';
-  timestamp: number;
-  upvotes: number;
-  createdAt: number;
-  relatedArticles?: Array<{
-    title: string;
-    url: string;
-    source: string;
-  }>;
-}
-
 export default function MapPage() {
-  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [incidents, setIncidents] = useState<AnnotatedIncident[]>([]);
   const [selectedType, setSelectedType] = useState<string>('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState<{ start: Date; end: Date } | undefined>(undefined);
   const [showHeatmap, setShowHeatmap] = useState(false);
+  const [outages, setOutages] = useState<OutageEvent[]>([]);
 
   useEffect(() => {
     fetchIncidents();
+    fetchOutages();
+
+    // Outage status changes faster than incidents
+    const interval = setInterval(fetchOutages, 5 * 60 * 1000);
+    return () => clearInterval(interval);
   }, []);
 
+  const fetchOutages = async () => {
+    try {
+      // Long enough to draw the bands of the whole timeline
+      const response = await fetch('/api/connectivity/outages?range=30d');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setOutages(data.outages || []);
+    } catch (err) {
+      logger.warn('outages_fetch_failed', {
+        component: 'MapPage',
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
   const fetchIncidents = async () => {
     try {
       setIsLoading(true);
@@ -137,6 +138,25 @@ export default function MapPage() {
   }, []);
 
   const counts = getIncidentCounts();
+  const nationalOutages = outages.filter(outage => outage.status === 'ongoing' && outage.scope.kind !== 'province');
+
+  // On the map: outages during the selected day, else ongoing ones and those that ended in the last day
+  const mapOutages = outages.filter(outage => {
+    const end = outage.recoveredAt ?? Date.now();
+    return dateRange
+      ? outage.onset <= dateRange.end.getTime() && end >= dateRange.start.getTime()
+      : outage.status === 'ongoing' || end >= Date.now() - 86400000;
+  });
+
+  const outageBands: OutageBand[] = outages
+    .filter(outage => outage.scope.kind !== 'asn')
+    .map(outage => ({
+      id: outage.id,
+      start: outage.onset,
+      end: outage.recoveredAt,
+      label: outage.scope.kind === 'province' ? `${outage.scope.name} province` : outage.scope.name,
+      severity: outage.severity,
+    }));
   const incidentCountByDay = getIncidentCountByDay();
 
   const filterButtons = [
@@ -216,6 +236,15 @@ export default function MapPage() {
               </button>
             ))}
           </div>
+
+          {/* Nationwide and network outages have no place on the map */}
+          {nationalOutages.length > 0 && (
+            <div className="self-start px-4 py-2 rounded-full text-sm backdrop-blur-md border bg-purple-500/20 text-purple-100 border-purple-400/30">
+              📡 Internet shutdown detected: {nationalOutages.map(outage =>
+                outage.scope.kind === 'asn' ? `${outage.scope.name} (AS${outage.scope.id})` : outage.scope.name
+              ).join(', ')}
+            </div>
+          )}
         </div>
       </div>
 
@@ -235,6 +264,7 @@ export default function MapPage() {
               selectedType={selectedType}
               dateRange={dateRange}
               showHeatmap={showHeatmap}
+              outages={mapOutages}
             />
 
             {/* Floating Timeline Slider */}
@@ -246,6 +276,7 @@ export default function MapPage() {
                   onDateRangeChange={handleDateRangeChange}
                   onClearFilter={handleClearFilter}
                   incidentCountByDay={incidentCountByDay}
+                  outageBands={outageBands}
                 />
               </div>
             )}
@@ -278,6 +309,10 @@ export default function MapPage() {
               <div className="w-3 h-3 rounded-full bg-indigo-500"></div>
               <span>Other</span>
             </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-full border-2 border-purple-500"></div>
+              <span>Internet outage</span>
+            </div>
             <span className="ml-auto">● Solid = Verified • ◐ Faded = Unverified</span>
           </div>
         </div>
@@ -0,0 +1,172 @@
+import { diffWords, getDiffStats } from '../text-diff';
+import { computeContentHash, generateMinHashSignature } from '../minhash';
+import { getSourceIdentity } from '../services/news/revisions/source-identity';
+import { RevisionTracker } from '../services/news/revisions/revision-tracker';
+import { IArticleRepository } from '../services/news/repositories/i-article-repository';
+import { IRevisionRepository, ArticleRevision } from '../services/news/revisions/i-revision-repository';
+import { ArticleWithHash } from '../services/news/deduplication/i-deduplicator';
+import { Article } from '../services/news/sources/i-news-source';
+
+describe('diffWords', () => {
+  it('should mark changed words and keep the rest equal', () => {
+    const ops = diffWords('At least 12 people were killed in Zahedan', 'At least 40 people were killed in Zahedan');
+
+    expect(ops).toEqual([
+      { op: 'equal', text: 'At least ' },
+      { op: 'delete', text: '12' },
+      { op: 'insert', text: '40' },
+      { op: 'equal', text: ' people were killed in Zahedan' },
+    ]);
+    expect(getDiffStats(ops)).toEqual({ added: 1, removed: 1 });
+  });
+
+  it('should reconstruct both texts from the ops', () => {
+    const before = 'تجمع در میدان آزادی ادامه دارد';
+    const after = 'تجمع بزرگ در میدان آزادی امشب ادامه دارد';
+    const ops = diffWords(before, after);
+
+    const rebuild = (skip: string) => ops.filter(o => o.op !== skip).map(o => o.text).join('');
+    expect(rebuild('insert')).toBe(before);
+    expect(rebuild('delete')).toBe(after);
+    expect(getDiffStats(ops)).toEqual({ added: 2, removed: 0 });
+  });
+
+  it('should return a single equal op for identical text', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ op: 'equal', text: 'same text' }]);
+  });
+});
+
+describe('getSourceIdentity', () => {
+  it('should key Telegram posts by channel and message ID', () => {
+    expect(getSourceIdentity({ sourceUrl: 'https://t.me/IranIntl/12345' })).toBe('telegram:iranintl:12345');
+    expect(getSourceIdentity({ sourceUrl: 'https://t.me/s/iranintl/12345' })).toBe('telegram:iranintl:12345');
+    expect(getSourceIdentity({ sourceUrl: 'https://t.me/c/1001234/77' })).toBe('telegram:c1001234:77');
+  });
+
+  it('should key tweets by status ID across hosts', () => {
+    expect(getSourceIdentity({ sourceUrl: 'https://twitter.com/user/status/1789' }))
+      .toBe(getSourceIdentity({ sourceUrl: 'https://x.com/user/status/1789?s=20' }));
+  });
+
+  it('should normalize other URLs and drop tracking params', () => {
+    expect(getSourceIdentity({ sourceUrl: 'https://www.radiofarda.com/a/123.html/?utm_source=tg' }))
+      .toBe('url:radiofarda.com/a/123.html');
+  });
+
+  it('should prefer an explicit sourceId and handle missing URLs', () => {
+    expect(getSourceIdentity({ sourceId: 'custom:1', sourceUrl: 'https://t.me/a/1' })).toBe('custom:1');
+    expect(getSourceIdentity({})).toBeUndefined();
+    expect(getSourceIdentity({ sourceUrl: 'not a url' })).toBeUndefined();
+  });
+
+  it('should not key Perplexity summaries on their cited URL', () => {
+    expect(getSourceIdentity({ source: 'perplexity', sourceUrl: 'https://www.radiofarda.com/a/123.html' }))
+      .toBeUndefined();
+    expect(getSourceIdentity({ source: 'rss', sourceUrl: 'https://www.radiofarda.com/a/123.html' }))
+      .toBe('url:radiofarda.com/a/123.html');
+  });
+});
+
+describe('RevisionTracker', () => {
+  const ORIGINAL = 'At least 12 people were killed in Zahedan';
+
+  async function storedArticle(): Promise<ArticleWithHash> {
+    return {
+      id: 'article-1',
+      title: 'Zahedan',
+      summary: ORIGINAL,
+      content: ORIGINAL,
+      source: 'telegram',
+      sourceUrl: 'https://t.me/iranintl/100',
+      sourceId: 'telegram:iranintl:100',
+      publishedAt: 1_700_000_000_000,
+      contentHash: await computeContentHash(ORIGINAL),
+      minHash: generateMinHashSignature(ORIGINAL),
+      createdAt: 1_700_000_060_000,
+    };
+  }
+
+  let fetchCount = 0;
+
+  function fetched(content: string, sourceUrl = 'https://t.me/iranintl/100'): Article {
+    return {
+      id: `fetched-${++fetchCount}`,
+      title: 'Zahedan',
+      summary: content,
+      content,
+      source: 'telegram',
+      sourceUrl,
+      publishedAt: Date.now(),
+    };
+  }
+
+  function setup(stored: ArticleWithHash[]) {
+    const updates: Array<{ id: string; updates: Partial<ArticleWithHash> }> = [];
+    const saved: ArticleRevision[] = [];
+
+    const articles = {
+      getBySourceIds: jest.fn(async (ids: string[]) => stored.filter(a => ids.includes(a.sourceId!))),
+      update: jest.fn(async (id: string, u: Partial<ArticleWithHash>) => {
+        updates.push({ id, updates: u });
+      }),
+    } as unknown as IArticleRepository;
+
+    const revisions: IRevisionRepository = {
+      listByArticle: jest.fn(async () => []),
+      saveMany: jest.fn(async (r: ArticleRevision[]) => {
+        saved.push(...r);
+      }),
+    };
+
+    return { tracker: new RevisionTracker(articles, revisions), updates, saved };
+  }
+
+  it('should pass unseen posts through as fresh', async () => {
+    const { tracker, updates } = setup([await storedArticle()]);
+    const other = fetched('New report', 'https://t.me/iranintl/101');
+
+    const result = await tracker.track([other]);
+
+    expect(result.fresh).toEqual([other]);
+    expect(other.sourceId).toBe('telegram:iranintl:101');
+    expect(updates).toHaveLength(0);
+  });
+
+  it('should ignore a re-fetch with unchanged text', async () => {
+    const { tracker, saved } = setup([await storedArticle()]);
+
+    const result = await tracker.track([fetched(ORIGINAL)]);
+
+    expect(result).toMatchObject({ fresh: [], updated: [], unchanged: 1 });
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should record the original and the edit as revisions on first edit', async () => {
+    const { tracker, updates, saved } = setup([await storedArticle()]);
+    const edited = 'At least 40 people were killed in Zahedan';
+
+    const result = await tracker.track([fetched(edited)]);
+
+    expect(result.fresh).toHaveLength(0);
+    expect(result.updated).toHaveLength(1);
+
+    expect(saved.map(r => r.revision)).toEqual([1, 2]);
+    expect(saved[0]).toMatchObject({ id: 'article-1_r1', content: ORIGINAL, capturedAt: 1_700_000_060_000 });
+    expect(saved[1]).toMatchObject({ id: 'article-1_r2', content: edited, wordsAdded: 1, wordsRemoved: 1 });
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].id).toBe('article-1');
+    expect(updates[0].updates).toMatchObject({ content: edited, revisionCount: 2 });
+    // publishedAt stays as first published
+    expect(updates[0].updates.publishedAt).toBeUndefined();
+  });
+
+  it('should append to existing history on later edits', async () => {
+    const stored = { ...(await storedArticle()), revisionCount: 2 };
+    const { tracker, saved } = setup([stored]);
+
+    await tracker.track([fetched('At least 41 people were killed in Zahedan')]);
+
+    expect(saved.map(r => r.id)).toEqual(['article-1_r3']);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @jest-environment node
+ */
+
+import { ArticleVerifier, ArticleVerifierOptions } from '../services/verification/article-verifier';
+import { IArticleRepository } from '../services/news/repositories/i-article-repository';
+import { IIncidentRepository } from '../services/incidents/repositories/i-incident-repository';
+import { ArticleWithHash } from '../services/news/deduplication/i-deduplicator';
+import { Incident, INCIDENT_SCHEMA_VERSION } from '../domain/incident';
+import { VerificationEngine } from '../verification-engine';
+import { VERIFICATION_MODELS } from '../verification-model';
+
+const NOW = 1_700_000_000_000;
+const AZADI = { lat: 35.6997, lon: 51.338, address: 'Azadi Square, Tehran' };
+
+function incident(id: string, overrides: Partial<Incident> = {}): Incident {
+  return {
+    id,
+    schemaVersion: INCIDENT_SCHEMA_VERSION,
+    type: 'protest',
+    title: `Incident ${id}`,
+    description: 'Crowds gathered',
+    location: AZADI,
+    verified: false,
+    reportedBy: 'crowdsource',
+    timestamp: NOW,
+    upvotes: 0,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+function article(id: string, overrides: Partial<ArticleWithHash> = {}): ArticleWithHash {
+  return {
+    id,
+    title: 'Protest at Azadi Square',
+    summary: '',
+    content: 'Crowds gathered at Azadi Square',
+    source: 'telegram',
+    publishedAt: NOW,
+    contentHash: `hash-${id}`,
+    minHash: [],
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+interface SetupOptions {
+  imageHash?: string | null;
+  location?: typeof AZADI | null;
+  recent?: ArticleWithHash[];
+  limits?: Partial<ArticleVerifierOptions>;
+}
+
+function setup(incidents: Incident[], options: SetupOptions = {}) {
+  const articleUpdates = new Map<string, Partial<ArticleWithHash>>();
+  const incidentUpdates = new Map<string, Partial<Incident>>();
+
+  const articles = {
+    getRecent: jest.fn(async () => options.recent ?? []),
+    update: jest.fn(async (id: string, updates: Partial<ArticleWithHash>) => {
+      articleUpdates.set(id, updates);
+    }),
+  } as unknown as IArticleRepository;
+
+  const incidentRepository = {
+    isAvailable: () => true,
+    getAll: jest.fn(async () => incidents),
+    update: jest.fn(async (id: string, updates: Partial<Incident>) => {
+      incidentUpdates.set(id, updates);
+    }),
+  } as unknown as IIncidentRepository;
+
+  const hashImage = jest.fn(async () => options.imageHash ?? null);
+  const resolveLocation = jest.fn(async () => options.location ?? null);
+
+  const verifier = new ArticleVerifier(
+    articles,
+    incidentRepository,
+    undefined,
+    new VerificationEngine(VERIFICATION_MODELS.v1),
+    hashImage,
+    resolveLocation,
+    options.limits
+  );
+  return { verifier, articleUpdates, incidentUpdates, hashImage, resolveLocation };
+}
+
+describe('ArticleVerifier', () => {
+  it('should locate an article through its extracted incident and score it against nearby reports', async () => {
+    const own = incident('own', { articleIds: ['a1'], confidence: 70 });
+    const nearby = incident('nearby', { verified: true, timestamp: NOW + 30 * 60 * 1000 });
+    const otherCity = incident('mashhad', { location: { lat: 36.2974, lon: 59.6059 } });
+    const { verifier, articleUpdates, incidentUpdates, resolveLocation } = setup([own, nearby, otherCity]);
+
+    const result = await verifier.verifyArticles([article('a1')]);
+
+    expect(resolveLocation).not.toHaveBeenCalled();
+    expect(result.outcomes[0]).toMatchObject({
+      status: 'scored',
+      score: 20,
+      corroboratedBy: ['nearby'],
+      incidentIds: ['own'],
+    });
+    expect(articleUpdates.get('a1')).toMatchObject({
+      verificationScore: 20,
+      corroboratedBy: ['nearby'],
+      verificationFactors: { locationMatch: true, timeMatch: true, mediaMatch: false },
+      verificationModelVersion: 'v1',
+    });
+    // The article's own incident gets the same result and is never its own corroboration
+    expect(incidentUpdates.get('own')).toMatchObject({ verificationScore: 20, corroboratedBy: ['nearby'] });
+    expect(incidentUpdates.has('nearby')).toBe(false);
+  });
+
+  it('should hash the article image and match it against verified media', async () => {
+    const hash = 'ffff0000ffff0000';
+    const verifiedMedia = incident('media', {
+      verified: true,
+      imageHash: hash,
+      location: { lat: 32.6546, lon: 51.668 },
+    });
+    const { verifier, articleUpdates } = setup([verifiedMedia], { imageHash: hash, location: AZADI });
+
+    const result = await verifier.verifyArticles([article('a2', { imageUrl: 'https://example.com/photo.jpg' })]);
+
+    expect(result.outcomes[0]).toMatchObject({ status: 'scored', score: 50, corroboratedBy: ['media'] });
+    expect(articleUpdates.get('a2')).toMatchObject({ imageHash: hash, verificationFactors: { mediaMatch: true } });
+  });
+
+  it('should skip articles that cannot be located', async () => {
+    const { verifier, articleUpdates } = setup([incident('x')]);
+
+    const result = await verifier.verifyArticles([article('a3')]);
+
+    expect(result).toMatchObject({ scored: 0, skipped: 1 });
+    expect(result.outcomes[0].reason).toBe('no_location');
+    expect(articleUpdates.size).toBe(0);
+  });
+
+  it('should verify up to the per-run cap, a few at a time, and defer the rest', async () => {
+    const { verifier, resolveLocation } = setup([incident('x')], { limits: { maxArticles: 3, concurrency: 2 } });
+    let running = 0;
+    let maxRunning = 0;
+    resolveLocation.mockImplementation(async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return null;
+    });
+
+    const result = await verifier.verifyArticles(['a1', 'a2', 'a3', 'a4', 'a5'].map(id => article(id)));
+
+    expect(resolveLocation).toHaveBeenCalledTimes(3);
+    expect(maxRunning).toBe(2);
+    expect(result.outcomes.map(outcome => outcome.reason)).toEqual([
+      'no_location', 'no_location', 'no_location', 'deferred', 'deferred',
+    ]);
+  });
+
+  it('should start no new article once the time budget is spent', async () => {
+    const { verifier, resolveLocation } = setup([incident('x')], { limits: { concurrency: 1, timeBudgetMs: 1000 } });
+    let now = NOW;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    resolveLocation.mockImplementation(async () => {
+      now += 600;
+      return null;
+    });
+
+    const result = await verifier.verifyArticles(['a1', 'a2', 'a3'].map(id => article(id)));
+    jest.restoreAllMocks();
+
+    expect(resolveLocation).toHaveBeenCalledTimes(2);
+    expect(result.outcomes[2]).toEqual({ articleId: 'a3', status: 'skipped', reason: 'deferred' });
+  });
+
+  it('should verify pending articles newest first, skipping scored ones', async () => {
+    const recent = [
+      article('old', { publishedAt: NOW - 60_000 }),
+      article('scored', { verifiedAt: NOW }),
+      article('new', { publishedAt: NOW + 60_000 }),
+    ];
+    const { verifier } = setup([incident('x')], { recent, limits: { maxArticles: 1 } });
+
+    const result = await verifier.verifyPending(6);
+
+    expect(result.outcomes).toEqual([
+      { articleId: 'new', status: 'skipped', reason: 'no_location' },
+      { articleId: 'old', status: 'skipped', reason: 'deferred' },
+    ]);
+  });
+});
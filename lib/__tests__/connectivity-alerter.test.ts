@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+
+import { ConnectivityAlerter } from '../services/notifications/connectivity-alerter';
+import { InMemoryRateLimiter } from '../services/rate-limit/in-memory-rate-limiter';
+import { ISubscriptionRepository, Subscription } from '../services/notifications/repositories/i-subscription-repository';
+import { OutageEvent } from '../services/connectivity/repositories/i-outage-repository';
+
+const HOUR = 60 * 60 * 1000;
+const ONSET = Date.UTC(2026, 0, 1, 14, 5);
+
+function subscription(id: string, connectivityAlerts?: Subscription['connectivityAlerts']): Subscription {
+  return { id, endpoint: `https://push.example/${id}`, keys: { p256dh: 'p', auth: 'a' }, subscribedAt: 0, connectivityAlerts };
+}
+
+function outage(kind: OutageEvent['scope']['kind'], id: string, name: string, recoveredAt?: number): OutageEvent {
+  return {
+    id: `${kind}:${id}:${ONSET}`,
+    scopeKey: `${kind}:${id}`,
+    scope: { kind, id, name },
+    status: recoveredAt ? 'recovered' : 'ongoing',
+    onset: ONSET,
+    ...(recoveredAt && { recoveredAt }),
+    lastObservedAt: recoveredAt ?? ONSET,
+    confidence: 0.9,
+    severity: 0.85,
+    signals: [],
+    createdAt: ONSET,
+    updatedAt: ONSET,
+  };
+}
+
+describe('ConnectivityAlerter', () => {
+  const limiters: InMemoryRateLimiter[] = [];
+  const send = jest.fn();
+
+  function createAlerter(subscriptions: Subscription[], maxPerHour: number = 6) {
+    const repository: ISubscriptionRepository = {
+      isAvailable: () => true,
+      getAll: async () => subscriptions,
+      save: jest.fn(),
+      delete: jest.fn(),
+      updatePreferences: jest.fn(),
+      markNotified: jest.fn(),
+    };
+    const dedup = new InMemoryRateLimiter({ maxRequests: 1, windowMs: 24 * HOUR });
+    const rateLimiter = new InMemoryRateLimiter({ maxRequests: maxPerHour, windowMs: HOUR });
+    limiters.push(dedup, rateLimiter);
+    return new ConnectivityAlerter(repository, dedup, rateLimiter, send);
+  }
+
+  beforeEach(() => {
+    send.mockReset();
+    send.mockImplementation(async (targets: Subscription[]) => ({ success: true, sent: targets.length }));
+  });
+
+  afterAll(() => limiters.forEach(limiter => limiter.destroy()));
+
+  it('sends outages to the subscribers of their province or nationwide alerts', async () => {
+    const alerter = createAlerter([
+      subscription('default'),
+      subscription('tehran', { enabled: true, nationwide: false, provinces: ['tehran'], services: [] }),
+      subscription('off', { enabled: false, nationwide: true, provinces: ['tehran'], services: [] }),
+    ]);
+
+    await alerter.alertOutages([outage('province', 'tehran', 'Tehran'), outage('asn', '44244', 'Irancell')], []);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    const pushes = new Map(send.mock.calls.map(([targets, notification]) => [
+      notification.title,
+      { recipients: targets.map((s: Subscription) => s.id), notification },
+    ]));
+
+    expect(pushes.get('📡 Internet shutdown: Tehran province')).toEqual({
+      recipients: ['tehran'],
+      notification: expect.objectContaining({
+        message: 'Connectivity 85% below normal since 14:05 UTC',
+        tag: `outage:province:tehran:${ONSET}`,
+      }),
+    });
+    expect(pushes.get('📡 Internet shutdown: Irancell (AS44244)')?.recipients).toEqual(['default']);
+  });
+
+  it('sends each alert once and follows it with a recovery', async () => {
+    const alerter = createAlerter([subscription('default')]);
+    const started = outage('country', 'IR', 'Iran');
+
+    await alerter.alertOutages([started], []);
+    await alerter.alertOutages([started], []);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await alerter.alertOutages([], [outage('country', 'IR', 'Iran', ONSET + 2 * HOUR + 15 * 60 * 1000)]);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][1]).toMatchObject({
+      title: '✅ Connectivity restored: Iran',
+      message: 'Back at 16:20 UTC after 2h 15m',
+      tag: `outage:country:IR:${ONSET}`,
+    });
+  });
+
+  it('alerts opted-in subscribers when a service becomes blocked, within their hourly limit', async () => {
+    const alerter = createAlerter([
+      subscription('signal', { enabled: true, nationwide: false, provinces: [], services: ['signal'] }),
+    ], 1);
+
+    const names = new Map([['signal', 'Signal']]);
+    const result = await alerter.alertServiceChanges([
+      { target: 'signal', at: ONSET, from: 'Accessible', to: 'Blocked', anomalyRate: 92 },
+      { target: 'tor', at: ONSET, from: 'Accessible', to: 'Blocked', anomalyRate: 80 },
+      { target: 'signal', at: ONSET - HOUR, from: 'Accessible', to: 'Partial', anomalyRate: 20 },
+    ], names);
+
+    expect(result.sent).toBe(1);
+    expect(send.mock.calls[0][1]).toMatchObject({
+      title: '🚫 Signal blocked',
+      message: 'OONI probes see 92% anomalies since 14:05 UTC',
+    });
+
+    // Over the limit of one push per hour
+    await alerter.alertServiceChanges([
+      { target: 'signal', at: ONSET + HOUR, from: 'Blocked', to: 'Accessible', anomalyRate: 0 },
+    ], names);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
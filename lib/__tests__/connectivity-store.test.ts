@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+
+import { SqliteConnectivityStore } from '../services/connectivity/sqlite-connectivity-store';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe('SqliteConnectivityStore', () => {
+  let store: SqliteConnectivityStore;
+
+  beforeEach(() => {
+    store = new SqliteConnectivityStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('writes and queries raw points, overwriting the same timestamp', async () => {
+    const now = Date.now();
+    const written = await store.write([
+      { series: 'ioda:country:IR:bgp', timestamp: now - 10 * MINUTE, value: 100 },
+      { series: 'ioda:country:IR:bgp', timestamp: now - 5 * MINUTE, value: 90 },
+      { series: 'ioda:country:IR:bgp', timestamp: now - 5 * MINUTE, value: 80 },
+      { series: 'ioda:country:IR:bgp', timestamp: now, value: NaN },
+    ]);
+
+    expect(written).toBe(3);
+    expect(await store.getLatestTimestamp('ioda:country:IR:bgp')).toBe(now - 5 * MINUTE);
+
+    const result = await store.query({
+      series: ['ioda:country:IR:bgp'],
+      from: now - HOUR,
+      until: now,
+      resolution: 'raw',
+    });
+    expect(result.series['ioda:country:IR:bgp'].map(sample => sample.value)).toEqual([100, 80]);
+  });
+
+  it('rolls raw points up into hourly averages with min and max', async () => {
+    const now = Date.UTC(2026, 0, 10, 12);
+    const hour = now - 3 * HOUR;
+    await store.write([10, 20, 30].map((value, i) => ({
+      series: 'ioda:country:IR:ping',
+      timestamp: hour + i * 5 * MINUTE,
+      value,
+    })));
+
+    const { rolledUp } = await store.compact(now);
+    expect(rolledUp).toBeGreaterThan(0);
+
+    const result = await store.query({
+      series: ['ioda:country:IR:ping'],
+      from: hour,
+      until: now,
+      resolution: '1h',
+    });
+    expect(result.series['ioda:country:IR:ping']).toEqual([
+      { timestamp: hour, value: 20, min: 10, max: 30, count: 3 },
+    ]);
+  });
+
+  it('prunes raw points past retention but keeps their rollups', async () => {
+    const now = Date.UTC(2026, 0, 30);
+    const old = now - 13 * DAY;
+    await store.write([{ series: 'radar:as12880:bgp_hijack', timestamp: old, value: 1, meta: { prefix: '1.2.3.0/24' } }]);
+    await store.compact(now);
+
+    const { pruned } = await store.compact(now + 2 * DAY);
+    expect(pruned).toBe(1);
+
+    const raw = await store.query({ series: ['radar:as12880:bgp_hijack'], from: 0, until: now, resolution: 'raw' });
+    expect(raw.series['radar:as12880:bgp_hijack']).toEqual([]);
+
+    const daily = await store.query({ series: ['radar:as12880:bgp_hijack'], from: 0, until: now, resolution: '1d' });
+    expect(daily.series['radar:as12880:bgp_hijack']).toHaveLength(1);
+  });
+
+  it('expands prefix wildcards and picks a resolution that fits maxPoints', async () => {
+    const now = Date.now();
+    await store.write([
+      { series: 'ioda:country:IR:bgp', timestamp: now - MINUTE, value: 1 },
+      { series: 'ioda:country:IR:ping', timestamp: now - MINUTE, value: 2 },
+      { series: 'ooni:IR:telegram.org:anomaly_rate', timestamp: now - MINUTE, value: 0.5 },
+    ]);
+
+    const day = await store.query({ series: ['ioda:country:IR:*'], from: now - DAY, until: now });
+    expect(Object.keys(day.series)).toEqual(['ioda:country:IR:bgp', 'ioda:country:IR:ping']);
+    expect(day.resolution).toBe('raw');
+
+    const month = await store.query({ series: ['ioda:*'], from: now - 30 * DAY, until: now, maxPoints: 1000 });
+    expect(month.resolution).toBe('1h');
+
+    const year = await store.query({ series: ['ioda:*'], from: now - 365 * DAY, until: now });
+    expect(year.resolution).toBe('1d');
+  });
+
+  it('is unavailable without a persistent file outside the sqlite backend', async () => {
+    const env = { ...process.env };
+    delete process.env.CONNECTIVITY_DB_PATH;
+
+    process.env.STORAGE_BACKEND = 'firestore';
+    const unconfigured = new SqliteConnectivityStore();
+    expect(unconfigured.isAvailable()).toBe(false);
+    await expect(unconfigured.write([{ series: 'ioda:country:IR:bgp', timestamp: 1, value: 1 }])).rejects.toThrow('CONNECTIVITY_DB_PATH');
+
+    process.env.CONNECTIVITY_DB_PATH = ':memory:';
+    const configured = new SqliteConnectivityStore();
+    expect(configured.isAvailable()).toBe(true);
+    configured.close();
+
+    process.env = env;
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  migrateIncidentDocument,
+  upgradeIncident,
+  getIncidentSchemaVersion,
+  runIncidentMigrations,
+  IncidentDocumentStore,
+} from '../domain/incident-migrations';
+import { IncidentSchema, INCIDENT_SCHEMA_VERSION, NewIncident } from '../domain/incident';
+import { CreateIncidentSchema } from '../validators/incident-validator';
+import { saveIncident, getIncidentById } from '../firestore';
+
+// An in-memory Firestore with just enough surface for lib/firestore incidents
+const mockStore = new Map<string, Record<string, unknown>>();
+jest.mock('firebase-admin', () => {
+  const ref = (id: string) => ({
+    id,
+    get: async () => ({ id, exists: mockStore.has(id), data: () => mockStore.get(id) }),
+  });
+  const firestore = () => ({
+    collection: () => ({
+      add: async (data: Record<string, unknown>) => {
+        const id = `incident-${mockStore.size + 1}`;
+        mockStore.set(id, data);
+        return ref(id);
+      },
+      doc: ref,
+    }),
+  });
+  firestore.FieldValue = { serverTimestamp: () => ({ serverTimestamp: true }) };
+  return { apps: [{}], firestore };
+});
+
+const LEGACY_DOC = {
+  id: 'legacy-1',
+  type: 'protest',
+  title: 'Large demonstration in Tehran',
+  description: 'Thousands gathered in central Tehran',
+  latitude: 35.6892,
+  longitude: 51.389,
+  verified: true,
+  reportedBy: 'official',
+  timestamp: '2022-09-21T18:00:00Z',
+  upvotes: 47,
+  createdAt: { toMillis: () => 1_663_783_200_000 }, // Firestore Timestamp
+};
+
+describe('migrateIncidentDocument', () => {
+  it('should treat unversioned documents as version 1', () => {
+    expect(getIncidentSchemaVersion(LEGACY_DOC)).toBe(1);
+    expect(getIncidentSchemaVersion({ schemaVersion: 2 })).toBe(2);
+  });
+
+  it('should upgrade a legacy document to a valid current incident', () => {
+    const migrated = migrateIncidentDocument(LEGACY_DOC);
+
+    expect(migrated).toMatchObject({
+      schemaVersion: INCIDENT_SCHEMA_VERSION,
+      location: { lat: 35.6892, lon: 51.389 },
+      timestamp: Date.parse('2022-09-21T18:00:00Z'),
+      createdAt: 1_663_783_200_000,
+    });
+    expect(migrated).not.toHaveProperty('latitude');
+    expect(IncidentSchema.safeParse(migrated).success).toBe(true);
+  });
+
+  it('should fill required defaults and map unknown types to other', () => {
+    const migrated = migrateIncidentDocument({
+      id: 'x',
+      type: 'strike',
+      title: 'Bazaar strike',
+      description: 'Shops closed',
+      location: { lat: 32.65, lng: 51.66 },
+      timestamp: 1000,
+    });
+
+    expect(migrated).toMatchObject({
+      type: 'other',
+      location: { lat: 32.65, lon: 51.66 },
+      verified: false,
+      reportedBy: 'crowdsource',
+      upvotes: 0,
+    });
+    expect(migrated.location).not.toHaveProperty('lng');
+  });
+
+  it('should leave current documents untouched', () => {
+    const current = { ...migrateIncidentDocument(LEGACY_DOC) };
+    expect(migrateIncidentDocument(current)).toBe(current);
+  });
+});
+
+describe('upgradeIncident', () => {
+  it('should read Firestore Timestamps as epoch millis in current documents', () => {
+    const upgraded = upgradeIncident({
+      ...migrateIncidentDocument(LEGACY_DOC),
+      createdAt: { toMillis: () => 1_663_790_000_000 },
+    });
+
+    expect(upgraded.createdAt).toBe(1_663_790_000_000);
+    expect(IncidentSchema.safeParse(upgraded).success).toBe(true);
+  });
+});
+
+describe('saveIncident', () => {
+  it('should store incidents that read back valid against the schema', async () => {
+    const { id: _id, createdAt: _createdAt, schemaVersion: _version, ...incident } = migrateIncidentDocument(LEGACY_DOC);
+
+    const id = await saveIncident(incident as NewIncident);
+    const saved = await getIncidentById(id);
+
+    expect(mockStore.get(id)?.createdAt).toEqual(expect.any(Number));
+    expect(saved).toMatchObject({ id, schemaVersion: INCIDENT_SCHEMA_VERSION, title: LEGACY_DOC.title });
+    expect(IncidentSchema.safeParse(saved).success).toBe(true);
+  });
+});
+
+describe('runIncidentMigrations', () => {
+  function store(docs: Array<Record<string, any>>) {
+    const written: Array<Record<string, any>> = [];
+    const documentStore: IncidentDocumentStore = {
+      async *pages() {
+        yield docs;
+      },
+      async write(upgrades) {
+        written.push(...upgrades);
+      },
+    };
+    return { documentStore, written };
+  }
+
+  it('should write upgraded documents and report invalid ones', async () => {
+    const current = migrateIncidentDocument({ ...LEGACY_DOC, id: 'current' });
+    const broken = { id: 'broken', type: 'protest', title: 'No location', description: '', timestamp: 1 };
+    const { documentStore, written } = store([LEGACY_DOC, current, broken]);
+
+    const report = await runIncidentMigrations(documentStore);
+
+    expect(report).toMatchObject({ scanned: 3, upgraded: 1, byVersion: { 1: 2, [INCIDENT_SCHEMA_VERSION]: 1 } });
+    expect(written.map(doc => doc.id)).toEqual(['legacy-1']);
+    expect(report.invalid.map(i => i.id)).toEqual(['broken']);
+  });
+
+  it('should not write in dry-run mode', async () => {
+    const { documentStore, written } = store([LEGACY_DOC]);
+
+    const report = await runIncidentMigrations(documentStore, { dryRun: true });
+
+    expect(report.upgraded).toBe(1);
+    expect(written).toHaveLength(0);
+  });
+});
+
+describe('CreateIncidentSchema', () => {
+  it('should accept the shared media fields', () => {
+    const result = CreateIncidentSchema.safeParse({
+      type: 'protest',
+      title: 'Night protest in Mashhad',
+      description: 'Crowds chanting on Ahmadabad street after dark',
+      location: { lat: 36.3, lon: 59.6 },
+      twitterUrl: 'https://twitter.com/user/status/1',
+      embedType: 'twitter',
+      tags: ['Night protest'],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject unknown embed types', () => {
+    const result = CreateIncidentSchema.safeParse({
+      type: 'protest',
+      title: 'Night protest in Mashhad',
+      description: 'Crowds chanting on Ahmadabad street after dark',
+      location: { lat: 36.3, lon: 59.6 },
+      embedType: 'tiktok',
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
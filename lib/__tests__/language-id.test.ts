@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+
+import { identifyLanguage } from '../language-id';
+import { extractIncidentsFromArticle } from '../incident-extractor';
+import { translateText } from '../translation-robust';
+import { validateTranslationRequest } from '../validators';
+
+describe('identifyLanguage', () => {
+  it.each([
+    ['fa', 'نیروهای سرکوب به سوی مردم معترض در زاهدان شلیک کردند'],
+    ['ckb', 'هێزەکانی ڕژێم تەقەیان لە خەڵکی مەهاباد کرد'],
+    ['kmr', 'Sê çalakvanên sivîl li Sineyê hatin girtin'],
+    ['azb', 'اورمو گؤلونون قورویماسینا اعتراض ائدن خالق سوکاقلارا توکولدو'],
+    ['ar', 'اعتقلت قوات الأمن ثلاثة ناشطين في مدينة الأهواز'],
+    ['bal', 'زاهدانءَ سرکاری پوجیان مردمانی سرا تیر جتگ'],
+    ['en', 'Three civil activists were arrested in Sanandaj'],
+  ])('identifies %s', (language, text) => {
+    const result = identifyLanguage(text);
+
+    expect(result.language).toBe(language);
+    expect(result.confidence).toBeGreaterThan(0.6);
+  });
+
+  it("falls back to the script's main language for a word or two", () => {
+    expect(identifyLanguage('قتل').language).toBe('fa');
+    expect(identifyLanguage('Mahsa Amini').language).toBe('en');
+    expect(identifyLanguage('🔴 https://t.me/x')).toEqual({ language: 'en', confidence: 0, scores: {} });
+  });
+});
+
+describe('extractIncidentsFromArticle', () => {
+  const article = (title: string, content: string) => ({
+    id: 'a1',
+    title,
+    content,
+    source: 'telegram',
+    channelUsername: 'kurdistan24',
+    publishedAt: '2026-10-18T08:00:00Z',
+  });
+
+  it('matches the keyword pack of the article language', () => {
+    const sorani = extractIncidentsFromArticle(
+      article('دەستگیرکردنی چالاکان لە سنە', 'هێزە ئەمنییەکان سێ چالاکیان دەستبەسەر کرد و بردیانە زیندان')
+    );
+    expect(sorani[0].type).toBe('arrest');
+    expect(sorani[0].keywords).toEqual(expect.arrayContaining(['دەستگیر', 'دەستبەسەر', 'زیندان']));
+
+    const arabic = extractIncidentsFromArticle(
+      article('مقتل متظاهر في الأهواز', 'لقي شاب حتفه بعد إطلاق النار على مظاهرة في المدينة')
+    );
+    expect(arabic.map(incident => incident.type)).toEqual(expect.arrayContaining(['death', 'protest']));
+  });
+});
+
+describe('translateText for regional languages', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    delete process.env.FIREBASE_SERVICE_ACCOUNT;
+    delete process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('sends each tier its own language code and skips tiers without the language', async () => {
+    const requests: string[] = [];
+    global.fetch = jest.fn(async (input: string | URL | Request) => {
+      const url = new URL(String(input));
+      requests.push(`${url.hostname} ${url.searchParams.get('langpair') ?? ''}`.trim());
+      return Response.json({ responseStatus: 200, responseData: { translatedText: 'Three activists were arrested.' } });
+    }) as typeof fetch;
+
+    const kurmanji = await translateText('Sê çalak hatin girtin.', 'kmr', 'en');
+    expect(kurmanji).toMatchObject({ translatedText: 'Three activists were arrested.', tier: 'mymemory' });
+    expect(requests).toEqual(['api.mymemory.translated.net ku|en']);
+
+    // Neither MyMemory nor LibreTranslate offers Baluchi, and Google is not configured
+    requests.length = 0;
+    const baluchi = await translateText('سئے ورنا گرپتار کنگ بوتگ انت.', 'bal', 'en');
+    expect(baluchi.tier).toBe('dictionary');
+    expect(requests).toEqual([]);
+  });
+
+  it('accepts the new languages in translation requests', () => {
+    expect(validateTranslationRequest({ text: 'سڵاو', sourceLang: 'ckb', targetLang: 'en' }).success).toBe(true);
+    expect(validateTranslationRequest({ text: 'hello', sourceLang: 'en', targetLang: 'ku' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+import { analyze, analyzeQuery } from '../search-analyzer';
+import { LocalSearchIndex } from '../services/search/local-search-index';
+import { IndexedArticleRepository } from '../services/search/indexed-article-repository';
+import { IArticleRepository } from '../services/news/repositories/i-article-repository';
+import { ArticleWithHash } from '../services/news/deduplication/i-deduplicator';
+
+const terms = (text: string) => analyze(text).map(token => token.term);
+
+describe('search analyzer', () => {
+  it('normalizes Arabic letter forms, diacritics and digits', () => {
+    expect(terms('كشته شدن جوان در ايران')).toEqual(terms('کشته شدن جوان در ایران'));
+    expect(terms('مَدرسه')).toEqual(['مدرسه']);
+    expect(terms('۱۴۰۱ ١٤٠١ 1401')).toEqual(['1401', '1401', '1401']);
+  });
+
+  it('splits at ZWNJ and stems Persian and English suffixes', () => {
+    expect(terms('خیابان‌های تهران')).toEqual(['خیابان', 'تهران']);
+    expect(terms('دانشجویان بازداشتی')).toEqual(['دانشجویان', 'بازداشت']);
+    expect(terms('protests arrested striking')).toEqual(['protest', 'arrest', 'strik']);
+  });
+
+  it('matches the last query word as a prefix while it is typed', () => {
+    expect(analyzeQuery('zahedan prot')).toEqual([
+      { term: 'zahedan', prefix: false },
+      { term: 'prot', prefix: true },
+    ]);
+    expect(analyzeQuery('zahedan prot ')[1].prefix).toBe(false);
+  });
+});
+
+describe('LocalSearchIndex', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const now = Date.now();
+
+  const article = (id: string, fields: Partial<ArticleWithHash>): ArticleWithHash => ({
+    id,
+    title: '',
+    summary: '',
+    content: '',
+    source: 'telegram',
+    sourceUrl: `https://t.me/x/${id}`,
+    publishedAt: now,
+    topics: [],
+    contentHash: id,
+    minHash: [],
+    createdAt: now,
+    ...fields,
+  });
+
+  const stored = [
+    article('a1', {
+      title: 'تجمع اعتراضی در خیابان‌های زاهدان',
+      summary: 'نیروهای امنیتی به سوی معترضان شلیک کردند',
+      channelName: 'Haalvsh',
+      topics: ['protest'],
+      publishedAt: now - 2 * day,
+    }),
+    article('a2', {
+      title: 'بازداشت سه فعال مدنی در سنندج',
+      summary: 'ماموران امنيتي سه فعال را بازداشت كردند',
+      topics: ['arrest'],
+      publishedAt: now - day,
+    }),
+    article('a3', {
+      title: 'Protesters gather in Zahedan after Friday prayers',
+      summary: 'Security forces fired on protesters',
+      source: 'rss',
+      topics: ['protest'],
+      publishedAt: new Date(now).toISOString(),
+    }),
+  ];
+
+  function setup(articles: ArticleWithHash[] = stored) {
+    const storage = {
+      list: jest.fn(async () => articles),
+      getRecent: jest.fn(async () => []),
+      saveMany: jest.fn(async (saved: ArticleWithHash[]) => saved),
+      update: jest.fn(async () => {}),
+      deleteOlderThan: jest.fn(async () => 0),
+    } as unknown as IArticleRepository;
+
+    const index = new LocalSearchIndex(storage);
+    return { index, storage, repository: new IndexedArticleRepository(storage, index) };
+  }
+
+  it('finds Persian articles whatever letter forms and word spacing the query uses', async () => {
+    const { index } = setup();
+    await index.ready();
+
+    expect(index.search({ query: 'امنیتی' }).hits.map(hit => hit.id)).toEqual(['a2', 'a1']);
+    expect(index.search({ query: 'خيابان هاي زاهدان' }).hits.map(hit => hit.id)).toEqual(['a1']);
+    expect(index.search({ query: 'بازداشت کردند' }).hits.map(hit => hit.id)).toEqual(['a2']);
+    expect(index.search({ query: 'zahed' }).hits.map(hit => hit.id)).toEqual(['a3']);
+  });
+
+  it('highlights the matched words with everything else escaped', async () => {
+    const { index } = setup([article('b1', { title: 'Strikes <spread> & grow', summary: 'Oil workers strike' })]);
+    await index.ready();
+
+    const [hit] = index.search({ query: 'strike' }).hits;
+    expect(hit.highlights).toEqual({
+      title: '<mark>Strikes</mark> &lt;spread&gt; &amp; grow',
+      summary: 'Oil workers <mark>strike</mark>',
+    });
+  });
+
+  it('applies filters and paginates, newest first without a query', async () => {
+    const { index } = setup();
+    await index.ready();
+
+    expect(index.search({ query: '', filters: { topics: ['protest'] } }).hits.map(hit => hit.id)).toEqual(['a3', 'a1']);
+    expect(index.search({ query: 'protest', filters: { source: 'telegram' } }).hits.map(hit => hit.id)).toEqual(['a1']);
+    expect(index.search({ query: '', filters: { dateRange: { from: now - 1.5 * day } } }).nbHits).toBe(2);
+
+    const page = index.search({ query: '', page: 1, hitsPerPage: 2 });
+    expect(page).toMatchObject({ nbHits: 3, nbPages: 2, page: 1, mode: 'local' });
+    expect(page.hits.map(hit => hit.id)).toEqual(['a1']);
+  });
+
+  it('counts facet values', async () => {
+    const { index } = setup();
+    await index.ready();
+
+    expect(index.facets()).toEqual({
+      source: { telegram: 2, rss: 1 },
+      topics: { protest: 2, arrest: 1 },
+      channelName: { Haalvsh: 1 },
+    });
+    expect(index.facets({ source: 'telegram' }).topics).toEqual({ protest: 1, arrest: 1 });
+  });
+
+  it('stays in sync with repository writes once loaded', async () => {
+    const { index, storage, repository } = setup();
+
+    // Not loaded yet: the load reads storage anyway
+    await repository.saveMany([article('c0', { title: 'اعتصاب کامیونداران' })]);
+    expect(index.size).toBe(0);
+
+    await index.ready();
+    expect(storage.list).toHaveBeenCalledTimes(1);
+
+    await repository.saveMany([article('c1', { title: 'اعتصاب کارگران نفت', createdAt: now - 40 * day })]);
+    expect(index.search({ query: 'اعتصاب' }).hits.map(hit => hit.id)).toEqual(['c1']);
+
+    await repository.update('c1', { title: 'اعتصاب کارگران پتروشیمی' });
+    expect(index.search({ query: 'نفت' }).nbHits).toBe(0);
+    expect(index.search({ query: 'پتروشیمی' }).nbHits).toBe(1);
+
+    await repository.deleteOlderThan(30);
+    expect(index.search({ query: 'اعتصاب' }).nbHits).toBe(0);
+    expect(index.size).toBe(3);
+  });
+});
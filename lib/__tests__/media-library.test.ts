@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { MediaLibrary } from '../services/media/media-library';
+import { DiskBlobStore } from '../services/media/disk-blob-store';
+import { IMediaRepository, MediaAsset } from '../services/media/repositories/i-media-repository';
+import { storePostMedia } from '../services/news/sources/telegram-source';
+import { isMediaId } from '../domain/media';
+
+async function gradient(): Promise<Buffer> {
+  const pixels = Buffer.alloc(32 * 32 * 3);
+  for (let i = 0; i < 32 * 32; i++) {
+    pixels.fill(i % 32 * 8, i * 3, i * 3 + 3);
+  }
+  return sharp(pixels, { raw: { width: 32, height: 32, channels: 3 } }).jpeg().toBuffer();
+}
+
+describe('MediaLibrary', () => {
+  let dir: string;
+  let records: Map<string, MediaAsset>;
+  let library: MediaLibrary;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'media-'));
+    records = new Map();
+    const repository: IMediaRepository = {
+      isAvailable: () => true,
+      get: async id => records.get(id) ?? null,
+      save: async asset => { records.set(asset.id, asset); },
+    };
+    library = new MediaLibrary(new DiskBlobStore(dir), repository);
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('stores a photo once under a content ID and records every post it appeared in', async () => {
+    const data = await gradient();
+
+    const first = await library.store({ kind: 'photo', mimeType: 'image/jpeg', data }, 'https://t.me/a/1');
+    const repost = await library.store({ kind: 'photo', mimeType: 'image/jpeg', data }, 'https://t.me/b/7');
+
+    expect(isMediaId(first!.id)).toBe(true);
+    expect(repost!.id).toBe(first!.id);
+    expect(first!.pHash).toMatch(/^[a-f0-9]{16}$/);
+    expect(records.get(first!.id)!.sourceUrls).toEqual(['https://t.me/a/1', 'https://t.me/b/7']);
+
+    const read = await library.read(first!.id);
+    expect(read!.data.equals(data)).toBe(true);
+    expect(read!.asset.contentType).toBe('image/jpeg');
+  });
+
+  it('stores documents without a perceptual hash', async () => {
+    const asset = await library.store(
+      { kind: 'document', mimeType: 'application/pdf', fileName: 'statement.pdf', data: Buffer.from('%PDF-1.4') },
+      'https://t.me/a/2'
+    );
+
+    expect(asset).toMatchObject({ kind: 'document', fileName: 'statement.pdf', size: 8 });
+    expect(asset!.pHash).toBeUndefined();
+  });
+
+  it('points articles at the stored media and the first image', async () => {
+    const fields = await storePostMedia(
+      library,
+      [
+        { kind: 'document', mimeType: 'application/pdf', data: Buffer.from('%PDF-1.4') },
+        { kind: 'video_thumbnail', mimeType: 'image/jpeg', data: await gradient() },
+      ],
+      'https://t.me/a/3'
+    );
+
+    expect(fields.mediaIds).toHaveLength(2);
+    expect(fields.imageUrl).toBe(`/api/media/${fields.mediaIds![1]}`);
+    expect(fields.imageHash).toBe(records.get(fields.mediaIds![1])!.pHash);
+  });
+
+  it('is unavailable until a blob store is configured', () => {
+    const env = { ...process.env };
+    delete process.env.MEDIA_DIR;
+    delete process.env.MEDIA_STORE;
+    const repository: IMediaRepository = { isAvailable: () => true, get: async () => null, save: async () => {} };
+
+    expect(new MediaLibrary(new DiskBlobStore(), repository).isAvailable()).toBe(false);
+
+    process.env.MEDIA_STORE = 'disk';
+    expect(new MediaLibrary(new DiskBlobStore(), repository).isAvailable()).toBe(true);
+
+    process.env = env;
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+
+import { DigestService, isDigestDue } from '../services/notifications/digest-service';
+import { DeliveryLog, summarizeDeliveries } from '../services/notifications/delivery-log';
+import { DEFAULT_NOTIFICATION_PREFERENCES, toCandidates } from '../services/notifications/subscription-matcher';
+import { IDigestRepository, NotificationDigest } from '../services/notifications/repositories/i-digest-repository';
+import { IDeliveryRepository, NotificationDelivery } from '../services/notifications/repositories/i-delivery-repository';
+import { ISubscriptionRepository, Subscription } from '../services/notifications/repositories/i-subscription-repository';
+import { ArticleWithHash } from '../services/news/deduplication/i-deduplicator';
+import type { PushNotification, PushTarget } from '../push-notifications';
+
+const HOUR = 60 * 60 * 1000;
+// 12:00 in Tehran
+const NOON = Date.UTC(2026, 0, 1, 8, 30);
+
+function article(id: string, title: string): ArticleWithHash {
+  return {
+    id,
+    title,
+    summary: '',
+    content: '',
+    source: 'telegram',
+    sourceUrl: `https://t.me/example/${id}`,
+    publishedAt: 0,
+    topics: [],
+    contentHash: id,
+    minHash: [],
+    createdAt: 0,
+  };
+}
+
+function subscription(id: string): Subscription {
+  return {
+    id,
+    endpoint: `https://push.example/${id}`,
+    keys: { p256dh: 'p', auth: 'a' },
+    subscribedAt: 0,
+    preferences: { ...DEFAULT_NOTIFICATION_PREFERENCES, delivery: 'hourly' },
+  };
+}
+
+function subscriptionRepository(subscriptions: Subscription[]): ISubscriptionRepository {
+  return {
+    isAvailable: () => true,
+    getAll: async () => subscriptions,
+    save: jest.fn(),
+    delete: jest.fn(),
+    updatePreferences: jest.fn(),
+    markNotified: jest.fn(),
+  };
+}
+
+function digestRepository(): IDigestRepository & { stored: Map<string, NotificationDigest> } {
+  const stored = new Map<string, NotificationDigest>();
+  return {
+    stored,
+    isAvailable: () => true,
+    getById: async id => stored.get(id) ?? null,
+    getPending: async () => Array.from(stored.values()).filter(digest => digest.status === 'pending'),
+    saveMany: async digests => {
+      digests.forEach(digest => stored.set(digest.id, digest));
+    },
+  };
+}
+
+const matches = (...articles: ArticleWithHash[]) =>
+  toCandidates(articles, []).map(candidate => ({ candidate }));
+
+describe('DigestService', () => {
+  it('collects matches into one pending digest per subscriber without repeats', async () => {
+    const digests = digestRepository();
+    const service = new DigestService(digests, subscriptionRepository([]), jest.fn());
+
+    expect(await service.queue([{ subscriptionId: 's1', period: 'hourly', matches: matches(article('a1', 'First')) }], NOON)).toBe(1);
+    expect(await service.queue([{
+      subscriptionId: 's1',
+      period: 'hourly',
+      matches: matches(article('a1', 'First'), article('a2', 'Second')),
+    }], NOON + 10 * 60 * 1000)).toBe(1);
+
+    const [digest] = Array.from(digests.stored.values());
+    expect(digests.stored.size).toBe(1);
+    expect(digest.items.map(item => item.articleId)).toEqual(['a1', 'a2']);
+    expect(digest.createdAt).toBe(NOON);
+  });
+
+  it('sends due digests once and closes those of removed subscribers', async () => {
+    const digests = digestRepository();
+    const send = jest.fn(async (targets: PushTarget[], _notification: PushNotification) => ({ success: true, sent: targets.length }));
+    const service = new DigestService(digests, subscriptionRepository([subscription('s1')]), send);
+
+    await service.queue([
+      { subscriptionId: 's1', period: 'hourly', matches: matches(article('a1', 'First')) },
+      { subscriptionId: 'gone', period: 'daily', matches: matches(article('a1', 'First')) },
+    ], NOON);
+
+    expect(await service.sendDue(NOON + 30 * 60 * 1000)).toEqual({ success: true, sent: 0 });
+
+    const result = await service.sendDue(NOON + HOUR);
+    expect(result).toEqual({ success: true, sent: 1 });
+    expect(send).toHaveBeenCalledTimes(1);
+    const [digest] = Array.from(digests.stored.values()).filter(item => item.subscriptionId === 's1');
+    expect(send.mock.calls[0][1]).toMatchObject({ id: digest.id, url: `/digest/${digest.id}`, message: 'First' });
+    expect(digest.status).toBe('sent');
+
+    // Not due yet: a day has not passed
+    expect(Array.from(digests.stored.values()).find(item => item.subscriptionId === 'gone')?.status).toBe('pending');
+    expect(isDigestDue({ ...digest, period: 'daily', status: 'pending' }, NOON + 24 * HOUR)).toBe(true);
+  });
+});
+
+describe('DeliveryLog', () => {
+  it('records each delivery, prunes expired endpoints and tracks clicks', async () => {
+    const saved: NotificationDelivery[] = [];
+    const deliveries: IDeliveryRepository = {
+      isAvailable: () => true,
+      saveMany: async items => { saved.push(...items); },
+      getSince: async () => saved,
+      getBySubscription: async id => saved.filter(item => item.subscriptionId === id),
+      markClicked: async (id, clickedAt) => {
+        const delivery = saved.find(item => item.id === id);
+        if (!delivery) return false;
+        Object.assign(delivery, { status: 'clicked', clickedAt });
+        return true;
+      },
+    };
+    const subscriptions = subscriptionRepository([]);
+    const send = jest.fn(async () => ({
+      success: true,
+      sent: 1,
+      deliveries: [
+        { subscriptionId: 's1', status: 'sent' as const },
+        { subscriptionId: 's2', status: 'expired' as const, statusCode: 410, error: 'Gone' },
+      ],
+    }));
+    const log = new DeliveryLog(deliveries, subscriptions, send);
+
+    await log.sender('article')([subscription('s1'), subscription('s2')], { title: 'News', message: '' });
+
+    const notificationId = saved[0].notificationId;
+    expect(send.mock.calls[0]).toEqual([expect.any(Array), expect.objectContaining({ id: notificationId })]);
+    expect(saved.map(item => [item.subscriptionId, item.status, item.kind])).toEqual([
+      ['s1', 'sent', 'article'],
+      ['s2', 'expired', 'article'],
+    ]);
+    expect(subscriptions.delete).toHaveBeenCalledWith('s2');
+    expect(subscriptions.markNotified).toHaveBeenCalledWith('s1');
+
+    expect(await log.recordClick(notificationId, 's1')).toBe(true);
+    expect(await log.recordClick('unknown', 's1')).toBe(false);
+
+    const stats = summarizeDeliveries(saved, 0);
+    expect(stats).toMatchObject({ total: 2, sent: 1, clicked: 1, expired: 1, clickRate: 1 });
+    expect(stats.byKind.article.total).toBe(2);
+    expect(stats.recentFailures.map(item => item.subscriptionId)).toEqual(['s2']);
+  });
+});
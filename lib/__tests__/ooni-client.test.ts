@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+
+import { OONIClient, OONIMeasurement, classifyBlocking, parseWatchlist } from '../ooni-client';
+import { findStatusChanges } from '../services/connectivity/ooni-changes';
+
+const HOUR = 60 * 60 * 1000;
+
+function measurement(uid: string, asn: string, anomaly: boolean, scores: any = {}): OONIMeasurement {
+  return {
+    measurement_uid: uid,
+    test_name: 'signal',
+    measurement_start_time: '2026-01-01T12:00:00Z',
+    probe_cc: 'IR',
+    probe_asn: asn,
+    input: null,
+    anomaly,
+    confirmed: false,
+    failure: false,
+    scores,
+  };
+}
+
+describe('classifyBlocking', () => {
+  it('uses the pipeline analysis when there is one', () => {
+    expect(classifyBlocking({ scores: { analysis: { blocking_type: 'dns' } } })).toBe('dns');
+    expect(classifyBlocking({ scores: { analysis: { blocking_type: 'tcp_ip' } } })).toBe('tcp');
+    expect(classifyBlocking({ scores: { analysis: { blocking_type: 'http-diff' } } })).toBe('http');
+    expect(classifyBlocking({ scores: {} })).toBe('unknown');
+  });
+
+  it('finds the first failing network stage in the test keys', () => {
+    const testKeys = {
+      queries: [{ query_type: 'A', failure: null }, { query_type: 'AAAA', failure: 'dns_no_answer' }],
+      tcp_connect: [{ status: { success: true, failure: null } }],
+      tls_handshakes: [{ failure: 'connection_reset' }],
+      requests: [{ failure: 'connection_reset' }],
+    };
+
+    expect(classifyBlocking({ scores: {} }, testKeys)).toBe('tls');
+  });
+
+  it('falls back to the failure string of app tests', () => {
+    expect(classifyBlocking({ scores: {} }, { failure: 'generic_timeout_error' })).toBe('tcp');
+    expect(classifyBlocking({ scores: {} }, { telegram_http_blocking: true })).toBe('http');
+  });
+});
+
+describe('parseWatchlist', () => {
+  it('parses app tests and named or bare domains', () => {
+    expect(parseWatchlist('signal, News|https://www.example.org/fa, iranwire.com')).toEqual([
+      { id: 'signal', name: 'Signal', testName: 'signal', category: 'messaging' },
+      { id: 'example.org', name: 'News', testName: 'web_connectivity', domain: 'example.org', category: 'other' },
+      { id: 'iranwire.com', name: 'IranWire', testName: 'web_connectivity', domain: 'iranwire.com', category: 'news' },
+    ]);
+  });
+});
+
+describe('OONIClient.getCensorshipSummary', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('breaks results down by network and classifies anomalies from full measurements', async () => {
+    const results = [
+      measurement('a', 'AS44244', true),
+      measurement('b', 'AS44244', true),
+      measurement('c', 'AS58224', false),
+    ];
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.includes('/measurement_meta')) {
+        return { ok: true, json: async () => ({ raw_measurement: JSON.stringify({ test_keys: { failure: 'dns_nxdomain_error' } }) }) };
+      }
+      return { ok: true, json: async () => ({ results }) };
+    });
+
+    const client = new OONIClient({ watchlist: parseWatchlist('signal') });
+    const [signal] = await client.getCensorshipSummary('IR');
+
+    expect(signal).toMatchObject({ id: 'signal', total: 3, blocked: 2, accessible: 1, status: 'Blocked', methods: { dns: 2 } });
+    expect(signal.asns).toEqual([
+      { asn: 'AS44244', total: 2, blocked: 2, status: 'Blocked', methods: { dns: 2 } },
+      { asn: 'AS58224', total: 1, blocked: 0, status: 'Accessible', methods: {} },
+    ]);
+
+    // Cached: a second summary makes no requests
+    const calls = fetchMock.mock.calls.length;
+    await client.getCensorshipSummary('IR');
+    expect(fetchMock.mock.calls.length).toBe(calls);
+  });
+
+  it('reports a failing target instead of dropping it', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+    const client = new OONIClient({ watchlist: parseWatchlist('tor,psiphon') });
+    const summary = await client.getCensorshipSummary('IR');
+
+    expect(summary.map(target => [target.id, target.status])).toEqual([['tor', 'Unknown'], ['psiphon', 'Unknown']]);
+    expect(summary[0].error).toContain('503');
+  });
+});
+
+describe('findStatusChanges', () => {
+  it('records a change once the new status holds for two points', () => {
+    const rates = [0, 0, 80, 0, 0, 90, 100, 100];
+    const samples = rates.map((value, i) => ({ timestamp: i * HOUR, value }));
+
+    expect(findStatusChanges('signal', samples)).toEqual([
+      { target: 'signal', at: 5 * HOUR, from: 'Accessible', to: 'Blocked', anomalyRate: 90 },
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+
+import { OutageDetector } from '../services/connectivity/outage-detector';
+import { OutageMonitor } from '../services/connectivity/outage-monitor';
+import { SqliteConnectivityStore } from '../services/connectivity/sqlite-connectivity-store';
+import { ConnectivitySeries, IODA_SIGNAL_TYPES } from '../services/connectivity/series';
+import { IOutageRepository, OutageEvent } from '../services/connectivity/repositories/i-outage-repository';
+import { INotificationService } from '../services/notifications/i-notification-service';
+import type { ConnectivitySample } from '../services/connectivity/i-connectivity-store';
+import { findShutdown, outageCovers } from '../services/connectivity/outage-correlator';
+import { getOutageScopes, isScopeInCountry } from '../services/connectivity/outage-scopes';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const START = Date.UTC(2026, 0, 1);
+
+/**
+ * Normal traffic: full during the day, a deep dip between 00:00 and 06:00 UTC, slight jitter
+ */
+function normal(timestamp: number): number {
+  const hour = new Date(timestamp).getUTCHours();
+  const jitter = Math.sin(timestamp / (7 * MINUTE)) * 2;
+  return (hour < 6 ? 40 : 100) + jitter;
+}
+
+function series(from: number, until: number, value: (timestamp: number) => number): ConnectivitySample[] {
+  const samples: ConnectivitySample[] = [];
+  for (let timestamp = from; timestamp <= until; timestamp += 5 * MINUTE) {
+    samples.push({ timestamp, value: value(timestamp) });
+  }
+  return samples;
+}
+
+function signals(from: number, until: number, value: (timestamp: number) => number) {
+  return { bgp: series(from, until, value), ping: series(from, until, value) };
+}
+
+describe('OutageDetector', () => {
+  const detector = new OutageDetector();
+  const evaluateFrom = START + 7 * DAY;
+  const until = evaluateFrom + DAY - 5 * MINUTE;
+
+  it('does not flag the usual night-time dip', () => {
+    expect(detector.detect(signals(START, until, normal), evaluateFrom)).toEqual([]);
+  });
+
+  it('detects a daytime shutdown with onset, recovery and severity', () => {
+    const shutdownStart = evaluateFrom + 10 * HOUR;
+    const shutdownEnd = evaluateFrom + 12 * HOUR;
+    const value = (timestamp: number) =>
+      timestamp >= shutdownStart && timestamp < shutdownEnd ? 5 : normal(timestamp);
+
+    const outages = detector.detect(signals(START, until, value), evaluateFrom);
+
+    expect(outages).toHaveLength(1);
+    expect(outages[0].onset).toBe(shutdownStart);
+    expect(outages[0].recoveredAt).toBe(shutdownEnd);
+    expect(outages[0].severity).toBeGreaterThan(0.9);
+    expect(outages[0].confidence).toBeGreaterThan(0.9);
+    expect(outages[0].signals.map(signal => signal.signal).sort()).toEqual(['bgp', 'ping']);
+  });
+
+  it('flags a night-time drop that is far below the usual night level', () => {
+    const value = (timestamp: number) =>
+      timestamp >= evaluateFrom + 2 * HOUR ? 2 : normal(timestamp);
+
+    const outages = detector.detect(signals(START, evaluateFrom + 4 * HOUR, value), evaluateFrom);
+
+    expect(outages).toHaveLength(1);
+    expect(outages[0].onset).toBe(evaluateFrom + 2 * HOUR);
+    expect(outages[0].recoveredAt).toBeUndefined();
+  });
+
+  it('needs a majority of the weighted signals to agree', () => {
+    const value = (timestamp: number) => (timestamp >= evaluateFrom + 10 * HOUR ? 5 : normal(timestamp));
+    const mixed = { bgp: series(START, until, value), ping: series(START, until, normal), telescope: series(START, until, value) };
+
+    // bgp (1) + telescope (0.5) down against ping (1) up is a majority
+    expect(detector.detect(mixed, evaluateFrom)).toHaveLength(1);
+    // bgp alone is not
+    expect(detector.detect({ bgp: mixed.bgp, ping: mixed.ping }, evaluateFrom)).toEqual([]);
+  });
+});
+
+describe('OutageMonitor', () => {
+  function memoryRepository(): IOutageRepository & { events: Map<string, OutageEvent> } {
+    const events = new Map<string, OutageEvent>();
+    return {
+      events,
+      isAvailable: () => true,
+      getSince: async (since) => Array.from(events.values()).filter(event => event.onset >= since),
+      getOngoing: async () => Array.from(events.values()).filter(event => event.status === 'ongoing'),
+      saveMany: async (batch) => batch.forEach(event => events.set(event.id, event)),
+    };
+  }
+
+  async function writeProvince(store: SqliteConnectivityStore, from: number, until: number, value: (t: number) => number) {
+    await store.write(
+      series(from, until, value).flatMap(sample =>
+        IODA_SIGNAL_TYPES.map(signal => ({
+          series: ConnectivitySeries.iodaProvince('tehran', signal),
+          timestamp: sample.timestamp,
+          value: sample.value,
+        }))
+      )
+    );
+  }
+
+  it('opens one event per outage, updates it while ongoing and notifies onset and recovery', async () => {
+    const store = new SqliteConnectivityStore(':memory:');
+    const repository = memoryRepository();
+    const notifications: jest.Mocked<INotificationService> = {
+      notifyNewArticles: jest.fn(),
+      notifyOutages: jest.fn().mockResolvedValue({ success: true, sent: 1 }),
+      notifyServiceChanges: jest.fn(),
+      sendDigests: jest.fn(),
+    };
+    const monitor = new OutageMonitor(store, repository, notifications);
+
+    const shutdownStart = START + 7 * DAY + 9 * HOUR;
+    const shutdownEnd = START + 7 * DAY + 12 * HOUR + 5 * MINUTE;
+    const value = (timestamp: number) =>
+      timestamp >= shutdownStart && timestamp < shutdownEnd ? 3 : normal(timestamp);
+
+    await writeProvince(store, START, shutdownStart + 2 * HOUR, value);
+    const first = await monitor.run(shutdownStart + 2 * HOUR);
+
+    expect(first.started).toHaveLength(1);
+    expect(first.started[0]).toMatchObject({
+      scopeKey: 'province:tehran',
+      status: 'ongoing',
+      onset: shutdownStart,
+      location: { lat: 35.6892, lon: 51.389 },
+    });
+    expect(notifications.notifyOutages).toHaveBeenLastCalledWith(first.started, []);
+
+    await writeProvince(store, shutdownStart + 2 * HOUR + 5 * MINUTE, shutdownStart + 2.5 * HOUR, value);
+    const second = await monitor.run(shutdownStart + 2.5 * HOUR);
+    expect(second.started).toEqual([]);
+    expect(second.updated.map(event => event.id)).toEqual([first.started[0].id]);
+
+    await writeProvince(store, shutdownStart + 2.5 * HOUR + 5 * MINUTE, shutdownEnd + HOUR, value);
+    const third = await monitor.run(shutdownEnd + HOUR);
+
+    expect(third.recovered).toHaveLength(1);
+    expect(third.recovered[0]).toMatchObject({ id: first.started[0].id, status: 'recovered', recoveredAt: shutdownEnd });
+    expect(notifications.notifyOutages).toHaveBeenLastCalledWith([], third.recovered);
+    expect(repository.events.size).toBe(1);
+
+    store.close();
+  });
+
+  it('detects outages in live signals without storing them', () => {
+    const repository = memoryRepository();
+    const monitor = new OutageMonitor(new SqliteConnectivityStore(':memory:'), repository);
+    const now = START + 7 * DAY + 12 * HOUR;
+    const value = (timestamp: number) => (timestamp >= now - 2 * HOUR ? 3 : normal(timestamp));
+    const [iran] = getOutageScopes('IR');
+
+    const events = monitor.detectFromSignals(iran, signals(now - monitor.getHistoryMs(), now, value), now);
+
+    expect(events).toEqual([
+      expect.objectContaining({ scopeKey: 'country:IR', status: 'ongoing', onset: now - 2 * HOUR }),
+    ]);
+    expect(repository.events.size).toBe(0);
+  });
+
+  it('places provinces and monitored networks in Iran only', () => {
+    expect(isScopeInCountry({ kind: 'province', id: 'tehran' }, 'IR')).toBe(true);
+    expect(isScopeInCountry({ kind: 'asn', id: '58224' }, 'AF')).toBe(false);
+    expect(isScopeInCountry({ kind: 'country', id: 'AF' }, 'AF')).toBe(true);
+    expect(isScopeInCountry({ kind: 'country', id: 'IR' }, 'AF')).toBe(false);
+  });
+});
+
+describe('findShutdown', () => {
+  function outage(kind: OutageEvent['scope']['kind'], id: string, onset: number, recoveredAt?: number, severity = 0.8): OutageEvent {
+    return {
+      id: `${kind}:${id}:${onset}`,
+      scopeKey: `${kind}:${id}`,
+      scope: { kind, id, name: id },
+      status: recoveredAt === undefined ? 'ongoing' : 'recovered',
+      onset,
+      ...(recoveredAt !== undefined && { recoveredAt }),
+      lastObservedAt: recoveredAt ?? onset,
+      confidence: 0.9,
+      severity,
+      signals: [],
+      createdAt: onset,
+      updatedAt: onset,
+    };
+  }
+
+  it('matches only outages in progress that cover the province', () => {
+    const fars = outage('province', 'fars', START, START + 2 * HOUR);
+
+    expect(outageCovers(fars, START + HOUR, ['fars'])).toBe(true);
+    expect(outageCovers(fars, START + HOUR, ['tehran'])).toBe(false);
+    expect(outageCovers(fars, START + 3 * HOUR, ['fars'])).toBe(false);
+    expect(outageCovers(outage('country', 'IR', START), START + DAY, [])).toBe(true);
+  });
+
+  it('prefers the most local outage', () => {
+    const outages = [
+      outage('asn', '58224', START, undefined, 0.95),
+      outage('country', 'IR', START),
+      outage('province', 'tehran', START + HOUR),
+    ];
+
+    expect(findShutdown(START + 2 * HOUR, ['tehran'], outages)?.scope.kind).toBe('province');
+    expect(findShutdown(START + 2 * HOUR, ['fars'], outages)?.scope.kind).toBe('country');
+    expect(findShutdown(START - HOUR, ['tehran'], outages)).toBeUndefined();
+  });
+});
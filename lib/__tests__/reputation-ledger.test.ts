@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+
+import { ReputationLedger } from '../services/reputation/reputation-ledger';
+import { ReputationTrackingIncidentRepository } from '../services/reputation/reputation-tracking-incident-repository';
+import { reviewEvidence } from '../services/reputation/reputation-evidence';
+import {
+  IReputationRepository,
+  SourceReputationRecord,
+} from '../services/reputation/repositories/i-reputation-repository';
+import { IIncidentRepository } from '../services/incidents/repositories/i-incident-repository';
+import { Incident, INCIDENT_SCHEMA_VERSION } from '../domain/incident';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+function memoryRepository(): IReputationRepository & { records: Map<string, SourceReputationRecord> } {
+  const records = new Map<string, SourceReputationRecord>();
+  return {
+    records,
+    isAvailable: () => true,
+    list: async () => Array.from(records.values()),
+    getMany: async (keys) => keys.flatMap(key => (records.has(key) ? [records.get(key)!] : [])),
+    saveMany: async (batch) => batch.forEach(record => records.set(record.sourceKey, record)),
+    delete: async (key) => { records.delete(key); },
+  };
+}
+
+function incident(id: string, overrides: Partial<Incident> = {}): Incident {
+  return {
+    id,
+    schemaVersion: INCIDENT_SCHEMA_VERSION,
+    type: 'protest',
+    title: `Incident ${id}`,
+    description: 'Crowds gathered',
+    location: { lat: 35.6997, lon: 51.338 },
+    verified: false,
+    reportedBy: 'crowdsource',
+    timestamp: NOW,
+    upvotes: 0,
+    createdAt: NOW,
+    relatedArticles: [{ title: 'Post', url: 'https://t.me/somechannel/42', source: 'telegram' }],
+    ...overrides,
+  };
+}
+
+describe('ReputationLedger', () => {
+  it('should score sources from evidence and count each evidence id once', async () => {
+    const ledger = new ReputationLedger(memoryRepository(), { prior: 2 }, () => NOW);
+    const verified = {
+      sourceKey: 'telegram:somechannel',
+      evidence: { id: 'verified:1', kind: 'verified' as const, polarity: 'positive' as const, weight: 2 },
+    };
+
+    expect(await ledger.record([verified, verified])).toBe(1);
+    expect(await ledger.record([verified])).toBe(0);
+
+    // (2 + 2) / (2 + 0 + 4)
+    const scores = await ledger.getScores(['telegram:somechannel', 'telegram:unknown']);
+    expect(scores.get('telegram:somechannel')).toBeCloseTo(2 / 3);
+    expect(scores.has('telegram:unknown')).toBe(false);
+  });
+
+  it('should decay old evidence towards the neutral score', async () => {
+    const repository = memoryRepository();
+    let now = NOW;
+    const ledger = new ReputationLedger(repository, { prior: 2, halfLifeMs: 30 * DAY }, () => now);
+
+    await ledger.record([{
+      sourceKey: 'twitter:someone',
+      evidence: { id: 'debunked:1', kind: 'debunked', polarity: 'negative', weight: 4 },
+    }]);
+    expect((await ledger.get('twitter:someone'))!.score).toBeCloseTo(2 / 8);
+
+    now += 30 * DAY;
+    const decayed = (await ledger.get('twitter:someone'))!;
+    expect(decayed.negative).toBeCloseTo(2);
+    expect(decayed.score).toBeCloseTo(2 / 6);
+  });
+});
+
+describe('reputation evidence', () => {
+  it('should attribute a debunk to the channel behind the incident', () => {
+    const [entry] = reviewEvidence(incident('i1'), { debunked: true, verified: false });
+
+    expect(entry).toMatchObject({
+      sourceKey: 'telegram:somechannel',
+      evidence: { id: 'debunked:i1', kind: 'debunked', polarity: 'negative' },
+    });
+  });
+
+  it('should key crowdsourced reports without a source one by one', () => {
+    const [first] = reviewEvidence(incident('c1', { relatedArticles: undefined }), { debunked: true });
+    const [second] = reviewEvidence(incident('c2', { relatedArticles: undefined }), { debunked: true });
+
+    expect(first.sourceKey).toBe('reporter:crowdsource:c1');
+    expect(second.sourceKey).toBe('reporter:crowdsource:c2');
+  });
+
+  it('should record verification through the incident repository update', async () => {
+    const stored = incident('i2', { reportedBy: 'official', relatedArticles: undefined });
+    const inner = {
+      getById: jest.fn(async () => stored),
+      update: jest.fn(async () => undefined),
+    } as unknown as IIncidentRepository;
+    const ledger = { record: jest.fn(async () => 1) };
+
+    const repository = new ReputationTrackingIncidentRepository(inner, ledger as any);
+    await repository.update('i2', { verified: true });
+    await repository.update('i2', { verificationScore: 40 });
+
+    expect(inner.update).toHaveBeenCalledTimes(2);
+    expect(ledger.record).toHaveBeenCalledTimes(1);
+    expect(ledger.record).toHaveBeenCalledWith([
+      expect.objectContaining({ sourceKey: 'reporter:official', evidence: expect.objectContaining({ kind: 'verified' }) }),
+    ]);
+  });
+});
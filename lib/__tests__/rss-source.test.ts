@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+
+import { randomUUID } from 'crypto';
+import { RssNewsSource } from '../services/news/sources/rss-source';
+import { InMemoryCursorRepository } from '../services/news/repositories/in-memory-cursor-repository';
+import { getSourceIdentity } from '../services/news/revisions/source-identity';
+import { fetchFeed, FeedItem } from '../rss';
+
+jest.mock('@/lib/rss', () => ({
+  fetchFeed: jest.fn(),
+  getApprovedRssFeeds: jest.fn().mockResolvedValue([]),
+}));
+
+// jest.setup replaces global.crypto with a digest-only stub
+Object.assign(globalThis.crypto, { randomUUID });
+
+const FEED = { url: 'https://www.radiofarda.com/api/feed.xml', name: 'Radio Farda' };
+const mockFetchFeed = fetchFeed as jest.MockedFunction<typeof fetchFeed>;
+
+function item(n: number): FeedItem {
+  return {
+    guid: `rf-${n}`,
+    title: `Item ${n}`,
+    link: `https://www.radiofarda.com/a/${n}.html`,
+    description: '',
+    content: `Item ${n}`,
+    categories: [],
+    publishedAt: n * 1000,
+  };
+}
+
+function serve(items: FeedItem[]) {
+  mockFetchFeed.mockResolvedValue({
+    notModified: false,
+    feed: { format: 'rss', title: 'Radio Farda', items },
+    validators: { etag: '"v1"' },
+  });
+}
+
+describe('RssNewsSource', () => {
+  beforeEach(() => mockFetchFeed.mockReset());
+
+  it('keeps items beyond maxItemsPerFeed for the next fetch', async () => {
+    const cursors = new InMemoryCursorRepository();
+    const source = new RssNewsSource([FEED], { maxItemsPerFeed: 2 }, cursors);
+
+    // Feeds list newest first
+    serve([item(5), item(4), item(3), item(2), item(1)]);
+
+    const first = await source.fetch();
+    expect(first.articles.map(article => article.title)).toEqual(['Item 1', 'Item 2']);
+    await source.saveCursors(first.cursors!);
+
+    const cursor = JSON.parse((await cursors.getAll('rss'))[FEED.url]);
+    expect(cursor).toEqual({ newestPublishedAt: 2000 });
+
+    const second = await source.fetch();
+    expect(second.articles.map(article => article.title)).toEqual(['Item 3', 'Item 4']);
+    expect(mockFetchFeed).toHaveBeenLastCalledWith(FEED.url, { etag: undefined, lastModified: undefined });
+  });
+
+  it('keeps the validators when every new item fits', async () => {
+    const cursors = new InMemoryCursorRepository();
+    const source = new RssNewsSource([FEED], { maxItemsPerFeed: 5 }, cursors);
+    serve([item(2), item(1)]);
+
+    const result = await source.fetch();
+    expect(result.articles).toHaveLength(2);
+    expect(JSON.parse(result.cursors!.values[FEED.url])).toEqual({ etag: '"v1"', newestPublishedAt: 2000 });
+  });
+
+  it('keys linkless items on their guid, not the feed URL', async () => {
+    const source = new RssNewsSource([FEED]);
+    serve([{ ...item(2), link: undefined }, { ...item(1), link: undefined }, item(3)]);
+
+    const { articles } = await source.fetch();
+    const identities = articles.map(article => getSourceIdentity(article));
+
+    expect(identities).toEqual([
+      'rss:radiofarda.com:rf-1',
+      'rss:radiofarda.com:rf-2',
+      'url:radiofarda.com/a/3.html',
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { parseFeed, parseFeedList, stripHtml } from '../rss';
+
+const RSS_SAMPLE = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>رادیو فردا</title>
+    <link>https://www.radiofarda.com</link>
+    <language>fa-IR</language>
+    <item>
+      <title><![CDATA[تجمع اعتراضی در تهران]]></title>
+      <link>https://www.radiofarda.com/a/123.html</link>
+      <guid isPermaLink="false">rf-123</guid>
+      <pubDate>Mon, 05 Jan 2026 10:00:00 GMT</pubDate>
+      <category>ایران</category>
+      <description>&lt;p&gt;معترضان در میدان آزادی&amp;nbsp;گرد هم آمدند&lt;/p&gt;</description>
+      <enclosure url="https://img.radiofarda.com/123.jpg" type="image/jpeg" length="1000" />
+    </item>
+    <!-- <item><title>commented out</title></item> -->
+    <item>
+      <title>Second item</title>
+      <link>https://www.radiofarda.com/a/124.html</link>
+      <content:encoded><![CDATA[<p>Full body</p><img src="https://img.radiofarda.com/124.jpg" />]]></content:encoded>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM_SAMPLE = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="fa">
+  <title>IranWire</title>
+  <link href="https://iranwire.com/fa/" />
+  <entry>
+    <id>tag:iranwire.com,2026:1</id>
+    <title type="html">&lt;b&gt;بازداشت&lt;/b&gt; فعالان</title>
+    <link rel="alternate" href="https://iranwire.com/fa/news/1" />
+    <link rel="enclosure" type="image/png" href="https://iranwire.com/img/1.png" />
+    <published>2026-01-05T12:00:00Z</published>
+    <author><name>IranWire</name></author>
+    <category term="arrests" label="Arrests" />
+    <summary type="html">&lt;p&gt;گزارش&amp;zwnj;ها از بازداشت&lt;/p&gt;</summary>
+  </entry>
+</feed>`;
+
+describe('RSS/Atom parsing', () => {
+  describe('parseFeed (RSS 2.0)', () => {
+    const feed = parseFeed(RSS_SAMPLE)!;
+
+    it('should read channel metadata', () => {
+      expect(feed.format).toBe('rss');
+      expect(feed.title).toBe('رادیو فردا');
+      expect(feed.language).toBe('fa-IR');
+    });
+
+    it('should ignore commented-out items', () => {
+      expect(feed.items).toHaveLength(2);
+    });
+
+    it('should unwrap CDATA and decode escaped HTML in Persian text', () => {
+      const [item] = feed.items;
+      expect(item.title).toBe('تجمع اعتراضی در تهران');
+      expect(item.description).toBe('معترضان در میدان آزادی گرد هم آمدند');
+      expect(item.guid).toBe('rf-123');
+      expect(item.categories).toEqual(['ایران']);
+      expect(item.publishedAt).toBe(Date.parse('2026-01-05T10:00:00Z'));
+    });
+
+    it('should take imageUrl from an image enclosure', () => {
+      expect(feed.items[0].imageUrl).toBe('https://img.radiofarda.com/123.jpg');
+    });
+
+    it('should fall back to content:encoded and inline images', () => {
+      const item = feed.items[1];
+      expect(item.content).toBe('Full body');
+      expect(item.imageUrl).toBe('https://img.radiofarda.com/124.jpg');
+      expect(item.guid).toBe('https://www.radiofarda.com/a/124.html');
+    });
+  });
+
+  describe('parseFeed (Atom 1.0)', () => {
+    const feed = parseFeed(ATOM_SAMPLE)!;
+
+    it('should parse entries', () => {
+      expect(feed.format).toBe('atom');
+      expect(feed.language).toBe('fa');
+      expect(feed.items).toHaveLength(1);
+    });
+
+    it('should map entry fields', () => {
+      const [entry] = feed.items;
+      expect(entry.title).toBe('بازداشت فعالان');
+      expect(entry.link).toBe('https://iranwire.com/fa/news/1');
+      expect(entry.author).toBe('IranWire');
+      expect(entry.categories).toEqual(['Arrests']);
+      expect(entry.imageUrl).toBe('https://iranwire.com/img/1.png');
+    });
+
+    it('should preserve ZWNJ in Persian text', () => {
+      expect(feed.items[0].description).toBe('گزارش\u200Cها از بازداشت');
+    });
+  });
+
+  it('should return null for non-feed documents', () => {
+    expect(parseFeed('<html><body>Not a feed</body></html>')).toBeNull();
+  });
+
+  it('should strip bidi control characters', () => {
+    expect(stripHtml('\u202Bسلام\u202C')).toBe('سلام');
+  });
+
+  it('should parse RSS_FEEDS entries with and without names', () => {
+    expect(parseFeedList('BBC|https://feeds.bbci.co.uk/persian/rss.xml, https://www.iranintl.com/feed')).toEqual([
+      { name: 'BBC', url: 'https://feeds.bbci.co.uk/persian/rss.xml' },
+      { name: 'iranintl.com', url: 'https://www.iranintl.com/feed' },
+    ]);
+  });
+
+  it('should skip RSS_FEEDS entries without a valid URL', () => {
+    expect(parseFeedList('not a url, Radio Farda|, ftp://example.com/feed, https://www.radiofarda.com/api/')).toEqual([
+      { name: 'radiofarda.com', url: 'https://www.radiofarda.com/api/' },
+    ]);
+  });
+});
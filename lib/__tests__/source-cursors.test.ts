@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+
+import type { TelegramClient } from 'telegram';
+import {
+  fetchChannelUpdates,
+  CATCH_UP_PAGE_SIZE,
+  MAX_CATCH_UP_PAGES,
+} from '../telegram-user-api';
+import { compareTweetIds, getNewestTweetId, ScrapedArticle } from '../twitter-scraper';
+import { closeSqlite } from '../sqlite';
+import { NewsService } from '../services/news/news-service';
+import { INewsSource, Article } from '../services/news/sources/i-news-source';
+import { IDeduplicator } from '../services/news/deduplication/i-deduplicator';
+import { IArticleRepository } from '../services/news/repositories/i-article-repository';
+import { INotificationService } from '../services/notifications/i-notification-service';
+import { IIncidentExtractor } from '../services/incidents/i-incident-extractor';
+import { InMemoryCursorRepository } from '../services/news/repositories/in-memory-cursor-repository';
+import { SqliteCursorRepository } from '../services/news/repositories/sqlite-cursor-repository';
+
+const CHANNEL = '@IranIntlTV';
+const HOUR = 60 * 60 * 1000;
+
+interface FakeMessage {
+  id: number;
+  text: string;
+  date: number; // Seconds, like gramjs
+  editDate?: number;
+}
+
+function message(id: number, ageHours: number, editDate?: number): FakeMessage {
+  return { id, text: `Protest report ${id}`, date: Math.floor((Date.now() - ageHours * HOUR) / 1000), editDate };
+}
+
+/**
+ * A client whose getMessages follows gramjs: newest first by default, oldest
+ * first above minId with `reverse`
+ */
+function fakeClient(messages: FakeMessage[]) {
+  const getMessages = jest.fn(async (channel: { username: string }, params: { limit: number; minId?: number; reverse?: boolean }) => {
+    if (channel.username !== CHANNEL) return [];
+    const above = messages.filter(m => m.id > (params.minId ?? 0)).sort((a, b) => a.id - b.id);
+    return (params.reverse ? above : above.reverse()).slice(0, params.limit);
+  });
+  const client = {
+    getEntity: jest.fn(async (username: string) => ({ username, title: 'Iran International' })),
+    getMessages,
+  } as unknown as TelegramClient;
+  return { client, getMessages };
+}
+
+const range = (from: number, to: number, ageHours: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => message(from + i, ageHours));
+
+describe('fetchChannelUpdates', () => {
+  it('reads forward from the cursor page by page, however old the backlog', async () => {
+    // Three days of downtime: older than the 24-hour window for channels without a cursor
+    const { client, getMessages } = fakeClient(range(81, 350, 72));
+
+    const result = await fetchChannelUpdates(client, { [CHANNEL]: 100 });
+
+    expect(result.articles.map(article => article.messageId)).toEqual(range(101, 350, 0).map(m => m.id));
+    expect(result.lastMessageIds[CHANNEL]).toBe(350);
+    expect(result.complete).toBe(true);
+    expect(getMessages.mock.calls.filter(([channel]) => channel.username === CHANNEL).map(([, params]) => params)).toEqual([
+      { reverse: true, minId: 80, limit: CATCH_UP_PAGE_SIZE },
+      { reverse: true, minId: 180, limit: CATCH_UP_PAGE_SIZE },
+      { reverse: true, minId: 280, limit: CATCH_UP_PAGE_SIZE },
+    ]);
+  });
+
+  it('returns posts just behind the cursor only when they were edited', async () => {
+    const edited = message(95, 2, Math.floor(Date.now() / 1000));
+    const { client } = fakeClient([message(79, 2), message(90, 2), edited, message(100, 2), message(101, 1)]);
+
+    const result = await fetchChannelUpdates(client, { [CHANNEL]: 100 });
+
+    expect(result.articles.map(article => article.messageId)).toEqual([95, 101]);
+    expect(result.articles[0].editedAt).toBe(edited.editDate! * 1000);
+  });
+
+  it('stops at the page limit and moves the cursor only to the newest message read', async () => {
+    const backlog = MAX_CATCH_UP_PAGES * CATCH_UP_PAGE_SIZE;
+    const { client } = fakeClient(range(81, 100 + backlog + 100, 1));
+
+    const first = await fetchChannelUpdates(client, { [CHANNEL]: 100 });
+    expect(first.complete).toBe(false);
+    expect(first.lastMessageIds[CHANNEL]).toBe(80 + backlog);
+
+    const second = await fetchChannelUpdates(client, first.lastMessageIds);
+    expect(second.complete).toBe(true);
+    expect(second.lastMessageIds[CHANNEL]).toBe(100 + backlog + 100);
+    expect(second.articles[0].messageId).toBe(80 + backlog + 1);
+  });
+
+  it('reads the newest posts of the last hours for a channel without a cursor', async () => {
+    const { client } = fakeClient([...range(1, 55, 30), ...range(56, 60, 1)]);
+
+    const result = await fetchChannelUpdates(client, {}, 24);
+
+    expect(result.articles.map(article => article.messageId)).toEqual([60, 59, 58, 57, 56]);
+    expect(result.lastMessageIds[CHANNEL]).toBe(60);
+  });
+});
+
+describe('NewsService cursors', () => {
+  function setup(saveMany: IArticleRepository['saveMany']) {
+    const article: Article = { id: 'a1', title: 'Strike', summary: '', content: 'Strike', source: 'rss', publishedAt: 0 };
+    const source: INewsSource = {
+      name: 'rss',
+      fetch: jest.fn(async () => ({ articles: [article], cursors: { namespace: 'rss', values: { feed: '{"etag":"2"}' } } })),
+      saveCursors: jest.fn(async () => {}),
+    };
+    const deduplicator = {
+      processWithMatches: jest.fn(async (articles: Article[]) => ({ unique: articles, duplicates: [] })),
+    } as unknown as IDeduplicator;
+    const repository = { getRecent: jest.fn(async () => []), saveMany } as unknown as IArticleRepository;
+    const notifications = { notifyNewArticles: jest.fn(async () => ({})) } as unknown as INotificationService;
+    const extractor: IIncidentExtractor = { extractFromArticles: jest.fn(async () => []) };
+
+    return { source, service: new NewsService([source], deduplicator, repository, notifications, extractor) };
+  }
+
+  it('saves the cursors a source returned once its articles are ingested', async () => {
+    const { source, service } = setup(jest.fn(async articles => articles));
+
+    await service.refresh();
+
+    expect(source.saveCursors).toHaveBeenCalledWith({ namespace: 'rss', values: { feed: '{"etag":"2"}' } });
+  });
+
+  it('leaves the cursors in place when ingestion fails', async () => {
+    const { source, service } = setup(jest.fn(async () => {
+      throw new Error('storage unavailable');
+    }));
+
+    await expect(service.refresh()).rejects.toThrow('storage unavailable');
+    expect(source.saveCursors).not.toHaveBeenCalled();
+  });
+});
+
+describe('cursor repositories', () => {
+  afterAll(() => {
+    closeSqlite();
+  });
+
+  it.each([
+    ['in-memory', () => new InMemoryCursorRepository()],
+    ['sqlite', () => {
+      process.env.SQLITE_PATH = ':memory:';
+      closeSqlite();
+      return new SqliteCursorRepository();
+    }],
+  ])('%s: merges saved cursors per namespace', async (_name, create) => {
+    const cursors = create();
+
+    await cursors.saveMany('telegram-user', { '@BBCPersian': '10', '@IranIntlTV': '20' });
+    await cursors.saveMany('telegram-user', { '@IranIntlTV': '25' });
+    await cursors.saveMany('twitter', { sinceId: '1750000000000000000' });
+
+    expect(await cursors.getAll('telegram-user')).toEqual({ '@BBCPersian': '10', '@IranIntlTV': '25' });
+    expect(await cursors.getAll('twitter')).toEqual({ sinceId: '1750000000000000000' });
+    expect(await cursors.getAll('rss')).toEqual({});
+  });
+});
+
+describe('Twitter since_id cursor', () => {
+  const tweet = (id: string) => ({ id: `twitter-${id}` }) as ScrapedArticle;
+
+  it('compares tweet IDs beyond Number precision', () => {
+    expect(compareTweetIds('1750000000000000001', '1750000000000000000')).toBeGreaterThan(0);
+    expect(compareTweetIds('999999999999999999', '1750000000000000000')).toBeLessThan(0);
+    expect(compareTweetIds('1750000000000000000', '1750000000000000000')).toBe(0);
+  });
+
+  it('advances to the newest scraped tweet and never backwards', () => {
+    expect(getNewestTweetId([tweet('1750000000000000005'), tweet('1750000000000000009')], '1750000000000000001'))
+      .toBe('1750000000000000009');
+    expect(getNewestTweetId([], '1750000000000000001')).toBe('1750000000000000001');
+    expect(getNewestTweetId([tweet('1750000000000000000')], '1750000000000000001')).toBe('1750000000000000001');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+
+import { SourceHealthRegistry } from '../services/news/health/source-health-registry';
+import { InMemoryCursorRepository } from '../services/news/repositories/in-memory-cursor-repository';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 0, 1, 12, 0);
+
+describe('SourceHealthRegistry', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = START;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stays closed below the failure threshold', async () => {
+    const registry = new SourceHealthRegistry({ failureThreshold: 3 });
+
+    await registry.recordFailure('telegram', 100, 'timeout');
+    await registry.recordFailure('telegram', 100, 'timeout');
+
+    expect(await registry.canAttempt('telegram')).toBe(true);
+    expect(await registry.get('telegram')).toMatchObject({ circuit: 'closed', consecutiveFailures: 2 });
+  });
+
+  it('opens after consecutive failures and blocks attempts until the cooldown ends', async () => {
+    const registry = new SourceHealthRegistry({ failureThreshold: 3, cooldownMs: 15 * MINUTE });
+
+    for (let i = 0; i < 3; i++) {
+      await registry.recordFailure('telegram', 100, 'HTTP 502');
+    }
+
+    expect(await registry.get('telegram')).toMatchObject({
+      circuit: 'open',
+      openUntil: START + 15 * MINUTE,
+      lastError: 'HTTP 502',
+    });
+    expect(await registry.canAttempt('telegram')).toBe(false);
+
+    now = START + 14 * MINUTE;
+    expect(await registry.canAttempt('telegram')).toBe(false);
+
+    now = START + 15 * MINUTE;
+    expect(await registry.canAttempt('telegram')).toBe(true);
+    const health = await registry.get('telegram');
+    expect(health).toMatchObject({ circuit: 'half-open' });
+    expect(health?.openUntil).toBeUndefined();
+  });
+
+  it('closes a half-open circuit on success', async () => {
+    const registry = new SourceHealthRegistry({ failureThreshold: 1, cooldownMs: MINUTE });
+    await registry.recordFailure('rss', 100, 'timeout');
+    now += MINUTE;
+    await registry.canAttempt('rss');
+
+    await registry.recordSuccess('rss', 200, 5);
+
+    expect(await registry.get('rss')).toMatchObject({
+      circuit: 'closed',
+      consecutiveFailures: 0,
+      totalSuccesses: 1,
+      totalFailures: 1,
+      lastArticleCount: 5,
+    });
+  });
+
+  it('reopens a half-open circuit after a single failed trial', async () => {
+    const registry = new SourceHealthRegistry({ failureThreshold: 3, cooldownMs: MINUTE });
+    for (let i = 0; i < 3; i++) {
+      await registry.recordFailure('rss', 100, 'timeout');
+    }
+    now += MINUTE;
+    expect(await registry.canAttempt('rss')).toBe(true);
+
+    await registry.recordFailure('rss', 100, 'still down');
+
+    expect(await registry.get('rss')).toMatchObject({ circuit: 'open', openUntil: now + MINUTE });
+    expect(await registry.canAttempt('rss')).toBe(false);
+  });
+
+  it('resets the failure streak on success and tracks average latency', async () => {
+    const registry = new SourceHealthRegistry({ failureThreshold: 3 });
+
+    await registry.recordFailure('perplexity', 1000, 'timeout');
+    await registry.recordFailure('perplexity', 1000, 'timeout');
+    await registry.recordSuccess('perplexity', 2000, 3);
+    await registry.recordFailure('perplexity', 1000, 'timeout');
+
+    expect(await registry.canAttempt('perplexity')).toBe(true);
+    expect(await registry.get('perplexity')).toMatchObject({
+      circuit: 'closed',
+      consecutiveFailures: 1,
+      lastLatencyMs: 1000,
+      avgLatencyMs: 1210, // 0.3 * 2000 + 0.7 * 1000 = 1300, then 0.3 * 1000 + 0.7 * 1300
+    });
+  });
+
+  it('forgets a source on reset', async () => {
+    const registry = new SourceHealthRegistry({ failureThreshold: 1 });
+    await registry.recordFailure('telegram', 100, 'timeout');
+
+    await registry.reset('telegram');
+
+    expect(await registry.get('telegram')).toBeNull();
+    expect(await registry.canAttempt('telegram')).toBe(true);
+  });
+
+  it('shares circuit state between registries on the same store', async () => {
+    const store = new InMemoryCursorRepository();
+    const collector = new SourceHealthRegistry({ failureThreshold: 1 }, store);
+    const web = new SourceHealthRegistry({ failureThreshold: 1 }, store);
+
+    await collector.recordFailure('telegram', 100, 'timeout');
+
+    expect(await web.canAttempt('telegram')).toBe(false);
+    expect(await web.getAll()).toEqual([expect.objectContaining({ name: 'telegram', circuit: 'open' })]);
+
+    await web.reset('telegram');
+    expect(await collector.getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  closeSqlite,
+  saveArticles,
+  getArticles,
+  getArticleById,
+  getArticleByContentHash,
+  getArticlesBySourceIds,
+  getArticlesByTopic,
+  updateArticle,
+  deleteOldArticles,
+  saveIncident,
+  getIncidents,
+  updateIncident,
+  saveSubscription,
+  getSubscriptions,
+  deleteSubscription,
+  saveStories,
+  getStories,
+  getSourceCursors,
+  saveSourceCursors,
+  getAllDocuments,
+  putDocuments,
+} from '../sqlite';
+import type { Article, StoryCluster } from '../firestore';
+import type { NewIncident } from '../domain/incident';
+
+function article(id: string, overrides: Partial<Article> = {}): Article {
+  return {
+    id,
+    title: `Title ${id}`,
+    summary: `Summary ${id}`,
+    content: `Content ${id}`,
+    source: 'telegram',
+    sourceUrl: `https://t.me/channel/${id}`,
+    publishedAt: 1_700_000_000_000,
+    topics: ['iran.protests'],
+    contentHash: `hash-${id}`,
+    minHash: [1, 2, 3],
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function incident(title: string, timestamp: number): NewIncident {
+  return {
+    type: 'protest',
+    title,
+    description: `${title} description`,
+    location: { lat: 35.6892, lon: 51.389, address: 'Tehran' },
+    verified: false,
+    reportedBy: 'crowdsource',
+    timestamp,
+    upvotes: 0,
+  };
+}
+
+describe('SQLite storage', () => {
+  beforeEach(() => {
+    process.env.SQLITE_PATH = ':memory:';
+    closeSqlite(); // Fresh in-memory database per test
+  });
+
+  afterAll(() => {
+    closeSqlite();
+  });
+
+  it('should save, look up and paginate articles', async () => {
+    await saveArticles(['a', 'b', 'c'].map(id => article(id)));
+
+    expect((await getArticleById('b'))?.title).toBe('Title b');
+    expect((await getArticleByContentHash('hash-c'))?.id).toBe('c');
+    expect(await getArticleById('missing')).toBeNull();
+
+    const firstPage = await getArticles(2);
+    const secondPage = await getArticles(2, firstPage[1].id);
+
+    expect(firstPage).toHaveLength(2);
+    expect(secondPage).toHaveLength(1);
+    expect(new Set([...firstPage, ...secondPage].map(a => a.id))).toEqual(new Set(['a', 'b', 'c']));
+  });
+
+  it('should query articles by source ID and topic', async () => {
+    await saveArticles([
+      article('a', { sourceId: 'telegram:channel:1' }),
+      article('b', { sourceId: 'telegram:channel:2', topics: ['iran.economy'] }),
+    ]);
+
+    const bySource = await getArticlesBySourceIds(['telegram:channel:2', 'telegram:channel:9']);
+    expect(bySource.map(a => a.id)).toEqual(['b']);
+
+    const byTopic = await getArticlesByTopic('iran.economy');
+    expect(byTopic.map(a => a.id)).toEqual(['b']);
+  });
+
+  it('should merge article updates and skip undefined fields', async () => {
+    await saveArticles([article('a', { imageUrl: 'https://example.com/a.jpg' })]);
+
+    await updateArticle('a', { content: 'Edited', revisionCount: 2, imageUrl: undefined });
+
+    const updated = await getArticleById('a');
+    expect(updated).toMatchObject({ content: 'Edited', revisionCount: 2, imageUrl: 'https://example.com/a.jpg' });
+    await expect(updateArticle('missing', { content: 'x' })).rejects.toThrow('No document to update');
+  });
+
+  it('should delete articles older than the cutoff', async () => {
+    putDocuments('articles', [
+      article('old', { createdAt: Date.now() - 40 * 24 * 60 * 60 * 1000 }),
+      article('new', { createdAt: Date.now() }),
+    ]);
+
+    expect(await deleteOldArticles(30)).toBe(1);
+    expect(getAllDocuments('articles').map(doc => doc.id)).toEqual(['new']);
+  });
+
+  it('should store incidents newest first and apply updates', async () => {
+    const olderId = await saveIncident(incident('Older', 1000));
+    await saveIncident(incident('Newer', 2000));
+
+    await updateIncident(olderId, { verified: true });
+
+    const incidents = await getIncidents();
+    expect(incidents.map(i => i.title)).toEqual(['Newer', 'Older']);
+    expect(incidents[1]).toMatchObject({ id: olderId, verified: true });
+  });
+
+  it('should key subscriptions by endpoint so re-subscribing replaces the record', async () => {
+    const subscription = { endpoint: 'https://push.example/1', keys: { p256dh: 'p', auth: 'a' } };
+
+    const id = await saveSubscription(subscription);
+    expect(await saveSubscription(subscription)).toBe(id);
+    expect(await getSubscriptions()).toHaveLength(1);
+
+    await deleteSubscription(id);
+    expect(await getSubscriptions()).toHaveLength(0);
+  });
+
+  it('should merge source cursors', async () => {
+    await saveSourceCursors('telegram', { channelA: '10' });
+    await saveSourceCursors('telegram', { channelB: '20' });
+
+    expect(await getSourceCursors('telegram')).toEqual({ channelA: '10', channelB: '20' });
+    expect(await getSourceCursors('rss')).toEqual({});
+  });
+
+  it('should filter stories by source count', async () => {
+    const story = (id: string, sourceCount: number, lastUpdatedAt: number): StoryCluster => ({
+      id,
+      headline: id,
+      summary: id,
+      topics: [],
+      minHash: [],
+      articleIds: [],
+      members: [],
+      sources: [],
+      sourceCount,
+      platforms: [],
+      firstSeenAt: lastUpdatedAt,
+      lastUpdatedAt,
+    });
+
+    await saveStories([story('single', 1, 3000), story('multi', 3, 2000), story('pair', 2, 1000)]);
+
+    expect((await getStories(10, 2)).map(s => s.id)).toEqual(['multi', 'pair']);
+    expect((await getStories(1)).map(s => s.id)).toEqual(['single']);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+
+import { randomUUID } from 'crypto';
+import { StoryClusterer } from '../services/news/stories/story-clusterer';
+import { IStoryRepository, StoryCluster } from '../services/news/stories/i-story-repository';
+import { ArticleWithHash } from '../services/news/deduplication/i-deduplicator';
+import { generateMinHashSignature } from '../minhash';
+
+// jest.setup replaces global.crypto with a digest-only stub
+Object.assign(globalThis.crypto, { randomUUID });
+
+const ZAHEDAN = 'Security forces opened fire on protesters after Friday prayers in Zahedan, killing at least twelve people';
+const ZAHEDAN_REWORDED = 'Security forces opened fire on protesters after Friday prayers in Zahedan, killing at least fifteen people';
+const STRIKE = 'Oil workers at the Abadan refinery walked out on Monday demanding unpaid wages and the right to organize';
+
+function article(id: string, text: string, channelUsername: string, fields: Partial<ArticleWithHash> = {}): ArticleWithHash {
+  return {
+    id,
+    title: text.slice(0, 40),
+    summary: text,
+    content: text,
+    source: 'telegram',
+    sourceUrl: `https://t.me/${channelUsername}/${id}`,
+    publishedAt: Date.UTC(2026, 0, 1),
+    topics: [],
+    channelUsername,
+    contentHash: id,
+    minHash: generateMinHashSignature(text),
+    createdAt: Date.UTC(2026, 0, 1),
+    ...fields,
+  };
+}
+
+function repository(recent: StoryCluster[] = [], stored: StoryCluster[] = []) {
+  const saved: StoryCluster[] = [];
+  const repo: IStoryRepository = {
+    getRecent: jest.fn(async () => recent),
+    list: jest.fn(async () => []),
+    getById: jest.fn(async (id: string) => stored.find(story => story.id === id) ?? null),
+    saveMany: jest.fn(async (stories: StoryCluster[]) => {
+      saved.push(...stories);
+    }),
+  };
+  return { repo, saved };
+}
+
+describe('StoryClusterer', () => {
+  it('groups similar reports in a batch into one story and keeps others apart', async () => {
+    const { repo, saved } = repository();
+    const clusterer = new StoryClusterer(repo);
+    const bbc = article('a1', ZAHEDAN, 'BBCPersian');
+    const iranIntl = article('a2', ZAHEDAN_REWORDED, 'IranIntlTV');
+    const strike = article('a3', STRIKE, 'RadioFarda');
+
+    const stories = await clusterer.assign([bbc, iranIntl, strike]);
+
+    expect(stories).toHaveLength(2);
+    expect(bbc.storyId).toBeDefined();
+    expect(iranIntl.storyId).toBe(bbc.storyId);
+    expect(strike.storyId).not.toBe(bbc.storyId);
+
+    const zahedan = saved.find(story => story.id === bbc.storyId)!;
+    expect(zahedan).toMatchObject({
+      headline: bbc.title,
+      articleIds: ['a1', 'a2'],
+      sources: ['bbcpersian', 'iranintltv'],
+      sourceCount: 2,
+    });
+  });
+
+  it('adds reports to a story from the recent window', async () => {
+    const { repo: first, saved } = repository();
+    await new StoryClusterer(first).assign([article('a1', ZAHEDAN, 'BBCPersian')]);
+    const existing = saved[0];
+
+    const { repo } = repository([existing]);
+    const clusterer = new StoryClusterer(repo, { windowHours: 12 });
+    const later = article('a2', ZAHEDAN_REWORDED, 'IranIntlTV');
+
+    const [story] = await clusterer.assign([later]);
+
+    expect(repo.getRecent).toHaveBeenCalledWith(12);
+    expect(later.storyId).toBe(existing.id);
+    expect(story.sourceCount).toBe(2);
+  });
+
+  it("records a dropped duplicate on its match's story without an article ID", async () => {
+    const { repo: first, saved } = repository();
+    const original = article('a1', ZAHEDAN, 'BBCPersian');
+    await new StoryClusterer(first).assign([original]);
+
+    // The story is out of the recent window: it is looked up by ID
+    const { repo } = repository([], saved);
+    const repost = article('d1', ZAHEDAN, 'vahidonline');
+
+    const [story] = await new StoryClusterer(repo).assign([], [{ article: repost, matched: original, kind: 'exact' }]);
+
+    expect(repo.getById).toHaveBeenCalledWith(original.storyId);
+    expect(story.articleIds).toEqual(['a1']);
+    expect(story.members.map(member => member.sourceKey)).toEqual(['bbcpersian', 'vahidonline']);
+    expect(story.members[1].articleId).toBeUndefined();
+  });
+
+  it('skips duplicates already recorded or with no story to join', async () => {
+    const { repo: first, saved } = repository();
+    const original = article('a1', ZAHEDAN, 'BBCPersian');
+    await new StoryClusterer(first).assign([original]);
+
+    const { repo } = repository(saved);
+    const clusterer = new StoryClusterer(repo);
+
+    // Same post fetched again
+    expect(await clusterer.assign([], [{ article: { ...original, id: 'a1-again' }, matched: original, kind: 'exact' }])).toEqual([]);
+
+    // Matched an article from before clustering, and nothing similar is on record
+    const unclustered = article('old', STRIKE, 'RadioFarda');
+    expect(await clusterer.assign([], [{ article: article('d2', STRIKE, 'Haalvsh'), matched: unclustered, kind: 'fuzzy' }])).toEqual([]);
+    expect(repo.saveMany).not.toHaveBeenCalled();
+  });
+});
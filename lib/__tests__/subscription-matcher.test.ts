@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isQuietHours,
+  matchCandidate,
+  toCandidates,
+} from '../services/notifications/subscription-matcher';
+import { PushNotificationService } from '../services/notifications/push-notification-service';
+import { ConnectivityAlerter } from '../services/notifications/connectivity-alerter';
+import { DigestService } from '../services/notifications/digest-service';
+import { IDigestRepository } from '../services/notifications/repositories/i-digest-repository';
+import { InMemoryRateLimiter } from '../services/rate-limit/in-memory-rate-limiter';
+import { ISubscriptionRepository, NotificationPreferences, Subscription } from '../services/notifications/repositories/i-subscription-repository';
+import { ArticleWithHash } from '../services/news/deduplication/i-deduplicator';
+import { ExtractedIncident } from '../services/incidents/i-incident-extractor';
+
+const HOUR = 60 * 60 * 1000;
+
+function article(id: string, title: string, overrides: Partial<ArticleWithHash> = {}): ArticleWithHash {
+  return {
+    id,
+    title,
+    summary: '',
+    content: '',
+    source: 'telegram',
+    sourceUrl: `https://t.me/example/${id}`,
+    publishedAt: 0,
+    topics: [],
+    contentHash: id,
+    minHash: [],
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function incident(articleId: string, type: ExtractedIncident['type'], location: string): ExtractedIncident {
+  return {
+    type,
+    title: `${type} in ${location}`,
+    description: '',
+    location,
+    confidence: 80,
+    extractedFrom: { articleId, articleTitle: '', articleUrl: '', source: 'telegram' },
+    timestamp: 0,
+    keywords: [],
+  };
+}
+
+const preferences = (overrides: Partial<NotificationPreferences>): NotificationPreferences => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...overrides,
+});
+
+describe('matchCandidate', () => {
+  const [tabriz, strike, official] = toCandidates(
+    [
+      article('a1', 'Students gather at university', { topics: ['iran.now'], verificationScore: 75 }),
+      article('a2', 'اعتصاب بازاریان در تهران'),
+      article('a3', 'Foreign ministry spokesperson responds', { topics: ['iran.statements_official'] }),
+    ],
+    [incident('a1', 'arrest', 'Tabriz')]
+  );
+
+  it('locates articles through the incidents extracted from them', () => {
+    expect(tabriz.cities).toEqual(['Tabriz']);
+    expect(tabriz.provinces).toEqual(['east-azerbaijan']);
+    expect(strike.cities).toEqual(['Tehran']);
+  });
+
+  it('requires every preference that is set and reports the most specific one', () => {
+    expect(matchCandidate(tabriz, preferences({ cities: ['Tabriz'], incidentTypes: ['arrest'] })))
+      .toEqual({ candidate: tabriz, reason: 'Tabriz' });
+    expect(matchCandidate(tabriz, preferences({ provinces: ['east-azerbaijan'] }))?.reason).toBe('East Azerbaijan');
+    expect(matchCandidate(tabriz, preferences({ cities: ['Tabriz'], incidentTypes: ['death'] }))).toBeNull();
+    expect(matchCandidate(official, preferences({ topics: ['iran.statements_official'] }))?.reason)
+      .toBe('Iranian Government Statements');
+  });
+
+  it('matches Persian keywords across letter forms and drops unverified articles', () => {
+    // Arabic yeh and kaf in the keyword
+    expect(matchCandidate(strike, preferences({ keywords: ['بازاريان'] }))?.reason).toBe('بازاريان');
+    expect(matchCandidate(strike, preferences({ keywords: ['strike'] }))).toBeNull();
+
+    expect(matchCandidate(tabriz, preferences({ minVerificationScore: 70 }))).not.toBeNull();
+    expect(matchCandidate(strike, preferences({ minVerificationScore: 70 }))).toBeNull();
+  });
+});
+
+describe('isQuietHours', () => {
+  it('uses the local hour and wraps past midnight', () => {
+    const quiet = { start: 23, end: 7, timezone: 'Asia/Tehran' };
+
+    // 20:00 UTC is 23:30 in Tehran
+    expect(isQuietHours(quiet, Date.UTC(2026, 0, 1, 20, 0))).toBe(true);
+    expect(isQuietHours(quiet, Date.UTC(2026, 0, 1, 6, 0))).toBe(false);
+    expect(isQuietHours(undefined, Date.UTC(2026, 0, 1, 20, 0))).toBe(false);
+  });
+});
+
+describe('PushNotificationService.notifyNewArticles', () => {
+  const budget = new InMemoryRateLimiter({ maxRequests: 30, windowMs: HOUR });
+  const alertLimiter = new InMemoryRateLimiter({ maxRequests: 1, windowMs: HOUR });
+  const send = jest.fn();
+
+  afterAll(() => {
+    budget.destroy();
+    alertLimiter.destroy();
+  });
+
+  function createService(subscriptions: Subscription[]) {
+    const repository: ISubscriptionRepository = {
+      isAvailable: () => true,
+      getAll: async () => subscriptions,
+      save: jest.fn(),
+      delete: jest.fn(),
+      updatePreferences: jest.fn(),
+      markNotified: jest.fn(),
+    };
+    const digests: IDigestRepository = {
+      isAvailable: () => true,
+      getById: async () => null,
+      getPending: async () => [],
+      saveMany: jest.fn(),
+    };
+    return new PushNotificationService(
+      new ConnectivityAlerter(repository, alertLimiter, alertLimiter, send),
+      repository,
+      budget,
+      new DigestService(digests, repository, send),
+      send
+    );
+  }
+
+  beforeEach(() => {
+    send.mockReset();
+    send.mockImplementation(async (targets: Subscription[]) => ({ success: true, sent: targets.length }));
+  });
+
+  it('sends each subscriber a push for the articles they match, within their hourly budget', async () => {
+    const subscription = (id: string, prefs?: Partial<NotificationPreferences>): Subscription => ({
+      id,
+      endpoint: `https://push.example/${id}`,
+      keys: { p256dh: 'p', auth: 'a' },
+      subscribedAt: 0,
+      ...(prefs && { preferences: preferences(prefs) }),
+    });
+    const service = createService([
+      subscription('everything'),
+      subscription('tabriz', { cities: ['Tabriz'], maxPerHour: 1 }),
+      subscription('mashhad', { cities: ['Mashhad'] }),
+    ]);
+    const articles = [article('a1', 'Protest reported'), article('a2', 'Economy update')];
+
+    const result = await service.notifyNewArticles(articles, [incident('a1', 'protest', 'Tabriz')]);
+
+    expect(result).toEqual({ success: true, sent: 2 });
+    const pushes = new Map(send.mock.calls.map(([targets, notification]) => [
+      targets.map((s: Subscription) => s.id).join(','),
+      notification,
+    ]));
+    expect(pushes.get('everything')).toMatchObject({ title: '📰 2 New Articles', message: 'Protest reported and 1 more' });
+    expect(pushes.get('tabriz')).toMatchObject({ title: '📰 Tabriz', message: 'Protest reported', url: 'https://t.me/example/a1' });
+
+    // The Tabriz subscriber spent their one push this hour
+    send.mockClear();
+    await service.notifyNewArticles([article('a3', 'Another protest')], [incident('a3', 'protest', 'Tabriz')]);
+    expect(send.mock.calls.map(([targets]) => targets.map((s: Subscription) => s.id))).toEqual([['everything']]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+
+import { TelegramBot, parseCommand } from '../services/telegram-bot/telegram-bot';
+import { BotTransport } from '../services/telegram-bot/bot-transport';
+import { IBotChatRepository, TelegramBotChat } from '../services/telegram-bot/repositories/i-bot-chat-repository';
+import { IncidentService } from '../services/incidents/incident-service';
+import { IIncidentRepository } from '../services/incidents/repositories/i-incident-repository';
+import { IArticleRepository } from '../services/news/repositories/i-article-repository';
+import { InMemoryRateLimiter } from '../services/rate-limit/in-memory-rate-limiter';
+import type { NewIncident } from '../domain/incident';
+import type { TelegramMessage } from '../telegram-scraper';
+
+const CHAT_ID = 42;
+
+function message(fields: Partial<TelegramMessage>): TelegramMessage {
+  return {
+    message_id: 1,
+    date: 0,
+    chat: { id: CHAT_ID, type: 'private' },
+    ...fields,
+  };
+}
+
+describe('parseCommand', () => {
+  it('reads the command and argument, ignoring the bot mention', () => {
+    expect(parseCommand('/map@RiseUpBot  Tabriz ')).toEqual({ command: 'map', argument: 'Tabriz' });
+    expect(parseCommand('/LATEST')).toEqual({ command: 'latest', argument: '' });
+    expect(parseCommand('Protest')).toBeNull();
+  });
+});
+
+describe('TelegramBot /report', () => {
+  const limiter = new InMemoryRateLimiter({ maxRequests: 1, windowMs: 60 * 60 * 1000 });
+  const chats = new Map<string, TelegramBotChat>();
+  const created: NewIncident[] = [];
+  const replies: string[] = [];
+
+  const chatRepository: IBotChatRepository = {
+    isAvailable: () => true,
+    get: async id => chats.get(id) ?? null,
+    getSubscribed: async () => Array.from(chats.values()).filter(chat => chat.topics.length > 0),
+    save: async chat => { chats.set(chat.id, chat); },
+  };
+  const incidentRepository = {
+    isAvailable: () => true,
+    getAll: async () => [],
+    create: async (incident: NewIncident) => {
+      created.push(incident);
+      return `incident-${created.length}`;
+    },
+  } as unknown as IIncidentRepository;
+  const transport: BotTransport = {
+    send: async (_chatId, text) => { replies.push(text); },
+    uploadPhoto: async fileId => (fileId === 'broken' ? null : `https://images.example/${fileId}`),
+  };
+  const bot = new TelegramBot(
+    {} as IArticleRepository,
+    new IncidentService(incidentRepository),
+    chatRepository,
+    limiter,
+    transport
+  );
+
+  const send = (fields: Partial<TelegramMessage>) => bot.handleUpdate({ update_id: 1, message: message(fields) });
+  const lastReply = () => replies[replies.length - 1];
+
+  afterAll(() => limiter.destroy());
+
+  it('collects type, location, description and photos, then creates an unverified incident', async () => {
+    await send({ text: '/report' });
+    await send({ text: 'Riot' });
+    expect(lastReply()).toMatch(/choose one of the types/);
+
+    await send({ text: 'Protest' });
+    await send({ text: 'somewhere' });
+    expect(lastReply()).toMatch(/share a location/);
+
+    await send({ location: { latitude: 38.08, longitude: 46.29 } });
+    await send({ text: 'too short' });
+    expect(lastReply()).toMatch(/at least 20 characters/);
+
+    await send({ text: 'Hundreds of students gathered outside the university gates' });
+    await send({ photo: [{ file_id: 'small', file_size: 1, width: 90, height: 90 }, { file_id: 'large', file_size: 9, width: 900, height: 900 }] });
+    await send({ photo: [{ file_id: 'broken', file_size: 1, width: 90, height: 90 }] });
+    await send({ text: 'Done' });
+
+    expect(created).toHaveLength(1);
+    expect(created[0]).toMatchObject({
+      type: 'protest',
+      title: 'Protest: Hundreds of students gathered outside the university gates',
+      location: { lat: 38.08, lon: 46.29 },
+      images: ['https://images.example/large'],
+      verified: false,
+      reportedBy: 'crowdsource',
+      tags: ['telegram-bot'],
+    });
+    expect(lastReply()).toMatch(/report was submitted[\s\S]*1 photo\(s\) could not be stored/);
+    expect(chats.get(String(CHAT_ID))?.report).toBeUndefined();
+  });
+
+  it('keeps the draft when the incident rate limit is reached', async () => {
+    await send({ text: '/report' });
+    await send({ text: 'Arrest' });
+    await send({ text: 'Near Tabriz bazaar' });
+    await send({ text: 'Two shopkeepers were detained by plainclothes agents' });
+    await send({ text: '/done' });
+
+    expect(created).toHaveLength(1);
+    expect(lastReply()).toMatch(/Maximum 1 reports per hour/);
+    expect(chats.get(String(CHAT_ID))?.report).toMatchObject({
+      step: 'photos',
+      type: 'arrest',
+      location: { address: 'Tabriz' },
+    });
+  });
+});
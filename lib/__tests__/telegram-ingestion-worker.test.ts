@@ -0,0 +1,168 @@
+/**
+ * @jest-environment node
+ */
+
+import { randomUUID } from 'crypto';
+import type { TelegramClient } from 'telegram';
+import {
+  TelegramIngestionWorker,
+  TelegramConnection,
+  reconnectDelay,
+} from '../services/news/realtime/telegram-ingestion-worker';
+import { InMemoryCursorRepository } from '../services/news/repositories/in-memory-cursor-repository';
+import type { IngestResult } from '../services/news/news-service';
+import type { Article } from '../services/news/sources/i-news-source';
+import type { TelegramArticle } from '../telegram-user-api';
+
+// The worker is given a fake connection; keep gramjs out of the test
+jest.mock('@/lib/telegram-user-api', () => ({}));
+
+// jest.setup replaces global.crypto with a digest-only stub
+Object.assign(globalThis.crypto, { randomUUID });
+
+const CHANNEL = '@IranIntlTV';
+
+function post(messageId: number): TelegramArticle {
+  return {
+    id: `telegram-IranIntlTV-${messageId}`,
+    title: `Post ${messageId}`,
+    summary: '',
+    content: `Post ${messageId}`,
+    source: 'Telegram',
+    sourceUrl: `https://t.me/IranIntlTV/${messageId}`,
+    publishedAt: 0,
+    channelName: 'Iran International',
+    channelUsername: CHANNEL,
+    messageId,
+  };
+}
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('reconnectDelay', () => {
+  it('doubles up to the cap', () => {
+    expect([0, 1, 2, 10].map(attempt => reconnectDelay(attempt, 1000, 60000))).toEqual([1000, 2000, 4000, 60000]);
+  });
+});
+
+describe('TelegramIngestionWorker', () => {
+  it('catches up, ingests live posts once and reconnects from the cursors after a failed batch', async () => {
+    const cursors = new InMemoryCursorRepository();
+    await cursors.saveMany('telegram-user', { [CHANNEL]: '4' });
+
+    const ingested: string[][] = [];
+    let failNext = false;
+    const news = {
+      ingest: jest.fn(async (articles: Article[]): Promise<IngestResult> => {
+        if (failNext) {
+          failNext = false;
+          throw new Error('storage unavailable');
+        }
+        ingested.push(articles.map(article => article.title));
+        return {
+          articlesAdded: articles.length,
+          articlesUpdated: 0,
+          articlesTotal: articles.length,
+          incidentsExtracted: 0,
+          articlesVerified: 0,
+          articlesPretranslated: 0,
+          storiesUpdated: 0,
+          timestamp: 0,
+        };
+      }),
+    };
+
+    let publish: (article: TelegramArticle) => void = () => {};
+    const client = { connected: true, disconnect: jest.fn(async () => {}) } as unknown as TelegramClient;
+    const connection: TelegramConnection = {
+      connect: jest.fn(async () => client),
+      fetchUpdates: jest.fn(async (_client, lastMessageIds) => (
+        lastMessageIds[CHANNEL] === 4
+          ? { articles: [post(5)], lastMessageIds: { [CHANNEL]: 7 }, complete: true }
+          : { articles: [post(9)], lastMessageIds: { [CHANNEL]: 9 }, complete: true }
+      )),
+      listen: jest.fn(async (_client, onArticle) => {
+        publish = onArticle;
+        return () => {};
+      }),
+    };
+
+    const worker = new TelegramIngestionWorker(news, cursors, null, connection, {
+      batchWindowMs: 5,
+      healthCheckMs: 10,
+      minBackoffMs: 1,
+    });
+    const running = worker.run();
+
+    await waitFor(() => ingested.length === 1);
+    expect(ingested[0]).toEqual(['Post 5']);
+    expect(await cursors.getAll('telegram-user')).toEqual({ [CHANNEL]: '7' });
+
+    // Post 6 came in during the catch-up window and is already covered by the cursor
+    publish(post(6));
+    publish(post(8));
+    await waitFor(() => ingested.length === 2);
+    expect(ingested[1]).toEqual(['Post 8']);
+    expect(await cursors.getAll('telegram-user')).toEqual({ [CHANNEL]: '8' });
+
+    // A failed batch leaves the cursor at 8 and reconnects; the catch-up re-reads post 9
+    failNext = true;
+    publish(post(9));
+    await waitFor(() => ingested.length === 3);
+    expect(connection.connect).toHaveBeenCalledTimes(2);
+    expect(connection.fetchUpdates).toHaveBeenLastCalledWith(client, { [CHANNEL]: 8 }, { downloadMedia: false });
+    expect(ingested[2]).toEqual(['Post 9']);
+    expect(await cursors.getAll('telegram-user')).toEqual({ [CHANNEL]: '9' });
+
+    await worker.stop();
+    await running;
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+
+  it('keeps catching up until the backlog is read before ingesting live posts', async () => {
+    const cursors = new InMemoryCursorRepository();
+    await cursors.saveMany('telegram-user', { [CHANNEL]: '100' });
+
+    const ingested: string[][] = [];
+    const news = {
+      ingest: jest.fn(async (articles: Article[]) => {
+        ingested.push(articles.map(article => article.title));
+        return {} as IngestResult;
+      }),
+    };
+
+    let publish: (article: TelegramArticle) => void = () => {};
+    const client = { connected: true, disconnect: jest.fn(async () => {}) } as unknown as TelegramClient;
+    const connection: TelegramConnection = {
+      connect: jest.fn(async () => client),
+      fetchUpdates: jest.fn(async (_client, lastMessageIds) => {
+        // A post arrives live while the first backlog page is being read
+        if (lastMessageIds[CHANNEL] === 100) {
+          publish(post(900));
+          return { articles: [post(150)], lastMessageIds: { [CHANNEL]: 600 }, complete: false };
+        }
+        return { articles: [post(700)], lastMessageIds: { [CHANNEL]: 800 }, complete: true };
+      }),
+      listen: jest.fn(async (_client, onArticle) => {
+        publish = onArticle;
+        return () => {};
+      }),
+    };
+
+    const worker = new TelegramIngestionWorker(news, cursors, null, connection, { batchWindowMs: 1, healthCheckMs: 10 });
+    const running = worker.run();
+
+    await waitFor(() => ingested.length === 3);
+    expect(ingested).toEqual([['Post 150'], ['Post 700'], ['Post 900']]);
+    expect(connection.fetchUpdates).toHaveBeenNthCalledWith(2, client, { [CHANNEL]: 600 }, { downloadMedia: false });
+    expect(await cursors.getAll('telegram-user')).toEqual({ [CHANNEL]: '900' });
+
+    await worker.stop();
+    await running;
+  });
+});
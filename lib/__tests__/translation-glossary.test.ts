@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+
+import { TranslationGlossary } from '../services/translation/translation-glossary';
+import type { IGlossaryRepository, GlossaryTermDoc } from '../services/translation/repositories/i-glossary-repository';
+import { transliterateName } from '../domain/glossary';
+import { translateText } from '../translation-robust';
+
+class InMemoryGlossaryRepository implements IGlossaryRepository {
+  terms = new Map<string, GlossaryTermDoc>();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getAll(): Promise<GlossaryTermDoc[]> {
+    return [...this.terms.values()];
+  }
+
+  async save(term: GlossaryTermDoc): Promise<void> {
+    this.terms.set(term.id, term);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.terms.delete(id);
+  }
+}
+
+describe('transliterateName', () => {
+  it('romanizes Persian names by rule', () => {
+    expect(transliterateName('مهسا امینی')).toBe('Mahsa Amini');
+    expect(transliterateName('وحید کیان')).toBe('Vahid Kian');
+  });
+});
+
+describe('TranslationGlossary', () => {
+  it('finds the longest spelling of a term, Arabic letter forms included, and names after honorifics', async () => {
+    const glossary = new TranslationGlossary(new InMemoryGlossaryRepository());
+
+    // Arabic yeh and kaf, as often typed on Telegram
+    const text = 'نیروهای سپاه پاسداران انقلاب اسلامي جاویدنام وحید کیان را به زندان اوین بردند';
+
+    expect(await glossary.constraints(text, 'fa', 'en')).toEqual([
+      { termId: 'irgc', source: 'سپاه پاسداران انقلاب اسلامي', target: 'IRGC' },
+      { termId: 'evin', source: 'زندان اوین', target: 'Evin Prison' },
+      { termId: 'name:vahid-kian', source: 'وحید کیان', target: 'Vahid Kian', transliterated: true },
+    ]);
+    expect(await glossary.constraints('Basij forces at evin prison', 'en', 'fa')).toEqual([
+      { termId: 'evin', source: 'evin prison', target: 'زندان اوین' },
+      { termId: 'basij', source: 'Basij', target: 'بسیج' },
+    ]);
+  });
+
+  it('applies edits over built-ins and disables removed built-ins', async () => {
+    const repository = new InMemoryGlossaryRepository();
+    const glossary = new TranslationGlossary(repository);
+
+    await glossary.save({ id: 'evin', fa: 'زندان اوین', en: 'Evin prison (Tehran)', kind: 'prison' });
+    await glossary.save({ fa: 'زندان لاکان', en: 'Lakan Prison', kind: 'prison' });
+    expect(await glossary.remove('basij')).toBe('disabled');
+    expect(await glossary.remove('lakan-prison')).toBe('deleted');
+    expect(await glossary.remove('missing')).toBeNull();
+
+    const text = 'بسیج در زندان اوین و زندان لاکان';
+    expect(await glossary.constraints(text, 'fa', 'en')).toEqual([
+      { termId: 'evin', source: 'زندان اوین', target: 'Evin prison (Tehran)' },
+    ]);
+
+    const evin = (await glossary.list()).find(term => term.id === 'evin');
+    expect(evin).toMatchObject({ builtIn: true, edited: true, en: 'Evin prison (Tehran)' });
+  });
+});
+
+describe('translateText with a glossary', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    delete process.env.FIREBASE_SERVICE_ACCOUNT;
+    delete process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('sends terms as placeholders, puts the curated target back and reports the hits', async () => {
+    const queries: string[] = [];
+    global.fetch = jest.fn(async (input: string | URL | Request) => {
+      const query = new URL(String(input)).searchParams.get('q')!;
+      queries.push(query);
+      return Response.json({ responseStatus: 200, responseData: { translatedText: '{0} forces attacked {1} prisoners.' } });
+    }) as typeof fetch;
+
+    const result = await translateText('نیروهای بسیج به زندانیان زندان اوین حمله کردند.', 'fa', 'en', [
+      { termId: 'basij', source: 'بسیج', target: 'Basij' },
+      { termId: 'evin', source: 'زندان اوین', target: 'Evin Prison' },
+    ]);
+
+    expect(queries).toEqual(['نیروهای {0} به زندانیان {1} حمله کردند.']);
+    expect(result.translatedText).toBe('Basij forces attacked Evin Prison prisoners.');
+    expect(result.glossaryHits).toEqual([
+      { termId: 'basij', source: 'بسیج', target: 'Basij', count: 1 },
+      { termId: 'evin', source: 'زندان اوین', target: 'Evin Prison', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+import { TranslationMemory, Translator, articleTranslationText } from '../services/translation/translation-memory';
+import {
+  ITranslationMemoryRepository,
+  TranslationMemoryEntry,
+} from '../services/translation/repositories/i-translation-memory-repository';
+import { getTranslationKey } from '../translation-robust';
+
+describe('TranslationMemory', () => {
+  let entries: Map<string, TranslationMemoryEntry>;
+  let repository: ITranslationMemoryRepository;
+  let translator: jest.Mocked<Translator>;
+  let memory: TranslationMemory;
+
+  beforeEach(() => {
+    entries = new Map();
+    repository = {
+      isAvailable: () => true,
+      get: async id => entries.get(id) ?? null,
+      save: async entry => { entries.set(entry.id, entry); },
+    };
+    translator = {
+      translate: jest.fn<ReturnType<Translator['translate']>, Parameters<Translator['translate']>>(
+        async text => ({ translatedText: `mymemory:${text.length}`, tier: 'mymemory' })
+      ),
+      translateAbove: jest.fn<ReturnType<Translator['translateAbove']>, Parameters<Translator['translateAbove']>>(
+        async () => null
+      ),
+    };
+    memory = new TranslationMemory(repository, translator);
+  });
+
+  it('keys entries on the full text, so long posts with the same opening do not collide', async () => {
+    const opening = 'تظاهرات '.repeat(20);
+    const first = await memory.translate(`${opening} در تهران`, 'fa', 'en');
+    const second = await memory.translate(`${opening} در تبریز و مشهد`, 'fa', 'en');
+
+    expect(first.translatedText).not.toBe(second.translatedText);
+    expect(entries.size).toBe(2);
+    expect(entries.has(getTranslationKey(`${opening} در تهران`, 'fa', 'en'))).toBe(true);
+
+    const again = await memory.translate(`${opening} در تهران`, 'fa', 'en');
+    expect(again).toMatchObject({ translatedText: first.translatedText, tier: 'mymemory', cached: true });
+    expect(translator.translate).toHaveBeenCalledTimes(2);
+  });
+
+  it('upgrades an entry once its retry window has passed and a better tier succeeds', async () => {
+    await memory.translate('بازداشت دانشجو', 'fa', 'en');
+    const id = getTranslationKey('بازداشت دانشجو', 'fa', 'en');
+
+    // Within the window the stored translation is served without trying to upgrade
+    await memory.translate('بازداشت دانشجو', 'fa', 'en');
+    expect(translator.translateAbove).not.toHaveBeenCalled();
+
+    entries.set(id, { ...entries.get(id)!, upgradeCheckedAt: Date.now() - 25 * 60 * 60 * 1000 });
+    const failed = await memory.translate('بازداشت دانشجو', 'fa', 'en');
+    expect(failed).toMatchObject({ tier: 'mymemory', cached: true });
+    expect(translator.translateAbove).toHaveBeenCalledWith('بازداشت دانشجو', 'fa', 'en', 'mymemory', []);
+    expect(Date.now() - entries.get(id)!.upgradeCheckedAt!).toBeLessThan(1000);
+
+    translator.translateAbove.mockResolvedValueOnce({ translatedText: 'Student arrested', tier: 'google' });
+    entries.set(id, { ...entries.get(id)!, upgradeCheckedAt: 0 });
+    const upgraded = await memory.translate('بازداشت دانشجو', 'fa', 'en');
+    expect(upgraded).toMatchObject({ translatedText: 'Student arrested', tier: 'google', cached: false });
+    expect(entries.get(id)).toMatchObject({ translatedText: 'Student arrested', tier: 'google' });
+  });
+
+  it('pre-translates Persian articles under the key NewsCard looks up', async () => {
+    const persian = { title: 'تجمع در دانشگاه', summary: 'دانشجویان تجمع کردند' };
+    const english = { title: 'Strike in Tabriz', summary: 'Bazaar closed' };
+
+    expect(await memory.pretranslate([persian, english])).toBe(1);
+    expect(entries.has(getTranslationKey(articleTranslationText(persian), 'fa', 'en'))).toBe(true);
+    expect(entries.size).toBe(1);
+
+    expect(await memory.pretranslate([persian])).toBe(0);
+  });
+
+  it('pre-translates a few articles at a time and starts none once the time budget is spent', async () => {
+    const articles = ['تهران', 'تبریز', 'مشهد', 'شیراز', 'اصفهان'].map(city => ({
+      title: `تجمع در ${city}`,
+      summary: `دانشجویان در ${city} تجمع کردند`,
+    }));
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    let running = 0;
+    let maxRunning = 0;
+    translator.translate.mockImplementation(async text => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await Promise.resolve();
+      running--;
+      now += 300;
+      if (text.includes('مشهد')) throw new Error('quota exceeded');
+      return { translatedText: `mymemory:${text.length}`, tier: 'mymemory' };
+    });
+    const bounded = new TranslationMemory(repository, translator, null, { concurrency: 2, timeBudgetMs: 1000 });
+
+    const translated = await bounded.pretranslate(articles);
+    jest.restoreAllMocks();
+
+    // Two batches of two before the budget ran out; the failed one is not counted
+    expect(translator.translate).toHaveBeenCalledTimes(4);
+    expect(maxRunning).toBe(2);
+    expect(translated).toBe(3);
+  });
+});
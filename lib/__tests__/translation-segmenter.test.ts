@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+
+import { segmentText, protectTokens, restoreTokens } from '../translation-segmenter';
+import { translateText } from '../translation-robust';
+
+const join = (segments: Array<{ text: string }>) => segments.map(segment => segment.text).join('');
+const sentences = (text: string, protectLatin = false) =>
+  segmentText(text, { protectLatin }).filter(segment => segment.translatable).map(segment => segment.text);
+
+describe('segmentText', () => {
+  it('splits at Persian and Latin terminators and line breaks, and joins back to the input', () => {
+    const text = 'تجمع در تهران ادامه دارد. آیا اینترنت قطع شد؟ بله!\nPolice arrived at 3.30 p.m. Dr. Karimi was detained.';
+
+    expect(sentences(text)).toEqual([
+      'تجمع در تهران ادامه دارد.',
+      'آیا اینترنت قطع شد؟',
+      'بله!',
+      'Police arrived at 3.30 p.m.',
+      'Dr. Karimi was detained.',
+    ]);
+    expect(join(segmentText(text))).toBe(text);
+  });
+
+  it('keeps ZWNJ words, links, handles and hashtags inside their sentence', () => {
+    const text = 'مردم می‌گویند https://t.me/IranIntlTV/123. گزارش @IranIntl با #مهسا_امینی و #زن‌زندگی‌آزادی منتشر شد.';
+
+    expect(sentences(text)).toEqual([
+      'مردم می‌گویند https://t.me/IranIntlTV/123.',
+      'گزارش @IranIntl با #مهسا_امینی و #زن‌زندگی‌آزادی منتشر شد.',
+    ]);
+  });
+
+  it('passes through text made only of protected tokens and symbols', () => {
+    const segments = segmentText('🔴 #اعتصاب https://example.com\nخبر فوری', { protectLatin: true });
+
+    expect(segments).toEqual([
+      { text: '🔴 #اعتصاب https://example.com\n', translatable: false },
+      { text: 'خبر فوری', translatable: true },
+    ]);
+  });
+
+  it('splits long sentences at clause punctuation before word breaks', () => {
+    const clause = 'معترضان در خیابان‌های شهر جمع شدند';
+    const text = `${clause}، ${clause}، ${clause}.`;
+    const parts = segmentText(text, { maxBytes: 100 });
+
+    expect(parts.filter(segment => segment.translatable).map(segment => segment.text)).toEqual([
+      `${clause}،`,
+      `${clause}،`,
+      `${clause}.`,
+    ]);
+    expect(join(parts)).toBe(text);
+  });
+});
+
+describe('protectTokens / restoreTokens', () => {
+  it('swaps links, handles and Latin names for placeholders and restores them', () => {
+    const source = 'رضا پهلوی به BBC Persian گفت @IranIntl https://x.com/a';
+    const { text, tokens } = protectTokens(source, { protectLatin: true });
+
+    expect(text).toBe('رضا پهلوی به {0} گفت {1} {2}');
+    expect(tokens).toEqual(['BBC Persian', '@IranIntl', 'https://x.com/a']);
+    expect(restoreTokens('Reza Pahlavi told { 0 } {1} {2}', tokens)).toBe(
+      'Reza Pahlavi told BBC Persian @IranIntl https://x.com/a'
+    );
+  });
+
+  it('rejects translations that lost or invented a placeholder', () => {
+    expect(restoreTokens('told {0}', ['BBC', '@IranIntl'])).toBeNull();
+    expect(restoreTokens('told {0} {2}', ['BBC', '@IranIntl'])).toBeNull();
+  });
+});
+
+describe('translateText', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    delete process.env.FIREBASE_SERVICE_ACCOUNT;
+    delete process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('falls back per sentence and reports the tier of each one', async () => {
+    // MyMemory handles the batch line by line but fails the second sentence; LibreTranslate is down
+    global.fetch = jest.fn(async (input: string | URL | Request) => {
+      const url = new URL(String(input));
+      if (url.hostname !== 'api.mymemory.translated.net') {
+        return new Response('unavailable', { status: 503 });
+      }
+      const query = url.searchParams.get('q')!;
+      if (query.includes('\n')) {
+        return Response.json({ responseStatus: 200, responseData: { translatedText: 'one line' } });
+      }
+      return query.startsWith('تجمع')
+        ? Response.json({ responseStatus: 200, responseData: { translatedText: 'Gathering at {0}.' } })
+        : Response.json({ responseStatus: 403, responseData: { translatedText: '' } });
+    }) as typeof fetch;
+
+    const result = await translateText('تجمع در https://t.me/x/1. دستگیری دانشجو.', 'fa', 'en');
+
+    expect(result.translatedText).toBe('Gathering at https://t.me/x/1. arrest student.');
+    expect(result.tier).toBe('dictionary');
+    expect(result.segments).toEqual([
+      { text: 'Gathering at https://t.me/x/1.', tier: 'mymemory' },
+      { text: ' ' },
+      { text: 'arrest student.', tier: 'dictionary' },
+    ]);
+  });
+
+  it('re-queries mismatched MyMemory batches in parallel under one shared timeout', async () => {
+    const segmentSignals: AbortSignal[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    global.fetch = jest.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.hostname !== 'api.mymemory.translated.net') {
+        return new Response('unavailable', { status: 503 });
+      }
+      if (url.searchParams.get('q')!.includes('\n')) {
+        return Response.json({ responseStatus: 200, responseData: { translatedText: 'one line' } });
+      }
+
+      segmentSignals.push(init!.signal!);
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return Response.json({ responseStatus: 200, responseData: { translatedText: 'translated' } });
+    }) as typeof fetch;
+
+    const result = await translateText('تجمع در تهران. دستگیری دانشجو.', 'fa', 'en');
+
+    expect(result.tier).toBe('mymemory');
+    expect(segmentSignals).toHaveLength(2);
+    expect(new Set(segmentSignals).size).toBe(1);
+    expect(maxInFlight).toBe(2);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+import { VerificationEngine, VerificationCandidate } from '../verification-engine';
+import {
+  VERIFICATION_MODELS,
+  DEFAULT_VERIFICATION_MODEL_VERSION,
+  applyDecay,
+  getVerificationModel,
+} from '../verification-model';
+
+const NOW = 1_700_000_000_000;
+const MINUTE = 60 * 1000;
+const AZADI = { lat: 35.6997, lon: 51.338 };
+
+function report(id: string, overrides: Partial<VerificationCandidate> = {}): VerificationCandidate {
+  return { id, location: AZADI, timestamp: NOW, verified: false, reportedBy: 'crowdsource', ...overrides };
+}
+
+function fromSource(id: string, source: string): VerificationCandidate {
+  return report(id, {
+    relatedArticles: [{ title: id, url: `https://example.com/${id}`, source }],
+  });
+}
+
+describe('applyDecay', () => {
+  it('should evaluate step, linear and exponential curves', () => {
+    expect(applyDecay({ type: 'step', cutoff: 2 }, 1.5)).toBe(1);
+    expect(applyDecay({ type: 'step', cutoff: 2 }, -2.5)).toBe(0);
+    expect(applyDecay({ type: 'linear', full: 1, cutoff: 3 }, 2)).toBe(0.5);
+    expect(applyDecay({ type: 'exponential', halfLife: 1, cutoff: 5 }, 2)).toBe(0.25);
+    expect(applyDecay({ type: 'exponential', halfLife: 1, cutoff: 5 }, 6)).toBe(0);
+  });
+});
+
+describe('VerificationEngine', () => {
+  it('should reproduce the legacy scoring with the v1 model', async () => {
+    const engine = new VerificationEngine(VERIFICATION_MODELS.v1);
+    const others = [
+      report('a', { verified: true }),
+      report('b', { timestamp: NOW + 90 * MINUTE }),
+      report('c'),
+      report('d'),
+      report('far', { location: { lat: 36.2974, lon: 59.6059 } }),
+    ];
+
+    const result = await engine.corroborateIncident(report('target'), others);
+
+    // 20 + 10 + 10 + 10 corroboration, +20 for more than 3 reports
+    expect(result.confidenceScore).toBe(70);
+    expect(result.modelVersion).toBe('v1');
+    expect(result.similarReports.map(r => r.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should count one vote per independent source and explain each rule with v2', async () => {
+    const engine = new VerificationEngine(VERIFICATION_MODELS.v2);
+    const others = [
+      fromSource('iran-intl-1', 'Iran International'),
+      fromSource('iran-intl-2', 'iran international'),
+      fromSource('bbc', 'BBC Persian'),
+      fromSource('hrana', 'HRANA'),
+    ];
+
+    const result = await engine.corroborateIncident(report('target'), others);
+    const byRule = Object.fromEntries(result.breakdown.map(rule => [rule.ruleId, rule]));
+
+    // Three sources at 10 x 0.75 each, plus the independent-sources bonus
+    expect(byRule.crowd_corroboration.contribution).toBe(22.5);
+    expect(byRule.crowd_corroboration.details).toMatchObject({ nearbyReports: 4, countedReports: 3 });
+    expect(byRule.media_match.contribution).toBe(0);
+    expect(byRule.independent_sources).toMatchObject({ contribution: 20, details: { count: 3 } });
+    expect(result.confidenceScore).toBe(43);
+  });
+
+  it('should weight corroborations by source reputation with v3', async () => {
+    const engine = new VerificationEngine(VERIFICATION_MODELS.v3);
+    const others = [
+      report('trusted', { source: 'telegram:trusted' }),
+      report('doubtful', { source: 'telegram:doubtful' }),
+      report('unknown', { source: 'telegram:new' }),
+    ];
+    const reputations = new Map([['telegram:trusted', 0.9], ['telegram:doubtful', 0.1]]);
+
+    const result = await engine.corroborateIncident(report('target'), others, reputations);
+    const corroboration = result.breakdown.find(rule => rule.kind === 'corroboration')!;
+
+    // 7.5 per report, times 1.5 (capped), 0.25 (floor) and 1 (no record): 11.25 + 1.875 + 7.5
+    expect(corroboration.contribution).toBe(20.63);
+    expect(corroboration.details).toMatchObject({ reputationWeighted: 2 });
+  });
+
+  it('should fall back to the default model for unknown versions', () => {
+    expect(getVerificationModel('v999').version).toBe(DEFAULT_VERIFICATION_MODEL_VERSION);
+    expect(getVerificationModel('v1').version).toBe('v1');
+  });
+});
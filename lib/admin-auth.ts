@@ -0,0 +1,20 @@
+/**
+ * Admin authentication for API routes
+ * Admin requests carry the shared secret in the `x-admin-secret` header (ADMIN_SECRET)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * A 401 response unless the request carries the admin secret, else null
+ */
+export function requireAdmin(req: NextRequest): NextResponse | null {
+  const adminSecret = req.headers.get('x-admin-secret');
+  if (adminSecret !== process.env.ADMIN_SECRET) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
@@ -1,24 +1,23 @@
 /**
  * Algolia Search Integration
  * Provides full-text search with Persian language support
- * Falls back to Fuse.js if Algolia credentials are missing
+ * Falls back to the local search index (lib/services/search) if Algolia credentials are missing
  */
 
 import algoliasearch, { SearchClient, SearchIndex } from 'algoliasearch';
-import Fuse from 'fuse.js';
 import { Article } from './firestore';
 import { logger } from '@/lib/logger';
+import type { LocalSearchIndex } from '@/lib/services/search/local-search-index';
 
 // Algolia client (initialized lazily)
 let algoliaClient: SearchClient | null = null;
 let algoliaIndex: SearchIndex | null = null;
 
-// Fuse.js instance for fallback
-let fuseInstance: Fuse<Article> | null = null;
-let fuseArticles: Article[] = [];
+// Local index for fallback
+let localIndex: LocalSearchIndex | null = null;
 
 // Search mode
-type SearchMode = 'algolia' | 'fuse' | 'disabled';
+export type SearchMode = 'algolia' | 'local' | 'disabled';
 let currentMode: SearchMode = 'disabled';
 
 /**
@@ -30,7 +29,7 @@ export function initAlgolia(): boolean {
 
   if (!appId || !searchKey) {
     logger.warn('algolia_credentials_missing');
-    currentMode = 'fuse';
+    currentMode = 'local';
     return false;
   }
 
@@ -44,34 +43,21 @@ export function initAlgolia(): boolean {
     logger.error('algolia_initialization_failed', {
       error: error instanceof Error ? error.message : 'Unknown error'
     });
-    currentMode = 'fuse';
+    currentMode = 'local';
     return false;
   }
 }
 
 /**
- * Initialize Fuse.js with articles data
+ * Use the local search index when Algolia is not configured
+ * The index loads itself from storage on the first search and stays in sync
  */
-export function initFuse(articles: Article[]): void {
-  fuseArticles = articles;
-  fuseInstance = new Fuse(articles, {
-    keys: [
-      { name: 'title', weight: 0.4 },
-      { name: 'summary', weight: 0.3 },
-      { name: 'content', weight: 0.2 },
-      { name: 'topics', weight: 0.1 },
-    ],
-    threshold: 0.3, // 70% similarity required
-    includeScore: true,
-    includeMatches: true,
-    minMatchCharLength: 2,
-    ignoreLocation: true, // Search entire document
-  });
+export function initLocalSearch(index: LocalSearchIndex): void {
+  localIndex = index;
 
   if (currentMode === 'disabled') {
-    currentMode = 'fuse';
+    currentMode = 'local';
   }
-  logger.info('fuse_initialized', { article_count: articles.length });
 }
 
 /**
@@ -168,7 +154,7 @@ export async function configureAlgoliaIndex(): Promise<void> {
 }
 
 /**
- * Search articles using Algolia or Fuse.js
+ * Search articles using Algolia or the local index
  */
 export interface SearchOptions {
   query: string;
@@ -185,8 +171,18 @@ export interface SearchOptions {
   hitsPerPage?: number;
 }
 
+/**
+ * Matched words wrapped in <mark>, the rest HTML-escaped
+ */
+export interface SearchHighlights {
+  title?: string;
+  summary?: string;
+}
+
+export type SearchHit = Article & { highlights?: SearchHighlights };
+
 export interface SearchResult {
-  hits: Article[];
+  hits: SearchHit[];
   nbHits: number;
   page: number;
   nbPages: number;
@@ -196,6 +192,15 @@ export interface SearchResult {
   mode: SearchMode;
 }
 
+/**
+ * Value counts per facet attribute
+ */
+export interface SearchFacets {
+  source: Record<string, number>;
+  topics: Record<string, number>;
+  channelName: Record<string, number>;
+}
+
 export async function searchArticles(options: SearchOptions): Promise<SearchResult> {
   const startTime = Date.now();
 
@@ -203,16 +208,17 @@ export async function searchArticles(options: SearchOptions): Promise<SearchResu
   if (currentMode === 'disabled') {
     // Try to initialize Algolia first
     if (!initAlgolia()) {
-      currentMode = 'fuse';
+      currentMode = 'local';
     }
   }
 
   if (currentMode === 'algolia' && algoliaIndex) {
     return await searchWithAlgolia(options, startTime);
-  } else if (currentMode === 'fuse' && fuseInstance) {
-    return searchWithFuse(options, startTime);
+  } else if (currentMode === 'local' && localIndex) {
+    await localIndex.ready();
+    return localIndex.search(options);
   } else {
-    throw new Error('Search not initialized. Call initAlgolia() or initFuse() first.');
+    throw new Error('Search not initialized. Call initAlgolia() or initLocalSearch() first.');
   }
 }
 
@@ -282,6 +288,10 @@ async function searchWithAlgolia(
       contentHash: '',
       minHash: [],
       createdAt: (hit as any).createdAt,
+      highlights: {
+        title: escapeHighlight((hit as any)._highlightResult?.title?.value),
+        summary: escapeHighlight((hit as any)._highlightResult?.summary?.value),
+      },
     })),
     nbHits: response.nbHits,
     page: response.page,
@@ -293,81 +303,6 @@ async function searchWithAlgolia(
   };
 }
 
-/**
- * Search using Fuse.js (fallback)
- */
-function searchWithFuse(options: SearchOptions, startTime: number): SearchResult {
-  if (!fuseInstance) {
-    throw new Error('Fuse.js not initialized');
-  }
-
-  const { query, filters, page = 0, hitsPerPage = 20 } = options;
-
-  // Execute Fuse.js search
-  let results = fuseInstance.search(query);
-
-  // Apply filters
-  if (filters) {
-    results = results.filter((result) => {
-      const article = result.item;
-
-      // Source filter
-      if (filters.source && article.source !== filters.source) {
-        return false;
-      }
-
-      // Topics filter
-      if (filters.topics && filters.topics.length > 0) {
-        const hasMatchingTopic = filters.topics.some(
-          topic => article.topics?.includes(topic)
-        );
-        if (!hasMatchingTopic) {
-          return false;
-        }
-      }
-
-      // Channel name filter
-      if (filters.channelName && article.channelName !== filters.channelName) {
-        return false;
-      }
-
-      // Date range filter
-      if (filters.dateRange) {
-        const publishedAt = typeof article.publishedAt === 'string'
-          ? new Date(article.publishedAt).getTime()
-          : article.publishedAt;
-
-        if (filters.dateRange.from && publishedAt < filters.dateRange.from) {
-          return false;
-        }
-        if (filters.dateRange.to && publishedAt > filters.dateRange.to) {
-          return false;
-        }
-      }
-
-      return true;
-    });
-  }
-
-  // Pagination
-  const start = page * hitsPerPage;
-  const end = start + hitsPerPage;
-  const paginatedResults = results.slice(start, end);
-
-  const processingTimeMS = Date.now() - startTime;
-
-  return {
-    hits: paginatedResults.map(r => r.item),
-    nbHits: results.length,
-    page,
-    nbPages: Math.ceil(results.length / hitsPerPage),
-    hitsPerPage,
-    processingTimeMS,
-    query,
-    mode: 'fuse',
-  };
-}
-
 /**
  * Get search suggestions (for autocomplete)
  */
@@ -378,15 +313,15 @@ export async function getSearchSuggestions(query: string): Promise<string[]> {
       attributesToRetrieve: ['title'],
     });
     return response.hits.map(hit => (hit as any).title);
-  } else if (currentMode === 'fuse' && fuseInstance) {
-    const results = fuseInstance.search(query, { limit: 5 });
-    return results.map(r => r.item.title);
+  } else if (currentMode === 'local' && localIndex) {
+    await localIndex.ready();
+    return localIndex.search({ query, hitsPerPage: 5 }).hits.map(hit => hit.title);
   }
   return [];
 }
 
 /**
- * Get facets for filters (Algolia only)
+ * Get facets for filters, most frequent values first
  */
 export async function getFacets(): Promise<{
   sources: string[];
@@ -400,30 +335,36 @@ export async function getFacets(): Promise<{
     });
 
     return {
-      sources: Object.keys(response.facets?.source || {}),
-      topics: Object.keys(response.facets?.topics || {}),
-      channels: Object.keys(response.facets?.channelName || {}),
+      sources: byCount(response.facets?.source),
+      topics: byCount(response.facets?.topics),
+      channels: byCount(response.facets?.channelName),
     };
-  } else if (currentMode === 'fuse') {
-    // Extract unique values from Fuse articles
-    const sources = new Set<string>();
-    const topics = new Set<string>();
-    const channels = new Set<string>();
-
-    fuseArticles.forEach(article => {
-      sources.add(article.source);
-      article.topics?.forEach(topic => topics.add(topic));
-      if (article.channelName) {
-        channels.add(article.channelName);
-      }
-    });
+  } else if (currentMode === 'local' && localIndex) {
+    await localIndex.ready();
+    const facets = localIndex.facets();
 
     return {
-      sources: Array.from(sources),
-      topics: Array.from(topics),
-      channels: Array.from(channels),
+      sources: byCount(facets.source),
+      topics: byCount(facets.topics),
+      channels: byCount(facets.channelName),
     };
   }
 
   return { sources: [], topics: [], channels: [] };
 }
+
+/**
+ * Escape an Algolia highlight like the local index does, keeping only the <mark> tags
+ */
+function escapeHighlight(value: string | undefined): string | undefined {
+  return value
+    ?.replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/&lt;(\/?)mark&gt;/g, '<$1mark>');
+}
+
+function byCount(counts: Record<string, number> = {}): string[] {
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+}
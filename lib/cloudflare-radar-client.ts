@@ -1,5 +1,5 @@
 
-interface BGPHijack {
+export interface BGPHijack {
     time: string;
     detected_at: string;
     hijack_type: string;
@@ -21,6 +21,10 @@ const baseEnvSchema = z.object({
   // Firebase (required for core functionality)
   FIREBASE_SERVICE_ACCOUNT: z.string().optional(),
 
+  // Storage backend (optional - "sqlite" runs without Google Cloud, e.g. on a self-hosted mirror)
+  STORAGE_BACKEND: z.enum(['firestore', 'sqlite']).optional(),
+  SQLITE_PATH: z.string().optional(),
+
   // Perplexity API (optional - news aggregation)
   RISE_UP_PERPLEXITY: z.string().min(1).optional(),
 
@@ -32,6 +36,15 @@ const baseEnvSchema = z.object({
   // Telegram Bot API (optional - alternative to User API)
   TELEGRAM_BOT_TOKEN: z.string().optional(),
 
+  // Telegram reader bot (optional - /latest, /map, /report over a webhook)
+  // Its own bot: Telegram stops getUpdates polling for a bot with a webhook
+  TELEGRAM_READER_BOT_TOKEN: z.string().optional(),
+  TELEGRAM_WEBHOOK_SECRET: z.string().regex(/^[A-Za-z0-9_-]{1,256}$/, 'Letters, digits, _ and - only').optional(),
+
+  // RSS/Atom feeds (optional - comma-separated URLs or "Name|URL" entries)
+  RSS_FEEDS: z.string().optional(),
+  RSS_ENABLED: z.enum(['true', 'false']).optional(),
+
   // Twitter/Apify (optional - Twitter scraping)
   APIFY_API_TOKEN: z.string().optional(),
 
@@ -62,6 +75,27 @@ const baseEnvSchema = z.object({
   NEXT_PUBLIC_ALGOLIA_APP_ID: z.string().optional(),
   NEXT_PUBLIC_ALGOLIA_SEARCH_KEY: z.string().optional(),
 
+  // Verification scoring model (optional - see lib/verification-model.ts)
+  VERIFICATION_MODEL_VERSION: z.string().optional(),
+  REPUTATION_HALF_LIFE_DAYS: z.string().regex(/^\d+(\.\d+)?$/, 'Must be a number of days').optional(),
+
+  // Connectivity history (a persistent SQLite file; defaults to data/connectivity.db with
+  // STORAGE_BACKEND=sqlite, otherwise the store is unavailable without it)
+  CONNECTIVITY_DB_PATH: z.string().optional(),
+
+  // Media from source posts (optional - disk under MEDIA_DIR, default data/media, or an S3-compatible bucket;
+  // without either, media is not downloaded)
+  MEDIA_STORE: z.enum(['disk', 's3']).optional(),
+  MEDIA_DIR: z.string().optional(),
+  MEDIA_S3_ENDPOINT: z.string().url().optional(),
+  MEDIA_S3_BUCKET: z.string().optional(),
+  MEDIA_S3_REGION: z.string().optional(),
+  MEDIA_S3_ACCESS_KEY_ID: z.string().optional(),
+  MEDIA_S3_SECRET_ACCESS_KEY: z.string().optional(),
+
+  // OONI watchlist (optional - comma-separated app tests or "Name|domain" entries)
+  OONI_WATCHLIST: z.string().optional(),
+
   // Admin (optional)
   ADMIN_SECRET: z.string().min(16).optional(),
 
@@ -140,6 +174,22 @@ const EnvSchema = baseEnvSchema
       message: 'Algolia: API keys required when app ID is set',
       path: ['ALGOLIA_APP_ID'],
     }
+  )
+  .refine(
+    (data) => {
+      // S3 media store: endpoint, bucket and credentials are all required
+      if (data.MEDIA_STORE !== 's3') return true;
+      return [
+        data.MEDIA_S3_ENDPOINT,
+        data.MEDIA_S3_BUCKET,
+        data.MEDIA_S3_ACCESS_KEY_ID,
+        data.MEDIA_S3_SECRET_ACCESS_KEY,
+      ].every((v) => v !== undefined);
+    },
+    {
+      message: 'Media: MEDIA_STORE=s3 requires MEDIA_S3_ENDPOINT, MEDIA_S3_BUCKET, MEDIA_S3_ACCESS_KEY_ID and MEDIA_S3_SECRET_ACCESS_KEY',
+      path: ['MEDIA_STORE'],
+    }
   );
 
 // Type for validated environment
@@ -217,6 +267,11 @@ export const serviceAvailability = {
     return !!env.TELEGRAM_BOT_TOKEN;
   },
 
+  telegramReaderBot: () => {
+    const env = getEnv();
+    return !!(env.TELEGRAM_READER_BOT_TOKEN && env.TELEGRAM_WEBHOOK_SECRET);
+  },
+
   perplexity: () => {
     const env = getEnv();
     return !!env.RISE_UP_PERPLEXITY;
@@ -256,6 +311,7 @@ export function getServiceStatus(): Record<string, boolean> {
     firebase: serviceAvailability.firebase(),
     telegramUserApi: serviceAvailability.telegramUserApi(),
     telegramBotApi: serviceAvailability.telegramBotApi(),
+    telegramReaderBot: serviceAvailability.telegramReaderBot(),
     perplexity: serviceAvailability.perplexity(),
     redis: serviceAvailability.redis(),
     googleTranslation: serviceAvailability.googleTranslation(),
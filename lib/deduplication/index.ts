@@ -3,4 +3,4 @@
  * Exports optimized deduplication algorithms
  */
 
-export { LSHIndex, createLSHIndex } from './lsh-index';
+export { LSHIndex, createLSHIndex, type LSHEntry } from './lsh-index';
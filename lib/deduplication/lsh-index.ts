@@ -4,15 +4,15 @@
  * Uses LSH banding technique to create buckets for fast similarity search
  */
 
-interface Article {
+export interface LSHEntry {
   id: string;
   minHash: number[];
   title?: string;
   contentHash?: string;
 }
 
-export class LSHIndex {
-  private buckets = new Map<string, Article[]>();
+export class LSHIndex<T extends LSHEntry = LSHEntry> {
+  private buckets = new Map<string, T[]>();
   private numBands: number = 5; // Number of LSH bands
   private rowsPerBand: number = 26; // 128 hashes / 5 bands ≈ 26 rows/band
   private threshold: number;
@@ -34,7 +34,7 @@ export class LSHIndex {
   /**
    * Add article to LSH index
    */
-  add(article: Article) {
+  add(article: T) {
     const bucketKeys = this.getBucketKeys(article.minHash);
     bucketKeys.forEach(key => {
       const bucket = this.buckets.get(key) || [];
@@ -47,9 +47,9 @@ export class LSHIndex {
    * Find similar articles above threshold
    * Returns articles with Jaccard similarity >= threshold
    */
-  findSimilar(article: Article, threshold: number = this.threshold): Article[] {
+  findSimilar(article: LSHEntry, threshold: number = this.threshold): T[] {
     const bucketKeys = this.getBucketKeys(article.minHash);
-    const candidateMap = new Map<string, Article>();
+    const candidateMap = new Map<string, T>();
 
     // Collect candidates from all matching buckets
     bucketKeys.forEach(key => {
@@ -64,7 +64,7 @@ export class LSHIndex {
     });
 
     // Filter by actual similarity
-    const similar: Article[] = [];
+    const similar: T[] = [];
     for (const candidate of candidateMap.values()) {
       // Skip self-comparison
       const candidateKey = candidate.id || candidate.contentHash;
@@ -87,7 +87,7 @@ export class LSHIndex {
   /**
    * Check if article is a duplicate (has similar articles)
    */
-  isDuplicate(article: Article, threshold: number = this.threshold): boolean {
+  isDuplicate(article: LSHEntry, threshold: number = this.threshold): boolean {
     const similar = this.findSimilar(article, threshold);
     return similar.length > 0;
   }
@@ -153,8 +153,8 @@ export class LSHIndex {
 /**
  * Helper function to create LSH index from articles
  */
-export function createLSHIndex(articles: Article[], threshold: number = 0.8): LSHIndex {
-  const index = new LSHIndex(5, threshold);
+export function createLSHIndex<T extends LSHEntry>(articles: T[], threshold: number = 0.8): LSHIndex<T> {
+  const index = new LSHIndex<T>(5, threshold);
   articles.forEach(article => index.add(article));
   return index;
 }
@@ -1,5 +1,5 @@
 
-import { Incident } from './firestore';
+import { Incident } from './domain/incident';
 import { logger } from './logger';
 
 export interface CoordinationGroup {
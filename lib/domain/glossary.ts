@@ -0,0 +1,146 @@
+/**
+ * Protest-domain translation glossary
+ * Terms machine translation gets wrong: slogans, security forces, prisons and the
+ * names of victims. A term's `fa` and `en` forms (and their aliases) are swapped
+ * for each other on every translation tier; terms edited through
+ * /api/admin/glossary override these built-ins by `id`.
+ */
+
+export const GLOSSARY_KINDS = [
+  'slogan',
+  'security_force',
+  'prison',
+  'person',
+  'place',
+  'organization',
+  'term',
+] as const;
+
+export type GlossaryKind = typeof GLOSSARY_KINDS[number];
+
+export interface BuiltInGlossaryTerm {
+  id: string;
+  fa: string;
+  en: string;
+  kind: GlossaryKind;
+  faAliases?: string[]; // Other Persian spellings, translated to `en`
+  enAliases?: string[]; // Other English spellings, translated to `fa`
+}
+
+export const DEFAULT_GLOSSARY: BuiltInGlossaryTerm[] = [
+  // Slogans
+  { id: 'woman-life-freedom', fa: 'زن زندگی آزادی', en: 'Woman, Life, Freedom', kind: 'slogan', faAliases: ['زن، زندگی، آزادی'], enAliases: ['Women, Life, Freedom'] },
+  { id: 'jin-jiyan-azadi', fa: 'ژن ژیان ئازادی', en: 'Jin, Jiyan, Azadî', kind: 'slogan', enAliases: ['Jin Jiyan Azadi'] },
+  { id: 'man-homeland-prosperity', fa: 'مرد میهن آبادی', en: 'Man, Homeland, Prosperity', kind: 'slogan', faAliases: ['مرد، میهن، آبادی'] },
+  { id: 'death-to-the-dictator', fa: 'مرگ بر دیکتاتور', en: 'Death to the dictator', kind: 'slogan' },
+
+  // Security forces
+  { id: 'irgc', fa: 'سپاه پاسداران', en: 'IRGC', kind: 'security_force', faAliases: ['سپاه پاسداران انقلاب اسلامی'], enAliases: ['Revolutionary Guards', 'Islamic Revolutionary Guard Corps'] },
+  { id: 'irgc-intelligence', fa: 'سازمان اطلاعات سپاه', en: 'IRGC Intelligence Organization', kind: 'security_force' },
+  { id: 'basij', fa: 'بسیج', en: 'Basij', kind: 'security_force', faAliases: ['نیروی مقاومت بسیج'] },
+  { id: 'basiji', fa: 'بسیجی', en: 'Basiji', kind: 'security_force', faAliases: ['بسیجیان', 'بسیجی‌ها'], enAliases: ['Basijis'] },
+  { id: 'faraja', fa: 'فراجا', en: 'FARAJA', kind: 'security_force', faAliases: ['ناجا', 'فرماندهی انتظامی'], enAliases: ['NAJA'] },
+  { id: 'special-units', fa: 'یگان ویژه', en: 'Special Units', kind: 'security_force' },
+  { id: 'nopo', fa: 'نوپو', en: 'NOPO', kind: 'security_force' },
+  { id: 'plainclothes', fa: 'لباس شخصی', en: 'plainclothes agents', kind: 'security_force', faAliases: ['لباس‌شخصی', 'لباس شخصی‌ها', 'لباس‌شخصی‌ها'] },
+  { id: 'morality-police', fa: 'گشت ارشاد', en: 'morality police', kind: 'security_force' },
+  { id: 'intelligence-ministry', fa: 'وزارت اطلاعات', en: 'Ministry of Intelligence', kind: 'security_force' },
+
+  // Prisons
+  { id: 'evin', fa: 'زندان اوین', en: 'Evin Prison', kind: 'prison' },
+  { id: 'ghezel-hesar', fa: 'زندان قزلحصار', en: 'Ghezel Hesar Prison', kind: 'prison', faAliases: ['زندان قزل‌حصار', 'زندان قزل حصار'], enAliases: ['Qezel Hesar Prison'] },
+  { id: 'fashafouyeh', fa: 'زندان فشافویه', en: 'Greater Tehran Prison (Fashafouyeh)', kind: 'prison', faAliases: ['زندان تهران بزرگ'], enAliases: ['Fashafouyeh Prison', 'Greater Tehran Prison'] },
+  { id: 'qarchak', fa: 'زندان قرچک', en: 'Qarchak Prison', kind: 'prison' },
+  { id: 'rajaei-shahr', fa: 'زندان رجایی‌شهر', en: 'Rajaei Shahr Prison', kind: 'prison', faAliases: ['زندان رجایی شهر'], enAliases: ['Gohardasht Prison'] },
+  { id: 'adelabad', fa: 'زندان عادل‌آباد', en: 'Adelabad Prison', kind: 'prison', faAliases: ['زندان عادل آباد'] },
+  { id: 'vakilabad', fa: 'زندان وکیل‌آباد', en: 'Vakilabad Prison', kind: 'prison', faAliases: ['زندان وکیل آباد'] },
+  { id: 'kahrizak', fa: 'بازداشتگاه کهریزک', en: 'Kahrizak detention center', kind: 'prison' },
+
+  // Victims
+  { id: 'mahsa-amini', fa: 'مهسا امینی', en: 'Mahsa Amini', kind: 'person', faAliases: ['ژینا امینی', 'مهسا (ژینا) امینی'], enAliases: ['Jina Amini'] },
+  { id: 'nika-shakarami', fa: 'نیکا شاکرمی', en: 'Nika Shakarami', kind: 'person' },
+  { id: 'hadis-najafi', fa: 'حدیث نجفی', en: 'Hadis Najafi', kind: 'person' },
+  { id: 'sarina-esmailzadeh', fa: 'سارینا اسماعیل‌زاده', en: 'Sarina Esmailzadeh', kind: 'person', faAliases: ['سارینا اسماعیل زاده'] },
+  { id: 'kian-pirfalak', fa: 'کیان پیرفلک', en: 'Kian Pirfalak', kind: 'person' },
+  { id: 'mohsen-shekari', fa: 'محسن شکاری', en: 'Mohsen Shekari', kind: 'person' },
+  { id: 'majidreza-rahnavard', fa: 'مجیدرضا رهنورد', en: 'Majidreza Rahnavard', kind: 'person', faAliases: ['مجید رضا رهنورد'] },
+  { id: 'navid-afkari', fa: 'نوید افکاری', en: 'Navid Afkari', kind: 'person' },
+  { id: 'khodanur-lojei', fa: 'خدانور لجه‌ای', en: 'Khodanur Lojei', kind: 'person', faAliases: ['خدانور لجه ای'] },
+
+  // Places and events
+  { id: 'zahedan-bloody-friday', fa: 'جمعه خونین زاهدان', en: 'Zahedan Bloody Friday', kind: 'place' },
+
+  // Institutions
+  { id: 'islamic-republic', fa: 'جمهوری اسلامی', en: 'Islamic Republic', kind: 'organization' },
+  { id: 'revolutionary-court', fa: 'دادگاه انقلاب', en: 'Revolutionary Court', kind: 'organization' },
+];
+
+// Words that introduce a victim's full name in protest reporting ("جاویدنام نیکا شاکرمی")
+export const NAME_HONORIFICS = ['جاویدنام', 'زنده‌یاد', 'زنده یاد'];
+
+const LETTERS: Record<string, string> = {
+  'آ': 'a', 'ا': 'a', 'أ': 'a', 'إ': 'e', 'ب': 'b', 'پ': 'p', 'ت': 't', 'ث': 's', 'ج': 'j', 'چ': 'ch',
+  'ح': 'h', 'خ': 'kh', 'د': 'd', 'ذ': 'z', 'ر': 'r', 'ز': 'z', 'ژ': 'zh', 'س': 's', 'ش': 'sh',
+  'ص': 's', 'ض': 'z', 'ط': 't', 'ظ': 'z', 'ع': '', 'غ': 'gh', 'ف': 'f', 'ق': 'gh', 'ک': 'k',
+  'ك': 'k', 'گ': 'g', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ء': '', 'ئ': 'e', 'ؤ': 'o', 'ة': 'e',
+};
+
+function isConsonant(sound: string): boolean {
+  return sound !== '' && !/^[aeiou]/.test(sound);
+}
+
+/**
+ * Romanize one Persian name word
+ * Persian does not write short vowels, so the rules can only approximate them:
+ * - و is "v" at the start of a word or after a vowel, "u" elsewhere (and "o" when final)
+ * - ی is "y" at the start of a word or after a vowel, "i" elsewhere
+ * - a final ه after a consonant is "eh" (Fereshteh), otherwise "h"
+ * - every other pair of adjacent consonants gets an "a" between them
+ *   (مهسا → Mahsa, وحید → Vahid, but نجفی → Najfi); curated spellings belong in the glossary
+ */
+function transliterateWord(word: string): string {
+  const letters = [...word.replace(/\u200c/g, '')];
+  let result = '';
+  let previous = ''; // Sound of the previous audible letter
+  let inserted = false;
+
+  letters.forEach((letter, i) => {
+    const first = i === 0;
+    const last = i === letters.length - 1;
+    const afterVowel = /[aeiou]$/.test(previous);
+
+    let sound: string;
+    if (letter === 'و') {
+      sound = first || afterVowel ? 'v' : last ? 'o' : 'u';
+    } else if (letter === 'ی' || letter === 'ي') {
+      sound = first || afterVowel ? 'y' : 'i';
+    } else if (letter === 'ه') {
+      sound = last && isConsonant(previous) ? 'eh' : 'h';
+    } else {
+      sound = LETTERS[letter] ?? '';
+    }
+
+    if (isConsonant(sound) && isConsonant(previous)) {
+      if (!inserted) result += 'a';
+      inserted = !inserted;
+    } else if (sound) {
+      inserted = false;
+    }
+
+    result += sound;
+    if (sound) previous = sound;
+  });
+
+  return result.charAt(0).toUpperCase() + result.slice(1);
+}
+
+/**
+ * Romanize a Persian personal name word by word
+ */
+export function transliterateName(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(transliterateWord)
+    .join(' ');
+}
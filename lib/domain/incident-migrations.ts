@@ -0,0 +1,156 @@
+/**
+ * Incident schema migrations
+ * Upgrades stored incident documents to INCIDENT_SCHEMA_VERSION.
+ *
+ * Repositories call `upgradeIncident` on read, so older documents are served in
+ * the current shape immediately; `runIncidentMigrations` rewrites them in storage
+ * (see scripts/migrate-incidents.ts). Reads also turn Firestore Timestamps into
+ * epoch millis whatever the version: early version 2 documents were written
+ * with a server-timestamp createdAt.
+ */
+
+import { Incident, IncidentSchema, INCIDENT_SCHEMA_VERSION, INCIDENT_TYPES } from './incident';
+import { toMillis } from './time';
+import { logger } from '@/lib/logger';
+
+type IncidentDocument = Record<string, any>;
+
+interface IncidentMigration {
+  version: number; // Version the document has after this migration
+  description: string;
+  up: (doc: IncidentDocument) => IncidentDocument;
+}
+
+/**
+ * Ordered list; each entry upgrades from `version - 1`
+ */
+const MIGRATIONS: IncidentMigration[] = [
+  {
+    version: 2,
+    description: 'Nest flat latitude/longitude into location, store times as epoch millis, fill required defaults',
+    up: (doc) => {
+      const { latitude, longitude, ...rest } = doc;
+      const location = doc.location ?? {};
+      const lat = location.lat ?? latitude;
+      const lon = location.lon ?? location.lng ?? longitude;
+      const { lng: _lng, ...cleanLocation } = location;
+
+      return {
+        ...rest,
+        type: INCIDENT_TYPES.includes(doc.type) ? doc.type : 'other',
+        location: { ...cleanLocation, lat: Number(lat), lon: Number(lon) },
+        verified: doc.verified ?? false,
+        reportedBy: doc.reportedBy ?? 'crowdsource',
+        upvotes: doc.upvotes ?? 0,
+        timestamp: toMillis(doc.timestamp) ?? toMillis(doc.createdAt) ?? 0,
+        createdAt: toMillis(doc.createdAt) ?? toMillis(doc.timestamp) ?? 0,
+      };
+    },
+  },
+];
+
+/**
+ * Documents written before versioning have no schemaVersion and count as version 1
+ */
+export function getIncidentSchemaVersion(doc: IncidentDocument): number {
+  return typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 1;
+}
+
+/**
+ * Apply every pending migration to a stored document (pure; does not validate)
+ */
+export function migrateIncidentDocument(doc: IncidentDocument): IncidentDocument {
+  const fromVersion = getIncidentSchemaVersion(doc);
+  if (fromVersion >= INCIDENT_SCHEMA_VERSION) return doc;
+
+  let migrated = doc;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      migrated = { ...migration.up(migrated), schemaVersion: migration.version };
+    }
+  }
+  return migrated;
+}
+
+/**
+ * Bring a document read from storage to the current Incident shape
+ */
+export function upgradeIncident(doc: IncidentDocument): Incident {
+  const migrated = migrateIncidentDocument(doc);
+  if (typeof migrated.createdAt === 'number' && typeof migrated.timestamp === 'number') {
+    return migrated as Incident;
+  }
+
+  return {
+    ...migrated,
+    timestamp: toMillis(migrated.timestamp) ?? toMillis(migrated.createdAt) ?? 0,
+    createdAt: toMillis(migrated.createdAt) ?? toMillis(migrated.timestamp) ?? 0,
+  } as Incident;
+}
+
+//=============================================================================
+// RUNNER
+//=============================================================================
+
+export interface IncidentDocumentStore {
+  pages(): AsyncIterable<IncidentDocument[]>; // Documents including their `id`
+  write(docs: IncidentDocument[]): Promise<void>;
+}
+
+export interface IncidentMigrationReport {
+  scanned: number;
+  upgraded: number;
+  byVersion: Record<number, number>; // Stored schema version -> document count
+  invalid: Array<{ id: string; issues: string[] }>; // Upgraded but still failing IncidentSchema (not written)
+}
+
+/**
+ * Upgrade every stored document below the current version
+ * Documents that still fail IncidentSchema after migrating are reported and left untouched.
+ */
+export async function runIncidentMigrations(
+  store: IncidentDocumentStore,
+  options: { dryRun?: boolean } = {}
+): Promise<IncidentMigrationReport> {
+  const report: IncidentMigrationReport = { scanned: 0, upgraded: 0, byVersion: {}, invalid: [] };
+
+  for await (const page of store.pages()) {
+    const upgrades: IncidentDocument[] = [];
+
+    for (const doc of page) {
+      report.scanned++;
+      const version = getIncidentSchemaVersion(doc);
+      report.byVersion[version] = (report.byVersion[version] || 0) + 1;
+
+      if (version >= INCIDENT_SCHEMA_VERSION) continue;
+
+      const migrated = migrateIncidentDocument(doc);
+      const validation = IncidentSchema.safeParse(migrated);
+
+      if (!validation.success) {
+        report.invalid.push({
+          id: doc.id,
+          issues: validation.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`),
+        });
+        continue;
+      }
+
+      upgrades.push(migrated);
+    }
+
+    if (upgrades.length > 0 && !options.dryRun) {
+      await store.write(upgrades);
+    }
+    report.upgraded += upgrades.length;
+  }
+
+  logger.info('incident_migrations_complete', {
+    target_version: INCIDENT_SCHEMA_VERSION,
+    scanned: report.scanned,
+    upgraded: report.upgraded,
+    invalid: report.invalid.length,
+    dry_run: options.dryRun ?? false,
+  });
+
+  return report;
+}
@@ -0,0 +1,119 @@
+/**
+ * Incident domain model
+ * The single definition of an incident, shared by storage, the API, the map
+ * components and the verification engine.
+ *
+ * Stored documents carry `schemaVersion`; documents written before versioning
+ * count as version 1 and are upgraded by `incident-migrations.ts`.
+ * When adding a field: add it here, bump INCIDENT_SCHEMA_VERSION if stored
+ * documents need rewriting, and add a migration.
+ */
+
+import { z } from 'zod';
+
+export const INCIDENT_SCHEMA_VERSION = 2;
+
+export const INCIDENT_TYPES = ['protest', 'arrest', 'injury', 'death', 'other'] as const;
+export const INCIDENT_REPORTERS = ['crowdsource', 'official'] as const;
+export const EMBED_TYPES = ['twitter', 'telegram', 'image', 'video'] as const;
+
+export const IncidentTypeSchema = z.enum(INCIDENT_TYPES, {
+  message: `Type must be one of: ${INCIDENT_TYPES.join(', ')}`,
+});
+
+export const EmbedTypeSchema = z.enum(EMBED_TYPES, {
+  message: `Embed type must be one of: ${EMBED_TYPES.join(', ')}`,
+});
+
+export const IncidentLocationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  address: z.string().optional(),
+});
+
+/**
+ * Which signals matched when VerificationEngine corroborated a report
+ */
+export const VerificationFactorsSchema = z.object({
+  locationMatch: z.boolean(),
+  timeMatch: z.boolean(),
+  mediaMatch: z.boolean(),
+});
+
+/**
+ * How one rule of the verification model moved the score (see lib/verification-model.ts)
+ */
+export const VerificationRuleResultSchema = z.object({
+  ruleId: z.string(),
+  kind: z.string(),
+  description: z.string(),
+  combine: z.enum(['add', 'max']),
+  value: z.number(), // The rule's own score before combining
+  contribution: z.number(), // Change to the running total
+  matchedIds: z.array(z.string()),
+  details: z.record(z.string(), z.union([z.number(), z.string(), z.boolean()])),
+});
+
+export const RelatedArticleSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  source: z.string(),
+  sourceKey: z.string().optional(), // Channel/account (see source-key.ts)
+});
+
+/**
+ * Shape of a stored incident (current schema version)
+ */
+export const IncidentSchema = z.object({
+  id: z.string(),
+  schemaVersion: z.number().int().positive(),
+  type: IncidentTypeSchema,
+  title: z.string(),
+  description: z.string(),
+  location: IncidentLocationSchema,
+  images: z.array(z.string()).optional(),
+  verified: z.boolean(),
+  reportedBy: z.enum(INCIDENT_REPORTERS),
+  timestamp: z.number(),
+  upvotes: z.number(),
+  createdAt: z.number(),
+  confidence: z.number().min(0).max(100).optional(), // For auto-extracted incidents (0-100)
+  keywords: z.array(z.string()).optional(), // Extraction keywords for debugging
+  relatedArticles: z.array(RelatedArticleSchema).optional(),
+  articleIds: z.array(z.string()).optional(), // Stored articles this incident was extracted from
+
+  // Corroboration (written by ArticleVerifier)
+  verificationScore: z.number().min(0).max(100).optional(),
+  corroboratedBy: z.array(z.string()).optional(), // IDs of other incidents that corroborate this one
+  verificationFactors: VerificationFactorsSchema.optional(),
+  verificationBreakdown: z.array(VerificationRuleResultSchema).optional(),
+  verificationModelVersion: z.string().optional(),
+  verifiedAt: z.number().optional(),
+
+  // Moderation (reviewed incidents feed the source reputation ledger)
+  debunked: z.boolean().optional(),
+  reviewedAt: z.number().optional(),
+  coordinationFlaggedAt: z.number().optional(), // First flagged by DisinformationDetector
+
+  // Media embedding
+  twitterUrl: z.string().optional(),   // Primary Twitter post URL
+  telegramUrl: z.string().optional(),  // Telegram post URL (channel/post_id)
+  alternateUrl: z.string().optional(), // Alternate angle/view
+  mediaUrls: z.array(z.string()).optional(), // Direct image/video URLs
+  mediaIds: z.array(z.string()).optional(), // Stored media of the source article (lib/domain/media.ts)
+  imageHash: z.string().optional(),    // Perceptual hash of the primary image
+  embedType: EmbedTypeSchema.optional(),
+  tags: z.array(z.string()).optional(), // User-friendly tags (e.g., ["Gunfire", "Deaths"])
+});
+
+export type Incident = z.infer<typeof IncidentSchema>;
+export type IncidentType = Incident['type'];
+export type IncidentLocation = Incident['location'];
+export type EmbedType = NonNullable<Incident['embedType']>;
+export type VerificationFactors = z.infer<typeof VerificationFactorsSchema>;
+export type VerificationRuleResult = z.infer<typeof VerificationRuleResultSchema>;
+
+/**
+ * An incident before storage assigns its id, createdAt and schemaVersion
+ */
+export type NewIncident = Omit<Incident, 'id' | 'createdAt' | 'schemaVersion'>;
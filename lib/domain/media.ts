@@ -0,0 +1,44 @@
+/**
+ * Media attached to source posts
+ * Sources download attachments while the post is still reachable; MediaLibrary
+ * stores them under a content-derived ID, so the same photo reposted by several
+ * channels is stored once and articles/incidents keep a link that outlives the post.
+ */
+
+export const MEDIA_KINDS = ['photo', 'video_thumbnail', 'document'] as const;
+
+export type MediaKind = typeof MEDIA_KINDS[number];
+
+// Larger documents and full videos are skipped (the Bot API cannot download over 20 MB either)
+export const MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+
+/**
+ * An attachment downloaded from a post, before it is stored
+ */
+export interface DownloadedMedia {
+  kind: MediaKind;
+  mimeType: string;
+  fileName?: string;
+  data: Buffer;
+}
+
+/**
+ * Media IDs are the first 32 hex characters of the SHA-256 of the content
+ */
+export function isMediaId(id: string): boolean {
+  return /^[a-f0-9]{32}$/.test(id);
+}
+
+/**
+ * Public URL of a stored media item (served by /api/media/[id])
+ */
+export function mediaUrl(id: string): string {
+  return `/api/media/${id}`;
+}
+
+/**
+ * Photos, thumbnails and image documents get a perceptual hash
+ */
+export function isImageMedia(media: Pick<DownloadedMedia, 'kind' | 'mimeType'>): boolean {
+  return media.kind !== 'document' || media.mimeType.startsWith('image/');
+}
@@ -0,0 +1,120 @@
+/**
+ * Iran's provinces
+ * `id` is the stable key used in connectivity series, outage events and
+ * subscription preferences; the location is the provincial capital.
+ */
+
+export interface Province {
+  id: string;
+  name: string;
+  nameFa: string;
+  capital: string;
+  lat: number;
+  lon: number;
+  aliases?: string[]; // Other spellings (IODA, geocoders)
+}
+
+export const IRAN_PROVINCES: Province[] = [
+  { id: 'alborz', name: 'Alborz', nameFa: 'البرز', capital: 'Karaj', lat: 35.8400, lon: 50.9391 },
+  { id: 'ardabil', name: 'Ardabil', nameFa: 'اردبیل', capital: 'Ardabil', lat: 38.2498, lon: 48.2933, aliases: ['Ardebil'] },
+  { id: 'bushehr', name: 'Bushehr', nameFa: 'بوشهر', capital: 'Bushehr', lat: 28.9234, lon: 50.8203 },
+  { id: 'chaharmahal-bakhtiari', name: 'Chaharmahal and Bakhtiari', nameFa: 'چهارمحال و بختیاری', capital: 'Shahrekord', lat: 32.3256, lon: 50.8644, aliases: ['Chahar Mahall and Bakhtiari', 'Chaharmahal va Bakhtiari'] },
+  { id: 'east-azerbaijan', name: 'East Azerbaijan', nameFa: 'آذربایجان شرقی', capital: 'Tabriz', lat: 38.0800, lon: 46.2919, aliases: ['East Azarbaijan', 'Azarbayjan-e Sharqi', 'Azerbaijan, East'] },
+  { id: 'fars', name: 'Fars', nameFa: 'فارس', capital: 'Shiraz', lat: 29.5918, lon: 52.5837 },
+  { id: 'gilan', name: 'Gilan', nameFa: 'گیلان', capital: 'Rasht', lat: 37.2808, lon: 49.5832, aliases: ['Guilan'] },
+  { id: 'golestan', name: 'Golestan', nameFa: 'گلستان', capital: 'Gorgan', lat: 36.8427, lon: 54.4439 },
+  { id: 'hamadan', name: 'Hamadan', nameFa: 'همدان', capital: 'Hamadan', lat: 34.7990, lon: 48.5150, aliases: ['Hamedan'] },
+  { id: 'hormozgan', name: 'Hormozgan', nameFa: 'هرمزگان', capital: 'Bandar Abbas', lat: 27.1832, lon: 56.2666 },
+  { id: 'ilam', name: 'Ilam', nameFa: 'ایلام', capital: 'Ilam', lat: 33.6374, lon: 46.4227 },
+  { id: 'isfahan', name: 'Isfahan', nameFa: 'اصفهان', capital: 'Isfahan', lat: 32.6546, lon: 51.6680, aliases: ['Esfahan'] },
+  { id: 'kerman', name: 'Kerman', nameFa: 'کرمان', capital: 'Kerman', lat: 30.2839, lon: 57.0834 },
+  { id: 'kermanshah', name: 'Kermanshah', nameFa: 'کرمانشاه', capital: 'Kermanshah', lat: 34.3142, lon: 47.0650 },
+  { id: 'khuzestan', name: 'Khuzestan', nameFa: 'خوزستان', capital: 'Ahvaz', lat: 31.3183, lon: 48.6706 },
+  { id: 'kohgiluyeh-boyer-ahmad', name: 'Kohgiluyeh and Boyer-Ahmad', nameFa: 'کهگیلویه و بویراحمد', capital: 'Yasuj', lat: 30.6682, lon: 51.5880, aliases: ['Kohgiluyeh and Buyer Ahmad', 'Kohkiluyeh and Buyer Ahmad'] },
+  { id: 'kurdistan', name: 'Kurdistan', nameFa: 'کردستان', capital: 'Sanandaj', lat: 35.3140, lon: 46.9988, aliases: ['Kordestan'] },
+  { id: 'lorestan', name: 'Lorestan', nameFa: 'لرستان', capital: 'Khorramabad', lat: 33.4878, lon: 48.3558 },
+  { id: 'markazi', name: 'Markazi', nameFa: 'مرکزی', capital: 'Arak', lat: 34.0917, lon: 49.6892 },
+  { id: 'mazandaran', name: 'Mazandaran', nameFa: 'مازندران', capital: 'Sari', lat: 36.5633, lon: 53.0601 },
+  { id: 'north-khorasan', name: 'North Khorasan', nameFa: 'خراسان شمالی', capital: 'Bojnurd', lat: 37.4747, lon: 57.3290, aliases: ['Khorasan-e Shemali'] },
+  { id: 'qazvin', name: 'Qazvin', nameFa: 'قزوین', capital: 'Qazvin', lat: 36.2688, lon: 50.0041 },
+  { id: 'qom', name: 'Qom', nameFa: 'قم', capital: 'Qom', lat: 34.6399, lon: 50.8759 },
+  { id: 'razavi-khorasan', name: 'Razavi Khorasan', nameFa: 'خراسان رضوی', capital: 'Mashhad', lat: 36.2972, lon: 59.6067, aliases: ['Khorasan-e Razavi', 'Khorasan Razavi'] },
+  { id: 'semnan', name: 'Semnan', nameFa: 'سمنان', capital: 'Semnan', lat: 35.5769, lon: 53.3953 },
+  { id: 'sistan-baluchestan', name: 'Sistan and Baluchestan', nameFa: 'سیستان و بلوچستان', capital: 'Zahedan', lat: 29.4963, lon: 60.8629, aliases: ['Sistan and Baluchistan', 'Sistan va Baluchestan'] },
+  { id: 'south-khorasan', name: 'South Khorasan', nameFa: 'خراسان جنوبی', capital: 'Birjand', lat: 32.8663, lon: 59.2211, aliases: ['Khorasan-e Jonubi'] },
+  { id: 'tehran', name: 'Tehran', nameFa: 'تهران', capital: 'Tehran', lat: 35.6892, lon: 51.3890 },
+  { id: 'west-azerbaijan', name: 'West Azerbaijan', nameFa: 'آذربایجان غربی', capital: 'Urmia', lat: 37.5527, lon: 45.0761, aliases: ['West Azarbaijan', 'Azarbayjan-e Gharbi', 'Azerbaijan, West'] },
+  { id: 'yazd', name: 'Yazd', nameFa: 'یزد', capital: 'Yazd', lat: 31.8974, lon: 54.3569 },
+  { id: 'zanjan', name: 'Zanjan', nameFa: 'زنجان', capital: 'Zanjan', lat: 36.6736, lon: 48.4787 },
+];
+
+const normalize = (name: string) => name.toLowerCase().replace(/\bprovince\b/g, '').replace(/[^a-z؀-ۿ]/g, '');
+
+const PROVINCES_BY_NAME = new Map<string, Province>(
+  IRAN_PROVINCES.flatMap(province =>
+    [province.id, province.name, province.nameFa, ...(province.aliases || [])].map(
+      name => [normalize(name), province] as [string, Province]
+    )
+  )
+);
+
+export function getProvince(id: string): Province | undefined {
+  return IRAN_PROVINCES.find(province => province.id === id);
+}
+
+/**
+ * Province by id, English or Persian name, or a known alternative spelling
+ */
+export function findProvince(name: string): Province | undefined {
+  return PROVINCES_BY_NAME.get(normalize(name));
+}
+
+/**
+ * Great-circle distance between two points
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => deg * (Math.PI / 180);
+  const a =
+    Math.sin(toRad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lon2 - lon1) / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Province whose capital is closest to a point (an approximation near borders)
+ */
+export function findNearestProvince(lat: number, lon: number, maxKm: number = 350): Province | undefined {
+  let nearest: Province | undefined;
+  let nearestKm = maxKm;
+
+  for (const province of IRAN_PROVINCES) {
+    const km = distanceKm(lat, lon, province.lat, province.lon);
+    if (km <= nearestKm) {
+      nearest = province;
+      nearestKm = km;
+    }
+  }
+
+  return nearest;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const PROVINCE_MENTIONS = IRAN_PROVINCES.map(province => ({
+  province,
+  pattern: new RegExp(
+    [province.name, province.capital, ...(province.aliases || [])]
+      .map(name => `\\b${escapeRegExp(name)}\\b`)
+      // Persian has no \b; "فارسی" (the language) must not match "فارس"
+      .concat(`(?<![؀-ۿ])${escapeRegExp(province.nameFa)}(?![؀-ۿ])`)
+      .join('|'),
+    'i'
+  ),
+}));
+
+/**
+ * Provinces named in a text, by province name, capital or Persian name
+ */
+export function findProvincesInText(text: string): Province[] {
+  return PROVINCE_MENTIONS.filter(({ pattern }) => pattern.test(text)).map(({ province }) => province);
+}
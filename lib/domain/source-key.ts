@@ -0,0 +1,92 @@
+/**
+ * Source keys
+ * A source is the channel, account or outlet that published something, e.g.
+ * `telegram:iranintl`, `twitter:shayan86`, `rss:bbc.com`. The same key is used
+ * for articles, the incidents extracted from them and the reputation ledger.
+ */
+
+import type { Incident } from './incident';
+
+export interface SourceKeyInput {
+  source: string;
+  sourceUrl?: string;
+  url?: string;
+  channelUsername?: string;
+  author?: { username?: string };
+}
+
+function normalize(value: string): string {
+  return value.trim().replace(/^@/, '').toLowerCase().replace(/\//g, '_');
+}
+
+/**
+ * Channel or account from a post URL (t.me/<channel>/<id>, x.com/<user>/status/<id>)
+ */
+function sourceKeyFromUrl(postUrl: string | undefined): string | undefined {
+  if (!postUrl) return undefined;
+
+  let url: URL;
+  try {
+    url = new URL(postUrl);
+  } catch {
+    return undefined;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (host === 't.me' || host === 'telegram.me') {
+    const channel = segments[0] === 's' ? segments[1] : segments[0];
+    return channel && channel !== 'c' ? `telegram:${normalize(channel)}` : undefined;
+  }
+
+  if (['twitter.com', 'x.com', 'mobile.twitter.com'].includes(host)) {
+    return segments[0] && segments[1] === 'status' ? `twitter:${normalize(segments[0])}` : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Source key of an article: platform plus channel/account, else the platform alone
+ */
+export function getArticleSourceKey(article: SourceKeyInput): string {
+  const platform = normalize(article.source || 'unknown');
+  const account = article.channelUsername || article.author?.username;
+
+  if (account) {
+    return `${platform}:${normalize(account)}`;
+  }
+
+  return sourceKeyFromUrl(article.sourceUrl || article.url) ?? platform;
+}
+
+/**
+ * Sources behind an incident: the articles it was extracted from and its embedded posts.
+ * Reports with none of these are keyed by who reported them: `reporter:official`, or
+ * `reporter:crowdsource:<incident id>` since crowd reporters are deliberately not
+ * identified, and pooling them would let one bad report sink every crowd report.
+ */
+export function getIncidentSourceKeys(
+  incident: Pick<Incident, 'id' | 'reportedBy' | 'relatedArticles' | 'twitterUrl' | 'telegramUrl'>
+): string[] {
+  const keys = new Set<string>();
+
+  for (const related of incident.relatedArticles || []) {
+    const key = related.sourceKey ?? sourceKeyFromUrl(related.url);
+    if (key) keys.add(key);
+  }
+
+  for (const postUrl of [incident.twitterUrl, incident.telegramUrl]) {
+    const key = sourceKeyFromUrl(postUrl);
+    if (key) keys.add(key);
+  }
+
+  if (keys.size === 0) {
+    keys.add(incident.reportedBy === 'crowdsource'
+      ? `reporter:crowdsource:${incident.id}`
+      : `reporter:${incident.reportedBy}`);
+  }
+
+  return Array.from(keys);
+}
@@ -0,0 +1,22 @@
+/**
+ * Timestamps
+ * Stored times arrive as epoch millis, ISO strings (publishedAt from some sources)
+ * or Firestore Timestamps (documents written with a server-timestamp createdAt).
+ */
+
+/**
+ * Epoch millis for any stored time, or undefined when it is missing or unparseable
+ */
+export function toMillis(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    const time = new Date(value).getTime();
+    return Number.isFinite(time) ? time : undefined;
+  }
+  if (value && typeof (value as { toMillis?: unknown }).toMillis === 'function') {
+    return (value as { toMillis(): number }).toMillis();
+  }
+  return undefined;
+}
@@ -62,7 +62,7 @@ export class FirestoreBatchWriter {
         // Remove undefined values (Firestore doesn't accept them)
         const cleanedData = this.removeUndefined({
           ...data,
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          createdAt: data.createdAt ?? admin.firestore.FieldValue.serverTimestamp(),
         });
 
         batch.set(docRef, cleanedData, options || {});
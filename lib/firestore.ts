@@ -5,6 +5,19 @@
 
 import * as admin from 'firebase-admin';
 import { logger } from './logger';
+import type { DiffOp } from './text-diff';
+import {
+  INCIDENT_SCHEMA_VERSION,
+  type Incident,
+  type NewIncident,
+  type IncidentType,
+  type VerificationFactors,
+  type VerificationRuleResult,
+} from './domain/incident';
+import { upgradeIncident } from './domain/incident-migrations';
+import type { MediaKind } from './domain/media';
+import type { SupportedLanguage, TranslationTier, TranslatedSegment, GlossaryHit } from './translation-robust';
+import type { GlossaryKind } from './domain/glossary';
 
 // Initialize Firebase Admin SDK
 if (!admin.apps.length) {
@@ -67,6 +80,10 @@ export interface Article {
   verified?: boolean;
   verificationScore?: number;
   corroboratedBy?: string[]; // List of Incident IDs that corroborate this
+  verificationFactors?: VerificationFactors;
+  verificationBreakdown?: VerificationRuleResult[];
+  verificationModelVersion?: string; // Verification model that produced the score
+  verifiedAt?: number; // When ArticleVerifier last scored this article
   tags?: string[];
   contentHash: string;
   minHash: number[];
@@ -86,6 +103,13 @@ export interface Article {
   };
   channelName?: string;
   channelUsername?: string;
+  storyId?: string;
+  // Edit tracking
+  sourceId?: string; // Stable source identity: telegram:<channel>:<messageId>, twitter:<id> or url:<normalized URL>
+  editedAt?: number; // Edit time reported by the source, when known
+  revisionCount?: number; // Set once the article has been edited (revision 1 is the original)
+  updatedAt?: number; // When the latest revision was recorded
+  mediaIds?: string[]; // Stored media downloaded from the post (see MediaAsset)
 }
 
 /**
@@ -200,6 +224,40 @@ export async function getArticleByContentHash(contentHash: string): Promise<Arti
   } as Article;
 }
 
+/**
+ * Get articles by source identity (to detect re-fetched, edited posts)
+ */
+export async function getArticlesBySourceIds(sourceIds: string[]): Promise<Article[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const unique = Array.from(new Set(sourceIds));
+  const articles: Article[] = [];
+
+  // Firestore 'in' queries accept at most 30 values
+  for (let i = 0; i < unique.length; i += 30) {
+    const snapshot = await db
+      .collection('articles')
+      .where('sourceId', 'in', unique.slice(i, i + 30))
+      .get();
+
+    articles.push(...snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as Article[]);
+  }
+
+  return articles;
+}
+
+/**
+ * Update fields of an existing article (keeps id, publishedAt and createdAt)
+ */
+export async function updateArticle(id: string, updates: Partial<Article>): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('articles').doc(id).update(removeUndefined(updates));
+}
+
 /**
  * Get recent articles for deduplication check (last 24 hours)
  */
@@ -269,48 +327,18 @@ export async function deleteOldArticles(daysOld: number = 30): Promise<number> {
 // INCIDENTS COLLECTION
 //=============================================================================
 
-export interface Incident {
-  id: string;
-  type: 'protest' | 'arrest' | 'injury' | 'death' | 'other';
-  title: string;
-  description: string;
-  location: {
-    lat: number;
-    lon: number;
-    address?: string;
-  };
-  images?: string[];
-  verified: boolean;
-  reportedBy: 'crowdsource' | 'official';
-  timestamp: number;
-  upvotes: number;
-  createdAt: number;
-  confidence?: number; // For auto-extracted incidents (0-100)
-  keywords?: string[]; // Extraction keywords for debugging
-  relatedArticles?: Array<{
-    title: string;
-    url: string;
-    source: string;
-  }>;
-
-  // Media embedding support (Priority 2)
-  twitterUrl?: string;        // Primary Twitter post URL
-  telegramUrl?: string;       // Telegram post URL (channel/post_id)
-  alternateUrl?: string;      // Alternate angle/view
-  mediaUrls?: string[];       // Direct image/video URLs
-  embedType?: 'twitter' | 'telegram' | 'image' | 'video';
-  tags?: string[];            // User-friendly tags (e.g., ["Gunfire", "Deaths"])
-}
+export type { Incident, NewIncident } from './domain/incident';
 
 /**
  * Save an incident to Firestore
  */
-export async function saveIncident(incident: Omit<Incident, 'id' | 'createdAt'>): Promise<string> {
+export async function saveIncident(incident: NewIncident): Promise<string> {
   if (!db) throw new Error('Firestore not initialized');
 
   const docRef = await db.collection('incidents').add({
     ...incident,
-    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    schemaVersion: INCIDENT_SCHEMA_VERSION,
+    createdAt: Date.now(), // Epoch millis like every other incident time (IncidentSchema)
   });
 
   return docRef.id;
@@ -328,10 +356,10 @@ export async function getIncidents(): Promise<Incident[]> {
     .limit(500)
     .get();
 
-  return snapshot.docs.map((doc) => ({
+  return snapshot.docs.map((doc) => upgradeIncident({
     id: doc.id,
     ...doc.data(),
-  })) as Incident[];
+  }));
 }
 
 /**
@@ -344,10 +372,10 @@ export async function getIncidentById(id: string): Promise<Incident | null> {
 
   if (!doc.exists) return null;
 
-  return {
+  return upgradeIncident({
     id: doc.id,
     ...doc.data(),
-  } as Incident;
+  });
 }
 
 /**
@@ -373,8 +401,44 @@ export interface Subscription {
   userAgent?: string;
   subscribedAt: number;
   lastNotified?: number;
+  connectivityAlerts?: ConnectivityAlertPreferences; // Defaults when unset: nationwide outages only
+  preferences?: NotificationPreferences; // Defaults when unset: every new article
+}
+
+/**
+ * Which new articles a subscriber is notified about
+ * Empty lists match anything; non-empty ones must each match.
+ */
+export interface NotificationPreferences {
+  topics: string[]; // Topic feed ids (TOPIC_FEEDS in lib/perplexity.ts)
+  incidentTypes: IncidentType[];
+  provinces: string[]; // Province ids (lib/domain/provinces.ts); with cities, one location filter
+  cities: string[]; // English city names (KNOWN_CITIES in lib/geocoder.ts)
+  keywords: string[]; // Farsi or English, matched in title and summary
+  minVerificationScore: number; // 0-100; 0 includes unscored articles
+  quietHours?: QuietHours;
+  maxPerHour: number;
+  delivery?: 'instant' | DigestPeriod; // Default 'instant'; digests are sent by /api/cron/send-digests
+}
+
+export interface QuietHours {
+  start: number; // Local hour 0-23, inclusive
+  end: number; // Local hour 0-23, exclusive
+  timezone: string; // IANA, e.g. 'Asia/Tehran'
 }
 
+/**
+ * Which connectivity alerts a subscriber opted into
+ */
+export interface ConnectivityAlertPreferences {
+  enabled: boolean;
+  nationwide: boolean; // Country-wide and major network (TCI, Irancell, ...) outages
+  provinces: string[]; // Province ids (lib/domain/provinces.ts)
+  services: string[]; // OONI watchlist ids, e.g. 'signal' or 'twitter.com'
+}
+
+export type SubscriptionPreferencesUpdate = Partial<Pick<Subscription, 'connectivityAlerts' | 'preferences'>>;
+
 /**
  * Save a push notification subscription
  */
@@ -416,6 +480,15 @@ export async function deleteSubscription(id: string): Promise<void> {
   await db.collection('subscriptions').doc(id).delete();
 }
 
+/**
+ * Update a subscription's notification preferences
+ */
+export async function updateSubscriptionPreferences(id: string, updates: SubscriptionPreferencesUpdate): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('subscriptions').doc(id).update(removeUndefined(updates));
+}
+
 /**
  * Update last notified timestamp
  */
@@ -427,6 +500,703 @@ export async function updateSubscriptionLastNotified(id: string): Promise<void>
   });
 }
 
+//=============================================================================
+// ARTICLE REVISIONS COLLECTION
+//=============================================================================
+
+export interface ArticleRevision {
+  id: string; // `${articleId}_r${revision}`
+  articleId: string;
+  revision: number; // 1 = the text as first ingested
+  title: string;
+  summary: string;
+  content: string;
+  contentHash: string;
+  capturedAt: number;
+  editedAt?: number;
+  diff?: DiffOp[]; // Word diff of content against the previous revision
+  wordsAdded?: number;
+  wordsRemoved?: number;
+}
+
+/**
+ * Save article revisions in batch
+ */
+export async function saveArticleRevisions(revisions: ArticleRevision[]): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const batch = db.batch();
+  revisions.forEach((revision) => {
+    batch.set(db.collection('article_revisions').doc(revision.id), removeUndefined(revision));
+  });
+
+  await batch.commit();
+}
+
+/**
+ * Get all revisions of an article, oldest first
+ */
+export async function getArticleRevisions(articleId: string): Promise<ArticleRevision[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  // Sorted in memory: ordering by revision would need a composite index
+  const snapshot = await db
+    .collection('article_revisions')
+    .where('articleId', '==', articleId)
+    .get();
+
+  return (snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as ArticleRevision[]).sort((a, b) => a.revision - b.revision);
+}
+
+//=============================================================================
+// STORIES COLLECTION
+//=============================================================================
+
+export interface StoryMember {
+  articleId?: string; // Unset when the report was dropped as a near-duplicate
+  title: string;
+  source: string;
+  sourceKey: string; // Outlet identity: channel username, account or hostname
+  channelName?: string;
+  sourceUrl?: string;
+  publishedAt: number;
+}
+
+export interface StoryCluster {
+  id: string;
+  headline: string;
+  summary: string;
+  imageUrl?: string;
+  topics: string[];
+  minHash: number[]; // Signature of the first article, used for LSH matching
+  articleIds: string[];
+  members: StoryMember[];
+  sources: string[]; // Distinct sourceKeys
+  sourceCount: number;
+  platforms: string[]; // Distinct Article.source values (telegram, rss, ...)
+  firstSeenAt: number;
+  lastUpdatedAt: number;
+}
+
+/**
+ * Save (upsert) story clusters in batch
+ */
+export async function saveStories(stories: StoryCluster[]): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const batch = db.batch();
+  stories.forEach((story) => {
+    batch.set(db.collection('stories').doc(story.id), removeUndefined(story));
+  });
+
+  await batch.commit();
+}
+
+/**
+ * Get stories updated within the last N hours (for cluster assignment)
+ */
+export async function getRecentStories(hoursBack: number = 48): Promise<StoryCluster[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const cutoffTime = Date.now() - hoursBack * 60 * 60 * 1000;
+
+  const snapshot = await db
+    .collection('stories')
+    .where('lastUpdatedAt', '>', cutoffTime)
+    .orderBy('lastUpdatedAt', 'desc')
+    .limit(300)
+    .get();
+
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as StoryCluster[];
+}
+
+/**
+ * Get latest stories, optionally only those covered by at least `minSources` outlets
+ */
+export async function getStories(
+  limit: number = 20,
+  minSources: number = 1
+): Promise<StoryCluster[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  // Firestore can't order by lastUpdatedAt while range-filtering sourceCount,
+  // so over-fetch and filter in memory
+  const snapshot = await db
+    .collection('stories')
+    .orderBy('lastUpdatedAt', 'desc')
+    .limit(minSources > 1 ? limit * 5 : limit)
+    .get();
+
+  return (snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as StoryCluster[])
+    .filter((story) => story.sourceCount >= minSources)
+    .slice(0, limit);
+}
+
+/**
+ * Get story by ID
+ */
+export async function getStoryById(id: string): Promise<StoryCluster | null> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const doc = await db.collection('stories').doc(id).get();
+
+  if (!doc.exists) return null;
+
+  return {
+    id: doc.id,
+    ...doc.data(),
+  } as StoryCluster;
+}
+
+//=============================================================================
+// SOURCE CURSORS COLLECTION
+//=============================================================================
+
+export interface SourceCursorDoc {
+  source: string;
+  cursors: Record<string, string>;
+  updatedAt: number;
+}
+
+/**
+ * Get all incremental fetch cursors for a source (e.g. last message ID per channel)
+ */
+export async function getSourceCursors(source: string): Promise<Record<string, string>> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const doc = await db.collection('source_cursors').doc(source).get();
+  if (!doc.exists) return {};
+
+  return (doc.data() as SourceCursorDoc).cursors || {};
+}
+
+/**
+ * Merge cursor values into a source's cursor document
+ */
+export async function saveSourceCursors(
+  source: string,
+  cursors: Record<string, string>
+): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('source_cursors').doc(source).set(
+    {
+      source,
+      cursors,
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+//=============================================================================
+// SOURCE REPUTATION COLLECTION
+//=============================================================================
+
+export type ReputationEvidenceKind = 'verified' | 'debunked' | 'coordination' | 'manual';
+
+export interface ReputationEvidence {
+  id: string; // Unique per event (e.g. debunked:<incidentId>) so it is only counted once
+  kind: ReputationEvidenceKind;
+  polarity: 'positive' | 'negative';
+  weight: number;
+  at: number;
+  incidentId?: string;
+  note?: string;
+}
+
+export interface SourceReputationRecord {
+  id: string; // Same as sourceKey
+  sourceKey: string; // See lib/domain/source-key.ts
+  positive: number; // Decayed positive evidence as of updatedAt
+  negative: number; // Decayed negative evidence as of updatedAt
+  evidenceCount: number;
+  recentEvidence: ReputationEvidence[]; // Newest first, capped
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Get reputation records, most recently updated first
+ */
+export async function getSourceReputations(limit: number = 1000): Promise<SourceReputationRecord[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const snapshot = await db
+    .collection('source_reputation')
+    .orderBy('updatedAt', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as SourceReputationRecord[];
+}
+
+/**
+ * Get reputation records by source key (missing sources are omitted)
+ */
+export async function getSourceReputationsByKeys(sourceKeys: string[]): Promise<SourceReputationRecord[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const unique = Array.from(new Set(sourceKeys));
+  if (unique.length === 0) return [];
+
+  const collection = db.collection('source_reputation');
+  const docs = await db.getAll(...unique.map((key) => collection.doc(key)));
+
+  return docs
+    .filter((doc) => doc.exists)
+    .map((doc) => ({ id: doc.id, ...doc.data() })) as SourceReputationRecord[];
+}
+
+/**
+ * Save (upsert) reputation records in batch
+ */
+export async function saveSourceReputations(records: SourceReputationRecord[]): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  // A batch holds at most 500 writes
+  for (let i = 0; i < records.length; i += 500) {
+    const batch = db.batch();
+    records.slice(i, i + 500).forEach((record) => {
+      batch.set(db.collection('source_reputation').doc(record.id), removeUndefined(record));
+    });
+    await batch.commit();
+  }
+}
+
+export async function deleteSourceReputation(sourceKey: string): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('source_reputation').doc(sourceKey).delete();
+}
+
+//=============================================================================
+// OUTAGE EVENTS COLLECTION
+//=============================================================================
+
+export type OutageScopeKind = 'country' | 'province' | 'asn';
+
+export interface OutageScope {
+  kind: OutageScopeKind;
+  id: string; // Country code, province id (lib/domain/provinces.ts) or AS number
+  name: string;
+}
+
+export interface OutageSignalSummary {
+  signal: string; // bgp | ping | telescope
+  baseline: number; // Expected value at the point of the largest drop
+  observed: number;
+  drop: number; // 0-1 relative to the baseline
+}
+
+export interface OutageEvent {
+  id: string; // <scopeKey>:<onset>
+  scopeKey: string; // <kind>:<id>
+  scope: OutageScope;
+  status: 'ongoing' | 'recovered';
+  onset: number;
+  recoveredAt?: number;
+  lastObservedAt: number; // Last point below baseline
+  confidence: number; // 0-1
+  severity: number; // 0-1, largest weighted drop across signals
+  signals: OutageSignalSummary[];
+  location?: { lat: number; lon: number }; // Provinces only
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Get outage events that started at or after `since`, newest first
+ */
+export async function getOutageEvents(since: number, limit: number = 500): Promise<OutageEvent[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const snapshot = await db
+    .collection('outage_events')
+    .where('onset', '>=', since)
+    .orderBy('onset', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as OutageEvent[];
+}
+
+/**
+ * Get outage events that have not recovered yet
+ */
+export async function getOngoingOutageEvents(): Promise<OutageEvent[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const snapshot = await db.collection('outage_events').where('status', '==', 'ongoing').get();
+
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as OutageEvent[];
+}
+
+/**
+ * Save (upsert) outage events in batch
+ */
+export async function saveOutageEvents(events: OutageEvent[]): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  for (let i = 0; i < events.length; i += 500) {
+    const batch = db.batch();
+    events.slice(i, i + 500).forEach((event) => {
+      batch.set(db.collection('outage_events').doc(event.id), removeUndefined(event));
+    });
+    await batch.commit();
+  }
+}
+
+//=============================================================================
+// NOTIFICATION DELIVERIES COLLECTION
+//=============================================================================
+
+export type DeliveryKind = 'article' | 'digest' | 'connectivity';
+export type DeliveryStatus = 'sent' | 'failed' | 'expired' | 'clicked';
+
+/**
+ * One push to one subscription
+ */
+export interface NotificationDelivery {
+  id: string; // <notificationId>_<subscriptionId>
+  notificationId: string; // Shared by every subscription that got the same push
+  subscriptionId: string;
+  kind: DeliveryKind;
+  status: DeliveryStatus;
+  title: string;
+  statusCode?: number; // Push service response of failed and expired deliveries
+  error?: string;
+  sentAt: number;
+  clickedAt?: number;
+}
+
+/**
+ * Save notification deliveries in batch
+ */
+export async function saveNotificationDeliveries(deliveries: NotificationDelivery[]): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  for (let i = 0; i < deliveries.length; i += 500) {
+    const batch = db.batch();
+    deliveries.slice(i, i + 500).forEach((delivery) => {
+      batch.set(db.collection('notification_deliveries').doc(delivery.id), removeUndefined(delivery));
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * Get deliveries sent at or after `since`, newest first
+ */
+export async function getNotificationDeliveries(since: number, limit: number = 5000): Promise<NotificationDelivery[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const snapshot = await db
+    .collection('notification_deliveries')
+    .where('sentAt', '>=', since)
+    .orderBy('sentAt', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as NotificationDelivery[];
+}
+
+/**
+ * Get the latest deliveries to one subscription, newest first
+ */
+export async function getSubscriptionDeliveries(subscriptionId: string, limit: number = 50): Promise<NotificationDelivery[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  // Sorted here: ordering by another field than the filter would need a composite index
+  const snapshot = await db
+    .collection('notification_deliveries')
+    .where('subscriptionId', '==', subscriptionId)
+    .get();
+
+  return (snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as NotificationDelivery[])
+    .sort((a, b) => b.sentAt - a.sentAt)
+    .slice(0, limit);
+}
+
+/**
+ * Mark a delivery clicked; false when there is no such delivery
+ */
+export async function markNotificationDeliveryClicked(id: string, clickedAt: number): Promise<boolean> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const ref = db.collection('notification_deliveries').doc(id);
+  const doc = await ref.get();
+  if (!doc.exists) {
+    return false;
+  }
+
+  await ref.update({ status: 'clicked', clickedAt });
+  return true;
+}
+
+//=============================================================================
+// NOTIFICATION DIGESTS COLLECTION
+//=============================================================================
+
+export type DigestPeriod = 'hourly' | 'daily';
+
+export interface DigestItem {
+  articleId: string;
+  title: string;
+  url?: string;
+  source: string;
+  reason?: string; // Preference that matched, as in instant pushes
+  verificationScore?: number;
+  incidentTypes: IncidentType[];
+  addedAt: number;
+}
+
+/**
+ * Matched articles batched for a subscriber in digest mode
+ * A pending digest collects items until its period has passed since `createdAt`.
+ */
+export interface NotificationDigest {
+  id: string; // Random, so the summary page link cannot be guessed
+  subscriptionId: string;
+  period: DigestPeriod;
+  status: 'pending' | 'sent';
+  items: DigestItem[];
+  createdAt: number;
+  sentAt?: number;
+}
+
+/**
+ * Get a digest by ID
+ */
+export async function getNotificationDigest(id: string): Promise<NotificationDigest | null> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const doc = await db.collection('notification_digests').doc(id).get();
+  return doc.exists ? ({ id: doc.id, ...doc.data() } as NotificationDigest) : null;
+}
+
+/**
+ * Get digests that have not been sent yet
+ */
+export async function getPendingNotificationDigests(): Promise<NotificationDigest[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const snapshot = await db.collection('notification_digests').where('status', '==', 'pending').get();
+
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as NotificationDigest[];
+}
+
+/**
+ * Save (upsert) digests in batch
+ */
+export async function saveNotificationDigests(digests: NotificationDigest[]): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  for (let i = 0; i < digests.length; i += 500) {
+    const batch = db.batch();
+    digests.slice(i, i + 500).forEach((digest) => {
+      batch.set(db.collection('notification_digests').doc(digest.id), removeUndefined(digest));
+    });
+    await batch.commit();
+  }
+}
+
+//=============================================================================
+// TELEGRAM BOT CHATS COLLECTION
+//=============================================================================
+
+export type TelegramReportStep = 'type' | 'location' | 'description' | 'photos';
+
+/**
+ * A /report in progress; fields fill in step by step
+ */
+export interface TelegramReportDraft {
+  step: TelegramReportStep;
+  type?: IncidentType;
+  location?: { lat: number; lon: number; address?: string };
+  description?: string;
+  photoFileIds: string[]; // Telegram file IDs, uploaded when the report is submitted
+  startedAt: number;
+}
+
+/**
+ * A private chat with the reader bot
+ */
+export interface TelegramBotChat {
+  id: string; // Telegram chat ID
+  topics: string[]; // TOPIC_FEEDS ids with /subscribe alerts
+  report?: TelegramReportDraft;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Get a bot chat by Telegram chat ID
+ */
+export async function getTelegramBotChat(id: string): Promise<TelegramBotChat | null> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const doc = await db.collection('telegram_bot_chats').doc(id).get();
+  return doc.exists ? ({ id: doc.id, ...doc.data() } as TelegramBotChat) : null;
+}
+
+/**
+ * Get all bot chats
+ */
+export async function getTelegramBotChats(): Promise<TelegramBotChat[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const snapshot = await db.collection('telegram_bot_chats').get();
+
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as TelegramBotChat[];
+}
+
+/**
+ * Save (replace) a bot chat, so a finished report draft is dropped
+ */
+export async function saveTelegramBotChat(chat: TelegramBotChat): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('telegram_bot_chats').doc(chat.id).set(removeUndefined(chat));
+}
+
+//=============================================================================
+// MEDIA COLLECTION
+//=============================================================================
+
+/**
+ * A stored photo, video thumbnail or document; the bytes are in the blob store
+ */
+export interface MediaAsset {
+  id: string; // Content-derived, see lib/domain/media.ts
+  kind: MediaKind;
+  contentType: string;
+  size: number;
+  sha256: string;
+  pHash?: string; // Perceptual hash (MediaDeduplication), images only
+  fileName?: string;
+  sourceUrls: string[]; // Every post the media was seen in
+  createdAt: number;
+}
+
+/**
+ * Get a media record by ID
+ */
+export async function getMediaAsset(id: string): Promise<MediaAsset | null> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const doc = await db.collection('media').doc(id).get();
+  return doc.exists ? ({ id: doc.id, ...doc.data() } as MediaAsset) : null;
+}
+
+/**
+ * Save (replace) a media record
+ */
+export async function saveMediaAsset(asset: MediaAsset): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('media').doc(asset.id).set(removeUndefined(asset));
+}
+
+//=============================================================================
+// TRANSLATION MEMORY COLLECTION
+//=============================================================================
+
+/**
+ * A stored translation, keyed by language pair and full-text hash (getTranslationKey)
+ */
+export interface TranslationMemoryEntry {
+  id: string; // `${sourceLang}-${targetLang}-${sha256(text)}`
+  sourceLang: SupportedLanguage;
+  targetLang: SupportedLanguage;
+  translatedText: string;
+  tier: TranslationTier; // Lowest tier any sentence of translatedText needed
+  segments?: TranslatedSegment[]; // Per-sentence tiers, for the quality map in NewsCard
+  glossaryFingerprint?: string; // Glossary terms it was translated with (glossaryFingerprint)
+  glossaryHits?: GlossaryHit[];
+  createdAt: number;
+  updatedAt: number; // Last time translatedText changed (upgrades)
+  upgradeCheckedAt?: number; // Last attempt at a better tier
+}
+
+/**
+ * Get a stored translation by key
+ */
+export async function getTranslationMemoryEntry(id: string): Promise<TranslationMemoryEntry | null> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const doc = await db.collection('translation_memory').doc(id).get();
+  return doc.exists ? ({ id: doc.id, ...doc.data() } as TranslationMemoryEntry) : null;
+}
+
+/**
+ * Save (replace) a stored translation
+ */
+export async function saveTranslationMemoryEntry(entry: TranslationMemoryEntry): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('translation_memory').doc(entry.id).set(removeUndefined(entry));
+}
+
+//=============================================================================
+// TRANSLATION GLOSSARY COLLECTION
+//=============================================================================
+
+/**
+ * A glossary term edited through /api/admin/glossary
+ * Overrides the built-in term with the same ID (lib/domain/glossary.ts)
+ */
+export interface GlossaryTermDoc {
+  id: string;
+  fa: string;
+  en: string;
+  kind: GlossaryKind;
+  faAliases?: string[];
+  enAliases?: string[];
+  note?: string;
+  disabled?: boolean; // Switches off a built-in term without deleting the override
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Get all edited glossary terms
+ */
+export async function getGlossaryTerms(): Promise<GlossaryTermDoc[]> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  const snapshot = await db.collection('translation_glossary').get();
+
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as GlossaryTermDoc[];
+}
+
+/**
+ * Save (replace) a glossary term
+ */
+export async function saveGlossaryTerm(term: GlossaryTermDoc): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('translation_glossary').doc(term.id).set(removeUndefined(term));
+}
+
+/**
+ * Delete an edited glossary term (a built-in term with the same ID applies again)
+ */
+export async function deleteGlossaryTerm(id: string): Promise<void> {
+  if (!db) throw new Error('Firestore not initialized');
+
+  await db.collection('translation_glossary').doc(id).delete();
+}
+
 //=============================================================================
 // UTILITY FUNCTIONS
 //=============================================================================
@@ -113,6 +113,53 @@ const CITY_COORDINATES: Record<string, { lat: number; lon: number; address: stri
   'Nazi Abad': { lat: 35.6379, lon: 51.4050, address: 'Nazi Abad, Tehran, Iran' },
 };
 
+export interface KnownCity {
+  name: string; // English name, the id used in subscription preferences
+  nameFa?: string;
+  lat: number;
+  lon: number;
+}
+
+const isPersian = (name: string) => /[\u0600-\u06FF]/.test(name);
+
+/**
+ * Cities of the predefined table (not Tehran neighborhoods), English and Persian names paired by address
+ */
+export const KNOWN_CITIES: KnownCity[] = (() => {
+  const byAddress = new Map<string, Partial<KnownCity> & { lat: number; lon: number }>();
+
+  for (const [name, coords] of Object.entries(CITY_COORDINATES)) {
+    if (coords.address.split(',').length > 2) continue;
+
+    const city = byAddress.get(coords.address) || { lat: coords.lat, lon: coords.lon };
+    if (isPersian(name)) city.nameFa = name;
+    else city.name = name;
+    byAddress.set(coords.address, city);
+  }
+
+  return Array.from(byAddress.values()).filter((city): city is KnownCity => Boolean(city.name));
+})();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const CITY_MENTIONS = KNOWN_CITIES.map(city => ({
+  city,
+  pattern: new RegExp(
+    [`\\b${escapeRegExp(city.name)}\\b`]
+      // Persian has no \b
+      .concat(city.nameFa ? [`(?<![\u0600-\u06FF])${escapeRegExp(city.nameFa)}(?![\u0600-\u06FF])`] : [])
+      .join('|'),
+    'i'
+  ),
+}));
+
+/**
+ * Known cities named in a text, in English or Persian
+ */
+export function findCitiesInText(text: string): KnownCity[] {
+  return CITY_MENTIONS.filter(({ pattern }) => pattern.test(text)).map(({ city }) => city);
+}
+
 /**
  * Wait for rate limit interval
  */
@@ -1,9 +1,12 @@
 /**
  * Incident Extractor
  * Automatically extracts incident information from news articles using NLP pattern matching
- * Supports both Farsi and English keywords
+ * Has keyword packs for Farsi, English, Kurdish (Sorani, Kurmanji), Azerbaijani Turkish, Arabic and Baluchi
  */
 
+import { getArticleSourceKey } from './domain/source-key';
+import { identifyLanguage, SupportedLanguage } from './language-id';
+
 export interface ExtractedIncident {
   type: 'protest' | 'arrest' | 'injury' | 'death' | 'other';
   title: string;
@@ -15,15 +18,22 @@ export interface ExtractedIncident {
     articleTitle: string;
     articleUrl: string;
     source: string;
+    sourceKey: string;
   };
   timestamp: number;
   keywords: string[]; // Keywords that triggered extraction
 }
 
-// Incident type keywords with weighted importance
-const INCIDENT_PATTERNS = {
-  protest: {
-    farsi: [
+type IncidentKeywordType = 'protest' | 'arrest' | 'injury' | 'death';
+
+type KeywordPack = Record<IncidentKeywordType, Array<{ term: string; weight: number }>>;
+
+// Incident type keywords with weighted importance, one pack per language
+// Regional packs use the spellings of the outlets in that language (Sorani and
+// Baluchi in their own Arabic-script letters, Kurmanji in Latin)
+const KEYWORD_PACKS: Record<SupportedLanguage, KeywordPack> = {
+  fa: {
+    protest: [
       { term: 'اعتراض', weight: 10 },
       { term: 'تظاهرات', weight: 10 },
       { term: 'تجمع', weight: 8 },
@@ -32,7 +42,31 @@ const INCIDENT_PATTERNS = {
       { term: 'معترض', weight: 7 },
       { term: 'اعتصاب', weight: 9 },
     ],
-    english: [
+    arrest: [
+      { term: 'بازداشت', weight: 10 },
+      { term: 'دستگیر', weight: 10 },
+      { term: 'توقیف', weight: 9 },
+      { term: 'زندان', weight: 7 },
+      { term: 'بازداشتی', weight: 9 },
+    ],
+    injury: [
+      { term: 'زخمی', weight: 10 },
+      { term: 'مجروح', weight: 10 },
+      { term: 'آسیب', weight: 7 },
+      { term: 'ضرب', weight: 6 },
+      { term: 'تیراندازی', weight: 8 },
+    ],
+    death: [
+      { term: 'کشته', weight: 10 },
+      { term: 'قتل', weight: 10 },
+      { term: 'شهید', weight: 9 },
+      { term: 'جان باخت', weight: 10 },
+      { term: 'کشتار', weight: 10 },
+      { term: 'مرگ', weight: 8 },
+    ],
+  },
+  en: {
+    protest: [
       { term: 'protest', weight: 10 },
       { term: 'demonstration', weight: 10 },
       { term: 'rally', weight: 8 },
@@ -41,32 +75,14 @@ const INCIDENT_PATTERNS = {
       { term: 'chant', weight: 5 },
       { term: 'strike', weight: 9 },
     ],
-  },
-  arrest: {
-    farsi: [
-      { term: 'بازداشت', weight: 10 },
-      { term: 'دستگیر', weight: 10 },
-      { term: 'توقیف', weight: 9 },
-      { term: 'زندان', weight: 7 },
-      { term: 'بازداشتی', weight: 9 },
-    ],
-    english: [
+    arrest: [
       { term: 'arrest', weight: 10 },
       { term: 'detained', weight: 10 },
       { term: 'custody', weight: 9 },
       { term: 'imprisoned', weight: 8 },
       { term: 'jail', weight: 7 },
     ],
-  },
-  injury: {
-    farsi: [
-      { term: 'زخمی', weight: 10 },
-      { term: 'مجروح', weight: 10 },
-      { term: 'آسیب', weight: 7 },
-      { term: 'ضرب', weight: 6 },
-      { term: 'تیراندازی', weight: 8 },
-    ],
-    english: [
+    injury: [
       { term: 'injured', weight: 10 },
       { term: 'wounded', weight: 10 },
       { term: 'hurt', weight: 7 },
@@ -75,17 +91,7 @@ const INCIDENT_PATTERNS = {
       { term: 'tear gas', weight: 7 },
       { term: 'rubber bullet', weight: 8 },
     ],
-  },
-  death: {
-    farsi: [
-      { term: 'کشته', weight: 10 },
-      { term: 'قتل', weight: 10 },
-      { term: 'شهید', weight: 9 },
-      { term: 'جان باخت', weight: 10 },
-      { term: 'کشتار', weight: 10 },
-      { term: 'مرگ', weight: 8 },
-    ],
-    english: [
+    death: [
       { term: 'killed', weight: 10 },
       { term: 'death', weight: 9 },
       { term: 'died', weight: 9 },
@@ -95,8 +101,162 @@ const INCIDENT_PATTERNS = {
       { term: 'martyr', weight: 8 },
     ],
   },
+  // Kurdish (Sorani)
+  ckb: {
+    protest: [
+      { term: 'خۆپیشاندان', weight: 10 },
+      { term: 'ناڕەزایەتی', weight: 10 },
+      { term: 'مانگرتن', weight: 9 },
+      { term: 'کۆبوونەوە', weight: 7 },
+      { term: 'دروشم', weight: 6 },
+    ],
+    arrest: [
+      { term: 'دەستگیر', weight: 10 },
+      { term: 'دەستبەسەر', weight: 10 },
+      { term: 'گیرا', weight: 8 },
+      { term: 'زیندان', weight: 7 },
+    ],
+    injury: [
+      { term: 'بریندار', weight: 10 },
+      { term: 'تەقە', weight: 8 },
+      { term: 'لێدان', weight: 6 },
+      { term: 'گازی فرمێسکڕێژ', weight: 7 },
+    ],
+    death: [
+      { term: 'کوژرا', weight: 10 },
+      { term: 'کوشتن', weight: 10 },
+      { term: 'گیانی لەدەستدا', weight: 10 },
+      { term: 'شەهید', weight: 9 },
+      { term: 'مردن', weight: 8 },
+    ],
+  },
+  // Kurdish (Kurmanji)
+  kmr: {
+    protest: [
+      { term: 'xwepêşandan', weight: 10 },
+      { term: 'protesto', weight: 9 },
+      { term: 'grev', weight: 9 },
+      { term: 'çalakî', weight: 6 },
+      { term: 'dirûşm', weight: 6 },
+    ],
+    arrest: [
+      { term: 'binçav', weight: 10 },
+      { term: 'hatin girtin', weight: 10 },
+      { term: 'hat girtin', weight: 10 },
+      { term: 'zindan', weight: 7 },
+    ],
+    injury: [
+      { term: 'birîndar', weight: 10 },
+      { term: 'gule', weight: 7 },
+      { term: 'lêdan', weight: 6 },
+      { term: 'gaza rondikrêj', weight: 7 },
+    ],
+    death: [
+      { term: 'hat kuştin', weight: 10 },
+      { term: 'kuştin', weight: 10 },
+      { term: 'jiyana xwe ji dest da', weight: 10 },
+      { term: 'şehîd', weight: 9 },
+    ],
+  },
+  // Azerbaijani Turkish
+  azb: {
+    protest: [
+      { term: 'اعتراض', weight: 10 },
+      { term: 'نومایش', weight: 10 },
+      { term: 'اعتصاب', weight: 9 },
+      { term: 'یغینجاق', weight: 7 },
+      { term: 'شوعار', weight: 6 },
+    ],
+    arrest: [
+      { term: 'توتولدو', weight: 10 },
+      { term: 'توتولوب', weight: 10 },
+      { term: 'حبس', weight: 8 },
+      { term: 'دوستاق', weight: 8 },
+    ],
+    injury: [
+      { term: 'یارالان', weight: 10 },
+      { term: 'یارالی', weight: 10 },
+      { term: 'آتش آچدی', weight: 8 },
+      { term: 'دؤیولدو', weight: 8 },
+    ],
+    death: [
+      { term: 'اؤلدورولدو', weight: 10 },
+      { term: 'اؤلدو', weight: 9 },
+      { term: 'جان وئردی', weight: 10 },
+      { term: 'شهید', weight: 9 },
+      { term: 'اؤلوم', weight: 8 },
+    ],
+  },
+  ar: {
+    protest: [
+      { term: 'احتجاج', weight: 10 },
+      { term: 'مظاهرة', weight: 10 },
+      { term: 'مظاهرات', weight: 10 },
+      { term: 'تظاهر', weight: 9 },
+      { term: 'إضراب', weight: 9 },
+      { term: 'اعتصام', weight: 8 },
+      { term: 'هتاف', weight: 5 },
+    ],
+    arrest: [
+      { term: 'اعتقال', weight: 10 },
+      { term: 'اعتقل', weight: 10 },
+      { term: 'القبض', weight: 10 },
+      { term: 'احتجاز', weight: 9 },
+      { term: 'سجن', weight: 7 },
+    ],
+    injury: [
+      { term: 'جرحى', weight: 10 },
+      { term: 'جريح', weight: 10 },
+      { term: 'إصابة', weight: 8 },
+      { term: 'مصاب', weight: 8 },
+      { term: 'إطلاق النار', weight: 8 },
+      { term: 'الغاز المسيل للدموع', weight: 7 },
+    ],
+    death: [
+      { term: 'مقتل', weight: 10 },
+      { term: 'قتل', weight: 10 },
+      { term: 'لقي حتفه', weight: 10 },
+      { term: 'استشهد', weight: 9 },
+      { term: 'شهيد', weight: 9 },
+      { term: 'وفاة', weight: 8 },
+    ],
+  },
+  bal: {
+    protest: [
+      { term: 'احتجاج', weight: 10 },
+      { term: 'مظاہرہ', weight: 10 },
+      { term: 'ھڑتال', weight: 9 },
+      { term: 'جلوس', weight: 8 },
+      { term: 'شئوار', weight: 6 },
+    ],
+    arrest: [
+      { term: 'گرپتار', weight: 10 },
+      { term: 'بندی', weight: 8 },
+      { term: 'زندان', weight: 7 },
+    ],
+    injury: [
+      { term: 'ٹپی', weight: 10 },
+      { term: 'زخمی', weight: 10 },
+      { term: 'تیر جت', weight: 8 },
+    ],
+    death: [
+      { term: 'کشتگ', weight: 10 },
+      { term: 'کشت', weight: 9 },
+      { term: 'شھید', weight: 9 },
+      { term: 'مرگ', weight: 8 },
+    ],
+  },
 };
 
+/**
+ * The packs to match an article against: its own language's, plus Persian and
+ * English, which regional outlets mix into titles and quotes
+ */
+function keywordPacksFor(text: string): KeywordPack[] {
+  const languages = new Set<SupportedLanguage>([identifyLanguage(text).language, 'fa', 'en']);
+  return [...languages].map(lang => KEYWORD_PACKS[lang]);
+}
+
 // Location keywords for major Iranian cities
 const IRAN_CITIES = [
   // Major cities
@@ -157,7 +317,7 @@ const IRAN_CITIES = [
 /**
  * Extract location mentions from text
  */
-function extractLocations(text: string): string[] {
+export function extractLocations(text: string): string[] {
   const locations: string[] = [];
   const lowerText = text.toLowerCase();
 
@@ -174,27 +334,22 @@ function extractLocations(text: string): string[] {
  * Calculate confidence score based on keyword matches
  */
 function calculateConfidence(
-  type: keyof typeof INCIDENT_PATTERNS,
+  type: IncidentKeywordType,
   text: string,
-  hasLocation: boolean
+  hasLocation: boolean,
+  packs: KeywordPack[]
 ): { score: number; keywords: string[] } {
   const lowerText = text.toLowerCase();
   let totalWeight = 0;
   const matchedKeywords: string[] = [];
 
-  // Check Farsi keywords
-  for (const { term, weight } of INCIDENT_PATTERNS[type].farsi) {
-    if (lowerText.includes(term.toLowerCase())) {
-      totalWeight += weight;
-      matchedKeywords.push(term);
-    }
-  }
-
-  // Check English keywords
-  for (const { term, weight } of INCIDENT_PATTERNS[type].english) {
-    if (lowerText.includes(term.toLowerCase())) {
-      totalWeight += weight;
-      matchedKeywords.push(term);
+  // A term in several packs (اعتراض is Persian and Azeri) counts once
+  for (const pack of packs) {
+    for (const { term, weight } of pack[type]) {
+      if (!matchedKeywords.includes(term) && lowerText.includes(term.toLowerCase())) {
+        totalWeight += weight;
+        matchedKeywords.push(term);
+      }
     }
   }
 
@@ -282,14 +437,17 @@ export function extractIncidentsFromArticle(article: {
   url?: string; // Optional for compatibility
   sourceUrl?: string; // Telegram uses sourceUrl
   source: string;
+  channelUsername?: string;
+  author?: { username?: string };
   publishedAt: string | number;
 }): ExtractedIncident[] {
   const incidents: ExtractedIncident[] = [];
   const combinedText = `${article.title} ${article.content}`;
+  const packs = keywordPacksFor(combinedText);
 
   // Check each incident type
   for (const type of ['protest', 'arrest', 'injury', 'death'] as const) {
-    const { score, keywords } = calculateConfidence(type, combinedText, false);
+    const { score, keywords } = calculateConfidence(type, combinedText, false, packs);
 
     // Only extract if confidence is above threshold
     if (score >= 30 && keywords.length > 0) {
@@ -298,7 +456,7 @@ export function extractIncidentsFromArticle(article: {
       // Create an incident for each location found, or one generic if no location
       if (locations.length > 0) {
         for (const location of locations) {
-          const { score: finalScore } = calculateConfidence(type, combinedText, true);
+          const { score: finalScore } = calculateConfidence(type, combinedText, true, packs);
 
           incidents.push({
             type,
@@ -311,6 +469,7 @@ export function extractIncidentsFromArticle(article: {
               articleTitle: article.title,
               articleUrl: article.sourceUrl || article.url || '', // Handle both field names
               source: article.source,
+              sourceKey: getArticleSourceKey(article),
             },
             timestamp: extractTimestamp(article.publishedAt, article.content),
             keywords,
@@ -329,6 +488,7 @@ export function extractIncidentsFromArticle(article: {
             articleTitle: article.title,
             articleUrl: article.sourceUrl || article.url || '', // Handle both field names
             source: article.source,
+            sourceKey: getArticleSourceKey(article),
           },
           timestamp: extractTimestamp(article.publishedAt, article.content),
           keywords,
@@ -12,6 +12,11 @@ export interface IODASignal {
     timestamps: number[];
 }
 
+export interface IODARegion {
+    code: string;
+    name: string;
+}
+
 export class IODAClient {
     private baseUrl = 'https://api.ioda.inetintel.cc.gatech.edu/v2';
 
@@ -101,6 +106,65 @@ export class IODAClient {
         }
     }
 
+    /**
+     * Get region-level signals (IODA region codes, see getRegions)
+     */
+    async getRegionSignals(regionCode: string, from?: number, until?: number): Promise<IODASignal> {
+        const params = new URLSearchParams();
+
+        if (!until) until = Math.floor(Date.now() / 1000);
+        if (!from) from = until - 24 * 60 * 60;
+
+        params.append('from', from.toString());
+        params.append('until', until.toString());
+
+        const url = `${this.baseUrl}/signals/raw/region/${regionCode}?${params}`;
+
+        try {
+            const response = await fetch(url);
+            if (!response.ok) {
+                throw new Error(`IODA API error: ${response.statusText}`);
+            }
+
+            const data = await response.json();
+
+            logger.info('ioda_region_signals_fetched', {
+                region: regionCode,
+                from,
+                until,
+                data_points: data.data?.[0]?.length || 0,
+            });
+
+            return this.transformIODAResponse(data);
+        } catch (error) {
+            logger.error('ioda_region_fetch_failed', {
+                region: regionCode,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                stack: error instanceof Error ? error.stack : undefined,
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * List the regions (provinces) IODA tracks for a country
+     */
+    async getRegions(countryCode: string = 'IR'): Promise<IODARegion[]> {
+        const params = new URLSearchParams({ entityType: 'region', relatedTo: `country/${countryCode}` });
+        const response = await fetch(`${this.baseUrl}/entities/query?${params}`);
+        if (!response.ok) {
+            throw new Error(`IODA API error: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const regions: IODARegion[] = (Array.isArray(data.data) ? data.data : [])
+            .filter((entity: any) => entity?.code && entity?.name)
+            .map((entity: any) => ({ code: String(entity.code), name: String(entity.name) }));
+
+        logger.info('ioda_regions_fetched', { country: countryCode, regions: regions.length });
+        return regions;
+    }
+
     /**
      * Transform IODA API response to our simplified format
      */
@@ -174,69 +238,4 @@ export class IODAClient {
 
         return signals;
     }
-
-    /**
-     * Detect outages (significant drops in connectivity)
-     */
-    async detectOutages(
-        countryCode: string = 'IR',
-        thresholdPercentage: number = 60
-    ): Promise<Array<{ start: number; end: number; severity: number }>> {
-        // Get last 48 hours for detection
-        const until = Math.floor(Date.now() / 1000);
-        const from = until - 48 * 60 * 60;
-
-        const signals = await this.getCountrySignals(countryCode, from, until);
-
-        const outages: Array<{ start: number; end: number; severity: number }> = [];
-        let outageStart: number | null = null;
-        let avgSeverityAccumulator = 0;
-        let outagePoints = 0;
-
-        for (let i = 0; i < signals.timestamps.length; i++) {
-            // Normalize signals (some might be > 100 or raw counts, assume normalized 0-100 or check max)
-            // IODA usually returns raw values or normalized depending on endpoint.
-            // Assuming the chart will handle scaling, but detection needs relative drop.
-            // Simple logic: if BGP < threshold (assuming 100 baseline).
-            // Real-world: needs moving average or relative drop. 
-            // For 'IR', connectivity is relative.
-
-            const bgp = signals.values.bgp[i] || 100; // Fallback to 100 if missing
-            const ping = signals.values.ping[i] || 100;
-            const score = (bgp + ping) / 2;
-
-            if (score < thresholdPercentage) {
-                if (outageStart === null) {
-                    outageStart = signals.timestamps[i];
-                }
-                avgSeverityAccumulator += (100 - score);
-                outagePoints++;
-            } else {
-                if (outageStart !== null) {
-                    // Outage ended
-                    const endTime = signals.timestamps[i];
-                    if ((endTime - outageStart) > 600) { // Filter blips < 10 mins
-                        outages.push({
-                            start: outageStart,
-                            end: endTime,
-                            severity: Math.round(avgSeverityAccumulator / outagePoints)
-                        });
-                    }
-                    outageStart = null;
-                    avgSeverityAccumulator = 0;
-                    outagePoints = 0;
-                }
-            }
-        }
-
-        if (outageStart !== null) {
-            outages.push({
-                start: outageStart,
-                end: signals.timestamps[signals.timestamps.length - 1],
-                severity: Math.round(avgSeverityAccumulator / outagePoints)
-            });
-        }
-
-        return outages;
-    }
 }
@@ -0,0 +1,214 @@
+/**
+ * Language identification for feed content
+ * News from Iran's regions arrives in Persian, Sorani and Kurmanji Kurdish,
+ * South Azerbaijani (Azeri Turkish), Arabic and Baluchi as well as English.
+ * Most of these share the Arabic script, so identification runs in three steps:
+ * 1. script: Latin letters can only be English or Kurmanji, Arabic-script
+ *    letters any of the others
+ * 2. letters only one language uses (Sorani ە ڵ ڕ, Baluchi ٹ ڈ ءَ) count heavily
+ * 3. a character n-gram profile per language, built from the sample text
+ *    below, scores everything else (Arabic ة and ال, Azeri ائ and -لر, ...)
+ *
+ * Runs in the browser too (NewsCard), so it has no dependencies.
+ */
+
+export const SUPPORTED_LANGUAGES = ['en', 'fa', 'ckb', 'kmr', 'azb', 'ar', 'bal'] as const;
+
+export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
+
+export interface LanguageInfo {
+  name: string;
+  nativeName: string;
+  script: 'latin' | 'arabic';
+  direction: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Record<SupportedLanguage, LanguageInfo> = {
+  en: { name: 'English', nativeName: 'English', script: 'latin', direction: 'ltr' },
+  fa: { name: 'Farsi', nativeName: 'فارسی', script: 'arabic', direction: 'rtl' },
+  ckb: { name: 'Kurdish (Sorani)', nativeName: 'کوردی', script: 'arabic', direction: 'rtl' },
+  kmr: { name: 'Kurdish (Kurmanji)', nativeName: 'Kurmancî', script: 'latin', direction: 'ltr' },
+  azb: { name: 'Azerbaijani Turkish', nativeName: 'تۆرکجه', script: 'arabic', direction: 'rtl' },
+  ar: { name: 'Arabic', nativeName: 'العربية', script: 'arabic', direction: 'rtl' },
+  bal: { name: 'Baluchi', nativeName: 'بلوچی', script: 'arabic', direction: 'rtl' },
+};
+
+export interface LanguageIdentification {
+  language: SupportedLanguage;
+  confidence: number; // 0-1: how far ahead of the runner-up the best language is, per n-gram; 0 when assumed
+  scores: Partial<Record<SupportedLanguage, number>>; // Log-likelihood of each candidate
+}
+
+// Below this confidence the script's main language (Persian or English) is assumed
+export const MIN_LANGUAGE_CONFIDENCE = 0.6;
+
+// A word or two shared across languages ("قتل", "اعتصاب") says little about the text
+const MIN_WORDS = 3;
+
+// News-style sample text each profile is built from
+const PROFILE_SAMPLES: Record<SupportedLanguage, string> = {
+  en:
+    'Protesters gathered in the streets of the capital on Friday and chanted slogans against the government, ' +
+    'while security forces used tear gas to disperse the crowd. Reports say that several people were arrested ' +
+    'and taken to an unknown location. The demonstrations began after the death of a young woman in custody and ' +
+    'have continued for weeks. Workers in several provinces have also gone on strike over unpaid wages, and ' +
+    'the internet has been cut in many cities since the morning.',
+  fa:
+    'معترضان در خیابان‌های تهران علیه جمهوری اسلامی شعار دادند و نیروهای امنیتی با گاز اشک‌آور به آنها حمله کردند. ' +
+    'گزارش‌ها حاکی است که چند نفر بازداشت شده‌اند و از سرنوشت آنها خبری نیست. این اعتراضات پس از کشته شدن یک جوان ' +
+    'در شهر آغاز شد و تا امروز ادامه دارد. کارگران نیز در چند استان دست به اعتصاب زده‌اند و می‌گویند دستمزدها ' +
+    'پرداخت نشده است. اینترنت از صبح در بسیاری از شهرها قطع شده است.',
+  ckb:
+    'خەڵکی شاری سنە دژی ڕژێمی کۆماری ئیسلامی خۆپیشاندانیان کرد و هێزە ئەمنییەکان تەقەیان لە خۆپیشاندەران کرد. ' +
+    'بەپێی ڕاپۆرتەکان چەند کەس دەستگیرکراون و ژمارەیەک بریندار بوون. ئەم ناڕەزایەتییانە دوای کوژرانی گەنجێک ' +
+    'لە شارەکە دەستیان پێکرد و تا ئێستا بەردەوامن. کرێکاران لە چەند شارێکی کوردستان مانیان گرتووە و ' +
+    'دەڵێن مووچەکانیان نەدراوە. ئینتەرنێت لە زۆربەی شارەکان بڕاوە.',
+  kmr:
+    'Xwepêşander li kolanên bajarê Mehabadê li dijî rejîma Komara Îslamî dirûşm berz kirin û hêzên ewlehiyê bi ' +
+    'gaza rondikrêj êrîşî wan kirin. Li gorî raporan gelek kes hatin binçavkirin û çend kes birîndar bûn. Ev ' +
+    'protesto piştî kuştina ciwanekî li bajêr dest pê kirin û heta niha jî berdewam dikin. Karker li gelek ' +
+    'bajarên Kurdistanê ketin grevê ji ber ku meaşên wan nehatine dayîn. Înternet li gelek bajaran hatiye birîn.',
+  azb:
+    'تبریز شهرینده اعتراض ائدنلر حکومته قارشی شوعار وئردیلر و امنیت گوجلری گؤز یاشاردان گاز ایله اونلارا هوجوم ائتدیلر. ' +
+    'گلن خبرلره گؤره بیر نئچه نفر توتولوب و بیر نئچه‌سی یارالانیب. بو اعتراضلار بیر گنجین اؤلدورولمه‌سیندن سونرا ' +
+    'باشلاییب و ایندی‌یه قدر داوام ائدیر. ایشچیلر ده بیر نئچه شهرده اعتصاب ائدیبلر و دئییرلر کی معاشلاری ' +
+    'وئریلمه‌ییب. اینترنت صاباحدان بری چوخ شهرلرده کسیلیب.',
+  ar:
+    'خرج المتظاهرون في شوارع الأهواز احتجاجا على انقطاع المياه والكهرباء، وأطلقت قوات الأمن الغاز المسيل للدموع ' +
+    'على الحشود. وقالت مصادر محلية إن عددا من الشباب تم اعتقالهم بعد المظاهرة. وأضافت أن الاحتجاجات استمرت حتى ' +
+    'ساعة متأخرة من الليل في عدة مدن في المحافظة. كما أعلن العمال الإضراب عن العمل للمطالبة بحقوقهم ورواتبهم ' +
+    'المتأخرة. وقد انقطعت خدمة الإنترنت في معظم المدن منذ الصباح.',
+  bal:
+    'زاهدانءَ مردمان گون ھکومتءَ مُچّی بوتگ انت و شئوار جتگ انت. سرکاری پوجیان مردمانی سرا تیر جتگ انت و ' +
+    'باز مردم ٹپّی بوتگ انت. گوشگ بیت کہ لھتیں ورنا گرپتار کنگ بوتگ انت. اے آجوییءِ جُنز چہ جمعگءِ روچءَ ' +
+    'بندات بوتگ و تان مرچی برجاہ انت. مزوراں ھم باز شھرانی تہا کار بند کتگ و گوشنت کہ آیانی مُز ندئیگ بوتگ.',
+};
+
+// Letters (or letter sequences) that only this language writes, among the supported ones
+const DISTINCTIVE_LETTERS: Partial<Record<SupportedLanguage, RegExp>> = {
+  ckb: /[ەڕڵۆێڤ]/g,
+  kmr: /[êîûçş]/g,
+  bal: /[ٹڈڑے]|\u0621[\u064E\u0650]/g,
+  ar: /[ةى]/g,
+};
+
+const DISTINCTIVE_LETTER_WEIGHT = 6;
+
+const NGRAM_SIZES = [1, 2, 3];
+
+// Add-k smoothing for n-grams a profile has never seen
+const SMOOTHING = 0.1;
+
+// Turns the per-n-gram lead of the best language into a 0-1 confidence
+const CONFIDENCE_SCALE = 4;
+
+interface NgramProfile {
+  counts: Map<string, number>;
+  total: number;
+}
+
+/**
+ * Letters only, lowercased, one space between words; links, handles and digits are dropped
+ * Arabic diacritics are kept only after hamza, where Baluchi uses them as case markers
+ */
+function normalize(text: string): string {
+  return text
+    .replace(/https?:\/\/\S+|[@#][\w\u200c]+/g, ' ')
+    .toLowerCase()
+    .replace(/(?<!\u0621)[\u064B-\u0652]/g, '')
+    .replace(/[^\p{L}\u064E\u0650]+/gu, ' ')
+    .trim();
+}
+
+function ngrams(normalized: string): string[] {
+  const grams: string[] = [];
+  for (const word of normalized.split(' ')) {
+    if (!word) continue;
+    const padded = [...` ${word} `];
+    for (const size of NGRAM_SIZES) {
+      for (let i = 0; i + size <= padded.length; i++) {
+        const gram = padded.slice(i, i + size).join('');
+        if (gram !== ' ') grams.push(gram);
+      }
+    }
+  }
+  return grams;
+}
+
+function buildProfile(sample: string): NgramProfile {
+  const counts = new Map<string, number>();
+  const grams = ngrams(normalize(sample));
+  for (const gram of grams) {
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return { counts, total: grams.length };
+}
+
+let profiles: Record<SupportedLanguage, NgramProfile> | null = null;
+
+function getProfiles(): Record<SupportedLanguage, NgramProfile> {
+  if (!profiles) {
+    profiles = Object.fromEntries(
+      SUPPORTED_LANGUAGES.map(lang => [lang, buildProfile(PROFILE_SAMPLES[lang])])
+    ) as Record<SupportedLanguage, NgramProfile>;
+  }
+  return profiles;
+}
+
+/**
+ * Which script most of the letters are in, or null when there are no letters
+ */
+export function dominantScript(text: string): LanguageInfo['script'] | null {
+  const arabic = (text.match(/\p{Script=Arabic}/gu) || []).length;
+  const latin = (text.match(/\p{Script=Latin}/gu) || []).length;
+  if (arabic === 0 && latin === 0) return null;
+  return arabic >= latin ? 'arabic' : 'latin';
+}
+
+/**
+ * Identify the language of a text
+ * Short or ambiguous text gets its script's main language: Persian for the
+ * Arabic script, English for Latin
+ */
+export function identifyLanguage(text: string): LanguageIdentification {
+  const normalized = normalize(text ?? '');
+  const script = dominantScript(normalized);
+  if (!script) {
+    return { language: 'en', confidence: 0, scores: {} };
+  }
+
+  const fallback: SupportedLanguage = script === 'arabic' ? 'fa' : 'en';
+  const grams = ngrams(normalized);
+  const candidates = SUPPORTED_LANGUAGES.filter(lang => LANGUAGES[lang].script === script);
+  const vocabulary = new Set(candidates.flatMap(lang => [...getProfiles()[lang].counts.keys()])).size;
+
+  const scores: Partial<Record<SupportedLanguage, number>> = {};
+  for (const lang of candidates) {
+    const { counts, total } = getProfiles()[lang];
+    let score = 0;
+    for (const gram of grams) {
+      score += Math.log(((counts.get(gram) ?? 0) + SMOOTHING) / (total + SMOOTHING * vocabulary));
+    }
+    const distinctive = DISTINCTIVE_LETTERS[lang];
+    if (distinctive) {
+      score += (normalized.match(distinctive) || []).length * DISTINCTIVE_LETTER_WEIGHT;
+    }
+    scores[lang] = score;
+  }
+
+  const ranked = [...candidates].sort((a, b) => scores[b]! - scores[a]!);
+  const [best, runnerUp] = ranked;
+  // The lead per n-gram, so a long text is not certain merely for being long
+  const margin = runnerUp ? (scores[best]! - scores[runnerUp]!) / Math.max(grams.length, 1) : Infinity;
+  const confidence = 1 - Math.exp(-CONFIDENCE_SCALE * margin);
+
+  const words = normalized.split(' ').filter(Boolean).length;
+  if (best !== fallback && (confidence < MIN_LANGUAGE_CONFIDENCE || words < MIN_WORDS)) {
+    return { language: fallback, confidence: 0, scores };
+  }
+  return { language: best, confidence, scores };
+}
+
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
@@ -4,6 +4,8 @@
  */
 
 import { logger } from '@/lib/logger';
+import type { TranslatedSegment } from '@/lib/translation-robust';
+import type { SupportedLanguage } from '@/lib/language-id';
 
 const DB_NAME = 'persian-uprising-db';
 const DB_VERSION = 2;
@@ -21,7 +23,7 @@ type ArticleInput = {
   url: string;
   publishedAt: string;
   topics: string[];
-  source?: 'perplexity' | 'twitter' | 'telegram';
+  source?: 'perplexity' | 'twitter' | 'telegram' | 'rss';
   author?: string;
   channelName?: string;
 };
@@ -49,8 +51,9 @@ interface Translation {
   articleId: string;
   originalText: string;
   translatedText: string;
-  sourceLang: 'fa' | 'en';
-  targetLang: 'fa' | 'en';
+  sourceLang: SupportedLanguage;
+  targetLang: SupportedLanguage;
+  segments?: TranslatedSegment[]; // Per-sentence tiers returned by /api/translate
   cachedAt: number;
 }
 
@@ -281,8 +284,9 @@ class OfflineDB {
     articleId: string,
     originalText: string,
     translatedText: string,
-    sourceLang: 'fa' | 'en',
-    targetLang: 'fa' | 'en'
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    segments?: TranslatedSegment[]
   ): Promise<void> {
     if (!this.db) await this.init();
 
@@ -292,6 +296,7 @@ class OfflineDB {
       translatedText,
       sourceLang,
       targetLang,
+      segments,
       cachedAt: Date.now(),
     };
 
@@ -1,88 +1,429 @@
-
 import { logger } from '@/lib/logger';
 
-interface OONIMeasurement {
+export type OONITestName = 'web_connectivity' | 'signal' | 'tor' | 'psiphon' | 'whatsapp' | 'telegram';
+
+/**
+ * OONI tests that measure an app rather than a website
+ */
+export const OONI_APP_TESTS: OONITestName[] = ['signal', 'tor', 'psiphon', 'whatsapp', 'telegram'];
+
+export type BlockingMethod = 'dns' | 'tcp' | 'tls' | 'http' | 'unknown';
+
+export type OONIStatus = 'Blocked' | 'Partial' | 'Accessible' | 'Unknown';
+
+export interface OONIMeasurement {
     measurement_uid: string;
     test_name: string;
     measurement_start_time: string;
     probe_cc: string;
     probe_asn: string;
-    input: string;
+    input: string | null;
     anomaly: boolean;
     confirmed: boolean;
     failure: boolean;
     scores: any;
 }
 
+/**
+ * A website (web_connectivity on a domain) or an app test to follow
+ */
+export interface OONIWatchTarget {
+    id: string; // The domain for websites, the test name for apps
+    name: string;
+    testName: OONITestName;
+    domain?: string;
+    category: 'messaging' | 'social' | 'circumvention' | 'news' | 'other';
+}
+
+/**
+ * Followed by default (override with OONI_WATCHLIST)
+ */
+export const DEFAULT_OONI_WATCHLIST: OONIWatchTarget[] = [
+    { id: 'signal', name: 'Signal', testName: 'signal', category: 'messaging' },
+    { id: 'whatsapp', name: 'WhatsApp', testName: 'whatsapp', category: 'messaging' },
+    { id: 'telegram', name: 'Telegram', testName: 'telegram', category: 'messaging' },
+    { id: 'tor', name: 'Tor', testName: 'tor', category: 'circumvention' },
+    { id: 'psiphon', name: 'Psiphon', testName: 'psiphon', category: 'circumvention' },
+    { id: 'twitter.com', name: 'X (Twitter)', testName: 'web_connectivity', domain: 'twitter.com', category: 'social' },
+    { id: 'instagram.com', name: 'Instagram', testName: 'web_connectivity', domain: 'instagram.com', category: 'social' },
+    { id: 'youtube.com', name: 'YouTube', testName: 'web_connectivity', domain: 'youtube.com', category: 'social' },
+    { id: 'telegram.org', name: 'telegram.org', testName: 'web_connectivity', domain: 'telegram.org', category: 'messaging' },
+    { id: 'whatsapp.com', name: 'whatsapp.com', testName: 'web_connectivity', domain: 'whatsapp.com', category: 'messaging' },
+    { id: 'bbc.com', name: 'BBC Persian', testName: 'web_connectivity', domain: 'bbc.com', category: 'news' },
+    { id: 'iranintl.com', name: 'Iran International', testName: 'web_connectivity', domain: 'iranintl.com', category: 'news' },
+    { id: 'radiofarda.com', name: 'Radio Farda', testName: 'web_connectivity', domain: 'radiofarda.com', category: 'news' },
+    { id: 'iranwire.com', name: 'IranWire', testName: 'web_connectivity', domain: 'iranwire.com', category: 'news' },
+];
+
+/**
+ * Parse the OONI_WATCHLIST env var: comma-separated app test names (signal, tor, ...)
+ * or domains, optionally "Name|domain"
+ */
+export function parseWatchlist(value?: string): OONIWatchTarget[] {
+    if (!value) return [];
+
+    return value
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const app = OONI_APP_TESTS.find(test => test === entry.toLowerCase());
+            const known = DEFAULT_OONI_WATCHLIST.find(target => target.id === (app || entry.toLowerCase()));
+            if (app) {
+                return known || { id: app, name: app, testName: app, category: 'other' as const };
+            }
+
+            const [maybeName, maybeDomain] = entry.split('|').map(part => part.trim());
+            const domain = (maybeDomain || maybeName).replace(/^https?:\/\//, '').replace(/\/.*$/, '').replace(/^www\./, '').toLowerCase();
+            const name = maybeDomain ? maybeName : known?.name || domain;
+            return { id: domain, name, testName: 'web_connectivity' as const, domain, category: known?.category || 'other' as const };
+        });
+}
+
+export interface OONIAsnSummary {
+    asn: string; // "AS44244"
+    total: number;
+    blocked: number;
+    status: OONIStatus;
+    methods: Partial<Record<BlockingMethod, number>>;
+}
+
+export interface OONITargetSummary {
+    id: string;
+    name: string;
+    testName: OONITestName;
+    category: OONIWatchTarget['category'];
+    domain?: string;
+    total: number;
+    blocked: number; // Anomalies, which for these targets usually mean blocking
+    accessible: number;
+    status: OONIStatus;
+    methods: Partial<Record<BlockingMethod, number>>; // Of the blocked measurements
+    asns: OONIAsnSummary[]; // Most measured first
+    lastMeasuredAt?: string;
+    error?: string;
+}
+
+export interface OONIClientOptions {
+    watchlist: OONIWatchTarget[];
+    windowHours: number; // Measurements considered per summary
+    limit: number; // Measurements per target
+    detailLimit: number; // Anomalies per target whose full measurement is fetched to classify blocking
+    concurrency: number;
+    cacheTtlMs: number;
+}
+
+const DEFAULT_OPTIONS: OONIClientOptions = {
+    watchlist: DEFAULT_OONI_WATCHLIST,
+    windowHours: 24,
+    limit: 100,
+    detailLimit: 10,
+    concurrency: 4,
+    cacheTtlMs: 10 * 60 * 1000,
+};
+
+const MAX_CACHED_DETAILS = 2000;
+
+/**
+ * Status of a target from its anomaly rate (0-1)
+ */
+export function statusForRate(rate: number | null): OONIStatus {
+    if (rate === null) return 'Unknown';
+    return rate > 0.5 ? 'Blocked' : rate > 0 ? 'Partial' : 'Accessible';
+}
+
+/**
+ * Blocking method from an OONI failure string (e.g. "dns_nxdomain_error", "ssl_invalid_hostname").
+ * Resets and timeouts are attributed to TCP unless they happened in a TLS handshake.
+ */
+export function classifyFailure(failure: string): BlockingMethod {
+    const value = failure.toLowerCase();
+    if (/dns|nxdomain|no_answer|bogon/.test(value)) return 'dns';
+    if (/ssl|tls|certificate/.test(value)) return 'tls';
+    if (/connection_refused|connection_reset|timeout|unreachable|eof_error/.test(value)) return 'tcp';
+    if (/http/.test(value)) return 'http';
+    return 'unknown';
+}
+
+// Network stages in the order a connection goes through them; the first failing one blocked it
+const STAGES: Array<{ key: string; method: BlockingMethod }> = [
+    { key: 'queries', method: 'dns' },
+    { key: 'tcp_connect', method: 'tcp' },
+    { key: 'tls_handshakes', method: 'tls' },
+    { key: 'requests', method: 'http' },
+];
+
+function stageFailures(testKeys: any, depth: number = 0): Set<BlockingMethod> {
+    const failed = new Set<BlockingMethod>();
+    if (!testKeys || typeof testKeys !== 'object' || depth > 3) return failed;
+
+    for (const { key, method } of STAGES) {
+        const entries = Array.isArray(testKeys[key]) ? testKeys[key] : [];
+        const hasFailure = entries.some((entry: any) =>
+            // AAAA lookups often have no answer without any blocking
+            !(key === 'queries' && entry?.query_type === 'AAAA') &&
+            typeof (entry?.failure ?? entry?.status?.failure) === 'string'
+        );
+        if (hasFailure) failed.add(method);
+    }
+
+    // Tests made of several sub-measurements (tor targets, psiphon bootstrap, ...)
+    for (const value of Object.values(testKeys)) {
+        const nested = Array.isArray(value) ? value : value && typeof value === 'object' ? Object.values(value) : [];
+        for (const item of nested) {
+            if (item && typeof item === 'object' && !Array.isArray(item)) {
+                stageFailures(item, depth + 1).forEach(method => failed.add(method));
+            }
+        }
+    }
+
+    return failed;
+}
+
+/**
+ * How a measurement was blocked, from the pipeline's analysis or the full test keys
+ */
+export function classifyBlocking(measurement: Pick<OONIMeasurement, 'scores'>, testKeys?: any): BlockingMethod {
+    const blockingType = measurement.scores?.analysis?.blocking_type ?? testKeys?.blocking;
+    if (typeof blockingType === 'string') {
+        if (blockingType === 'dns') return 'dns';
+        if (blockingType === 'tcp_ip') return 'tcp';
+        if (blockingType.startsWith('http')) {
+            // An HTTPS fetch that failed in the handshake is TLS interference
+            const failure = testKeys?.http_experiment_failure;
+            return typeof failure === 'string' && classifyFailure(failure) === 'tls' ? 'tls' : 'http';
+        }
+    }
+
+    if (!testKeys) return 'unknown';
+    if (testKeys.telegram_tcp_blocking === true) return 'tcp';
+    if (testKeys.telegram_http_blocking === true) return 'http';
+
+    const failed = stageFailures(testKeys);
+    const first = STAGES.find(stage => failed.has(stage.method));
+    if (first) return first.method;
+
+    const failure = testKeys.failure ?? testKeys.signal_backend_failure ?? testKeys.registration_server_failure;
+    return typeof failure === 'string' ? classifyFailure(failure) : 'unknown';
+}
+
+function countMethods(methods: BlockingMethod[]): Partial<Record<BlockingMethod, number>> {
+    const counts: Partial<Record<BlockingMethod, number>> = {};
+    for (const method of methods) {
+        counts[method] = (counts[method] || 0) + 1;
+    }
+    return counts;
+}
+
 export class OONIClient {
     private baseUrl = 'https://api.ooni.io/api/v1';
+    private options: OONIClientOptions;
+    private measurementCache = new Map<string, { measurements: OONIMeasurement[]; timestamp: number }>();
+    // Full measurements never change
+    private detailCache = new Map<string, any>();
+
+    constructor(options: Partial<OONIClientOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    get watchlist(): OONIWatchTarget[] {
+        return this.options.watchlist;
+    }
 
     /**
-     * Get recent measurements for Iran
-     * specialized for social media and messaging apps
+     * Recent measurements of one test, optionally limited to a domain (cached for a few minutes)
      */
     async getMeasurements(
         countryCode: string = 'IR',
-        domain: string = 'twitter.com',
-        limit: number = 50
+        testName: OONITestName = 'web_connectivity',
+        domain?: string,
+        limit: number = this.options.limit
     ): Promise<OONIMeasurement[]> {
+        const since = new Date(Date.now() - this.options.windowHours * 60 * 60 * 1000);
         const params = new URLSearchParams({
             probe_cc: countryCode,
-            input: `https://${domain}/`,
+            test_name: testName,
+            // Hour precision keeps the URL (and cache key) stable between runs
+            since: since.toISOString().slice(0, 13) + ':00:00',
             limit: limit.toString(),
             order_by: 'measurement_start_time',
             order: 'desc'
         });
+        if (domain) params.set('domain', domain);
 
         const url = `${this.baseUrl}/measurements?${params}`;
+        const cached = this.measurementCache.get(url);
+        if (cached && Date.now() - cached.timestamp < this.options.cacheTtlMs) {
+            return cached.measurements;
+        }
 
         try {
             const response = await fetch(url);
             if (!response.ok) {
-                throw new Error(`OONI API error: ${response.statusText}`);
+                throw new Error(`OONI API error: ${response.status} ${response.statusText}`);
             }
 
-            const data = await response.json();
-
             // OONI returns { metadata: {}, results: [] }
-            return data.results || [];
+            const data = await response.json();
+            const measurements: OONIMeasurement[] = data.results || [];
 
+            this.cleanCache();
+            this.measurementCache.set(url, { measurements, timestamp: Date.now() });
+            return measurements;
         } catch (error) {
-            console.error('OONI Fetch Error', error);
-            return [];
+            logger.error('ooni_fetch_failed', {
+                test_name: testName,
+                domain,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw error;
         }
     }
 
     /**
-     * Get aggregate stats for critical services in the last 24h
+     * Test keys of a full measurement (null when OONI doesn't have it)
      */
-    async getCensorshipSummary(countryCode: string = 'IR') {
-        const targets = [
-            'twitter.com',
-            'instagram.com',
-            'telegram.org',
-            'whatsapp.com',
-            'youtube.com'
-        ];
-
-        const summary = [];
-
-        for (const target of targets) {
-            const measurements = await this.getMeasurements(countryCode, target, 20);
-            const total = measurements.length;
-            const anomalies = measurements.filter(m => m.anomaly || m.confirmed).length;
-            const failures = measurements.filter(m => m.failure).length;
-            const ok = total - anomalies - failures;
-
-            summary.push({
-                domain: target,
-                total,
-                blocked: anomalies, // anomalies usually mean blocking in OONI context for these known sites
-                accessible: ok,
-                status: anomalies > (total * 0.5) ? 'Blocked' : anomalies > 0 ? 'Partial' : 'Accessible'
-            });
+    async getMeasurementDetails(measurementUid: string): Promise<any | null> {
+        if (this.detailCache.has(measurementUid)) {
+            return this.detailCache.get(measurementUid);
+        }
+
+        const params = new URLSearchParams({ measurement_uid: measurementUid, full: 'true' });
+        const response = await fetch(`${this.baseUrl}/measurement_meta?${params}`);
+        if (!response.ok) {
+            throw new Error(`OONI API error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const testKeys = data.raw_measurement ? JSON.parse(data.raw_measurement).test_keys ?? null : null;
+
+        if (this.detailCache.size >= MAX_CACHED_DETAILS) {
+            this.detailCache.delete(this.detailCache.keys().next().value!);
+        }
+        this.detailCache.set(measurementUid, testKeys);
+        return testKeys;
+    }
+
+    /**
+     * Blocking status of every watched target over the last day, overall and per network
+     */
+    async getCensorshipSummary(countryCode: string = 'IR'): Promise<OONITargetSummary[]> {
+        const targets = this.options.watchlist;
+        const summary: OONITargetSummary[] = new Array(targets.length);
+
+        for (let i = 0; i < targets.length; i += this.options.concurrency) {
+            const batch = targets.slice(i, i + this.options.concurrency);
+            const results = await Promise.all(batch.map(target => this.summarizeTarget(countryCode, target)));
+            results.forEach((result, j) => { summary[i + j] = result; });
         }
 
+        const failed = summary.filter(entry => entry.error).length;
+        logger.info('ooni_summary_fetched', { targets: targets.length, failed });
+
         return summary;
     }
+
+    private async summarizeTarget(countryCode: string, target: OONIWatchTarget): Promise<OONITargetSummary> {
+        const base = {
+            id: target.id,
+            name: target.name,
+            testName: target.testName,
+            category: target.category,
+            ...(target.domain && { domain: target.domain }),
+        };
+
+        let measurements: OONIMeasurement[];
+        try {
+            measurements = await this.getMeasurements(countryCode, target.testName, target.domain);
+        } catch (error) {
+            return {
+                ...base,
+                total: 0,
+                blocked: 0,
+                accessible: 0,
+                status: 'Unknown',
+                methods: {},
+                asns: [],
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+
+        const isBlocked = (m: OONIMeasurement) => m.anomaly || m.confirmed;
+        const methods = await this.classifyAll(measurements.filter(isBlocked));
+
+        const byAsn = new Map<string, OONIMeasurement[]>();
+        for (const measurement of measurements) {
+            const group = byAsn.get(measurement.probe_asn) || [];
+            group.push(measurement);
+            byAsn.set(measurement.probe_asn, group);
+        }
+
+        const asns = Array.from(byAsn.entries())
+            .map(([asn, group]) => {
+                const blocked = group.filter(isBlocked);
+                return {
+                    asn,
+                    total: group.length,
+                    blocked: blocked.length,
+                    status: statusForRate(blocked.length / group.length),
+                    methods: countMethods(blocked.map(m => methods.get(m.measurement_uid) || 'unknown')),
+                };
+            })
+            .sort((a, b) => b.total - a.total);
+
+        const total = measurements.length;
+        const blocked = measurements.filter(isBlocked).length;
+        const failures = measurements.filter(m => m.failure && !isBlocked(m)).length;
+
+        return {
+            ...base,
+            total,
+            blocked,
+            accessible: total - blocked - failures,
+            status: statusForRate(total > 0 ? blocked / total : null),
+            methods: countMethods(Array.from(methods.values())),
+            asns,
+            ...(measurements[0] && { lastMeasuredAt: measurements[0].measurement_start_time }),
+        };
+    }
+
+    /**
+     * Blocking method of each anomalous measurement. Those without a pipeline analysis
+     * are classified from their full test keys, up to `detailLimit` per target.
+     */
+    private async classifyAll(anomalies: OONIMeasurement[]): Promise<Map<string, BlockingMethod>> {
+        const methods = new Map<string, BlockingMethod>();
+        const needDetails: OONIMeasurement[] = [];
+
+        for (const measurement of anomalies) {
+            const method = classifyBlocking(measurement);
+            methods.set(measurement.measurement_uid, method);
+            if (method === 'unknown' && needDetails.length < this.options.detailLimit) {
+                needDetails.push(measurement);
+            }
+        }
+
+        const details = await Promise.allSettled(needDetails.map(m => this.getMeasurementDetails(m.measurement_uid)));
+        details.forEach((result, i) => {
+            if (result.status === 'fulfilled' && result.value) {
+                methods.set(needDetails[i].measurement_uid, classifyBlocking(needDetails[i], result.value));
+            }
+        });
+
+        const failed = details.filter(result => result.status === 'rejected').length;
+        if (failed > 0) {
+            logger.warn('ooni_details_failed', { failed, total: needDetails.length });
+        }
+
+        return methods;
+    }
+
+    private cleanCache() {
+        const now = Date.now();
+        for (const [key, value] of this.measurementCache.entries()) {
+            if (now - value.timestamp > this.options.cacheTtlMs) {
+                this.measurementCache.delete(key);
+            }
+        }
+    }
 }
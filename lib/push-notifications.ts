@@ -14,69 +14,132 @@ function ensureVapidConfigured() {
   }
 }
 
+export interface PushNotification {
+  title: string;
+  message: string;
+  url?: string;
+  tag?: string; // Notifications with the same tag replace each other on the device
+  id?: string; // Notification ID, echoed back by the service worker when clicked
+}
+
 /**
- * Helper function to send push notification
- * Can be called from other parts of the app
+ * Outcome for one subscription; 'expired' endpoints (404/410) will never accept pushes again
  */
-export async function sendPushNotification(title: string, message: string, url?: string) {
+export interface PushDeliveryResult {
+  subscriptionId: string;
+  status: 'sent' | 'failed' | 'expired';
+  statusCode?: number;
+  error?: string;
+}
+
+export interface PushResult {
+  success: boolean;
+  sent: number;
+  error?: unknown;
+  deliveries?: PushDeliveryResult[];
+}
+
+export interface PushTarget {
+  id: string;
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * Send one notification to the given subscriptions
+ */
+export async function sendPushToSubscriptions(subscriptions: PushTarget[], notification: PushNotification): Promise<PushResult> {
   if (!vapidPublicKey || !vapidPrivateKey) {
     logger.warn('vapid_keys_not_configured', {
       skipping_push: true,
-      notification_title: title,
+      notification_title: notification.title,
     });
     return { success: false, sent: 0 };
   }
 
+  if (subscriptions.length === 0) {
+    return { success: true, sent: 0 };
+  }
+
   // Configure VAPID details at runtime (not module load time)
   ensureVapidConfigured();
 
-  try {
-    const { getActiveSubscriptions } = await import('./subscriptions');
-    const subscriptions = await getActiveSubscriptions();
+  const payload = JSON.stringify({
+    title: notification.title,
+    body: notification.message,
+    url: notification.url || '/',
+    tag: notification.tag || 'news-update',
+    ...(notification.id && { id: notification.id }),
+    timestamp: Date.now(),
+  });
 
-    if (subscriptions.length === 0) {
-      return { success: true, sent: 0 };
+  const results = await Promise.allSettled(
+    subscriptions.map(sub =>
+      webPush.sendNotification(
+        {
+          endpoint: sub.endpoint,
+          keys: sub.keys,
+        },
+        payload
+      ).catch(error => {
+        if (error.statusCode === 410) {
+          logger.info('subscription_expired', {
+            subscription_id: sub.id,
+            status_code: error.statusCode,
+          });
+        }
+        throw error;
+      })
+    )
+  );
+
+  const deliveries: PushDeliveryResult[] = results.map((result, index) => {
+    const subscriptionId = subscriptions[index].id;
+    if (result.status === 'fulfilled') {
+      return { subscriptionId, status: 'sent' };
     }
 
-    const payload = JSON.stringify({
-      title,
-      body: message,
-      url: url || '/',
-      tag: 'news-update',
-      timestamp: Date.now(),
-    });
+    const statusCode: number | undefined = result.reason?.statusCode;
+    return {
+      subscriptionId,
+      status: statusCode === 404 || statusCode === 410 ? 'expired' : 'failed',
+      ...(statusCode && { statusCode }),
+      error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+    };
+  });
+  const successful = deliveries.filter(delivery => delivery.status === 'sent').length;
+
+  logger.info('push_notifications_sent', {
+    total_subscriptions: subscriptions.length,
+    successful: successful,
+    failed: subscriptions.length - successful,
+    notification_title: notification.title,
+  });
+
+  return { success: true, sent: successful, deliveries };
+}
 
-    const results = await Promise.allSettled(
-      subscriptions.map(sub =>
-        webPush.sendNotification(
-          {
-            endpoint: sub.endpoint,
-            keys: sub.keys,
-          },
-          payload
-        ).catch(error => {
-          if (error.statusCode === 410) {
-            logger.info('subscription_expired', {
-              subscription_id: sub.id,
-              status_code: error.statusCode,
-            });
-          }
-          throw error;
-        })
-      )
-    );
-
-    const successful = results.filter(r => r.status === 'fulfilled').length;
-
-    logger.info('push_notifications_sent', {
-      total_subscriptions: subscriptions.length,
-      successful: successful,
-      failed: subscriptions.length - successful,
+/**
+ * Helper function to send push notification to every subscriber
+ * Can be called from other parts of the app
+ */
+export async function sendPushNotification(title: string, message: string, url?: string): Promise<PushResult> {
+  if (!vapidPublicKey || !vapidPrivateKey) {
+    logger.warn('vapid_keys_not_configured', {
+      skipping_push: true,
       notification_title: title,
     });
+    return { success: false, sent: 0 };
+  }
 
-    return { success: true, sent: successful };
+  try {
+    const { getActiveSubscriptions } = await import('./subscriptions');
+    const subscriptions = await getActiveSubscriptions();
 
+    return await sendPushToSubscriptions(subscriptions, { title, message, url });
   } catch (error) {
     logger.error('push_notification_error', {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -0,0 +1,407 @@
+/**
+ * RSS 2.0 / Atom 1.0 feed fetching and parsing
+ * Used by RssNewsSource to follow diaspora outlets that publish feeds
+ */
+
+import { logger } from '@/lib/logger';
+
+export interface RssFeedConfig {
+  url: string;
+  name: string;
+}
+
+/**
+ * Diaspora outlets followed by default (override with RSS_FEEDS)
+ */
+export const DEFAULT_RSS_FEEDS: RssFeedConfig[] = [
+  { url: 'https://iranwire.com/fa/feed/', name: 'IranWire' },
+  { url: 'https://www.radiofarda.com/api/zrqiteuuir', name: 'Radio Farda' },
+  { url: 'https://feeds.bbci.co.uk/persian/rss.xml', name: 'BBC Persian' },
+];
+
+export interface FeedItem {
+  guid: string;
+  title: string;
+  link?: string;
+  description: string;
+  content: string;
+  author?: string;
+  categories: string[];
+  publishedAt?: number;
+  imageUrl?: string;
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom';
+  title: string;
+  link?: string;
+  language?: string;
+  items: FeedItem[];
+}
+
+export interface FeedValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FeedFetchResult {
+  notModified: boolean;
+  feed?: ParsedFeed;
+  validators: FeedValidators;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  zwnj: '\u200C',
+  zwj: '\u200D',
+  rlm: '',
+  lrm: '',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  laquo: '«',
+  raquo: '»',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+// Directional marks and embeddings carry no meaning once text leaves the feed
+// (the UI sets dir itself). ZWNJ/ZWJ are kept: they are part of Persian spelling.
+const BIDI_CONTROL_PATTERN = /[\u200E\u200F\u202A-\u202E\u2066-\u2069]/g;
+
+/**
+ * Decode XML/HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : match;
+    }
+    const named = NAMED_ENTITIES[entity.toLowerCase()];
+    return named !== undefined ? named : match;
+  });
+}
+
+/**
+ * Strip tags from an HTML fragment and normalize whitespace
+ */
+export function stripHtml(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(BIDI_CONTROL_PATTERN, '')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/\s*\n\s*\n\s*/g, '\n\n')
+    .trim();
+}
+
+function unwrapCdata(text: string): string {
+  return text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+}
+
+/**
+ * Convert an RSS/Atom text construct to plain text
+ * Handles both CDATA-wrapped HTML and entity-escaped HTML
+ */
+function htmlToText(raw: string): string {
+  const unwrapped = unwrapCdata(raw);
+  return stripHtml(/&lt;[a-z/!]/i.test(unwrapped) ? decodeEntities(unwrapped) : unwrapped);
+}
+
+function escapeTag(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Raw inner XML of every <tag>…</tag> occurrence (namespaced tags allowed, e.g. "content:encoded")
+ */
+function getTagContents(xml: string, tag: string): string[] {
+  const pattern = new RegExp(
+    `<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${escapeTag(tag)}>`,
+    'gi'
+  );
+  const results: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    results.push(match[1]);
+  }
+  return results;
+}
+
+function getTagText(xml: string, tag: string): string | undefined {
+  const [raw] = getTagContents(xml, tag);
+  if (raw === undefined) return undefined;
+  return unwrapCdata(raw).trim();
+}
+
+/**
+ * Attribute maps of every <tag …> occurrence, including self-closing ones
+ */
+function getTagAttributes(xml: string, tag: string): Record<string, string>[] {
+  const pattern = new RegExp(`<${escapeTag(tag)}(\\s[^>]*?)?\\/?>`, 'gi');
+  const results: Record<string, string>[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    const attrs: Record<string, string> = {};
+    const attrPattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let attr: RegExpExecArray | null;
+    while ((attr = attrPattern.exec(match[1] || '')) !== null) {
+      attrs[attr[1].toLowerCase()] = decodeEntities(attr[3] ?? attr[4] ?? '');
+    }
+    results.push(attrs);
+  }
+  return results;
+}
+
+function parseDate(value?: string): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function firstImageInHtml(html: string): string | undefined {
+  const match = decodeEntities(unwrapCdata(html)).match(/<img[^>]+src\s*=\s*["']([^"']+)["']/i);
+  return match?.[1];
+}
+
+/**
+ * Pick an image from enclosures, Media RSS, or the first inline <img>
+ */
+function extractImageUrl(itemXml: string, htmlBodies: string[]): string | undefined {
+  const enclosure = getTagAttributes(itemXml, 'enclosure').find(a =>
+    a.url && (a.type?.startsWith('image/') || /\.(jpe?g|png|gif|webp)(\?|$)/i.test(a.url))
+  );
+  if (enclosure) return enclosure.url;
+
+  // Atom: <link rel="enclosure" type="image/jpeg" href="…"/>
+  const atomEnclosure = getTagAttributes(itemXml, 'link').find(a =>
+    a.rel === 'enclosure' && a.href && a.type?.startsWith('image/')
+  );
+  if (atomEnclosure) return atomEnclosure.href;
+
+  const media = [
+    ...getTagAttributes(itemXml, 'media:content'),
+    ...getTagAttributes(itemXml, 'media:thumbnail'),
+  ].find(a => a.url && (!a.medium || a.medium === 'image') && (!a.type || a.type.startsWith('image/')));
+  if (media) return media.url;
+
+  for (const html of htmlBodies) {
+    const inline = firstImageInHtml(html);
+    if (inline) return inline;
+  }
+
+  return undefined;
+}
+
+function parseRssItem(itemXml: string): FeedItem | null {
+  const title = stripHtml(getTagText(itemXml, 'title') || '');
+  const link = getTagText(itemXml, 'link');
+  const rawDescription = getTagContents(itemXml, 'description')[0] || '';
+  const rawContent = getTagContents(itemXml, 'content:encoded')[0] || '';
+
+  const description = htmlToText(rawDescription);
+  const content = htmlToText(rawContent) || description;
+
+  if (!title && !content) return null;
+
+  return {
+    guid: getTagText(itemXml, 'guid') || link || title,
+    title: title || content.substring(0, 100),
+    link: link ? decodeEntities(link) : undefined,
+    description,
+    content,
+    author: stripHtml(getTagText(itemXml, 'dc:creator') || getTagText(itemXml, 'author') || '') || undefined,
+    categories: getTagContents(itemXml, 'category').map(htmlToText).filter(Boolean),
+    publishedAt: parseDate(getTagText(itemXml, 'pubDate') || getTagText(itemXml, 'dc:date')),
+    imageUrl: extractImageUrl(itemXml, [rawContent, rawDescription]),
+  };
+}
+
+function parseAtomEntry(entryXml: string): FeedItem | null {
+  const title = htmlToText(getTagContents(entryXml, 'title')[0] || '');
+  const links = getTagAttributes(entryXml, 'link');
+  const link = (links.find(l => !l.rel || l.rel === 'alternate') || links[0])?.href;
+  const rawSummary = getTagContents(entryXml, 'summary')[0] || '';
+  const rawContent = getTagContents(entryXml, 'content')[0] || '';
+
+  const description = htmlToText(rawSummary);
+  const content = htmlToText(rawContent) || description;
+
+  if (!title && !content) return null;
+
+  const authorXml = getTagContents(entryXml, 'author')[0];
+
+  return {
+    guid: getTagText(entryXml, 'id') || link || title,
+    title: title || content.substring(0, 100),
+    link,
+    description: description || content.substring(0, 300),
+    content,
+    author: authorXml ? stripHtml(getTagText(authorXml, 'name') || '') || undefined : undefined,
+    categories: getTagAttributes(entryXml, 'category').map(c => c.label || c.term).filter(Boolean),
+    publishedAt: parseDate(getTagText(entryXml, 'published') || getTagText(entryXml, 'updated')),
+    imageUrl: extractImageUrl(entryXml, [rawContent, rawSummary].map(decodeEntities)),
+  };
+}
+
+/**
+ * Parse an RSS 2.0 or Atom 1.0 document
+ * Returns null when the document is neither
+ */
+export function parseFeed(xml: string): ParsedFeed | null {
+  // Drop comments so commented-out items are not picked up
+  const doc = xml.replace(/<!--[\s\S]*?-->/g, '');
+
+  if (/<feed[\s>]/i.test(doc)) {
+    const header = doc.split(/<entry[\s>]/i)[0];
+    const headerLinks = getTagAttributes(header, 'link');
+    return {
+      format: 'atom',
+      title: htmlToText(getTagContents(header, 'title')[0] || ''),
+      link: (headerLinks.find(l => !l.rel || l.rel === 'alternate') || headerLinks[0])?.href,
+      language: doc.match(/<feed[^>]*\sxml:lang\s*=\s*["']([^"']+)["']/i)?.[1],
+      items: getTagContents(doc, 'entry')
+        .map(parseAtomEntry)
+        .filter((item): item is FeedItem => item !== null),
+    };
+  }
+
+  if (/<(rss|rdf:RDF)[\s>]/i.test(doc)) {
+    const channel = getTagContents(doc, 'channel')[0] || doc;
+    const header = channel.split(/<item[\s>]/i)[0];
+    return {
+      format: 'rss',
+      title: stripHtml(getTagText(header, 'title') || ''),
+      link: getTagText(header, 'link'),
+      language: getTagText(header, 'language') || getTagText(header, 'dc:language'),
+      items: getTagContents(doc, 'item')
+        .map(parseRssItem)
+        .filter((item): item is FeedItem => item !== null),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Fetch a feed with conditional GET
+ * Pass the validators from the previous fetch; a 304 returns notModified without a body
+ */
+export async function fetchFeed(
+  url: string,
+  validators: FeedValidators = {},
+  timeoutMs: number = 15000
+): Promise<FeedFetchResult> {
+  const headers: Record<string, string> = {
+    Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8',
+    'User-Agent': 'RiseUpNews/1.0 (+feed reader)',
+  };
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (response.status === 304) {
+    logger.debug('rss_feed_not_modified', { url });
+    return { notModified: true, validators };
+  }
+
+  if (!response.ok) {
+    throw new Error(`Feed request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const xml = await response.text();
+  const feed = parseFeed(xml);
+  if (!feed) {
+    throw new Error('Response is not an RSS or Atom feed');
+  }
+
+  return {
+    notModified: false,
+    feed,
+    validators: {
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+    },
+  };
+}
+
+/**
+ * Parse the RSS_FEEDS env var: comma-separated URLs, optionally "Name|URL"
+ * Entries without a valid http(s) URL are skipped with a warning
+ */
+export function parseFeedList(value?: string): RssFeedConfig[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      const [maybeName, maybeUrl] = entry.split('|').map(part => part.trim());
+      const url = maybeUrl || maybeName;
+
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        logger.warn('rss_feed_entry_invalid', { entry });
+        return [];
+      }
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        logger.warn('rss_feed_entry_invalid', { entry });
+        return [];
+      }
+
+      const name = maybeUrl ? maybeName : parsed.hostname.replace(/^www\./, '');
+      return [{ url, name }];
+    });
+}
+
+/**
+ * Load feeds from approved `rss` channel suggestions
+ */
+export async function getApprovedRssFeeds(): Promise<RssFeedConfig[]> {
+  const { getDb, isFirestoreAvailable } = await import('@/lib/firestore');
+  if (!isFirestoreAvailable()) {
+    return [];
+  }
+
+  try {
+    const snapshot = await getDb()
+      .collection('channel_suggestions')
+      .where('type', '==', 'rss')
+      .where('status', '==', 'approved')
+      .get();
+
+    return snapshot.docs
+      .map(doc => doc.data())
+      .filter(data => typeof data.url === 'string' && data.url.length > 0)
+      .map(data => ({
+        url: data.url as string,
+        name: (data.displayName as string) || (data.handle as string),
+      }));
+  } catch (error) {
+    logger.error('rss_approved_feeds_load_failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Persian/English text analysis for the local search index
+ * Turns text into index terms so that spellings of the same word meet:
+ * - Arabic letter forms become Persian (ي → ی, ك → ک, ة → ه), hamza forms
+ *   and آ become their base letter, diacritics and tatweel are dropped
+ * - Persian and Arabic-Indic digits become ASCII digits
+ * - a ZWNJ splits a word, so "خیابان‌های" and "خیابان های" both give خیابان
+ * - light stemming: Persian plural and comparative suffixes (ها, های, تر, ترین)
+ *   and the adjectival ی; English plurals and -ed / -ing
+ * Each term keeps the offsets of the word it came from, for highlighting.
+ */
+
+export interface AnalyzedToken {
+  term: string;
+  start: number; // Offset of the word in the original text
+  end: number;
+}
+
+// Words, including the diacritics (marks) and tatweel inside them
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}\u0640]+/gu;
+
+const LETTER_MAP: Record<string, string> = {
+  'ي': 'ی',
+  'ى': 'ی',
+  'ك': 'ک',
+  'ة': 'ه',
+  'ە': 'ه',
+};
+
+const STOP_WORDS = new Set([
+  // English
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'by', 'for', 'from', 'has', 'have', 'in',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with',
+  // Persian (normalized), including the affixes a ZWNJ splits off
+  'و', 'در', 'به', 'از', 'که', 'را', 'این', 'ان', 'با', 'برای', 'تا', 'یا', 'هم', 'نیز', 'است',
+  'بود', 'شد', 'شده', 'می', 'نمی', 'ها', 'های', 'هایی', 'تر', 'ترین', 'ای', 'اند', 'ام', 'اش',
+]);
+
+const PERSIAN_SUFFIXES = ['هایی', 'های', 'ها', 'ترین', 'تر', 'ی'];
+
+// Shortest stem a suffix may be stripped down to
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Normalize one word: letter forms, digits, diacritics and case
+ */
+export function normalizeWord(word: string): string {
+  return word
+    .normalize('NFKD') // Splits hamza and madda forms (أ ئ ؤ آ) and presentation forms into base + mark
+    .replace(/[\p{M}\u0640]/gu, '')
+    .replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+    .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[يىكةە]/g, letter => LETTER_MAP[letter])
+    .toLowerCase();
+}
+
+function stemPersian(word: string): string {
+  for (const suffix of PERSIAN_SUFFIXES) {
+    if (word.endsWith(suffix) && [...word].length - [...suffix].length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function stemEnglish(word: string): string {
+  let stem = word;
+  if (stem.endsWith('ies') && stem.length > 4) {
+    return stem.slice(0, -3) + 'y';
+  }
+  if (stem.endsWith('sses')) {
+    return stem.slice(0, -2);
+  }
+  if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem) && stem.length > 3) {
+    stem = stem.slice(0, -1);
+  }
+  if (stem.endsWith('ing') && stem.length > 5) {
+    stem = stem.slice(0, -3);
+  } else if (stem.endsWith('ed') && stem.length > 4) {
+    stem = stem.slice(0, -2);
+  } else {
+    return stem;
+  }
+  // stopped → stopp → stop
+  return /([b-df-hj-np-tv-z])\1$/.test(stem) && !/(ll|ss|zz)$/.test(stem) ? stem.slice(0, -1) : stem;
+}
+
+/**
+ * Index term for a normalized word
+ */
+export function stem(word: string): string {
+  if (/\p{Script=Arabic}/u.test(word)) {
+    return stemPersian(word);
+  }
+  if (/^[a-z]+$/.test(word)) {
+    return stemEnglish(word);
+  }
+  return word;
+}
+
+/**
+ * The index terms of a text, in order, with the offsets of their words
+ * Stop words and single letters are dropped
+ */
+export function analyze(text: string): AnalyzedToken[] {
+  const tokens: AnalyzedToken[] = [];
+  for (const match of (text ?? '').matchAll(WORD_PATTERN)) {
+    const word = normalizeWord(match[0]);
+    if (STOP_WORDS.has(word) || ([...word].length < 2 && !/^\d$/.test(word))) {
+      continue;
+    }
+    tokens.push({ term: stem(word), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+export interface QueryTerm {
+  term: string;
+  prefix: boolean; // Also matches longer terms: the last word while it is being typed
+}
+
+/**
+ * The terms of a search query; the last one matches as a prefix unless the
+ * query ends in a space or punctuation (the word is finished)
+ */
+export function analyzeQuery(query: string): QueryTerm[] {
+  const tokens = analyze(query);
+  const typing = tokens.length > 0 && tokens[tokens.length - 1].end === (query ?? '').length;
+
+  const terms: QueryTerm[] = [];
+  tokens.forEach(({ term }, i) => {
+    const prefix = typing && i === tokens.length - 1;
+    const existing = terms.find(other => other.term === term);
+    if (existing) {
+      existing.prefix = existing.prefix || prefix;
+    } else {
+      terms.push({ term, prefix });
+    }
+  });
+  return terms;
+}
@@ -0,0 +1,263 @@
+/**
+ * Connectivity Collector
+ * Pulls the upstream observatories once per run and appends to the store:
+ * - IODA: BGP / active probing / telescope signals since the last stored point, for the
+ *   country, each province and the major networks (the inputs of OutageMonitor)
+ * - OONI: anomaly rate per watched website or app (one point per hour)
+ * - Cloudflare Radar: BGP hijacks and route leaks as events (value = confidence / 1)
+ * Each provider fails independently; the run then compacts the store.
+ */
+
+import { IConnectivityStore, ConnectivityPoint, CompactionResult } from './i-connectivity-store';
+import { ConnectivitySeries, IODA_SIGNAL_TYPES, IODASignalType } from './series';
+import { MONITORED_NETWORKS } from './outage-scopes';
+import { IODAClient, IODASignal } from '@/lib/ioda-client';
+import { findProvince } from '@/lib/domain/provinces';
+import { OONIClient } from '@/lib/ooni-client';
+import { CloudflareRadarClient } from '@/lib/cloudflare-radar-client';
+import { logger } from '@/lib/logger';
+
+export type ConnectivityProvider = 'ioda' | 'ioda_province' | 'ioda_asn' | 'ooni' | 'radar';
+
+export interface ProviderCollectionResult {
+  provider: ConnectivityProvider;
+  status: 'ok' | 'failed';
+  points: number;
+  error?: string;
+}
+
+export interface CollectionResult {
+  points: number;
+  providers: ProviderCollectionResult[];
+  compaction: CompactionResult;
+  durationMs: number;
+}
+
+export interface ConnectivityCollectorOptions {
+  country: string;
+  iodaBackfillMs: number; // How far back the first IODA collection reaches
+  iodaConcurrency: number; // Parallel requests for province and network signals
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: ConnectivityCollectorOptions = {
+  country: 'IR',
+  iodaBackfillMs: 7 * 24 * HOUR,
+  iodaConcurrency: 6,
+};
+
+export class ConnectivityCollector {
+  private options: ConnectivityCollectorOptions;
+  private provinceRegions: Array<{ code: string; provinceId: string }> | null = null;
+
+  constructor(
+    private store: IConnectivityStore,
+    private ioda: IODAClient = new IODAClient(),
+    private ooni: OONIClient = new OONIClient(),
+    private radar: CloudflareRadarClient = new CloudflareRadarClient(),
+    options: Partial<ConnectivityCollectorOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async collect(now: number = Date.now()): Promise<CollectionResult> {
+    const startTime = Date.now();
+
+    const providers = await Promise.all([
+      this.run('ioda', () => this.collectIODA(now)),
+      this.run('ioda_province', () => this.collectIODAProvinces(now)),
+      this.run('ioda_asn', () => this.collectIODANetworks(now)),
+      this.run('ooni', () => this.collectOONI(now)),
+      this.run('radar', () => this.collectRadar()),
+    ]);
+
+    const compaction = await this.store.compact(now);
+    const points = providers.reduce((sum, provider) => sum + provider.points, 0);
+
+    logger.info('connectivity_collected', {
+      points,
+      failed: providers.filter(provider => provider.status === 'failed').map(provider => provider.provider),
+      rolled_up: compaction.rolledUp,
+      pruned: compaction.pruned,
+    });
+
+    return { points, providers, compaction, durationMs: Date.now() - startTime };
+  }
+
+  private async run(
+    provider: ConnectivityProvider,
+    collect: () => Promise<ConnectivityPoint[]>
+  ): Promise<ProviderCollectionResult> {
+    try {
+      const points = await this.store.write(await collect());
+      return { provider, status: 'ok', points };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('connectivity_provider_failed', { provider, error: message });
+      return { provider, status: 'failed', points: 0, error: message };
+    }
+  }
+
+  private async collectIODA(now: number): Promise<ConnectivityPoint[]> {
+    const { country } = this.options;
+    return this.collectIODAEntity(
+      signal => ConnectivitySeries.iodaCountry(country, signal),
+      (from, until) => this.ioda.getCountrySignals(country, from, until),
+      now
+    );
+  }
+
+  private async collectIODAProvinces(now: number): Promise<ConnectivityPoint[]> {
+    const regions = await this.getProvinceRegions();
+    return this.collectEach(regions, region =>
+      this.collectIODAEntity(
+        signal => ConnectivitySeries.iodaProvince(region.provinceId, signal),
+        (from, until) => this.ioda.getRegionSignals(region.code, from, until),
+        now
+      )
+    );
+  }
+
+  private async collectIODANetworks(now: number): Promise<ConnectivityPoint[]> {
+    return this.collectEach(MONITORED_NETWORKS, network =>
+      this.collectIODAEntity(
+        signal => ConnectivitySeries.iodaAsn(network.asn, signal),
+        (from, until) => this.ioda.getASNSignals(network.asn, from, until),
+        now
+      )
+    );
+  }
+
+  /**
+   * Signals of one IODA entity since its newest stored point
+   */
+  private async collectIODAEntity(
+    seriesFor: (signal: IODASignalType) => string,
+    fetchSignals: (from: number, until: number) => Promise<IODASignal>,
+    now: number
+  ): Promise<ConnectivityPoint[]> {
+    const latest = await this.store.getLatestTimestamp(seriesFor('bgp'));
+    const fromMs = Math.max(latest !== null ? latest + 1000 : 0, now - this.options.iodaBackfillMs);
+
+    // IODA works in seconds
+    const signals = await fetchSignals(Math.floor(fromMs / 1000), Math.floor(now / 1000));
+
+    return signals.timestamps.flatMap((seconds, i) =>
+      IODA_SIGNAL_TYPES.map(signal => ({
+        series: seriesFor(signal),
+        timestamp: seconds * 1000,
+        value: signals.values[signal][i],
+      }))
+    );
+  }
+
+  /**
+   * Run `collect` for every item, a few at a time. Individual failures are
+   * logged and skipped; the provider fails only if every item failed.
+   */
+  private async collectEach<T>(items: T[], collect: (item: T) => Promise<ConnectivityPoint[]>): Promise<ConnectivityPoint[]> {
+    const points: ConnectivityPoint[] = [];
+    let failures = 0;
+    let lastError: unknown;
+
+    for (let i = 0; i < items.length; i += this.options.iodaConcurrency) {
+      const results = await Promise.allSettled(items.slice(i, i + this.options.iodaConcurrency).map(collect));
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          points.push(...result.value);
+        } else {
+          failures++;
+          lastError = result.reason;
+        }
+      }
+    }
+
+    if (items.length > 0 && failures === items.length) {
+      throw lastError instanceof Error ? lastError : new Error(String(lastError));
+    }
+    if (failures > 0) {
+      logger.warn('connectivity_entities_partially_failed', { failed: failures, total: items.length });
+    }
+
+    return points;
+  }
+
+  /**
+   * IODA region codes of the provinces (looked up once per process)
+   */
+  private async getProvinceRegions(): Promise<Array<{ code: string; provinceId: string }>> {
+    if (this.provinceRegions) return this.provinceRegions;
+
+    const regions = await this.ioda.getRegions(this.options.country);
+    const matched = regions.flatMap(region => {
+      const province = findProvince(region.name);
+      return province ? [{ code: region.code, provinceId: province.id }] : [];
+    });
+
+    if (matched.length < regions.length) {
+      logger.warn('ioda_regions_unmatched', {
+        unmatched: regions.filter(region => !findProvince(region.name)).map(region => region.name),
+      });
+    }
+
+    this.provinceRegions = matched;
+    return matched;
+  }
+
+  private async collectOONI(now: number): Promise<ConnectivityPoint[]> {
+    const { country } = this.options;
+    const hour = Math.floor(now / HOUR) * HOUR;
+    const summary = await this.ooni.getCensorshipSummary(country);
+
+    if (summary.length > 0 && summary.every(entry => entry.error)) {
+      throw new Error(summary[0].error);
+    }
+
+    // No measurements means no data, not 0% anomalies
+    return summary
+      .filter(entry => entry.total > 0)
+      .map(entry => ({
+        series: ConnectivitySeries.ooniAnomalyRate(country, entry.id),
+        timestamp: hour,
+        value: Math.round((entry.blocked / entry.total) * 1000) / 10,
+        meta: { test: entry.testName, total: entry.total, blocked: entry.blocked, status: entry.status, ...entry.methods },
+      }));
+  }
+
+  private async collectRadar(): Promise<ConnectivityPoint[]> {
+    const [hijacks, leaks] = await Promise.all([this.radar.getBGPHijacks(), this.radar.getRouteLeaks()]);
+    const points: ConnectivityPoint[] = [];
+
+    for (const hijack of hijacks) {
+      const timestamp = Date.parse(hijack.detected_at || hijack.time);
+      if (!Number.isFinite(timestamp)) continue;
+
+      points.push({
+        series: ConnectivitySeries.radarHijacks(hijack.victim_as?.asn ?? 'unknown'),
+        timestamp,
+        value: hijack.confidence ?? 1,
+        meta: {
+          prefix: hijack.prefix,
+          type: hijack.hijack_type,
+          violatorAsn: hijack.violator_as?.asn ?? 0,
+          violatorName: hijack.violator_as?.name ?? '',
+        },
+      });
+    }
+
+    for (const leak of leaks) {
+      const timestamp = Date.parse(leak.detected_ts ?? leak.min_ts ?? leak.time);
+      if (!Number.isFinite(timestamp)) continue;
+
+      points.push({
+        series: ConnectivitySeries.radarLeaks(leak.origin_asn ?? leak.leak_asn ?? 'unknown'),
+        timestamp,
+        value: 1,
+        ...(leak.leak_asn && { meta: { leakAsn: leak.leak_asn } }),
+      });
+    }
+
+    return points;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Connectivity Store Interface
+ * Time series of connectivity signals (IODA, OONI, Cloudflare Radar) kept
+ * locally so history survives after upstream APIs move on or rate-limit us
+ */
+
+export type ConnectivityResolution = 'raw' | '1h' | '1d';
+
+export type ConnectivityMeta = Record<string, string | number | boolean>;
+
+/**
+ * One observation. Series names are `<provider>:<scope>:<metric>` (see series.ts)
+ */
+export interface ConnectivityPoint {
+  series: string;
+  timestamp: number; // ms
+  value: number;
+  meta?: ConnectivityMeta; // Event details (e.g. BGP hijack prefix), raw tier only
+}
+
+/**
+ * A point as returned by queries: raw points carry `meta`, rollups carry min/max/count
+ */
+export interface ConnectivitySample {
+  timestamp: number; // ms; bucket start for rollups
+  value: number; // Average over the bucket for rollups
+  min?: number;
+  max?: number;
+  count?: number;
+  meta?: ConnectivityMeta;
+}
+
+/**
+ * A storage tier: points at `resolution` kept for `retentionMs`
+ */
+export interface RetentionTier {
+  resolution: ConnectivityResolution;
+  bucketMs: number; // Nominal spacing for raw points
+  retentionMs: number;
+}
+
+export interface ConnectivityQuery {
+  series: string[]; // Exact names, or prefixes ending in '*'
+  from: number;
+  until: number;
+  resolution?: ConnectivityResolution | 'auto';
+  maxPoints?: number; // Per series, used by 'auto'
+}
+
+export interface ConnectivityQueryResult {
+  from: number;
+  until: number;
+  resolution: ConnectivityResolution;
+  series: Record<string, ConnectivitySample[]>;
+}
+
+export interface ConnectivitySeriesInfo {
+  series: string;
+  first: number;
+  last: number;
+  points: number; // Raw points currently retained
+}
+
+export interface CompactionResult {
+  rolledUp: number; // Rollup buckets written
+  pruned: number; // Raw points and rollups past retention
+}
+
+export interface IConnectivityStore {
+  isAvailable(): boolean;
+  /**
+   * Insert or replace points (same series and timestamp overwrite)
+   */
+  write(points: ConnectivityPoint[]): Promise<number>;
+  getLatestTimestamp(series: string): Promise<number | null>;
+  query(query: ConnectivityQuery): Promise<ConnectivityQueryResult>;
+  listSeries(): Promise<ConnectivitySeriesInfo[]>;
+  /**
+   * Roll recent raw points up into the coarser tiers and drop data past retention
+   */
+  compact(now?: number): Promise<CompactionResult>;
+}
@@ -0,0 +1,71 @@
+/**
+ * OONI status changes
+ * Turns the stored hourly anomaly rates of each watched target into a
+ * "when did it change" history. A new status must hold for a few consecutive
+ * points before it counts, so one noisy hour doesn't flip a target back and forth.
+ */
+
+import { IConnectivityStore, ConnectivitySample } from './i-connectivity-store';
+import { statusForRate, OONIStatus } from '@/lib/ooni-client';
+
+export interface OONIStatusChange {
+  target: string; // Watchlist id (domain or app test)
+  at: number; // First point of the new status
+  from: OONIStatus;
+  to: OONIStatus;
+  anomalyRate: number; // Percent, at `at`
+}
+
+/**
+ * Status changes in one target's anomaly rate samples (percent, oldest first)
+ */
+export function findStatusChanges(
+  target: string,
+  samples: ConnectivitySample[],
+  minPoints: number = 2
+): OONIStatusChange[] {
+  const changes: OONIStatusChange[] = [];
+  let current: OONIStatus | null = null;
+  let candidate: { status: OONIStatus; index: number } | null = null;
+
+  samples.forEach((sample, index) => {
+    const status = statusForRate(sample.value / 100);
+
+    if (current === null) {
+      current = status;
+      return;
+    }
+    if (status === current) {
+      candidate = null;
+      return;
+    }
+    if (!candidate || candidate.status !== status) {
+      candidate = { status, index };
+    }
+    if (index - candidate.index + 1 >= minPoints) {
+      const first = samples[candidate.index];
+      changes.push({ target, at: first.timestamp, from: current, to: status, anomalyRate: first.value });
+      current = status;
+      candidate = null;
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Status changes of every stored OONI target between `from` and `until`, newest first
+ */
+export async function getOONIStatusChanges(
+  store: IConnectivityStore,
+  country: string,
+  from: number,
+  until: number = Date.now()
+): Promise<OONIStatusChange[]> {
+  const prefix = `ooni:${country}:`;
+  const { series } = await store.query({ series: [`${prefix}*`], from, until, resolution: '1h' });
+
+  return Object.entries(series)
+    .flatMap(([name, samples]) => findStatusChanges(name.slice(prefix.length).replace(/:anomaly_rate$/, ''), samples))
+    .sort((a, b) => b.at - a.at);
+}
@@ -0,0 +1,250 @@
+/**
+ * Outage Correlator
+ * Joins outage windows with incidents and articles by time and province:
+ * - incidents are placed in the province nearest to their location
+ * - articles are placed in the provinces of the incidents extracted from them,
+ *   plus any province they name
+ * Country and network outages cover every province. Anything reported while an
+ * outage covering its province was in progress is "reported under shutdown".
+ */
+
+import { IOutageRepository, OutageEvent, OutageScope } from './repositories/i-outage-repository';
+import { IncidentService } from '../incidents/incident-service';
+import { IArticleRepository } from '../news/repositories/i-article-repository';
+import { findNearestProvince, findProvincesInText } from '@/lib/domain/provinces';
+import type { Incident } from '@/lib/domain/incident';
+import { toMillis } from '@/lib/domain/time';
+import { logger } from '@/lib/logger';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * The outage an item was reported under
+ */
+export interface ShutdownAnnotation {
+  outageId: string;
+  scope: OutageScope;
+  onset: number;
+  recoveredAt?: number;
+}
+
+export type AnnotatedIncident = Incident & { reportedUnderShutdown?: ShutdownAnnotation };
+
+export type TimelineEntry =
+  | {
+    kind: 'outage';
+    id: string;
+    start: number;
+    end?: number; // Undefined while ongoing
+    scope: OutageScope;
+    severity: number;
+    confidence: number;
+  }
+  | {
+    kind: 'incident';
+    id: string;
+    at: number;
+    title: string;
+    type: Incident['type'];
+    provinceId?: string;
+    reportedUnderShutdown?: ShutdownAnnotation;
+  }
+  | {
+    kind: 'article';
+    id: string;
+    at: number;
+    title: string;
+    url?: string;
+    source: string;
+    provinceIds: string[];
+    reportedUnderShutdown?: ShutdownAnnotation;
+  };
+
+export interface OutageCorrelation {
+  outage: OutageEvent;
+  incidentIds: string[];
+  articleIds: string[];
+}
+
+export interface CorrelationResult {
+  from: number;
+  until: number;
+  correlations: OutageCorrelation[];
+  timeline: TimelineEntry[]; // Sorted by time (outage start, incident/article time)
+}
+
+/**
+ * Whether an outage was in progress at `at` in the province (country and network outages cover all)
+ */
+export function outageCovers(outage: OutageEvent, at: number, provinceIds: string[]): boolean {
+  const end = outage.recoveredAt ?? Number.POSITIVE_INFINITY;
+  if (at < outage.onset || at > end) return false;
+
+  return outage.scope.kind !== 'province' || provinceIds.includes(outage.scope.id);
+}
+
+/**
+ * The outage an item at `at` in these provinces was reported under, preferring
+ * the most local and then the most severe one
+ */
+export function findShutdown(
+  at: number,
+  provinceIds: string[],
+  outages: OutageEvent[]
+): ShutdownAnnotation | undefined {
+  const rank = (outage: OutageEvent) => (outage.scope.kind === 'province' ? 2 : outage.scope.kind === 'country' ? 1 : 0);
+  const match = outages
+    .filter(outage => outageCovers(outage, at, provinceIds))
+    .sort((a, b) => rank(b) - rank(a) || b.severity - a.severity)[0];
+
+  return match && {
+    outageId: match.id,
+    scope: match.scope,
+    onset: match.onset,
+    ...(match.recoveredAt !== undefined && { recoveredAt: match.recoveredAt }),
+  };
+}
+
+function incidentProvinceIds(incident: Pick<Incident, 'location'>): string[] {
+  const province = findNearestProvince(incident.location.lat, incident.location.lon);
+  return province ? [province.id] : [];
+}
+
+export class OutageCorrelator {
+  constructor(
+    private outages: IOutageRepository,
+    private incidents: IncidentService,
+    private articles: IArticleRepository
+  ) {}
+
+  /**
+   * Add `reportedUnderShutdown` to incidents that happened during an outage covering their province
+   */
+  async annotateIncidents(incidents: Incident[]): Promise<AnnotatedIncident[]> {
+    if (incidents.length === 0 || !this.outages.isAvailable()) return incidents;
+
+    try {
+      const earliest = Math.min(...incidents.map(incident => incident.timestamp));
+      const outages = await this.loadOutages(earliest);
+
+      return incidents.map(incident => {
+        const shutdown = findShutdown(incident.timestamp, incidentProvinceIds(incident), outages);
+        return shutdown ? { ...incident, reportedUnderShutdown: shutdown } : incident;
+      });
+    } catch (error) {
+      logger.warn('incident_shutdown_annotation_failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return incidents;
+    }
+  }
+
+  /**
+   * Outages between `from` and `until` with the incidents and articles reported during each,
+   * and all of them on one timeline
+   */
+  async correlate(from: number, until: number = Date.now()): Promise<CorrelationResult> {
+    const [outages, incidents, articles] = await Promise.all([
+      this.outages.isAvailable() ? this.loadOutages(from) : Promise.resolve([]),
+      this.incidents.getAll(),
+      this.articles.getRecent(Math.ceil((Date.now() - from) / HOUR)),
+    ]);
+
+    const inRange = (at: number) => at >= from && at <= until;
+    const windowOutages = outages.filter(outage => outage.onset <= until);
+
+    const incidentEntries = incidents
+      .filter(incident => inRange(incident.timestamp))
+      .map(incident => {
+        const provinceIds = incidentProvinceIds(incident);
+        const shutdown = findShutdown(incident.timestamp, provinceIds, windowOutages);
+        return {
+          kind: 'incident' as const,
+          id: incident.id,
+          at: incident.timestamp,
+          title: incident.title,
+          type: incident.type,
+          ...(provinceIds[0] && { provinceId: provinceIds[0] }),
+          ...(shutdown && { reportedUnderShutdown: shutdown }),
+        };
+      });
+
+    // Provinces of the incidents extracted from each article
+    const articleProvinces = new Map<string, Set<string>>();
+    for (const incident of incidents) {
+      for (const articleId of incident.articleIds || []) {
+        const provinces = articleProvinces.get(articleId) || new Set<string>();
+        incidentProvinceIds(incident).forEach(id => provinces.add(id));
+        articleProvinces.set(articleId, provinces);
+      }
+    }
+
+    const articleEntries = articles
+      .map(article => ({ article, at: toMillis(article.publishedAt) ?? NaN })) // Unparseable dates fall out of range
+      .filter(({ at }) => inRange(at))
+      .map(({ article, at }) => {
+        const provinceIds = Array.from(new Set([
+          ...(articleProvinces.get(article.id) || []),
+          ...findProvincesInText(article.title).map(province => province.id),
+        ]));
+        const shutdown = findShutdown(at, provinceIds, windowOutages);
+        return {
+          kind: 'article' as const,
+          id: article.id,
+          at,
+          title: article.title,
+          url: article.sourceUrl,
+          source: article.source,
+          provinceIds,
+          ...(shutdown && { reportedUnderShutdown: shutdown }),
+        };
+      });
+
+    const correlations = windowOutages.map(outage => ({
+      outage,
+      incidentIds: incidentEntries
+        .filter(entry => outageCovers(outage, entry.at, entry.provinceId ? [entry.provinceId] : []))
+        .map(entry => entry.id),
+      articleIds: articleEntries
+        .filter(entry => outageCovers(outage, entry.at, entry.provinceIds))
+        .map(entry => entry.id),
+    }));
+
+    const timeline: TimelineEntry[] = [
+      ...windowOutages.map(outage => ({
+        kind: 'outage' as const,
+        id: outage.id,
+        start: outage.onset,
+        ...(outage.recoveredAt !== undefined && { end: outage.recoveredAt }),
+        scope: outage.scope,
+        severity: outage.severity,
+        confidence: outage.confidence,
+      })),
+      ...incidentEntries,
+      ...articleEntries,
+    ].sort((a, b) => (a.kind === 'outage' ? a.start : a.at) - (b.kind === 'outage' ? b.start : b.at));
+
+    logger.info('outages_correlated', {
+      outages: windowOutages.length,
+      incidents: incidentEntries.length,
+      articles: articleEntries.length,
+      under_shutdown: [...incidentEntries, ...articleEntries].filter(entry => entry.reportedUnderShutdown).length,
+    });
+
+    return { from, until, correlations, timeline };
+  }
+
+  /**
+   * Outages that could cover anything since `since`: those that started since, and older ones
+   * that were still ongoing (or recovered) after it
+   */
+  private async loadOutages(since: number): Promise<OutageEvent[]> {
+    const [recent, ongoing] = await Promise.all([
+      this.outages.getSince(since - 7 * 24 * HOUR, 2000),
+      this.outages.getOngoing(),
+    ]);
+
+    const byId = new Map([...recent, ...ongoing].map(outage => [outage.id, outage]));
+    return Array.from(byId.values()).filter(outage => (outage.recoveredAt ?? Number.POSITIVE_INFINITY) >= since);
+  }
+}
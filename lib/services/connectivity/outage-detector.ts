@@ -0,0 +1,248 @@
+/**
+ * Outage Detector
+ * Learns a seasonal baseline per signal (median and MAD of the values seen at
+ * the same time of day over the training window) and flags points that fall
+ * well below what is normal for that time, so night-time dips are not outages
+ * but a shutdown at midday is, even in a province with little traffic.
+ *
+ * Signals vote with weights; a point is down when the weighted majority of the
+ * signals with a baseline is anomalous. An outage starts after `onsetPoints`
+ * consecutive down points and ends after `recoveryPoints` consecutive normal ones.
+ */
+
+import type { ConnectivitySample } from './i-connectivity-store';
+import type { OutageSignalSummary } from './repositories/i-outage-repository';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface OutageDetectorOptions {
+  periodMs: number; // Seasonality (one day)
+  slotMs: number; // Baseline resolution within the period
+  minSlotSamples: number; // Samples a slot needs before it can judge a point
+  minDrop: number; // Minimum relative drop (0-1) below the baseline median
+  zThreshold: number; // Minimum robust z-score below the baseline
+  onsetPoints: number;
+  recoveryPoints: number;
+  signalWeights: Record<string, number>;
+}
+
+export const DEFAULT_OUTAGE_DETECTOR_OPTIONS: OutageDetectorOptions = {
+  periodMs: DAY,
+  slotMs: HOUR,
+  minSlotSamples: 6,
+  minDrop: 0.3,
+  zThreshold: 3,
+  onsetPoints: 2,
+  recoveryPoints: 3,
+  // Telescope (unsolicited traffic) is noisy, so it only tips the balance
+  signalWeights: { bgp: 1, ping: 1, telescope: 0.5 },
+};
+
+export interface DetectedOutage {
+  onset: number;
+  recoveredAt?: number; // Undefined while still down at the end of the window
+  lastObservedAt: number;
+  confidence: number; // 0-1
+  severity: number; // 0-1
+  signals: OutageSignalSummary[];
+}
+
+interface SlotBaseline {
+  median: number;
+  mad: number;
+}
+
+interface SignalReading {
+  signal: string;
+  baseline: number;
+  observed: number;
+  drop: number;
+  anomalous: boolean;
+}
+
+interface DetectionPoint {
+  timestamp: number;
+  readings: SignalReading[];
+  score: number; // Weighted share of signals down, scaled by how far down
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Median and median absolute deviation of each time-of-day slot
+ */
+export class SeasonalBaseline {
+  private constructor(
+    private slots: Map<number, SlotBaseline>,
+    private options: Pick<OutageDetectorOptions, 'periodMs' | 'slotMs'>
+  ) {}
+
+  static fit(
+    samples: ConnectivitySample[],
+    options: Pick<OutageDetectorOptions, 'periodMs' | 'slotMs' | 'minSlotSamples'>
+  ): SeasonalBaseline {
+    const values = new Map<number, number[]>();
+    for (const sample of samples) {
+      if (!Number.isFinite(sample.value)) continue;
+      const slot = SeasonalBaseline.slotOf(sample.timestamp, options);
+      const slotValues = values.get(slot) || [];
+      slotValues.push(sample.value);
+      values.set(slot, slotValues);
+    }
+
+    const slots = new Map<number, SlotBaseline>();
+    for (const [slot, slotValues] of values) {
+      if (slotValues.length < options.minSlotSamples) continue;
+      const center = median(slotValues);
+      slots.set(slot, { median: center, mad: median(slotValues.map(value => Math.abs(value - center))) });
+    }
+
+    return new SeasonalBaseline(slots, options);
+  }
+
+  private static slotOf(timestamp: number, options: Pick<OutageDetectorOptions, 'periodMs' | 'slotMs'>): number {
+    return Math.floor((timestamp % options.periodMs) / options.slotMs);
+  }
+
+  expected(timestamp: number): SlotBaseline | undefined {
+    return this.slots.get(SeasonalBaseline.slotOf(timestamp, this.options));
+  }
+}
+
+export class OutageDetector {
+  private options: OutageDetectorOptions;
+
+  constructor(options: Partial<OutageDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_OUTAGE_DETECTOR_OPTIONS, ...options };
+  }
+
+  /**
+   * Fit baselines on samples before `evaluateFrom` and find outages from then on
+   * @param signals - Samples per signal name (bgp, ping, telescope)
+   */
+  detect(signals: Record<string, ConnectivitySample[]>, evaluateFrom: number): DetectedOutage[] {
+    const baselines = new Map<string, SeasonalBaseline>();
+    const evaluated = new Map<string, Map<number, number>>();
+
+    for (const [signal, samples] of Object.entries(signals)) {
+      if (!this.options.signalWeights[signal]) continue;
+      baselines.set(signal, SeasonalBaseline.fit(samples.filter(s => s.timestamp < evaluateFrom), this.options));
+      evaluated.set(signal, new Map(samples.filter(s => s.timestamp >= evaluateFrom).map(s => [s.timestamp, s.value])));
+    }
+
+    const timestamps = Array.from(new Set(Array.from(evaluated.values()).flatMap(byTime => Array.from(byTime.keys()))))
+      .sort((a, b) => a - b);
+
+    const outages: DetectedOutage[] = [];
+    let current: DetectionPoint[] | null = null;
+    let downRun: DetectionPoint[] = [];
+    let upRun: number[] = [];
+
+    for (const timestamp of timestamps) {
+      const readings: SignalReading[] = [];
+      for (const [signal, byTime] of evaluated) {
+        const value = byTime.get(timestamp);
+        const expected = baselines.get(signal)!.expected(timestamp);
+        if (value === undefined || !expected || expected.median <= 0) continue;
+        readings.push(this.read(signal, value, expected));
+      }
+
+      const weight = readings.reduce((sum, r) => sum + this.options.signalWeights[r.signal], 0);
+      if (weight === 0) continue; // No baseline yet for this time of day
+
+      const anomalousWeight = readings
+        .filter(r => r.anomalous)
+        .reduce((sum, r) => sum + this.options.signalWeights[r.signal], 0);
+      const score = readings.reduce(
+        (sum, r) => sum + (r.anomalous ? this.options.signalWeights[r.signal] * Math.min(1, r.drop / (2 * this.options.minDrop)) : 0),
+        0
+      ) / weight;
+      const down = anomalousWeight / weight > 0.5;
+
+      if (!current) {
+        if (down) {
+          downRun.push({ timestamp, readings, score });
+          if (downRun.length >= this.options.onsetPoints) {
+            current = downRun;
+            downRun = [];
+          }
+        } else {
+          downRun = [];
+        }
+        continue;
+      }
+
+      if (down) {
+        current.push({ timestamp, readings, score });
+        upRun = [];
+      } else {
+        upRun.push(timestamp);
+        if (upRun.length >= this.options.recoveryPoints) {
+          outages.push(this.summarize(current, upRun[0]));
+          current = null;
+          upRun = [];
+        }
+      }
+    }
+
+    if (current) {
+      outages.push(this.summarize(current));
+    }
+
+    return outages;
+  }
+
+  private read(signal: string, value: number, expected: SlotBaseline): SignalReading {
+    const drop = Math.max(0, 1 - value / expected.median);
+    // 1.4826 * MAD estimates the standard deviation; the floor keeps flat signals from flagging noise
+    const spread = Math.max(1.4826 * expected.mad, expected.median * 0.02);
+    const z = (value - expected.median) / spread;
+
+    return {
+      signal,
+      baseline: expected.median,
+      observed: value,
+      drop,
+      anomalous: drop >= this.options.minDrop && z <= -this.options.zThreshold,
+    };
+  }
+
+  private summarize(points: DetectionPoint[], recoveredAt?: number): DetectedOutage {
+    // Largest drop per signal
+    const worst = new Map<string, SignalReading>();
+    for (const point of points) {
+      for (const reading of point.readings) {
+        const previous = worst.get(reading.signal);
+        if (!previous || reading.drop > previous.drop) worst.set(reading.signal, reading);
+      }
+    }
+
+    const totalWeight = Array.from(worst.keys()).reduce((sum, signal) => sum + this.options.signalWeights[signal], 0);
+    const severity = Array.from(worst.values())
+      .reduce((sum, reading) => sum + this.options.signalWeights[reading.signal] * reading.drop, 0) / totalWeight;
+    // Longer outages are more certain than a couple of points
+    const persistence = Math.min(1, points.length / (this.options.onsetPoints * 3));
+    const meanScore = points.reduce((sum, point) => sum + point.score, 0) / points.length;
+
+    return {
+      onset: points[0].timestamp,
+      ...(recoveredAt !== undefined && { recoveredAt }),
+      lastObservedAt: points[points.length - 1].timestamp,
+      confidence: round(meanScore * (0.5 + 0.5 * persistence)),
+      severity: round(Math.min(1, severity)),
+      signals: Array.from(worst.values()).map(reading => ({
+        signal: reading.signal,
+        baseline: round(reading.baseline),
+        observed: round(reading.observed),
+        drop: round(reading.drop),
+      })),
+    };
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Outage Monitor
+ * Runs OutageDetector over the stored IODA signals of every scope (country,
+ * provinces, major networks) and keeps one persisted OutageEvent per outage:
+ * - a detection that overlaps a recent event of the same scope updates it
+ *   (runs re-evaluate an overlapping window, so the same outage is seen again)
+ * - anything else opens a new event
+ * New ongoing events and events that just recovered are pushed to subscribers.
+ * Without a connectivity store, `detectFromSignals` judges live signals instead
+ * (nothing is persisted or pushed then).
+ */
+
+import { IConnectivityStore, ConnectivitySample } from './i-connectivity-store';
+import { IOutageRepository, OutageEvent, OutageScope } from './repositories/i-outage-repository';
+import { INotificationService } from '../notifications/i-notification-service';
+import { OutageDetector, DetectedOutage } from './outage-detector';
+import { getOutageScopes, getScopeKey, getScopeLocation, getScopeSeries } from './outage-scopes';
+import { IODA_SIGNAL_TYPES } from './series';
+import { logger } from '@/lib/logger';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface OutageMonitorOptions {
+  country: string;
+  trainingMs: number; // Baseline history before the evaluation window
+  windowMs: number; // Re-evaluated on every run
+  mergeGapMs: number; // Detections this close to an existing event belong to it
+}
+
+const DEFAULT_OPTIONS: OutageMonitorOptions = {
+  country: 'IR',
+  trainingMs: 7 * DAY,
+  windowMs: 6 * HOUR,
+  mergeGapMs: HOUR,
+};
+
+export interface OutageMonitorResult {
+  scopesChecked: number;
+  started: OutageEvent[];
+  updated: OutageEvent[];
+  recovered: OutageEvent[];
+}
+
+export class OutageMonitor {
+  private options: OutageMonitorOptions;
+
+  constructor(
+    private store: IConnectivityStore,
+    private repository: IOutageRepository,
+    private notifications?: INotificationService,
+    private detector: OutageDetector = new OutageDetector(),
+    options: Partial<OutageMonitorOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async run(now: number = Date.now()): Promise<OutageMonitorResult> {
+    const result: OutageMonitorResult = { scopesChecked: 0, started: [], updated: [], recovered: [] };
+
+    if (!this.repository.isAvailable()) {
+      logger.warn('storage_unavailable_outage_monitor_skipped');
+      return result;
+    }
+
+    const evaluateFrom = now - this.options.windowMs;
+    // Ongoing events can be older than the window; recent ones catch re-detections of recovered outages
+    const existing = new Map<string, OutageEvent>();
+    for (const event of [
+      ...(await this.repository.getSince(evaluateFrom - this.options.windowMs)),
+      ...(await this.repository.getOngoing()),
+    ]) {
+      existing.set(event.id, event);
+    }
+
+    for (const scope of getOutageScopes(this.options.country)) {
+      const detected = await this.detectScope(scope, evaluateFrom, now);
+      if (detected === null) continue;
+      result.scopesChecked++;
+
+      const scopeKey = getScopeKey(scope);
+      const events = Array.from(existing.values()).filter(event => event.scopeKey === scopeKey);
+
+      for (const outage of detected) {
+        const match = events.find(event => this.overlaps(event, outage));
+        if (match) {
+          const updated = this.merge(match, outage, now);
+          existing.set(updated.id, updated);
+          events[events.indexOf(match)] = updated;
+          if (match.status === 'ongoing' && updated.status === 'recovered') {
+            result.recovered.push(updated);
+          } else {
+            result.updated.push(updated);
+          }
+          continue;
+        }
+
+        const event = this.toEvent(scope, outage, now);
+        existing.set(event.id, event);
+        events.push(event);
+        if (event.status === 'ongoing') {
+          result.started.push(event);
+        } else {
+          result.updated.push(event);
+        }
+      }
+
+      // An ongoing event the detector no longer sees (the window has moved past it) has recovered
+      for (const event of events) {
+        const current = existing.get(event.id)!;
+        if (current.status === 'ongoing' && current.lastObservedAt < evaluateFrom) {
+          const recovered = { ...current, status: 'recovered' as const, recoveredAt: evaluateFrom, updatedAt: now };
+          existing.set(recovered.id, recovered);
+          result.recovered.push(recovered);
+        }
+      }
+    }
+
+    await this.repository.saveMany([...result.started, ...result.updated, ...result.recovered]);
+
+    logger.info('outages_monitored', {
+      scopes_checked: result.scopesChecked,
+      started: result.started.length,
+      updated: result.updated.length,
+      recovered: result.recovered.length,
+    });
+
+    if (this.notifications && (result.started.length > 0 || result.recovered.length > 0)) {
+      this.notifications.notifyOutages(result.started, result.recovered).catch(error =>
+        logger.error('outage_notification_failed', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * How much signal history a detection needs: the training window plus the evaluation window
+   */
+  getHistoryMs(): number {
+    return this.options.trainingMs + this.options.windowMs;
+  }
+
+  /**
+   * Outages of one scope in signals read elsewhere (e.g. live from IODA), not persisted
+   * The signals should cover getHistoryMs() up to now
+   */
+  detectFromSignals(
+    scope: OutageScope,
+    signals: Record<string, ConnectivitySample[]>,
+    now: number = Date.now()
+  ): OutageEvent[] {
+    return this.detector
+      .detect(signals, now - this.options.windowMs)
+      .map(outage => this.toEvent(scope, outage, now));
+  }
+
+  /**
+   * Detected outages for a scope, or null when the store has no recent data for it
+   */
+  private async detectScope(scope: OutageScope, evaluateFrom: number, now: number): Promise<DetectedOutage[] | null> {
+    const series = IODA_SIGNAL_TYPES.map(signal => getScopeSeries(scope, signal));
+    const { series: samples } = await this.store.query({
+      series,
+      from: evaluateFrom - this.options.trainingMs,
+      until: now,
+      resolution: 'raw',
+    });
+
+    // Without fresh points there is nothing to judge (and no reason to close ongoing events)
+    const hasFreshPoints = series.some(name => (samples[name] || []).some(sample => sample.timestamp >= evaluateFrom));
+    if (!hasFreshPoints) {
+      return null;
+    }
+
+    const signals = Object.fromEntries(IODA_SIGNAL_TYPES.map((signal, i) => [signal, samples[series[i]] || []]));
+    return this.detector.detect(signals, evaluateFrom);
+  }
+
+  private overlaps(event: OutageEvent, outage: DetectedOutage): boolean {
+    const eventEnd = event.recoveredAt ?? event.lastObservedAt;
+    const outageEnd = outage.recoveredAt ?? outage.lastObservedAt;
+
+    return outage.onset <= eventEnd + this.options.mergeGapMs && outageEnd >= event.onset - this.options.mergeGapMs;
+  }
+
+  private merge(event: OutageEvent, outage: DetectedOutage, now: number): OutageEvent {
+    const lastObservedAt = Math.max(event.lastObservedAt, outage.lastObservedAt);
+    // Still down if the detector sees it ongoing, or if it recovered before a later observation
+    const recoveredAt = outage.recoveredAt !== undefined && outage.recoveredAt > lastObservedAt
+      ? outage.recoveredAt
+      : undefined;
+
+    return {
+      ...event,
+      onset: Math.min(event.onset, outage.onset),
+      status: recoveredAt !== undefined ? 'recovered' : 'ongoing',
+      recoveredAt,
+      lastObservedAt,
+      confidence: Math.max(event.confidence, outage.confidence),
+      severity: Math.max(event.severity, outage.severity),
+      signals: outage.severity >= event.severity ? outage.signals : event.signals,
+      updatedAt: now,
+    };
+  }
+
+  private toEvent(scope: OutageScope, outage: DetectedOutage, now: number): OutageEvent {
+    const scopeKey = getScopeKey(scope);
+    const location = getScopeLocation(scope);
+
+    return {
+      id: `${scopeKey}:${outage.onset}`,
+      scopeKey,
+      scope,
+      status: outage.recoveredAt !== undefined ? 'recovered' : 'ongoing',
+      onset: outage.onset,
+      ...(outage.recoveredAt !== undefined && { recoveredAt: outage.recoveredAt }),
+      lastObservedAt: outage.lastObservedAt,
+      confidence: outage.confidence,
+      severity: outage.severity,
+      signals: outage.signals,
+      ...(location && { location }),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+}
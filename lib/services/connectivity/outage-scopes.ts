@@ -0,0 +1,66 @@
+/**
+ * Outage scopes: the country, each province and the major networks.
+ * Each scope maps to one IODA entity whose signals the collector stores.
+ */
+
+import { IRAN_PROVINCES, getProvince } from '@/lib/domain/provinces';
+import { ConnectivitySeries, IODASignalType } from './series';
+import type { OutageScope } from './repositories/i-outage-repository';
+
+export interface MonitoredNetwork {
+  asn: number;
+  name: string;
+}
+
+/**
+ * Major Iranian networks (fixed line backbone and mobile operators)
+ */
+export const MONITORED_NETWORKS: MonitoredNetwork[] = [
+  { asn: 58224, name: 'TCI' },
+  { asn: 44244, name: 'Irancell' },
+  { asn: 197207, name: 'MCI' },
+  { asn: 31549, name: 'Shatel' },
+];
+
+export function getOutageScopes(country: string = 'IR'): OutageScope[] {
+  return [
+    { kind: 'country', id: country, name: country === 'IR' ? 'Iran' : country },
+    ...IRAN_PROVINCES.map(province => ({ kind: 'province' as const, id: province.id, name: province.name })),
+    ...MONITORED_NETWORKS.map(network => ({ kind: 'asn' as const, id: String(network.asn), name: network.name })),
+  ];
+}
+
+/**
+ * Whether a scope is in the country: provinces and monitored networks are all Iranian
+ */
+export function isScopeInCountry(scope: Pick<OutageScope, 'kind' | 'id'>, country: string): boolean {
+  return scope.kind === 'country' ? scope.id === country : country === 'IR';
+}
+
+export function getScopeKey(scope: Pick<OutageScope, 'kind' | 'id'>): string {
+  return `${scope.kind}:${scope.id}`;
+}
+
+/**
+ * Store series holding one IODA signal of a scope
+ */
+export function getScopeSeries(scope: OutageScope, signal: IODASignalType): string {
+  switch (scope.kind) {
+    case 'country':
+      return ConnectivitySeries.iodaCountry(scope.id, signal);
+    case 'province':
+      return ConnectivitySeries.iodaProvince(scope.id, signal);
+    case 'asn':
+      return ConnectivitySeries.iodaAsn(scope.id, signal);
+  }
+}
+
+/**
+ * Map position of a scope (provinces only)
+ */
+export function getScopeLocation(scope: OutageScope): { lat: number; lon: number } | undefined {
+  if (scope.kind !== 'province') return undefined;
+
+  const province = getProvince(scope.id);
+  return province && { lat: province.lat, lon: province.lon };
+}
@@ -0,0 +1,29 @@
+import { IOutageRepository, OutageEvent } from './i-outage-repository';
+import {
+  getOutageEvents,
+  getOngoingOutageEvents,
+  saveOutageEvents,
+  isFirestoreAvailable,
+} from '@/lib/firestore';
+
+export class FirestoreOutageRepository implements IOutageRepository {
+  isAvailable(): boolean {
+    return isFirestoreAvailable();
+  }
+
+  async getSince(since: number, limit: number = 500): Promise<OutageEvent[]> {
+    return getOutageEvents(since, limit);
+  }
+
+  async getOngoing(): Promise<OutageEvent[]> {
+    return getOngoingOutageEvents();
+  }
+
+  async saveMany(events: OutageEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    await saveOutageEvents(events);
+  }
+}
@@ -0,0 +1,10 @@
+import { OutageEvent } from '@/lib/firestore';
+
+export type { OutageEvent, OutageScope, OutageScopeKind, OutageSignalSummary } from '@/lib/firestore';
+
+export interface IOutageRepository {
+  isAvailable(): boolean;
+  getSince(since: number, limit?: number): Promise<OutageEvent[]>;
+  getOngoing(): Promise<OutageEvent[]>;
+  saveMany(events: OutageEvent[]): Promise<void>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Connectivity series names: `<provider>:<scope>:<metric>`
+ * Query a whole family with a trailing '*', e.g. `ioda:country:IR:*`
+ */
+
+export type IODASignalType = 'bgp' | 'ping' | 'telescope';
+
+export const IODA_SIGNAL_TYPES: IODASignalType[] = ['bgp', 'ping', 'telescope'];
+
+export const ConnectivitySeries = {
+  iodaCountry: (country: string, signal: IODASignalType) => `ioda:country:${country}:${signal}`,
+  iodaProvince: (provinceId: string, signal: IODASignalType) => `ioda:province:${provinceId}:${signal}`,
+  iodaAsn: (asn: number | string, signal: IODASignalType) => `ioda:asn:${asn}:${signal}`,
+  ooniAnomalyRate: (country: string, target: string) => `ooni:${country}:${target}:anomaly_rate`, // Target: domain or app test
+  radarHijacks: (asn: number | string) => `radar:as${asn}:bgp_hijack`,
+  radarLeaks: (asn: number | string) => `radar:as${asn}:route_leak`,
+};
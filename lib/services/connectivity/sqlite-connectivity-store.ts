@@ -0,0 +1,285 @@
+/**
+ * SQLite connectivity store
+ * Always a local file, whatever STORAGE_BACKEND is: the point is to keep history
+ * on the machine serving the dashboards. The file needs a persistent disk, so
+ * the store is only available where one is configured: CONNECTIVITY_DB_PATH, or
+ * data/connectivity.db next to the main database with the sqlite backend.
+ * Serverless deployments (read-only or ephemeral disk) have none.
+ * Raw points go to `connectivity_points`; `compact()` aggregates them into
+ * `connectivity_rollups` per tier and applies each tier's retention.
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import {
+  IConnectivityStore,
+  ConnectivityPoint,
+  ConnectivityQuery,
+  ConnectivityQueryResult,
+  ConnectivityResolution,
+  ConnectivitySample,
+  ConnectivitySeriesInfo,
+  CompactionResult,
+  RetentionTier,
+} from './i-connectivity-store';
+import { logger } from '@/lib/logger';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_RETENTION_TIERS: RetentionTier[] = [
+  { resolution: 'raw', bucketMs: 5 * MINUTE, retentionMs: 14 * DAY },
+  { resolution: '1h', bucketMs: HOUR, retentionMs: 180 * DAY },
+  { resolution: '1d', bucketMs: DAY, retentionMs: 5 * 365 * DAY },
+];
+
+const DEFAULT_MAX_POINTS = 1000;
+
+function defaultConnectivityDbPath(): string | null {
+  if (process.env.CONNECTIVITY_DB_PATH) {
+    return process.env.CONNECTIVITY_DB_PATH;
+  }
+  return process.env.STORAGE_BACKEND === 'sqlite' ? path.join(process.cwd(), 'data', 'connectivity.db') : null;
+}
+
+interface RollupRow {
+  bucket: number;
+  sum: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export class SqliteConnectivityStore implements IConnectivityStore {
+  private db: Database.Database | null = null;
+
+  constructor(
+    private file: string | null = defaultConnectivityDbPath(),
+    private tiers: RetentionTier[] = DEFAULT_RETENTION_TIERS
+  ) {}
+
+  isAvailable(): boolean {
+    if (!this.file) {
+      return false;
+    }
+
+    try {
+      this.getDb();
+      return true;
+    } catch (error) {
+      logger.error('connectivity_store_unavailable', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  async write(points: ConnectivityPoint[]): Promise<number> {
+    const valid = points.filter(point => Number.isFinite(point.value) && Number.isFinite(point.timestamp));
+    if (valid.length === 0) return 0;
+
+    const db = this.getDb();
+    const statement = db.prepare(
+      'INSERT OR REPLACE INTO connectivity_points (series, timestamp, value, meta) VALUES (?, ?, ?, ?)'
+    );
+
+    db.transaction((batch: ConnectivityPoint[]) => {
+      for (const point of batch) {
+        statement.run(point.series, Math.round(point.timestamp), point.value, point.meta ? JSON.stringify(point.meta) : null);
+      }
+    })(valid);
+
+    return valid.length;
+  }
+
+  async getLatestTimestamp(series: string): Promise<number | null> {
+    const row = this.getDb()
+      .prepare('SELECT MAX(timestamp) AS latest FROM connectivity_points WHERE series = ?')
+      .get(series) as { latest: number | null };
+
+    return row.latest;
+  }
+
+  async query(query: ConnectivityQuery): Promise<ConnectivityQueryResult> {
+    const resolution = !query.resolution || query.resolution === 'auto'
+      ? this.pickResolution(query.from, query.until, query.maxPoints ?? DEFAULT_MAX_POINTS)
+      : query.resolution;
+
+    const series: Record<string, ConnectivitySample[]> = {};
+    for (const name of this.expandSeries(query.series)) {
+      series[name] = resolution === 'raw'
+        ? this.queryRaw(name, query.from, query.until)
+        : this.queryRollups(name, resolution, query.from, query.until);
+    }
+
+    return { from: query.from, until: query.until, resolution, series };
+  }
+
+  async listSeries(): Promise<ConnectivitySeriesInfo[]> {
+    return this.getDb()
+      .prepare(
+        `SELECT series, MIN(first) AS first, MAX(last) AS last, SUM(points) AS points FROM (
+           SELECT series, MIN(timestamp) AS first, MAX(timestamp) AS last, COUNT(*) AS points
+             FROM connectivity_points GROUP BY series
+           UNION ALL
+           SELECT series, MIN(bucket), MAX(bucket), 0 FROM connectivity_rollups GROUP BY series
+         ) GROUP BY series ORDER BY series`
+      )
+      .all() as ConnectivitySeriesInfo[];
+  }
+
+  async compact(now: number = Date.now()): Promise<CompactionResult> {
+    const db = this.getDb();
+    const raw = this.tiers.find(tier => tier.resolution === 'raw');
+    const rawCutoff = now - (raw?.retentionMs ?? Infinity);
+    let rolledUp = 0;
+    let pruned = 0;
+
+    db.transaction(() => {
+      for (const tier of this.tiers) {
+        if (tier.resolution === 'raw') continue;
+
+        // Only buckets whose raw points are all still retained are (re)computed.
+        // Parameters bind as REAL, so the bucket width is cast for integer division.
+        const since = Number.isFinite(rawCutoff) ? Math.ceil(rawCutoff / tier.bucketMs) * tier.bucketMs : 0;
+        rolledUp += db.prepare(
+          `INSERT OR REPLACE INTO connectivity_rollups (series, resolution, bucket, sum, min, max, count)
+           SELECT series, @resolution, (timestamp / CAST(@width AS INTEGER)) * CAST(@width AS INTEGER),
+                  SUM(value), MIN(value), MAX(value), COUNT(*)
+             FROM connectivity_points WHERE timestamp >= @since
+             GROUP BY series, timestamp / CAST(@width AS INTEGER)`
+        ).run({ resolution: tier.resolution, width: tier.bucketMs, since }).changes;
+
+        pruned += db.prepare('DELETE FROM connectivity_rollups WHERE resolution = ? AND bucket < ?')
+          .run(tier.resolution, now - tier.retentionMs).changes;
+      }
+
+      if (Number.isFinite(rawCutoff)) {
+        pruned += db.prepare('DELETE FROM connectivity_points WHERE timestamp < ?').run(rawCutoff).changes;
+      }
+    })();
+
+    logger.info('connectivity_store_compacted', { rolled_up: rolledUp, pruned });
+    return { rolledUp, pruned };
+  }
+
+  /**
+   * Finest tier that still covers `from` and yields at most `maxPoints` per series
+   */
+  private pickResolution(from: number, until: number, maxPoints: number): ConnectivityResolution {
+    const now = Date.now();
+    const covering = this.tiers.filter(tier => from >= now - tier.retentionMs);
+    const fitting = covering.find(tier => (until - from) / tier.bucketMs <= maxPoints);
+
+    return (fitting ?? covering[covering.length - 1] ?? this.tiers[this.tiers.length - 1]).resolution;
+  }
+
+  private expandSeries(patterns: string[]): string[] {
+    const names = new Set<string>();
+
+    for (const pattern of patterns) {
+      if (!pattern.endsWith('*')) {
+        names.add(pattern);
+        continue;
+      }
+
+      const prefix = pattern.slice(0, -1).replace(/[\\%_]/g, match => `\\${match}`) + '%';
+      const rows = this.getDb()
+        .prepare(
+          `SELECT DISTINCT series FROM connectivity_points WHERE series LIKE ? ESCAPE '\\'
+           UNION SELECT DISTINCT series FROM connectivity_rollups WHERE series LIKE ? ESCAPE '\\'`
+        )
+        .all(prefix, prefix) as Array<{ series: string }>;
+      rows.forEach(row => names.add(row.series));
+    }
+
+    return Array.from(names).sort();
+  }
+
+  private queryRaw(series: string, from: number, until: number): ConnectivitySample[] {
+    const rows = this.getDb()
+      .prepare(
+        `SELECT timestamp, value, meta FROM connectivity_points
+          WHERE series = ? AND timestamp >= ? AND timestamp <= ? ORDER BY timestamp`
+      )
+      .all(series, from, until) as Array<{ timestamp: number; value: number; meta: string | null }>;
+
+    return rows.map(row => ({
+      timestamp: row.timestamp,
+      value: row.value,
+      ...(row.meta && { meta: JSON.parse(row.meta) }),
+    }));
+  }
+
+  private queryRollups(
+    series: string,
+    resolution: ConnectivityResolution,
+    from: number,
+    until: number
+  ): ConnectivitySample[] {
+    const bucketMs = this.tiers.find(tier => tier.resolution === resolution)?.bucketMs ?? 0;
+    const rows = this.getDb()
+      .prepare(
+        `SELECT bucket, sum, min, max, count FROM connectivity_rollups
+          WHERE series = ? AND resolution = ? AND bucket >= ? AND bucket <= ? ORDER BY bucket`
+      )
+      .all(series, resolution, Math.floor(from / bucketMs) * bucketMs, until) as RollupRow[];
+
+    return rows.map(row => ({
+      timestamp: row.bucket,
+      value: row.sum / row.count,
+      min: row.min,
+      max: row.max,
+      count: row.count,
+    }));
+  }
+
+  private getDb(): Database.Database {
+    if (this.db) return this.db;
+
+    if (!this.file) {
+      throw new Error('CONNECTIVITY_DB_PATH is not set');
+    }
+
+    if (this.file !== ':memory:') {
+      mkdirSync(path.dirname(this.file), { recursive: true });
+    }
+
+    const db = new Database(this.file);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS connectivity_points (
+        series TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        value REAL NOT NULL,
+        meta TEXT,
+        PRIMARY KEY (series, timestamp)
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS idx_connectivity_points_timestamp ON connectivity_points(timestamp);
+      CREATE TABLE IF NOT EXISTS connectivity_rollups (
+        series TEXT NOT NULL,
+        resolution TEXT NOT NULL,
+        bucket INTEGER NOT NULL,
+        sum REAL NOT NULL,
+        min REAL NOT NULL,
+        max REAL NOT NULL,
+        count INTEGER NOT NULL,
+        PRIMARY KEY (series, resolution, bucket)
+      ) WITHOUT ROWID;
+    `);
+
+    this.db = db;
+    logger.info('connectivity_store_initialized', { path: this.file });
+    return db;
+  }
+
+  /**
+   * Close the database (scripts and tests; the next call reopens it)
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+}
@@ -6,14 +6,93 @@
 import { NewsService } from './news/news-service';
 import { PerplexityNewsSource } from './news/sources/perplexity-source';
 import { TelegramNewsSource } from './news/sources/telegram-source';
+import { RssNewsSource } from './news/sources/rss-source';
 import { MinHashDeduplicator } from './news/deduplication/minhash-deduplicator';
 import { FirestoreArticleRepository } from './news/repositories/firestore-article-repository';
+import { SqliteArticleRepository } from './news/repositories/sqlite-article-repository';
+import { IArticleRepository } from './news/repositories/i-article-repository';
+import { LocalSearchIndex } from './search/local-search-index';
+import { IndexedArticleRepository } from './search/indexed-article-repository';
+import { FirestoreCursorRepository } from './news/repositories/firestore-cursor-repository';
+import { SqliteCursorRepository } from './news/repositories/sqlite-cursor-repository';
+import { InMemoryCursorRepository } from './news/repositories/in-memory-cursor-repository';
+import { ICursorRepository } from './news/repositories/i-cursor-repository';
+import { FirestoreStoryRepository } from './news/stories/firestore-story-repository';
+import { SqliteStoryRepository } from './news/stories/sqlite-story-repository';
+import { IStoryRepository } from './news/stories/i-story-repository';
+import { StoryClusterer } from './news/stories/story-clusterer';
+import { FirestoreRevisionRepository } from './news/revisions/firestore-revision-repository';
+import { SqliteRevisionRepository } from './news/revisions/sqlite-revision-repository';
+import { IRevisionRepository } from './news/revisions/i-revision-repository';
+import { RevisionTracker } from './news/revisions/revision-tracker';
 import { PushNotificationService } from './notifications/push-notification-service';
+import { ConnectivityAlerter } from './notifications/connectivity-alerter';
+import { MAX_NOTIFICATIONS_PER_HOUR } from './notifications/subscription-matcher';
+import { INotificationService } from './notifications/i-notification-service';
+import { FirestoreSubscriptionRepository } from './notifications/repositories/firestore-subscription-repository';
+import { SqliteSubscriptionRepository } from './notifications/repositories/sqlite-subscription-repository';
+import { ISubscriptionRepository } from './notifications/repositories/i-subscription-repository';
+import { DeliveryLog } from './notifications/delivery-log';
+import { DigestService } from './notifications/digest-service';
+import { FirestoreDeliveryRepository } from './notifications/repositories/firestore-delivery-repository';
+import { SqliteDeliveryRepository } from './notifications/repositories/sqlite-delivery-repository';
+import { IDeliveryRepository } from './notifications/repositories/i-delivery-repository';
+import { FirestoreDigestRepository } from './notifications/repositories/firestore-digest-repository';
+import { SqliteDigestRepository } from './notifications/repositories/sqlite-digest-repository';
+import { IDigestRepository } from './notifications/repositories/i-digest-repository';
 import { IncidentExtractorService } from './incidents/incident-extractor-service';
 import { IncidentService } from './incidents/incident-service';
+import { FirestoreIncidentRepository } from './incidents/repositories/firestore-incident-repository';
+import { SqliteIncidentRepository } from './incidents/repositories/sqlite-incident-repository';
+import { IIncidentRepository } from './incidents/repositories/i-incident-repository';
+import { FirestoreSnapshotRepository } from './snapshots/firestore-snapshot-repository';
+import { SqliteSnapshotRepository } from './snapshots/sqlite-snapshot-repository';
+import { ISnapshotRepository } from './snapshots/i-snapshot-repository';
 import { InMemoryRateLimiter } from './rate-limit/in-memory-rate-limiter';
 import { RedisRateLimiter } from './rate-limit/redis-rate-limiter';
 import { IRateLimiter } from './rate-limit/i-rate-limiter';
+import { ArticleVerifier } from './verification/article-verifier';
+import { IArticleVerifier } from './verification/i-article-verifier';
+import { FirestoreReputationRepository } from './reputation/repositories/firestore-reputation-repository';
+import { SqliteReputationRepository } from './reputation/repositories/sqlite-reputation-repository';
+import { IReputationRepository } from './reputation/repositories/i-reputation-repository';
+import { ReputationLedger } from './reputation/reputation-ledger';
+import { IReputationLedger } from './reputation/i-reputation-ledger';
+import { ReputationTrackingIncidentRepository } from './reputation/reputation-tracking-incident-repository';
+import { SqliteConnectivityStore } from './connectivity/sqlite-connectivity-store';
+import { IConnectivityStore } from './connectivity/i-connectivity-store';
+import { ConnectivityCollector } from './connectivity/connectivity-collector';
+import { OutageMonitor } from './connectivity/outage-monitor';
+import { OutageCorrelator } from './connectivity/outage-correlator';
+import { FirestoreOutageRepository } from './connectivity/repositories/firestore-outage-repository';
+import { SqliteOutageRepository } from './connectivity/repositories/sqlite-outage-repository';
+import { IOutageRepository } from './connectivity/repositories/i-outage-repository';
+import { TelegramBot } from './telegram-bot/telegram-bot';
+import { TelegramBotTransport } from './telegram-bot/bot-transport';
+import { FirestoreBotChatRepository } from './telegram-bot/repositories/firestore-bot-chat-repository';
+import { SqliteBotChatRepository } from './telegram-bot/repositories/sqlite-bot-chat-repository';
+import { IBotChatRepository } from './telegram-bot/repositories/i-bot-chat-repository';
+import { MediaLibrary } from './media/media-library';
+import { IBlobStore } from './media/i-blob-store';
+import { DiskBlobStore } from './media/disk-blob-store';
+import { S3BlobStore } from './media/s3-blob-store';
+import { FirestoreMediaRepository } from './media/repositories/firestore-media-repository';
+import { SqliteMediaRepository } from './media/repositories/sqlite-media-repository';
+import { IMediaRepository } from './media/repositories/i-media-repository';
+import { TranslationMemory } from './translation/translation-memory';
+import { FirestoreTranslationMemoryRepository } from './translation/repositories/firestore-translation-memory-repository';
+import { SqliteTranslationMemoryRepository } from './translation/repositories/sqlite-translation-memory-repository';
+import { ITranslationMemoryRepository } from './translation/repositories/i-translation-memory-repository';
+import { TranslationGlossary } from './translation/translation-glossary';
+import { FirestoreGlossaryRepository } from './translation/repositories/firestore-glossary-repository';
+import { SqliteGlossaryRepository } from './translation/repositories/sqlite-glossary-repository';
+import { IGlossaryRepository } from './translation/repositories/i-glossary-repository';
+import { SourceHealthRegistry } from './news/health/source-health-registry';
+import { ISourceHealthRegistry } from './news/health/i-source-health-registry';
+import { DEFAULT_RSS_FEEDS, parseFeedList } from '@/lib/rss';
+import { OONIClient, DEFAULT_OONI_WATCHLIST, parseWatchlist } from '@/lib/ooni-client';
+import { isFirestoreAvailable } from '@/lib/firestore';
+import { isSqliteAvailable } from '@/lib/sqlite';
 import { logger } from '@/lib/logger';
 
 // Rate limit configurations for different endpoints
@@ -42,8 +121,28 @@ const RATE_LIMIT_CONFIGS = {
     keyPrefix: 'rl:search',
     failMode: 'open' as const,
   },
+  connectivityAlerts: {
+    maxRequests: 6,
+    windowMs: 3600000, // 1 hour, per subscriber
+    keyPrefix: 'rl:alerts',
+    failMode: 'open' as const, // A duplicate alert beats a missed shutdown
+  },
+  notificationBudget: {
+    maxRequests: MAX_NOTIFICATIONS_PER_HOUR, // The highest budget a subscriber can choose
+    windowMs: 3600000, // 1 hour, per subscriber
+    keyPrefix: 'rl:notify',
+    failMode: 'open' as const,
+  },
+  connectivityAlertDedup: {
+    maxRequests: 1,
+    windowMs: 7 * 24 * 3600000, // 7 days, per alert
+    keyPrefix: 'alert:sent',
+    failMode: 'open' as const,
+  },
 };
 
+export type StorageBackend = 'firestore' | 'sqlite';
+
 export class ServiceContainer {
   private static instances = new Map<string, any>();
 
@@ -59,18 +158,31 @@ export class ServiceContainer {
         process.env.TELEGRAM_SESSION_STRING,
         process.env.TELEGRAM_API_ID,
         process.env.TELEGRAM_API_HASH,
-        process.env.TELEGRAM_BOT_TOKEN
+        process.env.TELEGRAM_BOT_TOKEN,
+        this.getCursorRepository(),
+        this.getMediaLibrary()
       );
       sources.push(telegramSource);
 
+      if (process.env.RSS_ENABLED !== 'false') {
+        const configuredFeeds = parseFeedList(process.env.RSS_FEEDS);
+        sources.push(
+          new RssNewsSource(
+            configuredFeeds.length > 0 ? configuredFeeds : DEFAULT_RSS_FEEDS,
+            { includeApprovedSuggestions: true },
+            this.getCursorRepository()
+          )
+        );
+      }
+
       if (sources.length === 0) {
         throw new Error('No news sources configured');
       }
 
       const deduplicator = new MinHashDeduplicator();
-      const repository = new FirestoreArticleRepository();
-      const notificationService = new PushNotificationService();
-      const incidentExtractor = new IncidentExtractorService();
+      const repository = this.getArticleRepository();
+      const notificationService = this.getNotificationService();
+      const incidentExtractor = new IncidentExtractorService(this.getIncidentRepository());
 
       this.instances.set(
         'newsService',
@@ -79,7 +191,12 @@ export class ServiceContainer {
           deduplicator,
           repository,
           notificationService,
-          incidentExtractor
+          incidentExtractor,
+          this.getSourceHealthRegistry(),
+          new StoryClusterer(this.getStoryRepository()),
+          new RevisionTracker(repository, this.getRevisionRepository()),
+          this.getArticleVerifier(),
+          this.getTranslationMemory()
         )
       );
 
@@ -91,9 +208,575 @@ export class ServiceContainer {
     return this.instances.get('newsService');
   }
 
+  /**
+   * Storage backend for all repositories: STORAGE_BACKEND=sqlite, otherwise Firestore
+   */
+  static getStorageBackend(): StorageBackend {
+    return process.env.STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'firestore';
+  }
+
+  /**
+   * Whether the selected storage backend is usable
+   */
+  static isStorageAvailable(): boolean {
+    return this.getStorageBackend() === 'sqlite' ? isSqliteAvailable() : isFirestoreAvailable();
+  }
+
+  /**
+   * Get article repository (shared by NewsService and article API routes)
+   * Writes also update the local search index
+   */
+  static getArticleRepository(): IArticleRepository {
+    if (!this.instances.has('articleRepository')) {
+      this.instances.set(
+        'articleRepository',
+        new IndexedArticleRepository(this.getArticleStorage(), this.getLocalSearchIndex())
+      );
+      logger.info('article_repository_initialized', {
+        storage: this.getStorageBackend(),
+      });
+    }
+
+    return this.instances.get('articleRepository');
+  }
+
+  /**
+   * Get local search index (backs /api/search when Algolia is not configured)
+   * Reads storage directly: it is what the article repository writes through to
+   */
+  static getLocalSearchIndex(): LocalSearchIndex {
+    if (!this.instances.has('localSearchIndex')) {
+      this.instances.set('localSearchIndex', new LocalSearchIndex(this.getArticleStorage()));
+    }
+
+    return this.instances.get('localSearchIndex');
+  }
+
+  private static getArticleStorage(): IArticleRepository {
+    if (!this.instances.has('articleStorage')) {
+      this.instances.set(
+        'articleStorage',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteArticleRepository()
+          : new FirestoreArticleRepository()
+      );
+    }
+
+    return this.instances.get('articleStorage');
+  }
+
+  /**
+   * Get article revision repository (backs /api/news/[id]/history)
+   */
+  static getRevisionRepository(): IRevisionRepository {
+    if (!this.instances.has('revisionRepository')) {
+      this.instances.set(
+        'revisionRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteRevisionRepository()
+          : new FirestoreRevisionRepository()
+      );
+    }
+
+    return this.instances.get('revisionRepository');
+  }
+
+  /**
+   * Get story cluster repository (backs /api/stories)
+   */
+  static getStoryRepository(): IStoryRepository {
+    if (!this.instances.has('storyRepository')) {
+      this.instances.set(
+        'storyRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteStoryRepository()
+          : new FirestoreStoryRepository()
+      );
+    }
+
+    return this.instances.get('storyRepository');
+  }
+
+  /**
+   * Get incident repository (shared by IncidentService, extraction and admin routes)
+   * Verify/debunk updates are recorded in the source reputation ledger
+   */
+  static getIncidentRepository(): IIncidentRepository {
+    if (!this.instances.has('incidentRepository')) {
+      this.instances.set(
+        'incidentRepository',
+        new ReputationTrackingIncidentRepository(
+          this.getStorageBackend() === 'sqlite'
+            ? new SqliteIncidentRepository()
+            : new FirestoreIncidentRepository(),
+          this.getReputationLedger()
+        )
+      );
+    }
+
+    return this.instances.get('incidentRepository');
+  }
+
+  /**
+   * Get source reputation repository
+   */
+  static getReputationRepository(): IReputationRepository {
+    if (!this.instances.has('reputationRepository')) {
+      this.instances.set(
+        'reputationRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteReputationRepository()
+          : new FirestoreReputationRepository()
+      );
+    }
+
+    return this.instances.get('reputationRepository');
+  }
+
+  /**
+   * Get source reputation ledger (verification weights, feed ranking, /api/admin/reputation)
+   */
+  static getReputationLedger(): IReputationLedger {
+    if (!this.instances.has('reputationLedger')) {
+      this.instances.set(
+        'reputationLedger',
+        new ReputationLedger(this.getReputationRepository(), {
+          halfLifeMs: parseFloat(process.env.REPUTATION_HALF_LIFE_DAYS || '30') * 24 * 60 * 60 * 1000,
+        })
+      );
+    }
+
+    return this.instances.get('reputationLedger');
+  }
+
+  /**
+   * Get push subscription repository
+   */
+  static getSubscriptionRepository(): ISubscriptionRepository {
+    if (!this.instances.has('subscriptionRepository')) {
+      this.instances.set(
+        'subscriptionRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteSubscriptionRepository()
+          : new FirestoreSubscriptionRepository()
+      );
+    }
+
+    return this.instances.get('subscriptionRepository');
+  }
+
+  /**
+   * Get IPFS snapshot metadata repository
+   */
+  static getSnapshotRepository(): ISnapshotRepository {
+    if (!this.instances.has('snapshotRepository')) {
+      this.instances.set(
+        'snapshotRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteSnapshotRepository()
+          : new FirestoreSnapshotRepository()
+      );
+    }
+
+    return this.instances.get('snapshotRepository');
+  }
+
+  /**
+   * Get incremental fetch cursor store (selected backend when available, else in-memory)
+   */
+  static getCursorRepository(): ICursorRepository {
+    if (!this.instances.has('cursorRepository')) {
+      const backend = this.isStorageAvailable() ? this.getStorageBackend() : 'in-memory';
+      this.instances.set(
+        'cursorRepository',
+        backend === 'sqlite'
+          ? new SqliteCursorRepository()
+          : backend === 'firestore'
+            ? new FirestoreCursorRepository()
+            : new InMemoryCursorRepository()
+      );
+      logger.info('cursor_repository_initialized', {
+        storage: backend,
+      });
+    }
+
+    return this.instances.get('cursorRepository');
+  }
+
+  /**
+   * Get per-source health registry (shared by NewsService and /api/sources/health)
+   * Circuit state lives in the cursor store, so it is shared across instances
+   */
+  static getSourceHealthRegistry(): ISourceHealthRegistry {
+    if (!this.instances.has('sourceHealthRegistry')) {
+      this.instances.set(
+        'sourceHealthRegistry',
+        new SourceHealthRegistry({
+          failureThreshold: parseInt(process.env.SOURCE_FAILURE_THRESHOLD || '3'),
+          cooldownMs: parseInt(process.env.SOURCE_COOLDOWN_MS || String(15 * 60 * 1000)),
+        }, this.getCursorRepository())
+      );
+    }
+
+    return this.instances.get('sourceHealthRegistry');
+  }
+
+  /**
+   * Get article verifier (runs after each refresh and from /api/verification/scan)
+   */
+  static getArticleVerifier(): IArticleVerifier {
+    if (!this.instances.has('articleVerifier')) {
+      this.instances.set(
+        'articleVerifier',
+        new ArticleVerifier(
+          this.getArticleRepository(),
+          this.getIncidentRepository(),
+          this.getReputationLedger()
+        )
+      );
+    }
+
+    return this.instances.get('articleVerifier');
+  }
+
+  /**
+   * Get connectivity time-series store (always local SQLite, see CONNECTIVITY_DB_PATH)
+   * Unavailable unless a persistent file is configured
+   */
+  static getConnectivityStore(): IConnectivityStore {
+    if (!this.instances.has('connectivityStore')) {
+      this.instances.set('connectivityStore', new SqliteConnectivityStore());
+    }
+
+    return this.instances.get('connectivityStore');
+  }
+
+  /**
+   * Get push notification service (new articles, digests, connectivity alerts)
+   */
+  static getNotificationService(): INotificationService {
+    if (!this.instances.has('notificationService')) {
+      this.instances.set(
+        'notificationService',
+        new PushNotificationService(
+          this.getConnectivityAlerter(),
+          this.getSubscriptionRepository(),
+          this.getRateLimiter('notificationBudget', RATE_LIMIT_CONFIGS.notificationBudget),
+          this.getDigestService(),
+          this.getDeliveryLog().sender('article'),
+          this.getTelegramBot() ?? undefined
+        )
+      );
+    }
+
+    return this.instances.get('notificationService');
+  }
+
+  /**
+   * Get notification delivery repository (per-subscription delivery log)
+   */
+  static getDeliveryRepository(): IDeliveryRepository {
+    if (!this.instances.has('deliveryRepository')) {
+      this.instances.set(
+        'deliveryRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteDeliveryRepository()
+          : new FirestoreDeliveryRepository()
+      );
+    }
+
+    return this.instances.get('deliveryRepository');
+  }
+
+  /**
+   * Get notification digest repository
+   */
+  static getDigestRepository(): IDigestRepository {
+    if (!this.instances.has('digestRepository')) {
+      this.instances.set(
+        'digestRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteDigestRepository()
+          : new FirestoreDigestRepository()
+      );
+    }
+
+    return this.instances.get('digestRepository');
+  }
+
+  /**
+   * Get delivery log (records every push, prunes expired subscriptions)
+   */
+  static getDeliveryLog(): DeliveryLog {
+    if (!this.instances.has('deliveryLog')) {
+      this.instances.set('deliveryLog', new DeliveryLog(this.getDeliveryRepository(), this.getSubscriptionRepository()));
+    }
+
+    return this.instances.get('deliveryLog');
+  }
+
+  /**
+   * Get digest service (hourly/daily digests, sent by /api/cron/send-digests)
+   */
+  static getDigestService(): DigestService {
+    if (!this.instances.has('digestService')) {
+      this.instances.set(
+        'digestService',
+        new DigestService(
+          this.getDigestRepository(),
+          this.getSubscriptionRepository(),
+          this.getDeliveryLog().sender('digest')
+        )
+      );
+    }
+
+    return this.instances.get('digestService');
+  }
+
+  /**
+   * Get Telegram bot chat repository (topic subscriptions, reports in progress)
+   */
+  static getBotChatRepository(): IBotChatRepository {
+    if (!this.instances.has('botChatRepository')) {
+      this.instances.set(
+        'botChatRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteBotChatRepository()
+          : new FirestoreBotChatRepository()
+      );
+    }
+
+    return this.instances.get('botChatRepository');
+  }
+
+  /**
+   * Get Telegram reader bot (null unless TELEGRAM_READER_BOT_TOKEN is set)
+   */
+  static getTelegramBot(): TelegramBot | null {
+    const token = process.env.TELEGRAM_READER_BOT_TOKEN;
+    if (!token) {
+      return null;
+    }
+
+    if (!this.instances.has('telegramBot')) {
+      this.instances.set(
+        'telegramBot',
+        new TelegramBot(
+          this.getArticleRepository(),
+          this.getIncidentService(),
+          this.getBotChatRepository(),
+          this.getIncidentRateLimiter(),
+          new TelegramBotTransport(token)
+        )
+      );
+    }
+
+    return this.instances.get('telegramBot');
+  }
+
+  /**
+   * Get media record repository
+   */
+  static getMediaRepository(): IMediaRepository {
+    if (!this.instances.has('mediaRepository')) {
+      this.instances.set(
+        'mediaRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteMediaRepository()
+          : new FirestoreMediaRepository()
+      );
+    }
+
+    return this.instances.get('mediaRepository');
+  }
+
+  /**
+   * Get media blob store: MEDIA_STORE=s3 for an S3-compatible bucket, otherwise MEDIA_DIR on disk
+   * Unavailable (and media not downloaded) until one of them is configured
+   */
+  static getBlobStore(): IBlobStore {
+    if (!this.instances.has('blobStore')) {
+      const s3 = process.env.MEDIA_STORE === 's3';
+      this.instances.set(
+        'blobStore',
+        s3
+          ? new S3BlobStore({
+              endpoint: process.env.MEDIA_S3_ENDPOINT || '',
+              bucket: process.env.MEDIA_S3_BUCKET || '',
+              region: process.env.MEDIA_S3_REGION || 'us-east-1',
+              accessKeyId: process.env.MEDIA_S3_ACCESS_KEY_ID || '',
+              secretAccessKey: process.env.MEDIA_S3_SECRET_ACCESS_KEY || '',
+            })
+          : new DiskBlobStore()
+      );
+    }
+
+    return this.instances.get('blobStore');
+  }
+
+  /**
+   * Get media library (Telegram photos, thumbnails and documents; served by /api/media/[id])
+   */
+  static getMediaLibrary(): MediaLibrary {
+    if (!this.instances.has('mediaLibrary')) {
+      this.instances.set('mediaLibrary', new MediaLibrary(this.getBlobStore(), this.getMediaRepository()));
+    }
+
+    return this.instances.get('mediaLibrary');
+  }
+
+  /**
+   * Get translation memory repository
+   */
+  static getTranslationMemoryRepository(): ITranslationMemoryRepository {
+    if (!this.instances.has('translationMemoryRepository')) {
+      this.instances.set(
+        'translationMemoryRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteTranslationMemoryRepository()
+          : new FirestoreTranslationMemoryRepository()
+      );
+    }
+
+    return this.instances.get('translationMemoryRepository');
+  }
+
+  /**
+   * Get glossary repository (terms edited through /api/admin/glossary)
+   */
+  static getGlossaryRepository(): IGlossaryRepository {
+    if (!this.instances.has('glossaryRepository')) {
+      this.instances.set(
+        'glossaryRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteGlossaryRepository()
+          : new FirestoreGlossaryRepository()
+      );
+    }
+
+    return this.instances.get('glossaryRepository');
+  }
+
+  /**
+   * Get translation glossary (built-in terms plus admin edits, applied on every tier)
+   */
+  static getTranslationGlossary(): TranslationGlossary {
+    if (!this.instances.has('translationGlossary')) {
+      this.instances.set('translationGlossary', new TranslationGlossary(this.getGlossaryRepository()));
+    }
+
+    return this.instances.get('translationGlossary');
+  }
+
+  /**
+   * Get translation memory (backs /api/translate, filled at ingest by NewsService)
+   */
+  static getTranslationMemory(): TranslationMemory {
+    if (!this.instances.has('translationMemory')) {
+      this.instances.set(
+        'translationMemory',
+        new TranslationMemory(this.getTranslationMemoryRepository(), undefined, this.getTranslationGlossary())
+      );
+    }
+
+    return this.instances.get('translationMemory');
+  }
+
+  /**
+   * Get connectivity alerter (outage and OONI alerts for opted-in subscribers)
+   */
+  static getConnectivityAlerter(): ConnectivityAlerter {
+    if (!this.instances.has('connectivityAlerter')) {
+      this.instances.set(
+        'connectivityAlerter',
+        new ConnectivityAlerter(
+          this.getSubscriptionRepository(),
+          this.getRateLimiter('connectivityAlertDedup', RATE_LIMIT_CONFIGS.connectivityAlertDedup),
+          this.getRateLimiter('connectivityAlertRateLimiter', RATE_LIMIT_CONFIGS.connectivityAlerts),
+          this.getDeliveryLog().sender('connectivity')
+        )
+      );
+    }
+
+    return this.instances.get('connectivityAlerter');
+  }
+
+  /**
+   * Get OONI client for the watchlist (OONI_WATCHLIST, or the default apps and sites)
+   */
+  static getOONIClient(): OONIClient {
+    if (!this.instances.has('ooniClient')) {
+      const configured = parseWatchlist(process.env.OONI_WATCHLIST);
+      this.instances.set(
+        'ooniClient',
+        new OONIClient({ watchlist: configured.length > 0 ? configured : DEFAULT_OONI_WATCHLIST })
+      );
+    }
+
+    return this.instances.get('ooniClient');
+  }
+
+  /**
+   * Get connectivity collector (run by /api/cron/collect-connectivity)
+   */
+  static getConnectivityCollector(): ConnectivityCollector {
+    if (!this.instances.has('connectivityCollector')) {
+      this.instances.set(
+        'connectivityCollector',
+        new ConnectivityCollector(this.getConnectivityStore(), undefined, this.getOONIClient())
+      );
+    }
+
+    return this.instances.get('connectivityCollector');
+  }
+
+  /**
+   * Get outage event repository
+   */
+  static getOutageRepository(): IOutageRepository {
+    if (!this.instances.has('outageRepository')) {
+      this.instances.set(
+        'outageRepository',
+        this.getStorageBackend() === 'sqlite'
+          ? new SqliteOutageRepository()
+          : new FirestoreOutageRepository()
+      );
+    }
+
+    return this.instances.get('outageRepository');
+  }
+
+  /**
+   * Get outage monitor (run by /api/cron/collect-connectivity after each collection)
+   */
+  static getOutageMonitor(): OutageMonitor {
+    if (!this.instances.has('outageMonitor')) {
+      this.instances.set(
+        'outageMonitor',
+        new OutageMonitor(this.getConnectivityStore(), this.getOutageRepository(), this.getNotificationService())
+      );
+    }
+
+    return this.instances.get('outageMonitor');
+  }
+
+  /**
+   * Get outage correlator (joins outages with incidents and articles)
+   */
+  static getOutageCorrelator(): OutageCorrelator {
+    if (!this.instances.has('outageCorrelator')) {
+      this.instances.set(
+        'outageCorrelator',
+        new OutageCorrelator(this.getOutageRepository(), this.getIncidentService(), this.getArticleRepository())
+      );
+    }
+
+    return this.instances.get('outageCorrelator');
+  }
+
   static getIncidentService(): IncidentService {
     if (!this.instances.has('incidentService')) {
-      this.instances.set('incidentService', new IncidentService());
+      this.instances.set('incidentService', new IncidentService(this.getIncidentRepository()));
       logger.info('incident_service_initialized');
     }
 
@@ -185,6 +868,7 @@ export class ServiceContainer {
         process.env.UPSTASH_REDIS_REST_TOKEN
       ),
       firestoreAvailable: !!process.env.FIREBASE_SERVICE_ACCOUNT,
+      sqliteBackend: this.getStorageBackend() === 'sqlite',
     };
   }
 }
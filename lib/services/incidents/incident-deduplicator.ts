@@ -3,7 +3,7 @@
  * Prevents duplicate incident reports based on location, type, and time
  */
 
-import { Incident } from '@/lib/firestore';
+import { Incident, NewIncident } from '@/lib/domain/incident';
 import { logger } from '@/lib/logger';
 
 interface DeduplicationResult {
@@ -27,7 +27,7 @@ export class IncidentDeduplicator {
    * Check if a new incident is a duplicate of existing incidents
    */
   checkDuplicate(
-    newIncident: Omit<Incident, 'id' | 'createdAt'>,
+    newIncident: NewIncident,
     existingIncidents: Incident[]
   ): DeduplicationResult {
     const now = Date.now();
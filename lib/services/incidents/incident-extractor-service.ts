@@ -2,19 +2,21 @@ import { IIncidentExtractor, ExtractedIncident } from './i-incident-extractor';
 import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
 import { extractIncidentsFromArticles } from '@/lib/incident-extractor';
 import { geocodeLocations } from '@/lib/geocoder';
-import { isFirestoreAvailable, getDb } from '@/lib/firestore';
-import { FirestoreBatchWriter } from '@/lib/firestore-batch';
+import { IIncidentRepository } from './repositories/i-incident-repository';
+import { FirestoreIncidentRepository } from './repositories/firestore-incident-repository';
 import { perfMonitor } from '@/lib/performance/monitor';
 import { logger } from '@/lib/logger';
 
 export class IncidentExtractorService implements IIncidentExtractor {
+  constructor(private repository: IIncidentRepository = new FirestoreIncidentRepository()) {}
+
   async extractFromArticles(articles: ArticleWithHash[]): Promise<ExtractedIncident[]> {
     if (articles.length === 0) {
       return [];
     }
 
-    if (!isFirestoreAvailable()) {
-      logger.warn('firestore_unavailable_extraction_skipped', { articles_count: articles.length });
+    if (!this.repository.isAvailable()) {
+      logger.warn('storage_unavailable_extraction_skipped', { articles_count: articles.length });
       return [];
     }
 
@@ -47,6 +49,11 @@ export class IncidentExtractorService implements IIncidentExtractor {
       );
       logger.info('geocoding_completed', { geocoded_count: geocodedLocations.size });
 
+      // Incidents keep the stored media of the article they came from
+      const mediaIdsByArticle = new Map(
+        articles.filter(a => a.mediaIds?.length).map(a => [a.id, a.mediaIds!])
+      );
+
       // PERFORMANCE OPTIMIZATION: Use batch writes instead of N sequential writes
       const incidentsToSave = extractedIncidents
         .map(extracted => {
@@ -57,6 +64,8 @@ export class IncidentExtractorService implements IIncidentExtractor {
             return null;
           }
 
+          const mediaIds = mediaIdsByArticle.get(extracted.extractedFrom.articleId);
+
           if (extracted.confidence < 40) {
             logger.debug('low_confidence_incident_skipped', {
               confidence: extracted.confidence,
@@ -81,10 +90,13 @@ export class IncidentExtractorService implements IIncidentExtractor {
               upvotes: 0,
               confidence: extracted.confidence,
               keywords: extracted.keywords,
+              articleIds: [extracted.extractedFrom.articleId],
+              ...(mediaIds && { mediaIds }),
               relatedArticles: extracted.extractedFrom ? [{
                 title: extracted.extractedFrom.articleTitle,
                 url: extracted.extractedFrom.articleUrl,
-                source: extracted.extractedFrom.source
+                source: extracted.extractedFrom.source,
+                sourceKey: extracted.extractedFrom.sourceKey,
               }] : undefined,
             }
           };
@@ -92,10 +104,8 @@ export class IncidentExtractorService implements IIncidentExtractor {
         .filter((incident): incident is { data: any } => incident !== null);
 
       if (incidentsToSave.length > 0) {
-        const db = getDb();
-        const batchWriter = new FirestoreBatchWriter(db);
         const result = await perfMonitor.measure('Batch write incidents', () =>
-          batchWriter.writeBatch('incidents', incidentsToSave)
+          this.repository.createMany(incidentsToSave.map(incident => incident.data))
         );
 
         logger.info('incidents_batch_saved', {
@@ -1,21 +1,48 @@
-import {
-  saveIncident,
-  getIncidents,
-  updateIncident,
-  isFirestoreAvailable,
-  Incident,
-} from '@/lib/firestore';
+import { Incident, NewIncident, INCIDENT_TYPES } from '@/lib/domain/incident';
 import { IncidentDeduplicator } from './incident-deduplicator';
+import { IIncidentRepository } from './repositories/i-incident-repository';
+import { FirestoreIncidentRepository } from './repositories/firestore-incident-repository';
+import type { CreateIncidentInput } from '@/lib/validators/incident-validator';
 import { logger } from '@/lib/logger';
 
+/**
+ * A validated crowdsourced report (POST /api/incidents, the Telegram bot) as a new, unverified incident
+ */
+export function toCrowdsourcedIncident(input: CreateIncidentInput): NewIncident {
+  return {
+    type: input.type,
+    title: input.title.trim(),
+    description: input.description.trim(),
+    location: {
+      lat: input.location.lat,
+      lon: input.location.lon,
+      address: input.location.address?.trim(),
+    },
+    images: input.images || [],
+    verified: false,
+    reportedBy: 'crowdsource',
+    timestamp: input.timestamp || Date.now(),
+    upvotes: 0,
+    ...(input.twitterUrl && { twitterUrl: input.twitterUrl }),
+    ...(input.telegramUrl && { telegramUrl: input.telegramUrl }),
+    ...(input.alternateUrl && { alternateUrl: input.alternateUrl }),
+    ...(input.mediaUrls && { mediaUrls: input.mediaUrls }),
+    ...(input.embedType && { embedType: input.embedType }),
+    ...(input.tags && { tags: input.tags.map(tag => tag.trim()) }),
+  };
+}
+
 export class IncidentService {
   private deduplicator = new IncidentDeduplicator();
+
+  constructor(private repository: IIncidentRepository = new FirestoreIncidentRepository()) {}
+
   async getAll(filters?: {
     type?: string;
     bounds?: { north: number; south: number; east: number; west: number };
   }): Promise<Incident[]> {
-    if (!isFirestoreAvailable()) {
-      logger.warn('firestore_unavailable', {
+    if (!this.repository.isAvailable()) {
+      logger.warn('storage_unavailable', {
         operation: 'get_incidents',
         returning_empty: true,
       });
@@ -23,7 +50,7 @@ export class IncidentService {
     }
 
     try {
-      let incidents = await getIncidents();
+      let incidents = await this.repository.getAll();
 
       // Remove exact duplicates (same ID appearing multiple times)
       incidents = this.deduplicator.removeExactDuplicates(incidents);
@@ -57,15 +84,15 @@ export class IncidentService {
     }
   }
 
-  async create(data: Omit<Incident, 'id' | 'createdAt'>): Promise<string> {
-    if (!isFirestoreAvailable()) {
+  async create(data: NewIncident): Promise<string> {
+    if (!this.repository.isAvailable()) {
       throw new Error('Database unavailable');
     }
 
     this.validateIncident(data);
 
     // Check for duplicates before saving
-    const existingIncidents = await getIncidents();
+    const existingIncidents = await this.repository.getAll();
     const deduplicationResult = this.deduplicator.checkDuplicate(data, existingIncidents);
 
     if (deduplicationResult.isDuplicate) {
@@ -81,7 +108,7 @@ export class IncidentService {
       );
     }
 
-    const incidentId = await saveIncident(data);
+    const incidentId = await this.repository.create(data);
     logger.info('incident_created', {
       incident_id: incidentId,
       type: data.type,
@@ -94,21 +121,21 @@ export class IncidentService {
   }
 
   async upvote(id: string): Promise<void> {
-    if (!isFirestoreAvailable()) {
+    if (!this.repository.isAvailable()) {
       throw new Error('Database unavailable');
     }
 
-    await updateIncident(id, {
+    await this.repository.update(id, {
       upvotes: 1,
     } as any);
   }
 
-  private validateIncident(data: Omit<Incident, 'id' | 'createdAt'>): void {
+  private validateIncident(data: NewIncident): void {
     if (!data.type || !data.title || !data.description || !data.location) {
       throw new Error('Missing required fields: type, title, description, location');
     }
 
-    if (!['protest', 'arrest', 'injury', 'death', 'other'].includes(data.type)) {
+    if (!INCIDENT_TYPES.includes(data.type)) {
       throw new Error('Invalid incident type');
     }
 
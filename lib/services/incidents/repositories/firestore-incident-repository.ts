@@ -0,0 +1,40 @@
+import { IIncidentRepository, NewIncident } from './i-incident-repository';
+import {
+  saveIncident,
+  getIncidents,
+  getIncidentById,
+  updateIncident,
+  isFirestoreAvailable,
+  getDb,
+} from '@/lib/firestore';
+import { INCIDENT_SCHEMA_VERSION, Incident } from '@/lib/domain/incident';
+import { FirestoreBatchWriter, BatchResult } from '@/lib/firestore-batch';
+
+export class FirestoreIncidentRepository implements IIncidentRepository {
+  isAvailable(): boolean {
+    return isFirestoreAvailable();
+  }
+
+  async getAll(): Promise<Incident[]> {
+    return getIncidents();
+  }
+
+  async getById(id: string): Promise<Incident | null> {
+    return getIncidentById(id);
+  }
+
+  async create(incident: NewIncident): Promise<string> {
+    return saveIncident(incident);
+  }
+
+  async createMany(incidents: NewIncident[]): Promise<BatchResult> {
+    const batchWriter = new FirestoreBatchWriter(getDb());
+    return batchWriter.writeBatch('incidents', incidents.map(incident => ({
+      data: { ...incident, schemaVersion: INCIDENT_SCHEMA_VERSION, createdAt: Date.now() },
+    })));
+  }
+
+  async update(id: string, updates: Partial<Incident>): Promise<void> {
+    await updateIncident(id, updates);
+  }
+}
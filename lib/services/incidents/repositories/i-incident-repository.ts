@@ -0,0 +1,13 @@
+import { Incident, NewIncident } from '@/lib/domain/incident';
+import { BatchResult } from '@/lib/firestore-batch';
+
+export type { NewIncident } from '@/lib/domain/incident';
+
+export interface IIncidentRepository {
+  isAvailable(): boolean;
+  getAll(): Promise<Incident[]>;
+  getById(id: string): Promise<Incident | null>;
+  create(incident: NewIncident): Promise<string>;
+  createMany(incidents: NewIncident[]): Promise<BatchResult>;
+  update(id: string, updates: Partial<Incident>): Promise<void>;
+}
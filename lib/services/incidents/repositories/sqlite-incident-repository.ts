@@ -0,0 +1,53 @@
+import { IIncidentRepository, NewIncident } from './i-incident-repository';
+import {
+  saveIncident,
+  saveIncidents,
+  getIncidents,
+  getIncidentById,
+  updateIncident,
+  isSqliteAvailable,
+} from '@/lib/sqlite';
+import type { Incident } from '@/lib/domain/incident';
+import type { BatchResult } from '@/lib/firestore-batch';
+import { logger } from '@/lib/logger';
+
+export class SqliteIncidentRepository implements IIncidentRepository {
+  isAvailable(): boolean {
+    return isSqliteAvailable();
+  }
+
+  async getAll(): Promise<Incident[]> {
+    return getIncidents();
+  }
+
+  async getById(id: string): Promise<Incident | null> {
+    return getIncidentById(id);
+  }
+
+  async create(incident: NewIncident): Promise<string> {
+    return saveIncident(incident);
+  }
+
+  async createMany(incidents: NewIncident[]): Promise<BatchResult> {
+    // One transaction: either every incident is written or none is
+    try {
+      await saveIncidents(incidents);
+      return { success: incidents.length, failed: 0, errors: [] };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('sqlite_incidents_write_failed', {
+        count: incidents.length,
+        error: message,
+      });
+      return {
+        success: 0,
+        failed: incidents.length,
+        errors: [{ batch: incidents.map(() => 'auto-generated'), error: message }],
+      };
+    }
+  }
+
+  async update(id: string, updates: Partial<Incident>): Promise<void> {
+    await updateIncident(id, updates);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Disk Blob Store
+ * Files under MEDIA_DIR, sharded by the first two key characters to keep
+ * directories small. The directory needs a persistent, writable disk (not the
+ * case on serverless hosts), so the store is only available when configured:
+ * MEDIA_DIR, or MEDIA_STORE=disk for the default data/media.
+ */
+
+import { mkdir, readFile, writeFile, rename, access } from 'fs/promises';
+import path from 'path';
+import { IBlobStore } from './i-blob-store';
+
+function defaultMediaDir(): string | null {
+  if (process.env.MEDIA_DIR) {
+    return process.env.MEDIA_DIR;
+  }
+  return process.env.MEDIA_STORE === 'disk' ? path.join(process.cwd(), 'data', 'media') : null;
+}
+
+export class DiskBlobStore implements IBlobStore {
+  readonly name = 'disk';
+
+  constructor(private root: string | null = defaultMediaDir()) {}
+
+  isAvailable(): boolean {
+    return this.root !== null;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const file = this.pathFor(key);
+    await mkdir(path.dirname(file), { recursive: true });
+
+    // Write then rename, so a crash never leaves a truncated file under the key
+    const partial = `${file}.${process.pid}.partial`;
+    await writeFile(partial, data);
+    await rename(partial, file);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await access(this.pathFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private pathFor(key: string): string {
+    if (!this.root) {
+      throw new Error('MEDIA_DIR is not set');
+    }
+    if (!/^[a-z0-9]+$/.test(key)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.root, key.slice(0, 2), key);
+  }
+}
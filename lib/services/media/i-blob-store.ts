@@ -0,0 +1,19 @@
+/**
+ * Blob Store Interface
+ * Where media bytes live; the records describing them are in IMediaRepository.
+ * Keys are media IDs (lowercase hex), so implementations need no escaping.
+ */
+
+export interface IBlobStore {
+  readonly name: string;
+  /**
+   * Whether the store is configured (media is never downloaded into a store that is not)
+   */
+  isAvailable(): boolean;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /**
+   * The stored bytes, or null when the key does not exist
+   */
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+}
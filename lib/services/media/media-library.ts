@@ -0,0 +1,122 @@
+/**
+ * Media Library
+ * Stores media downloaded from source posts:
+ * - the ID is derived from the content (SHA-256), so a reposted photo is stored
+ *   once and every post it appeared in is added to `sourceUrls`
+ * - images get a perceptual hash (MediaDeduplication) for verification
+ * - bytes go to the blob store, the record to the media repository
+ */
+
+import { createHash } from 'crypto';
+import { IBlobStore } from './i-blob-store';
+import { IMediaRepository, MediaAsset } from './repositories/i-media-repository';
+import { MediaDeduplication } from '@/lib/media-deduplication';
+import { DownloadedMedia, MAX_MEDIA_BYTES, isImageMedia } from '@/lib/domain/media';
+import { logger } from '@/lib/logger';
+
+export class MediaLibrary {
+  constructor(
+    private blobs: IBlobStore,
+    private repository: IMediaRepository,
+    private hasher: Pick<MediaDeduplication, 'generatePHash'> = new MediaDeduplication()
+  ) {}
+
+  isAvailable(): boolean {
+    return this.blobs.isAvailable() && this.repository.isAvailable();
+  }
+
+  /**
+   * Store downloaded media seen in the post at sourceUrl
+   * Returns the stored (or already known) record, or null when it could not be stored
+   */
+  async store(media: DownloadedMedia, sourceUrl: string): Promise<MediaAsset | null> {
+    if (media.data.length === 0 || media.data.length > MAX_MEDIA_BYTES) {
+      logger.debug('media_size_rejected', { size: media.data.length, source_url: sourceUrl });
+      return null;
+    }
+
+    const sha256 = createHash('sha256').update(media.data).digest('hex');
+    const id = sha256.slice(0, 32);
+
+    try {
+      const existing = await this.repository.get(id);
+      if (existing) {
+        if (existing.sourceUrls.includes(sourceUrl)) {
+          return existing;
+        }
+        const seenAgain = { ...existing, sourceUrls: [...existing.sourceUrls, sourceUrl] };
+        await this.repository.save(seenAgain);
+        return seenAgain;
+      }
+
+      if (!(await this.blobs.exists(id))) {
+        await this.blobs.put(id, media.data, media.mimeType);
+      }
+
+      const pHash = isImageMedia(media) ? await this.hashImage(media.data) : undefined;
+      const asset: MediaAsset = {
+        id,
+        kind: media.kind,
+        contentType: media.mimeType,
+        size: media.data.length,
+        sha256,
+        ...(pHash && { pHash }),
+        ...(media.fileName && { fileName: media.fileName }),
+        sourceUrls: [sourceUrl],
+        createdAt: Date.now(),
+      };
+      await this.repository.save(asset);
+
+      logger.debug('media_stored', { media_id: id, kind: media.kind, size: asset.size, blob_store: this.blobs.name });
+      return asset;
+    } catch (error) {
+      logger.error('media_store_failed', {
+        media_id: id,
+        source_url: sourceUrl,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Store every attachment of a post, in order, skipping the ones that fail
+   */
+  async storeAll(media: DownloadedMedia[], sourceUrl: string): Promise<MediaAsset[]> {
+    const stored: MediaAsset[] = [];
+    for (const item of media) {
+      const asset = await this.store(item, sourceUrl);
+      if (asset && !stored.some(existing => existing.id === asset.id)) {
+        stored.push(asset);
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * A stored record with its bytes (null if either is missing)
+   */
+  async read(id: string): Promise<{ asset: MediaAsset; data: Buffer } | null> {
+    const asset = await this.repository.get(id);
+    if (!asset) {
+      return null;
+    }
+
+    const data = await this.blobs.get(id);
+    if (!data) {
+      logger.warn('media_blob_missing', { media_id: id, blob_store: this.blobs.name });
+      return null;
+    }
+
+    return { asset, data };
+  }
+
+  private async hashImage(data: Buffer): Promise<string | undefined> {
+    try {
+      return await this.hasher.generatePHash(data);
+    } catch {
+      // Formats sharp cannot decode are stored without a hash
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { IMediaRepository, MediaAsset } from './i-media-repository';
+import { getMediaAsset, saveMediaAsset, isFirestoreAvailable } from '@/lib/firestore';
+
+export class FirestoreMediaRepository implements IMediaRepository {
+  isAvailable(): boolean {
+    return isFirestoreAvailable();
+  }
+
+  async get(id: string): Promise<MediaAsset | null> {
+    return getMediaAsset(id);
+  }
+
+  async save(asset: MediaAsset): Promise<void> {
+    await saveMediaAsset(asset);
+  }
+}
@@ -0,0 +1,9 @@
+import { MediaAsset } from '@/lib/firestore';
+
+export type { MediaAsset } from '@/lib/firestore';
+
+export interface IMediaRepository {
+  isAvailable(): boolean;
+  get(id: string): Promise<MediaAsset | null>;
+  save(asset: MediaAsset): Promise<void>;
+}
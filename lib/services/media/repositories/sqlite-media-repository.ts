@@ -0,0 +1,16 @@
+import { IMediaRepository, MediaAsset } from './i-media-repository';
+import { getMediaAsset, saveMediaAsset, isSqliteAvailable } from '@/lib/sqlite';
+
+export class SqliteMediaRepository implements IMediaRepository {
+  isAvailable(): boolean {
+    return isSqliteAvailable();
+  }
+
+  async get(id: string): Promise<MediaAsset | null> {
+    return getMediaAsset(id);
+  }
+
+  async save(asset: MediaAsset): Promise<void> {
+    await saveMediaAsset(asset);
+  }
+}
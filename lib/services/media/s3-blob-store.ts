@@ -0,0 +1,125 @@
+/**
+ * S3-compatible Blob Store
+ * Objects in a bucket of any S3-compatible service (MinIO, R2, AWS S3), addressed
+ * path-style as <endpoint>/<bucket>/<key> and signed with AWS Signature V4.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { IBlobStore } from './i-blob-store';
+
+export interface S3BlobStoreConfig {
+  endpoint: string; // e.g. http://localhost:9000
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+export class S3BlobStore implements IBlobStore {
+  readonly name = 's3';
+
+  constructor(private config: S3BlobStoreConfig) {}
+
+  isAvailable(): boolean {
+    const { endpoint, bucket, accessKeyId, secretAccessKey } = this.config;
+    return !!(endpoint && bucket && accessKeyId && secretAccessKey);
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 HEAD ${key} failed: ${response.status}`);
+    }
+    return true;
+  }
+
+  private request(method: 'GET' | 'PUT' | 'HEAD', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    if (!/^[a-z0-9]+$/.test(key)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+
+    const url = new URL(`${this.config.endpoint.replace(/\/+$/, '')}/${this.config.bucket}/${key}`);
+    const headers = this.sign(method, url, body ?? Buffer.alloc(0), contentType);
+
+    return fetch(url, {
+      method,
+      headers,
+      ...(body && { body: new Uint8Array(body) }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  }
+
+  /**
+   * Signature V4 headers for a request without query parameters
+   */
+  private sign(method: string, url: URL, body: Buffer, contentType?: string): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''); // YYYYMMDDTHHMMSSZ
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body);
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType }),
+    };
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      names.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, date), this.config.region), 's3'),
+      'aws4_request'
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets Host itself, from the same URL
+    const { host: _host, ...sent } = headers;
+    return {
+      ...sent,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
@@ -1,12 +1,39 @@
 import { Article } from '../sources/i-news-source';
+import type { VerificationFactors, VerificationRuleResult } from '@/lib/domain/incident';
 
 export interface ArticleWithHash extends Article {
   contentHash: string;
   minHash: number[];
   createdAt: number;
+  storyId?: string;
+  revisionCount?: number;
+  updatedAt?: number;
+  imageHash?: string;
+  verified?: boolean;
+  verificationScore?: number;
+  corroboratedBy?: string[];
+  verificationFactors?: VerificationFactors;
+  verificationBreakdown?: VerificationRuleResult[];
+  verificationModelVersion?: string;
+  verifiedAt?: number;
+}
+
+/**
+ * A fetched article dropped as a duplicate, with the recent article it matched
+ */
+export interface DuplicateMatch {
+  article: ArticleWithHash;
+  matched: ArticleWithHash;
+  kind: 'exact' | 'fuzzy';
+}
+
+export interface DeduplicationResult {
+  unique: ArticleWithHash[];
+  duplicates: DuplicateMatch[];
 }
 
 export interface IDeduplicator {
   process(articles: Article[], recentArticles: ArticleWithHash[]): Promise<ArticleWithHash[]>;
+  processWithMatches(articles: Article[], recentArticles: ArticleWithHash[]): Promise<DeduplicationResult>;
   computeHash(content: string): Promise<string>;
 }
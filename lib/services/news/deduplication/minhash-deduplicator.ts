@@ -1,4 +1,9 @@
-import { IDeduplicator, ArticleWithHash } from './i-deduplicator';
+import {
+  IDeduplicator,
+  ArticleWithHash,
+  DeduplicationResult,
+  DuplicateMatch,
+} from './i-deduplicator';
 import { Article } from '../sources/i-news-source';
 import {
   minHashDeduplicator,
@@ -16,6 +21,18 @@ export class MinHashDeduplicator implements IDeduplicator {
     articles: Article[],
     recentArticles: ArticleWithHash[]
   ): Promise<ArticleWithHash[]> {
+    const { unique } = await this.processWithMatches(articles, recentArticles);
+    return unique;
+  }
+
+  /**
+   * Like process(), but also returns the dropped duplicates and what they matched
+   * (story clustering uses them to record every source that covered an event)
+   */
+  async processWithMatches(
+    articles: Article[],
+    recentArticles: ArticleWithHash[]
+  ): Promise<DeduplicationResult> {
     const articlesWithHash = await perfMonitor.measure('Hash generation', async () =>
       Promise.all(
         articles.map(async (article) => ({
@@ -29,8 +46,9 @@ export class MinHashDeduplicator implements IDeduplicator {
 
     // PERFORMANCE OPTIMIZATION: Use O(1) Set + O(k) LSH instead of O(n*m) comparison
     const deduplicated = perfMonitor.measureSync('Deduplication', () => {
-      // Build hash set for O(1) exact duplicate lookup
-      const recentHashSet = new Set(recentArticles.map(a => a.contentHash));
+      // Build hash map for O(1) exact duplicate lookup
+      const recentByHash = new Map(recentArticles.map(a => [a.contentHash, a]));
+      const duplicates: DuplicateMatch[] = [];
 
       // Build LSH index for O(k) fuzzy duplicate lookup (k ≈ 5-10 bucket size)
       const lshIndex = createLSHIndex(recentArticles, this.similarityThreshold);
@@ -41,31 +59,41 @@ export class MinHashDeduplicator implements IDeduplicator {
         avg_bucket_size: stats.avgBucketSize,
       });
 
-      return articlesWithHash.filter(newArticle => {
+      const unique = articlesWithHash.filter(newArticle => {
         // O(1) exact duplicate check
-        if (recentHashSet.has(newArticle.contentHash)) {
+        const exact = recentByHash.get(newArticle.contentHash);
+        if (exact) {
           logger.debug('exact_duplicate_skipped', {
             title: newArticle.title.substring(0, 50),
           });
+          duplicates.push({ article: newArticle, matched: exact, kind: 'exact' });
           return false;
         }
 
         // O(k) fuzzy duplicate check (k ≈ 5-10)
-        if (lshIndex.isDuplicate(newArticle, this.similarityThreshold)) {
+        const [similar] = lshIndex.findSimilar(newArticle, this.similarityThreshold);
+        if (similar) {
           logger.debug('fuzzy_duplicate_skipped', {
             title: newArticle.title.substring(0, 50),
           });
+          duplicates.push({
+            article: newArticle,
+            matched: similar,
+            kind: 'fuzzy',
+          });
           return false;
         }
 
         return true;
       });
+
+      return { unique, duplicates };
     });
 
     logger.info('deduplication_completed', {
       input_count: articles.length,
-      output_count: deduplicated.length,
-      duplicates_removed: articles.length - deduplicated.length,
+      output_count: deduplicated.unique.length,
+      duplicates_removed: deduplicated.duplicates.length,
     });
 
     return deduplicated;
@@ -0,0 +1,38 @@
+/**
+ * Source Health Registry Interface
+ * Tracks fetch outcomes per INewsSource.name and gates fetches with a circuit breaker
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface SourceHealth {
+  name: string;
+  circuit: CircuitState;
+  lastAttemptAt?: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastLatencyMs?: number;
+  avgLatencyMs?: number;
+  lastArticleCount?: number;
+  totalArticles: number;
+  openUntil?: number;
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface ISourceHealthRegistry {
+  canAttempt(name: string): Promise<boolean>;
+  recordSuccess(name: string, latencyMs: number, articleCount: number): Promise<void>;
+  recordFailure(name: string, latencyMs: number, error: string): Promise<void>;
+  get(name: string): Promise<SourceHealth | null>;
+  getAll(): Promise<SourceHealth[]>;
+  reset(name: string): Promise<void>;
+  getConfig(): CircuitBreakerConfig;
+}
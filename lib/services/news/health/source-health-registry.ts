@@ -0,0 +1,149 @@
+/**
+ * Source Health Registry
+ * Closed → open after `failureThreshold` consecutive failures; open → half-open after `cooldownMs`.
+ * A half-open source gets one trial fetch: success closes the circuit, failure reopens it.
+ * State is kept in the cursor store (one JSON entry per source), so every instance sees the same circuits.
+ */
+
+import {
+  ISourceHealthRegistry,
+  SourceHealth,
+  CircuitBreakerConfig,
+} from './i-source-health-registry';
+import { ICursorRepository } from '../repositories/i-cursor-repository';
+import { InMemoryCursorRepository } from '../repositories/in-memory-cursor-repository';
+import { logger } from '@/lib/logger';
+
+// Cursor namespace holding the health entries; an empty value means the source was reset
+const HEALTH_NAMESPACE = 'source-health';
+
+const DEFAULT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  cooldownMs: 15 * 60 * 1000, // 15 minutes
+};
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_EMA_ALPHA = 0.3;
+
+export class SourceHealthRegistry implements ISourceHealthRegistry {
+  private config: CircuitBreakerConfig;
+
+  constructor(
+    config: Partial<CircuitBreakerConfig> = {},
+    private store: ICursorRepository = new InMemoryCursorRepository()
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async canAttempt(name: string): Promise<boolean> {
+    const entry = await this.get(name);
+    if (!entry || entry.circuit !== 'open') {
+      return true;
+    }
+
+    if (entry.openUntil && Date.now() >= entry.openUntil) {
+      entry.circuit = 'half-open';
+      entry.openUntil = undefined;
+      await this.save(entry);
+      logger.info('source_circuit_half_open', { source: name });
+      return true;
+    }
+
+    return false;
+  }
+
+  async recordSuccess(name: string, latencyMs: number, articleCount: number): Promise<void> {
+    const entry = await this.getOrCreate(name);
+    const now = Date.now();
+
+    if (entry.circuit !== 'closed') {
+      logger.info('source_circuit_closed', {
+        source: name,
+        after_failures: entry.consecutiveFailures,
+      });
+    }
+
+    entry.circuit = 'closed';
+    entry.openUntil = undefined;
+    entry.lastAttemptAt = now;
+    entry.lastSuccessAt = now;
+    entry.consecutiveFailures = 0;
+    entry.totalSuccesses++;
+    entry.lastArticleCount = articleCount;
+    entry.totalArticles += articleCount;
+    this.recordLatency(entry, latencyMs);
+    await this.save(entry);
+  }
+
+  async recordFailure(name: string, latencyMs: number, error: string): Promise<void> {
+    const entry = await this.getOrCreate(name);
+    const now = Date.now();
+
+    entry.lastAttemptAt = now;
+    entry.lastFailureAt = now;
+    entry.lastError = error;
+    entry.consecutiveFailures++;
+    entry.totalFailures++;
+    this.recordLatency(entry, latencyMs);
+
+    const shouldOpen =
+      entry.circuit === 'half-open' ||
+      entry.consecutiveFailures >= this.config.failureThreshold;
+
+    if (shouldOpen) {
+      entry.circuit = 'open';
+      entry.openUntil = now + this.config.cooldownMs;
+      logger.warn('source_circuit_opened', {
+        source: name,
+        consecutive_failures: entry.consecutiveFailures,
+        cooldown_ms: this.config.cooldownMs,
+        last_error: error,
+      });
+    }
+
+    await this.save(entry);
+  }
+
+  async get(name: string): Promise<SourceHealth | null> {
+    const stored = await this.store.getAll(HEALTH_NAMESPACE);
+    return stored[name] ? JSON.parse(stored[name]) : null;
+  }
+
+  async getAll(): Promise<SourceHealth[]> {
+    const stored = await this.store.getAll(HEALTH_NAMESPACE);
+    return Object.values(stored)
+      .filter(Boolean)
+      .map(value => JSON.parse(value) as SourceHealth);
+  }
+
+  async reset(name: string): Promise<void> {
+    // The cursor store only merges keys, so blank the entry instead of deleting it
+    await this.store.saveMany(HEALTH_NAMESPACE, { [name]: '' });
+  }
+
+  getConfig(): CircuitBreakerConfig {
+    return this.config;
+  }
+
+  private async getOrCreate(name: string): Promise<SourceHealth> {
+    return (await this.get(name)) ?? {
+      name,
+      circuit: 'closed',
+      consecutiveFailures: 0,
+      totalSuccesses: 0,
+      totalFailures: 0,
+      totalArticles: 0,
+    };
+  }
+
+  private async save(entry: SourceHealth): Promise<void> {
+    await this.store.saveMany(HEALTH_NAMESPACE, { [entry.name]: JSON.stringify(entry) });
+  }
+
+  private recordLatency(entry: SourceHealth, latencyMs: number): void {
+    entry.lastLatencyMs = latencyMs;
+    entry.avgLatencyMs = entry.avgLatencyMs === undefined
+      ? latencyMs
+      : Math.round(LATENCY_EMA_ALPHA * latencyMs + (1 - LATENCY_EMA_ALPHA) * entry.avgLatencyMs);
+  }
+}
@@ -1,24 +1,56 @@
-import { INewsSource } from './sources/i-news-source';
-import { IDeduplicator } from './deduplication/i-deduplicator';
+import { INewsSource, Article, CursorUpdate } from './sources/i-news-source';
+import { IDeduplicator, ArticleWithHash, DuplicateMatch } from './deduplication/i-deduplicator';
 import { IArticleRepository } from './repositories/i-article-repository';
 import { INotificationService } from '../notifications/i-notification-service';
 import { IIncidentExtractor } from '../incidents/i-incident-extractor';
+import { ISourceHealthRegistry } from './health/i-source-health-registry';
+import { SourceHealthRegistry } from './health/source-health-registry';
+import { StoryClusterer } from './stories/story-clusterer';
+import { RevisionTracker } from './revisions/revision-tracker';
+import { IArticleVerifier } from '../verification/i-article-verifier';
+import { TranslationMemory } from '../translation/translation-memory';
 import { logger } from '@/lib/logger';
 
-export interface RefreshResult {
+export interface SourceRefreshResult {
+  name: string;
+  status: 'ok' | 'failed' | 'skipped';
+  articles: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface IngestResult {
   articlesAdded: number;
+  articlesUpdated: number;
   articlesTotal: number;
   incidentsExtracted: number;
+  articlesVerified: number;
+  articlesPretranslated: number;
+  storiesUpdated: number;
   timestamp: number;
 }
 
+export interface RefreshResult extends IngestResult {
+  sources: SourceRefreshResult[];
+}
+
+interface PendingCursors {
+  source: INewsSource;
+  update: CursorUpdate;
+}
+
 export class NewsService {
   constructor(
     private sources: INewsSource[],
     private deduplicator: IDeduplicator,
     private repository: IArticleRepository,
     private notificationService: INotificationService,
-    private incidentExtractor: IIncidentExtractor
+    private incidentExtractor: IIncidentExtractor,
+    private healthRegistry: ISourceHealthRegistry = new SourceHealthRegistry(),
+    private storyClusterer?: StoryClusterer,
+    private revisionTracker?: RevisionTracker,
+    private verifier?: IArticleVerifier,
+    private translationMemory?: TranslationMemory
   ) {
     if (!sources || sources.length === 0) {
       throw new Error('At least one news source is required');
@@ -32,7 +64,7 @@ export class NewsService {
       sources_count: this.sources.length,
     });
 
-    const articles = await this.fetchFromAllSources();
+    const { articles, sources, cursors } = await this.fetchFromAllSources();
     logger.info('articles_fetched', {
       count: articles.length,
       sources: this.sources.length,
@@ -42,31 +74,75 @@ export class NewsService {
       logger.warn('no_articles_fetched', {
         sources: this.sources.map(s => s.name),
       });
-      endTimer();
+    }
+
+    const result = await this.ingest(articles);
+
+    // Only once the articles are ingested: if ingest throws, the next refresh reads them again
+    await this.saveCursors(cursors);
+    endTimer();
+
+    return { ...result, sources };
+  }
+
+  /**
+   * Run fetched articles through revision tracking, deduplication, story
+   * clustering, saving, incident extraction, verification and notification
+   * Used by refresh and by the real-time Telegram worker
+   */
+  async ingest(articles: Article[]): Promise<IngestResult> {
+    if (articles.length === 0) {
       return {
         articlesAdded: 0,
+        articlesUpdated: 0,
         articlesTotal: 0,
         incidentsExtracted: 0,
+        articlesVerified: 0,
+        articlesPretranslated: 0,
+        storiesUpdated: 0,
         timestamp: Date.now(),
       };
     }
 
+    // Edited posts update their stored article instead of going through deduplication
+    const { fresh, updated } = await this.trackRevisions(articles);
+
     const recentArticles = await this.repository.getRecent(24);
     logger.debug('recent_articles_loaded', {
       count: recentArticles.length,
       hours: 24,
     });
 
-    const deduplicated = await this.deduplicator.process(articles, recentArticles);
+    const { unique: deduplicated, duplicates } = await this.deduplicator.processWithMatches(
+      fresh,
+      recentArticles
+    );
+
+    const storiesUpdated = await this.assignStories(deduplicated, duplicates);
 
     const saved = await this.repository.saveMany(deduplicated);
     logger.info('articles_saved', {
       count: saved.length,
-      duplicates_removed: articles.length - saved.length,
+      duplicates_removed: fresh.length - saved.length,
+      updated: updated.length,
+    });
+
+    const incidents = await this.incidentExtractor.extractFromArticles(saved);
+    logger.info('incidents_extracted', {
+      count: incidents.length,
+      from_articles: saved.length,
     });
 
+    // After extraction, so articles can be located by the incidents extracted from them
+    const scores = await this.verifyArticles(saved);
+    const articlesVerified = scores.size;
+
+    // After verification, so subscribers can match on incidents, places and scores
     if (saved.length > 0) {
-      this.notificationService.notifyNewArticles(saved).catch(err =>
+      const scored = saved.map(article =>
+        scores.has(article.id) ? { ...article, verificationScore: scores.get(article.id) } : article
+      );
+      this.notificationService.notifyNewArticles(scored, incidents).catch(err =>
         logger.error('push_notification_failed', {
           error: err.message,
           articles_count: saved.length,
@@ -74,53 +150,199 @@ export class NewsService {
       );
     }
 
-    const incidents = await this.incidentExtractor.extractFromArticles(saved);
-    logger.info('incidents_extracted', {
-      count: incidents.length,
-      from_articles: saved.length,
-    });
-
-    endTimer();
+    // Edited posts need their new text translated too
+    const articlesPretranslated = await this.pretranslate([...saved, ...updated]);
 
     return {
       articlesAdded: saved.length,
+      articlesUpdated: updated.length,
       articlesTotal: recentArticles.length + saved.length,
       incidentsExtracted: incidents.length,
+      articlesVerified,
+      articlesPretranslated,
+      storiesUpdated,
       timestamp: Date.now(),
     };
   }
 
-  private async fetchFromAllSources() {
-    const results = await Promise.allSettled(
-      this.sources.map(source => {
-        logger.debug('source_fetch_started', { source: source.name });
-        return source.fetch();
-      })
-    );
+  /**
+   * Split fetched articles into new ones and edits of already-stored posts
+   * If tracking fails everything is treated as new (deduplication still drops exact repeats)
+   */
+  private async trackRevisions(
+    articles: Article[]
+  ): Promise<{ fresh: Article[]; updated: ArticleWithHash[] }> {
+    if (!this.revisionTracker) {
+      return { fresh: articles, updated: [] };
+    }
 
-    const articles = results
-      .filter((result): result is PromiseFulfilledResult<any[]> =>
-        result.status === 'fulfilled'
-      )
-      .flatMap((result, index) => {
-        const sourceName = this.sources[index].name;
-        logger.info('source_fetch_completed', {
-          source: sourceName,
-          articles_count: result.value.length,
-        });
-        return result.value;
+    try {
+      const { fresh, updated } = await this.revisionTracker.track(articles);
+      return { fresh, updated };
+    } catch (error) {
+      logger.error('revision_tracking_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        articles_count: articles.length,
+      });
+      return { fresh: articles, updated: [] };
+    }
+  }
+
+  /**
+   * Group new articles and dropped duplicates into stories (sets storyId before save)
+   * Clustering is best-effort: a failure never blocks saving articles
+   */
+  private async assignStories(
+    articles: ArticleWithHash[],
+    duplicates: DuplicateMatch[]
+  ): Promise<number> {
+    if (!this.storyClusterer) {
+      return 0;
+    }
+
+    try {
+      const stories = await this.storyClusterer.assign(articles, duplicates);
+      return stories.length;
+    } catch (error) {
+      logger.error('story_clustering_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        articles_count: articles.length,
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Score new articles against nearby incidents, returning scores by article ID
+   * Verification is best-effort: a failure never fails the refresh
+   */
+  private async verifyArticles(articles: ArticleWithHash[]): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    if (!this.verifier || articles.length === 0) {
+      return scores;
+    }
+
+    try {
+      const { outcomes } = await this.verifier.verifyArticles(articles);
+      for (const outcome of outcomes) {
+        if (outcome.status === 'scored' && outcome.score !== undefined) {
+          scores.set(outcome.articleId, outcome.score);
+        }
+      }
+      return scores;
+    } catch (error) {
+      logger.error('article_verification_run_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        articles_count: articles.length,
       });
+      return scores;
+    }
+  }
 
-    results.forEach((result, index) => {
-      if (result.status === 'rejected') {
-        const sourceName = this.sources[index].name;
-        logger.error('source_fetch_failed', {
-          source: sourceName,
-          error: result.reason?.message || String(result.reason),
+  /**
+   * Fill the translation memory for new Persian articles (best-effort)
+   */
+  private async pretranslate(articles: ArticleWithHash[]): Promise<number> {
+    if (!this.translationMemory || articles.length === 0) {
+      return 0;
+    }
+
+    try {
+      return await this.translationMemory.pretranslate(articles);
+    } catch (error) {
+      logger.error('article_pretranslation_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        articles_count: articles.length,
+      });
+      return 0;
+    }
+  }
+
+  private async saveCursors(pending: PendingCursors[]): Promise<void> {
+    for (const { source, update } of pending) {
+      try {
+        await source.saveCursors?.(update);
+      } catch (error) {
+        logger.error('source_cursors_commit_failed', {
+          source: source.name,
+          namespace: update.namespace,
+          error: error instanceof Error ? error.message : String(error),
         });
       }
-    });
+    }
+  }
+
+  async getSourceHealth() {
+    return this.healthRegistry.getAll();
+  }
+
+  private async fetchFromAllSources(): Promise<{
+    articles: Article[];
+    sources: SourceRefreshResult[];
+    cursors: PendingCursors[];
+  }> {
+    const results = await Promise.all(
+      this.sources.map(source => this.fetchFromSource(source))
+    );
 
-    return articles;
+    return {
+      articles: results.flatMap(result => result.articles),
+      sources: results.map(result => result.summary),
+      cursors: results.flatMap((result, i) =>
+        result.cursors ? [{ source: this.sources[i], update: result.cursors }] : []
+      ),
+    };
+  }
+
+  private async fetchFromSource(
+    source: INewsSource
+  ): Promise<{ summary: SourceRefreshResult; articles: Article[]; cursors?: CursorUpdate }> {
+    if (!(await this.healthRegistry.canAttempt(source.name))) {
+      const health = await this.healthRegistry.get(source.name);
+      logger.warn('source_fetch_skipped_circuit_open', {
+        source: source.name,
+        open_until: health?.openUntil,
+      });
+      return {
+        summary: { name: source.name, status: 'skipped', articles: 0, durationMs: 0 },
+        articles: [],
+      };
+    }
+
+    logger.debug('source_fetch_started', { source: source.name });
+    const startTime = Date.now();
+
+    try {
+      const { articles, cursors } = await source.fetch();
+      const durationMs = Date.now() - startTime;
+      await this.healthRegistry.recordSuccess(source.name, durationMs, articles.length);
+
+      logger.info('source_fetch_completed', {
+        source: source.name,
+        articles_count: articles.length,
+        duration_ms: durationMs,
+      });
+
+      return {
+        summary: { name: source.name, status: 'ok', articles: articles.length, durationMs },
+        articles,
+        cursors,
+      };
+    } catch (error) {
+      const durationMs = Date.now() - startTime;
+      const message = error instanceof Error ? error.message : String(error);
+      await this.healthRegistry.recordFailure(source.name, durationMs, message);
+
+      logger.error('source_fetch_failed', {
+        source: source.name,
+        error: message,
+        duration_ms: durationMs,
+      });
+
+      return {
+        summary: { name: source.name, status: 'failed', articles: 0, durationMs, error: message },
+        articles: [],
+      };
+    }
   }
 }
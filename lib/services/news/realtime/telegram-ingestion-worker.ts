@@ -0,0 +1,290 @@
+/**
+ * Telegram Ingestion Worker
+ * A long-running process (scripts/telegram-worker.ts) that receives posts from
+ * the monitored channels as they are published, instead of waiting for the
+ * 10-minute cron:
+ * - on connect it catches up from the per-channel message ID cursors (page by
+ *   page until no backlog is left), then listens with startRealtimeListener
+ * - new posts are batched for a moment and go through NewsService.ingest, the
+ *   same dedup → save → incident extraction → notification pipeline as refresh
+ * - with a media library, attached media is downloaded and stored with each post
+ * - the cursors (shared with the cron's Telegram source) advance only after a
+ *   batch is ingested; a failed batch forces a reconnect, whose catch-up retries
+ *   it from the cursors
+ * - a lost connection is re-established with exponential backoff
+ */
+
+import type { TelegramClient } from 'telegram';
+import {
+  initTelegramClient,
+  fetchChannelUpdates,
+  startRealtimeListener,
+  TelegramArticle,
+  TelegramFetchResult,
+  TelegramFetchOptions,
+} from '@/lib/telegram-user-api';
+import { ICursorRepository } from '../repositories/i-cursor-repository';
+import { loadChannelCursors, saveChannelCursors, normalizeUserAPI } from '../sources/telegram-source';
+import type { NewsService } from '../news-service';
+import type { MediaLibrary } from '../../media/media-library';
+import { logger } from '@/lib/logger';
+
+export interface TelegramConnection {
+  connect(): Promise<TelegramClient>;
+  fetchUpdates(
+    client: TelegramClient,
+    lastMessageIds: Record<string, number>,
+    options: TelegramFetchOptions
+  ): Promise<TelegramFetchResult>;
+  listen(
+    client: TelegramClient,
+    onArticle: (article: TelegramArticle) => void,
+    options: TelegramFetchOptions
+  ): Promise<() => void>;
+}
+
+export interface IngestionWorkerOptions {
+  batchWindowMs?: number; // How long new posts wait for others before ingestion
+  healthCheckMs?: number;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+const userApiConnection: TelegramConnection = {
+  connect: initTelegramClient,
+  fetchUpdates: (client, lastMessageIds, options) => fetchChannelUpdates(client, lastMessageIds, 24, options),
+  listen: startRealtimeListener,
+};
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based): doubling from min, capped at max
+ */
+export function reconnectDelay(attempt: number, minMs: number, maxMs: number): number {
+  return Math.min(maxMs, minMs * 2 ** attempt);
+}
+
+/**
+ * Highest message ID per channel among the articles
+ */
+function newestMessageIds(articles: TelegramArticle[]): Record<string, number> {
+  const newest: Record<string, number> = {};
+  for (const article of articles) {
+    newest[article.channelUsername] = Math.max(newest[article.channelUsername] ?? 0, article.messageId);
+  }
+  return newest;
+}
+
+export class TelegramIngestionWorker {
+  private options: Required<IngestionWorkerOptions>;
+  private running = false;
+  private failures = 0;
+  private client: TelegramClient | null = null;
+  private stopListening: (() => void) | null = null;
+  private lastMessageIds: Record<string, number> = {};
+  private pending: TelegramArticle[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve(); // Batches are ingested one at a time
+  private batchFailed = false;
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private news: Pick<NewsService, 'ingest'>,
+    private cursors: ICursorRepository,
+    private media: MediaLibrary | null,
+    private telegram: TelegramConnection = userApiConnection,
+    options: IngestionWorkerOptions = {}
+  ) {
+    this.options = {
+      batchWindowMs: options.batchWindowMs ?? 2000,
+      healthCheckMs: options.healthCheckMs ?? 30000,
+      minBackoffMs: options.minBackoffMs ?? 1000,
+      maxBackoffMs: options.maxBackoffMs ?? 5 * 60 * 1000,
+    };
+  }
+
+  /**
+   * Connect, catch up and listen until stop(), reconnecting whenever the connection is lost
+   */
+  async run(): Promise<void> {
+    this.running = true;
+    logger.info('telegram_worker_started');
+
+    while (this.running) {
+      try {
+        await this.connect();
+        await this.watchConnection();
+      } catch (error) {
+        logger.error('telegram_worker_connection_failed', {
+          attempt: this.failures + 1,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      await this.disconnect();
+      if (!this.running) break;
+
+      const delay = reconnectDelay(this.failures++, this.options.minBackoffMs, this.options.maxBackoffMs);
+      logger.warn('telegram_worker_reconnecting', { attempt: this.failures, delay_ms: delay });
+      await this.sleep(delay);
+    }
+
+    logger.info('telegram_worker_stopped');
+  }
+
+  /**
+   * Ingest what is already received, then disconnect
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wake?.();
+    await this.flush();
+    await this.disconnect();
+  }
+
+  private async connect(): Promise<void> {
+    this.client = await this.telegram.connect();
+    this.lastMessageIds = await loadChannelCursors(this.cursors);
+    this.batchFailed = false;
+
+    // Listening starts before the catch-up so nothing published meanwhile is missed;
+    // posts the catch-up already ingested are dropped from realtime batches
+    const options = { downloadMedia: !!this.media?.isAvailable() };
+    this.stopListening = await this.telegram.listen(this.client, article => this.enqueue(article), options);
+
+    // One queue entry, so no realtime batch (and its newer cursors) lands between catch-up rounds;
+    // a failed fetch fails the connection, but later batches still run after it
+    const catchUp = this.queue.then(() => this.catchUp(options));
+    this.queue = catchUp.catch(() => {});
+    await catchUp;
+  }
+
+  /**
+   * Fetch and ingest from the cursors until a fetch reports no backlog left
+   */
+  private async catchUp(options: TelegramFetchOptions): Promise<void> {
+    let caughtUp = 0;
+    let complete = false;
+
+    while (!complete && !this.batchFailed && this.client) {
+      const result = await this.telegram.fetchUpdates(this.client, this.lastMessageIds, options);
+      await this.ingest(result.articles, result.lastMessageIds);
+      caughtUp += result.articles.length;
+      complete = result.complete;
+    }
+
+    logger.info('telegram_worker_connected', {
+      caught_up: caughtUp,
+      channels: Object.keys(this.lastMessageIds).length,
+    });
+  }
+
+  /**
+   * Resolve once the connection drops, a batch fails or the worker is stopped
+   */
+  private async watchConnection(): Promise<void> {
+    while (this.running) {
+      if (this.batchFailed) {
+        throw new Error('Ingestion failed; reconnecting to catch up from the cursors');
+      }
+
+      await this.sleep(this.options.healthCheckMs);
+      if (!this.running || this.batchFailed) continue;
+
+      if (!this.client?.connected) {
+        logger.warn('telegram_worker_disconnected');
+        return;
+      }
+
+      // Up for a full check interval: the next outage starts from the shortest backoff
+      this.failures = 0;
+    }
+  }
+
+  private async disconnect(): Promise<void> {
+    this.stopListening?.();
+    this.stopListening = null;
+
+    if (this.client) {
+      const client = this.client;
+      this.client = null;
+      try {
+        await client.disconnect();
+      } catch (error) {
+        logger.warn('telegram_worker_disconnect_failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private enqueue(article: TelegramArticle): void {
+    this.pending.push(article);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), this.options.batchWindowMs);
+    }
+  }
+
+  private flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const batch = this.pending.splice(0);
+    if (batch.length > 0) {
+      this.queue = this.queue.then(() => {
+        const unseen = batch.filter(article => article.messageId > (this.lastMessageIds[article.channelUsername] ?? 0));
+        return this.ingest(unseen, newestMessageIds(unseen));
+      });
+    }
+    return this.queue;
+  }
+
+  /**
+   * Run articles through the news pipeline, then advance the cursors
+   * After a failure the cursors stay put until the reconnect's catch-up has re-read the gap
+   */
+  private async ingest(articles: TelegramArticle[], seen: Record<string, number>): Promise<void> {
+    if (this.batchFailed) {
+      return;
+    }
+
+    try {
+      if (articles.length > 0) {
+        const result = await this.news.ingest(await normalizeUserAPI(articles, this.media ?? undefined));
+        logger.info('telegram_worker_batch_ingested', {
+          received: articles.length,
+          added: result.articlesAdded,
+          updated: result.articlesUpdated,
+          incidents: result.incidentsExtracted,
+        });
+      }
+
+      const advanced = Object.fromEntries(
+        Object.entries(seen).filter(([channel, id]) => id > (this.lastMessageIds[channel] ?? 0))
+      );
+      if (Object.keys(advanced).length > 0) {
+        await saveChannelCursors(this.cursors, advanced);
+        this.lastMessageIds = { ...this.lastMessageIds, ...advanced };
+      }
+    } catch (error) {
+      logger.error('telegram_worker_batch_failed', {
+        articles_count: articles.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.batchFailed = true;
+      this.wake?.();
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.wake = done;
+    });
+  }
+}
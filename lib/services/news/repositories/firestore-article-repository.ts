@@ -2,9 +2,14 @@ import { IArticleRepository } from './i-article-repository';
 import { ArticleWithHash } from '../deduplication/i-deduplicator';
 import {
   saveArticles,
+  getArticles,
+  getArticlesByTopic,
+  deleteOldArticles,
   getRecentArticles,
   getArticleById,
   getArticleByContentHash,
+  getArticlesBySourceIds,
+  updateArticle,
   isFirestoreAvailable,
   Article as FirestoreArticle,
 } from '@/lib/firestore';
@@ -30,6 +35,24 @@ export class FirestoreArticleRepository implements IArticleRepository {
     }
   }
 
+  async list(limit: number = 20, startAfter?: string): Promise<ArticleWithHash[]> {
+    if (!isFirestoreAvailable()) {
+      return [];
+    }
+
+    const articles = await getArticles(limit, startAfter);
+    return articles as ArticleWithHash[];
+  }
+
+  async getByTopic(topic: string, limit: number = 20): Promise<ArticleWithHash[]> {
+    if (!isFirestoreAvailable()) {
+      return [];
+    }
+
+    const articles = await getArticlesByTopic(topic, limit);
+    return articles as ArticleWithHash[];
+  }
+
   async saveMany(articles: ArticleWithHash[]): Promise<ArticleWithHash[]> {
     if (!isFirestoreAvailable()) {
       throw new Error('Firestore not available');
@@ -71,4 +94,29 @@ export class FirestoreArticleRepository implements IArticleRepository {
     const article = await getArticleByContentHash(hash);
     return article as ArticleWithHash | null;
   }
+
+  async getBySourceIds(sourceIds: string[]): Promise<ArticleWithHash[]> {
+    if (!isFirestoreAvailable() || sourceIds.length === 0) {
+      return [];
+    }
+
+    const articles = await getArticlesBySourceIds(sourceIds);
+    return articles as ArticleWithHash[];
+  }
+
+  async update(id: string, updates: Partial<ArticleWithHash>): Promise<void> {
+    if (!isFirestoreAvailable()) {
+      throw new Error('Firestore not available');
+    }
+
+    await updateArticle(id, updates as Partial<FirestoreArticle>);
+  }
+
+  async deleteOlderThan(daysOld: number = 30): Promise<number> {
+    if (!isFirestoreAvailable()) {
+      return 0;
+    }
+
+    return deleteOldArticles(daysOld);
+  }
 }
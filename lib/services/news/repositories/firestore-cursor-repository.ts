@@ -0,0 +1,41 @@
+import { ICursorRepository } from './i-cursor-repository';
+import { getSourceCursors, saveSourceCursors, isFirestoreAvailable } from '@/lib/firestore';
+import { logger } from '@/lib/logger';
+
+export class FirestoreCursorRepository implements ICursorRepository {
+  async getAll(source: string): Promise<Record<string, string>> {
+    if (!isFirestoreAvailable()) {
+      return {};
+    }
+
+    try {
+      return await getSourceCursors(source);
+    } catch (error) {
+      // A missing cursor only costs a full re-fetch; never block the refresh on it
+      logger.error('source_cursors_load_failed', {
+        source,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {};
+    }
+  }
+
+  async saveMany(source: string, cursors: Record<string, string>): Promise<void> {
+    if (!isFirestoreAvailable() || Object.keys(cursors).length === 0) {
+      return;
+    }
+
+    try {
+      await saveSourceCursors(source, cursors);
+      logger.debug('source_cursors_saved', {
+        source,
+        keys: Object.keys(cursors).length,
+      });
+    } catch (error) {
+      logger.error('source_cursors_save_failed', {
+        source,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
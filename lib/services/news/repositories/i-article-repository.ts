@@ -2,7 +2,12 @@ import { ArticleWithHash } from '../deduplication/i-deduplicator';
 
 export interface IArticleRepository {
   getRecent(hoursBack: number): Promise<ArticleWithHash[]>;
+  list(limit: number, startAfter?: string): Promise<ArticleWithHash[]>;
+  getByTopic(topic: string, limit: number): Promise<ArticleWithHash[]>;
   saveMany(articles: ArticleWithHash[]): Promise<ArticleWithHash[]>;
   getById(id: string): Promise<ArticleWithHash | null>;
   getByContentHash(hash: string): Promise<ArticleWithHash | null>;
+  getBySourceIds(sourceIds: string[]): Promise<ArticleWithHash[]>;
+  update(id: string, updates: Partial<ArticleWithHash>): Promise<void>;
+  deleteOlderThan(daysOld: number): Promise<number>;
 }
@@ -0,0 +1,8 @@
+/**
+ * Incremental fetch cursors per news source
+ * A source namespace (e.g. 'telegram-user') maps cursor keys (channel, feed URL) to opaque string values
+ */
+export interface ICursorRepository {
+  getAll(source: string): Promise<Record<string, string>>;
+  saveMany(source: string, cursors: Record<string, string>): Promise<void>;
+}
@@ -0,0 +1,18 @@
+/**
+ * In-Memory Cursor Repository
+ * Fallback when Firestore is unavailable; cursors last for the process lifetime
+ */
+
+import { ICursorRepository } from './i-cursor-repository';
+
+export class InMemoryCursorRepository implements ICursorRepository {
+  private cursors = new Map<string, Record<string, string>>();
+
+  async getAll(source: string): Promise<Record<string, string>> {
+    return { ...(this.cursors.get(source) || {}) };
+  }
+
+  async saveMany(source: string, cursors: Record<string, string>): Promise<void> {
+    this.cursors.set(source, { ...(this.cursors.get(source) || {}), ...cursors });
+  }
+}
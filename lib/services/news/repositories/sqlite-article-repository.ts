@@ -0,0 +1,85 @@
+import { IArticleRepository } from './i-article-repository';
+import { ArticleWithHash } from '../deduplication/i-deduplicator';
+import {
+  saveArticles,
+  getArticles,
+  getArticlesByTopic,
+  deleteOldArticles,
+  getRecentArticles,
+  getArticleById,
+  getArticleByContentHash,
+  getArticlesBySourceIds,
+  updateArticle,
+} from '@/lib/sqlite';
+import type { Article as StoredArticle } from '@/lib/firestore';
+import { logger } from '@/lib/logger';
+
+export class SqliteArticleRepository implements IArticleRepository {
+  async getRecent(hoursBack: number = 24): Promise<ArticleWithHash[]> {
+    try {
+      const articles = await getRecentArticles(hoursBack);
+      return articles as ArticleWithHash[];
+    } catch (error) {
+      logger.error('fetch_recent_articles_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        hours_back: hoursBack,
+        storage: 'sqlite',
+      });
+      return [];
+    }
+  }
+
+  async list(limit: number = 20, startAfter?: string): Promise<ArticleWithHash[]> {
+    const articles = await getArticles(limit, startAfter);
+    return articles as ArticleWithHash[];
+  }
+
+  async getByTopic(topic: string, limit: number = 20): Promise<ArticleWithHash[]> {
+    const articles = await getArticlesByTopic(topic, limit);
+    return articles as ArticleWithHash[];
+  }
+
+  async saveMany(articles: ArticleWithHash[]): Promise<ArticleWithHash[]> {
+    if (articles.length === 0) {
+      return [];
+    }
+
+    const storedArticles = articles.map(article => ({
+      ...article,
+      publishedAt: typeof article.publishedAt === 'string'
+        ? new Date(article.publishedAt).getTime()
+        : article.publishedAt,
+    })) as StoredArticle[];
+
+    await saveArticles(storedArticles);
+    logger.info('articles_saved_to_sqlite', {
+      articles_count: storedArticles.length,
+    });
+
+    return articles;
+  }
+
+  async getById(id: string): Promise<ArticleWithHash | null> {
+    const article = await getArticleById(id);
+    return article as ArticleWithHash | null;
+  }
+
+  async getByContentHash(hash: string): Promise<ArticleWithHash | null> {
+    const article = await getArticleByContentHash(hash);
+    return article as ArticleWithHash | null;
+  }
+
+  async getBySourceIds(sourceIds: string[]): Promise<ArticleWithHash[]> {
+    const articles = await getArticlesBySourceIds(sourceIds);
+    return articles as ArticleWithHash[];
+  }
+
+  async update(id: string, updates: Partial<ArticleWithHash>): Promise<void> {
+    await updateArticle(id, updates as Partial<StoredArticle>);
+  }
+
+  async deleteOlderThan(daysOld: number = 30): Promise<number> {
+    return deleteOldArticles(daysOld);
+  }
+}
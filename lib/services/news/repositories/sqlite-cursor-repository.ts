@@ -0,0 +1,34 @@
+import { ICursorRepository } from './i-cursor-repository';
+import { getSourceCursors, saveSourceCursors } from '@/lib/sqlite';
+import { logger } from '@/lib/logger';
+
+export class SqliteCursorRepository implements ICursorRepository {
+  async getAll(source: string): Promise<Record<string, string>> {
+    try {
+      return await getSourceCursors(source);
+    } catch (error) {
+      logger.error('source_cursors_load_failed', {
+        source,
+        error: error instanceof Error ? error.message : String(error),
+        storage: 'sqlite',
+      });
+      return {};
+    }
+  }
+
+  async saveMany(source: string, cursors: Record<string, string>): Promise<void> {
+    if (Object.keys(cursors).length === 0) {
+      return;
+    }
+
+    try {
+      await saveSourceCursors(source, cursors);
+    } catch (error) {
+      logger.error('source_cursors_save_failed', {
+        source,
+        error: error instanceof Error ? error.message : String(error),
+        storage: 'sqlite',
+      });
+    }
+  }
+}
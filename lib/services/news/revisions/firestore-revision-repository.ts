@@ -0,0 +1,32 @@
+import { IRevisionRepository, ArticleRevision } from './i-revision-repository';
+import {
+  saveArticleRevisions,
+  getArticleRevisions,
+  isFirestoreAvailable,
+} from '@/lib/firestore';
+import { logger } from '@/lib/logger';
+
+export class FirestoreRevisionRepository implements IRevisionRepository {
+  async listByArticle(articleId: string): Promise<ArticleRevision[]> {
+    if (!isFirestoreAvailable()) {
+      return [];
+    }
+
+    return getArticleRevisions(articleId);
+  }
+
+  async saveMany(revisions: ArticleRevision[]): Promise<void> {
+    if (!isFirestoreAvailable()) {
+      throw new Error('Firestore not available');
+    }
+
+    if (revisions.length === 0) {
+      return;
+    }
+
+    await saveArticleRevisions(revisions);
+    logger.info('article_revisions_saved_to_firestore', {
+      revisions_count: revisions.length,
+    });
+  }
+}
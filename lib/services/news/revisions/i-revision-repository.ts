@@ -0,0 +1,8 @@
+import { ArticleRevision } from '@/lib/firestore';
+
+export type { ArticleRevision } from '@/lib/firestore';
+
+export interface IRevisionRepository {
+  listByArticle(articleId: string): Promise<ArticleRevision[]>;
+  saveMany(revisions: ArticleRevision[]): Promise<void>;
+}
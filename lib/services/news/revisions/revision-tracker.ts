@@ -0,0 +1,170 @@
+/**
+ * Article Revision Tracker
+ * Recognizes re-fetched posts by source identity and records edits as revisions
+ * instead of letting the edited text through as a new article.
+ *
+ * The stored article keeps its id and publishedAt; its text is replaced by the
+ * latest revision and `revisionCount` / `updatedAt` are set.
+ */
+
+import { Article } from '../sources/i-news-source';
+import { ArticleWithHash } from '../deduplication/i-deduplicator';
+import { IArticleRepository } from '../repositories/i-article-repository';
+import { IRevisionRepository, ArticleRevision } from './i-revision-repository';
+import { getSourceIdentity } from './source-identity';
+import { computeContentHash, generateMinHashSignature } from '@/lib/minhash';
+import { diffWords, getDiffStats } from '@/lib/text-diff';
+import { toMillis } from '@/lib/domain/time';
+import { logger } from '@/lib/logger';
+
+export interface RevisionTrackingResult {
+  fresh: Article[]; // Never stored before: continue to deduplication
+  updated: ArticleWithHash[]; // Stored articles that gained a revision
+  unchanged: number; // Re-fetched with identical text
+}
+
+export class RevisionTracker {
+  constructor(
+    private articles: IArticleRepository,
+    private revisions: IRevisionRepository
+  ) {}
+
+  async track(articles: Article[]): Promise<RevisionTrackingResult> {
+    // Stamp identities; within one batch the last copy of a post wins (edits arrive after originals)
+    const latest = new Map<string, Article>();
+    for (const article of articles) {
+      const sourceId = getSourceIdentity(article);
+      if (sourceId) {
+        article.sourceId = sourceId;
+        latest.set(sourceId, article);
+      }
+    }
+
+    const stored = await this.articles.getBySourceIds(Array.from(latest.keys()));
+    const storedBySourceId = new Map(stored.map(article => [article.sourceId!, article]));
+
+    const fresh: Article[] = [];
+    const updated: ArticleWithHash[] = [];
+    const newRevisions: ArticleRevision[] = [];
+    let unchanged = 0;
+
+    for (const article of articles) {
+      if (article.sourceId && latest.get(article.sourceId) !== article) {
+        continue; // Superseded by a later copy in this batch
+      }
+
+      const existing = article.sourceId ? storedBySourceId.get(article.sourceId) : undefined;
+      if (!existing) {
+        fresh.push(article);
+        continue;
+      }
+
+      const text = article.content || article.summary;
+      const contentHash = await computeContentHash(text);
+
+      if (contentHash === existing.contentHash && article.title === existing.title) {
+        unchanged++;
+        continue;
+      }
+
+      const revisions = this.buildRevisions(existing, article, contentHash);
+      newRevisions.push(...revisions);
+
+      const updates: Partial<ArticleWithHash> = {
+        title: article.title,
+        summary: article.summary,
+        content: article.content,
+        contentHash,
+        minHash: generateMinHashSignature(text),
+        revisionCount: revisions[revisions.length - 1].revision,
+        updatedAt: Date.now(),
+        ...(article.imageUrl && { imageUrl: article.imageUrl }),
+        ...(article.editedAt && { editedAt: article.editedAt }),
+      };
+
+      updated.push({ ...existing, ...updates });
+    }
+
+    // Revisions first: an article must never show text its history doesn't have
+    if (newRevisions.length > 0) {
+      await this.revisions.saveMany(newRevisions);
+    }
+
+    for (const article of updated) {
+      await this.articles.update(article.id, {
+        title: article.title,
+        summary: article.summary,
+        content: article.content,
+        contentHash: article.contentHash,
+        minHash: article.minHash,
+        imageUrl: article.imageUrl,
+        editedAt: article.editedAt,
+        revisionCount: article.revisionCount,
+        updatedAt: article.updatedAt,
+      });
+    }
+
+    logger.info('article_revisions_tracked', {
+      fetched: articles.length,
+      fresh: fresh.length,
+      updated: updated.length,
+      unchanged,
+    });
+
+    return { fresh, updated, unchanged };
+  }
+
+  /**
+   * The first edit also records the stored text as revision 1, so history always starts at the original
+   */
+  private buildRevisions(
+    existing: ArticleWithHash,
+    edited: Article,
+    contentHash: string
+  ): ArticleRevision[] {
+    const revisions: ArticleRevision[] = [];
+    const previous = existing.revisionCount || 1;
+
+    if (!existing.revisionCount) {
+      revisions.push({
+        id: `${existing.id}_r1`,
+        articleId: existing.id,
+        revision: 1,
+        title: existing.title,
+        summary: existing.summary,
+        content: existing.content,
+        contentHash: existing.contentHash,
+        capturedAt: toMillis(existing.createdAt) ?? toMillis(existing.publishedAt) ?? Date.now(),
+      });
+    }
+
+    const diff = diffWords(existing.content || existing.summary, edited.content || edited.summary);
+    const { added, removed } = getDiffStats(diff);
+    const revision = previous + 1;
+
+    revisions.push({
+      id: `${existing.id}_r${revision}`,
+      articleId: existing.id,
+      revision,
+      title: edited.title,
+      summary: edited.summary,
+      content: edited.content,
+      contentHash,
+      capturedAt: Date.now(),
+      ...(edited.editedAt && { editedAt: edited.editedAt }),
+      diff,
+      wordsAdded: added,
+      wordsRemoved: removed,
+    });
+
+    logger.info('article_edit_detected', {
+      article_id: existing.id,
+      source_id: edited.sourceId,
+      revision,
+      words_added: added,
+      words_removed: removed,
+    });
+
+    return revisions;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Source identity: what makes a fetched item "the same post" across fetches,
+ * independent of its text (which the publisher may edit)
+ */
+
+import { Article } from '../sources/i-news-source';
+
+// Query parameters that vary per share link without changing the post
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid)$/i;
+
+// Sources whose sourceUrl is a citation rather than the item's own permalink
+const NON_PERMALINK_SOURCES = new Set(['perplexity']);
+
+/**
+ * Stable identity for an article
+ * - Telegram posts: telegram:<channel>:<messageId> (or telegram:c<chatId>:<messageId> for private links)
+ * - Tweets: twitter:<statusId>
+ * - Everything else: url:<host><path>?<query> with tracking params removed
+ * Returns undefined when the article has no usable source URL, or when its URL is
+ * not its own permalink (Perplexity cites articles several summaries may share)
+ */
+export function getSourceIdentity(
+  article: Pick<Article, 'sourceId' | 'sourceUrl'> & Partial<Pick<Article, 'source'>>
+): string | undefined {
+  if (article.sourceId) {
+    return article.sourceId;
+  }
+
+  if (!article.sourceUrl || (article.source && NON_PERMALINK_SOURCES.has(article.source))) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(article.sourceUrl);
+  } catch {
+    return undefined;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (host === 't.me' || host === 'telegram.me') {
+    // /s/<channel>/<id> is the public web preview of the same post
+    const parts = segments[0] === 's' ? segments.slice(1) : segments;
+    const [channel, messageId] = parts[0] === 'c' ? [`c${parts[1]}`, parts[2]] : parts;
+
+    if (channel && messageId && /^\d+$/.test(messageId)) {
+      return `telegram:${channel.toLowerCase()}:${messageId}`;
+    }
+  }
+
+  if (['twitter.com', 'x.com', 'mobile.twitter.com'].includes(host)) {
+    const statusIndex = segments.indexOf('status');
+    const statusId = statusIndex >= 0 ? segments[statusIndex + 1] : undefined;
+
+    if (statusId && /^\d+$/.test(statusId)) {
+      return `twitter:${statusId}`;
+    }
+  }
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  const path = url.pathname.replace(/\/+$/, '');
+
+  return `url:${host}${path}${query}`;
+}
@@ -0,0 +1,16 @@
+import { IRevisionRepository, ArticleRevision } from './i-revision-repository';
+import { saveArticleRevisions, getArticleRevisions } from '@/lib/sqlite';
+
+export class SqliteRevisionRepository implements IRevisionRepository {
+  async listByArticle(articleId: string): Promise<ArticleRevision[]> {
+    return getArticleRevisions(articleId);
+  }
+
+  async saveMany(revisions: ArticleRevision[]): Promise<void> {
+    if (revisions.length === 0) {
+      return;
+    }
+
+    await saveArticleRevisions(revisions);
+  }
+}
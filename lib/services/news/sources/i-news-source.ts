@@ -5,7 +5,24 @@
 
 export interface INewsSource {
   readonly name: string;
-  fetch(query?: string): Promise<Article[]>;
+  fetch(query?: string): Promise<SourceFetchResult>;
+  /** Persist cursors returned by fetch, once their articles have been ingested */
+  saveCursors?(update: CursorUpdate): Promise<void>;
+}
+
+/**
+ * Where an incremental source has read up to: a cursor namespace and its values
+ * (see ICursorRepository)
+ */
+export interface CursorUpdate {
+  namespace: string;
+  values: Record<string, string>;
+}
+
+export interface SourceFetchResult {
+  articles: Article[];
+  /** Saved by NewsService only after the articles are ingested, so a failed run re-reads them */
+  cursors?: CursorUpdate;
 }
 
 export interface Article {
@@ -33,4 +50,8 @@ export interface Article {
   };
   channelName?: string;
   channelUsername?: string;
+  sourceId?: string; // Stable identity at the source (see getSourceIdentity); set by NewsService if absent
+  editedAt?: number; // Edit time reported by the source, when known
+  mediaIds?: string[]; // Media downloaded from the post and stored by MediaLibrary
+  imageHash?: string; // Perceptual hash of the first stored image
 }
@@ -1,4 +1,4 @@
-import { INewsSource, Article } from './i-news-source';
+import { INewsSource, Article, SourceFetchResult } from './i-news-source';
 import { fetchPerplexityNews, PerplexityArticle } from '@/lib/perplexity';
 import { logger } from '@/lib/logger';
 
@@ -11,16 +11,17 @@ export class PerplexityNewsSource implements INewsSource {
     }
   }
 
-  async fetch(_query?: string): Promise<Article[]> {
+  async fetch(_query?: string): Promise<SourceFetchResult> {
     try {
       const result = await fetchPerplexityNews();
-      return this.normalize(result);
+      return { articles: this.normalize(result) };
     } catch (error) {
       logger.error('perplexity_fetch_failed', {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
-      return [];
+      // Rethrow so NewsService records the failure against this source's health
+      throw error;
     }
   }
 
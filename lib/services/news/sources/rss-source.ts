@@ -0,0 +1,158 @@
+import { INewsSource, Article, SourceFetchResult, CursorUpdate } from './i-news-source';
+import { ICursorRepository } from '../repositories/i-cursor-repository';
+import { InMemoryCursorRepository } from '../repositories/in-memory-cursor-repository';
+import {
+  fetchFeed,
+  getApprovedRssFeeds,
+  FeedItem,
+  ParsedFeed,
+  RssFeedConfig,
+} from '@/lib/rss';
+import { logger } from '@/lib/logger';
+
+export interface RssNewsSourceOptions {
+  includeApprovedSuggestions?: boolean;
+  maxItemsPerFeed?: number;
+}
+
+/**
+ * Per-feed cursor: conditional GET validators plus the newest item date already ingested
+ * (covers servers that ignore If-None-Match / If-Modified-Since)
+ */
+interface FeedCursor {
+  etag?: string;
+  lastModified?: string;
+  newestPublishedAt?: number;
+}
+
+export class RssNewsSource implements INewsSource {
+  readonly name = 'rss';
+
+  constructor(
+    private feeds: RssFeedConfig[],
+    private options: RssNewsSourceOptions = {},
+    private cursors: ICursorRepository = new InMemoryCursorRepository()
+  ) {}
+
+  async fetch(_query?: string): Promise<SourceFetchResult> {
+    const feeds = await this.resolveFeeds();
+    const stored = await this.cursors.getAll(this.name);
+    const updatedCursors: Record<string, string> = {};
+
+    const results = await Promise.allSettled(
+      feeds.map(async feed => {
+        const cursor: FeedCursor = stored[feed.url] ? JSON.parse(stored[feed.url]) : {};
+        const { articles, next } = await this.fetchOne(feed, cursor);
+        updatedCursors[feed.url] = JSON.stringify(next);
+        return articles;
+      })
+    );
+
+    const failures = results.filter(result => result.status === 'rejected').length;
+    if (feeds.length > 0 && failures === feeds.length) {
+      // Every feed failed: surface it so the source's health reflects the outage
+      throw new Error(`All ${feeds.length} RSS feeds failed`);
+    }
+
+    const articles = results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      }
+      logger.warn('rss_feed_fetch_failed', {
+        feed: feeds[index].url,
+        error: result.reason?.message || String(result.reason),
+      });
+      return [];
+    });
+
+    return { articles, cursors: { namespace: this.name, values: updatedCursors } };
+  }
+
+  async saveCursors({ namespace, values }: CursorUpdate): Promise<void> {
+    await this.cursors.saveMany(namespace, values);
+  }
+
+  private async resolveFeeds(): Promise<RssFeedConfig[]> {
+    const feeds = [...this.feeds];
+
+    if (this.options.includeApprovedSuggestions) {
+      const approved = await getApprovedRssFeeds();
+      feeds.push(...approved);
+    }
+
+    // The same feed may be configured and also suggested
+    const seen = new Set<string>();
+    return feeds.filter(feed => {
+      if (seen.has(feed.url)) return false;
+      seen.add(feed.url);
+      return true;
+    });
+  }
+
+  private async fetchOne(
+    feed: RssFeedConfig,
+    cursor: FeedCursor
+  ): Promise<{ articles: Article[]; next: FeedCursor }> {
+    const result = await fetchFeed(feed.url, {
+      etag: cursor.etag,
+      lastModified: cursor.lastModified,
+    });
+
+    if (result.notModified || !result.feed) {
+      return { articles: [], next: cursor };
+    }
+
+    const parsed = result.feed;
+    const freshItems = parsed.items
+      .filter(item => !cursor.newestPublishedAt || !item.publishedAt || item.publishedAt > cursor.newestPublishedAt)
+      .sort((a, b) => (a.publishedAt || 0) - (b.publishedAt || 0));
+
+    // Take the oldest items first so a capped fetch leaves the rest for the next run
+    const newItems = freshItems.slice(0, this.options.maxItemsPerFeed ?? 30);
+    const truncated = newItems.length < freshItems.length;
+
+    // Only advance past items actually returned
+    const newestPublishedAt = newItems.reduce(
+      (newest, item) => Math.max(newest, item.publishedAt || 0),
+      cursor.newestPublishedAt || 0
+    );
+
+    logger.debug('rss_feed_fetched', {
+      feed: feed.url,
+      format: parsed.format,
+      items: parsed.items.length,
+      new_items: newItems.length,
+    });
+
+    return {
+      articles: newItems.map(item => this.normalize(item, feed, parsed)),
+      next: {
+        // A capped fetch drops the validators so the next run gets the body again, not a 304
+        ...(truncated ? {} : result.validators),
+        newestPublishedAt: newestPublishedAt || undefined,
+      },
+    };
+  }
+
+  private normalize(item: FeedItem, feed: RssFeedConfig, parsed: ParsedFeed): Article {
+    const feedHost = new URL(feed.url).hostname.replace(/^www\./, '');
+
+    return {
+      id: crypto.randomUUID(),
+      title: item.title,
+      summary: item.description.substring(0, 300) || item.content.substring(0, 300),
+      content: item.content,
+      imageUrl: item.imageUrl,
+      source: 'rss',
+      sourceUrl: item.link || feed.url,
+      publishedAt: item.publishedAt || Date.now(),
+      topics: [],
+      tags: item.categories,
+      author: item.author ? { name: item.author } : undefined,
+      channelName: feed.name || parsed.title,
+      channelUsername: feedHost,
+      // Without a link the sourceUrl is the feed itself, so key the item on its guid instead
+      sourceId: item.link ? undefined : `rss:${feedHost}:${item.guid}`,
+    };
+  }
+}
@@ -1,13 +1,86 @@
-import { INewsSource, Article } from './i-news-source';
+import { INewsSource, Article, SourceFetchResult, CursorUpdate } from './i-news-source';
+import { ICursorRepository } from '../repositories/i-cursor-repository';
+import { InMemoryCursorRepository } from '../repositories/in-memory-cursor-repository';
 import {
   initTelegramClient,
-  fetchRecentMessages,
+  fetchChannelUpdates,
   TelegramArticle as UserAPIArticle,
 } from '@/lib/telegram-user-api';
-import { scrapeTelegram, ScrapedTelegramArticle } from '@/lib/telegram-scraper';
+import { scrapeTelegram, getLastUpdateId, ScrapedTelegramArticle } from '@/lib/telegram-scraper';
 import { getMockTelegramArticles, TelegramArticle } from '@/lib/telegram';
+import { MediaLibrary } from '../../media/media-library';
+import { DownloadedMedia, mediaUrl } from '@/lib/domain/media';
 import { logger } from '@/lib/logger';
 
+// Cursor namespaces: last message ID per channel (user API) and last update ID (bot API)
+export const USER_API_CURSOR = 'telegram-user';
+const BOT_API_CURSOR = 'telegram-bot';
+
+/**
+ * Last ingested message ID per channel (shared by the cron fetch and the real-time worker)
+ */
+export async function loadChannelCursors(cursors: ICursorRepository): Promise<Record<string, number>> {
+  const stored = await cursors.getAll(USER_API_CURSOR);
+  return Object.fromEntries(
+    Object.entries(stored).map(([channel, id]) => [channel, parseInt(id)])
+  );
+}
+
+export async function saveChannelCursors(cursors: ICursorRepository, lastMessageIds: Record<string, number>): Promise<void> {
+  await cursors.saveMany(USER_API_CURSOR, toCursorValues(lastMessageIds));
+}
+
+function toCursorValues(lastMessageIds: Record<string, number>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(lastMessageIds).map(([channel, id]) => [channel, String(id)])
+  );
+}
+
+/**
+ * Store a post's downloaded media and return the article fields that point to it:
+ * the media IDs, plus the first image as the article image
+ */
+export async function storePostMedia(
+  media: MediaLibrary | undefined,
+  downloads: DownloadedMedia[] | undefined,
+  sourceUrl: string
+): Promise<Pick<Article, 'mediaIds' | 'imageUrl' | 'imageHash'>> {
+  if (!media || !downloads?.length) {
+    return {};
+  }
+
+  const assets = await media.storeAll(downloads, sourceUrl);
+  const image = assets.find(asset => asset.pHash);
+  return {
+    ...(assets.length > 0 && { mediaIds: assets.map(asset => asset.id) }),
+    ...(image && { imageUrl: mediaUrl(image.id), imageHash: image.pHash }),
+  };
+}
+
+/**
+ * Normalize user API posts; with a media library their downloaded media is stored
+ */
+export async function normalizeUserAPI(data: UserAPIArticle[], media?: MediaLibrary): Promise<Article[]> {
+  const articles: Article[] = [];
+  for (const item of data) {
+    articles.push({
+      id: crypto.randomUUID(),
+      title: item.title,
+      summary: item.summary,
+      content: item.content,
+      source: 'telegram',
+      sourceUrl: item.sourceUrl,
+      publishedAt: item.publishedAt,
+      topics: (item as any).topics || [],
+      channelName: item.channelName,
+      channelUsername: item.channelUsername,
+      editedAt: item.editedAt,
+      ...await storePostMedia(media, item.media, item.sourceUrl),
+    });
+  }
+  return articles;
+}
+
 export class TelegramNewsSource implements INewsSource {
   readonly name = 'telegram';
 
@@ -15,10 +88,19 @@ export class TelegramNewsSource implements INewsSource {
     private sessionString?: string,
     private apiId?: string,
     private apiHash?: string,
-    private botToken?: string
+    private botToken?: string,
+    private cursors: ICursorRepository = new InMemoryCursorRepository(),
+    private media?: MediaLibrary
   ) {}
 
-  async fetch(_query?: string): Promise<Article[]> {
+  /**
+   * Media is only downloaded when it can be stored
+   */
+  private shouldDownloadMedia(): boolean {
+    return !!this.media?.isAvailable();
+  }
+
+  async fetch(_query?: string): Promise<SourceFetchResult> {
     try {
       const useUserAPI = !!(this.sessionString && this.apiId && this.apiHash);
       const useBotAPI = !!this.botToken;
@@ -35,16 +117,39 @@ export class TelegramNewsSource implements INewsSource {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
-      return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Channel cursors only move forward: the real-time worker may have advanced
+   * them while this fetch was being ingested
+   */
+  async saveCursors({ namespace, values }: CursorUpdate): Promise<void> {
+    if (namespace === USER_API_CURSOR) {
+      const current = await loadChannelCursors(this.cursors);
+      values = Object.fromEntries(
+        Object.entries(values).filter(([channel, id]) => parseInt(id) > (current[channel] ?? 0))
+      );
+    }
+
+    if (Object.keys(values).length > 0) {
+      await this.cursors.saveMany(namespace, values);
     }
   }
 
-  private async fetchUserAPI(): Promise<Article[]> {
+  private async fetchUserAPI(): Promise<SourceFetchResult> {
     try {
+      const lastMessageIds = await loadChannelCursors(this.cursors);
+
       const client = await initTelegramClient();
-      const articles = await fetchRecentMessages(client, 24);
+      const result = await fetchChannelUpdates(client, lastMessageIds, 24, { downloadMedia: this.shouldDownloadMedia() });
       await client.disconnect();
-      return this.normalizeUserAPI(articles);
+
+      return {
+        articles: await normalizeUserAPI(result.articles, this.media),
+        cursors: { namespace: USER_API_CURSOR, values: toCursorValues(result.lastMessageIds) },
+      };
     } catch (error) {
       logger.warn('telegram_user_api_failed_fallback', {
         error: error instanceof Error ? error.message : String(error),
@@ -57,10 +162,14 @@ export class TelegramNewsSource implements INewsSource {
     }
   }
 
-  private async fetchBotAPI(): Promise<Article[]> {
+  private async fetchBotAPI(): Promise<SourceFetchResult> {
     try {
-      const articles = await scrapeTelegram(20);
-      return this.normalizeBotAPI(articles);
+      const { lastUpdateId } = await this.cursors.getAll(BOT_API_CURSOR);
+      const articles = await scrapeTelegram(20, lastUpdateId ? parseInt(lastUpdateId) : undefined, this.shouldDownloadMedia());
+      return {
+        articles: await this.normalizeBotAPI(articles),
+        cursors: { namespace: BOT_API_CURSOR, values: { lastUpdateId: String(getLastUpdateId()) } },
+      };
     } catch (error) {
       logger.warn('telegram_bot_api_failed_using_mock', {
         error: error instanceof Error ? error.message : String(error),
@@ -69,39 +178,30 @@ export class TelegramNewsSource implements INewsSource {
     }
   }
 
-  private async fetchMock(): Promise<Article[]> {
+  private async fetchMock(): Promise<SourceFetchResult> {
     const articles = getMockTelegramArticles();
-    return this.normalizeMock(articles);
-  }
-
-  private normalizeUserAPI(data: UserAPIArticle[]): Article[] {
-    return data.map(item => ({
-      id: crypto.randomUUID(),
-      title: item.title,
-      summary: item.summary,
-      content: item.content,
-      source: 'telegram',
-      sourceUrl: item.sourceUrl,
-      publishedAt: item.publishedAt,
-      topics: (item as any).topics || [],
-      channelName: item.channelName,
-      channelUsername: item.channelUsername,
-    }));
+    return { articles: this.normalizeMock(articles) };
   }
 
-  private normalizeBotAPI(data: ScrapedTelegramArticle[]): Article[] {
-    return data.map(item => ({
-      id: crypto.randomUUID(),
-      title: item.title,
-      summary: item.summary,
-      content: item.content,
-      source: 'telegram',
-      sourceUrl: item.sourceUrl,
-      publishedAt: item.publishedAt,
-      topics: ('tags' in item ? (item as any).tags : (item as any).topics) || [],
-      channelName: item.channelName,
-      channelUsername: item.channelUsername,
-    }));
+  private async normalizeBotAPI(data: ScrapedTelegramArticle[]): Promise<Article[]> {
+    const articles: Article[] = [];
+    for (const item of data) {
+      articles.push({
+        id: crypto.randomUUID(),
+        title: item.title,
+        summary: item.summary,
+        content: item.content,
+        source: 'telegram',
+        sourceUrl: item.sourceUrl,
+        publishedAt: item.publishedAt,
+        topics: ('tags' in item ? (item as any).tags : (item as any).topics) || [],
+        channelName: item.channelName,
+        channelUsername: item.channelUsername,
+        editedAt: item.editedAt,
+        ...await storePostMedia(this.media, item.media, item.sourceUrl),
+      });
+    }
+    return articles;
   }
 
   private normalizeMock(data: TelegramArticle[]): Article[] {
@@ -0,0 +1,58 @@
+import { IStoryRepository, StoryCluster } from './i-story-repository';
+import {
+  saveStories,
+  getRecentStories,
+  getStories,
+  getStoryById,
+  isFirestoreAvailable,
+} from '@/lib/firestore';
+import { logger } from '@/lib/logger';
+
+export class FirestoreStoryRepository implements IStoryRepository {
+  async getRecent(hoursBack: number = 48): Promise<StoryCluster[]> {
+    if (!isFirestoreAvailable()) {
+      return [];
+    }
+
+    try {
+      return await getRecentStories(hoursBack);
+    } catch (error) {
+      logger.error('fetch_recent_stories_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        hours_back: hoursBack,
+      });
+      return [];
+    }
+  }
+
+  async list(limit: number = 20, minSources: number = 1): Promise<StoryCluster[]> {
+    if (!isFirestoreAvailable()) {
+      return [];
+    }
+
+    return getStories(limit, minSources);
+  }
+
+  async getById(id: string): Promise<StoryCluster | null> {
+    if (!isFirestoreAvailable()) {
+      return null;
+    }
+
+    return getStoryById(id);
+  }
+
+  async saveMany(stories: StoryCluster[]): Promise<void> {
+    if (!isFirestoreAvailable()) {
+      throw new Error('Firestore not available');
+    }
+
+    if (stories.length === 0) {
+      return;
+    }
+
+    await saveStories(stories);
+    logger.info('stories_saved_to_firestore', {
+      stories_count: stories.length,
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { StoryCluster } from '@/lib/firestore';
+
+export type { StoryCluster, StoryMember } from '@/lib/firestore';
+
+export interface IStoryRepository {
+  getRecent(hoursBack: number): Promise<StoryCluster[]>;
+  list(limit: number, minSources?: number): Promise<StoryCluster[]>;
+  getById(id: string): Promise<StoryCluster | null>;
+  saveMany(stories: StoryCluster[]): Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { IStoryRepository, StoryCluster } from './i-story-repository';
+import {
+  saveStories,
+  getRecentStories,
+  getStories,
+  getStoryById,
+} from '@/lib/sqlite';
+
+export class SqliteStoryRepository implements IStoryRepository {
+  async getRecent(hoursBack: number = 48): Promise<StoryCluster[]> {
+    return getRecentStories(hoursBack);
+  }
+
+  async list(limit: number = 20, minSources: number = 1): Promise<StoryCluster[]> {
+    return getStories(limit, minSources);
+  }
+
+  async getById(id: string): Promise<StoryCluster | null> {
+    return getStoryById(id);
+  }
+
+  async saveMany(stories: StoryCluster[]): Promise<void> {
+    if (stories.length === 0) {
+      return;
+    }
+
+    await saveStories(stories);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Story Clusterer
+ * Groups near-duplicate reports of the same event into StoryClusters instead of dropping them.
+ *
+ * Uses a finer LSH banding than deduplication (32 bands × 4 rows) so that reports
+ * around 50% similar still land in a shared bucket.
+ */
+
+import { IStoryRepository, StoryCluster, StoryMember } from './i-story-repository';
+import { ArticleWithHash, DuplicateMatch } from '../deduplication/i-deduplicator';
+import { LSHIndex } from '@/lib/deduplication/lsh-index';
+import { toMillis } from '@/lib/domain/time';
+import { logger } from '@/lib/logger';
+
+interface ClusterEntry {
+  id: string;
+  minHash: number[];
+  storyId: string;
+}
+
+export interface StoryClustererOptions {
+  similarityThreshold?: number;
+  windowHours?: number;
+  maxMembers?: number;
+}
+
+const LSH_BANDS = 32;
+
+/**
+ * Outlet identity used to count distinct sources
+ */
+export function getSourceKey(article: ArticleWithHash): string {
+  const raw =
+    article.channelUsername ||
+    article.author?.username ||
+    article.channelName ||
+    (article.sourceUrl ? safeHostname(article.sourceUrl) : undefined) ||
+    article.source;
+
+  return raw.toLowerCase().replace(/^@/, '');
+}
+
+function safeHostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+export class StoryClusterer {
+  private similarityThreshold: number;
+  private windowHours: number;
+  private maxMembers: number;
+
+  constructor(
+    private repository: IStoryRepository,
+    options: StoryClustererOptions = {}
+  ) {
+    this.similarityThreshold = options.similarityThreshold ?? 0.5;
+    this.windowHours = options.windowHours ?? 48;
+    this.maxMembers = options.maxMembers ?? 50;
+  }
+
+  /**
+   * Assign new articles (and dropped duplicates) to stories
+   * Sets `storyId` on each unique article; call before the articles are saved
+   */
+  async assign(
+    articles: ArticleWithHash[],
+    duplicates: DuplicateMatch[] = []
+  ): Promise<StoryCluster[]> {
+    if (articles.length === 0 && duplicates.length === 0) {
+      return [];
+    }
+
+    const recent = await this.repository.getRecent(this.windowHours);
+    const stories = new Map(recent.map(story => [story.id, story]));
+    const touched = new Set<string>();
+
+    const index = new LSHIndex<ClusterEntry>(LSH_BANDS, this.similarityThreshold);
+    recent.forEach(story => index.add({ id: story.id, minHash: story.minHash, storyId: story.id }));
+
+    for (const article of articles) {
+      let story = this.findStory(index, stories, article);
+
+      if (!story) {
+        story = this.createStory(article);
+        stories.set(story.id, story);
+      }
+
+      this.addMember(story, article, true);
+      article.storyId = story.id;
+      touched.add(story.id);
+
+      // Later articles in this batch can match this one, not just the story's first article
+      index.add({ id: `${story.id}#${article.id}`, minHash: article.minHash, storyId: story.id });
+    }
+
+    for (const { article, matched } of duplicates) {
+      let story = matched.storyId ? stories.get(matched.storyId) : undefined;
+
+      if (!story && matched.storyId) {
+        story = (await this.repository.getById(matched.storyId)) || undefined;
+        if (story) stories.set(story.id, story);
+      }
+
+      story = story || this.findStory(index, stories, article);
+
+      // The matched article predates clustering and nothing similar is on record
+      if (!story) continue;
+
+      if (this.addMember(story, article, false)) {
+        touched.add(story.id);
+      }
+    }
+
+    const updated = Array.from(touched).map(id => stories.get(id)!);
+
+    if (updated.length > 0) {
+      await this.repository.saveMany(updated);
+    }
+
+    logger.info('stories_assigned', {
+      articles: articles.length,
+      duplicates: duplicates.length,
+      stories_updated: updated.length,
+      multi_source: updated.filter(story => story.sourceCount > 1).length,
+    });
+
+    return updated;
+  }
+
+  private findStory(
+    index: LSHIndex<ClusterEntry>,
+    stories: Map<string, StoryCluster>,
+    article: ArticleWithHash
+  ): StoryCluster | undefined {
+    const [match] = index.findSimilar(
+      { id: article.id, minHash: article.minHash },
+      this.similarityThreshold
+    );
+    return match ? stories.get(match.storyId) : undefined;
+  }
+
+  private createStory(article: ArticleWithHash): StoryCluster {
+    const seenAt = toMillis(article.publishedAt) ?? Date.now();
+
+    return {
+      id: `story_${crypto.randomUUID()}`,
+      headline: article.title,
+      summary: article.summary,
+      imageUrl: article.imageUrl,
+      topics: [...(article.topics || [])],
+      minHash: article.minHash,
+      articleIds: [],
+      members: [],
+      sources: [],
+      sourceCount: 0,
+      platforms: [],
+      firstSeenAt: seenAt,
+      lastUpdatedAt: seenAt,
+    };
+  }
+
+  /**
+   * Returns false when the report is already recorded (same URL, or same outlet and title)
+   */
+  private addMember(story: StoryCluster, article: ArticleWithHash, saved: boolean): boolean {
+    const sourceKey = getSourceKey(article);
+    const alreadyRecorded = story.members.some(member =>
+      (article.sourceUrl && member.sourceUrl === article.sourceUrl) ||
+      (member.sourceKey === sourceKey && member.title === article.title)
+    );
+
+    if (alreadyRecorded) {
+      return false;
+    }
+
+    const publishedAt = toMillis(article.publishedAt) ?? Date.now();
+    // Firestore rejects nested undefined values, so only set optional fields that exist
+    const member: StoryMember = {
+      title: article.title,
+      source: article.source,
+      sourceKey,
+      publishedAt,
+      ...(saved && { articleId: article.id }),
+      ...(article.channelName && { channelName: article.channelName }),
+      ...(article.sourceUrl && { sourceUrl: article.sourceUrl }),
+    };
+
+    if (story.members.length < this.maxMembers) {
+      story.members.push(member);
+    }
+
+    if (saved) {
+      story.articleIds.push(article.id);
+    }
+
+    if (!story.sources.includes(sourceKey)) {
+      story.sources.push(sourceKey);
+    }
+    if (!story.platforms.includes(article.source)) {
+      story.platforms.push(article.source);
+    }
+    for (const topic of article.topics || []) {
+      if (!story.topics.includes(topic)) {
+        story.topics.push(topic);
+      }
+    }
+
+    story.sourceCount = story.sources.length;
+    story.imageUrl = story.imageUrl || article.imageUrl;
+    story.firstSeenAt = Math.min(story.firstSeenAt, publishedAt);
+    story.lastUpdatedAt = Date.now();
+
+    return true;
+  }
+}
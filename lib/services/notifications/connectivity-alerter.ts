@@ -0,0 +1,210 @@
+/**
+ * Connectivity Alerter
+ * Pushes connectivity alerts to the subscribers who opted into them:
+ * - outage onset and recovery, for nationwide/network outages or chosen provinces
+ * - a watched OONI service flipping to Blocked, and back
+ * Each alert is sent once (the dedup limiter allows one use of its key), each
+ * subscriber gets a limited number of pushes per hour, and alerts due to the
+ * same subscriber in one run are combined into a single push.
+ */
+
+import {
+  ISubscriptionRepository,
+  Subscription,
+  ConnectivityAlertPreferences,
+} from './repositories/i-subscription-repository';
+import { IRateLimiter } from '../rate-limit/i-rate-limiter';
+import { OutageEvent, OutageScope } from '../connectivity/repositories/i-outage-repository';
+import type { OONIStatusChange } from '../connectivity/ooni-changes';
+import { NotificationResult } from './i-notification-service';
+import { sendPushToSubscriptions, PushNotification, PushResult, PushTarget } from '@/lib/push-notifications';
+import { logger } from '@/lib/logger';
+
+/**
+ * Preferences of subscribers who never chose: nationwide outages only
+ */
+export const DEFAULT_CONNECTIVITY_ALERTS: ConnectivityAlertPreferences = {
+  enabled: true,
+  nationwide: true,
+  provinces: [],
+  services: [],
+};
+
+export interface ConnectivityAlert {
+  key: string; // Dedup key, e.g. 'outage:<id>:onset'
+  tag: string; // Shared by onset and recovery so the recovery replaces the onset on the device
+  kind: 'onset' | 'recovery';
+  subject: { type: 'outage'; scope: OutageScope } | { type: 'service'; id: string };
+  title: string;
+  message: string;
+  url: string;
+}
+
+export type PushSender = (subscriptions: PushTarget[], notification: PushNotification) => Promise<PushResult>;
+
+export function matchesPreferences(alert: ConnectivityAlert, preferences: ConnectivityAlertPreferences): boolean {
+  if (!preferences.enabled) return false;
+
+  if (alert.subject.type === 'service') {
+    return preferences.services.includes(alert.subject.id);
+  }
+
+  const { scope } = alert.subject;
+  return scope.kind === 'province' ? preferences.provinces.includes(scope.id) : preferences.nationwide;
+}
+
+/**
+ * "Tehran province", "TCI (AS58224)", "Iran"
+ */
+export function describeScope(scope: OutageScope): string {
+  return scope.kind === 'province' ? `${scope.name} province`
+    : scope.kind === 'asn' ? `${scope.name} (AS${scope.id})`
+      : scope.name;
+}
+
+const formatUtc = (time: number) => `${new Date(time).toISOString().slice(11, 16)} UTC`;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+export function outageAlerts(started: OutageEvent[], recovered: OutageEvent[]): ConnectivityAlert[] {
+  return [
+    ...started.map(event => ({
+      key: `outage:${event.id}:onset`,
+      tag: `outage:${event.id}`,
+      kind: 'onset' as const,
+      subject: { type: 'outage' as const, scope: event.scope },
+      title: `📡 Internet shutdown: ${describeScope(event.scope)}`,
+      message: `Connectivity ${Math.round(event.severity * 100)}% below normal since ${formatUtc(event.onset)}`,
+      url: '/map',
+    })),
+    ...recovered.map(event => ({
+      key: `outage:${event.id}:recovery`,
+      tag: `outage:${event.id}`,
+      kind: 'recovery' as const,
+      subject: { type: 'outage' as const, scope: event.scope },
+      title: `✅ Connectivity restored: ${describeScope(event.scope)}`,
+      message: `Back at ${formatUtc(event.recoveredAt ?? event.updatedAt)} after ${formatDuration((event.recoveredAt ?? event.updatedAt) - event.onset)}`,
+      url: '/map',
+    })),
+  ];
+}
+
+/**
+ * Alerts for services that became Blocked, or stopped being Blocked
+ */
+export function serviceAlerts(changes: OONIStatusChange[], names: Map<string, string> = new Map()): ConnectivityAlert[] {
+  return changes
+    .filter(change => change.to === 'Blocked' || change.from === 'Blocked')
+    .map(change => {
+      const name = names.get(change.target) || change.target;
+      const onset = change.to === 'Blocked';
+      return {
+        key: `ooni:${change.target}:${change.to}:${change.at}`,
+        tag: `ooni:${change.target}`,
+        kind: onset ? 'onset' as const : 'recovery' as const,
+        subject: { type: 'service' as const, id: change.target },
+        title: onset ? `🚫 ${name} blocked` : `✅ ${name} reachable again`,
+        message: onset
+          ? `OONI probes see ${Math.round(change.anomalyRate)}% anomalies since ${formatUtc(change.at)}`
+          : `Now ${change.to.toLowerCase()} (${Math.round(change.anomalyRate)}% anomalies) since ${formatUtc(change.at)}`,
+        url: '/connectivity',
+      };
+    });
+}
+
+export class ConnectivityAlerter {
+  constructor(
+    private subscriptions: ISubscriptionRepository,
+    private dedup: IRateLimiter, // One use per alert key
+    private rateLimiter: IRateLimiter, // Pushes per subscriber
+    private send: PushSender = sendPushToSubscriptions
+  ) {}
+
+  async alertOutages(started: OutageEvent[], recovered: OutageEvent[]): Promise<NotificationResult> {
+    return this.dispatch(outageAlerts(started, recovered));
+  }
+
+  async alertServiceChanges(changes: OONIStatusChange[], names?: Map<string, string>): Promise<NotificationResult> {
+    return this.dispatch(serviceAlerts(changes, names));
+  }
+
+  private async dispatch(alerts: ConnectivityAlert[]): Promise<NotificationResult> {
+    if (alerts.length === 0) {
+      return { success: true, sent: 0 };
+    }
+    if (!this.subscriptions.isAvailable()) {
+      logger.warn('storage_unavailable_connectivity_alerts_skipped');
+      return { success: false, sent: 0 };
+    }
+
+    try {
+      const fresh: ConnectivityAlert[] = [];
+      for (const alert of alerts) {
+        if (await this.dedup.checkLimit(alert.key)) fresh.push(alert);
+      }
+      if (fresh.length === 0) {
+        return { success: true, sent: 0 };
+      }
+
+      // Subscribers grouped by the exact set of alerts they get, one push per group
+      const groups = new Map<string, { alerts: ConnectivityAlert[]; subscriptions: Subscription[] }>();
+      let rateLimited = 0;
+
+      for (const subscription of await this.subscriptions.getAll()) {
+        const preferences = subscription.connectivityAlerts ?? DEFAULT_CONNECTIVITY_ALERTS;
+        const due = fresh.filter(alert => matchesPreferences(alert, preferences));
+        if (due.length === 0) continue;
+
+        if (!(await this.rateLimiter.checkLimit(subscription.id))) {
+          rateLimited++;
+          continue;
+        }
+
+        const groupKey = due.map(alert => alert.key).join('|');
+        const group = groups.get(groupKey) || { alerts: due, subscriptions: [] };
+        group.subscriptions.push(subscription);
+        groups.set(groupKey, group);
+      }
+
+      let sent = 0;
+      for (const group of groups.values()) {
+        const result = await this.send(group.subscriptions, this.toNotification(group.alerts));
+        sent += result.sent;
+      }
+
+      logger.info('connectivity_alerts_sent', {
+        alerts: fresh.length,
+        duplicates: alerts.length - fresh.length,
+        pushes: sent,
+        rate_limited: rateLimited,
+      });
+
+      return { success: true, sent };
+    } catch (error) {
+      logger.error('connectivity_alerts_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        alerts: alerts.length,
+      });
+      return { success: false, sent: 0, error };
+    }
+  }
+
+  private toNotification(alerts: ConnectivityAlert[]): PushNotification {
+    if (alerts.length === 1) {
+      const [alert] = alerts;
+      return { title: alert.title, message: alert.message, url: alert.url, tag: alert.tag };
+    }
+
+    const titles = alerts.map(alert => alert.title);
+    return {
+      title: `📡 ${alerts.length} connectivity alerts`,
+      message: titles.length <= 3 ? titles.join('\n') : `${titles.slice(0, 3).join('\n')}\nand ${titles.length - 3} more`,
+      url: alerts.every(alert => alert.subject.type === 'outage') ? '/map' : '/connectivity',
+      tag: 'connectivity',
+    };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Delivery Log
+ * Wraps the push sender so every push leaves one delivery record per subscription:
+ * - sent, failed or expired as reported by the push service, later clicked
+ *   when the service worker reports the click
+ * - subscriptions that were sent to get their lastNotified updated
+ * - expired endpoints (404/410) are deleted: the browser dropped the subscription
+ * Logging is best-effort; a storage failure never fails the push.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  IDeliveryRepository,
+  NotificationDelivery,
+  DeliveryKind,
+  DeliveryStatus,
+} from './repositories/i-delivery-repository';
+import { ISubscriptionRepository } from './repositories/i-subscription-repository';
+import type { PushSender } from './connectivity-alerter';
+import { sendPushToSubscriptions, PushDeliveryResult } from '@/lib/push-notifications';
+import { logger } from '@/lib/logger';
+
+export interface DeliveryCounts {
+  total: number;
+  sent: number; // Reached the device, clicked or not
+  clicked: number;
+  failed: number;
+  expired: number;
+}
+
+export interface DeliveryStats extends DeliveryCounts {
+  since: number;
+  clickRate: number; // clicked / sent, 0-1
+  byKind: Record<DeliveryKind, DeliveryCounts>;
+  recentFailures: NotificationDelivery[];
+}
+
+const DELIVERY_KINDS: DeliveryKind[] = ['article', 'digest', 'connectivity'];
+
+const emptyCounts = (): DeliveryCounts => ({ total: 0, sent: 0, clicked: 0, failed: 0, expired: 0 });
+
+function count(counts: DeliveryCounts, status: DeliveryStatus): void {
+  counts.total++;
+  if (status === 'sent' || status === 'clicked') counts.sent++;
+  if (status === 'clicked') counts.clicked++;
+  if (status === 'failed') counts.failed++;
+  if (status === 'expired') counts.expired++;
+}
+
+/**
+ * Totals overall and per kind, with the latest failures (newest first input)
+ */
+export function summarizeDeliveries(deliveries: NotificationDelivery[], since: number): DeliveryStats {
+  const totals = emptyCounts();
+  const byKind = Object.fromEntries(DELIVERY_KINDS.map(kind => [kind, emptyCounts()])) as Record<DeliveryKind, DeliveryCounts>;
+
+  for (const delivery of deliveries) {
+    count(totals, delivery.status);
+    count(byKind[delivery.kind], delivery.status);
+  }
+
+  return {
+    since,
+    ...totals,
+    clickRate: totals.sent > 0 ? Math.round((totals.clicked / totals.sent) * 1000) / 1000 : 0,
+    byKind,
+    recentFailures: deliveries.filter(delivery => delivery.status === 'failed' || delivery.status === 'expired').slice(0, 20),
+  };
+}
+
+export function deliveryId(notificationId: string, subscriptionId: string): string {
+  return `${notificationId}_${subscriptionId}`;
+}
+
+export class DeliveryLog {
+  constructor(
+    private deliveries: IDeliveryRepository,
+    private subscriptions: ISubscriptionRepository,
+    private send: PushSender = sendPushToSubscriptions
+  ) {}
+
+  /**
+   * A sender that records what it sends as `kind`
+   */
+  sender(kind: DeliveryKind): PushSender {
+    return async (targets, notification) => {
+      const notificationId = notification.id || randomUUID();
+      const result = await this.send(targets, { ...notification, id: notificationId });
+      await this.record(kind, notificationId, notification.title, result.deliveries || []);
+      return result;
+    };
+  }
+
+  async recordClick(notificationId: string, subscriptionId: string, clickedAt: number = Date.now()): Promise<boolean> {
+    return this.deliveries.markClicked(deliveryId(notificationId, subscriptionId), clickedAt);
+  }
+
+  async getStats(since: number): Promise<DeliveryStats> {
+    return summarizeDeliveries(await this.deliveries.getSince(since), since);
+  }
+
+  async getSubscriptionLog(subscriptionId: string, limit?: number): Promise<NotificationDelivery[]> {
+    return this.deliveries.getBySubscription(subscriptionId, limit);
+  }
+
+  private async record(
+    kind: DeliveryKind,
+    notificationId: string,
+    title: string,
+    results: PushDeliveryResult[]
+  ): Promise<void> {
+    if (results.length === 0) {
+      return;
+    }
+
+    const sentAt = Date.now();
+    try {
+      if (this.deliveries.isAvailable()) {
+        await this.deliveries.saveMany(results.map(result => ({
+          id: deliveryId(notificationId, result.subscriptionId),
+          notificationId,
+          subscriptionId: result.subscriptionId,
+          kind,
+          status: result.status,
+          title,
+          ...(result.statusCode && { statusCode: result.statusCode }),
+          ...(result.error && { error: result.error.slice(0, 300) }),
+          sentAt,
+        })));
+      }
+    } catch (error) {
+      logger.error('notification_delivery_log_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        notification_id: notificationId,
+        deliveries: results.length,
+      });
+    }
+
+    const outcomes = await Promise.allSettled(results.map(result =>
+      result.status === 'expired' ? this.subscriptions.delete(result.subscriptionId)
+        : result.status === 'sent' ? this.subscriptions.markNotified(result.subscriptionId)
+          : Promise.resolve()
+    ));
+
+    const expired = results.filter(result => result.status === 'expired');
+    if (expired.length > 0) {
+      logger.info('expired_subscriptions_pruned', {
+        count: expired.length,
+        subscription_ids: expired.map(result => result.subscriptionId),
+      });
+    }
+
+    const failedUpdates = outcomes.filter(outcome => outcome.status === 'rejected').length;
+    if (failedUpdates > 0) {
+      logger.warn('subscription_delivery_updates_failed', {
+        notification_id: notificationId,
+        count: failedUpdates,
+      });
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Digest Service
+ * Subscribers in digest mode get matched articles batched instead of pushed one
+ * refresh at a time: matches are added to their pending digest, and
+ * /api/cron/send-digests sends each digest once its period has passed, as a
+ * single push linking to the summary page (/digest/<id>).
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  IDigestRepository,
+  NotificationDigest,
+  DigestItem,
+  DigestPeriod,
+} from './repositories/i-digest-repository';
+import { ISubscriptionRepository } from './repositories/i-subscription-repository';
+import { NotificationResult } from './i-notification-service';
+import type { PushSender } from './connectivity-alerter';
+import { PreferenceMatch, isQuietHours } from './subscription-matcher';
+import type { PushNotification } from '@/lib/push-notifications';
+import { logger } from '@/lib/logger';
+
+const HOUR = 60 * 60 * 1000;
+
+export const DIGEST_PERIOD_MS: Record<DigestPeriod, number> = {
+  hourly: HOUR,
+  daily: 24 * HOUR,
+};
+
+// The cron runs hourly; a digest that is almost due goes out now rather than an hour late
+const DUE_SLACK_MS = 15 * 60 * 1000;
+
+const MAX_DIGEST_ITEMS = 50;
+
+export interface DigestEntry {
+  subscriptionId: string;
+  period: DigestPeriod;
+  matches: PreferenceMatch[];
+}
+
+export function toDigestItems(matches: PreferenceMatch[], addedAt: number): DigestItem[] {
+  return matches.map(({ candidate, reason }) => ({
+    articleId: candidate.article.id,
+    title: candidate.article.title,
+    ...(candidate.article.sourceUrl && { url: candidate.article.sourceUrl }),
+    source: candidate.article.source,
+    ...(reason && { reason }),
+    ...(candidate.article.verificationScore !== undefined && { verificationScore: candidate.article.verificationScore }),
+    incidentTypes: Array.from(new Set(candidate.incidents.map(incident => incident.type))),
+    addedAt,
+  }));
+}
+
+export function isDigestDue(digest: NotificationDigest, now: number): boolean {
+  return now - digest.createdAt >= DIGEST_PERIOD_MS[digest.period] - DUE_SLACK_MS;
+}
+
+export function toDigestNotification(digest: NotificationDigest): PushNotification {
+  const titles = digest.items.map(item => item.title);
+  const count = titles.length;
+
+  return {
+    id: digest.id,
+    title: `📰 Your ${digest.period} digest: ${count} ${count === 1 ? 'article' : 'articles'}`,
+    message: count <= 3 ? titles.join('\n') : `${titles.slice(0, 3).join('\n')}\nand ${count - 3} more`,
+    url: `/digest/${digest.id}`,
+    tag: 'digest',
+  };
+}
+
+export class DigestService {
+  constructor(
+    private digests: IDigestRepository,
+    private subscriptions: ISubscriptionRepository,
+    private send: PushSender
+  ) {}
+
+  /**
+   * Add matches to each subscriber's pending digest (started if there is none)
+   * Returns the number of items added
+   */
+  async queue(entries: DigestEntry[], now: number = Date.now()): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+    if (!this.digests.isAvailable()) {
+      logger.warn('storage_unavailable_digests_skipped', { subscribers: entries.length });
+      return 0;
+    }
+
+    const pending = new Map((await this.digests.getPending()).map(digest => [digest.subscriptionId, digest]));
+    let added = 0;
+
+    const updated = entries.map(({ subscriptionId, period, matches }): NotificationDigest => {
+      const digest: NotificationDigest = pending.get(subscriptionId) ?? {
+        id: randomUUID(),
+        subscriptionId,
+        period,
+        status: 'pending',
+        items: [],
+        createdAt: now,
+      };
+
+      const known = new Set(digest.items.map(item => item.articleId));
+      const fresh = toDigestItems(matches, now)
+        .filter(item => !known.has(item.articleId))
+        .slice(0, Math.max(0, MAX_DIGEST_ITEMS - digest.items.length));
+      added += fresh.length;
+
+      // A changed period applies to the digest in progress
+      return { ...digest, period, items: [...digest.items, ...fresh] };
+    });
+
+    await this.digests.saveMany(updated);
+    return added;
+  }
+
+  /**
+   * Send every pending digest whose period has passed
+   * Digests due in a subscriber's quiet hours wait for the next run.
+   */
+  async sendDue(now: number = Date.now()): Promise<NotificationResult> {
+    if (!this.digests.isAvailable() || !this.subscriptions.isAvailable()) {
+      logger.warn('storage_unavailable_digests_skipped');
+      return { success: false, sent: 0 };
+    }
+
+    try {
+      const due = (await this.digests.getPending()).filter(digest => isDigestDue(digest, now));
+      if (due.length === 0) {
+        return { success: true, sent: 0 };
+      }
+
+      const subscriptions = new Map((await this.subscriptions.getAll()).map(subscription => [subscription.id, subscription]));
+      const finished: NotificationDigest[] = [];
+      let sent = 0;
+      let deferred = 0;
+
+      for (const digest of due) {
+        const subscription = subscriptions.get(digest.subscriptionId);
+
+        // Unsubscribed since: close the digest without a push
+        if (subscription && digest.items.length > 0) {
+          if (isQuietHours(subscription.preferences?.quietHours, now)) {
+            deferred++;
+            continue;
+          }
+
+          const result = await this.send([subscription], toDigestNotification(digest));
+          sent += result.sent;
+        }
+
+        finished.push({ ...digest, status: 'sent', sentAt: now });
+      }
+
+      await this.digests.saveMany(finished);
+
+      logger.info('notification_digests_sent', {
+        due: due.length,
+        pushes: sent,
+        closed: finished.length,
+        deferred,
+      });
+
+      return { success: true, sent };
+    } catch (error) {
+      logger.error('notification_digests_failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { success: false, sent: 0, error };
+    }
+  }
+
+  async getDigest(id: string): Promise<NotificationDigest | null> {
+    return this.digests.getById(id);
+  }
+}
@@ -1,7 +1,26 @@
 import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
+import type { ExtractedIncident } from '../incidents/i-incident-extractor';
+import { OutageEvent } from '../connectivity/repositories/i-outage-repository';
+import type { OONIStatusChange } from '../connectivity/ooni-changes';
 
 export interface INotificationService {
-  notifyNewArticles(articles: ArticleWithHash[]): Promise<NotificationResult>;
+  /**
+   * Push new articles to the subscribers whose preferences they match
+   * (incidents extracted from the articles add incident types and places)
+   */
+  notifyNewArticles(articles: ArticleWithHash[], incidents?: ExtractedIncident[]): Promise<NotificationResult>;
+  /**
+   * Send the digests of subscribers in digest mode whose period has passed
+   */
+  sendDigests(): Promise<NotificationResult>;
+  /**
+   * Announce outages that just started and outages that just ended
+   */
+  notifyOutages(started: OutageEvent[], recovered: OutageEvent[]): Promise<NotificationResult>;
+  /**
+   * Announce watched services that became blocked or unblocked (names by watchlist id)
+   */
+  notifyServiceChanges(changes: OONIStatusChange[], names?: Map<string, string>): Promise<NotificationResult>;
 }
 
 export interface NotificationResult {
@@ -1,37 +1,107 @@
 import { INotificationService, NotificationResult } from './i-notification-service';
+import { ISubscriptionRepository, Subscription } from './repositories/i-subscription-repository';
+import { IRateLimiter } from '../rate-limit/i-rate-limiter';
 import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
-import { sendPushNotification } from '@/lib/push-notifications';
+import type { ExtractedIncident } from '../incidents/i-incident-extractor';
+import { OutageEvent } from '../connectivity/repositories/i-outage-repository';
+import type { OONIStatusChange } from '../connectivity/ooni-changes';
+import { ConnectivityAlerter, PushSender } from './connectivity-alerter';
+import { DigestService, DigestEntry } from './digest-service';
+import type { TelegramBot } from '../telegram-bot/telegram-bot';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  PreferenceMatch,
+  isQuietHours,
+  matchCandidate,
+  toCandidates,
+  toPersonalizedNotification,
+} from './subscription-matcher';
+import { sendPushToSubscriptions, PushNotification } from '@/lib/push-notifications';
 import { logger } from '@/lib/logger';
 
 export class PushNotificationService implements INotificationService {
-  async notifyNewArticles(articles: ArticleWithHash[]): Promise<NotificationResult> {
+  constructor(
+    private connectivityAlerter: ConnectivityAlerter,
+    private subscriptions: ISubscriptionRepository,
+    private budget: IRateLimiter, // Article pushes per subscriber, up to the highest allowed budget
+    private digests: DigestService,
+    private send: PushSender = sendPushToSubscriptions,
+    private telegramBot?: TelegramBot // Topic alerts for /subscribe chats
+  ) {}
+
+  async notifyNewArticles(articles: ArticleWithHash[], incidents: ExtractedIncident[] = []): Promise<NotificationResult> {
     if (articles.length === 0) {
       return { success: true, sent: 0 };
     }
 
+    await this.alertTelegramChats(articles);
+
+    if (!this.subscriptions.isAvailable()) {
+      logger.warn('storage_unavailable_push_notifications_skipped');
+      return { success: false, sent: 0 };
+    }
+
     try {
-      const title = articles.length === 1
-        ? '📰 New Article'
-        : `📰 ${articles.length} New Articles`;
+      const candidates = toCandidates(articles, incidents);
+      const now = Date.now();
+
+      // Subscribers grouped by the exact push they get
+      const groups = new Map<string, { notification: PushNotification; subscriptions: Subscription[] }>();
+      const digestEntries: DigestEntry[] = [];
+      let quietHours = 0;
+      let overBudget = 0;
+
+      for (const subscription of await this.subscriptions.getAll()) {
+        const preferences = subscription.preferences ?? DEFAULT_NOTIFICATION_PREFERENCES;
+        const matches = candidates
+          .map(candidate => matchCandidate(candidate, preferences))
+          .filter((match): match is PreferenceMatch => match !== null);
+        if (matches.length === 0) continue;
+
+        const delivery = preferences.delivery ?? 'instant';
+        if (delivery !== 'instant') {
+          digestEntries.push({ subscriptionId: subscription.id, period: delivery, matches });
+          continue;
+        }
+
+        if (isQuietHours(preferences.quietHours, now)) {
+          quietHours++;
+          continue;
+        }
+        if (!(await this.withinBudget(subscription.id, preferences.maxPerHour))) {
+          overBudget++;
+          continue;
+        }
 
-      const message = articles.length === 1
-        ? articles[0].title
-        : `${articles[0].title} and ${articles.length - 1} more`;
+        const notification = toPersonalizedNotification(matches);
+        const groupKey = JSON.stringify(notification);
+        const group = groups.get(groupKey) || { notification, subscriptions: [] };
+        group.subscriptions.push(subscription);
+        groups.set(groupKey, group);
+      }
+
+      let sent = 0;
+      for (const group of groups.values()) {
+        const result = await this.send(group.subscriptions, group.notification);
+        sent += result.sent;
+      }
 
-      const result = await sendPushNotification(title, message, '/');
+      const digested = await this.digests.queue(digestEntries, now);
 
-      if (result.sent > 0) {
+      if (sent > 0 || digestEntries.length > 0 || quietHours > 0 || overBudget > 0) {
         logger.info('push_notification_sent', {
-          subscribers: result.sent,
+          subscribers: sent,
           articles_count: articles.length,
+          incidents_count: incidents.length,
+          payloads: groups.size,
+          digest_subscribers: digestEntries.length,
+          digest_items: digested,
+          quiet_hours: quietHours,
+          over_budget: overBudget,
         });
       }
 
-      return {
-        success: result.success,
-        sent: result.sent,
-        error: result.error,
-      };
+      return { success: true, sent };
     } catch (error) {
       logger.error('push_notification_failed', {
         error: error instanceof Error ? error.message : String(error),
@@ -45,4 +115,41 @@ export class PushNotificationService implements INotificationService {
       };
     }
   }
+
+  async sendDigests(): Promise<NotificationResult> {
+    return this.digests.sendDue();
+  }
+
+  async notifyOutages(started: OutageEvent[], recovered: OutageEvent[]): Promise<NotificationResult> {
+    return this.connectivityAlerter.alertOutages(started, recovered);
+  }
+
+  async notifyServiceChanges(changes: OONIStatusChange[], names?: Map<string, string>): Promise<NotificationResult> {
+    return this.connectivityAlerter.alertServiceChanges(changes, names);
+  }
+
+  private async alertTelegramChats(articles: ArticleWithHash[]): Promise<void> {
+    if (!this.telegramBot) {
+      return;
+    }
+
+    try {
+      await this.telegramBot.alertSubscribers(articles);
+    } catch (error) {
+      logger.error('telegram_topic_alerts_failed', {
+        error: error instanceof Error ? error.message : String(error),
+        articles_count: articles.length,
+      });
+    }
+  }
+
+  /**
+   * The limiter counts every push up to its own ceiling; a subscriber's budget
+   * is compared against that count
+   */
+  private async withinBudget(subscriptionId: string, maxPerHour: number): Promise<boolean> {
+    const result = await this.budget.checkLimitWithResult(subscriptionId);
+    const used = this.budget.getConfig().maxRequests - result.remaining;
+    return result.allowed && used <= maxPerHour;
+  }
 }
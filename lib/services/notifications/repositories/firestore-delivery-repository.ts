@@ -0,0 +1,34 @@
+import { IDeliveryRepository, NotificationDelivery } from './i-delivery-repository';
+import {
+  saveNotificationDeliveries,
+  getNotificationDeliveries,
+  getSubscriptionDeliveries,
+  markNotificationDeliveryClicked,
+  isFirestoreAvailable,
+} from '@/lib/firestore';
+
+export class FirestoreDeliveryRepository implements IDeliveryRepository {
+  isAvailable(): boolean {
+    return isFirestoreAvailable();
+  }
+
+  async saveMany(deliveries: NotificationDelivery[]): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    await saveNotificationDeliveries(deliveries);
+  }
+
+  async getSince(since: number, limit?: number): Promise<NotificationDelivery[]> {
+    return getNotificationDeliveries(since, limit);
+  }
+
+  async getBySubscription(subscriptionId: string, limit?: number): Promise<NotificationDelivery[]> {
+    return getSubscriptionDeliveries(subscriptionId, limit);
+  }
+
+  async markClicked(id: string, clickedAt: number): Promise<boolean> {
+    return markNotificationDeliveryClicked(id, clickedAt);
+  }
+}
@@ -0,0 +1,35 @@
+import { ISubscriptionRepository, Subscription, SubscriptionPreferencesUpdate } from './i-subscription-repository';
+import {
+  saveSubscription,
+  getSubscriptions,
+  deleteSubscription,
+  updateSubscriptionLastNotified,
+  updateSubscriptionPreferences,
+  isFirestoreAvailable,
+} from '@/lib/firestore';
+
+export class FirestoreSubscriptionRepository implements ISubscriptionRepository {
+  isAvailable(): boolean {
+    return isFirestoreAvailable();
+  }
+
+  async getAll(): Promise<Subscription[]> {
+    return getSubscriptions();
+  }
+
+  async save(subscription: Omit<Subscription, 'id' | 'subscribedAt'>): Promise<string> {
+    return saveSubscription(subscription);
+  }
+
+  async delete(id: string): Promise<void> {
+    await deleteSubscription(id);
+  }
+
+  async updatePreferences(id: string, updates: SubscriptionPreferencesUpdate): Promise<void> {
+    await updateSubscriptionPreferences(id, updates);
+  }
+
+  async markNotified(id: string): Promise<void> {
+    await updateSubscriptionLastNotified(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { NotificationDelivery } from '@/lib/firestore';
+
+export type { NotificationDelivery, DeliveryKind, DeliveryStatus } from '@/lib/firestore';
+
+export interface IDeliveryRepository {
+  isAvailable(): boolean;
+  saveMany(deliveries: NotificationDelivery[]): Promise<void>;
+  getSince(since: number, limit?: number): Promise<NotificationDelivery[]>;
+  getBySubscription(subscriptionId: string, limit?: number): Promise<NotificationDelivery[]>;
+  /**
+   * Record a click; false when the delivery is unknown
+   */
+  markClicked(id: string, clickedAt: number): Promise<boolean>;
+}
@@ -0,0 +1,10 @@
+import { NotificationDigest } from '@/lib/firestore';
+
+export type { NotificationDigest, DigestItem, DigestPeriod } from '@/lib/firestore';
+
+export interface IDigestRepository {
+  isAvailable(): boolean;
+  getById(id: string): Promise<NotificationDigest | null>;
+  getPending(): Promise<NotificationDigest[]>;
+  saveMany(digests: NotificationDigest[]): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import { Subscription, SubscriptionPreferencesUpdate } from '@/lib/firestore';
+
+export type {
+  Subscription,
+  ConnectivityAlertPreferences,
+  NotificationPreferences,
+  QuietHours,
+  SubscriptionPreferencesUpdate,
+} from '@/lib/firestore';
+
+export interface ISubscriptionRepository {
+  isAvailable(): boolean;
+  getAll(): Promise<Subscription[]>;
+  save(subscription: Omit<Subscription, 'id' | 'subscribedAt'>): Promise<string>;
+  delete(id: string): Promise<void>;
+  updatePreferences(id: string, updates: SubscriptionPreferencesUpdate): Promise<void>;
+  markNotified(id: string): Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { IDigestRepository, NotificationDigest } from './i-digest-repository';
+import {
+  getNotificationDigest,
+  getPendingNotificationDigests,
+  saveNotificationDigests,
+  isSqliteAvailable,
+} from '@/lib/sqlite';
+
+export class SqliteDigestRepository implements IDigestRepository {
+  isAvailable(): boolean {
+    return isSqliteAvailable();
+  }
+
+  async getById(id: string): Promise<NotificationDigest | null> {
+    return getNotificationDigest(id);
+  }
+
+  async getPending(): Promise<NotificationDigest[]> {
+    return getPendingNotificationDigests();
+  }
+
+  async saveMany(digests: NotificationDigest[]): Promise<void> {
+    if (digests.length === 0) {
+      return;
+    }
+
+    await saveNotificationDigests(digests);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Subscription Matcher
+ * Matches new articles, with the incidents extracted from them, against the
+ * notification preferences of a subscriber and builds the personalized push:
+ * - topics, incident types, location (provinces or cities) and keywords each narrow the match
+ * - a minimum verification score drops unverified articles
+ * - quiet hours and the hourly budget are applied by PushNotificationService
+ */
+
+import type { NotificationPreferences, QuietHours } from './repositories/i-subscription-repository';
+import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
+import type { ExtractedIncident } from '../incidents/i-incident-extractor';
+import type { PushNotification } from '@/lib/push-notifications';
+import { findProvince, findProvincesInText, getProvince } from '@/lib/domain/provinces';
+import { findCitiesInText } from '@/lib/geocoder';
+import { TOPIC_FEEDS } from '@/lib/perplexity';
+
+/**
+ * Preferences of subscribers who never chose: every new article
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  topics: [],
+  incidentTypes: [],
+  provinces: [],
+  cities: [],
+  keywords: [],
+  minVerificationScore: 0,
+  maxPerHour: 10,
+};
+
+export const MAX_NOTIFICATIONS_PER_HOUR = 30;
+
+/**
+ * A new article with what it was found to be about
+ */
+export interface NotificationCandidate {
+  article: ArticleWithHash;
+  incidents: ExtractedIncident[];
+  provinces: string[]; // Province ids
+  cities: string[]; // English city names
+  text: string; // Normalized title, summary and incident titles, for keywords
+}
+
+export interface PreferenceMatch {
+  candidate: NotificationCandidate;
+  reason?: string; // Most specific preference that matched, e.g. 'Tabriz' or 'Arrest'
+}
+
+/**
+ * Lowercase, Persian letter forms for their Arabic twins, no ZWNJ or diacritics
+ */
+export function normalizeForMatching(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\u064A/g, '\u06CC') // Arabic yeh
+    .replace(/\u0643/g, '\u06A9') // Arabic kaf
+    .replace(/[\u064B-\u065F\u0670]/g, '')
+    .replace(/\u200C/g, '');
+}
+
+export function toCandidates(articles: ArticleWithHash[], incidents: ExtractedIncident[] = []): NotificationCandidate[] {
+  return articles.map(article => {
+    const own = incidents.filter(incident => incident.extractedFrom.articleId === article.id);
+    const text = [article.title, article.summary, ...own.map(incident => `${incident.title} ${incident.location}`)].join('\n');
+
+    const provinces = new Set(findProvincesInText(text).map(province => province.id));
+    for (const incident of own) {
+      const province = findProvince(incident.location);
+      if (province) provinces.add(province.id);
+    }
+
+    return {
+      article,
+      incidents: own,
+      provinces: Array.from(provinces),
+      cities: findCitiesInText(text).map(city => city.name),
+      text: normalizeForMatching(text),
+    };
+  });
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * The match of a candidate, or null when any preference rules it out
+ */
+export function matchCandidate(
+  candidate: NotificationCandidate,
+  preferences: NotificationPreferences
+): PreferenceMatch | null {
+  const { article } = candidate;
+
+  if (preferences.minVerificationScore > 0 && (article.verificationScore ?? 0) < preferences.minVerificationScore) {
+    return null;
+  }
+
+  const topic = (article.topics || []).find(id => preferences.topics.includes(id));
+  if (preferences.topics.length > 0 && !topic) return null;
+
+  const incident = candidate.incidents.find(own => preferences.incidentTypes.includes(own.type));
+  if (preferences.incidentTypes.length > 0 && !incident) return null;
+
+  const city = candidate.cities.find(name => preferences.cities.includes(name));
+  const province = candidate.provinces.find(id => preferences.provinces.includes(id));
+  if ((preferences.cities.length > 0 || preferences.provinces.length > 0) && !city && !province) return null;
+
+  const keyword = preferences.keywords.find(word => candidate.text.includes(normalizeForMatching(word)));
+  if (preferences.keywords.length > 0 && !keyword) return null;
+
+  const reason = city
+    ?? (province && getProvince(province)?.name)
+    ?? (incident && capitalize(incident.type))
+    ?? keyword
+    ?? (topic && TOPIC_FEEDS.find(feed => feed.id === topic)?.label);
+
+  return reason ? { candidate, reason } : { candidate };
+}
+
+function localHour(now: number, timezone: string): number {
+  try {
+    return Number(new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone }).format(now));
+  } catch {
+    return new Date(now).getUTCHours();
+  }
+}
+
+/**
+ * Whether `now` falls in the quiet hours (which may wrap past midnight)
+ */
+export function isQuietHours(quietHours: QuietHours | undefined, now: number = Date.now()): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+
+  const hour = localHour(now, quietHours.timezone);
+  return quietHours.start < quietHours.end
+    ? hour >= quietHours.start && hour < quietHours.end
+    : hour >= quietHours.start || hour < quietHours.end;
+}
+
+/**
+ * One push for everything a subscriber matched, headed by the reason of the first match
+ */
+export function toPersonalizedNotification(matches: PreferenceMatch[]): PushNotification {
+  const [first] = matches;
+  const { article } = first.candidate;
+
+  if (matches.length === 1) {
+    return {
+      title: first.reason ? `📰 ${first.reason}` : '📰 New Article',
+      message: article.title,
+      url: article.sourceUrl || '/',
+      tag: `article:${article.id}`,
+    };
+  }
+
+  return {
+    title: first.reason ? `📰 ${matches.length} New Articles · ${first.reason}` : `📰 ${matches.length} New Articles`,
+    message: `${article.title} and ${matches.length - 1} more`,
+    url: '/',
+    tag: 'news-update',
+  };
+}
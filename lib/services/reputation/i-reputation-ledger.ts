@@ -0,0 +1,38 @@
+/**
+ * Source Reputation Ledger Interface
+ * Per-source reliability built from evidence about what each source reported
+ */
+
+import { ReputationEvidence } from './repositories/i-reputation-repository';
+
+export type { ReputationEvidence, ReputationEvidenceKind } from './repositories/i-reputation-repository';
+
+export interface ReputationEvidenceInput {
+  sourceKey: string;
+  evidence: Omit<ReputationEvidence, 'at'> & { at?: number };
+}
+
+export interface SourceReputation {
+  sourceKey: string;
+  score: number; // 0-1; 0.5 means no evidence either way
+  positive: number; // Decayed to now
+  negative: number; // Decayed to now
+  evidenceCount: number;
+  recentEvidence: ReputationEvidence[];
+  updatedAt: number;
+}
+
+export interface IReputationLedger {
+  /**
+   * Apply evidence; entries already recorded (same evidence id) are ignored.
+   * Returns the number of entries applied.
+   */
+  record(entries: ReputationEvidenceInput[]): Promise<number>;
+  /**
+   * Current score per source key; sources without a record are omitted
+   */
+  getScores(sourceKeys: string[]): Promise<Map<string, number>>;
+  get(sourceKey: string): Promise<SourceReputation | null>;
+  list(limit?: number): Promise<SourceReputation[]>;
+  reset(sourceKey: string): Promise<void>;
+}
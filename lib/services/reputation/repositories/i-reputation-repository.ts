@@ -0,0 +1,11 @@
+import { SourceReputationRecord } from '@/lib/firestore';
+
+export type { SourceReputationRecord, ReputationEvidence, ReputationEvidenceKind } from '@/lib/firestore';
+
+export interface IReputationRepository {
+  isAvailable(): boolean;
+  list(limit?: number): Promise<SourceReputationRecord[]>;
+  getMany(sourceKeys: string[]): Promise<SourceReputationRecord[]>;
+  saveMany(records: SourceReputationRecord[]): Promise<void>;
+  delete(sourceKey: string): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import { IReputationRepository, SourceReputationRecord } from './i-reputation-repository';
+import {
+  getSourceReputations,
+  getSourceReputationsByKeys,
+  saveSourceReputations,
+  deleteSourceReputation,
+  isSqliteAvailable,
+} from '@/lib/sqlite';
+
+export class SqliteReputationRepository implements IReputationRepository {
+  isAvailable(): boolean {
+    return isSqliteAvailable();
+  }
+
+  async list(limit: number = 1000): Promise<SourceReputationRecord[]> {
+    return getSourceReputations(limit);
+  }
+
+  async getMany(sourceKeys: string[]): Promise<SourceReputationRecord[]> {
+    return getSourceReputationsByKeys(sourceKeys);
+  }
+
+  async saveMany(records: SourceReputationRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    await saveSourceReputations(records);
+  }
+
+  async delete(sourceKey: string): Promise<void> {
+    await deleteSourceReputation(sourceKey);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Turns moderation decisions and coordination flags into ledger evidence
+ * for every source behind the incident
+ */
+
+import { ReputationEvidenceInput } from './i-reputation-ledger';
+import type { Incident } from '@/lib/domain/incident';
+import { getIncidentSourceKeys } from '@/lib/domain/source-key';
+import type { CoordinationGroup } from '@/lib/disinformation-detector';
+
+// A debunked report costs more than a verified one earns
+export const EVIDENCE_WEIGHTS = {
+  verified: 1,
+  debunked: 2,
+  coordination: 1, // Scaled by the group's confidence
+} as const;
+
+/**
+ * Evidence from an incident update that verifies or debunks it
+ */
+export function reviewEvidence(before: Incident, updates: Partial<Incident>): ReputationEvidenceInput[] {
+  const sourceKeys = getIncidentSourceKeys({ ...before, ...updates });
+
+  if (updates.debunked === true && !before.debunked) {
+    return sourceKeys.map(sourceKey => ({
+      sourceKey,
+      evidence: {
+        id: `debunked:${before.id}`,
+        kind: 'debunked',
+        polarity: 'negative',
+        weight: EVIDENCE_WEIGHTS.debunked,
+        incidentId: before.id,
+      },
+    }));
+  }
+
+  if (updates.verified === true && !before.verified && !(updates.debunked ?? before.debunked)) {
+    return sourceKeys.map(sourceKey => ({
+      sourceKey,
+      evidence: {
+        id: `verified:${before.id}`,
+        kind: 'verified',
+        polarity: 'positive',
+        weight: EVIDENCE_WEIGHTS.verified,
+        incidentId: before.id,
+      },
+    }));
+  }
+
+  return [];
+}
+
+/**
+ * Evidence for incidents in coordination groups that were not flagged before
+ */
+export function coordinationEvidence(
+  groups: CoordinationGroup[],
+  incidents: Incident[]
+): { evidence: ReputationEvidenceInput[]; flaggedIncidentIds: string[] } {
+  const byId = new Map(incidents.map(incident => [incident.id, incident]));
+  const evidence: ReputationEvidenceInput[] = [];
+  const flaggedIncidentIds: string[] = [];
+
+  for (const group of groups) {
+    for (const incidentId of group.incidentIds) {
+      const incident = byId.get(incidentId);
+      if (!incident || incident.coordinationFlaggedAt || flaggedIncidentIds.includes(incidentId)) {
+        continue;
+      }
+
+      flaggedIncidentIds.push(incidentId);
+      for (const sourceKey of getIncidentSourceKeys(incident)) {
+        evidence.push({
+          sourceKey,
+          evidence: {
+            id: `coordination:${incidentId}`,
+            kind: 'coordination',
+            polarity: 'negative',
+            weight: EVIDENCE_WEIGHTS.coordination * group.confidence / 100,
+            incidentId,
+            note: `${group.type} group of ${group.incidentIds.length} reports`,
+          },
+        });
+      }
+    }
+  }
+
+  return { evidence, flaggedIncidentIds };
+}
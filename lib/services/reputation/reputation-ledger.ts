@@ -0,0 +1,160 @@
+/**
+ * Source Reputation Ledger
+ * Each source keeps two evidence totals, positive and negative, which halve every
+ * `halfLifeMs` so old evidence fades. The score is the share of positive evidence
+ * with `prior` pseudo-counts on each side: 0.5 with no evidence, moving towards
+ * 0 or 1 as evidence accumulates.
+ */
+
+import { IReputationLedger, ReputationEvidenceInput, SourceReputation } from './i-reputation-ledger';
+import { IReputationRepository, SourceReputationRecord } from './repositories/i-reputation-repository';
+import { logger } from '@/lib/logger';
+
+export interface ReputationLedgerOptions {
+  halfLifeMs: number;
+  prior: number;
+  maxRecentEvidence: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: ReputationLedgerOptions = {
+  halfLifeMs: 30 * DAY,
+  prior: 2,
+  maxRecentEvidence: 20,
+};
+
+export function decayEvidence(value: number, elapsedMs: number, halfLifeMs: number): number {
+  return value * Math.pow(0.5, Math.max(0, elapsedMs) / halfLifeMs);
+}
+
+export function reputationScore(positive: number, negative: number, prior: number): number {
+  return (positive + prior) / (positive + negative + 2 * prior);
+}
+
+export class ReputationLedger implements IReputationLedger {
+  private options: ReputationLedgerOptions;
+
+  constructor(
+    private repository: IReputationRepository,
+    options: Partial<ReputationLedgerOptions> = {},
+    private now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async record(entries: ReputationEvidenceInput[]): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    if (!this.repository.isAvailable()) {
+      logger.warn('storage_unavailable_reputation_skipped', { evidence_count: entries.length });
+      return 0;
+    }
+
+    const now = this.now();
+    const existing = await this.repository.getMany(entries.map(entry => entry.sourceKey));
+    const records = new Map(existing.map(record => [record.sourceKey, record]));
+    const changed = new Map<string, SourceReputationRecord>();
+    let applied = 0;
+
+    for (const { sourceKey, evidence } of entries) {
+      const current = changed.get(sourceKey) ?? records.get(sourceKey);
+      if (current?.recentEvidence.some(previous => previous.id === evidence.id)) {
+        continue;
+      }
+
+      const record = this.decayTo(current ?? this.emptyRecord(sourceKey, now), now);
+      const at = evidence.at ?? now;
+      const weight = decayEvidence(evidence.weight, now - at, this.options.halfLifeMs);
+
+      if (evidence.polarity === 'positive') {
+        record.positive += weight;
+      } else {
+        record.negative += weight;
+      }
+
+      record.evidenceCount += 1;
+      record.recentEvidence = [{ ...evidence, at }, ...record.recentEvidence].slice(0, this.options.maxRecentEvidence);
+      changed.set(sourceKey, record);
+      applied++;
+    }
+
+    await this.repository.saveMany(Array.from(changed.values()));
+
+    logger.info('reputation_evidence_recorded', {
+      evidence_count: entries.length,
+      applied,
+      sources_updated: changed.size,
+    });
+
+    return applied;
+  }
+
+  async getScores(sourceKeys: string[]): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    if (sourceKeys.length === 0 || !this.repository.isAvailable()) {
+      return scores;
+    }
+
+    for (const record of await this.repository.getMany(sourceKeys)) {
+      scores.set(record.sourceKey, this.toReputation(record).score);
+    }
+
+    return scores;
+  }
+
+  async get(sourceKey: string): Promise<SourceReputation | null> {
+    const [record] = await this.repository.getMany([sourceKey]);
+    return record ? this.toReputation(record) : null;
+  }
+
+  async list(limit: number = 1000): Promise<SourceReputation[]> {
+    const records = await this.repository.list(limit);
+    return records.map(record => this.toReputation(record));
+  }
+
+  async reset(sourceKey: string): Promise<void> {
+    await this.repository.delete(sourceKey);
+    logger.info('reputation_reset', { source_key: sourceKey });
+  }
+
+  private toReputation(record: SourceReputationRecord): SourceReputation {
+    const { positive, negative } = this.decayTo(record, this.now());
+
+    return {
+      sourceKey: record.sourceKey,
+      score: reputationScore(positive, negative, this.options.prior),
+      positive,
+      negative,
+      evidenceCount: record.evidenceCount,
+      recentEvidence: record.recentEvidence,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private decayTo(record: SourceReputationRecord, now: number): SourceReputationRecord {
+    const elapsed = now - record.updatedAt;
+
+    return {
+      ...record,
+      positive: decayEvidence(record.positive, elapsed, this.options.halfLifeMs),
+      negative: decayEvidence(record.negative, elapsed, this.options.halfLifeMs),
+      updatedAt: now,
+    };
+  }
+
+  private emptyRecord(sourceKey: string, now: number): SourceReputationRecord {
+    return {
+      id: sourceKey,
+      sourceKey,
+      positive: 0,
+      negative: 0,
+      evidenceCount: 0,
+      recentEvidence: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+}
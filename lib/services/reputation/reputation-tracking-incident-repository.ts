@@ -0,0 +1,59 @@
+/**
+ * Incident repository decorator: verifying or debunking an incident through
+ * `update` records evidence against the sources that reported it
+ */
+
+import { IIncidentRepository, NewIncident } from '../incidents/repositories/i-incident-repository';
+import { IReputationLedger } from './i-reputation-ledger';
+import { reviewEvidence } from './reputation-evidence';
+import type { Incident } from '@/lib/domain/incident';
+import { BatchResult } from '@/lib/firestore-batch';
+import { logger } from '@/lib/logger';
+
+export class ReputationTrackingIncidentRepository implements IIncidentRepository {
+  constructor(
+    private inner: IIncidentRepository,
+    private ledger: IReputationLedger
+  ) {}
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  async getAll(): Promise<Incident[]> {
+    return this.inner.getAll();
+  }
+
+  async getById(id: string): Promise<Incident | null> {
+    return this.inner.getById(id);
+  }
+
+  async create(incident: NewIncident): Promise<string> {
+    return this.inner.create(incident);
+  }
+
+  async createMany(incidents: NewIncident[]): Promise<BatchResult> {
+    return this.inner.createMany(incidents);
+  }
+
+  async update(id: string, updates: Partial<Incident>): Promise<void> {
+    const isReview = updates.verified !== undefined || updates.debunked !== undefined;
+    const before = isReview ? await this.inner.getById(id) : null;
+
+    await this.inner.update(id, updates);
+
+    if (!before) {
+      return;
+    }
+
+    // The update itself succeeded; a ledger failure must not undo or fail it
+    try {
+      await this.ledger.record(reviewEvidence(before, updates));
+    } catch (error) {
+      logger.error('reputation_review_record_failed', {
+        incident_id: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
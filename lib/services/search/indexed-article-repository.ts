@@ -0,0 +1,65 @@
+/**
+ * Indexed Article Repository
+ * Wraps the storage repository so the local search index sees every write:
+ * saved and updated articles are (re)indexed, expired ones dropped.
+ * Until the first search loads the index (never, when Algolia serves search)
+ * writes only go to storage. Reads go straight to storage.
+ */
+
+import { IArticleRepository } from '../news/repositories/i-article-repository';
+import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
+import { LocalSearchIndex } from './local-search-index';
+
+export class IndexedArticleRepository implements IArticleRepository {
+  constructor(
+    private storage: IArticleRepository,
+    private index: LocalSearchIndex
+  ) {}
+
+  getRecent(hoursBack: number): Promise<ArticleWithHash[]> {
+    return this.storage.getRecent(hoursBack);
+  }
+
+  list(limit: number, startAfter?: string): Promise<ArticleWithHash[]> {
+    return this.storage.list(limit, startAfter);
+  }
+
+  getByTopic(topic: string, limit: number): Promise<ArticleWithHash[]> {
+    return this.storage.getByTopic(topic, limit);
+  }
+
+  getById(id: string): Promise<ArticleWithHash | null> {
+    return this.storage.getById(id);
+  }
+
+  getByContentHash(hash: string): Promise<ArticleWithHash | null> {
+    return this.storage.getByContentHash(hash);
+  }
+
+  getBySourceIds(sourceIds: string[]): Promise<ArticleWithHash[]> {
+    return this.storage.getBySourceIds(sourceIds);
+  }
+
+  async saveMany(articles: ArticleWithHash[]): Promise<ArticleWithHash[]> {
+    const saved = await this.storage.saveMany(articles);
+    if (this.index.loaded) {
+      this.index.upsert(saved);
+    }
+    return saved;
+  }
+
+  async update(id: string, updates: Partial<ArticleWithHash>): Promise<void> {
+    await this.storage.update(id, updates);
+    if (this.index.loaded) {
+      this.index.patch(id, updates);
+    }
+  }
+
+  async deleteOlderThan(daysOld: number): Promise<number> {
+    const deleted = await this.storage.deleteOlderThan(daysOld);
+    if (this.index.loaded) {
+      this.index.removeCreatedBefore(Date.now() - daysOld * 24 * 60 * 60 * 1000);
+    }
+    return deleted;
+  }
+}
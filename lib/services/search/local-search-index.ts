@@ -0,0 +1,401 @@
+/**
+ * Local Search Index
+ * The search backend when Algolia is not configured: an in-process inverted
+ * index over stored articles, ranked with BM25 (per field, weighted like the
+ * Algolia searchable attributes) and analyzed by lib/search-analyzer.ts.
+ * - loaded from the article repository on first use, then kept in sync by
+ *   IndexedArticleRepository (saveMany, update, deleteOlderThan)
+ * - articles saved by other instances are picked up every SYNC_INTERVAL_MS
+ * - every query word must match; the last one also as a prefix while typed
+ * - supports the SearchOptions filters, facet counts, pagination and <mark> highlights
+ */
+
+import { analyze, analyzeQuery, AnalyzedToken } from '@/lib/search-analyzer';
+import type { Article } from '@/lib/firestore';
+import type { SearchOptions, SearchResult, SearchHit, SearchFacets } from '@/lib/algolia';
+import { IArticleRepository } from '../news/repositories/i-article-repository';
+import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
+import { toMillis } from '@/lib/domain/time';
+import { logger } from '@/lib/logger';
+
+// Most recent articles loaded into a fresh index (same cap as /api/search re-indexing)
+export const MAX_INDEXED_ARTICLES = 10000;
+
+// How often to pull articles saved by other instances
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Terms a typed prefix may expand to, most frequent first
+const MAX_PREFIX_EXPANSIONS = 50;
+
+// A prefix expansion counts less than the exact term
+const PREFIX_WEIGHT = 0.5;
+
+const FIELDS = ['title', 'summary', 'content', 'topics', 'channelName', 'author'] as const;
+
+type Field = typeof FIELDS[number];
+
+// Matches the order of the Algolia searchableAttributes
+const FIELD_WEIGHTS: Record<Field, number> = {
+  title: 3,
+  summary: 2,
+  content: 1,
+  topics: 1.5,
+  channelName: 1,
+  author: 1,
+};
+
+const HIGHLIGHTED_FIELDS = ['title', 'summary'] as const;
+
+interface IndexedDocument {
+  article: Article;
+  publishedAt: number; // Milliseconds, whatever the stored format
+  lengths: Record<Field, number>;
+  terms: Set<string>;
+}
+
+// term → document ID → occurrences per field
+type Postings = Map<string, Map<string, Partial<Record<Field, number>>>>;
+
+/**
+ * A stored article in the shape search hits are served in (sourceUrl and topics always set)
+ */
+function toSearchArticle(article: ArticleWithHash): Article {
+  return { ...article, sourceUrl: article.sourceUrl ?? '', topics: article.topics ?? [] };
+}
+
+function fieldText(article: Article, field: Field): string {
+  switch (field) {
+    case 'topics':
+      return (article.topics ?? []).join(' ');
+    case 'author':
+      return [article.author?.name, article.author?.username].filter(Boolean).join(' ');
+    default:
+      return article[field] ?? '';
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * The text with the words of the given terms wrapped in <mark>, HTML-escaped like Algolia's
+ */
+function highlight(text: string, tokens: AnalyzedToken[], matched: Set<string>): string {
+  let html = '';
+  let offset = 0;
+  for (const token of tokens) {
+    if (!matched.has(token.term)) continue;
+    html += `${escapeHtml(text.slice(offset, token.start))}<mark>${escapeHtml(text.slice(token.start, token.end))}</mark>`;
+    offset = token.end;
+  }
+  return html + escapeHtml(text.slice(offset));
+}
+
+export class LocalSearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings: Postings = new Map();
+  private totalLengths: Record<Field, number> = { title: 0, summary: 0, content: 0, topics: 0, channelName: 0, author: 0 };
+  private loading: Promise<void> | null = null;
+  private syncedAt = 0;
+
+  constructor(private repository: IArticleRepository) {}
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Whether the index has been loaded; until then writes need not reach it
+   */
+  get loaded(): boolean {
+    return this.syncedAt > 0;
+  }
+
+  /**
+   * Load the index on first use; afterwards pull recent articles from other instances
+   */
+  async ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    await this.loading;
+
+    if (Date.now() - this.syncedAt > SYNC_INTERVAL_MS) {
+      await this.syncRecent();
+    }
+  }
+
+  /**
+   * Add or replace articles
+   */
+  upsert(articles: ArticleWithHash[]): void {
+    for (const article of articles.map(toSearchArticle)) {
+      this.remove([article.id]);
+
+      const lengths = {} as Record<Field, number>;
+      const terms = new Set<string>();
+      for (const field of FIELDS) {
+        const tokens = analyze(fieldText(article, field));
+        lengths[field] = tokens.length;
+        this.totalLengths[field] += tokens.length;
+        for (const { term } of tokens) {
+          terms.add(term);
+          let postings = this.postings.get(term);
+          if (!postings) {
+            postings = new Map();
+            this.postings.set(term, postings);
+          }
+          const counts = postings.get(article.id) ?? {};
+          counts[field] = (counts[field] ?? 0) + 1;
+          postings.set(article.id, counts);
+        }
+      }
+
+      this.documents.set(article.id, {
+        article,
+        publishedAt: toMillis(article.publishedAt) ?? 0,
+        lengths,
+        terms,
+      });
+    }
+  }
+
+  /**
+   * Apply an update to an indexed article (edited text, new scores); unknown IDs are ignored
+   */
+  patch(id: string, updates: Partial<ArticleWithHash>): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    const article = toSearchArticle({ ...document.article, ...updates, id });
+    if (FIELDS.some(field => field in updates)) {
+      this.upsert([article]);
+    } else {
+      // Scores and other metadata: no text to analyze again
+      document.article = article;
+      document.publishedAt = toMillis(article.publishedAt) ?? 0;
+    }
+  }
+
+  remove(ids: string[]): void {
+    for (const id of ids) {
+      const document = this.documents.get(id);
+      if (!document) continue;
+
+      for (const term of document.terms) {
+        const postings = this.postings.get(term);
+        postings?.delete(id);
+        if (postings && postings.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      for (const field of FIELDS) {
+        this.totalLengths[field] -= document.lengths[field];
+      }
+      this.documents.delete(id);
+    }
+  }
+
+  /**
+   * Drop articles created before a time (mirrors the repository's retention)
+   * Returns how many were removed
+   */
+  removeCreatedBefore(cutoff: number): number {
+    const expired = [...this.documents.values()]
+      .filter(({ article }) => (article.createdAt ?? 0) < cutoff)
+      .map(({ article }) => article.id);
+    this.remove(expired);
+    return expired.length;
+  }
+
+  search(options: SearchOptions): SearchResult {
+    const startTime = Date.now();
+    const { query, filters, page = 0, hitsPerPage = 20 } = options;
+
+    const ranked: Array<{ document: IndexedDocument; score: number; matched: Set<string> }> = [];
+
+    const queryTerms = analyzeQuery(query);
+    if (queryTerms.length === 0) {
+      // No query: everything that passes the filters, newest first
+      for (const document of this.filter([...this.documents.values()], filters)) {
+        ranked.push({ document, score: 0, matched: new Set() });
+      }
+    } else {
+      const groups = queryTerms.map(({ term, prefix }) => this.expand(term, prefix));
+
+      // Only articles with the first word can match all of them
+      const ids = new Set<string>();
+      for (const term of groups[0].keys()) {
+        for (const id of this.postings.get(term)?.keys() ?? []) ids.add(id);
+      }
+      const candidates = this.filter([...ids].map(id => this.documents.get(id)!), filters);
+
+      for (const document of candidates) {
+        let score = 0;
+        const matched = new Set<string>();
+        const matchesAll = groups.every(group => {
+          let found = false;
+          for (const [term, weight] of group) {
+            const counts = this.postings.get(term)?.get(document.article.id);
+            if (!counts) continue;
+            found = true;
+            matched.add(term);
+            score += weight * this.bm25(term, document, counts);
+          }
+          return found;
+        });
+        if (matchesAll) {
+          ranked.push({ document, score, matched });
+        }
+      }
+    }
+
+    ranked.sort((a, b) => b.score - a.score || b.document.publishedAt - a.document.publishedAt);
+
+    const pageResults = ranked.slice(page * hitsPerPage, (page + 1) * hitsPerPage);
+    const hits: SearchHit[] = pageResults.map(({ document, matched }) => {
+      if (matched.size === 0) {
+        return document.article;
+      }
+      const highlights: NonNullable<SearchHit['highlights']> = {};
+      for (const field of HIGHLIGHTED_FIELDS) {
+        const text = document.article[field] ?? '';
+        highlights[field] = highlight(text, analyze(text), matched);
+      }
+      return { ...document.article, highlights };
+    });
+
+    return {
+      hits,
+      nbHits: ranked.length,
+      page,
+      nbPages: Math.ceil(ranked.length / hitsPerPage),
+      hitsPerPage,
+      processingTimeMS: Date.now() - startTime,
+      query,
+      mode: 'local',
+    };
+  }
+
+  /**
+   * Value counts for the facet attributes, over the articles that pass the filters
+   */
+  facets(filters?: SearchOptions['filters']): SearchFacets {
+    const facets: SearchFacets = { source: {}, topics: {}, channelName: {} };
+    for (const { article } of this.filter([...this.documents.values()], filters)) {
+      facets.source[article.source] = (facets.source[article.source] ?? 0) + 1;
+      for (const topic of new Set(article.topics ?? [])) {
+        facets.topics[topic] = (facets.topics[topic] ?? 0) + 1;
+      }
+      if (article.channelName) {
+        facets.channelName[article.channelName] = (facets.channelName[article.channelName] ?? 0) + 1;
+      }
+    }
+    return facets;
+  }
+
+  private filter(documents: IndexedDocument[], filters: SearchOptions['filters']): IndexedDocument[] {
+    if (!filters) {
+      return documents;
+    }
+
+    return documents.filter(({ article, publishedAt }) => {
+      if (filters.source && article.source !== filters.source) {
+        return false;
+      }
+      if (filters.topics && filters.topics.length > 0 && !filters.topics.some(topic => article.topics?.includes(topic))) {
+        return false;
+      }
+      if (filters.channelName && article.channelName !== filters.channelName) {
+        return false;
+      }
+      if (filters.dateRange?.from && publishedAt < filters.dateRange.from) {
+        return false;
+      }
+      if (filters.dateRange?.to && publishedAt > filters.dateRange.to) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * The index terms a query term matches, with their weight: the term itself,
+   * and for a prefix the most frequent longer terms starting with it
+   */
+  private expand(term: string, prefix: boolean): Map<string, number> {
+    const group = new Map<string, number>([[term, 1]]);
+    if (!prefix) {
+      return group;
+    }
+
+    const longer = [...this.postings.entries()]
+      .filter(([candidate]) => candidate !== term && candidate.startsWith(term))
+      .sort((a, b) => b[1].size - a[1].size)
+      .slice(0, MAX_PREFIX_EXPANSIONS);
+    for (const [candidate] of longer) {
+      group.set(candidate, PREFIX_WEIGHT);
+    }
+    return group;
+  }
+
+  private bm25(term: string, document: IndexedDocument, counts: Partial<Record<Field, number>>): number {
+    const total = this.documents.size;
+    const frequency = this.postings.get(term)?.size ?? 0;
+    const idf = Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+
+    let score = 0;
+    for (const field of FIELDS) {
+      const tf = counts[field];
+      if (!tf) continue;
+      const averageLength = this.totalLengths[field] / total || 1;
+      const norm = 1 - B + B * (document.lengths[field] / averageLength);
+      score += FIELD_WEIGHTS[field] * ((tf * (K1 + 1)) / (tf + K1 * norm));
+    }
+    return idf * score;
+  }
+
+  private async load(): Promise<void> {
+    const endTimer = logger.time('search_index_load');
+    try {
+      const articles = await this.repository.list(MAX_INDEXED_ARTICLES);
+      this.upsert(articles);
+      this.syncedAt = Date.now();
+      logger.info('search_index_loaded', { article_count: this.documents.size });
+    } catch (error) {
+      // Let the next search try again
+      this.loading = null;
+      throw error;
+    } finally {
+      endTimer();
+    }
+  }
+
+  private async syncRecent(): Promise<void> {
+    const hoursBack = Math.ceil((Date.now() - this.syncedAt) / (60 * 60 * 1000)) + 1;
+    this.syncedAt = Date.now();
+    try {
+      const recent = await this.repository.getRecent(hoursBack);
+      const added = recent.filter(article => !this.documents.has(article.id)).length;
+      this.upsert(recent);
+      if (added > 0) {
+        logger.debug('search_index_synced', { added, hours_back: hoursBack });
+      }
+    } catch (error) {
+      logger.warn('search_index_sync_failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { ISnapshotRepository, IPFSSnapshot } from './i-snapshot-repository';
+import { saveIPFSSnapshot, getIPFSSnapshots } from '@/lib/firestore';
+
+export class FirestoreSnapshotRepository implements ISnapshotRepository {
+  async save(snapshot: Omit<IPFSSnapshot, 'id' | 'createdAt'>): Promise<string> {
+    return saveIPFSSnapshot(snapshot);
+  }
+
+  async list(limit: number = 20): Promise<IPFSSnapshot[]> {
+    return getIPFSSnapshots(limit);
+  }
+}
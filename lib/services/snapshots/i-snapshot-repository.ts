@@ -0,0 +1,8 @@
+import { IPFSSnapshot } from '@/lib/firestore';
+
+export type { IPFSSnapshot } from '@/lib/firestore';
+
+export interface ISnapshotRepository {
+  save(snapshot: Omit<IPFSSnapshot, 'id' | 'createdAt'>): Promise<string>;
+  list(limit: number): Promise<IPFSSnapshot[]>;
+}
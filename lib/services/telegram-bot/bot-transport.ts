@@ -0,0 +1,57 @@
+/**
+ * Bot Transport
+ * What the reader bot needs from the Telegram Bot API: sending replies and
+ * turning a photo sent to the bot into a public image URL.
+ */
+
+import { sendBotMessage, getFileUrl } from '@/lib/telegram-scraper';
+import { uploadImageToCloudflare } from '@/lib/cloudflare-images';
+import { logger } from '@/lib/logger';
+
+export type ReplyKeyboard =
+  | { keyboard: { text: string; request_location?: boolean }[][]; resize_keyboard: true; one_time_keyboard?: boolean }
+  | { remove_keyboard: true };
+
+export interface BotTransport {
+  send(chatId: string, text: string, keyboard?: ReplyKeyboard): Promise<void>;
+  /**
+   * Re-host a photo sent to the bot; null when it cannot be downloaded or stored
+   */
+  uploadPhoto(fileId: string): Promise<string | null>;
+}
+
+export class TelegramBotTransport implements BotTransport {
+  constructor(private token: string) {}
+
+  async send(chatId: string, text: string, keyboard?: ReplyKeyboard): Promise<void> {
+    await sendBotMessage(chatId, text, {
+      token: this.token,
+      disablePreview: true,
+      ...(keyboard && { replyMarkup: keyboard }),
+    });
+  }
+
+  async uploadPhoto(fileId: string): Promise<string | null> {
+    // The file URL carries the bot token, so the photo is copied rather than linked
+    const fileUrl = await getFileUrl(fileId, this.token);
+    if (!fileUrl) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(fileUrl);
+      if (!response.ok) {
+        logger.warn('telegram_bot_photo_download_failed', { status: response.status });
+        return null;
+      }
+
+      const buffer = Buffer.from(await response.arrayBuffer());
+      return uploadImageToCloudflare(buffer, `telegram-${fileId}.jpg`);
+    } catch (error) {
+      logger.error('telegram_bot_photo_upload_failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+}
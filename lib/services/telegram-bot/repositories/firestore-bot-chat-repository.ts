@@ -0,0 +1,26 @@
+import { IBotChatRepository, TelegramBotChat } from './i-bot-chat-repository';
+import {
+  getTelegramBotChat,
+  getTelegramBotChats,
+  saveTelegramBotChat,
+  isFirestoreAvailable,
+} from '@/lib/firestore';
+
+export class FirestoreBotChatRepository implements IBotChatRepository {
+  isAvailable(): boolean {
+    return isFirestoreAvailable();
+  }
+
+  async get(id: string): Promise<TelegramBotChat | null> {
+    return getTelegramBotChat(id);
+  }
+
+  async getSubscribed(): Promise<TelegramBotChat[]> {
+    const chats = await getTelegramBotChats();
+    return chats.filter(chat => chat.topics.length > 0);
+  }
+
+  async save(chat: TelegramBotChat): Promise<void> {
+    await saveTelegramBotChat(chat);
+  }
+}
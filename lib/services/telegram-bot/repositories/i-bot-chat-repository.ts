@@ -0,0 +1,13 @@
+import { TelegramBotChat } from '@/lib/firestore';
+
+export type { TelegramBotChat, TelegramReportDraft, TelegramReportStep } from '@/lib/firestore';
+
+export interface IBotChatRepository {
+  isAvailable(): boolean;
+  get(id: string): Promise<TelegramBotChat | null>;
+  /**
+   * Chats with at least one topic subscription
+   */
+  getSubscribed(): Promise<TelegramBotChat[]>;
+  save(chat: TelegramBotChat): Promise<void>;
+}
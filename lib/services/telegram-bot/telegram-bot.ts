@@ -0,0 +1,482 @@
+/**
+ * Telegram Reader Bot
+ * A two-way bot for readers who stay in Telegram, fed by /api/telegram/webhook:
+ * - /latest and /topic <id> list recent articles
+ * - /map <city> lists incidents reported near a city in the past week
+ * - /subscribe <topic> sends new articles on that topic after each news refresh
+ * - /report walks through type, location share, description and photos, then
+ *   submits with the validation and rate limit of POST /api/incidents
+ * Only private chats are answered; the report in progress is kept with the chat.
+ */
+
+import { IBotChatRepository, TelegramBotChat, TelegramReportDraft } from './repositories/i-bot-chat-repository';
+import { BotTransport, ReplyKeyboard } from './bot-transport';
+import { IArticleRepository } from '../news/repositories/i-article-repository';
+import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
+import { IncidentService, toCrowdsourcedIncident } from '../incidents/incident-service';
+import { IRateLimiter } from '../rate-limit/i-rate-limiter';
+import { CreateIncidentSchema, validateCreateIncident, formatZodErrors } from '@/lib/validators/incident-validator';
+import { INCIDENT_TYPES, type Incident, type IncidentType } from '@/lib/domain/incident';
+import { distanceKm } from '@/lib/domain/provinces';
+import { findCitiesInText } from '@/lib/geocoder';
+import { TOPIC_FEEDS } from '@/lib/perplexity';
+import type { TelegramMessage, TelegramUpdate } from '@/lib/telegram-scraper';
+import { logger } from '@/lib/logger';
+
+const HOUR = 60 * 60 * 1000;
+const LIST_SIZE = 5;
+const MAP_RADIUS_KM = 50;
+const MAP_WINDOW_MS = 7 * 24 * HOUR;
+const MAX_REPORT_PHOTOS = 5;
+const REPORT_EXPIRY_MS = 24 * HOUR;
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const TYPE_KEYBOARD: ReplyKeyboard = {
+  keyboard: [
+    INCIDENT_TYPES.slice(0, 3).map(type => ({ text: capitalize(type) })),
+    INCIDENT_TYPES.slice(3).map(type => ({ text: capitalize(type) })),
+    [{ text: '/cancel' }],
+  ],
+  resize_keyboard: true,
+  one_time_keyboard: true,
+};
+
+const LOCATION_KEYBOARD: ReplyKeyboard = {
+  keyboard: [[{ text: '📍 Share location', request_location: true }], [{ text: '/cancel' }]],
+  resize_keyboard: true,
+  one_time_keyboard: true,
+};
+
+const PHOTOS_KEYBOARD: ReplyKeyboard = {
+  keyboard: [[{ text: 'Done' }], [{ text: '/cancel' }]],
+  resize_keyboard: true,
+};
+
+const REMOVE_KEYBOARD: ReplyKeyboard = { remove_keyboard: true };
+
+export const HELP_TEXT = [
+  'News and incident reports from inside Iran.',
+  '',
+  '/latest - latest articles',
+  '/topic <id> - latest articles on a topic (/topic for the list)',
+  '/map <city> - incidents reported near a city this week',
+  '/subscribe <topic> - get new articles on a topic',
+  '/unsubscribe <topic|all> - stop topic alerts',
+  '/report - report an incident',
+  '/cancel - drop the report in progress',
+].join('\n');
+
+const TOPICS_TEXT = TOPIC_FEEDS.map(topic => `${topic.id} - ${topic.label}`).join('\n');
+
+/**
+ * "/map@SomeBot Tabriz" → { command: 'map', argument: 'Tabriz' }
+ */
+export function parseCommand(text: string): { command: string; argument: string } | null {
+  const match = text.trim().match(/^\/([a-z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i);
+  if (!match) {
+    return null;
+  }
+
+  return { command: match[1].toLowerCase(), argument: (match[2] || '').trim() };
+}
+
+function timeAgo(timestamp: number | string, now: number): string {
+  const at = typeof timestamp === 'number' ? timestamp : Date.parse(timestamp);
+  if (Number.isNaN(at)) return 'recently';
+
+  const minutes = Math.max(0, Math.round((now - at) / 60000));
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / (24 * 60))}d ago`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 3)}...` : text;
+}
+
+export function formatArticles(articles: ArticleWithHash[], now: number = Date.now()): string {
+  return articles.map(article => [
+    `• ${truncate(article.title, 150)}`,
+    `  ${article.source} · ${timeAgo(article.publishedAt, now)}`,
+    ...(article.sourceUrl ? [`  ${article.sourceUrl}`] : []),
+  ].join('\n')).join('\n\n');
+}
+
+export function formatNearbyIncidents(nearby: { incident: Incident; km: number }[], now: number = Date.now()): string {
+  return nearby.map(({ incident, km }) => [
+    `• ${incident.verified ? '✅' : '⚠️'} ${capitalize(incident.type)}: ${truncate(incident.title, 120)}`,
+    `  ${Math.round(km)} km away · ${timeAgo(incident.timestamp, now)}`,
+  ].join('\n')).join('\n\n');
+}
+
+/**
+ * Incident title from the report: type, place and the start of the description
+ */
+export function toReportTitle(type: IncidentType, description: string, address?: string): string {
+  const place = address ? ` in ${address}` : '';
+  return truncate(`${capitalize(type)}${place}: ${description.replace(/\s+/g, ' ').trim()}`, 100);
+}
+
+export class TelegramBot {
+  constructor(
+    private articles: IArticleRepository,
+    private incidents: IncidentService,
+    private chats: IBotChatRepository,
+    private reportLimiter: IRateLimiter, // The POST /api/incidents limiter
+    private transport: BotTransport
+  ) {}
+
+  async handleUpdate(update: TelegramUpdate): Promise<void> {
+    const message = update.message;
+    if (!message || message.chat.type !== 'private') {
+      return;
+    }
+
+    const chatId = String(message.chat.id);
+    try {
+      await this.handleMessage(chatId, message);
+    } catch (error) {
+      logger.error('telegram_bot_update_failed', {
+        update_id: update.update_id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.transport.send(chatId, 'Something went wrong. Please try again.');
+    }
+  }
+
+  /**
+   * Send each subscribed chat the new articles on its topics
+   * Returns the number of chats messaged
+   */
+  async alertSubscribers(articles: ArticleWithHash[]): Promise<number> {
+    if (articles.length === 0 || !this.chats.isAvailable()) {
+      return 0;
+    }
+
+    let alerted = 0;
+    for (const chat of await this.chats.getSubscribed()) {
+      const matching = articles.filter(article => (article.topics || []).some(topic => chat.topics.includes(topic)));
+      if (matching.length === 0) continue;
+
+      const more = matching.length > LIST_SIZE ? `\n\n+${matching.length - LIST_SIZE} more: /latest` : '';
+      await this.transport.send(chat.id, `🔔 New articles\n\n${formatArticles(matching.slice(0, LIST_SIZE))}${more}`);
+      alerted++;
+    }
+
+    if (alerted > 0) {
+      logger.info('telegram_topic_alerts_sent', {
+        chats: alerted,
+        articles_count: articles.length,
+      });
+    }
+
+    return alerted;
+  }
+
+  private async handleMessage(chatId: string, message: TelegramMessage): Promise<void> {
+    const chat = await this.getChat(chatId);
+    const command = parseCommand(message.text || '');
+
+    if (command) {
+      await this.handleCommand(chat, command.command, command.argument);
+    } else if (chat.report) {
+      await this.continueReport(chat, chat.report, message);
+    } else {
+      await this.transport.send(chatId, HELP_TEXT);
+    }
+  }
+
+  private async handleCommand(chat: TelegramBotChat, command: string, argument: string): Promise<void> {
+    switch (command) {
+      case 'start':
+      case 'help':
+        return this.transport.send(chat.id, HELP_TEXT);
+      case 'latest':
+        return this.sendLatest(chat.id);
+      case 'topic':
+        return this.sendTopic(chat.id, argument);
+      case 'map':
+        return this.sendMap(chat.id, argument);
+      case 'subscribe':
+        return this.subscribe(chat, argument);
+      case 'unsubscribe':
+        return this.unsubscribe(chat, argument);
+      case 'report':
+        return this.startReport(chat);
+      case 'cancel':
+        if (chat.report) {
+          await this.save({ ...chat, report: undefined });
+        }
+        return this.transport.send(chat.id, 'Report cancelled.', REMOVE_KEYBOARD);
+      case 'done':
+        if (chat.report?.step === 'photos') {
+          return this.submitReport(chat, chat.report);
+        }
+        return this.transport.send(chat.id, HELP_TEXT);
+      default:
+        return this.transport.send(chat.id, `Unknown command /${command}.\n\n${HELP_TEXT}`);
+    }
+  }
+
+  private async sendLatest(chatId: string): Promise<void> {
+    const articles = await this.articles.list(LIST_SIZE);
+    await this.transport.send(chatId, articles.length > 0 ? formatArticles(articles) : 'No articles yet.');
+  }
+
+  private async sendTopic(chatId: string, topicId: string): Promise<void> {
+    const topic = TOPIC_FEEDS.find(feed => feed.id === topicId);
+    if (!topic) {
+      await this.transport.send(chatId, `${topicId ? `Unknown topic "${topicId}". ` : ''}Topics:\n${TOPICS_TEXT}\n\nUsage: /topic <id>`);
+      return;
+    }
+
+    const articles = await this.articles.getByTopic(topic.id, LIST_SIZE);
+    await this.transport.send(
+      chatId,
+      articles.length > 0 ? `${topic.label}\n\n${formatArticles(articles)}` : `No recent articles on ${topic.label}.`
+    );
+  }
+
+  private async sendMap(chatId: string, cityName: string): Promise<void> {
+    const city = cityName ? findCitiesInText(cityName)[0] : undefined;
+    if (!city) {
+      await this.transport.send(chatId, `${cityName ? `Unknown city "${cityName}". ` : ''}Usage: /map <city>, e.g. /map Tabriz or /map تبریز`);
+      return;
+    }
+
+    const latDelta = MAP_RADIUS_KM / 111;
+    const lonDelta = latDelta / Math.cos(city.lat * (Math.PI / 180));
+    const since = Date.now() - MAP_WINDOW_MS;
+
+    const nearby = (await this.incidents.getAll({
+      bounds: {
+        north: city.lat + latDelta,
+        south: city.lat - latDelta,
+        east: city.lon + lonDelta,
+        west: city.lon - lonDelta,
+      },
+    }))
+      .filter(incident => incident.timestamp >= since)
+      .map(incident => ({ incident, km: distanceKm(city.lat, city.lon, incident.location.lat, incident.location.lon) }))
+      .filter(({ km }) => km <= MAP_RADIUS_KM)
+      .sort((a, b) => b.incident.timestamp - a.incident.timestamp);
+
+    if (nearby.length === 0) {
+      await this.transport.send(chatId, `No incidents reported within ${MAP_RADIUS_KM} km of ${city.name} this week.`);
+      return;
+    }
+
+    await this.transport.send(chatId, [
+      `Incidents within ${MAP_RADIUS_KM} km of ${city.name}, past 7 days (${nearby.length}):`,
+      '',
+      formatNearbyIncidents(nearby.slice(0, LIST_SIZE)),
+      '',
+      '⚠️ = unverified crowd report',
+    ].join('\n'));
+  }
+
+  private async subscribe(chat: TelegramBotChat, topicId: string): Promise<void> {
+    if (!this.chats.isAvailable()) {
+      await this.transport.send(chat.id, 'Subscriptions are unavailable right now. Please try again later.');
+      return;
+    }
+
+    const topic = TOPIC_FEEDS.find(feed => feed.id === topicId);
+    if (!topic) {
+      const topics = TOPIC_FEEDS
+        .map(feed => `${chat.topics.includes(feed.id) ? '✓ ' : ''}${feed.id} - ${feed.label}`)
+        .join('\n');
+      await this.transport.send(chat.id, `${topicId ? `Unknown topic "${topicId}". ` : ''}Topics:\n${topics}\n\nUsage: /subscribe <id>`);
+      return;
+    }
+
+    await this.save({ ...chat, topics: Array.from(new Set([...chat.topics, topic.id])) });
+    await this.transport.send(chat.id, `Subscribed to ${topic.label}. New articles arrive after each news refresh.\n/unsubscribe ${topic.id} to stop.`);
+  }
+
+  private async unsubscribe(chat: TelegramBotChat, topicId: string): Promise<void> {
+    if (!this.chats.isAvailable()) {
+      await this.transport.send(chat.id, 'Subscriptions are unavailable right now. Please try again later.');
+      return;
+    }
+
+    const all = !topicId || topicId === 'all';
+    await this.save({ ...chat, topics: all ? [] : chat.topics.filter(topic => topic !== topicId) });
+    await this.transport.send(chat.id, all ? 'Unsubscribed from all topics.' : `Unsubscribed from ${topicId}.`);
+  }
+
+  private async startReport(chat: TelegramBotChat): Promise<void> {
+    if (!this.chats.isAvailable()) {
+      await this.transport.send(chat.id, 'Reporting is unavailable right now. Please try again later.');
+      return;
+    }
+
+    await this.save({ ...chat, report: { step: 'type', photoFileIds: [], startedAt: Date.now() } });
+    await this.transport.send(chat.id, 'What happened? Choose the incident type, or /cancel.', TYPE_KEYBOARD);
+  }
+
+  private async continueReport(chat: TelegramBotChat, draft: TelegramReportDraft, message: TelegramMessage): Promise<void> {
+    const text = message.text?.trim() || '';
+
+    switch (draft.step) {
+      case 'type': {
+        const type = INCIDENT_TYPES.find(candidate => candidate === text.toLowerCase());
+        if (!type) {
+          await this.transport.send(chat.id, 'Please choose one of the types below.', TYPE_KEYBOARD);
+          return;
+        }
+
+        await this.save({ ...chat, report: { ...draft, type, step: 'location' } });
+        await this.transport.send(chat.id, 'Where did it happen? Share a location, or type the city name.', LOCATION_KEYBOARD);
+        return;
+      }
+
+      case 'location': {
+        const city = text ? findCitiesInText(text)[0] : undefined;
+        const location = message.location
+          ? { lat: message.location.latitude, lon: message.location.longitude }
+          : city && { lat: city.lat, lon: city.lon, address: city.name };
+        if (!location) {
+          await this.transport.send(chat.id, 'Please share a location, or type a city name like Tabriz or تبریز.', LOCATION_KEYBOARD);
+          return;
+        }
+
+        await this.save({ ...chat, report: { ...draft, location, step: 'description' } });
+        await this.transport.send(
+          chat.id,
+          'Describe what you saw: when it happened, how many people, what happened. At least 20 characters.',
+          REMOVE_KEYBOARD
+        );
+        return;
+      }
+
+      case 'description': {
+        const description = CreateIncidentSchema.shape.description.safeParse(text);
+        if (!description.success) {
+          await this.transport.send(chat.id, description.error.issues[0]?.message || 'Please describe the incident.');
+          return;
+        }
+
+        await this.save({ ...chat, report: { ...draft, description: description.data, step: 'photos' } });
+        await this.transport.send(
+          chat.id,
+          `Send up to ${MAX_REPORT_PHOTOS} photos, then tap Done. Tap Done now to report without photos.`,
+          PHOTOS_KEYBOARD
+        );
+        return;
+      }
+
+      case 'photos': {
+        if (message.photo && message.photo.length > 0) {
+          if (draft.photoFileIds.length >= MAX_REPORT_PHOTOS) {
+            await this.transport.send(chat.id, `That is ${MAX_REPORT_PHOTOS} photos already. Tap Done to submit.`, PHOTOS_KEYBOARD);
+            return;
+          }
+
+          // Telegram sends several sizes; the last is the largest
+          const photoFileIds = [...draft.photoFileIds, message.photo[message.photo.length - 1].file_id];
+          await this.save({ ...chat, report: { ...draft, photoFileIds } });
+          await this.transport.send(chat.id, `Photo ${photoFileIds.length} added. Send more or tap Done.`, PHOTOS_KEYBOARD);
+          return;
+        }
+
+        if (text.toLowerCase() === 'done') {
+          await this.submitReport(chat, draft);
+          return;
+        }
+
+        await this.transport.send(chat.id, 'Send a photo, or tap Done to submit.', PHOTOS_KEYBOARD);
+        return;
+      }
+    }
+  }
+
+  private async submitReport(chat: TelegramBotChat, draft: TelegramReportDraft): Promise<void> {
+    const { type, location, description } = draft;
+    if (!type || !location || !description) {
+      await this.save({ ...chat, report: undefined });
+      await this.transport.send(chat.id, 'That report was incomplete. Please /report again.', REMOVE_KEYBOARD);
+      return;
+    }
+
+    const rateLimit = await this.reportLimiter.checkLimitWithResult(`telegram:${chat.id}`);
+    if (!rateLimit.allowed) {
+      // The draft is kept, so Done can be tapped again later
+      const { maxRequests } = this.reportLimiter.getConfig();
+      await this.transport.send(chat.id, `Maximum ${maxRequests} reports per hour. Please tap Done again later.`, PHOTOS_KEYBOARD);
+      return;
+    }
+
+    const images = (await Promise.all(draft.photoFileIds.map(fileId => this.transport.uploadPhoto(fileId))))
+      .filter((url): url is string => url !== null);
+    const droppedPhotos = draft.photoFileIds.length - images.length;
+
+    const validation = validateCreateIncident({
+      type,
+      title: toReportTitle(type, description, location.address),
+      description,
+      location,
+      images,
+      tags: ['telegram-bot'],
+    });
+
+    await this.save({ ...chat, report: undefined });
+
+    if (!validation.success) {
+      const details = formatZodErrors(validation.error).map(issue => `• ${issue.message}`).join('\n');
+      await this.transport.send(chat.id, `The report could not be submitted:\n${details}\n\nPlease /report again.`, REMOVE_KEYBOARD);
+      return;
+    }
+
+    try {
+      const incidentId = await this.incidents.create(toCrowdsourcedIncident(validation.data));
+
+      logger.info('telegram_report_created', {
+        incidentId,
+        type,
+        photos: images.length,
+        photos_dropped: droppedPhotos,
+      });
+
+      await this.transport.send(chat.id, [
+        'Thank you, your report was submitted. It shows on the map as unverified until it is reviewed.',
+        ...(droppedPhotos > 0 ? [`${droppedPhotos} photo(s) could not be stored.`] : []),
+      ].join('\n'), REMOVE_KEYBOARD);
+    } catch (error) {
+      // Duplicates come back as errors with a message meant for the reporter
+      logger.warn('telegram_report_rejected', {
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.transport.send(
+        chat.id,
+        `The report could not be submitted: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        REMOVE_KEYBOARD
+      );
+    }
+  }
+
+  private async getChat(chatId: string): Promise<TelegramBotChat> {
+    const now = Date.now();
+    const chat = this.chats.isAvailable() ? await this.chats.get(chatId) : null;
+    if (!chat) {
+      return { id: chatId, topics: [], createdAt: now, updatedAt: now };
+    }
+
+    // An abandoned report does not capture messages a day later
+    if (chat.report && now - chat.report.startedAt > REPORT_EXPIRY_MS) {
+      return { ...chat, report: undefined };
+    }
+    return chat;
+  }
+
+  private async save(chat: TelegramBotChat): Promise<void> {
+    if (!this.chats.isAvailable()) {
+      return;
+    }
+
+    const { report, ...rest } = chat;
+    await this.chats.save({ ...rest, ...(report && { report }), updatedAt: Date.now() });
+  }
+}
@@ -0,0 +1,20 @@
+import { IGlossaryRepository, GlossaryTermDoc } from './i-glossary-repository';
+import { getGlossaryTerms, saveGlossaryTerm, deleteGlossaryTerm, isFirestoreAvailable } from '@/lib/firestore';
+
+export class FirestoreGlossaryRepository implements IGlossaryRepository {
+  isAvailable(): boolean {
+    return isFirestoreAvailable();
+  }
+
+  async getAll(): Promise<GlossaryTermDoc[]> {
+    return getGlossaryTerms();
+  }
+
+  async save(term: GlossaryTermDoc): Promise<void> {
+    await saveGlossaryTerm(term);
+  }
+
+  async delete(id: string): Promise<void> {
+    await deleteGlossaryTerm(id);
+  }
+}
@@ -0,0 +1,16 @@
+import { ITranslationMemoryRepository, TranslationMemoryEntry } from './i-translation-memory-repository';
+import { getTranslationMemoryEntry, saveTranslationMemoryEntry, isFirestoreAvailable } from '@/lib/firestore';
+
+export class FirestoreTranslationMemoryRepository implements ITranslationMemoryRepository {
+  isAvailable(): boolean {
+    return isFirestoreAvailable();
+  }
+
+  async get(id: string): Promise<TranslationMemoryEntry | null> {
+    return getTranslationMemoryEntry(id);
+  }
+
+  async save(entry: TranslationMemoryEntry): Promise<void> {
+    await saveTranslationMemoryEntry(entry);
+  }
+}
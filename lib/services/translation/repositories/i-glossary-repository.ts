@@ -0,0 +1,10 @@
+import { GlossaryTermDoc } from '@/lib/firestore';
+
+export type { GlossaryTermDoc } from '@/lib/firestore';
+
+export interface IGlossaryRepository {
+  isAvailable(): boolean;
+  getAll(): Promise<GlossaryTermDoc[]>;
+  save(term: GlossaryTermDoc): Promise<void>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,9 @@
+import { TranslationMemoryEntry } from '@/lib/firestore';
+
+export type { TranslationMemoryEntry } from '@/lib/firestore';
+
+export interface ITranslationMemoryRepository {
+  isAvailable(): boolean;
+  get(id: string): Promise<TranslationMemoryEntry | null>;
+  save(entry: TranslationMemoryEntry): Promise<void>;
+}
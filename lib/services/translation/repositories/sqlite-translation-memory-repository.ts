@@ -0,0 +1,16 @@
+import { ITranslationMemoryRepository, TranslationMemoryEntry } from './i-translation-memory-repository';
+import { getTranslationMemoryEntry, saveTranslationMemoryEntry, isSqliteAvailable } from '@/lib/sqlite';
+
+export class SqliteTranslationMemoryRepository implements ITranslationMemoryRepository {
+  isAvailable(): boolean {
+    return isSqliteAvailable();
+  }
+
+  async get(id: string): Promise<TranslationMemoryEntry | null> {
+    return getTranslationMemoryEntry(id);
+  }
+
+  async save(entry: TranslationMemoryEntry): Promise<void> {
+    await saveTranslationMemoryEntry(entry);
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Translation Glossary
+ * The curated protest-domain terms (lib/domain/glossary.ts) merged with the edits
+ * made through /api/admin/glossary, turned into constraints for one text:
+ * - every term found in the text (as a whole word, either spelling of ی and ک) is
+ *   rendered with its curated translation by every tier
+ * - in Persian text, a name after an honorific (جاویدنام, زنده‌یاد) that is not in
+ *   the glossary is romanized by rule instead of being machine-translated word by word
+ */
+
+import {
+  DEFAULT_GLOSSARY,
+  NAME_HONORIFICS,
+  BuiltInGlossaryTerm,
+  transliterateName,
+} from '@/lib/domain/glossary';
+import type { SupportedLanguage, TermConstraint } from '@/lib/translation-robust';
+import { IGlossaryRepository, GlossaryTermDoc } from './repositories/i-glossary-repository';
+import { logger } from '@/lib/logger';
+
+// Edits reach other instances within this long
+const CACHE_TTL_MS = 60 * 1000;
+
+// Words that end a name after an honorific rather than being its surname
+const NAME_STOP_WORDS = new Set(['و', 'در', 'از', 'به', 'که', 'را', 'با', 'برای', 'پس', 'روز', 'سال']);
+
+const PERSIAN_WORD = '[\\p{L}\\p{M}\\u200c]+';
+
+/**
+ * A term as applied: built-in, edited, or added through the admin API
+ */
+export interface GlossaryEntry extends BuiltInGlossaryTerm {
+  note?: string;
+  builtIn: boolean; // Defined in lib/domain/glossary.ts
+  edited: boolean; // Has a stored override
+  disabled?: boolean;
+  updatedAt?: number;
+}
+
+export type GlossaryTermInput = Omit<GlossaryTermDoc, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+/**
+ * Stable ID for a new term, from its English form
+ */
+export function glossaryTermId(en: string): string {
+  return en.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word pattern that accepts the Arabic and Persian forms of ی and ک and either spacing around a ZWNJ
+ */
+function termPattern(term: string): RegExp {
+  const source = escapeRegExp(term)
+    .replace(/[یي]/g, '[یي]')
+    .replace(/[کك]/g, '[کك]')
+    .replace(/[\u200c ]/g, '[\\u200c ]');
+  return new RegExp(`(?<![\\p{L}\\p{N}\\u200c])${source}(?![\\p{L}\\p{N}\\u200c])`, 'giu');
+}
+
+export class TranslationGlossary {
+  private cache: { entries: GlossaryEntry[]; loadedAt: number } | null = null;
+
+  constructor(private repository: IGlossaryRepository) {}
+
+  isAvailable(): boolean {
+    return this.repository.isAvailable();
+  }
+
+  /**
+   * Every term, built-in and edited, including disabled ones
+   */
+  async list(): Promise<GlossaryEntry[]> {
+    const stored = await this.repository.getAll();
+    const overrides = new Map(stored.map(term => [term.id, term]));
+
+    const entries: GlossaryEntry[] = DEFAULT_GLOSSARY.map(term => {
+      const override = overrides.get(term.id);
+      return override ? this.toEntry(override, true) : { ...term, builtIn: true, edited: false };
+    });
+    for (const term of stored) {
+      if (!DEFAULT_GLOSSARY.some(builtIn => builtIn.id === term.id)) {
+        entries.push(this.toEntry(term, false));
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Add or replace a term (an ID of a built-in term overrides it)
+   */
+  async save(input: GlossaryTermInput): Promise<GlossaryEntry> {
+    const id = input.id ?? glossaryTermId(input.en);
+    if (!id) {
+      throw new Error('Cannot derive a term ID from the English form; pass an id');
+    }
+
+    const existing = (await this.repository.getAll()).find(term => term.id === id);
+    const now = Date.now();
+    const term: GlossaryTermDoc = {
+      ...input,
+      id,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await this.repository.save(term);
+    this.cache = null;
+
+    logger.info('glossary_term_saved', { term_id: id, kind: term.kind, disabled: term.disabled ?? false });
+    return this.toEntry(term, DEFAULT_GLOSSARY.some(builtIn => builtIn.id === id));
+  }
+
+  /**
+   * Delete an added term, or disable a built-in one
+   * Returns what happened, or null when there is no such term
+   */
+  async remove(id: string): Promise<'deleted' | 'disabled' | null> {
+    const builtIn = DEFAULT_GLOSSARY.find(term => term.id === id);
+    const existing = (await this.repository.getAll()).find(term => term.id === id);
+
+    let outcome: 'deleted' | 'disabled' | null = null;
+    if (builtIn) {
+      const now = Date.now();
+      await this.repository.save({ ...builtIn, ...existing, disabled: true, createdAt: existing?.createdAt ?? now, updatedAt: now });
+      outcome = 'disabled';
+    } else if (existing) {
+      await this.repository.delete(id);
+      outcome = 'deleted';
+    }
+
+    if (outcome) {
+      this.cache = null;
+      logger.info('glossary_term_removed', { term_id: id, outcome });
+    }
+    return outcome;
+  }
+
+  /**
+   * The glossary terms (and honorific names) in a text, as constraints for the translators
+   * Only Persian ↔ English is curated; other pairs get none
+   */
+  async constraints(text: string, sourceLang: SupportedLanguage, targetLang: SupportedLanguage): Promise<TermConstraint[]> {
+    if (sourceLang === targetLang || ![sourceLang, targetLang].every(lang => lang === 'fa' || lang === 'en')) {
+      return [];
+    }
+
+    const constraints: TermConstraint[] = [];
+    const matched: Array<{ start: number; end: number }> = [];
+
+    const candidates = (await this.active()).flatMap(term => {
+      const target = targetLang === 'fa' ? term.fa : term.en;
+      const sources = sourceLang === 'fa' ? [term.fa, ...(term.faAliases ?? [])] : [term.en, ...(term.enAliases ?? [])];
+      return sources.map(source => ({ termId: term.id, source, target }));
+    });
+
+    // Longest first, so "سپاه پاسداران انقلاب اسلامی" wins over "سپاه پاسداران"
+    candidates.sort((a, b) => b.source.length - a.source.length);
+
+    for (const candidate of candidates) {
+      const pattern = termPattern(candidate.source);
+      for (const match of text.matchAll(pattern)) {
+        const span = { start: match.index, end: match.index + match[0].length };
+        if (matched.some(other => span.start < other.end && other.start < span.end)) {
+          continue;
+        }
+        matched.push(span);
+        if (!constraints.some(constraint => constraint.source.toLowerCase() === match[0].toLowerCase())) {
+          constraints.push({ termId: candidate.termId, source: match[0], target: candidate.target });
+        }
+      }
+    }
+
+    if (sourceLang === 'fa' && targetLang === 'en') {
+      for (const name of this.honorificNames(text)) {
+        if (matched.some(other => name.start < other.end && other.start < name.end)) {
+          continue;
+        }
+        if (!constraints.some(constraint => constraint.source === name.text)) {
+          const target = transliterateName(name.text);
+          constraints.push({ termId: `name:${glossaryTermId(target)}`, source: name.text, target, transliterated: true });
+        }
+      }
+    }
+
+    return constraints;
+  }
+
+  /**
+   * Names introduced by an honorific: the next word, and the one after it unless it is a stop word
+   */
+  private honorificNames(text: string): Array<{ text: string; start: number; end: number }> {
+    const honorifics = NAME_HONORIFICS.map(escapeRegExp).join('|');
+    const pattern = new RegExp(`((?:${honorifics})\\s+)(${PERSIAN_WORD})(?:(\\s+)(${PERSIAN_WORD}))?`, 'gu');
+
+    const names: Array<{ text: string; start: number; end: number }> = [];
+    for (const match of text.matchAll(pattern)) {
+      const [, prefix, first, space, second] = match;
+      if (NAME_STOP_WORDS.has(first)) {
+        continue;
+      }
+      const start = match.index + prefix.length;
+      const end = start + first.length + (second && !NAME_STOP_WORDS.has(second) ? space.length + second.length : 0);
+      names.push({ text: text.slice(start, end), start, end });
+    }
+    return names;
+  }
+
+  /**
+   * Enabled terms, cached briefly; built-ins only when the stored edits cannot be read
+   */
+  private async active(): Promise<GlossaryEntry[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.entries;
+    }
+
+    let entries: GlossaryEntry[];
+    try {
+      entries = this.repository.isAvailable()
+        ? await this.list()
+        : DEFAULT_GLOSSARY.map(term => ({ ...term, builtIn: true, edited: false }));
+    } catch (error) {
+      logger.warn('glossary_load_failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      entries = DEFAULT_GLOSSARY.map(term => ({ ...term, builtIn: true, edited: false }));
+    }
+
+    const enabled = entries.filter(entry => !entry.disabled);
+    this.cache = { entries: enabled, loadedAt: Date.now() };
+    return enabled;
+  }
+
+  private toEntry(term: GlossaryTermDoc, builtIn: boolean): GlossaryEntry {
+    const { createdAt: _createdAt, ...fields } = term;
+    return { ...fields, builtIn, edited: true };
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Translation Memory
+ * Persistent store in front of the multi-tier translator (lib/translation-robust.ts):
+ * - entries are keyed by language pair plus a SHA-256 of the full text, so long
+ *   posts that share an opening never collide, and survive cold starts
+ * - each entry records the tier that produced it; entries below the best tier are
+ *   re-translated with the better tiers only, at most once per retry window, and
+ *   replaced when one succeeds
+ * - NewsService pre-translates new non-English articles at ingest, so translating
+ *   feed content in NewsCard is a lookup; ingest runs inside news refreshes, so
+ *   each run is capped, a few translations run at a time, and none is started
+ *   once the time budget is spent
+ * - the glossary terms in the text are passed to every tier; an entry translated
+ *   with different terms (the glossary was edited since) is translated again
+ */
+
+import {
+  translateText,
+  translateAbove,
+  detectLanguage,
+  getTranslationKey,
+  glossaryFingerprint,
+  TranslationResult,
+  TranslationTier,
+  TranslatedSegment,
+  TermConstraint,
+  GlossaryHit,
+  SupportedLanguage,
+} from '@/lib/translation-robust';
+import { sanitizeTranslationText } from '@/lib/validators/translation-validator';
+import { ITranslationMemoryRepository, TranslationMemoryEntry } from './repositories/i-translation-memory-repository';
+import type { TranslationGlossary } from './translation-glossary';
+import { logger } from '@/lib/logger';
+
+const HOUR = 60 * 60 * 1000;
+
+// How long a tier's translation is served before a better tier is tried again
+const UPGRADE_RETRY_MS: Record<TranslationTier, number> = {
+  google: Infinity, // Already the best tier
+  mymemory: 24 * HOUR,
+  libretranslate: 24 * HOUR,
+  dictionary: HOUR / 4, // Placeholder text: retry soon
+};
+
+export interface PretranslateOptions {
+  maxArticles: number; // Bounds the translation API calls a single ingest can make
+  concurrency: number; // Translations in parallel
+  timeBudgetMs: number; // No new translation is started after this
+}
+
+const DEFAULT_PRETRANSLATE_OPTIONS: PretranslateOptions = {
+  maxArticles: 20,
+  concurrency: 4,
+  timeBudgetMs: 15000,
+};
+
+export interface MemoryTranslation {
+  translatedText: string;
+  tier: TranslationTier | 'cache';
+  cached: boolean; // Served from memory without calling a tier
+  detectedLanguage?: string;
+  segments?: TranslatedSegment[]; // Per-sentence tiers (absent for entries stored before segmentation)
+  glossaryHits?: GlossaryHit[];
+}
+
+export interface Translator {
+  translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossary?: TermConstraint[]
+  ): Promise<TranslationResult>;
+  translateAbove(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    tier: TranslationTier,
+    glossary?: TermConstraint[]
+  ): Promise<TranslationResult | null>;
+}
+
+const tieredTranslator: Translator = { translate: translateText, translateAbove };
+
+/**
+ * The text NewsCard sends to /api/translate for an article, after the route's sanitization
+ */
+export function articleTranslationText(article: { title: string; summary: string }): string {
+  return sanitizeTranslationText(`${article.title}\n${article.summary}`);
+}
+
+export class TranslationMemory {
+  private pretranslateOptions: PretranslateOptions;
+
+  constructor(
+    private repository: ITranslationMemoryRepository,
+    private translator: Translator = tieredTranslator,
+    private glossary: Pick<TranslationGlossary, 'constraints'> | null = null,
+    pretranslateOptions: Partial<PretranslateOptions> = {}
+  ) {
+    this.pretranslateOptions = { ...DEFAULT_PRETRANSLATE_OPTIONS, ...pretranslateOptions };
+  }
+
+  async translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage
+  ): Promise<MemoryTranslation> {
+    if (sourceLang === targetLang || text.trim().length === 0) {
+      return { translatedText: text, tier: 'cache', cached: true };
+    }
+
+    const id = getTranslationKey(text, sourceLang, targetLang);
+    const glossary = await this.constraints(text, sourceLang, targetLang);
+    const fingerprint = glossaryFingerprint(glossary);
+    let entry = await this.lookup(id);
+    const now = Date.now();
+
+    if (entry && (entry.glossaryFingerprint ?? '') !== fingerprint) {
+      logger.info('translation_memory_glossary_changed', { tier: entry.tier });
+      entry = null;
+    }
+
+    if (entry) {
+      if (now - (entry.upgradeCheckedAt ?? entry.updatedAt) < UPGRADE_RETRY_MS[entry.tier]) {
+        return this.fromEntry(entry);
+      }
+
+      const upgraded = await this.translator.translateAbove(text, sourceLang, targetLang, entry.tier, glossary);
+      if (upgraded?.tier && upgraded.tier !== 'cache') {
+        logger.info('translation_memory_upgraded', { from: entry.tier, to: upgraded.tier });
+        await this.store({
+          ...entry,
+          translatedText: upgraded.translatedText,
+          tier: upgraded.tier,
+          segments: upgraded.segments,
+          glossaryHits: upgraded.glossaryHits,
+          updatedAt: now,
+          upgradeCheckedAt: now,
+        });
+        return {
+          translatedText: upgraded.translatedText,
+          tier: upgraded.tier,
+          cached: false,
+          detectedLanguage: upgraded.detectedLanguage,
+          segments: upgraded.segments,
+          glossaryHits: upgraded.glossaryHits,
+        };
+      }
+
+      await this.store({ ...entry, upgradeCheckedAt: now });
+      return this.fromEntry(entry);
+    }
+
+    const result = await this.translator.translate(text, sourceLang, targetLang, glossary);
+    const tier = result.tier ?? 'dictionary';
+    if (tier !== 'cache') {
+      await this.store({
+        id,
+        sourceLang,
+        targetLang,
+        translatedText: result.translatedText,
+        tier,
+        ...(result.segments && { segments: result.segments }),
+        ...(fingerprint && { glossaryFingerprint: fingerprint }),
+        ...(result.glossaryHits && { glossaryHits: result.glossaryHits }),
+        createdAt: now,
+        updatedAt: now,
+        upgradeCheckedAt: now,
+      });
+    }
+
+    return {
+      translatedText: result.translatedText,
+      tier,
+      cached: false,
+      detectedLanguage: result.detectedLanguage,
+      segments: result.segments,
+      glossaryHits: result.glossaryHits,
+    };
+  }
+
+  /**
+   * Translate new non-English articles (Persian, Kurdish, Azeri, Arabic, Baluchi)
+   * into English ahead of readers asking for them
+   * Returns how many were translated by a tier (memory hits are not counted)
+   */
+  async pretranslate(articles: Array<{ title: string; summary: string }>): Promise<number> {
+    const { maxArticles, concurrency, timeBudgetMs } = this.pretranslateOptions;
+    const deadline = Date.now() + timeBudgetMs;
+
+    if (!this.repository.isAvailable()) {
+      return 0;
+    }
+
+    const foreign: Array<{ text: string; lang: SupportedLanguage }> = [];
+    for (const article of articles) {
+      const text = articleTranslationText(article);
+      const lang = text ? await detectLanguage(text) : 'en';
+      if (lang !== 'en') {
+        foreign.push({ text, lang });
+      }
+    }
+
+    // One failed translation does not stop the others
+    const pretranslateOne = async ({ text, lang }: { text: string; lang: SupportedLanguage }): Promise<boolean> => {
+      try {
+        return !(await this.translate(text, lang, 'en')).cached;
+      } catch (error) {
+        logger.warn('article_pretranslation_item_failed', {
+          source_lang: lang,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return false;
+      }
+    };
+
+    const batch = foreign.slice(0, maxArticles);
+    let attempted = 0;
+    let translated = 0;
+    for (; attempted < batch.length && Date.now() < deadline; attempted += concurrency) {
+      const results = await Promise.all(batch.slice(attempted, attempted + concurrency).map(pretranslateOne));
+      translated += results.filter(Boolean).length;
+    }
+
+    logger.info('articles_pretranslated', {
+      foreign_count: foreign.length,
+      translated,
+      skipped: Math.max(0, foreign.length - Math.min(attempted, batch.length)),
+    });
+    return translated;
+  }
+
+  private fromEntry(entry: TranslationMemoryEntry): MemoryTranslation {
+    return {
+      translatedText: entry.translatedText,
+      tier: entry.tier,
+      cached: true,
+      segments: entry.segments,
+      glossaryHits: entry.glossaryHits,
+    };
+  }
+
+  private async constraints(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage
+  ): Promise<TermConstraint[]> {
+    if (!this.glossary) {
+      return [];
+    }
+
+    try {
+      return await this.glossary.constraints(text, sourceLang, targetLang);
+    } catch (error) {
+      logger.warn('translation_glossary_failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  private async lookup(id: string): Promise<TranslationMemoryEntry | null> {
+    if (!this.repository.isAvailable()) {
+      return null;
+    }
+
+    try {
+      return await this.repository.get(id);
+    } catch (error) {
+      logger.warn('translation_memory_lookup_failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private async store(entry: TranslationMemoryEntry): Promise<void> {
+    if (!this.repository.isAvailable()) {
+      return;
+    }
+
+    try {
+      await this.repository.save(entry);
+    } catch (error) {
+      logger.warn('translation_memory_save_failed', {
+        tier: entry.tier,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
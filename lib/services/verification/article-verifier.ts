@@ -0,0 +1,285 @@
+/**
+ * Article Verifier
+ * Runs VerificationEngine on real data:
+ * - location: the geocoded incidents extracted from the article (falls back to place names in its text)
+ * - imageHash: perceptual hash of the article image (MediaDeduplication)
+ * - corroboration: nearby incidents from the incident repository, weighted by
+ *   the reputation of the sources that reported them
+ *
+ * The score, factors and corroborating incident IDs are written to the article
+ * and to the incidents extracted from it.
+ *
+ * Image hashing and geocoding are slow, and runs happen inside news refreshes,
+ * so each run verifies at most `maxArticles`, a few at a time, and stops
+ * starting new ones once `timeBudgetMs` is spent. The rest are reported as
+ * deferred and picked up by /api/cron/verify-articles (verifyPending).
+ */
+
+import {
+  IArticleVerifier,
+  ArticleVerificationOutcome,
+  VerificationRunResult,
+} from './i-article-verifier';
+import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
+import { IArticleRepository } from '../news/repositories/i-article-repository';
+import { IIncidentRepository } from '../incidents/repositories/i-incident-repository';
+import { IReputationLedger } from '../reputation/i-reputation-ledger';
+import { VerificationEngine, VerificationCandidate, ReputationScores } from '@/lib/verification-engine';
+import { MediaDeduplication } from '@/lib/media-deduplication';
+import { extractLocations } from '@/lib/incident-extractor';
+import { geocodeLocation } from '@/lib/geocoder';
+import { getArticleSourceKey, getIncidentSourceKeys } from '@/lib/domain/source-key';
+import type { Incident, IncidentLocation } from '@/lib/domain/incident';
+import { toMillis } from '@/lib/domain/time';
+import { logger } from '@/lib/logger';
+
+// Same threshold the manual scan used: very high corroboration marks the article verified
+const AUTO_VERIFY_SCORE = 80;
+
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export type ImageHasher = (imageUrl: string) => Promise<string | null>;
+export type LocationResolver = (text: string) => Promise<IncidentLocation | null>;
+
+export interface ArticleVerifierOptions {
+  maxArticles: number; // Per run; the rest are deferred
+  concurrency: number; // Articles verified in parallel
+  timeBudgetMs: number; // No new article is started after this
+}
+
+const DEFAULT_OPTIONS: ArticleVerifierOptions = {
+  maxArticles: 20,
+  concurrency: 4,
+  timeBudgetMs: 20000,
+};
+
+/**
+ * Download an image and compute its perceptual hash (null on any failure)
+ */
+export async function hashRemoteImage(imageUrl: string): Promise<string | null> {
+  try {
+    const response = await fetch(imageUrl, { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+    if (!response.ok) return null;
+
+    const length = Number(response.headers.get('content-length') || 0);
+    if (length > MAX_IMAGE_BYTES) return null;
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (buffer.length > MAX_IMAGE_BYTES) return null;
+
+    return await new MediaDeduplication().generatePHash(buffer);
+  } catch (error) {
+    logger.debug('image_hash_failed', {
+      image_url: imageUrl,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Geocode the first place name in the text that resolves with better than low confidence
+ */
+export async function geocodeArticleText(text: string): Promise<IncidentLocation | null> {
+  for (const name of extractLocations(text)) {
+    const geocoded = await geocodeLocation(name);
+    if (geocoded && geocoded.confidence !== 'low') {
+      return { lat: geocoded.lat, lon: geocoded.lon, address: geocoded.address };
+    }
+  }
+  return null;
+}
+
+type VerifiableIncident = Incident & { source: string };
+
+export class ArticleVerifier implements IArticleVerifier {
+  private options: ArticleVerifierOptions;
+
+  constructor(
+    private articles: IArticleRepository,
+    private incidents: IIncidentRepository,
+    private reputation?: IReputationLedger,
+    private engine: VerificationEngine = new VerificationEngine(),
+    private hashImage: ImageHasher = hashRemoteImage,
+    private resolveLocation: LocationResolver = geocodeArticleText,
+    options: Partial<ArticleVerifierOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async verifyPending(hoursBack: number): Promise<VerificationRunResult> {
+    const pending = (await this.articles.getRecent(hoursBack))
+      .filter(article => article.verifiedAt === undefined)
+      .sort((a, b) => (toMillis(b.publishedAt) ?? 0) - (toMillis(a.publishedAt) ?? 0));
+
+    return this.verifyArticles(pending);
+  }
+
+  async verifyArticles(articles: ArticleWithHash[]): Promise<VerificationRunResult> {
+    const deadline = Date.now() + this.options.timeBudgetMs;
+
+    if (articles.length === 0) {
+      return { scored: 0, skipped: 0, outcomes: [] };
+    }
+
+    if (!this.incidents.isAvailable()) {
+      logger.warn('storage_unavailable_verification_skipped', { articles_count: articles.length });
+      return {
+        scored: 0,
+        skipped: articles.length,
+        outcomes: articles.map(article => ({
+          articleId: article.id,
+          status: 'skipped',
+          reason: 'storage_unavailable',
+        })),
+      };
+    }
+
+    // Each incident is attributed to its first source for reputation weighting
+    const incidents: VerifiableIncident[] = (await this.incidents.getAll()).map(incident => ({
+      ...incident,
+      source: getIncidentSourceKeys(incident)[0],
+    }));
+    const reputations = await this.loadReputations(incidents);
+
+    const incidentsByArticle = new Map<string, VerifiableIncident[]>();
+    for (const incident of incidents) {
+      for (const articleId of incident.articleIds || []) {
+        const list = incidentsByArticle.get(articleId) || [];
+        list.push(incident);
+        incidentsByArticle.set(articleId, list);
+      }
+    }
+
+    const verify = async (article: ArticleWithHash): Promise<ArticleVerificationOutcome> => {
+      try {
+        return await this.verifyArticle(article, incidents, incidentsByArticle.get(article.id) || [], reputations);
+      } catch (error) {
+        logger.error('article_verification_failed', {
+          article_id: article.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { articleId: article.id, status: 'skipped', reason: 'error' };
+      }
+    };
+
+    const outcomes: ArticleVerificationOutcome[] = [];
+    const batch = articles.slice(0, this.options.maxArticles);
+    for (let i = 0; i < batch.length && Date.now() < deadline; i += this.options.concurrency) {
+      outcomes.push(...await Promise.all(batch.slice(i, i + this.options.concurrency).map(verify)));
+    }
+
+    const deferred = articles.slice(outcomes.length);
+    for (const article of deferred) {
+      outcomes.push({ articleId: article.id, status: 'skipped', reason: 'deferred' });
+    }
+
+    const scored = outcomes.filter(outcome => outcome.status === 'scored').length;
+    logger.info('articles_verified', {
+      articles_count: articles.length,
+      scored,
+      skipped: outcomes.length - scored,
+      deferred: deferred.length,
+      incidents_considered: incidents.length,
+    });
+
+    return { scored, skipped: outcomes.length - scored, outcomes };
+  }
+
+  private async loadReputations(incidents: VerifiableIncident[]): Promise<ReputationScores> {
+    if (!this.reputation) {
+      return new Map();
+    }
+
+    try {
+      return await this.reputation.getScores(incidents.map(incident => incident.source));
+    } catch (error) {
+      logger.warn('reputation_load_failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return new Map();
+    }
+  }
+
+  private async verifyArticle(
+    article: ArticleWithHash,
+    incidents: VerifiableIncident[],
+    ownIncidents: VerifiableIncident[],
+    reputations: ReputationScores
+  ): Promise<ArticleVerificationOutcome> {
+    const imageHash = article.imageHash
+      ?? (article.imageUrl ? await this.hashImage(article.imageUrl) : null)
+      ?? undefined;
+
+    // The most confident extraction is the best estimate of where the article is about
+    const primary = [...ownIncidents].sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))[0];
+    const location = primary?.location ?? await this.resolveLocation(`${article.title} ${article.content}`);
+
+    if (!location) {
+      if (imageHash && !article.imageHash) {
+        await this.articles.update(article.id, { imageHash });
+      }
+      return { articleId: article.id, status: 'skipped', reason: 'no_location' };
+    }
+
+    const candidate: VerificationCandidate = {
+      id: article.id,
+      location,
+      timestamp: toMillis(article.publishedAt) ?? Date.now(),
+      title: article.title,
+      imageHash,
+      verified: article.verified,
+      source: getArticleSourceKey(article),
+    };
+
+    // An article cannot corroborate itself through the incidents extracted from it
+    const ownIds = new Set(ownIncidents.map(incident => incident.id));
+    const others = incidents.filter(incident => !ownIds.has(incident.id));
+
+    const result = await this.engine.corroborateIncident(candidate, others, reputations);
+    const corroboratedBy = Array.from(
+      new Set([...result.similarReports, ...result.duplicateMedia].map(report => report.id))
+    );
+    const verification = {
+      verificationScore: result.confidenceScore,
+      corroboratedBy,
+      verificationFactors: result.factors,
+      verificationBreakdown: result.breakdown,
+      verificationModelVersion: result.modelVersion,
+      verifiedAt: Date.now(),
+    };
+
+    await this.articles.update(article.id, {
+      ...verification,
+      ...(imageHash && { imageHash }),
+      ...(result.confidenceScore >= AUTO_VERIFY_SCORE && { verified: true }),
+    });
+
+    for (const incident of ownIncidents) {
+      await this.incidents.update(incident.id, {
+        ...verification,
+        ...(imageHash && !incident.imageHash && { imageHash }),
+      });
+    }
+
+    logger.debug('article_scored', {
+      article_id: article.id,
+      score: result.confidenceScore,
+      model_version: result.modelVersion,
+      corroborated_by: corroboratedBy.length,
+      incidents_updated: ownIncidents.length,
+    });
+
+    return {
+      articleId: article.id,
+      status: 'scored',
+      score: result.confidenceScore,
+      modelVersion: result.modelVersion,
+      factors: result.factors,
+      breakdown: result.breakdown,
+      corroboratedBy,
+      incidentIds: Array.from(ownIds),
+    };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Article Verifier Interface
+ * Corroborates stored articles against nearby incidents and persists the result
+ */
+
+import { ArticleWithHash } from '../news/deduplication/i-deduplicator';
+import type { VerificationFactors, VerificationRuleResult } from '@/lib/domain/incident';
+
+// deferred: over the per-run cap or time budget, left for the verify-articles cron
+export type VerificationSkipReason = 'no_location' | 'storage_unavailable' | 'error' | 'deferred';
+
+export interface ArticleVerificationOutcome {
+  articleId: string;
+  status: 'scored' | 'skipped';
+  reason?: VerificationSkipReason;
+  score?: number;
+  modelVersion?: string;
+  factors?: VerificationFactors;
+  breakdown?: VerificationRuleResult[]; // Per-rule contributions to the score
+  corroboratedBy?: string[]; // Incident IDs
+  incidentIds?: string[]; // Incidents extracted from this article that received the same result
+}
+
+export interface VerificationRunResult {
+  scored: number;
+  skipped: number;
+  outcomes: ArticleVerificationOutcome[];
+}
+
+export interface IArticleVerifier {
+  verifyArticles(articles: ArticleWithHash[]): Promise<VerificationRunResult>;
+  // Verify recent articles that were never scored, newest first
+  verifyPending(hoursBack: number): Promise<VerificationRunResult>;
+}
@@ -0,0 +1,609 @@
+/**
+ * SQLite client for self-hosted / local storage
+ * Mirrors the functions exported by lib/firestore.ts so either backend can sit
+ * behind the repositories (select with STORAGE_BACKEND=sqlite).
+ *
+ * Each collection is a table of JSON documents plus a few indexed columns
+ * extracted from the document for the queries below.
+ */
+
+import Database from 'better-sqlite3';
+import { createHash, randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type {
+  Article,
+  ArticleRevision,
+  Subscription,
+  SubscriptionPreferencesUpdate,
+  StoryCluster,
+  SourceCursorDoc,
+  IPFSSnapshot,
+  SourceReputationRecord,
+  OutageEvent,
+  NotificationDelivery,
+  NotificationDigest,
+  TelegramBotChat,
+  MediaAsset,
+  TranslationMemoryEntry,
+  GlossaryTermDoc,
+} from './firestore';
+import { INCIDENT_SCHEMA_VERSION, type Incident, type NewIncident } from './domain/incident';
+import { upgradeIncident } from './domain/incident-migrations';
+import { toMillis } from './domain/time';
+import { logger } from './logger';
+
+type Doc = Record<string, any>;
+
+interface ColumnSpec {
+  type: 'INTEGER' | 'TEXT';
+  value: (doc: Doc) => string | number | null;
+}
+
+/**
+ * Indexed columns per collection (the full document is always stored in `data`)
+ */
+const COLLECTIONS = {
+  articles: {
+    created_at: { type: 'INTEGER', value: (doc) => toMillis(doc.createdAt) ?? Date.now() },
+    content_hash: { type: 'TEXT', value: (doc) => doc.contentHash ?? null },
+    source_id: { type: 'TEXT', value: (doc) => doc.sourceId ?? null },
+  },
+  article_revisions: {
+    article_id: { type: 'TEXT', value: (doc) => doc.articleId },
+    revision: { type: 'INTEGER', value: (doc) => doc.revision },
+  },
+  incidents: {
+    timestamp: { type: 'INTEGER', value: (doc) => doc.timestamp ?? 0 },
+    created_at: { type: 'INTEGER', value: (doc) => toMillis(doc.createdAt) ?? Date.now() },
+  },
+  subscriptions: {},
+  stories: {
+    last_updated_at: { type: 'INTEGER', value: (doc) => doc.lastUpdatedAt ?? 0 },
+  },
+  source_cursors: {},
+  source_reputation: {
+    updated_at: { type: 'INTEGER', value: (doc) => doc.updatedAt ?? 0 },
+  },
+  ipfs_snapshots: {
+    timestamp: { type: 'INTEGER', value: (doc) => doc.timestamp ?? 0 },
+  },
+  outage_events: {
+    onset: { type: 'INTEGER', value: (doc) => doc.onset ?? 0 },
+    status: { type: 'TEXT', value: (doc) => doc.status ?? null },
+  },
+  notification_deliveries: {
+    sent_at: { type: 'INTEGER', value: (doc) => doc.sentAt ?? 0 },
+    subscription_id: { type: 'TEXT', value: (doc) => doc.subscriptionId ?? null },
+  },
+  notification_digests: {
+    status: { type: 'TEXT', value: (doc) => doc.status ?? null },
+  },
+  telegram_bot_chats: {},
+  media: {},
+  translation_memory: {},
+  translation_glossary: {},
+} satisfies Record<string, Record<string, ColumnSpec>>;
+
+export type SqliteCollection = keyof typeof COLLECTIONS;
+
+export const SQLITE_COLLECTIONS = Object.keys(COLLECTIONS) as SqliteCollection[];
+
+let db: Database.Database | null = null;
+
+function createSchema(database: Database.Database): void {
+  for (const [name, columns] of Object.entries(COLLECTIONS) as Array<[string, Record<string, ColumnSpec>]>) {
+    const extra = Object.entries(columns).map(([column, spec]) => `, ${column} ${spec.type}`).join('');
+    database.exec(`CREATE TABLE IF NOT EXISTS ${name} (id TEXT PRIMARY KEY, data TEXT NOT NULL${extra})`);
+
+    for (const column of Object.keys(columns)) {
+      database.exec(`CREATE INDEX IF NOT EXISTS idx_${name}_${column} ON ${name}(${column})`);
+    }
+  }
+}
+
+/**
+ * Open (once) the database at SQLITE_PATH (default: data/rise-up.db)
+ */
+export function getSqliteDb(): Database.Database {
+  if (db) return db;
+
+  const file = process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'rise-up.db');
+  if (file !== ':memory:') {
+    mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  const database = new Database(file);
+  database.pragma('journal_mode = WAL');
+  createSchema(database);
+  db = database;
+
+  logger.info('sqlite_initialized', { path: file });
+  return db;
+}
+
+/**
+ * Check if SQLite can be opened
+ */
+export function isSqliteAvailable(): boolean {
+  try {
+    getSqliteDb();
+    return true;
+  } catch (error) {
+    logger.error('sqlite_initialization_failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return false;
+  }
+}
+
+/**
+ * Close the database (scripts and tests; the next call reopens it)
+ */
+export function closeSqlite(): void {
+  db?.close();
+  db = null;
+}
+
+//=============================================================================
+// DOCUMENT HELPERS
+//=============================================================================
+
+function parseRows<T>(rows: unknown[]): T[] {
+  return (rows as Array<{ data: string }>).map((row) => JSON.parse(row.data) as T);
+}
+
+function getDocument<T>(collection: SqliteCollection, id: string): T | null {
+  const row = getSqliteDb()
+    .prepare(`SELECT data FROM ${collection} WHERE id = ?`)
+    .get(id) as { data: string } | undefined;
+
+  return row ? (JSON.parse(row.data) as T) : null;
+}
+
+/**
+ * Insert or replace documents (each must carry its `id`)
+ */
+export function putDocuments(collection: SqliteCollection, docs: Doc[]): number {
+  const columns = COLLECTIONS[collection] as Record<string, ColumnSpec>;
+  const names = ['id', 'data', ...Object.keys(columns)];
+  const statement = getSqliteDb().prepare(
+    `INSERT OR REPLACE INTO ${collection} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`
+  );
+
+  const write = getSqliteDb().transaction((batch: Doc[]) => {
+    for (const doc of batch) {
+      statement.run(
+        doc.id,
+        JSON.stringify(doc),
+        ...Object.values(columns).map((spec) => spec.value(doc))
+      );
+    }
+  });
+
+  write(docs);
+  return docs.length;
+}
+
+/**
+ * Every document in a collection (for migration/export)
+ */
+export function getAllDocuments(collection: SqliteCollection): Doc[] {
+  return parseRows<Doc>(getSqliteDb().prepare(`SELECT data FROM ${collection}`).all());
+}
+
+function mergeDocument(collection: SqliteCollection, id: string, updates: Doc): void {
+  const database = getSqliteDb();
+
+  database.transaction(() => {
+    const existing = getDocument<Doc>(collection, id);
+    if (!existing) {
+      throw new Error(`No document to update: ${collection}/${id}`);
+    }
+
+    const merged = { ...existing };
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined) merged[key] = value;
+    }
+    putDocuments(collection, [merged]);
+  })();
+}
+
+//=============================================================================
+// ARTICLES
+//=============================================================================
+
+export async function saveArticle(article: Article): Promise<void> {
+  putDocuments('articles', [{ ...article, createdAt: Date.now() }]);
+}
+
+export async function saveArticles(articles: Article[]): Promise<void> {
+  const now = Date.now();
+  putDocuments('articles', articles.map((article) => ({ ...article, createdAt: now })));
+}
+
+/**
+ * Get articles with pagination (newest first, `startAfter` is an article ID)
+ */
+export async function getArticles(limit: number = 20, startAfter?: string): Promise<Article[]> {
+  const database = getSqliteDb();
+
+  if (startAfter) {
+    const cursor = database
+      .prepare('SELECT created_at, id FROM articles WHERE id = ?')
+      .get(startAfter) as { created_at: number; id: string } | undefined;
+
+    if (cursor) {
+      return parseRows<Article>(
+        database
+          .prepare(
+            `SELECT data FROM articles WHERE (created_at, id) < (?, ?)
+             ORDER BY created_at DESC, id DESC LIMIT ?`
+          )
+          .all(cursor.created_at, cursor.id, limit)
+      );
+    }
+  }
+
+  return parseRows<Article>(
+    database.prepare('SELECT data FROM articles ORDER BY created_at DESC, id DESC LIMIT ?').all(limit)
+  );
+}
+
+export async function getArticleById(id: string): Promise<Article | null> {
+  return getDocument<Article>('articles', id);
+}
+
+export async function getArticleByContentHash(contentHash: string): Promise<Article | null> {
+  const [article] = parseRows<Article>(
+    getSqliteDb().prepare('SELECT data FROM articles WHERE content_hash = ? LIMIT 1').all(contentHash)
+  );
+  return article || null;
+}
+
+export async function getArticlesBySourceIds(sourceIds: string[]): Promise<Article[]> {
+  const unique = Array.from(new Set(sourceIds));
+  if (unique.length === 0) return [];
+
+  return parseRows<Article>(
+    getSqliteDb()
+      .prepare(`SELECT data FROM articles WHERE source_id IN (${unique.map(() => '?').join(', ')})`)
+      .all(...unique)
+  );
+}
+
+export async function updateArticle(id: string, updates: Partial<Article>): Promise<void> {
+  mergeDocument('articles', id, updates);
+}
+
+export async function getRecentArticles(hoursBack: number = 24): Promise<Article[]> {
+  const cutoffTime = Date.now() - hoursBack * 60 * 60 * 1000;
+
+  return parseRows<Article>(
+    getSqliteDb()
+      .prepare('SELECT data FROM articles WHERE created_at > ? ORDER BY created_at DESC LIMIT 200')
+      .all(cutoffTime)
+  );
+}
+
+export async function getArticlesByTopic(topic: string, limit: number = 20): Promise<Article[]> {
+  return parseRows<Article>(
+    getSqliteDb()
+      .prepare(
+        `SELECT data FROM articles
+         WHERE EXISTS (SELECT 1 FROM json_each(articles.data, '$.topics') WHERE json_each.value = ?)
+         ORDER BY created_at DESC LIMIT ?`
+      )
+      .all(topic, limit)
+  );
+}
+
+export async function deleteOldArticles(daysOld: number = 30): Promise<number> {
+  const cutoffTime = Date.now() - daysOld * 24 * 60 * 60 * 1000;
+  return getSqliteDb().prepare('DELETE FROM articles WHERE created_at < ?').run(cutoffTime).changes;
+}
+
+//=============================================================================
+// ARTICLE REVISIONS
+//=============================================================================
+
+export async function saveArticleRevisions(revisions: ArticleRevision[]): Promise<void> {
+  putDocuments('article_revisions', revisions);
+}
+
+export async function getArticleRevisions(articleId: string): Promise<ArticleRevision[]> {
+  return parseRows<ArticleRevision>(
+    getSqliteDb()
+      .prepare('SELECT data FROM article_revisions WHERE article_id = ? ORDER BY revision ASC')
+      .all(articleId)
+  );
+}
+
+//=============================================================================
+// INCIDENTS
+//=============================================================================
+
+export async function saveIncident(incident: NewIncident): Promise<string> {
+  const id = randomUUID();
+  putDocuments('incidents', [{ ...incident, id, schemaVersion: INCIDENT_SCHEMA_VERSION, createdAt: Date.now() }]);
+  return id;
+}
+
+export async function saveIncidents(incidents: NewIncident[]): Promise<string[]> {
+  const now = Date.now();
+  const docs = incidents.map((incident) => ({
+    ...incident,
+    id: randomUUID(),
+    schemaVersion: INCIDENT_SCHEMA_VERSION,
+    createdAt: now,
+  }));
+  putDocuments('incidents', docs);
+  return docs.map((doc) => doc.id);
+}
+
+export async function getIncidents(): Promise<Incident[]> {
+  return parseRows<Doc>(
+    getSqliteDb().prepare('SELECT data FROM incidents ORDER BY timestamp DESC LIMIT 500').all()
+  ).map(upgradeIncident);
+}
+
+export async function getIncidentById(id: string): Promise<Incident | null> {
+  const doc = getDocument<Doc>('incidents', id);
+  return doc ? upgradeIncident(doc) : null;
+}
+
+export async function updateIncident(id: string, updates: Partial<Incident>): Promise<void> {
+  mergeDocument('incidents', id, updates);
+}
+
+//=============================================================================
+// SUBSCRIPTIONS
+//=============================================================================
+
+export async function saveSubscription(subscription: Omit<Subscription, 'id' | 'subscribedAt'>): Promise<string> {
+  // Endpoint hash as ID, same as Firestore, so re-subscribing replaces the record
+  const id = createHash('sha256').update(subscription.endpoint).digest('hex');
+  putDocuments('subscriptions', [{ ...subscription, id, subscribedAt: Date.now() }]);
+  return id;
+}
+
+export async function getSubscriptions(): Promise<Subscription[]> {
+  return parseRows<Subscription>(getSqliteDb().prepare('SELECT data FROM subscriptions').all());
+}
+
+export async function deleteSubscription(id: string): Promise<void> {
+  getSqliteDb().prepare('DELETE FROM subscriptions WHERE id = ?').run(id);
+}
+
+export async function updateSubscriptionPreferences(id: string, updates: SubscriptionPreferencesUpdate): Promise<void> {
+  mergeDocument('subscriptions', id, updates);
+}
+
+export async function updateSubscriptionLastNotified(id: string): Promise<void> {
+  mergeDocument('subscriptions', id, { lastNotified: Date.now() });
+}
+
+//=============================================================================
+// STORIES
+//=============================================================================
+
+export async function saveStories(stories: StoryCluster[]): Promise<void> {
+  putDocuments('stories', stories);
+}
+
+export async function getRecentStories(hoursBack: number = 48): Promise<StoryCluster[]> {
+  const cutoffTime = Date.now() - hoursBack * 60 * 60 * 1000;
+
+  return parseRows<StoryCluster>(
+    getSqliteDb()
+      .prepare('SELECT data FROM stories WHERE last_updated_at > ? ORDER BY last_updated_at DESC LIMIT 300')
+      .all(cutoffTime)
+  );
+}
+
+export async function getStories(limit: number = 20, minSources: number = 1): Promise<StoryCluster[]> {
+  return parseRows<StoryCluster>(
+    getSqliteDb()
+      .prepare(
+        `SELECT data FROM stories WHERE json_extract(data, '$.sourceCount') >= ?
+         ORDER BY last_updated_at DESC LIMIT ?`
+      )
+      .all(minSources, limit)
+  );
+}
+
+export async function getStoryById(id: string): Promise<StoryCluster | null> {
+  return getDocument<StoryCluster>('stories', id);
+}
+
+//=============================================================================
+// SOURCE CURSORS
+//=============================================================================
+
+export async function getSourceCursors(source: string): Promise<Record<string, string>> {
+  return getDocument<SourceCursorDoc>('source_cursors', source)?.cursors || {};
+}
+
+export async function saveSourceCursors(source: string, cursors: Record<string, string>): Promise<void> {
+  const database = getSqliteDb();
+
+  // Merge like Firestore's set(..., { merge: true })
+  database.transaction(() => {
+    const existing = getDocument<SourceCursorDoc>('source_cursors', source);
+    putDocuments('source_cursors', [{
+      id: source,
+      source,
+      cursors: { ...(existing?.cursors || {}), ...cursors },
+      updatedAt: Date.now(),
+    }]);
+  })();
+}
+
+//=============================================================================
+// SOURCE REPUTATION
+//=============================================================================
+
+export async function getSourceReputations(limit: number = 1000): Promise<SourceReputationRecord[]> {
+  return parseRows<SourceReputationRecord>(
+    getSqliteDb().prepare('SELECT data FROM source_reputation ORDER BY updated_at DESC LIMIT ?').all(limit)
+  );
+}
+
+export async function getSourceReputationsByKeys(sourceKeys: string[]): Promise<SourceReputationRecord[]> {
+  return Array.from(new Set(sourceKeys))
+    .map((key) => getDocument<SourceReputationRecord>('source_reputation', key))
+    .filter((record): record is SourceReputationRecord => record !== null);
+}
+
+export async function saveSourceReputations(records: SourceReputationRecord[]): Promise<void> {
+  putDocuments('source_reputation', records);
+}
+
+export async function deleteSourceReputation(sourceKey: string): Promise<void> {
+  getSqliteDb().prepare('DELETE FROM source_reputation WHERE id = ?').run(sourceKey);
+}
+
+//=============================================================================
+// OUTAGE EVENTS
+//=============================================================================
+
+export async function getOutageEvents(since: number, limit: number = 500): Promise<OutageEvent[]> {
+  return parseRows<OutageEvent>(
+    getSqliteDb()
+      .prepare('SELECT data FROM outage_events WHERE onset >= ? ORDER BY onset DESC LIMIT ?')
+      .all(since, limit)
+  );
+}
+
+export async function getOngoingOutageEvents(): Promise<OutageEvent[]> {
+  return parseRows<OutageEvent>(
+    getSqliteDb().prepare("SELECT data FROM outage_events WHERE status = 'ongoing'").all()
+  );
+}
+
+export async function saveOutageEvents(events: OutageEvent[]): Promise<void> {
+  putDocuments('outage_events', events);
+}
+
+//=============================================================================
+// IPFS SNAPSHOTS
+//=============================================================================
+
+export async function saveIPFSSnapshot(snapshot: Omit<IPFSSnapshot, 'id' | 'createdAt'>): Promise<string> {
+  const id = randomUUID();
+  putDocuments('ipfs_snapshots', [{ ...snapshot, id, createdAt: Date.now() }]);
+  return id;
+}
+
+export async function getIPFSSnapshots(limit: number = 20): Promise<IPFSSnapshot[]> {
+  return parseRows<IPFSSnapshot>(
+    getSqliteDb().prepare('SELECT data FROM ipfs_snapshots ORDER BY timestamp DESC LIMIT ?').all(limit)
+  );
+}
+
+//=============================================================================
+// NOTIFICATION DELIVERIES
+//=============================================================================
+
+export async function saveNotificationDeliveries(deliveries: NotificationDelivery[]): Promise<void> {
+  putDocuments('notification_deliveries', deliveries);
+}
+
+export async function getNotificationDeliveries(since: number, limit: number = 5000): Promise<NotificationDelivery[]> {
+  return parseRows<NotificationDelivery>(
+    getSqliteDb()
+      .prepare('SELECT data FROM notification_deliveries WHERE sent_at >= ? ORDER BY sent_at DESC LIMIT ?')
+      .all(since, limit)
+  );
+}
+
+export async function getSubscriptionDeliveries(subscriptionId: string, limit: number = 50): Promise<NotificationDelivery[]> {
+  return parseRows<NotificationDelivery>(
+    getSqliteDb()
+      .prepare('SELECT data FROM notification_deliveries WHERE subscription_id = ? ORDER BY sent_at DESC LIMIT ?')
+      .all(subscriptionId, limit)
+  );
+}
+
+export async function markNotificationDeliveryClicked(id: string, clickedAt: number): Promise<boolean> {
+  if (!getDocument('notification_deliveries', id)) {
+    return false;
+  }
+
+  mergeDocument('notification_deliveries', id, { status: 'clicked', clickedAt });
+  return true;
+}
+
+//=============================================================================
+// NOTIFICATION DIGESTS
+//=============================================================================
+
+export async function getNotificationDigest(id: string): Promise<NotificationDigest | null> {
+  return getDocument<NotificationDigest>('notification_digests', id);
+}
+
+export async function getPendingNotificationDigests(): Promise<NotificationDigest[]> {
+  return parseRows<NotificationDigest>(
+    getSqliteDb().prepare("SELECT data FROM notification_digests WHERE status = 'pending'").all()
+  );
+}
+
+export async function saveNotificationDigests(digests: NotificationDigest[]): Promise<void> {
+  putDocuments('notification_digests', digests);
+}
+
+//=============================================================================
+// TELEGRAM BOT CHATS
+//=============================================================================
+
+export async function getTelegramBotChat(id: string): Promise<TelegramBotChat | null> {
+  return getDocument<TelegramBotChat>('telegram_bot_chats', id);
+}
+
+export async function getTelegramBotChats(): Promise<TelegramBotChat[]> {
+  return getAllDocuments('telegram_bot_chats') as TelegramBotChat[];
+}
+
+export async function saveTelegramBotChat(chat: TelegramBotChat): Promise<void> {
+  putDocuments('telegram_bot_chats', [chat]);
+}
+
+//=============================================================================
+// MEDIA
+//=============================================================================
+
+export async function getMediaAsset(id: string): Promise<MediaAsset | null> {
+  return getDocument<MediaAsset>('media', id);
+}
+
+export async function saveMediaAsset(asset: MediaAsset): Promise<void> {
+  putDocuments('media', [asset]);
+}
+
+//=============================================================================
+// TRANSLATION MEMORY
+//=============================================================================
+
+export async function getTranslationMemoryEntry(id: string): Promise<TranslationMemoryEntry | null> {
+  return getDocument<TranslationMemoryEntry>('translation_memory', id);
+}
+
+export async function saveTranslationMemoryEntry(entry: TranslationMemoryEntry): Promise<void> {
+  putDocuments('translation_memory', [entry]);
+}
+
+//=============================================================================
+// TRANSLATION GLOSSARY
+//=============================================================================
+
+export async function getGlossaryTerms(): Promise<GlossaryTermDoc[]> {
+  return getAllDocuments('translation_glossary') as GlossaryTermDoc[];
+}
+
+export async function saveGlossaryTerm(term: GlossaryTermDoc): Promise<void> {
+  putDocuments('translation_glossary', [term]);
+}
+
+export async function deleteGlossaryTerm(id: string): Promise<void> {
+  getSqliteDb().prepare('DELETE FROM translation_glossary WHERE id = ?').run(id);
+}
@@ -1,14 +1,12 @@
 /**
- * Subscription storage and management using Firestore
+ * Subscription storage and management
+ * Backed by the configured subscription repository (Firestore or SQLite)
  */
 
+import { createHash } from 'crypto';
 import { logger } from '@/lib/logger';
-import {
-  saveSubscription as saveFirestoreSubscription,
-  getSubscriptions as getFirestoreSubscriptions,
-  deleteSubscription as deleteFirestoreSubscription,
-  isFirestoreAvailable,
-} from './firestore';
+import { ServiceContainer } from '@/lib/services/container';
+import type { SubscriptionPreferencesUpdate } from '@/lib/services/notifications/repositories/i-subscription-repository';
 
 interface PushSubscription {
   endpoint: string;
@@ -23,26 +21,38 @@ export interface SubscriptionData extends PushSubscription {
   userAgent?: string;
   subscribedAt: number;
   lastNotified?: number;
+  connectivityAlerts?: SubscriptionPreferencesUpdate['connectivityAlerts'];
+  preferences?: SubscriptionPreferencesUpdate['preferences'];
 }
 
 /**
- * Get all active subscriptions from Firestore
+ * Subscription ID for a push endpoint (the endpoint's SHA-256, as the repositories store it)
+ */
+export function getSubscriptionId(endpoint: string): string {
+  return createHash('sha256').update(endpoint).digest('hex');
+}
+
+/**
+ * Get all active subscriptions
  */
 export async function getActiveSubscriptions(): Promise<SubscriptionData[]> {
-  if (!isFirestoreAvailable()) {
-    logger.warn('firestore_unavailable_subscriptions');
+  const repository = ServiceContainer.getSubscriptionRepository();
+  if (!repository.isAvailable()) {
+    logger.warn('storage_unavailable_subscriptions');
     return [];
   }
 
   try {
-    const firestoreSubscriptions = await getFirestoreSubscriptions();
-    return firestoreSubscriptions.map(sub => ({
+    const storedSubscriptions = await repository.getAll();
+    return storedSubscriptions.map(sub => ({
       id: sub.id,
       endpoint: sub.endpoint,
       keys: sub.keys,
       userAgent: sub.userAgent,
       subscribedAt: sub.subscribedAt,
       lastNotified: sub.lastNotified,
+      connectivityAlerts: sub.connectivityAlerts,
+      preferences: sub.preferences,
     }));
   } catch (error) {
     logger.error('subscriptions_fetch_error', {
@@ -53,15 +63,16 @@ export async function getActiveSubscriptions(): Promise<SubscriptionData[]> {
 }
 
 /**
- * Add a new subscription to Firestore
+ * Add a new subscription
  */
 export async function addSubscription(subscription: SubscriptionData): Promise<void> {
-  if (!isFirestoreAvailable()) {
-    throw new Error('Firestore not available');
+  const repository = ServiceContainer.getSubscriptionRepository();
+  if (!repository.isAvailable()) {
+    throw new Error('Storage not available');
   }
 
   try {
-    await saveFirestoreSubscription({
+    await repository.save({
       endpoint: subscription.endpoint,
       keys: subscription.keys,
       userAgent: subscription.userAgent,
@@ -75,15 +86,16 @@ export async function addSubscription(subscription: SubscriptionData): Promise<v
 }
 
 /**
- * Remove a subscription by ID from Firestore
+ * Remove a subscription by ID
  */
 export async function removeSubscription(id: string): Promise<void> {
-  if (!isFirestoreAvailable()) {
-    throw new Error('Firestore not available');
+  const repository = ServiceContainer.getSubscriptionRepository();
+  if (!repository.isAvailable()) {
+    throw new Error('Storage not available');
   }
 
   try {
-    await deleteFirestoreSubscription(id);
+    await repository.delete(id);
   } catch (error) {
     logger.error('subscription_remove_error', {
       error: error instanceof Error ? error.message : 'Unknown error'
@@ -93,15 +105,35 @@ export async function removeSubscription(id: string): Promise<void> {
 }
 
 /**
- * Find subscription by ID from Firestore
+ * Update a subscription's notification preferences
+ */
+export async function updateSubscriptionPreferences(id: string, updates: SubscriptionPreferencesUpdate): Promise<void> {
+  const repository = ServiceContainer.getSubscriptionRepository();
+  if (!repository.isAvailable()) {
+    throw new Error('Storage not available');
+  }
+
+  try {
+    await repository.updatePreferences(id, updates);
+  } catch (error) {
+    logger.error('subscription_preferences_update_error', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    throw error;
+  }
+}
+
+/**
+ * Find subscription by ID
  */
 export async function findSubscription(id: string): Promise<SubscriptionData | undefined> {
-  if (!isFirestoreAvailable()) {
+  const repository = ServiceContainer.getSubscriptionRepository();
+  if (!repository.isAvailable()) {
     return undefined;
   }
 
   try {
-    const subscriptions = await getFirestoreSubscriptions();
+    const subscriptions = await repository.getAll();
     return subscriptions.find(sub => sub.id === id);
   } catch (error) {
     logger.error('subscription_find_error', {
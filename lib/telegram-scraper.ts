@@ -4,6 +4,7 @@
  */
 
 import { logger } from '@/lib/logger';
+import { DownloadedMedia, MAX_MEDIA_BYTES } from '@/lib/domain/media';
 
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 
@@ -16,9 +17,10 @@ const MONITORED_CHANNELS = [
   '@VOAFarsi',
 ];
 
-interface TelegramMessage {
+export interface TelegramMessage {
   message_id: number;
   date: number;
+  edit_date?: number;
   chat: {
     id: number;
     title?: string;
@@ -39,10 +41,21 @@ interface TelegramMessage {
       file_id: string;
     };
   };
+  document?: {
+    file_id: string;
+    file_name?: string;
+    mime_type?: string;
+    file_size?: number;
+  };
   from?: {
     id: number;
     username?: string;
     first_name: string;
+    language_code?: string;
+  };
+  location?: {
+    latitude: number;
+    longitude: number;
   };
   forward_from_chat?: {
     id: number;
@@ -51,10 +64,11 @@ interface TelegramMessage {
   };
 }
 
-interface TelegramUpdate {
+export interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
   channel_post?: TelegramMessage;
+  edited_channel_post?: TelegramMessage;
 }
 
 export interface ScrapedTelegramArticle {
@@ -68,22 +82,41 @@ export interface ScrapedTelegramArticle {
   publishedAt: number;
   tags: string[];
   createdAt: number;
+  editedAt?: number;
   channelName?: string;
   channelUsername?: string;
+  media?: DownloadedMedia[]; // Only when scraped with `downloadMedia`
 }
 
 let lastUpdateId = 0;
 
+/**
+ * Last confirmed update ID (persist it and pass it back to scrapeTelegram across cold starts)
+ */
+export function getLastUpdateId(): number {
+  return lastUpdateId;
+}
+
 /**
  * Scrape recent messages from Telegram channels
  * @param limit - Maximum number of messages to fetch (default: 20)
+ * @param sinceUpdateId - Persisted update cursor; only updates after it are requested
+ * @param downloadMedia - Download attached media instead of linking to it (file links expire)
  */
-export async function scrapeTelegram(limit: number = 20): Promise<ScrapedTelegramArticle[]> {
+export async function scrapeTelegram(
+  limit: number = 20,
+  sinceUpdateId?: number,
+  downloadMedia: boolean = false
+): Promise<ScrapedTelegramArticle[]> {
   if (!TELEGRAM_BOT_TOKEN) {
     logger.error('telegram_bot_token_not_configured');
     return [];
   }
 
+  if (sinceUpdateId && sinceUpdateId > lastUpdateId) {
+    lastUpdateId = sinceUpdateId;
+  }
+
   try {
     logger.info('telegram_scrape_started');
 
@@ -101,7 +134,8 @@ export async function scrapeTelegram(limit: number = 20): Promise<ScrapedTelegra
     const articles: ScrapedTelegramArticle[] = [];
 
     for (const update of updates) {
-      const message = update.channel_post || update.message;
+      // Edited posts come back with the same message_id; NewsService records them as revisions
+      const message = update.channel_post || update.edited_channel_post || update.message;
       if (!message) continue;
 
       // Only process channel posts or forwarded messages
@@ -109,7 +143,7 @@ export async function scrapeTelegram(limit: number = 20): Promise<ScrapedTelegra
         continue;
       }
 
-      const article = await transformMessageToArticle(message);
+      const article = await transformMessageToArticle(message, downloadMedia);
       if (article) {
         articles.push(article);
       }
@@ -141,7 +175,7 @@ async function getUpdates(): Promise<TelegramUpdate[]> {
       offset: (lastUpdateId + 1).toString(),
       limit: '100',
       timeout: '30',
-      allowed_updates: JSON.stringify(['message', 'channel_post']),
+      allowed_updates: JSON.stringify(['message', 'channel_post', 'edited_channel_post']),
     });
 
     const response = await fetch(`${url}?${params}`);
@@ -173,7 +207,8 @@ async function getUpdates(): Promise<TelegramUpdate[]> {
  * Transform Telegram message to article format
  */
 async function transformMessageToArticle(
-  message: TelegramMessage
+  message: TelegramMessage,
+  downloadMedia: boolean
 ): Promise<ScrapedTelegramArticle | null> {
   try {
     // Get message text (from text or caption)
@@ -210,7 +245,10 @@ async function transformMessageToArticle(
 
     // Extract image URL if available
     let imageUrl: string | undefined;
-    if (message.photo && message.photo.length > 0) {
+    let media: DownloadedMedia[] = [];
+    if (downloadMedia) {
+      media = await downloadMessageMedia(message);
+    } else if (message.photo && message.photo.length > 0) {
       // Get largest photo
       const largestPhoto = message.photo[message.photo.length - 1];
       imageUrl = await getFileUrl(largestPhoto.file_id);
@@ -237,8 +275,10 @@ async function transformMessageToArticle(
       publishedAt: message.date * 1000, // Convert to milliseconds
       tags: [...hashtags, 'telegram', channelName.toLowerCase().replace(/\s+/g, '-')],
       createdAt: Date.now(),
+      editedAt: message.edit_date ? message.edit_date * 1000 : undefined,
       channelName,
       channelUsername,
+      ...(media.length > 0 && { media }),
     };
 
   } catch (error) {
@@ -251,11 +291,12 @@ async function transformMessageToArticle(
 
 /**
  * Get file URL from Telegram
+ * The URL embeds the bot token: download from it, never store or show it.
  */
-async function getFileUrl(fileId: string): Promise<string | undefined> {
+export async function getFileUrl(fileId: string, token: string | undefined = TELEGRAM_BOT_TOKEN): Promise<string | undefined> {
   try {
     const response = await fetch(
-      `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/getFile?file_id=${fileId}`
+      `https://api.telegram.org/bot${token}/getFile?file_id=${fileId}`
     );
 
     const data = await response.json();
@@ -265,7 +306,7 @@ async function getFileUrl(fileId: string): Promise<string | undefined> {
     }
 
     const filePath = data.result.file_path;
-    return `https://api.telegram.org/file/bot${TELEGRAM_BOT_TOKEN}/${filePath}`;
+    return `https://api.telegram.org/file/bot${token}/${filePath}`;
 
   } catch (error) {
     logger.error('telegram_file_url_error', {
@@ -275,17 +316,67 @@ async function getFileUrl(fileId: string): Promise<string | undefined> {
   }
 }
 
+/**
+ * Download a file sent to the bot (null when missing, over 20 MB or unreachable)
+ */
+export async function downloadFile(fileId: string, token: string | undefined = TELEGRAM_BOT_TOKEN): Promise<Buffer | null> {
+  const fileUrl = await getFileUrl(fileId, token);
+  if (!fileUrl) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(fileUrl);
+    if (!response.ok) {
+      logger.warn('telegram_file_download_failed', { status: response.status });
+      return null;
+    }
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    logger.error('telegram_file_download_error', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return null;
+  }
+}
+
+/**
+ * Download a message's largest photo, video thumbnail or document (documents up to MAX_MEDIA_BYTES)
+ */
+async function downloadMessageMedia(message: TelegramMessage): Promise<DownloadedMedia[]> {
+  let item: Omit<DownloadedMedia, 'data'> & { fileId: string };
+
+  if (message.photo && message.photo.length > 0) {
+    item = { kind: 'photo', mimeType: 'image/jpeg', fileId: message.photo[message.photo.length - 1].file_id };
+  } else if (message.video?.thumbnail) {
+    item = { kind: 'video_thumbnail', mimeType: 'image/jpeg', fileId: message.video.thumbnail.file_id };
+  } else if (message.document && (message.document.file_size ?? 0) <= MAX_MEDIA_BYTES) {
+    item = {
+      kind: 'document',
+      mimeType: message.document.mime_type || 'application/octet-stream',
+      fileId: message.document.file_id,
+      ...(message.document.file_name && { fileName: message.document.file_name }),
+    };
+  } else {
+    return [];
+  }
+
+  const { fileId, ...media } = item;
+  const data = await downloadFile(fileId);
+  return data ? [{ ...media, data }] : [];
+}
+
 /**
  * Get bot info (for testing connection)
  */
-export async function getBotInfo() {
-  if (!TELEGRAM_BOT_TOKEN) {
+export async function getBotInfo(token: string | undefined = TELEGRAM_BOT_TOKEN) {
+  if (!token) {
     return { error: 'Bot token not configured' };
   }
 
   try {
     const response = await fetch(
-      `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/getMe`
+      `https://api.telegram.org/bot${token}/getMe`
     );
 
     const data = await response.json();
@@ -308,21 +399,27 @@ export async function getBotInfo() {
 
 /**
  * Set webhook for receiving updates (alternative to polling)
+ * @param options.secretToken - Echoed by Telegram in the X-Telegram-Bot-Api-Secret-Token header
  */
-export async function setWebhook(webhookUrl: string) {
-  if (!TELEGRAM_BOT_TOKEN) {
+export async function setWebhook(
+  webhookUrl: string,
+  options: { token?: string; secretToken?: string; allowedUpdates?: string[] } = {}
+) {
+  const token = options.token ?? TELEGRAM_BOT_TOKEN;
+  if (!token) {
     return { error: 'Bot token not configured' };
   }
 
   try {
     const response = await fetch(
-      `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/setWebhook`,
+      `https://api.telegram.org/bot${token}/setWebhook`,
       {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           url: webhookUrl,
-          allowed_updates: ['message', 'channel_post'],
+          allowed_updates: options.allowedUpdates ?? ['message', 'channel_post', 'edited_channel_post'],
+          ...(options.secretToken && { secret_token: options.secretToken }),
         }),
       }
     );
@@ -344,18 +441,65 @@ export async function setWebhook(webhookUrl: string) {
 /**
  * Delete webhook (use polling instead)
  */
-export async function deleteWebhook() {
-  if (!TELEGRAM_BOT_TOKEN) {
+export async function deleteWebhook(token: string | undefined = TELEGRAM_BOT_TOKEN) {
+  if (!token) {
+    return { error: 'Bot token not configured' };
+  }
+
+  try {
+    const response = await fetch(
+      `https://api.telegram.org/bot${token}/deleteWebhook`
+    );
+
+    const data = await response.json();
+
+    return {
+      success: data.ok,
+      description: data.description,
+    };
+
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Send a message from the bot to a chat
+ * @param replyMarkup - Telegram reply_markup (keyboard or keyboard removal)
+ */
+export async function sendBotMessage(
+  chatId: number | string,
+  text: string,
+  options: { token?: string; replyMarkup?: Record<string, unknown>; disablePreview?: boolean } = {}
+) {
+  const token = options.token ?? TELEGRAM_BOT_TOKEN;
+  if (!token) {
     return { error: 'Bot token not configured' };
   }
 
   try {
     const response = await fetch(
-      `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/deleteWebhook`
+      `https://api.telegram.org/bot${token}/sendMessage`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text,
+          ...(options.replyMarkup && { reply_markup: options.replyMarkup }),
+          ...(options.disablePreview && { link_preview_options: { is_disabled: true } }),
+        }),
+      }
     );
 
     const data = await response.json();
 
+    if (!data.ok) {
+      logger.warn('telegram_send_message_failed', { chat_id: chatId, description: data.description });
+    }
+
     return {
       success: data.ok,
       description: data.description,
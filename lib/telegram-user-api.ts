@@ -30,6 +30,7 @@ import { TelegramClient } from 'telegram';
 import { StringSession } from 'telegram/sessions';
 import { NewMessage, NewMessageEvent } from 'telegram/events';
 import { Api } from 'telegram/tl';
+import { DownloadedMedia, MAX_MEDIA_BYTES } from './domain/media';
 import { logger } from './logger';
 
 /**
@@ -103,6 +104,14 @@ export interface TelegramArticle {
   publishedAt: number;
   channelName: string;
   channelUsername: string;
+  messageId: number;
+  editedAt?: number;
+  media?: DownloadedMedia[]; // Only when requested with `downloadMedia`
+}
+
+export interface TelegramFetchOptions {
+  /** Download photos, video thumbnails and documents (up to MAX_MEDIA_BYTES) with each post */
+  downloadMedia?: boolean;
 }
 
 /**
@@ -146,30 +155,99 @@ export async function initTelegramClient(): Promise<TelegramClient> {
   return client;
 }
 
+export interface TelegramFetchResult {
+  articles: TelegramArticle[];
+  /** Newest message ID read per channel, including messages filtered out by keyword */
+  lastMessageIds: Record<string, number>;
+  /** False when a channel's backlog was longer than MAX_CATCH_UP_PAGES; fetch again from lastMessageIds */
+  complete: boolean;
+}
+
+// Messages just behind the cursor are re-read so later edits to them are picked up
+export const EDIT_RECHECK_MESSAGES = 20;
+
+// Messages per request when paging forward from a cursor
+export const CATCH_UP_PAGE_SIZE = 100;
+
+// Pages read per channel per call; a longer backlog continues from the new cursor next time
+export const MAX_CATCH_UP_PAGES = 5;
+
+// Messages read for a channel without a cursor (newest first, within `hoursAgo`)
+const INITIAL_MESSAGES = 50;
+
 /**
- * Fetch recent messages from monitored channels
+ * Read a channel from just behind the cursor forward, oldest first, until caught up
+ * or MAX_CATCH_UP_PAGES pages have been read
  */
-export async function fetchRecentMessages(
+async function readForward(client: TelegramClient, channel: Api.TypeEntityLike, cursor: number) {
+  const messages: Api.Message[] = [];
+  let minId = Math.max(0, cursor - EDIT_RECHECK_MESSAGES);
+
+  for (let page = 0; page < MAX_CATCH_UP_PAGES; page++) {
+    const batch = await client.getMessages(channel, { reverse: true, minId, limit: CATCH_UP_PAGE_SIZE });
+    messages.push(...batch);
+    if (batch.length < CATCH_UP_PAGE_SIZE) {
+      return { messages, caughtUp: true };
+    }
+    minId = batch[batch.length - 1].id;
+  }
+  return { messages, caughtUp: false };
+}
+
+/**
+ * Fetch messages newer than the given per-channel cursors from monitored channels
+ * Channels without a cursor fall back to the last `hoursAgo` hours
+ * Channels with one are read forward from it, however old the messages; the
+ * returned cursor is the newest message actually read, so a backlog too long
+ * for one call continues where it stopped
+ * The last EDIT_RECHECK_MESSAGES before the cursor are also returned if they were edited
+ */
+export async function fetchChannelUpdates(
   client: TelegramClient,
-  hoursAgo: number = 24
-): Promise<TelegramArticle[]> {
+  lastMessageIds: Record<string, number> = {},
+  hoursAgo: number = 24,
+  options: TelegramFetchOptions = {}
+): Promise<TelegramFetchResult> {
   const articles: TelegramArticle[] = [];
+  const newestIds: Record<string, number> = { ...lastMessageIds };
+  let complete = true;
   const cutoffTime = Date.now() - hoursAgo * 60 * 60 * 1000;
 
   for (const channelUsername of MONITORED_CHANNELS) {
     try {
       const channel = await client.getEntity(channelUsername);
+      const minId = lastMessageIds[channelUsername];
+
+      let messages: Api.Message[];
+      if (minId) {
+        const read = await readForward(client, channel, minId);
+        messages = read.messages;
+        if (!read.caughtUp) {
+          complete = false;
+          logger.warn('telegram_catch_up_incomplete', {
+            channel: channelUsername,
+            min_id: minId,
+            read: messages.length,
+          });
+        }
+      } else {
+        messages = await client.getMessages(channel, { limit: INITIAL_MESSAGES });
+      }
 
-      // Get last 50 messages
-      const messages = await client.getMessages(channel, {
-        limit: 50,
-      });
+      let channelCount = 0;
 
       for (const message of messages) {
+        if (message.id > (newestIds[channelUsername] || 0)) {
+          newestIds[channelUsername] = message.id;
+        }
+
         if (!message.text) continue;
 
-        // Filter by timestamp
-        if (message.date * 1000 < cutoffTime) continue;
+        // Already ingested and unchanged since
+        if (minId && message.id <= minId && !message.editDate) continue;
+
+        // Filter by timestamp (a cursor already says where the unread messages start)
+        if (!minId && message.date * 1000 < cutoffTime) continue;
 
         // Filter by uprising keywords
         const containsKeyword = UPRISING_KEYWORDS.some(keyword =>
@@ -179,15 +257,18 @@ export async function fetchRecentMessages(
         if (!containsKeyword) continue;
 
         // Extract article data
-        const article = await messageToArticle(message, channel, channelUsername);
+        const article = await messageToArticle(message, channel, channelUsername, options.downloadMedia ? client : undefined);
         if (article) {
           articles.push(article);
+          channelCount++;
         }
       }
 
       logger.info('telegram_messages_fetched', {
         channel: channelUsername,
-        messages_count: articles.length,
+        messages_count: channelCount,
+        fetched: messages.length,
+        min_id: minId,
       });
     } catch (error) {
       logger.error('telegram_fetch_failed', {
@@ -198,16 +279,81 @@ export async function fetchRecentMessages(
     }
   }
 
+  return { articles, lastMessageIds: newestIds, complete };
+}
+
+/**
+ * Fetch recent messages from monitored channels
+ * Pass `lastMessageIds` to ask only for messages newer than each channel's cursor
+ */
+export async function fetchRecentMessages(
+  client: TelegramClient,
+  hoursAgo: number = 24,
+  lastMessageIds: Record<string, number> = {}
+): Promise<TelegramArticle[]> {
+  const { articles } = await fetchChannelUpdates(client, lastMessageIds, hoursAgo);
   return articles;
 }
 
+/**
+ * Download the media attached to a message
+ * Photos at their largest size; videos as their thumbnail; other documents in full
+ * when under MAX_MEDIA_BYTES. Failures are logged and skipped.
+ */
+async function downloadMessageMedia(client: TelegramClient, message: Api.Message): Promise<DownloadedMedia[]> {
+  const media = message.media;
+  if (!media) return [];
+
+  const download = async (item: Omit<DownloadedMedia, 'data'>, thumb?: Api.TypePhotoSize): Promise<DownloadedMedia[]> => {
+    try {
+      const data = await client.downloadMedia(media, thumb === undefined ? {} : { thumb });
+      return Buffer.isBuffer(data) && data.length > 0 ? [{ ...item, data }] : [];
+    } catch (error) {
+      logger.warn('telegram_media_download_failed', {
+        message_id: message.id,
+        kind: item.kind,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  };
+
+  if (media instanceof Api.MessageMediaPhoto) {
+    return download({ kind: 'photo', mimeType: 'image/jpeg' });
+  }
+
+  if (media instanceof Api.MessageMediaDocument && media.document instanceof Api.Document) {
+    const document = media.document;
+
+    if (document.mimeType.startsWith('video/')) {
+      const thumbs = document.thumbs?.filter(thumb => thumb instanceof Api.PhotoSize) ?? [];
+      if (thumbs.length === 0) return [];
+      return download({ kind: 'video_thumbnail', mimeType: 'image/jpeg' }, thumbs[thumbs.length - 1]);
+    }
+
+    if (Number(document.size) > MAX_MEDIA_BYTES) {
+      logger.debug('telegram_media_too_large', { message_id: message.id, size: Number(document.size) });
+      return [];
+    }
+
+    const fileName = document.attributes
+      .find((attribute): attribute is Api.DocumentAttributeFilename => attribute instanceof Api.DocumentAttributeFilename)
+      ?.fileName;
+    return download({ kind: 'document', mimeType: document.mimeType, ...(fileName && { fileName }) });
+  }
+
+  return [];
+}
+
 /**
  * Convert Telegram message to article format
+ * With a client, the message's media is downloaded too
  */
 async function messageToArticle(
   message: Api.Message,
   channel: any,
-  channelUsername: string
+  channelUsername: string,
+  client?: TelegramClient
 ): Promise<TelegramArticle | null> {
   if (!message.text) return null;
 
@@ -217,16 +363,8 @@ async function messageToArticle(
   const summary = lines.slice(0, 3).join(' ').substring(0, 300);
   const content = message.text;
 
-  // Extract image URL if exists
-  let imageUrl: string | undefined;
-  if (message.media) {
-    // Handle different media types
-    if (message.media instanceof Api.MessageMediaPhoto) {
-      // Photo media - would need to download and upload to CDN
-      // For now, we'll skip the image extraction
-      imageUrl = undefined;
-    }
-  }
+  // Media links on t.me are not stable; the bytes are downloaded and stored instead
+  const media = client ? await downloadMessageMedia(client, message) : [];
 
   // Get published timestamp
   const publishedAt = message.date * 1000;
@@ -241,24 +379,29 @@ async function messageToArticle(
     title,
     summary,
     content,
-    imageUrl,
     source: 'Telegram',
     sourceUrl,
     publishedAt,
     channelName: channel.title || channelUsername,
     channelUsername,
+    messageId,
+    editedAt: message.editDate ? message.editDate * 1000 : undefined,
+    ...(media.length > 0 && { media }),
   };
 }
 
 /**
  * Start real-time listener for new messages
+ * Returns a function that removes the listener
  */
 export async function startRealtimeListener(
   client: TelegramClient,
-  onNewArticle: (article: TelegramArticle) => void
-) {
-  // Add event handler for new messages
-  client.addEventHandler(async (event: NewMessageEvent) => {
+  onNewArticle: (article: TelegramArticle) => void | Promise<void>,
+  options: TelegramFetchOptions = {}
+): Promise<() => void> {
+  const filter = new NewMessage({});
+
+  const handler = async (event: NewMessageEvent) => {
     const message = event.message;
     if (!message.text) return;
 
@@ -280,20 +423,31 @@ export async function startRealtimeListener(
     if (!MONITORED_CHANNELS.includes(channelUsername)) return;
 
     // Convert to article and callback
-    const article = await messageToArticle(message, channel, channelUsername);
+    const article = await messageToArticle(message, channel, channelUsername, options.downloadMedia ? client : undefined);
     if (article) {
       logger.info('telegram_new_article', {
         channel: channelUsername,
         title: article.title.substring(0, 100),
         article_id: article.id,
       });
-      onNewArticle(article);
+      try {
+        await onNewArticle(article);
+      } catch (error) {
+        logger.error('telegram_new_article_handler_failed', {
+          article_id: article.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
     }
-  }, new NewMessage({}));
+  };
+
+  client.addEventHandler(handler, filter);
 
   logger.info('telegram_listener_started', {
     monitored_channels: MONITORED_CHANNELS.length,
   });
+
+  return () => client.removeEventHandler(handler, filter);
 }
 
 /**
@@ -0,0 +1,117 @@
+/**
+ * Word-level text diff
+ * Used to record what changed between revisions of an edited article
+ * (e.g. a Telegram post whose casualty figures were updated after publication)
+ */
+
+export interface DiffOp {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;   // Words inserted
+  removed: number; // Words deleted
+}
+
+// Above this many LCS cells the diff falls back to replace-all (keeps memory bounded)
+const MAX_LCS_CELLS = 1_000_000;
+
+/**
+ * Split text into words and whitespace runs, so joining the tokens restores the text
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function pushOp(ops: DiffOp[], op: DiffOp['op'], text: string): void {
+  if (!text) return;
+
+  const last = ops[ops.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    ops.push({ op, text });
+  }
+}
+
+/**
+ * Diff two texts word by word
+ * Concatenating the `equal` + `delete` ops yields `before`; `equal` + `insert` yields `after`
+ */
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Trim the common prefix and suffix; edits are usually small and local
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [];
+  pushOp(ops, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    pushOp(ops, 'delete', midA.join(''));
+    pushOp(ops, 'insert', midB.join(''));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+      new Array<number>(midB.length + 1).fill(0)
+    );
+
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushOp(ops, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        pushOp(ops, 'delete', midA[i++]);
+      } else {
+        pushOp(ops, 'insert', midB[j++]);
+      }
+    }
+    pushOp(ops, 'delete', midA.slice(i).join(''));
+    pushOp(ops, 'insert', midB.slice(j).join(''));
+  }
+
+  pushOp(ops, 'equal', a.slice(endA).join(''));
+  return ops;
+}
+
+/**
+ * Count words added and removed by a diff (whitespace-only changes count as zero)
+ */
+export function getDiffStats(ops: DiffOp[]): DiffStats {
+  const countWords = (text: string) => (text.match(/[^\s]+/g) || []).length;
+
+  return ops.reduce(
+    (stats, { op, text }) => {
+      if (op === 'insert') stats.added += countWords(text);
+      if (op === 'delete') stats.removed += countWords(text);
+      return stats;
+    },
+    { added: 0, removed: 0 }
+  );
+}
@@ -6,37 +6,133 @@
  * Tier 2: MyMemory Free API (good quality, 1000 chars/day free)
  * Tier 3: LibreTranslate (open source, can self-host)
  * Tier 4: Client-side dictionary for critical phrases
+ *
+ * Text is split into sentences (lib/translation-segmenter.ts) and each sentence
+ * falls through the tiers on its own; links, handles and names are kept as-is.
+ * A tier that does not offer a language (see PROVIDER_LANGUAGE_CODES) is skipped.
  */
 
+import { createHash } from 'crypto';
 import { TranslationServiceClient } from '@google-cloud/translate';
 import { logger } from '@/lib/logger';
+import {
+  segmentText,
+  protectTokens,
+  restoreTokens,
+  TextSegment,
+  ProtectedText,
+  DEFAULT_SEGMENT_MAX_BYTES,
+} from '@/lib/translation-segmenter';
+import { identifyLanguage, LANGUAGES, SupportedLanguage } from '@/lib/language-id';
+
+export type { SupportedLanguage };
+
+/**
+ * Tiers from best to worst quality (the order they are tried in)
+ */
+export const TRANSLATION_TIERS = ['google', 'mymemory', 'libretranslate', 'dictionary'] as const;
+
+export type TranslationTier = typeof TRANSLATION_TIERS[number];
+
+/**
+ * A piece of a translation and the tier that produced it
+ * Text passed through untranslated (whitespace, links, handles) has no tier
+ */
+export interface TranslatedSegment {
+  text: string;
+  tier?: TranslationTier;
+}
+
+/**
+ * A glossary term found in the text: every tier renders `source` (as written) as `target`
+ */
+export interface TermConstraint {
+  termId: string;
+  source: string;
+  target: string;
+  transliterated?: boolean; // A name romanized by rule rather than a curated term
+}
 
-export type SupportedLanguage = 'fa' | 'en';
+/**
+ * A glossary term applied in a translation, and how many times
+ */
+export interface GlossaryHit extends TermConstraint {
+  count: number;
+}
 
-interface TranslationResult {
+export interface TranslationResult {
   translatedText: string;
   detectedLanguage?: string;
-  tier?: 'google' | 'mymemory' | 'libretranslate' | 'dictionary' | 'cache';
+  tier?: TranslationTier | 'cache'; // The lowest tier any segment needed
+  segments?: TranslatedSegment[]; // Concatenated, the segment texts are translatedText
+  glossaryHits?: GlossaryHit[];
 }
 
 // In-memory cache (persists across requests in same process)
-const translationCache = new Map<string, { text: string; timestamp: number; tier: string }>();
+const translationCache = new Map<string, {
+  text: string;
+  timestamp: number;
+  tier: TranslationTier;
+  segments?: TranslatedSegment[];
+  glossaryHits?: GlossaryHit[];
+}>();
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours for reliability
 
-function getCacheKey(text: string, sourceLang: string, targetLang: string): string {
-  // Use hash for long texts to keep key size reasonable
-  const textKey = text.length > 100 ? text.substring(0, 100) : text;
-  return `${sourceLang}-${targetLang}-${textKey}`;
+/**
+ * Key for a translation: language pair plus a hash of the full text
+ */
+export function getTranslationKey(text: string, sourceLang: string, targetLang: string): string {
+  const textHash = createHash('sha256').update(text).digest('hex');
+  return `${sourceLang}-${targetLang}-${textHash}`;
+}
+
+/**
+ * Higher is better; 'cache' (same language, empty text) ranks above every tier
+ */
+export function tierRank(tier: TranslationTier | 'cache'): number {
+  return tier === 'cache' ? TRANSLATION_TIERS.length : TRANSLATION_TIERS.length - 1 - TRANSLATION_TIERS.indexOf(tier);
+}
+
+// Per-request timeout for the HTTP tiers; segments keep requests short
+const TIER_TIMEOUT_MS = 15000;
+
+/**
+ * Each API tier's code for a language; a missing language is not offered by that tier
+ * South Azerbaijani goes to the providers' Azerbaijani (they read the Arabic script too)
+ */
+const PROVIDER_LANGUAGE_CODES: Record<Exclude<TranslationTier, 'dictionary'>, Partial<Record<SupportedLanguage, string>>> = {
+  google: { en: 'en', fa: 'fa', ckb: 'ckb', kmr: 'ku', azb: 'az', ar: 'ar', bal: 'bal' },
+  mymemory: { en: 'en', fa: 'fa', ckb: 'ckb', kmr: 'ku', azb: 'az', ar: 'ar' },
+  libretranslate: { en: 'en', fa: 'fa', azb: 'az', ar: 'ar' },
+};
+
+/**
+ * The tier's codes for a language pair, or null when it cannot translate between them
+ */
+function providerLanguages(
+  tier: Exclude<TranslationTier, 'dictionary'>,
+  sourceLang: SupportedLanguage,
+  targetLang: SupportedLanguage
+): { source: string; target: string } | null {
+  const source = PROVIDER_LANGUAGE_CODES[tier][sourceLang];
+  const target = PROVIDER_LANGUAGE_CODES[tier][targetLang];
+  return source && target ? { source, target } : null;
 }
 
 /**
  * Tier 1: Google Cloud Translation
+ * Takes a whole batch of segments in one request
  */
 async function translateWithGoogle(
-  text: string,
+  texts: string[],
   sourceLang: SupportedLanguage,
   targetLang: SupportedLanguage
-): Promise<TranslationResult | null> {
+): Promise<Array<string | null> | null> {
+  const languages = providerLanguages('google', sourceLang, targetLang);
+  if (!languages) {
+    return null;
+  }
+
   try {
     // Check if credentials are available
     const hasServiceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
@@ -65,22 +161,13 @@ async function translateWithGoogle(
 
     const [response] = await client.translateText({
       parent,
-      contents: [text],
+      contents: texts,
       mimeType: 'text/plain',
-      sourceLanguageCode: sourceLang,
-      targetLanguageCode: targetLang,
+      sourceLanguageCode: languages.source,
+      targetLanguageCode: languages.target,
     });
 
-    const translatedText = response.translations?.[0]?.translatedText;
-    if (translatedText) {
-      return {
-        translatedText,
-        detectedLanguage: response.translations?.[0]?.detectedLanguageCode || sourceLang,
-        tier: 'google',
-      };
-    }
-
-    return null;
+    return texts.map((_, i) => response.translations?.[i]?.translatedText || null);
   } catch (error) {
     logger.error('google_translation_failed', {
       error: error instanceof Error ? error.message : 'Unknown error'
@@ -92,56 +179,84 @@ async function translateWithGoogle(
 /**
  * Tier 2: MyMemory Free Translation API
  * Free tier: 1000 words/day, no API key required
+ * One query per request (max 500 bytes): a batch is sent as lines of one query,
+ * and segment by segment if the line count does not survive translation. The
+ * segment queries run in parallel under one shared timeout, so the fallback
+ * costs at most one more request's time.
  */
 async function translateWithMyMemory(
-  text: string,
+  texts: string[],
   sourceLang: SupportedLanguage,
   targetLang: SupportedLanguage
-): Promise<TranslationResult | null> {
-  try {
-    // MyMemory API endpoint
-    const url = new URL('https://api.mymemory.translated.net/get');
-    url.searchParams.set('q', text.substring(0, 500)); // API limit
-    url.searchParams.set('langpair', `${sourceLang}|${targetLang}`);
+): Promise<Array<string | null> | null> {
+  const languages = providerLanguages('mymemory', sourceLang, targetLang);
+  if (!languages) {
+    return null;
+  }
 
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'PersianUprisingNews/1.0',
-      },
-    });
+  const query = async (q: string, signal: AbortSignal): Promise<string | null> => {
+    try {
+      // MyMemory API endpoint
+      const url = new URL('https://api.mymemory.translated.net/get');
+      url.searchParams.set('q', q);
+      url.searchParams.set('langpair', `${languages.source}|${languages.target}`);
+
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: {
+          'User-Agent': 'PersianUprisingNews/1.0',
+        },
+        signal,
+      });
 
-    if (!response.ok) {
-      return null;
-    }
+      if (!response.ok) {
+        return null;
+      }
 
-    const data = await response.json();
+      const data = await response.json();
+
+      if (data.responseStatus === 200 && data.responseData?.translatedText) {
+        return data.responseData.translatedText;
+      }
 
-    if (data.responseStatus === 200 && data.responseData?.translatedText) {
-      return {
-        translatedText: data.responseData.translatedText,
-        detectedLanguage: sourceLang,
-        tier: 'mymemory',
-      };
+      return null;
+    } catch (error) {
+      logger.error('mymemory_translation_failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
     }
+  };
 
+  const joined = await query(texts.join('\n'), AbortSignal.timeout(TIER_TIMEOUT_MS));
+  if (joined === null) {
     return null;
-  } catch (error) {
-    logger.error('mymemory_translation_failed', {
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-    return null;
   }
+
+  const lines = joined.split('\n');
+  if (lines.length === texts.length) {
+    return lines;
+  }
+
+  logger.debug('mymemory_batch_lines_mismatch', { sent: texts.length, received: lines.length });
+  const fallbackSignal = AbortSignal.timeout(TIER_TIMEOUT_MS);
+  return Promise.all(texts.map(text => query(text, fallbackSignal)));
 }
 
 /**
  * Tier 3: LibreTranslate (can use public instance or self-host)
+ * Takes a whole batch of segments in one request
  */
 async function translateWithLibreTranslate(
-  text: string,
+  texts: string[],
   sourceLang: SupportedLanguage,
   targetLang: SupportedLanguage
-): Promise<TranslationResult | null> {
+): Promise<Array<string | null> | null> {
+  const languages = providerLanguages('libretranslate', sourceLang, targetLang);
+  if (!languages) {
+    return null;
+  }
+
   try {
     // Use public instance or custom instance from env
     const apiUrl = process.env.LIBRETRANSLATE_URL || 'https://libretranslate.com/translate';
@@ -152,11 +267,12 @@ async function translateWithLibreTranslate(
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        q: text.substring(0, 5000),
-        source: sourceLang,
-        target: targetLang,
+        q: texts,
+        source: languages.source,
+        target: languages.target,
         format: 'text',
       }),
+      signal: AbortSignal.timeout(TIER_TIMEOUT_MS),
     });
 
     if (!response.ok) {
@@ -165,12 +281,8 @@ async function translateWithLibreTranslate(
 
     const data = await response.json();
 
-    if (data.translatedText) {
-      return {
-        translatedText: data.translatedText,
-        detectedLanguage: sourceLang,
-        tier: 'libretranslate',
-      };
+    if (Array.isArray(data.translatedText)) {
+      return texts.map((_, i) => data.translatedText[i] || null);
     }
 
     return null;
@@ -225,11 +337,14 @@ const criticalPhrasesDictionary: Record<string, Record<string, string>> = {
   },
 };
 
-function translateWithDictionary(
+/**
+ * Replace the dictionary's phrases in text; counts how many phrases matched
+ */
+function replaceDictionaryPhrases(
   text: string,
   sourceLang: SupportedLanguage,
   targetLang: SupportedLanguage
-): TranslationResult {
+): { text: string; matchedCount: number } {
   const dictionaryKey = `${sourceLang}-${targetLang}`;
   const dictionary = criticalPhrasesDictionary[dictionaryKey] || {};
 
@@ -244,30 +359,223 @@ function translateWithDictionary(
     }
   }
 
+  return { text: translatedText, matchedCount };
+}
+
+/**
+ * The result when every sentence fell through to the dictionary
+ */
+function dictionaryResult(dictionaryText: string, originalText: string, matchedCount: number): TranslationResult {
   // If we matched some phrases, it's better than nothing
-  if (matchedCount > 0) {
-    return {
-      translatedText: `[Dictionary Translation] ${translatedText}`,
-      tier: 'dictionary',
-    };
-  }
+  const translatedText = matchedCount > 0
+    ? `[Dictionary Translation] ${dictionaryText}`
+    // Absolute last resort: return original with warning
+    : `[Original: Translation services temporarily unavailable] ${originalText}`;
 
-  // Absolute last resort: return original with warning
   return {
-    translatedText: `[Original: Translation services temporarily unavailable] ${text}`,
+    translatedText,
     tier: 'dictionary',
+    segments: [{ text: translatedText, tier: 'dictionary' }],
+  };
+}
+
+/**
+ * Translates a batch of segments; null for the segments it could not translate,
+ * or null overall when the tier is unavailable
+ */
+type TierTranslator = (
+  texts: string[],
+  sourceLang: SupportedLanguage,
+  targetLang: SupportedLanguage
+) => Promise<Array<string | null> | null>;
+
+interface ApiTier {
+  tier: Exclude<TranslationTier, 'dictionary'>;
+  translate: TierTranslator;
+  maxBatchSize: number; // Segments per request
+  maxBatchBytes: number; // UTF-8 size of the segments in one request
+}
+
+// The API tiers in order; the dictionary is the fallback after all of them
+const API_TIERS: ApiTier[] = [
+  { tier: 'google', translate: translateWithGoogle, maxBatchSize: 128, maxBatchBytes: 25000 },
+  { tier: 'mymemory', translate: translateWithMyMemory, maxBatchSize: 20, maxBatchBytes: DEFAULT_SEGMENT_MAX_BYTES },
+  { tier: 'libretranslate', translate: translateWithLibreTranslate, maxBatchSize: 50, maxBatchBytes: 5000 },
+];
+
+/**
+ * Group segments into the tier's request size (a segment too large on its own gets its own batch)
+ */
+function toBatches(texts: string[], tier: ApiTier): string[][] {
+  const encoder = new TextEncoder();
+  const batches: string[][] = [];
+  let batch: string[] = [];
+  let bytes = 0;
+
+  for (const text of texts) {
+    const size = encoder.encode(text).length + 1; // Plus a line break when joined
+    if (batch.length > 0 && (batch.length >= tier.maxBatchSize || bytes + size > tier.maxBatchBytes)) {
+      batches.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(text);
+    bytes += size;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+interface SegmentedText {
+  segments: TextSegment[];
+  protectedTexts: ProtectedText[]; // Each segment with placeholders for its protected tokens
+  replacements: string[][]; // What each placeholder becomes in the translation
+  glossaryHits: GlossaryHit[];
+}
+
+/**
+ * Split text into segments and resolve the glossary: a protected token that is a
+ * glossary term is replaced by its target, every other token is kept as-is
+ */
+function prepareSegments(text: string, sourceLang: SupportedLanguage, glossary: TermConstraint[]): SegmentedText {
+  const options = { protectLatin: LANGUAGES[sourceLang].script === 'arabic', terms: glossary.map(({ source }) => source) };
+  const constraints = new Map(glossary.map(constraint => [constraint.source.toLowerCase(), constraint]));
+  const hits = new Map<string, GlossaryHit>();
+
+  const segments = segmentText(text, options);
+  const protectedTexts = segments.map(segment => protectTokens(segment.text, options));
+  const replacements = protectedTexts.map(({ tokens }) => tokens.map(token => {
+    const constraint = constraints.get(token.toLowerCase());
+    if (!constraint) {
+      return token;
+    }
+    const hit = hits.get(constraint.termId) ?? { ...constraint, count: 0 };
+    hits.set(constraint.termId, { ...hit, count: hit.count + 1 });
+    return constraint.target;
+  }));
+
+  return { segments, protectedTexts, replacements, glossaryHits: [...hits.values()] };
+}
+
+/**
+ * Translate segments with the API tiers better than `below` (all of them by default)
+ * Each tier gets the segments the tiers before it could not translate, in batches.
+ * Returns one entry per segment: the translation, or null when no tier translated it.
+ */
+async function translateSegmentsWithApis(
+  prepared: SegmentedText,
+  sourceLang: SupportedLanguage,
+  targetLang: SupportedLanguage,
+  below?: TranslationTier
+): Promise<Array<TranslatedSegment | null>> {
+  const { segments, protectedTexts, replacements } = prepared;
+  const tiers = below ? API_TIERS.filter(({ tier }) => tierRank(tier) > tierRank(below)) : API_TIERS;
+
+  // Untranslatable segments still get their glossary terms
+  const translations: Array<TranslatedSegment | null> = segments.map((segment, i) => (
+    segment.translatable ? null : { text: restoreTokens(protectedTexts[i].text, replacements[i]) ?? segment.text }
+  ));
+
+  for (const apiTier of tiers) {
+    const pending = translations.flatMap((translation, i) => (translation ? [] : [i]));
+    if (pending.length === 0) {
+      break;
+    }
+
+    let offset = 0;
+    let translated = 0;
+    for (const batch of toBatches(pending.map(i => protectedTexts[i].text), apiTier)) {
+      const outputs = await apiTier.translate(batch, sourceLang, targetLang);
+      batch.forEach((_, n) => {
+        const i = pending[offset + n];
+        const output = outputs?.[n];
+        const restored = output ? restoreTokens(output, replacements[i]) : null;
+        if (restored && restored.trim()) {
+          translations[i] = { text: restored.trim(), tier: apiTier.tier };
+          translated++;
+        }
+      });
+      offset += batch.length;
+    }
+
+    if (translated > 0) {
+      logger.info('translation_tier_succeeded', {
+        tier: apiTier.tier,
+        segments_translated: translated,
+        segments_remaining: pending.length - translated,
+      });
+    }
+  }
+
+  return translations;
+}
+
+/**
+ * Join translated segments into a result; the overall tier is the worst segment's
+ */
+function assembleSegments(translations: TranslatedSegment[], glossaryHits: GlossaryHit[]): TranslationResult {
+  const tiers = translations.flatMap(({ tier }) => (tier ? [tier] : []));
+  const worst = tiers.reduce<TranslationTier | 'cache'>(
+    (lowest, tier) => (tierRank(tier) < tierRank(lowest) ? tier : lowest),
+    'cache'
+  );
+
+  return {
+    translatedText: translations.map(({ text }) => text).join(''),
+    tier: worst,
+    segments: translations,
+    ...(glossaryHits.length > 0 && { glossaryHits }),
   };
 }
 
+function cacheResult(key: string, result: TranslationResult): void {
+  if (result.tier && result.tier !== 'cache') {
+    translationCache.set(key, {
+      text: result.translatedText,
+      timestamp: Date.now(),
+      tier: result.tier,
+      segments: result.segments,
+      glossaryHits: result.glossaryHits,
+    });
+  }
+}
+
+/**
+ * Identifies the set of glossary terms a text was translated with ('' for none)
+ */
+export function glossaryFingerprint(glossary: TermConstraint[]): string {
+  const terms = glossary.map(({ source, target }) => `${source}=${target}`).sort().join('|');
+  return terms && createHash('sha256').update(terms).digest('hex').slice(0, 16);
+}
+
+function cacheKey(text: string, sourceLang: SupportedLanguage, targetLang: SupportedLanguage, glossary: TermConstraint[]): string {
+  const fingerprint = glossaryFingerprint(glossary);
+  return `${getTranslationKey(text, sourceLang, targetLang)}${fingerprint && `:${fingerprint}`}`;
+}
+
+function logGlossaryHits(glossaryHits: GlossaryHit[] | undefined): void {
+  if (glossaryHits && glossaryHits.length > 0) {
+    logger.debug('translation_glossary_applied', {
+      terms: glossaryHits.map(({ termId, count }) => `${termId}x${count}`).join(','),
+    });
+  }
+}
+
 /**
  * MAIN TRANSLATION FUNCTION
- * Tries all tiers in sequence until success
+ * Translates sentence by sentence: each sentence goes to the tiers in sequence
+ * until one succeeds, so a long post is not lost to one tier's limits
+ * `glossary` terms are rendered as given on every tier, the dictionary included
  * NEVER throws an error - always returns something
  */
 export async function translateText(
   text: string,
   sourceLang: SupportedLanguage,
-  targetLang: SupportedLanguage
+  targetLang: SupportedLanguage,
+  glossary: TermConstraint[] = []
 ): Promise<TranslationResult> {
   // Quick exit if same language
   if (sourceLang === targetLang) {
@@ -280,72 +588,90 @@ export async function translateText(
   }
 
   // Check cache first
-  const cacheKey = getCacheKey(text, sourceLang, targetLang);
-  const cached = translationCache.get(cacheKey);
+  const key = cacheKey(text, sourceLang, targetLang, glossary);
+  const cached = translationCache.get(key);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
     logger.debug('translation_cache_hit', { tier: cached.tier });
-    return { translatedText: cached.text, tier: cached.tier as any };
+    return { translatedText: cached.text, tier: cached.tier, segments: cached.segments, glossaryHits: cached.glossaryHits };
   }
 
   logger.debug('translation_multi_tier_started');
 
-  // Tier 1: Google Cloud Translation
-  const googleResult = await translateWithGoogle(text, sourceLang, targetLang);
-  if (googleResult) {
-    logger.info('translation_tier1_succeeded');
-    translationCache.set(cacheKey, {
-      text: googleResult.translatedText,
-      timestamp: Date.now(),
-      tier: 'google',
-    });
-    return googleResult;
+  const prepared = prepareSegments(text, sourceLang, glossary);
+  const translations = await translateSegmentsWithApis(prepared, sourceLang, targetLang);
+  const untranslated = translations.filter(translation => !translation).length;
+
+  if (untranslated === 0) {
+    const result = assembleSegments(translations as TranslatedSegment[], prepared.glossaryHits);
+    cacheResult(key, result);
+    logGlossaryHits(result.glossaryHits);
+    return result;
   }
 
-  // Tier 2: MyMemory
-  const myMemoryResult = await translateWithMyMemory(text, sourceLang, targetLang);
-  if (myMemoryResult) {
-    logger.info('translation_tier2_succeeded');
-    translationCache.set(cacheKey, {
-      text: myMemoryResult.translatedText,
-      timestamp: Date.now(),
-      tier: 'mymemory',
-    });
-    return myMemoryResult;
+  // Tier 4: Dictionary fallback (always succeeds)
+  let matchedCount = prepared.glossaryHits.length;
+  const filled = translations.map((translation, i): TranslatedSegment => {
+    if (translation) {
+      return translation;
+    }
+    const dictionary = replaceDictionaryPhrases(prepared.protectedTexts[i].text, sourceLang, targetLang);
+    matchedCount += dictionary.matchedCount;
+    return {
+      text: restoreTokens(dictionary.text, prepared.replacements[i]) ?? prepared.segments[i].text,
+      tier: 'dictionary',
+    };
+  });
+  const result = assembleSegments(filled, prepared.glossaryHits);
+  logGlossaryHits(result.glossaryHits);
+
+  if (untranslated === prepared.segments.filter(segment => segment.translatable).length) {
+    logger.warn('translation_all_tiers_failed_using_dictionary');
+    return {
+      ...dictionaryResult(result.translatedText, text, matchedCount),
+      ...(result.glossaryHits && { glossaryHits: result.glossaryHits }),
+    };
   }
 
-  // Tier 3: LibreTranslate
-  const libreResult = await translateWithLibreTranslate(text, sourceLang, targetLang);
-  if (libreResult) {
-    logger.info('translation_tier3_succeeded');
-    translationCache.set(cacheKey, {
-      text: libreResult.translatedText,
-      timestamp: Date.now(),
-      tier: 'libretranslate',
-    });
-    return libreResult;
+  logger.warn('translation_segments_using_dictionary', { segments_untranslated: untranslated });
+  return result;
+}
+
+/**
+ * Translate with tiers better than `tier` only, bypassing the cache
+ * Used to upgrade stored translations; null unless every sentence gets a better tier
+ */
+export async function translateAbove(
+  text: string,
+  sourceLang: SupportedLanguage,
+  targetLang: SupportedLanguage,
+  tier: TranslationTier,
+  glossary: TermConstraint[] = []
+): Promise<TranslationResult | null> {
+  if (tier === TRANSLATION_TIERS[0]) {
+    return null;
   }
 
-  // Tier 4: Dictionary fallback (always succeeds)
-  logger.warn('translation_all_tiers_failed_using_dictionary');
-  const dictionaryResult = translateWithDictionary(text, sourceLang, targetLang);
-  return dictionaryResult;
+  const prepared = prepareSegments(text, sourceLang, glossary);
+  const translations = await translateSegmentsWithApis(prepared, sourceLang, targetLang, tier);
+  if (translations.some(translation => !translation)) {
+    return null;
+  }
+
+  const result = assembleSegments(translations as TranslatedSegment[], prepared.glossaryHits);
+  cacheResult(cacheKey(text, sourceLang, targetLang, glossary), result);
+  logGlossaryHits(result.glossaryHits);
+  return result;
 }
 
 /**
- * Detect language (simple pattern matching - reliable and fast)
+ * Detect language by script and n-gram profile (lib/language-id.ts) - no API call
  */
 export async function detectLanguage(text: string): Promise<SupportedLanguage> {
   if (!text || text.trim().length === 0) {
     return 'en';
   }
 
-  // Use regex for fast detection
-  const farsiPattern = /[\u0600-\u06FF]/;
-  if (farsiPattern.test(text)) {
-    return 'fa';
-  }
-
-  return 'en';
+  return identifyLanguage(text).language;
 }
 
 /**
@@ -406,7 +732,7 @@ export function cleanCache() {
   logger.debug('translation_cache_cleaned', { removed_count: removed });
 }
 
-// Auto-clean cache every hour
+// Auto-clean cache every hour (unref'd so it never keeps a worker or test process alive)
 if (typeof setInterval !== 'undefined') {
-  setInterval(cleanCache, 60 * 60 * 1000);
+  setInterval(cleanCache, 60 * 60 * 1000).unref?.();
 }
@@ -0,0 +1,262 @@
+/**
+ * Translation segmenter
+ * Splits a post into sentences that the translation tiers can take one at a time:
+ * - sentences end at Latin and Persian terminators (. ! ? ؟ …) and at line breaks;
+ *   dots inside links, numbers and abbreviations (U.S., Dr.) do not end a sentence
+ * - ZWNJ (U+200C, as in می‌شود) is part of a word, never a break
+ * - sentences longer than a tier accepts are split at clause punctuation (، ؛ , ;),
+ *   then between words
+ * - links, @handles, #hashtags, glossary terms and (in Persian text) Latin-script
+ *   names are protected: they are swapped for numbered placeholders before a segment
+ *   is sent to a tier and restored in the translation
+ * Concatenating the text of every segment gives back the input.
+ */
+
+export interface TextSegment {
+  text: string;
+  translatable: boolean; // False for whitespace, line breaks, and text made only of protected tokens, digits and symbols
+}
+
+export interface SegmentOptions {
+  maxBytes?: number; // UTF-8 size a segment should not exceed
+  protectLatin?: boolean; // Treat Latin-script runs as names (set for Persian source text)
+  terms?: string[]; // Glossary phrases, matched as whole words ignoring case; earlier ones win overlaps
+}
+
+/**
+ * A segment with its protected tokens replaced by placeholders ({0}, {1}, ...)
+ */
+export interface ProtectedText {
+  text: string;
+  tokens: string[]; // Original tokens, by placeholder number
+}
+
+// MyMemory rejects queries over 500 bytes; Persian letters take 2 bytes each
+export const DEFAULT_SEGMENT_MAX_BYTES = 480;
+
+const URL_PATTERN = /(?:https?:\/\/|www\.|t\.me\/)[^\s]+/gu;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/gu;
+const HANDLE_PATTERN = /(?<![\w@])@[A-Za-z0-9_]{2,}/gu;
+const HASHTAG_PATTERN = /(?<![\w#])#[\p{L}\p{N}_\u200c]+/gu; // Persian hashtags join words with _ or ZWNJ
+const PLACEHOLDER_PATTERN = /\{\s*\d+\s*\}/gu; // Placeholder-like text in the source is protected too
+const LATIN_RUN_PATTERN = /[A-Za-z][A-Za-z0-9'’.-]*(?:[ \t]+[A-Za-z][A-Za-z0-9'’.-]*)*/gu;
+
+// Punctuation that trails a link in running text rather than belonging to it
+const TRAILING_PUNCTUATION = /[.,!?؟،؛:;)\]»"'”’]+$/u;
+
+// Terminators, optionally followed by closing quotes and brackets, before whitespace or the end of the line
+const SENTENCE_END = /[.!?؟…]+[»"'”’)\]]*(?=\s|$)/gu;
+
+const CLAUSE_END = /[،,؛;:]$/u;
+
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'etc', 'e.g', 'i.e', 'no',
+  'gen', 'lt', 'col', 'sgt', 'capt', 'gov', 'sen', 'rep', 'u.s', 'u.k', 'u.n',
+]);
+
+const encoder = new TextEncoder();
+
+function byteLength(text: string): number {
+  return encoder.encode(text).length;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+function termPattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}\\u200c])${escaped}(?![\\p{L}\\p{N}\\u200c])`, 'giu');
+}
+
+/**
+ * Ranges of protected tokens in a line, sorted and non-overlapping
+ */
+function protectedSpans(line: string, options: Pick<SegmentOptions, 'protectLatin' | 'terms'>): Span[] {
+  const patterns = [URL_PATTERN, EMAIL_PATTERN, HANDLE_PATTERN, HASHTAG_PATTERN, PLACEHOLDER_PATTERN];
+  for (const term of options.terms ?? []) {
+    if (term.trim()) patterns.push(termPattern(term));
+  }
+  if (options.protectLatin) {
+    patterns.push(LATIN_RUN_PATTERN);
+  }
+
+  const spans: Span[] = [];
+  for (const pattern of patterns) {
+    for (const match of line.matchAll(pattern)) {
+      let token = match[0];
+      if (pattern === URL_PATTERN || pattern === LATIN_RUN_PATTERN) {
+        token = token.replace(TRAILING_PUNCTUATION, '');
+      }
+      if (token) {
+        spans.push({ start: match.index, end: match.index + token.length });
+      }
+    }
+  }
+
+  // Earlier patterns win overlaps (a link containing an @ stays one link)
+  const kept: Span[] = [];
+  for (const span of spans) {
+    if (!kept.some(other => span.start < other.end && other.start < span.end)) {
+      kept.push(span);
+    }
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+function insideSpan(index: number, spans: Span[]): boolean {
+  return spans.some(span => index >= span.start && index < span.end);
+}
+
+/**
+ * A lone '.' after an initial or a known abbreviation does not end the sentence
+ */
+function isAbbreviation(line: string, dotIndex: number): boolean {
+  const word = line.slice(0, dotIndex).match(/[A-Za-z.]+$/)?.[0];
+  if (!word) {
+    return false;
+  }
+  return word.replace(/\./g, '').length === 1 || ABBREVIATIONS.has(word.toLowerCase());
+}
+
+/**
+ * End offsets of the sentences in a line
+ */
+function sentenceEnds(line: string, spans: Span[]): number[] {
+  const ends: number[] = [];
+  for (const match of line.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+    if (insideSpan(match.index, spans)) {
+      continue;
+    }
+    if (match[0] === '.' && isAbbreviation(line, match.index)) {
+      continue;
+    }
+    ends.push(end);
+  }
+  if (ends[ends.length - 1] !== line.length) {
+    ends.push(line.length);
+  }
+  return ends;
+}
+
+/**
+ * Split a sentence that is too long: at the last clause break that fits, else
+ * at the last word break that fits (a single oversized word is kept whole)
+ */
+function splitLong(line: string, start: number, end: number, spans: Span[], maxBytes: number): number[] {
+  const breaks: Array<{ at: number; clause: boolean }> = [];
+  for (const match of line.slice(start, end).matchAll(/\s+/gu)) {
+    const at = start + match.index + match[0].length;
+    if (at < end && !insideSpan(start + match.index, spans)) {
+      breaks.push({ at, clause: CLAUSE_END.test(line.slice(start, start + match.index)) });
+    }
+  }
+
+  const cuts: number[] = [];
+  let from = start;
+  while (byteLength(line.slice(from, end)) > maxBytes) {
+    const candidates = breaks.filter(({ at }) => at > from);
+    const fitting = candidates.filter(({ at }) => byteLength(line.slice(from, at)) <= maxBytes);
+    const cut = fitting.filter(({ clause }) => clause).pop() ?? fitting.pop() ?? candidates[0];
+    if (!cut) {
+      break;
+    }
+    cuts.push(cut.at);
+    from = cut.at;
+  }
+  cuts.push(end);
+  return cuts;
+}
+
+function isTranslatable(text: string, spans: Span[], offset: number): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (/\p{L}/u.test(text[i]) && !insideSpan(offset + i, spans)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function pushSegment(segments: TextSegment[], text: string, translatable: boolean): void {
+  if (!text) return;
+
+  const last = segments[segments.length - 1];
+  if (last && !last.translatable && !translatable) {
+    last.text += text;
+  } else {
+    segments.push({ text, translatable });
+  }
+}
+
+/**
+ * Split text into sentence segments and the untranslatable text between them
+ */
+export function segmentText(text: string, options: SegmentOptions = {}): TextSegment[] {
+  const maxBytes = options.maxBytes ?? DEFAULT_SEGMENT_MAX_BYTES;
+  const segments: TextSegment[] = [];
+
+  for (const line of text.split(/(\n+)/)) {
+    if (line.startsWith('\n')) {
+      pushSegment(segments, line, false);
+      continue;
+    }
+
+    const spans = protectedSpans(line, options);
+    let start = 0;
+    for (const sentenceEnd of sentenceEnds(line, spans)) {
+      for (const end of splitLong(line, start, sentenceEnd, spans, maxBytes)) {
+        const chunk = line.slice(start, end);
+        const leading = chunk.match(/^\s*/u)![0];
+        const trailing = chunk.slice(leading.length).match(/\s*$/u)![0];
+        const core = chunk.slice(leading.length, chunk.length - trailing.length);
+
+        pushSegment(segments, leading, false);
+        pushSegment(segments, core, isTranslatable(core, spans, start + leading.length));
+        pushSegment(segments, trailing, false);
+        start = end;
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Replace the protected tokens of a segment with placeholders
+ */
+export function protectTokens(text: string, options: Pick<SegmentOptions, 'protectLatin' | 'terms'> = {}): ProtectedText {
+  const tokens: string[] = [];
+  let protectedText = '';
+  let last = 0;
+
+  for (const span of protectedSpans(text, options)) {
+    protectedText += text.slice(last, span.start) + `{${tokens.length}}`;
+    tokens.push(text.slice(span.start, span.end));
+    last = span.end;
+  }
+
+  return { text: protectedText + text.slice(last), tokens };
+}
+
+/**
+ * Put the protected tokens back into a translation
+ * Returns null when a placeholder was lost or invented (the tier mangled the segment)
+ */
+export function restoreTokens(translated: string, tokens: string[]): string | null {
+  const seen = new Set<number>();
+  let valid = true;
+
+  const restored = translated.replace(PLACEHOLDER_PATTERN, placeholder => {
+    const index = Number(placeholder.replace(/[{}\s]/g, ''));
+    if (index >= tokens.length || seen.has(index)) {
+      valid = false;
+      return placeholder;
+    }
+    seen.add(index);
+    return tokens[index];
+  });
+
+  return valid && seen.size === tokens.length ? restored : null;
+}
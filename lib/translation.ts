@@ -1,10 +1,11 @@
 /**
  * Google Cloud Translation API service
- * Handles translation between Persian (Farsi) and English
+ * Handles translation between English and Persian (Farsi), Kurdish, Azerbaijani Turkish, Arabic and Baluchi
  */
 
 import { TranslationServiceClient } from '@google-cloud/translate';
 import { logger } from './logger';
+import { identifyLanguage, SupportedLanguage } from './language-id';
 
 const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || 'coiled-cloud';
 const LOCATION = 'global';
@@ -26,7 +27,23 @@ function getTranslationClient(): TranslationServiceClient {
   return translationClient;
 }
 
-export type SupportedLanguage = 'fa' | 'en';
+export type { SupportedLanguage };
+
+// Google's codes for our languages (Kurmanji is its "ku", South Azerbaijani its "az")
+const GOOGLE_LANGUAGE_CODES: Record<SupportedLanguage, string> = {
+  en: 'en',
+  fa: 'fa',
+  ckb: 'ckb',
+  kmr: 'ku',
+  azb: 'az',
+  ar: 'ar',
+  bal: 'bal',
+};
+
+function fromGoogleLanguageCode(code: string | null | undefined): SupportedLanguage | null {
+  const entry = Object.entries(GOOGLE_LANGUAGE_CODES).find(([, googleCode]) => googleCode === code);
+  return entry ? (entry[0] as SupportedLanguage) : null;
+}
 
 interface TranslationResult {
   translatedText: string;
@@ -84,8 +101,8 @@ export async function translateText(
       parent,
       contents: [text],
       mimeType: 'text/plain',
-      sourceLanguageCode: sourceLang,
-      targetLanguageCode: targetLang,
+      sourceLanguageCode: GOOGLE_LANGUAGE_CODES[sourceLang],
+      targetLanguageCode: GOOGLE_LANGUAGE_CODES[targetLang],
     });
 
     const translatedText = response.translations?.[0]?.translatedText || text;
@@ -139,8 +156,8 @@ export async function batchTranslate(
       parent,
       contents: filteredTexts,
       mimeType: 'text/plain',
-      sourceLanguageCode: sourceLang,
-      targetLanguageCode: targetLang,
+      sourceLanguageCode: GOOGLE_LANGUAGE_CODES[sourceLang],
+      targetLanguageCode: GOOGLE_LANGUAGE_CODES[targetLang],
     });
 
     const translations = response.translations?.map(t => t.translatedText || '') || texts;
@@ -172,9 +189,10 @@ export async function detectLanguage(text: string): Promise<SupportedLanguage> {
     return 'en';
   }
 
-  const farsiPattern = /[\u0600-\u06FF]/;
-  if (farsiPattern.test(text)) {
-    return 'fa';
+  // Arabic-script text, and Latin text with Kurmanji letters, are identified locally
+  const identified = identifyLanguage(text);
+  if (identified.language !== 'en') {
+    return identified.language;
   }
 
   try {
@@ -187,13 +205,7 @@ export async function detectLanguage(text: string): Promise<SupportedLanguage> {
       mimeType: 'text/plain',
     });
 
-    const detectedLang = response.languages?.[0]?.languageCode;
-
-    if (detectedLang === 'fa' || detectedLang === 'en') {
-      return detectedLang;
-    }
-
-    return 'en';
+    return fromGoogleLanguageCode(response.languages?.[0]?.languageCode) ?? 'en';
   } catch (error) {
     logger.error('language_detection_failed', {
       error: error instanceof Error ? error.message : 'Unknown error',
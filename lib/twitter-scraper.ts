@@ -67,14 +67,36 @@ export interface ScrapedArticle {
   };
 }
 
+/**
+ * Compare two numeric tweet IDs (too large for Number precision)
+ */
+export function compareTweetIds(a: string, b: string): number {
+  if (a.length !== b.length) return a.length - b.length;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Highest tweet ID in a batch of scraped articles, for use as the next sinceId
+ */
+export function getNewestTweetId(articles: ScrapedArticle[], current?: string): string | undefined {
+  return articles
+    .map(article => article.id.replace(/^twitter-/, ''))
+    .reduce<string | undefined>(
+      (newest, id) => (!newest || compareTweetIds(id, newest) > 0 ? id : newest),
+      current
+    );
+}
+
 /**
  * Scrape recent tweets from Persian uprising hashtags
  * @param maxTweetsPerHashtag - Maximum tweets per hashtag (default: 50, min required by Apify)
  * @param hoursBack - How many hours back to search (default: 1)
+ * @param sinceId - Only return tweets newer than this tweet ID (persisted cursor)
  */
 export async function scrapeTwitter(
   maxTweetsPerHashtag: number = 50,
-  hoursBack: number = 1
+  hoursBack: number = 1,
+  sinceId?: string
 ): Promise<ScrapedArticle[]> {
   if (!APIFY_API_TOKEN) {
     logger.error('apify_token_not_configured');
@@ -84,11 +106,14 @@ export async function scrapeTwitter(
   try {
     // Build search queries - one for each hashtag to ensure we get results
     // Apify works better with individual searches than OR queries
-    const searchTerms = PERSIAN_UPRISING_HASHTAGS.slice(0, 3); // Start with first 3 hashtags
+    // since_id is a Twitter search operator, so Apify only bills for new tweets
+    const searchTerms = PERSIAN_UPRISING_HASHTAGS.slice(0, 3) // Start with first 3 hashtags
+      .map(hashtag => (sinceId ? `${hashtag} since_id:${sinceId}` : hashtag));
 
     logger.info('twitter_scrape_started', {
       hashtags: searchTerms.join(', '),
-      max_per_hashtag: maxTweetsPerHashtag
+      max_per_hashtag: maxTweetsPerHashtag,
+      since_id: sinceId,
     });
 
     // Start Apify actor run
@@ -122,7 +147,9 @@ export async function scrapeTwitter(
     // Transform tweets to articles
     const articles = tweets
       .map(transformTweetToArticle)
-      .filter((article): article is ScrapedArticle => article !== null);
+      .filter((article): article is ScrapedArticle => article !== null)
+      // Guard against actors that ignore the since_id operator
+      .filter(article => !sinceId || compareTweetIds(article.id.replace(/^twitter-/, ''), sinceId) > 0);
 
     logger.info('twitter_scrape_completed', {
       total: articles.length,
@@ -0,0 +1,156 @@
+/**
+ * Connectivity Validator
+ * Query parameters for /api/connectivity/history, /outages, /correlation and /ooni
+ */
+
+import { z } from 'zod';
+import type { ValidationResult } from './incident-validator';
+
+const RANGE_UNITS = { h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 } as const;
+
+const rangeParam = z.string().regex(/^\d+[hdw]$/, 'Range must look like 24h, 7d or 4w');
+
+function rangeToMs(range: string): number {
+  return Number(range.slice(0, -1)) * RANGE_UNITS[range.slice(-1) as keyof typeof RANGE_UNITS];
+}
+
+// Epoch milliseconds or an ISO date
+const timeParam = z.string().transform((value, ctx) => {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(time)) {
+    ctx.addIssue({ code: 'custom', message: 'Must be epoch milliseconds or an ISO date' });
+    return z.NEVER;
+  }
+  return time;
+});
+
+export const ConnectivityHistoryQuerySchema = z.object({
+  series: z.string()
+    .max(2000)
+    .transform((value) => value.split(',').map((name) => name.trim()).filter(Boolean))
+    .pipe(z.array(z.string().regex(/^[\w.:-]+\*?$/, 'Invalid series name')).min(1).max(50))
+    .optional(),
+  from: timeParam.optional(),
+  until: timeParam.optional(),
+  range: rangeParam.optional(),
+  resolution: z.enum(['auto', 'raw', '1h', '1d']).optional().default('auto'),
+  maxPoints: z.coerce.number().int().min(10).max(5000).optional().default(1000),
+}).transform((data, ctx) => {
+  const until = data.until ?? Date.now();
+  const rangeMs = data.range ? rangeToMs(data.range) : RANGE_UNITS.h * 24;
+  const from = data.from ?? until - rangeMs;
+
+  if (from >= until) {
+    ctx.addIssue({ code: 'custom', path: ['from'], message: 'from must be before until' });
+    return z.NEVER;
+  }
+
+  return { series: data.series, from, until, resolution: data.resolution, maxPoints: data.maxPoints };
+});
+
+export type ConnectivityHistoryQueryInput = z.infer<typeof ConnectivityHistoryQuerySchema>;
+
+export function validateConnectivityHistoryQuery(
+  params: Record<string, string | null>
+): ValidationResult<ConnectivityHistoryQueryInput> {
+  // Convert null values to undefined for Zod
+  const cleanParams: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== null) {
+      cleanParams[key] = value;
+    }
+  }
+
+  const result = ConnectivityHistoryQuerySchema.safeParse(cleanParams);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
+
+export const OutageCorrelationQuerySchema = z.object({
+  from: timeParam.optional(),
+  until: timeParam.optional(),
+  range: rangeParam.optional().default('7d'),
+}).transform((data, ctx) => {
+  const until = data.until ?? Date.now();
+  const from = data.from ?? until - rangeToMs(data.range);
+
+  if (from >= until) {
+    ctx.addIssue({ code: 'custom', path: ['from'], message: 'from must be before until' });
+    return z.NEVER;
+  }
+
+  return { from, until };
+});
+
+export type OutageCorrelationQueryInput = z.infer<typeof OutageCorrelationQuerySchema>;
+
+export const OutageQuerySchema = z.object({
+  status: z.enum(['all', 'ongoing', 'recovered']).optional().default('all'),
+  scope: z.enum(['country', 'province', 'asn']).optional(),
+  range: rangeParam.optional().default('7d'),
+  minConfidence: z.coerce.number().min(0).max(1).optional().default(0),
+}).transform((data) => ({
+  status: data.status,
+  scope: data.scope,
+  since: Date.now() - rangeToMs(data.range),
+  minConfidence: data.minConfidence,
+}));
+
+export type OutageQueryInput = z.infer<typeof OutageQuerySchema>;
+
+export function validateOutageQuery(params: Record<string, string | null>): ValidationResult<OutageQueryInput> {
+  const cleanParams: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== null) {
+      cleanParams[key] = value;
+    }
+  }
+
+  const result = OutageQuerySchema.safeParse(cleanParams);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
+
+export function validateOutageCorrelationQuery(
+  params: Record<string, string | null>
+): ValidationResult<OutageCorrelationQueryInput> {
+  const cleanParams: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== null) {
+      cleanParams[key] = value;
+    }
+  }
+
+  const result = OutageCorrelationQuerySchema.safeParse(cleanParams);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
+
+export const OONIQuerySchema = z.object({
+  range: rangeParam.optional().default('7d'), // How far back the status change history goes
+}).transform((data) => ({
+  since: Date.now() - rangeToMs(data.range),
+}));
+
+export type OONIQueryInput = z.infer<typeof OONIQuerySchema>;
+
+export function validateOONIQuery(params: Record<string, string | null>): ValidationResult<OONIQueryInput> {
+  const cleanParams: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== null) {
+      cleanParams[key] = value;
+    }
+  }
+
+  const result = OONIQuerySchema.safeParse(cleanParams);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
@@ -0,0 +1,35 @@
+/**
+ * Glossary Validator
+ * Terms added or edited through /api/admin/glossary
+ */
+
+import { z } from 'zod';
+import { GLOSSARY_KINDS } from '@/lib/domain/glossary';
+import type { ValidationResult } from './incident-validator';
+
+const phrase = z.string().trim().min(1).max(200);
+
+export const GlossaryTermRequestSchema = z.object({
+  id: z.string()
+    .min(1)
+    .max(100)
+    .regex(/^[a-z0-9-]+$/, 'ID must be lowercase letters, digits and dashes')
+    .optional(),
+  fa: phrase.regex(/[\u0600-\u06FF]/, 'Persian form must contain Persian letters'),
+  en: phrase,
+  kind: z.enum(GLOSSARY_KINDS),
+  faAliases: z.array(phrase).max(20).optional(),
+  enAliases: z.array(phrase).max(20).optional(),
+  note: z.string().max(500).optional(),
+  disabled: z.boolean().optional(),
+}).strict();
+
+export type GlossaryTermRequestInput = z.infer<typeof GlossaryTermRequestSchema>;
+
+export function validateGlossaryTerm(data: unknown): ValidationResult<GlossaryTermRequestInput> {
+  const result = GlossaryTermRequestSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
@@ -11,6 +11,7 @@
  */
 
 import { z } from 'zod';
+import { IncidentTypeSchema, EmbedTypeSchema } from '@/lib/domain/incident';
 
 // XSS prevention: Pattern to block dangerous characters
 const SAFE_TEXT_PATTERN = /^[^<>{}[\]]*$/;
@@ -78,9 +79,7 @@ const RelatedArticleSchema = z.object({
 
 // Main incident schema for POST requests
 export const CreateIncidentSchema = z.object({
-  type: z.enum(['protest', 'arrest', 'injury', 'death', 'other'], {
-    message: 'Type must be one of: protest, arrest, injury, death, other',
-  }),
+  type: IncidentTypeSchema,
   title: safeString(10, 200, 'Title'),
   description: safeString(20, 2000, 'Description'),
   location: LocationSchema,
@@ -98,22 +97,34 @@ export const CreateIncidentSchema = z.object({
   relatedArticles: z.array(RelatedArticleSchema)
     .max(10, 'Maximum 10 related articles allowed')
     .optional(),
+  twitterUrl: safeUrl.optional(),
+  telegramUrl: safeUrl.optional(),
+  alternateUrl: safeUrl.optional(),
+  mediaUrls: z.array(safeUrl)
+    .max(5, 'Maximum 5 media URLs allowed')
+    .optional(),
+  embedType: EmbedTypeSchema.optional(),
+  tags: z.array(safeString(1, 50, 'Tag'))
+    .max(10, 'Maximum 10 tags allowed')
+    .optional(),
 }).strict();
 
 // Schema for incident updates (all fields optional except id)
 export const UpdateIncidentSchema = z.object({
   id: z.string().min(1).max(100),
-  type: z.enum(['protest', 'arrest', 'injury', 'death', 'other']).optional(),
+  type: IncidentTypeSchema.optional(),
   title: safeString(10, 200, 'Title').optional(),
   description: safeString(20, 2000, 'Description').optional(),
   location: LocationSchema.optional(),
   verified: z.boolean().optional(),
+  debunked: z.boolean().optional(),
   images: z.array(safeUrl).max(5).optional(),
+  tags: z.array(safeString(1, 50, 'Tag')).max(10).optional(),
 }).strict();
 
 // Schema for GET query parameters
 export const IncidentQuerySchema = z.object({
-  type: z.enum(['protest', 'arrest', 'injury', 'death', 'other']).optional(),
+  type: IncidentTypeSchema.optional(),
   northLat: z.coerce.number().min(-90).max(90).optional(),
   southLat: z.coerce.number().min(-90).max(90).optional(),
   eastLon: z.coerce.number().min(-180).max(180).optional(),
@@ -46,3 +46,49 @@ export {
   type UpdateChannelSuggestionInput,
   type ChannelSuggestionQueryInput,
 } from './channel-validator';
+
+// Reputation validators
+export {
+  ReputationEvidenceRequestSchema,
+  validateReputationEvidence,
+  type ReputationEvidenceRequestInput,
+} from './reputation-validator';
+
+// Glossary validators
+export {
+  GlossaryTermRequestSchema,
+  validateGlossaryTerm,
+  type GlossaryTermRequestInput,
+} from './glossary-validator';
+
+// Connectivity validators
+export {
+  ConnectivityHistoryQuerySchema,
+  validateConnectivityHistoryQuery,
+  type ConnectivityHistoryQueryInput,
+  OutageQuerySchema,
+  validateOutageQuery,
+  type OutageQueryInput,
+  OutageCorrelationQuerySchema,
+  validateOutageCorrelationQuery,
+  type OutageCorrelationQueryInput,
+  OONIQuerySchema,
+  validateOONIQuery,
+  type OONIQueryInput,
+} from './connectivity-validator';
+
+// Subscription validators
+export {
+  ConnectivityAlertPreferencesSchema,
+  NotificationPreferencesSchema,
+  QuietHoursSchema,
+  UpdateSubscriptionPreferencesSchema,
+  GetSubscriptionPreferencesSchema,
+  NotificationClickSchema,
+  validateUpdateSubscriptionPreferences,
+  validateGetSubscriptionPreferences,
+  validateNotificationClick,
+  type UpdateSubscriptionPreferencesInput,
+  type GetSubscriptionPreferencesInput,
+  type NotificationClickInput,
+} from './subscription-validator';
@@ -0,0 +1,27 @@
+/**
+ * Reputation Validator
+ * Manual evidence submitted through /api/admin/reputation
+ */
+
+import { z } from 'zod';
+import type { ValidationResult } from './incident-validator';
+
+export const ReputationEvidenceRequestSchema = z.object({
+  sourceKey: z.string()
+    .min(1)
+    .max(200)
+    .regex(/^[^/\s]+$/, 'Source key must not contain slashes or whitespace'),
+  polarity: z.enum(['positive', 'negative']),
+  weight: z.number().positive().max(10).optional().default(1),
+  note: z.string().max(500).optional(),
+}).strict();
+
+export type ReputationEvidenceRequestInput = z.infer<typeof ReputationEvidenceRequestSchema>;
+
+export function validateReputationEvidence(data: unknown): ValidationResult<ReputationEvidenceRequestInput> {
+  const result = ReputationEvidenceRequestSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
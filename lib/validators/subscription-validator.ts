@@ -0,0 +1,124 @@
+/**
+ * Subscription Validator
+ * Notification preferences sent to PATCH /api/subscribe and read back
+ * through POST /api/subscribe/preferences, and click reports to POST /api/push/click
+ */
+
+import { z } from 'zod';
+import type { ValidationResult } from './incident-validator';
+import { IRAN_PROVINCES } from '@/lib/domain/provinces';
+import { IncidentTypeSchema } from '@/lib/domain/incident';
+import { KNOWN_CITIES } from '@/lib/geocoder';
+import { TOPIC_FEEDS } from '@/lib/perplexity';
+import { MAX_NOTIFICATIONS_PER_HOUR } from '@/lib/services/notifications/subscription-matcher';
+
+const PROVINCE_IDS = IRAN_PROVINCES.map(province => province.id) as [string, ...string[]];
+const CITY_NAMES = KNOWN_CITIES.map(city => city.name) as [string, ...string[]];
+const TOPIC_IDS = TOPIC_FEEDS.map(topic => topic.id) as [string, ...string[]];
+
+function isTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const ConnectivityAlertPreferencesSchema = z.object({
+  enabled: z.boolean().optional().default(true),
+  nationwide: z.boolean().optional().default(true),
+  provinces: z.array(z.enum(PROVINCE_IDS)).max(PROVINCE_IDS.length).optional().default([]),
+  // OONI watchlist ids: app tests ('signal') or domains ('twitter.com')
+  services: z.array(z.string().regex(/^[a-z0-9.-]{1,100}$/, 'Invalid service id')).max(50).optional().default([]),
+}).strict();
+
+const HourSchema = z.number().int().min(0).max(23);
+
+export const QuietHoursSchema = z.object({
+  start: HourSchema,
+  end: HourSchema,
+  timezone: z.string().max(64).refine(isTimeZone, 'Unknown time zone').optional().default('Asia/Tehran'),
+}).strict();
+
+export const NotificationPreferencesSchema = z.object({
+  topics: z.array(z.enum(TOPIC_IDS)).max(TOPIC_IDS.length).optional().default([]),
+  incidentTypes: z.array(IncidentTypeSchema).optional().default([]),
+  provinces: z.array(z.enum(PROVINCE_IDS)).max(PROVINCE_IDS.length).optional().default([]),
+  cities: z.array(z.enum(CITY_NAMES)).max(CITY_NAMES.length).optional().default([]),
+  keywords: z.array(z.string().trim().min(2, 'Keywords must be at least 2 characters').max(50)).max(20).optional().default([]),
+  minVerificationScore: z.number().min(0).max(100).optional().default(0),
+  quietHours: QuietHoursSchema.nullish(),
+  maxPerHour: z.number().int().min(1).max(MAX_NOTIFICATIONS_PER_HOUR).optional().default(10),
+  delivery: z.enum(['instant', 'hourly', 'daily']).optional().default('instant'),
+}).strict();
+
+export const UpdateSubscriptionPreferencesSchema = z.object({
+  endpoint: z.string().url().max(1000),
+  connectivityAlerts: ConnectivityAlertPreferencesSchema.optional(),
+  preferences: NotificationPreferencesSchema.optional(),
+}).strict().refine(
+  data => data.connectivityAlerts !== undefined || data.preferences !== undefined,
+  'Nothing to update: send connectivityAlerts or preferences'
+);
+
+export const GetSubscriptionPreferencesSchema = z.object({
+  endpoint: z.string().url().max(1000),
+}).strict();
+
+/**
+ * Click report from the service worker (public/sw-custom.js)
+ */
+export const NotificationClickSchema = z.object({
+  notificationId: z.string().regex(/^[A-Za-z0-9-]{1,64}$/, 'Invalid notification ID'),
+  endpoint: z.string().url().max(1000),
+}).strict();
+
+type ParsedPreferences = z.infer<typeof UpdateSubscriptionPreferencesSchema>;
+
+export type UpdateSubscriptionPreferencesInput = Omit<ParsedPreferences, 'preferences'> & {
+  preferences?: Omit<NonNullable<ParsedPreferences['preferences']>, 'quietHours'> & {
+    quietHours?: NonNullable<NonNullable<ParsedPreferences['preferences']>['quietHours']>;
+  };
+};
+export type GetSubscriptionPreferencesInput = z.infer<typeof GetSubscriptionPreferencesSchema>;
+export type NotificationClickInput = z.infer<typeof NotificationClickSchema>;
+
+export function validateUpdateSubscriptionPreferences(
+  data: unknown
+): ValidationResult<UpdateSubscriptionPreferencesInput> {
+  const result = UpdateSubscriptionPreferencesSchema.safeParse(data);
+  if (result.success) {
+    const { preferences, ...rest } = result.data;
+    if (!preferences) {
+      return { success: true, data: rest };
+    }
+    // Convert null to undefined (no quiet hours)
+    const { quietHours, ...others } = preferences;
+    return {
+      success: true,
+      data: { ...rest, preferences: { ...others, ...(quietHours && { quietHours }) } },
+    };
+  }
+  return { success: false, error: result.error };
+}
+
+export function validateGetSubscriptionPreferences(
+  data: unknown
+): ValidationResult<GetSubscriptionPreferencesInput> {
+  const result = GetSubscriptionPreferencesSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
+
+export function validateNotificationClick(
+  data: unknown
+): ValidationResult<NotificationClickInput> {
+  const result = NotificationClickSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
@@ -9,10 +9,15 @@
  */
 
 import { z } from 'zod';
+import {
+  SUPPORTED_LANGUAGES,
+  MIN_LANGUAGE_CONFIDENCE,
+  identifyLanguage,
+  type SupportedLanguage,
+} from '@/lib/language-id';
 
-// Supported languages
-export const SUPPORTED_LANGUAGES = ['en', 'fa'] as const;
-export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
+// Supported languages (English, Persian, Sorani, Kurmanji, Azerbaijani Turkish, Arabic, Baluchi)
+export { SUPPORTED_LANGUAGES, type SupportedLanguage };
 
 // Maximum text length for translation (prevents memory exhaustion)
 const MAX_TEXT_LENGTH = 10000;
@@ -124,21 +129,6 @@ export function formatZodErrors(error: z.ZodError): { field: string; message: st
 
 // Utility: Estimate if text is primarily in a specific language
 export function estimateLanguage(text: string): SupportedLanguage | null {
-  // Persian/Arabic character range
-  const persianPattern = /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/;
-  const persianChars = (text.match(persianPattern) || []).length;
-
-  // Latin character range
-  const latinPattern = /[a-zA-Z]/g;
-  const latinChars = (text.match(latinPattern) || []).length;
-
-  const total = persianChars + latinChars;
-  if (total === 0) return null;
-
-  const persianRatio = persianChars / total;
-
-  if (persianRatio > 0.5) return 'fa';
-  if (persianRatio < 0.3) return 'en';
-
-  return null; // Ambiguous
+  const { language, confidence } = identifyLanguage(text);
+  return confidence >= MIN_LANGUAGE_CONFIDENCE ? language : null; // null when ambiguous
 }
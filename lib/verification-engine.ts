@@ -1,121 +1,255 @@
-
-import { logger } from './logger';
 import { MediaDeduplication } from './media-deduplication';
+import type { Incident, VerificationFactors, VerificationRuleResult } from './domain/incident';
+import {
+    VerificationModel,
+    VerificationRule,
+    CorroborationRule,
+    MediaMatchRule,
+    IndependentSourcesRule,
+    getVerificationModel,
+    applyDecay,
+    reputationMultiplier,
+} from './verification-model';
 
-export interface Incident {
-    id: string;
-    latitude: number;
-    longitude: number;
-    timestamp: number; // Unix timestamp
-    title?: string;
-    description?: string;
-    imageHash?: string;
-    verified?: boolean;
-}
+/**
+ * The parts of an incident the engine compares; full Incidents qualify,
+ * and articles can be adapted once they have a location
+ */
+export type VerificationCandidate = Pick<Incident, 'id' | 'location' | 'timestamp'> &
+    Partial<Pick<Incident, 'title' | 'description' | 'imageHash' | 'verified' | 'reportedBy' | 'relatedArticles'>> & {
+        source?: string; // Source key (lib/domain/source-key.ts) for the reputation ledger
+    };
+
+/**
+ * Ledger reputation (0-1) per source key
+ */
+export type ReputationScores = ReadonlyMap<string, number>;
 
 export interface VerificationResult {
     confidenceScore: number; // 0-100
-    similarReports: Incident[];
-    duplicateMedia: Incident[];
-    factors: {
-        locationMatch: boolean;
-        timeMatch: boolean;
-        mediaMatch: boolean;
-    };
+    modelVersion: string;
+    breakdown: VerificationRuleResult[];
+    similarReports: VerificationCandidate[];
+    duplicateMedia: VerificationCandidate[];
+    factors: VerificationFactors;
+}
+
+/**
+ * A nearby report with its decay factors relative to the target
+ */
+interface Neighbor {
+    report: VerificationCandidate;
+    timeFactor: number;
+    distanceFactor: number;
+    independenceKey: string;
+}
+
+/**
+ * Reports from the same outlet/channel are not independent; crowd reports without a source each count once
+ */
+function getIndependenceKey(report: VerificationCandidate): string {
+    return report.source
+        ?? report.relatedArticles?.[0]?.sourceKey
+        ?? report.relatedArticles?.[0]?.source?.toLowerCase()
+        ?? `report:${report.id}`;
 }
 
+const round = (value: number) => Math.round(value * 100) / 100;
+
 export class VerificationEngine {
     private mediaDedup: MediaDeduplication;
 
-    constructor() {
+    constructor(private model: VerificationModel = getVerificationModel()) {
         this.mediaDedup = new MediaDeduplication();
     }
 
+    get modelVersion(): string {
+        return this.model.version;
+    }
+
     /**
      * Corroborate an incident against a database of other reports
+     * Every rule of the model contributes to the score and is listed in `breakdown`
+     * `reputations` (from the reputation ledger) is used by rules that weight by reputation
      */
     async corroborateIncident(
-        target: Incident,
-        others: Incident[]
+        target: VerificationCandidate,
+        others: VerificationCandidate[],
+        reputations: ReputationScores = new Map()
     ): Promise<VerificationResult> {
-        const similar: Incident[] = [];
-        const duplicates: Incident[] = [];
+        const corroboration = this.model.rules.find(
+            (rule): rule is CorroborationRule => rule.kind === 'corroboration'
+        );
+        const neighbors = this.findNeighbors(target, others, corroboration);
 
-        let timeScore = 0;
-        let locScore = 0;
-        let mediaScore = 0;
+        const mediaRule = this.model.rules.find((rule): rule is MediaMatchRule => rule.kind === 'media_match');
+        const duplicates = target.imageHash
+            ? others.filter(other =>
+                other.id !== target.id &&
+                !!other.imageHash &&
+                this.mediaDedup.isDuplicate(target.imageHash!, other.imageHash, mediaRule?.hammingThreshold)
+            )
+            : [];
 
-        // Constants
-        const TIME_WINDOW_MS = 2 * 60 * 60 * 1000; // +/- 2 hours
-        const DISTANCE_THRESHOLD_KM = 1.0; // 1km radius
+        let score = 0;
+        const breakdown: VerificationRuleResult[] = [];
 
+        for (const rule of this.model.rules) {
+            const evaluated = this.evaluateRule(rule, neighbors, duplicates, reputations);
+            const before = score;
+            score = rule.combine === 'max' ? Math.max(score, evaluated.value) : score + evaluated.value;
+
+            breakdown.push({
+                ruleId: rule.id,
+                kind: rule.kind,
+                description: rule.description,
+                combine: rule.combine,
+                value: round(evaluated.value),
+                contribution: round(score - before),
+                matchedIds: evaluated.matchedIds,
+                details: evaluated.details,
+            });
+        }
+
+        return {
+            confidenceScore: Math.round(Math.min(score, this.model.maxScore)),
+            modelVersion: this.model.version,
+            breakdown,
+            similarReports: neighbors.map(neighbor => neighbor.report),
+            duplicateMedia: duplicates,
+            factors: {
+                locationMatch: neighbors.length > 0,
+                timeMatch: neighbors.length > 0,
+                mediaMatch: duplicates.length > 0
+            }
+        };
+    }
+
+    /**
+     * Reports close enough in both time and space to count at all
+     */
+    private findNeighbors(
+        target: VerificationCandidate,
+        others: VerificationCandidate[],
+        rule?: CorroborationRule
+    ): Neighbor[] {
+        if (!rule) return [];
+
+        const neighbors: Neighbor[] = [];
         for (const other of others) {
             if (other.id === target.id) continue;
 
-            // 1. Check Time Proximity
-            const timeDiff = Math.abs(target.timestamp - other.timestamp);
-            const isTimeClose = timeDiff <= TIME_WINDOW_MS;
-
-            // 2. Check Location Proximity (Haversine)
-            const dist = this.haversineDistance(
-                target.latitude, target.longitude,
-                other.latitude, other.longitude
+            const timeFactor = applyDecay(rule.timeDecay, target.timestamp - other.timestamp);
+            const distanceFactor = applyDecay(
+                rule.distanceDecay,
+                this.haversineDistance(
+                    target.location.lat, target.location.lon,
+                    other.location.lat, other.location.lon
+                )
             );
-            const isLocClose = dist <= DISTANCE_THRESHOLD_KM;
-
-            if (isTimeClose && isLocClose) {
-                similar.push(other);
-                // Add to corroboration score
-                // Each corroborating report adds confidence
-                if (other.verified) {
-                    timeScore += 20; // Verified reports weight more
-                } else {
-                    timeScore += 10;
-                }
+
+            if (timeFactor > 0 && distanceFactor > 0) {
+                neighbors.push({
+                    report: other,
+                    timeFactor,
+                    distanceFactor,
+                    independenceKey: getIndependenceKey(other),
+                });
             }
+        }
+        return neighbors;
+    }
+
+    private evaluateRule(
+        rule: VerificationRule,
+        neighbors: Neighbor[],
+        duplicates: VerificationCandidate[],
+        reputations: ReputationScores
+    ): Pick<VerificationRuleResult, 'value' | 'matchedIds' | 'details'> {
+        switch (rule.kind) {
+            case 'corroboration':
+                return this.evaluateCorroboration(rule, neighbors, reputations);
+            case 'media_match':
+                return this.evaluateMediaMatch(rule, duplicates);
+            case 'independent_sources':
+                return this.evaluateIndependentSources(rule, neighbors);
+        }
+    }
+
+    private evaluateCorroboration(
+        rule: CorroborationRule,
+        neighbors: Neighbor[],
+        reputations: ReputationScores
+    ): Pick<VerificationRuleResult, 'value' | 'matchedIds' | 'details'> {
+        // Strongest contribution per independence key (or per report)
+        const best = new Map<string, { id: string; points: number }>();
+        let reputationWeighted = 0;
+
+        for (const neighbor of neighbors) {
+            const { report } = neighbor;
+            const weight = report.verified ? rule.weights.verified : rule.weights.unverified;
+            const sourceWeight = (report.reportedBy && this.model.sourceWeights[report.reportedBy])
+                ?? this.model.defaultSourceWeight;
+            const score = report.source !== undefined ? reputations.get(report.source) : undefined;
+            const reputation = rule.reputation ? reputationMultiplier(score, rule.reputation) : 1;
+            if (rule.reputation && score !== undefined) reputationWeighted++;
+
+            const points = weight * sourceWeight * reputation * neighbor.timeFactor * neighbor.distanceFactor;
 
-            // 3. Check Media Duplication (if hashes differ, but visuals similar)
-            // If hashes are IDENTICAL/CLOSE, it's a "Duplicate Media"
-            // This could mean:
-            // a) Repost (Spam) -> Negative indicator? 
-            // b) Same event, different angle? (No, hash logic detects same image)
-            // c) Same image, different user -> Corroboration of the *image* existence, but maybe not independent sighting.
-            // Usually, exact image match from different users = Viral spread, not necessarily independent verification.
-            // BUT if the same image appears in a *verified* report, this new report is likely true (repost).
-
-            if (target.imageHash && other.imageHash) {
-                const isDup = this.mediaDedup.isDuplicate(target.imageHash, other.imageHash);
-                if (isDup) {
-                    duplicates.push(other);
-                    if (other.verified) mediaScore = 50; // High confidence if matches verified media
-                }
+            const key = rule.onePerSource ? neighbor.independenceKey : neighbor.report.id;
+            const current = best.get(key);
+            if (!current || points > current.points) {
+                best.set(key, { id: neighbor.report.id, points });
             }
         }
 
-        // Cap scores
-        let finalScore = 0;
+        const total = Array.from(best.values()).reduce((sum, entry) => sum + entry.points, 0);
 
-        // Base confidence from corroboration
-        // 1 similar unverified = 10
-        // 3 similar unverified = 30
-        // 1 similar verified = 20
-        finalScore += Math.min(timeScore, 60); // Cap crowd corroboration at 60%
+        return {
+            value: Math.min(total, rule.cap),
+            matchedIds: Array.from(best.values()).map(entry => entry.id),
+            details: {
+                nearbyReports: neighbors.length,
+                countedReports: best.size,
+                reputationWeighted,
+                uncapped: round(total),
+                cap: rule.cap,
+            },
+        };
+    }
 
-        // Media match with verified source?
-        finalScore = Math.max(finalScore, mediaScore);
+    private evaluateMediaMatch(
+        rule: MediaMatchRule,
+        duplicates: VerificationCandidate[]
+    ): Pick<VerificationRuleResult, 'value' | 'matchedIds' | 'details'> {
+        const verifiedMatches = duplicates.filter(duplicate => duplicate.verified);
+        const value = verifiedMatches.length > 0
+            ? rule.verifiedWeight
+            : duplicates.length > 0 ? rule.unverifiedWeight : 0;
 
-        // If we have >3 similar reports, that's strong evidence
-        if (similar.length > 3) finalScore += 20;
+        return {
+            value,
+            matchedIds: duplicates.map(duplicate => duplicate.id),
+            details: {
+                matches: duplicates.length,
+                verifiedMatches: verifiedMatches.length,
+                hammingThreshold: rule.hammingThreshold,
+            },
+        };
+    }
+
+    private evaluateIndependentSources(
+        rule: IndependentSourcesRule,
+        neighbors: Neighbor[]
+    ): Pick<VerificationRuleResult, 'value' | 'matchedIds' | 'details'> {
+        const count = rule.countBy === 'source'
+            ? new Set(neighbors.map(neighbor => neighbor.independenceKey)).size
+            : neighbors.length;
 
         return {
-            confidenceScore: Math.min(finalScore, 100),
-            similarReports: similar,
-            duplicateMedia: duplicates,
-            factors: {
-                locationMatch: similar.length > 0,
-                timeMatch: similar.length > 0,
-                mediaMatch: duplicates.length > 0
-            }
+            value: count >= rule.minCount ? rule.bonus : 0,
+            matchedIds: [],
+            details: { count, minCount: rule.minCount, countBy: rule.countBy },
         };
     }
 
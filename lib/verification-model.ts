@@ -0,0 +1,217 @@
+/**
+ * Verification scoring models
+ * A model is plain data: an ordered list of rules that VerificationEngine applies
+ * to a report and the nearby reports around it. Each rule yields its own score,
+ * which is combined into the running total ('add' or 'max'), and is reported in
+ * the result breakdown.
+ *
+ * To tune scoring, add a new model version here rather than editing an existing
+ * one: stored results record the version that produced them.
+ */
+
+/**
+ * How a factor falls off with distance (km) or time difference (ms)
+ * - step: 1 up to `cutoff`, then 0
+ * - linear: 1 up to `full`, falling linearly to 0 at `cutoff`
+ * - exponential: halves every `halfLife`, 0 beyond `cutoff`
+ */
+export type DecayCurve =
+  | { type: 'step'; cutoff: number }
+  | { type: 'linear'; full: number; cutoff: number }
+  | { type: 'exponential'; halfLife: number; cutoff: number };
+
+export type RuleCombine = 'add' | 'max';
+
+interface BaseRule {
+  id: string;
+  description: string;
+  combine: RuleCombine;
+}
+
+/**
+ * Each nearby report adds weight x source weight x time decay x distance decay
+ * (x ledger reputation when `reputation` is set)
+ */
+export interface CorroborationRule extends BaseRule {
+  kind: 'corroboration';
+  weights: { verified: number; unverified: number };
+  timeDecay: DecayCurve;     // Over |time difference| in ms
+  distanceDecay: DecayCurve; // Over distance in km
+  onePerSource: boolean;     // Count only the strongest report from each independent source
+  cap: number;
+  // Multiplier from the source reputation ledger: score / 0.5, clamped to [min, max].
+  // Sources without a ledger record count as 1.
+  reputation?: { min: number; max: number };
+}
+
+/**
+ * Same image (perceptual hash within `hammingThreshold` bits) as another report
+ */
+export interface MediaMatchRule extends BaseRule {
+  kind: 'media_match';
+  hammingThreshold: number;
+  verifiedWeight: number;
+  unverifiedWeight: number;
+}
+
+/**
+ * Bonus once enough nearby reports agree
+ */
+export interface IndependentSourcesRule extends BaseRule {
+  kind: 'independent_sources';
+  countBy: 'report' | 'source';
+  minCount: number;
+  bonus: number;
+}
+
+export type VerificationRule = CorroborationRule | MediaMatchRule | IndependentSourcesRule;
+
+export interface VerificationModel {
+  version: string;
+  description: string;
+  maxScore: number;
+  // Static multiplier per reporter kind (Incident.reportedBy)
+  sourceWeights: Record<string, number>;
+  defaultSourceWeight: number;
+  rules: VerificationRule[];
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * The original hard-coded scoring: ±2h / 1km windows, +10/+20 per report capped at 60,
+ * 50 for media matching a verified report, +20 for more than 3 reports
+ */
+const V1: VerificationModel = {
+  version: 'v1',
+  description: 'Original fixed windows, every nearby report counted',
+  maxScore: 100,
+  sourceWeights: {},
+  defaultSourceWeight: 1,
+  rules: [
+    {
+      id: 'crowd_corroboration',
+      kind: 'corroboration',
+      description: 'Reports within 2h and 1km',
+      combine: 'add',
+      weights: { verified: 20, unverified: 10 },
+      timeDecay: { type: 'step', cutoff: 2 * HOUR },
+      distanceDecay: { type: 'step', cutoff: 1 },
+      onePerSource: false,
+      cap: 60,
+    },
+    {
+      id: 'media_match',
+      kind: 'media_match',
+      description: 'Same image as a verified report',
+      combine: 'max',
+      hammingThreshold: 5,
+      verifiedWeight: 50,
+      unverifiedWeight: 0,
+    },
+    {
+      id: 'many_reports',
+      kind: 'independent_sources',
+      description: 'More than 3 nearby reports',
+      combine: 'add',
+      countBy: 'report',
+      minCount: 4,
+      bonus: 20,
+    },
+  ],
+};
+
+/**
+ * Decaying windows, reputation weights and independent-source counting
+ */
+const V2: VerificationModel = {
+  version: 'v2',
+  description: 'Decaying time/distance windows, source reputation, one vote per independent source',
+  maxScore: 100,
+  sourceWeights: { official: 1, crowdsource: 0.75 },
+  defaultSourceWeight: 1,
+  rules: [
+    {
+      id: 'crowd_corroboration',
+      kind: 'corroboration',
+      description: 'Nearby reports, weighted by how close in time and space',
+      combine: 'add',
+      weights: { verified: 20, unverified: 10 },
+      timeDecay: { type: 'linear', full: 30 * 60 * 1000, cutoff: 3 * HOUR },
+      distanceDecay: { type: 'exponential', halfLife: 1, cutoff: 5 },
+      onePerSource: true,
+      cap: 60,
+    },
+    {
+      id: 'media_match',
+      kind: 'media_match',
+      description: 'Same image as another report',
+      combine: 'max',
+      hammingThreshold: 5,
+      verifiedWeight: 50,
+      unverifiedWeight: 15,
+    },
+    {
+      id: 'independent_sources',
+      kind: 'independent_sources',
+      description: 'At least 3 independent sources nearby',
+      combine: 'add',
+      countBy: 'source',
+      minCount: 3,
+      bonus: 20,
+    },
+  ],
+};
+
+/**
+ * v2 with corroborations weighted by the source reputation ledger
+ */
+const V3: VerificationModel = {
+  ...V2,
+  version: 'v3',
+  description: 'v2 plus corroborations weighted by source reputation',
+  rules: V2.rules.map(rule =>
+    rule.kind === 'corroboration' ? { ...rule, reputation: { min: 0.25, max: 1.5 } } : rule
+  ),
+};
+
+export const VERIFICATION_MODELS: Record<string, VerificationModel> = {
+  [V1.version]: V1,
+  [V2.version]: V2,
+  [V3.version]: V3,
+};
+
+export const DEFAULT_VERIFICATION_MODEL_VERSION = V3.version;
+
+/**
+ * Ledger score (0-1, 0.5 neutral) as a corroboration multiplier
+ */
+export function reputationMultiplier(score: number | undefined, range: { min: number; max: number }): number {
+  if (score === undefined) return 1;
+  return Math.min(range.max, Math.max(range.min, score / 0.5));
+}
+
+/**
+ * Model selected by VERIFICATION_MODEL_VERSION (unknown versions fall back to the default)
+ */
+export function getVerificationModel(version = process.env.VERIFICATION_MODEL_VERSION): VerificationModel {
+  return (version && VERIFICATION_MODELS[version]) || VERIFICATION_MODELS[DEFAULT_VERIFICATION_MODEL_VERSION];
+}
+
+/**
+ * Evaluate a decay curve at x (0..1)
+ */
+export function applyDecay(curve: DecayCurve, x: number): number {
+  const distance = Math.abs(x);
+  if (distance > curve.cutoff) return 0;
+
+  switch (curve.type) {
+    case 'step':
+      return 1;
+    case 'linear':
+      if (distance <= curve.full) return 1;
+      return curve.cutoff === curve.full ? 0 : 1 - (distance - curve.full) / (curve.cutoff - curve.full);
+    case 'exponential':
+      return Math.pow(0.5, distance / curve.halfLife);
+  }
+}
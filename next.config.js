@@ -78,7 +78,7 @@ const nextConfig = {
             priority: 20,
           },
           algolia: {
-            test: /[\\/]node_modules[\\/](algoliasearch|fuse\.js)[\\/]/,
+            test: /[\\/]node_modules[\\/](algoliasearch)[\\/]/,
             name: 'search',
             priority: 15,
           },
@@ -28,6 +28,7 @@ self.addEventListener('push', function(event) {
       notification.title = data.title || notification.title;
       notification.body = data.body || notification.body;
       notification.data.url = data.url || notification.data.url;
+      notification.data.id = data.id; // Delivery log ID, reported back on click
       notification.tag = data.tag || 'news-update';
     } catch (e) {
       console.error('[Service Worker] Error parsing push data:', e);
@@ -39,6 +40,26 @@ self.addEventListener('push', function(event) {
   );
 });
 
+// Record the click in the delivery log (best-effort)
+function reportClick(notificationId) {
+  if (!notificationId) {
+    return Promise.resolve();
+  }
+
+  return self.registration.pushManager.getSubscription().then(function(subscription) {
+    if (!subscription) {
+      return;
+    }
+    return fetch('/api/push/click', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ notificationId: notificationId, endpoint: subscription.endpoint }),
+    });
+  }).catch(function(err) {
+    console.error('[Service Worker] Click report failed:', err);
+  });
+}
+
 // Handle notification clicks
 self.addEventListener('notificationclick', function(event) {
   console.log('[Service Worker] Notification click received:', event);
@@ -49,10 +70,11 @@ self.addEventListener('notificationclick', function(event) {
     return;
   }
 
-  // Navigate to the URL
-  const urlToOpen = event.notification.data?.url || '/';
+  // Navigate to the URL (absolute, to compare with open windows)
+  const urlToOpen = new URL(event.notification.data?.url || '/', self.location.origin).href;
 
-  event.waitUntil(
+  event.waitUntil(Promise.all([
+    reportClick(event.notification.data?.id),
     clients.matchAll({ type: 'window', includeUncontrolled: true }).then(function(clientList) {
       // Check if there's already a window open
       for (let i = 0; i < clientList.length; i++) {
@@ -66,8 +88,8 @@ self.addEventListener('notificationclick', function(event) {
       if (clients.openWindow) {
         return clients.openWindow(urlToOpen);
       }
-    })
-  );
+    }),
+  ]));
 });
 
 // Background sync for offline reports (future enhancement)
@@ -0,0 +1,83 @@
+/**
+ * Upgrade stored incidents to the current schema version
+ * Run with: npx tsx scripts/migrate-incidents.ts [--dry-run]
+ *
+ * Uses the backend selected by STORAGE_BACKEND (firestore by default).
+ */
+
+import { getDb, isFirestoreAvailable } from '../lib/firestore';
+import { getAllDocuments, putDocuments, closeSqlite } from '../lib/sqlite';
+import { runIncidentMigrations, IncidentDocumentStore } from '../lib/domain/incident-migrations';
+import { INCIDENT_SCHEMA_VERSION } from '../lib/domain/incident';
+
+const PAGE_SIZE = 500;
+
+const firestoreStore: IncidentDocumentStore = {
+  async *pages() {
+    let query = getDb().collection('incidents').orderBy('__name__').limit(PAGE_SIZE);
+
+    while (true) {
+      const snapshot = await query.get();
+      yield snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }));
+
+      if (snapshot.size < PAGE_SIZE) break;
+      query = getDb().collection('incidents').orderBy('__name__').startAfter(snapshot.docs[snapshot.size - 1]).limit(PAGE_SIZE);
+    }
+  },
+  async write(docs) {
+    const batch = getDb().batch();
+    for (const { id, ...data } of docs) {
+      batch.set(getDb().collection('incidents').doc(id), data);
+    }
+    await batch.commit();
+  },
+};
+
+const sqliteStore: IncidentDocumentStore = {
+  async *pages() {
+    yield getAllDocuments('incidents');
+  },
+  async write(docs) {
+    putDocuments('incidents', docs);
+  },
+};
+
+async function migrate() {
+  const dryRun = process.argv.includes('--dry-run');
+  const backend = process.env.STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'firestore';
+
+  if (backend === 'firestore' && !isFirestoreAvailable()) {
+    console.error('❌ Firestore not available (set FIREBASE_SERVICE_ACCOUNT or GOOGLE_APPLICATION_CREDENTIALS)');
+    process.exit(1);
+  }
+
+  console.log(`\n🔧 Upgrading ${backend} incidents to schema v${INCIDENT_SCHEMA_VERSION}${dryRun ? ' (dry run)' : ''}\n`);
+
+  const report = await runIncidentMigrations(backend === 'sqlite' ? sqliteStore : firestoreStore, { dryRun });
+
+  for (const [version, count] of Object.entries(report.byVersion)) {
+    console.log(`  v${version}: ${count} documents`);
+  }
+  console.log(`\n  Scanned:  ${report.scanned}`);
+  console.log(`  Upgraded: ${report.upgraded}${dryRun ? ' (not written)' : ''}`);
+
+  if (report.invalid.length > 0) {
+    console.log(`\n⚠️  ${report.invalid.length} documents could not be upgraded:`);
+    for (const { id, issues } of report.invalid) {
+      console.log(`  - ${id}: ${issues.join('; ')}`);
+    }
+  }
+
+  console.log('');
+}
+
+migrate()
+  .then(() => {
+    closeSqlite();
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Migration failed:', error);
+    closeSqlite();
+    process.exit(1);
+  });
@@ -0,0 +1,123 @@
+/**
+ * Copy documents between the Firestore and SQLite storage backends
+ * Run with: npx tsx scripts/migrate-storage.ts --from firestore --to sqlite [--collections articles,incidents]
+ *
+ * Documents keep their IDs, so re-running the migration overwrites rather than duplicates.
+ * Firestore Timestamps are converted to epoch millis on the way out.
+ */
+
+import { getDb, isFirestoreAvailable } from '../lib/firestore';
+import {
+  SQLITE_COLLECTIONS,
+  SqliteCollection,
+  getAllDocuments,
+  putDocuments,
+  closeSqlite,
+} from '../lib/sqlite';
+
+type Backend = 'firestore' | 'sqlite';
+type Doc = Record<string, any>;
+
+const PAGE_SIZE = 500;
+
+function parseArgs(): { from: Backend; to: Backend; collections: SqliteCollection[] } {
+  const args = process.argv.slice(2);
+  const get = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const from = get('--from');
+  const to = get('--to');
+  if (!from || !to || from === to || ![from, to].every(b => b === 'firestore' || b === 'sqlite')) {
+    console.error('Usage: tsx scripts/migrate-storage.ts --from firestore|sqlite --to sqlite|firestore [--collections a,b]');
+    process.exit(1);
+  }
+
+  const requested = get('--collections')?.split(',').map(c => c.trim()) ?? SQLITE_COLLECTIONS;
+  const unknown = requested.filter(c => !SQLITE_COLLECTIONS.includes(c as SqliteCollection));
+  if (unknown.length > 0) {
+    console.error(`Unknown collections: ${unknown.join(', ')}`);
+    console.error(`Available: ${SQLITE_COLLECTIONS.join(', ')}`);
+    process.exit(1);
+  }
+
+  return { from: from as Backend, to: to as Backend, collections: requested as SqliteCollection[] };
+}
+
+/**
+ * Replace Firestore Timestamps with epoch millis (recursively)
+ */
+function toPlain(value: any): any {
+  if (value && typeof value.toMillis === 'function') return value.toMillis();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toPlain(v)]));
+  }
+  return value;
+}
+
+async function readFirestore(collection: SqliteCollection): Promise<Doc[]> {
+  const docs: Doc[] = [];
+  let query = getDb().collection(collection).orderBy('__name__').limit(PAGE_SIZE);
+
+  while (true) {
+    const snapshot = await query.get();
+    for (const doc of snapshot.docs) {
+      docs.push({ ...toPlain(doc.data()), id: doc.id });
+    }
+    if (snapshot.size < PAGE_SIZE) break;
+    query = getDb().collection(collection).orderBy('__name__').startAfter(snapshot.docs[snapshot.size - 1]).limit(PAGE_SIZE);
+  }
+
+  return docs;
+}
+
+async function writeFirestore(collection: SqliteCollection, docs: Doc[]): Promise<void> {
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < docs.length; i += PAGE_SIZE) {
+    const batch = getDb().batch();
+    for (const doc of docs.slice(i, i + PAGE_SIZE)) {
+      batch.set(getDb().collection(collection).doc(doc.id), JSON.parse(JSON.stringify(doc)));
+    }
+    await batch.commit();
+  }
+}
+
+async function migrate() {
+  const { from, to, collections } = parseArgs();
+
+  if ((from === 'firestore' || to === 'firestore') && !isFirestoreAvailable()) {
+    console.error('❌ Firestore not available (set FIREBASE_SERVICE_ACCOUNT or GOOGLE_APPLICATION_CREDENTIALS)');
+    process.exit(1);
+  }
+
+  console.log(`\n📦 Migrating ${collections.length} collections: ${from} → ${to}\n`);
+
+  let total = 0;
+  for (const collection of collections) {
+    const docs = from === 'firestore' ? await readFirestore(collection) : getAllDocuments(collection);
+
+    if (to === 'sqlite') {
+      putDocuments(collection, docs);
+    } else {
+      await writeFirestore(collection, docs);
+    }
+
+    console.log(`  ✓ ${collection}: ${docs.length} documents`);
+    total += docs.length;
+  }
+
+  console.log(`\n✅ Migrated ${total} documents\n`);
+}
+
+migrate()
+  .then(() => {
+    closeSqlite();
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Migration failed:', error);
+    closeSqlite();
+    process.exit(1);
+  });
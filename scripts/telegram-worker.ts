@@ -0,0 +1,40 @@
+/**
+ * Real-time Telegram ingestion worker
+ * Run with: npm run worker:telegram
+ *
+ * Needs the Telegram User API credentials (TELEGRAM_API_ID, TELEGRAM_API_HASH,
+ * TELEGRAM_SESSION_STRING) and the app's storage and media settings. Keep the news cron
+ * running alongside: it covers the other sources and any gap while the worker is down.
+ */
+
+import { ServiceContainer } from '../lib/services/container';
+import { TelegramIngestionWorker } from '../lib/services/news/realtime/telegram-ingestion-worker';
+import { logger } from '../lib/logger';
+
+async function main() {
+  const worker = new TelegramIngestionWorker(
+    ServiceContainer.getNewsService(),
+    ServiceContainer.getCursorRepository(),
+    ServiceContainer.getMediaLibrary()
+  );
+
+  let stopping = false;
+  const shutdown = (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    logger.info('telegram_worker_shutdown', { signal });
+    worker.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  await worker.run();
+}
+
+main().catch(error => {
+  logger.error('telegram_worker_crashed', {
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+  process.exit(1);
+});